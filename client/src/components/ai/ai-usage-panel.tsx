@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Cpu, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { AIUsageResponse } from "@shared/schema";
+
+const PERIODS = [7, 30, 90];
+
+const formatCost = (value: number) => `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+const formatTokens = (value: number) =>
+  value >= 1_000_000 ? `${(value / 1_000_000).toFixed(1)}M` : value >= 1_000 ? `${(value / 1_000).toFixed(1)}k` : `${value}`;
+
+// AI provider spend from the invocation audit log, shown against tool spend and the monthly budget
+export function AIUsagePanel() {
+  const [days, setDays] = useState(30);
+
+  const { data: usage, isLoading } = useQuery<AIUsageResponse>({
+    queryKey: ["/api/ai/usage", days],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/ai/usage?days=${days}`);
+      return await response.json();
+    },
+    staleTime: 60 * 1000,
+  });
+
+  const combinedMonthly = usage ? usage.toolMonthlySpend + usage.totals.projectedMonthlyCost : 0;
+  const budgetPercentage = usage?.monthlyBudget ? Math.min((combinedMonthly / usage.monthlyBudget) * 100, 100) : 0;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Cpu className="h-5 w-5" />
+            AI Usage
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {PERIODS.map(period => (
+              <Button
+                key={period}
+                variant={days === period ? "default" : "outline"}
+                size="sm"
+                onClick={() => setDays(period)}
+                data-testid={`button-ai-usage-${period}d`}
+              >
+                {period} Days
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !usage ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <div className="text-center p-4 rounded-lg bg-muted/30">
+                <p className="text-sm font-medium text-muted-foreground mb-1">AI Spend</p>
+                <p className="text-lg font-bold" data-testid="text-ai-spend">{formatCost(usage.totals.estimatedCost)}</p>
+                <p className="text-xs text-muted-foreground">last {usage.days} days</p>
+              </div>
+              <div className="text-center p-4 rounded-lg bg-muted/30">
+                <p className="text-sm font-medium text-muted-foreground mb-1">Projected Monthly</p>
+                <p className="text-lg font-bold" data-testid="text-ai-projected">{formatCost(usage.totals.projectedMonthlyCost)}</p>
+                <p className="text-xs text-muted-foreground">at the current rate</p>
+              </div>
+              <div className="text-center p-4 rounded-lg bg-muted/30">
+                <p className="text-sm font-medium text-muted-foreground mb-1">Tokens</p>
+                <p className="text-lg font-bold" data-testid="text-ai-tokens">
+                  {formatTokens(usage.totals.inputTokens + usage.totals.outputTokens)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatTokens(usage.totals.inputTokens)} in / {formatTokens(usage.totals.outputTokens)} out
+                </p>
+              </div>
+              <div className="text-center p-4 rounded-lg bg-muted/30">
+                <p className="text-sm font-medium text-muted-foreground mb-1">Requests</p>
+                <p className="text-lg font-bold" data-testid="text-ai-invocations">{usage.totals.invocations}</p>
+                <p className="text-xs text-muted-foreground">
+                  {usage.totals.failures} failed · {(usage.totals.averageLatencyMs / 1000).toFixed(1)}s avg
+                </p>
+              </div>
+            </div>
+
+            <div className="mb-6 p-4 rounded-lg border bg-card" data-testid="ai-usage-budget">
+              <div className="flex items-center justify-between text-sm mb-2">
+                <span className="font-medium">Tools + AI per month</span>
+                <span>
+                  ${usage.toolMonthlySpend.toFixed(2)} tools + {formatCost(usage.totals.projectedMonthlyCost)} AI
+                  {usage.monthlyBudget !== null && ` of $${usage.monthlyBudget.toFixed(2)} budget`}
+                </span>
+              </div>
+              {usage.monthlyBudget !== null ? (
+                <Progress value={budgetPercentage} className="h-2" />
+              ) : (
+                <p className="text-xs text-muted-foreground">Set a monthly budget to track AI spend against it.</p>
+              )}
+            </div>
+
+            {usage.byOperation.length === 0 ? (
+              <p className="text-sm text-muted-foreground" data-testid="text-ai-usage-empty">
+                No AI requests in the last {usage.days} days.
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <h4 className="text-sm font-medium mb-2">By Feature</h4>
+                  <div className="space-y-2" data-testid="list-ai-usage-operations">
+                    {usage.byOperation.map(item => (
+                      <div key={item.key} className="flex items-center justify-between text-sm">
+                        <span>{item.key}</span>
+                        <span className="text-muted-foreground">
+                          {item.invocations} × · {formatTokens(item.inputTokens + item.outputTokens)} tokens · {formatCost(item.estimatedCost)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <h4 className="text-sm font-medium mb-2">By Model</h4>
+                  <div className="space-y-2" data-testid="list-ai-usage-models">
+                    {usage.byModel.map(item => (
+                      <div key={item.key} className="flex items-center justify-between text-sm">
+                        <Badge variant="outline">{item.key}</Badge>
+                        <span className="text-muted-foreground">
+                          {item.invocations} × · {formatCost(item.estimatedCost)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  {usage.recent.some(invocation => invocation.usageEstimated) && (
+                    <p className="text-xs text-muted-foreground mt-3">
+                      Some token counts are estimated because the provider did not report usage.
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
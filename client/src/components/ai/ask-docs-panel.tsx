@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { BookOpen, Loader2, Sparkles } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { DocAnswerResponse } from "@shared/schema";
+
+// Question box that answers from the documentation and lists the sections it cites
+export function AskDocsPanel() {
+  const { toast } = useToast();
+  const [question, setQuestion] = useState("");
+
+  const askMutation = useMutation({
+    mutationFn: async (text: string): Promise<DocAnswerResponse> => {
+      const response = await apiRequest("POST", "/api/docs/ask", { question: text });
+      return await response.json();
+    },
+    onError: (error) => {
+      toast({ title: "Could not answer", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleAsk = () => {
+    const text = question.trim();
+    if (text) askMutation.mutate(text);
+  };
+
+  const answer = askMutation.data;
+
+  return (
+    <Card data-testid="card-ask-docs">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+          Ask the docs
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            value={question}
+            onChange={event => setQuestion(event.target.value)}
+            onKeyDown={event => {
+              if (event.key === "Enter") handleAsk();
+            }}
+            placeholder="How do I verify Stripe webhooks?"
+            maxLength={500}
+            data-testid="input-ask-docs"
+          />
+          <Button onClick={handleAsk} disabled={question.trim().length < 3 || askMutation.isPending} data-testid="button-ask-docs">
+            {askMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Ask"}
+          </Button>
+        </div>
+
+        {answer && (
+          <div className="space-y-3" data-testid="text-docs-answer">
+            {answer.source === "heuristic" && <Badge variant="outline" className="text-xs">Matching sections</Badge>}
+            <p className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-200">{answer.answer}</p>
+            {answer.citations.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-900 dark:text-white">Sources</h4>
+                <ol className="space-y-2">
+                  {answer.citations.map((citation, index) => (
+                    <li key={`${citation.articleId}-${citation.heading}`} className="text-sm">
+                      <Link href={`/docs/${citation.slug}`} className="flex items-center gap-1 font-medium text-blue-600 hover:underline dark:text-blue-400">
+                        <BookOpen className="h-3 w-3" />
+                        [{index + 1}] {citation.heading ? `${citation.title} > ${citation.heading}` : citation.title}
+                      </Link>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{citation.snippet}</p>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,5 @@
+// AI usage, refinement, documentation answer and prompt template components
+export { AIUsagePanel } from "./ai-usage-panel";
+export { RefinementThreadDialog } from "./refinement-thread-dialog";
+export { AskDocsPanel } from "./ask-docs-panel";
+export { PromptTemplatesDialog } from "./prompt-templates-dialog";
@@ -0,0 +1,240 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Eye, FileText, History, Loader2, RotateCcw, Save } from "lucide-react";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  PromptTemplateDetail,
+  PromptTemplateKey,
+  PromptTemplatePreviewResponse,
+  PromptTemplateSummary,
+} from "@shared/schema";
+
+interface PromptTemplatesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Edits, previews and rolls back the prompt templates the AI generators use for this account
+export function PromptTemplatesDialog({ isOpen, onClose }: PromptTemplatesDialogProps) {
+  const { toast } = useToast();
+  const [selectedKey, setSelectedKey] = useState<PromptTemplateKey>("enhanced-business-ideas");
+  const [draft, setDraft] = useState("");
+  const [note, setNote] = useState("");
+  const detailUrl = `/api/prompt-templates/${selectedKey}`;
+
+  const { data: templates = [] } = useQuery<PromptTemplateSummary[]>({
+    queryKey: ["/api/prompt-templates"],
+    enabled: isOpen,
+  });
+
+  const { data: detail, isLoading } = useQuery<PromptTemplateDetail>({
+    queryKey: [detailUrl],
+    enabled: isOpen,
+  });
+
+  useEffect(() => {
+    if (detail) setDraft(detail.body);
+  }, [detail]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/prompt-templates"] });
+    queryClient.invalidateQueries({ queryKey: [detailUrl] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${detailUrl}/versions`, { body: draft, note: note.trim() || undefined });
+      return await response.json();
+    },
+    onSuccess: () => {
+      setNote("");
+      refresh();
+      toast({ title: "Template saved", description: "New generations use this version." });
+    },
+    onError: (error) => {
+      toast({ title: "Template not saved", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest("POST", `${detailUrl}/rollback`, { version });
+      return await response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Template rolled back" });
+    },
+    onError: (error) => {
+      toast({ title: "Rollback failed", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (): Promise<PromptTemplatePreviewResponse> => {
+      const response = await apiRequest("POST", `${detailUrl}/preview`, { body: draft });
+      return await response.json();
+    },
+    onError: (error) => {
+      toast({ title: "Preview failed", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const selectTemplate = (key: PromptTemplateKey) => {
+    setSelectedKey(key);
+    setNote("");
+    previewMutation.reset();
+  };
+
+  const preview = previewMutation.data;
+  const isDirty = detail !== undefined && draft !== detail.body;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto" data-testid="modal-prompt-templates">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Prompt Templates
+          </DialogTitle>
+          <DialogDescription>
+            Edits are shared with everyone in the active workspace; in your personal space they only change your own generations.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Select value={selectedKey} onValueChange={value => selectTemplate(value as PromptTemplateKey)}>
+            <SelectTrigger data-testid="select-prompt-template">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map(template => (
+                <SelectItem key={template.key} value={template.key}>
+                  {template.name}{template.activeVersion > 0 ? ` (v${template.activeVersion})` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {isLoading || !detail ? (
+            <div className="flex items-center justify-center py-8 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">{detail.description}</p>
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(detail.variables).map(([name, description]) => (
+                  <Badge key={name} variant="outline" title={description} className="font-mono text-xs">
+                    {`{{${name}}}`}
+                  </Badge>
+                ))}
+              </div>
+
+              <Textarea
+                value={draft}
+                onChange={event => setDraft(event.target.value)}
+                className="min-h-[320px] font-mono text-xs"
+                data-testid="input-prompt-template-body"
+              />
+
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  value={note}
+                  onChange={event => setNote(event.target.value)}
+                  placeholder="What changed? (optional)"
+                  maxLength={200}
+                  className="max-w-xs"
+                  data-testid="input-prompt-template-note"
+                />
+                <Button onClick={() => saveMutation.mutate()} disabled={!isDirty || saveMutation.isPending} data-testid="button-save-prompt-template">
+                  {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                  Save version
+                </Button>
+                <Button variant="outline" onClick={() => previewMutation.mutate()} disabled={previewMutation.isPending} data-testid="button-preview-prompt-template">
+                  <Eye className="h-4 w-4 mr-2" />
+                  Preview
+                </Button>
+                {isDirty && (
+                  <Button variant="ghost" onClick={() => setDraft(detail.body)}>
+                    Discard changes
+                  </Button>
+                )}
+              </div>
+
+              {preview && (
+                <div className="space-y-2 rounded-md border bg-muted p-3" data-testid="text-prompt-preview">
+                  {preview.unknownVariables.length > 0 && (
+                    <p className="text-xs text-destructive">Unknown variables: {preview.unknownVariables.join(", ")}</p>
+                  )}
+                  {preview.missingVariables.length > 0 && (
+                    <p className="text-xs text-destructive">Missing required variables: {preview.missingVariables.join(", ")}</p>
+                  )}
+                  <pre className="max-h-64 overflow-y-auto whitespace-pre-wrap text-xs">{preview.prompt}</pre>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <h4 className="flex items-center gap-2 text-sm font-medium">
+                  <History className="h-4 w-4" />
+                  Versions
+                </h4>
+                <ul className="space-y-1 text-sm">
+                  {detail.versions.map(version => (
+                    <li key={version.id} className="flex items-center justify-between gap-2">
+                      <span>
+                        v{version.version}
+                        {version.version === detail.activeVersion && <Badge variant="secondary" className="ml-2 text-xs">active</Badge>}
+                        <span className="ml-2 text-muted-foreground">
+                          {version.note ?? "No note"}
+                          {version.createdAt && ` · ${new Date(version.createdAt).toLocaleString()}`}
+                        </span>
+                      </span>
+                      {version.version !== detail.activeVersion && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => rollbackMutation.mutate(version.version)}
+                          disabled={rollbackMutation.isPending}
+                          data-testid={`button-rollback-prompt-template-${version.version}`}
+                        >
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          Roll back
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                  <li className="flex items-center justify-between gap-2">
+                    <span>
+                      Built-in default
+                      {detail.activeVersion === 0 && <Badge variant="secondary" className="ml-2 text-xs">active</Badge>}
+                    </span>
+                    {detail.activeVersion !== 0 && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => rollbackMutation.mutate(0)}
+                        disabled={rollbackMutation.isPending}
+                        data-testid="button-restore-default-prompt-template"
+                      >
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Restore
+                      </Button>
+                    )}
+                  </li>
+                </ul>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
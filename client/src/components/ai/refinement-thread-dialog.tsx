@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, Loader2, MessageSquare, Send, X } from "lucide-react";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  RefinementApplyResponse,
+  RefinementDiff,
+  RefinementFieldChange,
+  RefinementMessage,
+  RefinementReplyResponse,
+  RefinementTargetType,
+  RefinementThreadResponse,
+} from "@shared/schema";
+
+interface RefinementThreadDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  targetType: RefinementTargetType;
+  targetId: string;
+  title: string;
+}
+
+const EXAMPLE_PROMPTS: Record<RefinementTargetType, string[]> = {
+  idea: ["Drop Firebase, use Supabase", "Make it a B2B product", "Cut the tasks down to an MVP"],
+  roadmap: ["Halve the budget", "Finish a month earlier", "Skip Kubernetes for now"],
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+function FieldChanges({ changes }: { changes: RefinementFieldChange[] }) {
+  return (
+    <ul className="space-y-1">
+      {changes.map(change => (
+        <li key={change.field} className="text-xs">
+          <span className="font-medium">{change.field}:</span>{" "}
+          <span className="text-muted-foreground line-through">{formatValue(change.before)}</span>{" "}
+          <span>{formatValue(change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function DiffSummary({ diff }: { diff: RefinementDiff }) {
+  return (
+    <div className="space-y-3 rounded-md border bg-background p-3">
+      {diff.fields.length > 0 && <FieldChanges changes={diff.fields} />}
+      {diff.timeline.map(change => (
+        <div key={`phase-${change.phase}`}>
+          <div className="flex items-center gap-2 text-xs font-medium">
+            <Badge variant="outline" className="text-xs">{change.changeType}</Badge>
+            Phase {change.phase}: {change.title}
+          </div>
+          {change.changeType === "modified" && change.before && change.after && (
+            <FieldChanges
+              changes={(Object.keys(change.after) as Array<keyof typeof change.after>)
+                .filter(key => JSON.stringify(change.before![key]) !== JSON.stringify(change.after![key]))
+                .map(key => ({ field: key, before: change.before![key], after: change.after![key] }))}
+            />
+          )}
+        </div>
+      ))}
+      {diff.tasks.map((change, index) => (
+        <div key={change.taskId ?? `added-${index}`}>
+          <div className="flex items-center gap-2 text-xs font-medium">
+            <Badge variant="outline" className="text-xs">{change.changeType}</Badge>
+            Task: {change.title}
+          </div>
+          {change.changeType === "modified" && <FieldChanges changes={change.fields} />}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Chat thread attached to a saved idea or roadmap; assistant replies propose diffs the user applies or discards
+export function RefinementThreadDialog({ isOpen, onClose, targetType, targetId, title }: RefinementThreadDialogProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState("");
+  const threadUrl = targetType === "idea" ? `/api/saved-ideas/${targetId}/refinement` : `/api/roadmaps/${targetId}/refinement`;
+
+  const { data: thread, isLoading } = useQuery<RefinementThreadResponse>({
+    queryKey: [threadUrl],
+    enabled: isOpen,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (content: string): Promise<RefinementReplyResponse> => {
+      const response = await apiRequest("POST", `${threadUrl}/messages`, { content });
+      return await response.json();
+    },
+    onSuccess: () => {
+      setDraft("");
+      queryClient.invalidateQueries({ queryKey: [threadUrl] });
+    },
+    onError: (error) => {
+      toast({ title: "Message not sent", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ message, action }: { message: RefinementMessage; action: "apply" | "discard" }) => {
+      const response = await apiRequest("POST", `/api/refinement-messages/${message.id}/${action}`);
+      return { action, result: await response.json() as RefinementApplyResponse | RefinementMessage };
+    },
+    onSuccess: ({ action }) => {
+      queryClient.invalidateQueries({ queryKey: [threadUrl] });
+      if (action === "apply") {
+        queryClient.invalidateQueries({ queryKey: [targetType === "idea" ? "/api/saved-ideas" : "/api/roadmaps"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+        toast({ title: "Changes applied", description: `The ${targetType} has been updated.` });
+      }
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: [threadUrl] });
+      toast({ title: "Could not update changes", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleSend = () => {
+    const content = draft.trim();
+    if (content) sendMutation.mutate(content);
+  };
+
+  const messages = thread?.messages ?? [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col" data-testid="modal-refinement-thread">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            Refine: {title}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 space-y-4 overflow-y-auto pr-1">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : messages.length === 0 ? (
+            <div className="space-y-3 py-6 text-center text-sm text-muted-foreground">
+              <p>Ask for changes and review them before they are applied.</p>
+              <div className="flex flex-wrap justify-center gap-2">
+                {EXAMPLE_PROMPTS[targetType].map(prompt => (
+                  <Button key={prompt} variant="outline" size="sm" onClick={() => setDraft(prompt)}>
+                    {prompt}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            messages.map(message => (
+              <div
+                key={message.id}
+                className={`rounded-lg p-3 text-sm ${message.role === "user" ? "ml-8 bg-primary/10" : "mr-8 bg-muted"}`}
+                data-testid={`refinement-message-${message.id}`}
+              >
+                <p className="whitespace-pre-wrap">{message.content}</p>
+                {message.diff != null && (
+                  <div className="mt-3 space-y-2">
+                    <DiffSummary diff={message.diff as RefinementDiff} />
+                    {message.diffStatus === "proposed" ? (
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => reviewMutation.mutate({ message, action: "apply" })}
+                          disabled={reviewMutation.isPending}
+                          data-testid={`button-apply-refinement-${message.id}`}
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Apply
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => reviewMutation.mutate({ message, action: "discard" })}
+                          disabled={reviewMutation.isPending}
+                          data-testid={`button-discard-refinement-${message.id}`}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Discard
+                        </Button>
+                      </div>
+                    ) : (
+                      <Badge variant="secondary" className="text-xs">{message.diffStatus}</Badge>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+          {sendMutation.isPending && (
+            <div className="mr-8 flex items-center gap-2 rounded-lg bg-muted p-3 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Thinking...
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2 border-t pt-4">
+          <Textarea
+            value={draft}
+            onChange={event => setDraft(event.target.value)}
+            onKeyDown={event => {
+              if (event.key === "Enter" && !event.shiftKey) {
+                event.preventDefault();
+                handleSend();
+              }
+            }}
+            placeholder={`Ask for a change to this ${targetType}...`}
+            className="min-h-[60px]"
+            maxLength={4000}
+            data-testid="input-refinement-message"
+          />
+          <Button onClick={handleSend} disabled={!draft.trim() || sendMutation.isPending} data-testid="button-send-refinement">
+            {sendMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,178 @@
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { passwordResetRequestSchema, passwordSchema } from "@shared/schema";
+
+const resetFormSchema = z.object({
+  newPassword: passwordSchema,
+  confirmPassword: z.string(),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type ForgotPasswordData = z.infer<typeof passwordResetRequestSchema>;
+type ResetPasswordData = z.infer<typeof resetFormSchema>;
+
+interface ForgotPasswordFormProps {
+  onBack: () => void;
+}
+
+// Asks for a reset link; the server answers the same way whether or not the email has an account
+export function ForgotPasswordForm({ onBack }: ForgotPasswordFormProps) {
+  const { toast } = useToast();
+  const form = useForm<ForgotPasswordData>({
+    resolver: zodResolver(passwordResetRequestSchema),
+    defaultValues: { email: "" },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordData) => {
+      const response = await apiRequest("POST", "/api/password-reset/request", data);
+      return await response.json() as { message: string };
+    },
+    onSuccess: (result) => {
+      toast({ title: "Check your email", description: result.message });
+      onBack();
+    },
+    onError: (error) => {
+      toast({ title: "Reset not requested", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Forgot Password</CardTitle>
+        <CardDescription>
+          Enter the email on your account and we'll send you a reset link
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={form.handleSubmit((data) => requestMutation.mutate(data))} className="space-y-4">
+          <div>
+            <Label htmlFor="forgot-email">Email</Label>
+            <Input
+              id="forgot-email"
+              data-testid="input-forgot-email"
+              type="email"
+              {...form.register("email")}
+              placeholder="Enter your email"
+            />
+            {form.formState.errors.email && (
+              <p className="text-sm text-destructive mt-1">
+                {form.formState.errors.email.message}
+              </p>
+            )}
+          </div>
+          <Button
+            type="submit"
+            className="w-full"
+            data-testid="button-request-reset"
+            disabled={requestMutation.isPending}
+          >
+            {requestMutation.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Send Reset Link
+          </Button>
+          <Button type="button" variant="link" className="w-full" onClick={onBack} data-testid="button-back-to-login">
+            Back to sign in
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ResetPasswordFormProps {
+  token: string;
+  onDone: () => void;
+}
+
+// Opened from the emailed link; the token comes from the ?reset= query parameter
+export function ResetPasswordForm({ token, onDone }: ResetPasswordFormProps) {
+  const { toast } = useToast();
+  const form = useForm<ResetPasswordData>({
+    resolver: zodResolver(resetFormSchema),
+    defaultValues: { newPassword: "", confirmPassword: "" },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async ({ newPassword }: ResetPasswordData) => {
+      const response = await apiRequest("POST", "/api/password-reset/confirm", { token, newPassword });
+      return await response.json() as { message: string };
+    },
+    onSuccess: (result) => {
+      toast({ title: "Password reset", description: result.message });
+      onDone();
+    },
+    onError: (error) => {
+      toast({ title: "Password not reset", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Choose a New Password</CardTitle>
+        <CardDescription>
+          At least 10 characters, with a letter and a number
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={form.handleSubmit((data) => confirmMutation.mutate(data))} className="space-y-4">
+          <div>
+            <Label htmlFor="reset-password">New Password</Label>
+            <Input
+              id="reset-password"
+              data-testid="input-reset-password"
+              type="password"
+              {...form.register("newPassword")}
+              placeholder="Enter a new password"
+            />
+            {form.formState.errors.newPassword && (
+              <p className="text-sm text-destructive mt-1">
+                {form.formState.errors.newPassword.message}
+              </p>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="reset-confirm-password">Confirm Password</Label>
+            <Input
+              id="reset-confirm-password"
+              data-testid="input-reset-confirm-password"
+              type="password"
+              {...form.register("confirmPassword")}
+              placeholder="Confirm your new password"
+            />
+            {form.formState.errors.confirmPassword && (
+              <p className="text-sm text-destructive mt-1">
+                {form.formState.errors.confirmPassword.message}
+              </p>
+            )}
+          </div>
+          <Button
+            type="submit"
+            className="w-full"
+            data-testid="button-reset-password"
+            disabled={confirmMutation.isPending}
+          >
+            {confirmMutation.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Reset Password
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
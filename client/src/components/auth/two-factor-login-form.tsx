@@ -0,0 +1,98 @@
+import { useState, type FormEvent } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+import { TotpCodeInput } from "./totp-code-input";
+
+interface TwoFactorLoginFormProps {
+  onCancel: () => void;
+}
+
+// Second sign-in step, shown after the password when the account has two-factor turned on
+export function TwoFactorLoginForm({ onCancel }: TwoFactorLoginFormProps) {
+  const { twoFactorMutation } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+
+  const submitCode = (value: string) => {
+    twoFactorMutation.mutate({ code: value }, { onError: () => setCode("") });
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (useRecoveryCode) {
+      twoFactorMutation.mutate({ recoveryCode });
+    } else {
+      submitCode(code);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you turned on two-factor"
+            : "Enter the 6-digit code from your authenticator app"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {useRecoveryCode ? (
+            <div>
+              <Label htmlFor="recovery-code">Recovery Code</Label>
+              <Input
+                id="recovery-code"
+                data-testid="input-recovery-code"
+                value={recoveryCode}
+                onChange={(event) => setRecoveryCode(event.target.value)}
+                placeholder="xxxx-xxxx"
+                autoComplete="one-time-code"
+                autoFocus
+              />
+            </div>
+          ) : (
+            <div className="flex justify-center">
+              <TotpCodeInput
+                value={code}
+                onChange={setCode}
+                onComplete={submitCode}
+                disabled={twoFactorMutation.isPending}
+              />
+            </div>
+          )}
+          <Button
+            type="submit"
+            className="w-full"
+            data-testid="button-verify-two-factor"
+            disabled={twoFactorMutation.isPending || (useRecoveryCode ? !recoveryCode.trim() : code.length !== 6)}
+          >
+            {twoFactorMutation.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Verify
+          </Button>
+          <div className="flex justify-between">
+            <Button
+              type="button"
+              variant="link"
+              className="px-0"
+              onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+              data-testid="button-toggle-recovery-code"
+            >
+              {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+            </Button>
+            <Button type="button" variant="link" className="px-0" onClick={onCancel} data-testid="button-cancel-two-factor">
+              Back to sign in
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
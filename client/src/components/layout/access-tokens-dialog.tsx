@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Copy, KeyRound, Trash2 } from "lucide-react";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ACCESS_TOKEN_SCOPES,
+  type AccessTokenScope,
+  type AccessTokenSummary,
+  type CreatedAccessTokenResponse,
+} from "@shared/schema";
+
+const SCOPE_DESCRIPTIONS: Record<AccessTokenScope, string> = {
+  "read:stack": "Read your stack, costs and budget status",
+  "write:stack": "Add, change and remove stack tools and the budget",
+  "read:projects": "Read projects, task boards and tasks",
+  "write:analyses": "Run repository analyses and read their results",
+};
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiry" },
+];
+
+const formatDate = (value: Date | string | null) => value ? new Date(value).toLocaleDateString() : "Never";
+
+interface AccessTokensDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Personal access tokens for scripts and CI, sent as "Authorization: Bearer <token>"
+export function AccessTokensDialog({ isOpen, onClose }: AccessTokensDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<AccessTokenScope[]>(["read:stack"]);
+  const [expiry, setExpiry] = useState("90");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: tokens = [] } = useQuery<AccessTokenSummary[]>({
+    queryKey: ["/api/user/access-tokens"],
+    enabled: isOpen,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/user/access-tokens", {
+        name,
+        scopes,
+        expiresInDays: expiry === "never" ? null : Number(expiry),
+      });
+      return await response.json() as CreatedAccessTokenResponse;
+    },
+    onSuccess: (created) => {
+      setName("");
+      setCreatedToken(created.token);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/access-tokens"] });
+    },
+    onError: (error) => {
+      toast({ title: "Token not created", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/user/access-tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/access-tokens"] });
+      toast({ title: "Token revoked", description: "Requests using it are rejected from now on." });
+    },
+    onError: (error) => {
+      toast({ title: "Token not revoked", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: AccessTokenScope, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(existing => existing !== scope));
+  };
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    toast({ title: "Token copied" });
+  };
+
+  const handleClose = () => {
+    setCreatedToken(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>API access tokens</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {createdToken && (
+            <Alert>
+              <KeyRound className="h-4 w-4" />
+              <AlertDescription className="space-y-2">
+                <p>Copy the token now; it is not shown again.</p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 truncate rounded bg-muted px-2 py-1 text-xs" data-testid="text-created-token">{createdToken}</code>
+                  <Button variant="outline" size="sm" onClick={copyToken} data-testid="button-copy-token">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Input
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="Token name, e.g. CI pipeline"
+                data-testid="input-token-name"
+              />
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger className="w-32" data-testid="select-token-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {ACCESS_TOKEN_SCOPES.map(scope => (
+                <div key={scope} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`scope-${scope}`}
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    data-testid={`checkbox-scope-${scope}`}
+                  />
+                  <Label htmlFor={`scope-${scope}`} className="text-sm leading-tight">
+                    <span className="font-mono">{scope}</span>
+                    <span className="block text-xs text-muted-foreground">{SCOPE_DESCRIPTIONS[scope]}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+              data-testid="button-create-token"
+            >
+              Generate token
+            </Button>
+          </div>
+
+          <div className="divide-y divide-border rounded-md border">
+            {tokens.length === 0 && (
+              <p className="p-3 text-sm text-muted-foreground">No active tokens</p>
+            )}
+            {tokens.map(token => (
+              <div key={token.id} className="flex items-center justify-between p-3" data-testid={`access-token-${token.id}`}>
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">
+                    {token.name} <span className="font-mono text-xs text-muted-foreground">{token.displayPrefix}…</span>
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {token.scopes.map(scope => (
+                      <Badge key={scope} variant="secondary" className="font-mono text-xs">{scope}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Last used {formatDate(token.lastUsedAt)} · Expires {token.expiresAt ? formatDate(token.expiresAt) : "never"}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => revokeMutation.mutate(token.id)}
+                  disabled={revokeMutation.isPending}
+                  title="Revoke token"
+                  data-testid={`button-revoke-token-${token.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState, type FormEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { changePasswordSchema } from "@shared/schema";
+
+interface ChangePasswordDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Changing the password signs out every other session on the account
+export function ChangePasswordDialog({ isOpen, onClose }: ChangePasswordDialogProps) {
+  const { toast } = useToast();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setCurrentPassword("");
+    setNewPassword("");
+    setConfirmPassword("");
+    setValidationError(null);
+    onClose();
+  };
+
+  const changeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", "/api/user/password", { currentPassword, newPassword });
+    },
+    onSuccess: () => {
+      toast({ title: "Password updated", description: "Other devices have been signed out." });
+      handleClose();
+    },
+    onError: (error) => {
+      toast({ title: "Password not updated", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const parsed = changePasswordSchema.safeParse({ currentPassword, newPassword });
+    if (!parsed.success) {
+      setValidationError(parsed.error.errors[0]?.message ?? "Invalid password");
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setValidationError("Passwords don't match");
+      return;
+    }
+    setValidationError(null);
+    changeMutation.mutate();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Change password</DialogTitle>
+          <DialogDescription>At least 10 characters, with a letter and a number.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="current-password">Current password</Label>
+            <Input
+              id="current-password"
+              type="password"
+              autoComplete="current-password"
+              value={currentPassword}
+              onChange={(event) => setCurrentPassword(event.target.value)}
+              data-testid="input-current-password"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="new-password">New password</Label>
+            <Input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              value={newPassword}
+              onChange={(event) => setNewPassword(event.target.value)}
+              data-testid="input-new-password"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="confirm-new-password">Confirm new password</Label>
+            <Input
+              id="confirm-new-password"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(event) => setConfirmPassword(event.target.value)}
+              data-testid="input-confirm-new-password"
+            />
+          </div>
+          {validationError && <p className="text-sm text-destructive">{validationError}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose}>Cancel</Button>
+            <Button type="submit" disabled={changeMutation.isPending} data-testid="button-change-password">
+              Update password
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
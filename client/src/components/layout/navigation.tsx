@@ -3,8 +3,12 @@ import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Layers, BarChart3, Bolt, Search, Lightbulb, Brain, Menu, LogOut, User, Github, Workflow, BookOpen, TrendingUp, ChevronDown } from "lucide-react";
+import { Layers, BarChart3, Bolt, Search, Lightbulb, Brain, Menu, LogOut, User, Github, Workflow, BookOpen, TrendingUp, ChevronDown, KeyRound, Lock, ShieldCheck } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
+import { WorkspaceSwitcher } from "@/components/layout/workspace-switcher";
+import { AccessTokensDialog } from "@/components/layout/access-tokens-dialog";
+import { ChangePasswordDialog } from "@/components/layout/change-password-dialog";
+import { TwoFactorDialog } from "@/components/layout/two-factor-dialog";
 
 const navGroups = [
   {
@@ -95,6 +99,9 @@ export default function Navigation() {
   const [location] = useLocation();
   const { user, logoutMutation } = useAuth();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isAccessTokensOpen, setIsAccessTokensOpen] = useState(false);
+  const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
+  const [isTwoFactorOpen, setIsTwoFactorOpen] = useState(false);
 
   const handleLogout = () => {
     logoutMutation.mutate();
@@ -241,6 +248,10 @@ export default function Navigation() {
             </SheetContent>
           </Sheet>
 
+          <div className="hidden sm:block">
+            <WorkspaceSwitcher />
+          </div>
+
           {/* User Profile Menu */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -255,6 +266,18 @@ export default function Navigation() {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="w-56">
+              <DropdownMenuItem onClick={() => setIsAccessTokensOpen(true)} data-testid="button-access-tokens">
+                <KeyRound className="h-4 w-4 mr-2" />
+                API tokens
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setIsChangePasswordOpen(true)} data-testid="button-change-password-menu">
+                <Lock className="h-4 w-4 mr-2" />
+                Change password
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setIsTwoFactorOpen(true)} data-testid="button-two-factor">
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Two-factor authentication
+              </DropdownMenuItem>
               <DropdownMenuItem
                 onClick={handleLogout}
                 disabled={logoutMutation.isPending}
@@ -265,6 +288,10 @@ export default function Navigation() {
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
+
+          <AccessTokensDialog isOpen={isAccessTokensOpen} onClose={() => setIsAccessTokensOpen(false)} />
+          <ChangePasswordDialog isOpen={isChangePasswordOpen} onClose={() => setIsChangePasswordOpen(false)} />
+          <TwoFactorDialog isOpen={isTwoFactorOpen} onClose={() => setIsTwoFactorOpen(false)} />
         </div>
       </div>
     </nav>
@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Copy, ShieldAlert, ShieldCheck } from "lucide-react";
+import { TotpCodeInput } from "@/components/auth/totp-code-input";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { RecoveryCodesResponse, TwoFactorSetupResponse, TwoFactorStatus } from "@shared/schema";
+
+interface TwoFactorDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Enrollment walks through setup (secret and provisioning URI), a confirming code, then the recovery codes
+export function TwoFactorDialog({ isOpen, onClose }: TwoFactorDialogProps) {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/two-factor"],
+    enabled: isOpen,
+  });
+
+  // Turning two-factor on or off changes which workspaces the user can open, so everything reloads
+  const refresh = () => {
+    queryClient.invalidateQueries();
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/user/two-factor/setup");
+      return await response.json() as TwoFactorSetupResponse;
+    },
+    onSuccess: setSetup,
+    onError: (error) => {
+      toast({ title: "Setup not started", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/user/two-factor/enable", { code: value });
+      return await response.json() as RecoveryCodesResponse;
+    },
+    onSuccess: (result) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      refresh();
+      toast({ title: "Two-factor authentication is on", description: "Other devices have been signed out." });
+    },
+    onError: (error) => {
+      setCode("");
+      toast({ title: "Code not accepted", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/user/two-factor/recovery-codes", { password });
+      return await response.json() as RecoveryCodesResponse;
+    },
+    onSuccess: (result) => {
+      setPassword("");
+      setRecoveryCodes(result.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+    },
+    onError: (error) => {
+      toast({ title: "Recovery codes not replaced", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/user/two-factor/disable", { password });
+    },
+    onSuccess: () => {
+      setPassword("");
+      refresh();
+      toast({ title: "Two-factor authentication is off" });
+    },
+    onError: (error) => {
+      toast({ title: "Two-factor not turned off", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const copy = async (text: string, title: string) => {
+    await navigator.clipboard.writeText(text);
+    toast({ title });
+  };
+
+  const handleClose = () => {
+    setSetup(null);
+    setCode("");
+    setPassword("");
+    setRecoveryCodes(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Two-factor authentication
+            {status && (
+              <Badge variant={status.enabled ? "default" : "secondary"} data-testid="badge-two-factor-status">
+                {status.enabled ? "On" : "Off"}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            Sign-in asks for a code from an authenticator app after your password.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {status && status.requiredByWorkspaces.length > 0 && !status.enabled && (
+            <Alert>
+              <ShieldAlert className="h-4 w-4" />
+              <AlertDescription>
+                Required to open {status.requiredByWorkspaces.join(", ")}.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {recoveryCodes && (
+            <Alert>
+              <ShieldCheck className="h-4 w-4" />
+              <AlertDescription className="space-y-2">
+                <p>Save these recovery codes now; they are not shown again. Each works once if you lose your device.</p>
+                <div className="grid grid-cols-2 gap-1 rounded bg-muted p-2 font-mono text-sm" data-testid="list-recovery-codes">
+                  {recoveryCodes.map(recoveryCode => <span key={recoveryCode}>{recoveryCode}</span>)}
+                </div>
+                <Button variant="outline" size="sm" onClick={() => copy(recoveryCodes.join("\n"), "Recovery codes copied")}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy codes
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {status && !status.enabled && !setup && (
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-setup-two-factor">
+              Set up two-factor
+            </Button>
+          )}
+
+          {status && !status.enabled && setup && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <p className="text-sm">
+                  Add StackWise to your authenticator app with this link, or type in the key by hand.
+                </p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 truncate rounded bg-muted px-2 py-1 text-xs" data-testid="text-totp-secret">{setup.secret}</code>
+                  <Button variant="outline" size="sm" onClick={() => copy(setup.secret, "Key copied")} title="Copy key">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 truncate rounded bg-muted px-2 py-1 text-xs" data-testid="text-otpauth-uri">{setup.otpauthUri}</code>
+                  <Button variant="outline" size="sm" onClick={() => copy(setup.otpauthUri, "Setup link copied")} title="Copy setup link">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Button variant="link" className="px-0" asChild>
+                  <a href={setup.otpauthUri} data-testid="link-open-authenticator">Open in authenticator app</a>
+                </Button>
+              </div>
+              <div className="space-y-2">
+                <Label>Code from the app</Label>
+                <TotpCodeInput
+                  value={code}
+                  onChange={setCode}
+                  onComplete={(value) => enableMutation.mutate(value)}
+                  disabled={enableMutation.isPending}
+                />
+              </div>
+            </div>
+          )}
+
+          {status?.enabled && (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                On since {status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : "—"} · {status.recoveryCodesRemaining} recovery codes left
+              </p>
+              <div className="space-y-1">
+                <Label htmlFor="two-factor-password">Password</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(event) => setPassword(event.target.value)}
+                  placeholder="Confirm your password to make changes"
+                  data-testid="input-two-factor-password"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => regenerateMutation.mutate()}
+                  disabled={!password || regenerateMutation.isPending}
+                  data-testid="button-regenerate-recovery-codes"
+                >
+                  New recovery codes
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => disableMutation.mutate()}
+                  disabled={!password || disableMutation.isPending}
+                  data-testid="button-disable-two-factor"
+                >
+                  Turn off
+                </Button>
+              </div>
+              {status.requiredByWorkspaces.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Turning it off closes {status.requiredByWorkspaces.join(", ")} to you until you turn it back on.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,331 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Check, ChevronDown, Lock, Plus, Settings, ShieldCheck, Trash2, User, Users } from "lucide-react";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { WORKSPACE_ROLES, type WorkspaceMemberDetail, type WorkspaceRole, type WorkspaceSummary } from "@shared/schema";
+
+const canManage = (role: WorkspaceRole) => role === "owner" || role === "admin";
+
+// Switches between the personal space and shared workspaces; every page reloads its data for the new scope
+export function WorkspaceSwitcher() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isMembersOpen, setIsMembersOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const { data: workspaces = [] } = useQuery<WorkspaceSummary[]>({
+    queryKey: ["/api/workspaces"],
+    enabled: !!user,
+  });
+  // The server falls back to the personal space while a workspace's two-factor requirement is not met
+  const isLocked = (workspace: WorkspaceSummary) => !!workspace.requireTwoFactor && !user?.totpEnabledAt;
+  const active = workspaces.find(workspace => workspace.id === user?.activeWorkspaceId && !isLocked(workspace));
+
+  const switchMutation = useMutation({
+    mutationFn: async (workspaceId: string | null) => {
+      const response = await apiRequest("PUT", "/api/user/active-workspace", { workspaceId });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+    },
+    onError: (error) => {
+      toast({ title: "Could not switch workspace", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/workspaces", { name });
+      return await response.json() as WorkspaceSummary;
+    },
+    onSuccess: (workspace) => {
+      setName("");
+      setIsCreateOpen(false);
+      switchMutation.mutate(workspace.id);
+      toast({ title: "Workspace created", description: "Invite your team from the workspace menu." });
+    },
+    onError: (error) => {
+      toast({ title: "Workspace not created", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="flex items-center space-x-2" data-testid="button-workspace-switcher">
+            {active ? <Users className="h-4 w-4" /> : <User className="h-4 w-4" />}
+            <span className="max-w-[10rem] truncate">{active?.name ?? "Personal"}</span>
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => switchMutation.mutate(null)} data-testid="workspace-option-personal">
+            <User className="h-4 w-4 mr-2" />
+            <span className="flex-1">Personal</span>
+            {!active && <Check className="h-4 w-4" />}
+          </DropdownMenuItem>
+          {workspaces.map(workspace => (
+            <DropdownMenuItem
+              key={workspace.id}
+              onClick={() => switchMutation.mutate(workspace.id)}
+              data-testid={`workspace-option-${workspace.id}`}
+            >
+              {isLocked(workspace) ? <Lock className="h-4 w-4 mr-2" /> : <Users className="h-4 w-4 mr-2" />}
+              <span className="flex-1 truncate" title={isLocked(workspace) ? "Requires two-factor authentication" : undefined}>{workspace.name}</span>
+              <Badge variant="secondary" className="mr-2">{workspace.role}</Badge>
+              {workspace.id === active?.id && <Check className="h-4 w-4" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          {active && (
+            <DropdownMenuItem onClick={() => setIsMembersOpen(true)} data-testid="button-workspace-members">
+              <Settings className="h-4 w-4 mr-2" />
+              Members
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => setIsCreateOpen(true)} data-testid="button-create-workspace">
+            <Plus className="h-4 w-4 mr-2" />
+            New workspace
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New workspace</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Stacks, budgets, projects, roadmaps and repository analyses you create while the workspace is active are shared with its members.
+            </p>
+            <Input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="Workspace name"
+              data-testid="input-workspace-name"
+            />
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!name.trim() || createMutation.isPending}
+              data-testid="button-submit-workspace"
+            >
+              Create workspace
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {active && (
+        <WorkspaceMembersDialog workspace={active} isOpen={isMembersOpen} onClose={() => setIsMembersOpen(false)} />
+      )}
+    </>
+  );
+}
+
+interface WorkspaceMembersDialogProps {
+  workspace: WorkspaceSummary;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function WorkspaceMembersDialog({ workspace, isOpen, onClose }: WorkspaceMembersDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [identifier, setIdentifier] = useState("");
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("member");
+  const membersUrl = `/api/workspaces/${workspace.id}/members`;
+  const manageable = canManage(workspace.role);
+
+  const { data: members = [] } = useQuery<WorkspaceMemberDetail[]>({
+    queryKey: [membersUrl],
+    enabled: isOpen,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [membersUrl] });
+    queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", membersUrl, { identifier, role: inviteRole });
+      return await response.json();
+    },
+    onSuccess: () => {
+      setIdentifier("");
+      refresh();
+      toast({ title: "Member added" });
+    },
+    onError: (error) => {
+      toast({ title: "Member not added", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: WorkspaceRole }) => {
+      const response = await apiRequest("PUT", `${membersUrl}/${userId}`, { role });
+      return await response.json();
+    },
+    onSuccess: refresh,
+    onError: (error) => {
+      toast({ title: "Role not changed", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `${membersUrl}/${userId}`);
+      return userId;
+    },
+    onSuccess: (userId) => {
+      if (userId === user?.id) {
+        onClose();
+        queryClient.invalidateQueries();
+        return;
+      }
+      refresh();
+    },
+    onError: (error) => {
+      toast({ title: "Member not removed", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const requireTwoFactorMutation = useMutation({
+    mutationFn: async (requireTwoFactor: boolean) => {
+      const response = await apiRequest("PUT", `/api/workspaces/${workspace.id}`, { requireTwoFactor });
+      return await response.json();
+    },
+    onSuccess: refresh,
+    onError: (error) => {
+      toast({ title: "Setting not changed", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const membersWithoutTwoFactor = members.filter(member => !member.twoFactorEnabled).length;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{workspace.name} members</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {manageable && (
+            <div className="flex items-start justify-between gap-4 rounded-md border p-3">
+              <div className="space-y-1">
+                <Label htmlFor="require-two-factor">Require two-factor authentication</Label>
+                <p className="text-xs text-muted-foreground">
+                  {workspace.requireTwoFactor
+                    ? `${membersWithoutTwoFactor} member${membersWithoutTwoFactor === 1 ? "" : "s"} without two-factor cannot open this workspace.`
+                    : "Members without two-factor lose access until they turn it on."}
+                </p>
+              </div>
+              <Switch
+                id="require-two-factor"
+                checked={!!workspace.requireTwoFactor}
+                onCheckedChange={(checked) => requireTwoFactorMutation.mutate(checked)}
+                disabled={requireTwoFactorMutation.isPending}
+                data-testid="switch-require-two-factor"
+              />
+            </div>
+          )}
+
+          {manageable && (
+            <div className="flex items-center gap-2">
+              <Input
+                value={identifier}
+                onChange={(event) => setIdentifier(event.target.value)}
+                placeholder="Username or email"
+                data-testid="input-invite-member"
+              />
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as WorkspaceRole)}>
+                <SelectTrigger className="w-32" data-testid="select-invite-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WORKSPACE_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{role}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => inviteMutation.mutate()}
+                disabled={!identifier.trim() || inviteMutation.isPending}
+                data-testid="button-invite-member"
+              >
+                Add
+              </Button>
+            </div>
+          )}
+
+          <div className="divide-y divide-border rounded-md border">
+            {members.map(member => (
+              <div key={member.userId} className="flex items-center justify-between p-3" data-testid={`workspace-member-${member.userId}`}>
+                <div>
+                  <p className="text-sm font-medium flex items-center gap-1">
+                    {member.username}{member.userId === user?.id && " (you)"}
+                    {member.twoFactorEnabled && <ShieldCheck className="h-3 w-3 text-muted-foreground" aria-label="Two-factor on" />}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{member.email}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {manageable ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) => roleMutation.mutate({ userId: member.userId, role: value as WorkspaceRole })}
+                    >
+                      <SelectTrigger className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WORKSPACE_ROLES.map(role => (
+                          <SelectItem key={role} value={role}>{role}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="secondary">{member.role}</Badge>
+                  )}
+                  {(manageable || member.userId === user?.id) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeMutation.mutate(member.userId)}
+                      disabled={removeMutation.isPending}
+                      title={member.userId === user?.id ? "Leave workspace" : "Remove member"}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, ArrowRight, Copy, Plus, SkipForward } from "lucide-react";
+import type { RepositoryImportDiffEntry, RepositoryImportPreview } from "@shared/schema";
+
+const formatCost = (value: number) => `$${value.toFixed(2)}`;
+
+const formatDelta = (value: number) => `${value >= 0 ? "+" : "-"}${formatCost(Math.abs(value))}`;
+
+function DiffEntryRow({ entry, kind }: { entry: RepositoryImportDiffEntry; kind: "new" | "duplicate" }) {
+  return (
+    <li
+      className="flex items-center justify-between gap-4 py-2 text-sm"
+      data-testid={`import-preview-${kind}-${entry.detectedToolId}`}
+    >
+      <div className="flex items-center gap-2">
+        <span className="font-medium">{entry.name}</span>
+        <Badge variant="outline">{entry.category}</Badge>
+      </div>
+      {kind === "duplicate" && entry.previousMonthlyCost !== undefined && entry.previousMonthlyCost !== entry.monthlyCost ? (
+        <span className="flex items-center gap-1 text-muted-foreground">
+          {formatCost(entry.previousMonthlyCost)}
+          <ArrowRight className="h-3 w-3" />
+          <span className="text-foreground">{formatCost(entry.monthlyCost)}</span>
+        </span>
+      ) : (
+        <span className={kind === "new" ? "text-green-600 dark:text-green-400" : "text-muted-foreground"}>
+          {kind === "new" ? "+" : ""}{formatCost(entry.monthlyCost)}/mo
+        </span>
+      )}
+    </li>
+  );
+}
+
+// Pull-request style summary of what an import would change in the user's stack
+export function ImportPreviewSummary({ preview }: { preview: RepositoryImportPreview }) {
+  const { cost } = preview;
+
+  return (
+    <div className="space-y-4" data-testid="import-preview">
+      <Card>
+        <CardHeader>
+          <CardTitle>Monthly Cost</CardTitle>
+          <CardDescription>
+            {preview.newTools.length} new, {preview.duplicateTools.length} already in your stack, {preview.skippedTools.length} skipped
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex items-center gap-3 text-lg" data-testid="import-preview-cost">
+            <span className="text-muted-foreground">{formatCost(cost.currentMonthlyCost)}</span>
+            <ArrowRight className="h-4 w-4" />
+            <span className="font-semibold">{formatCost(cost.projectedMonthlyCost)}</span>
+            <Badge variant={cost.delta > 0 ? "destructive" : "secondary"}>{formatDelta(cost.delta)}/mo</Badge>
+          </div>
+          {cost.monthlyBudget !== null && cost.remainingBudget !== null && (
+            cost.exceedsBudget ? (
+              <Alert variant="destructive" data-testid="import-preview-over-budget">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  This import puts your stack {formatCost(Math.abs(cost.remainingBudget))} over your {formatCost(cost.monthlyBudget)} monthly budget.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {formatCost(cost.remainingBudget)} of your {formatCost(cost.monthlyBudget)} monthly budget remains after this import.
+              </p>
+            )
+          )}
+        </CardContent>
+      </Card>
+
+      {preview.redundancyWarnings.length > 0 && (
+        <Alert data-testid="import-preview-redundancies">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <ul className="space-y-1">
+              {preview.redundancyWarnings.map(warning => (
+                <li key={warning.category}>
+                  <span className="font-medium">{warning.category}:</span> {warning.toolNames.join(", ")}. {warning.recommendation}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {preview.newTools.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Plus className="h-4 w-4 text-green-600" />
+              New Tools
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y">
+              {preview.newTools.map(entry => <DiffEntryRow key={entry.detectedToolId} entry={entry} kind="new" />)}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {preview.duplicateTools.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Copy className="h-4 w-4" />
+              Already in Your Stack
+            </CardTitle>
+            <CardDescription>These tools will be updated instead of added again.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y">
+              {preview.duplicateTools.map(entry => <DiffEntryRow key={entry.detectedToolId} entry={entry} kind="duplicate" />)}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {preview.skippedTools.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <SkipForward className="h-4 w-4" />
+              Skipped
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-1 text-sm">
+              {preview.skippedTools.map(tool => (
+                <li key={tool.detectedToolId} className="flex justify-between" data-testid={`import-preview-skipped-${tool.detectedToolId}`}>
+                  <span>{tool.name}</span>
+                  <span className="text-muted-foreground">{tool.reason}</span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
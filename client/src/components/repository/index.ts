@@ -0,0 +1,5 @@
+// Repository analysis components
+export { TrackedRepositories, TrackRepositoryControl } from "./tracked-repositories";
+export { SbomExportButton } from "./sbom-export-button";
+export { VulnerabilityAdvisoryList, VulnerabilityBadge } from "./vulnerability-advisories";
+export { ImportPreviewSummary } from "./import-preview";
@@ -0,0 +1,75 @@
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FileDown, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { SbomFormat } from "@shared/schema";
+
+const formatOptions: { format: SbomFormat; label: string }[] = [
+  { format: "cyclonedx", label: "CycloneDX 1.5 (JSON)" },
+  { format: "spdx", label: "SPDX 2.3 (JSON)" },
+];
+
+interface SbomExportButtonProps {
+  analysisId: string;
+}
+
+// Downloads the analysis as a software bill of materials
+export function SbomExportButton({ analysisId }: SbomExportButtonProps) {
+  const { toast } = useToast();
+
+  const exportMutation = useMutation({
+    mutationFn: async (format: SbomFormat) => {
+      const response = await apiRequest("GET", `/api/repositories/analyses/${analysisId}/sbom?format=${format}`);
+      const fileName = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `sbom-${format}.json`;
+      return { blob: await response.blob(), fileName };
+    },
+    onSuccess: ({ blob, fileName }) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "SBOM Export Failed",
+        description: error.message || "Failed to export the software bill of materials",
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={exportMutation.isPending} data-testid="button-export-sbom">
+          {exportMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <FileDown className="mr-2 h-4 w-4" />
+          )}
+          Export SBOM
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent>
+        {formatOptions.map(option => (
+          <DropdownMenuItem
+            key={option.format}
+            onClick={() => exportMutation.mutate(option.format)}
+            data-testid={`menu-export-sbom-${option.format}`}
+          >
+            {option.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
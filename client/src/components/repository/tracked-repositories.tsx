@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, RefreshCw, Radar, Plus, Minus, ArrowUpDown, AlertCircle } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { RepositoryDriftEntry } from "@shared/schema";
+
+interface TrackedAnalysis {
+  id: string;
+  repositoryName: string;
+  repositoryOwner: string;
+  sourceType: string;
+  isTracked: boolean;
+  reanalysisIntervalHours: number | null;
+  lastReanalyzedAt: string | null;
+  nextReanalysisAt: string | null;
+}
+
+interface DriftReportResponse {
+  analysis: TrackedAnalysis;
+  report: {
+    id: string;
+    status: string;
+    error: string | null;
+    createdAt: string;
+    addedTools: RepositoryDriftEntry[];
+    removedTools: RepositoryDriftEntry[];
+    versionChangedTools: RepositoryDriftEntry[];
+  } | null;
+}
+
+const intervalOptions = [
+  { hours: 6, label: "Every 6 hours" },
+  { hours: 24, label: "Daily" },
+  { hours: 168, label: "Weekly" },
+];
+
+const invalidateRepositoryQueries = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/repositories/analyses"] });
+};
+
+interface TrackRepositoryControlProps {
+  analysisId: string;
+  sourceType?: string;
+}
+
+// Shown after an analysis: opt the repository into scheduled re-analysis
+export function TrackRepositoryControl({ analysisId, sourceType }: TrackRepositoryControlProps) {
+  const [intervalHours, setIntervalHours] = useState("24");
+  const [isTracked, setIsTracked] = useState(false);
+  const { toast } = useToast();
+
+  const trackMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const response = await apiRequest("PUT", `/api/repositories/analyses/${analysisId}/tracking`, {
+        enabled,
+        intervalHours: parseInt(intervalHours, 10)
+      });
+      return await response.json();
+    },
+    onSuccess: (_data, enabled) => {
+      setIsTracked(enabled);
+      invalidateRepositoryQueries();
+      toast({
+        title: enabled ? "Repository Tracked" : "Tracking Stopped",
+        description: enabled
+          ? "We'll re-analyze this repository and report tools that were added, removed or upgraded."
+          : "This repository will no longer be re-analyzed."
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Tracking Update Failed",
+        description: error.message || "Failed to update repository tracking",
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (sourceType === "archive") return null;
+
+  return (
+    <div className="flex items-center justify-center gap-2">
+      <Select value={intervalHours} onValueChange={setIntervalHours} disabled={isTracked}>
+        <SelectTrigger className="w-40" data-testid="select-reanalysis-interval">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {intervalOptions.map(option => (
+            <SelectItem key={option.hours} value={option.hours.toString()}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant={isTracked ? "secondary" : "outline"}
+        onClick={() => trackMutation.mutate(!isTracked)}
+        disabled={trackMutation.isPending}
+        data-testid="button-track-repository"
+      >
+        {trackMutation.isPending ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Radar className="mr-2 h-4 w-4" />
+        )}
+        {isTracked ? "Stop Tracking" : "Track for Changes"}
+      </Button>
+    </div>
+  );
+}
+
+const renderDriftEntries = (
+  entries: RepositoryDriftEntry[],
+  icon: typeof Plus,
+  label: string,
+  describe: (entry: RepositoryDriftEntry) => string | null
+) => {
+  if (entries.length === 0) return null;
+  const Icon = icon;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Icon className="h-4 w-4" />
+        {label}
+        <Badge variant="secondary">{entries.length}</Badge>
+      </div>
+      <ul className="text-sm text-muted-foreground pl-6 space-y-0.5">
+        {entries.map(entry => (
+          <li key={`${label}-${entry.detectedName}`}>
+            <span className="text-foreground">{entry.detectedName}</span>
+            {describe(entry) && <span> · {describe(entry)}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+function DriftReport({ analysis }: { analysis: TrackedAnalysis }) {
+  const { toast } = useToast();
+  const { data, isLoading } = useQuery<DriftReportResponse>({
+    queryKey: ["/api/repositories/analyses", analysis.id, "drift"],
+  });
+
+  const reanalyzeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/repositories/analyses/${analysis.id}/reanalyze`);
+      return await response.json();
+    },
+    onSuccess: invalidateRepositoryQueries,
+    onError: (error: any) => {
+      toast({
+        title: "Re-analysis Failed",
+        description: error.message || "Failed to re-analyze repository",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const stopTrackingMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/repositories/analyses/${analysis.id}/tracking`, { enabled: false });
+      return await response.json();
+    },
+    onSuccess: invalidateRepositoryQueries
+  });
+
+  const report = data?.report;
+  const hasDrift = !!report && (report.addedTools.length + report.removedTools.length + report.versionChangedTools.length) > 0;
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3" data-testid={`tracked-repository-${analysis.id}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="font-medium">{analysis.repositoryOwner}/{analysis.repositoryName}</div>
+          <div className="text-xs text-muted-foreground">
+            {analysis.lastReanalyzedAt
+              ? `Last checked ${new Date(analysis.lastReanalyzedAt).toLocaleString()}`
+              : "Not re-analyzed yet"}
+            {analysis.nextReanalysisAt && ` · Next check ${new Date(analysis.nextReanalysisAt).toLocaleString()}`}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => reanalyzeMutation.mutate()}
+            disabled={reanalyzeMutation.isPending}
+            data-testid={`button-reanalyze-${analysis.id}`}
+          >
+            {reanalyzeMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => stopTrackingMutation.mutate()}
+            disabled={stopTrackingMutation.isPending}
+            data-testid={`button-untrack-${analysis.id}`}
+          >
+            Stop
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+
+      {report?.status === "failed" && (
+        <div className="flex items-center gap-2 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          {report.error || "Re-analysis failed"}
+        </div>
+      )}
+
+      {report?.status === "completed" && !hasDrift && (
+        <p className="text-sm text-muted-foreground">No changes since your last import.</p>
+      )}
+
+      {report?.status === "completed" && hasDrift && (
+        <div className="space-y-2">
+          {renderDriftEntries(report.addedTools, Plus, "Added", entry => entry.version ?? null)}
+          {renderDriftEntries(report.removedTools, Minus, "Removed", entry => entry.wasImported ? "still in your stack" : null)}
+          {renderDriftEntries(report.versionChangedTools, ArrowUpDown, "Version changed", entry => `${entry.previousVersion} → ${entry.version}`)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Lists tracked repositories with the drift found by their latest re-analysis
+export function TrackedRepositories() {
+  const { data: analyses = [] } = useQuery<TrackedAnalysis[]>({
+    queryKey: ["/api/repositories/analyses"],
+  });
+
+  const tracked = analyses.filter(analysis => analysis.isTracked);
+  if (tracked.length === 0) return null;
+
+  return (
+    <Card className="max-w-2xl mx-auto mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Radar className="h-5 w-5" />
+          Tracked Repositories
+        </CardTitle>
+        <CardDescription>
+          Tracked repositories are re-analyzed on a schedule and compared with your last import
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {tracked.map(analysis => (
+          <DriftReport key={analysis.id} analysis={analysis} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
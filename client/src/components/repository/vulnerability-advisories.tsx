@@ -0,0 +1,60 @@
+import { Badge } from "@/components/ui/badge";
+import { ShieldAlert } from "lucide-react";
+import type { AdvisorySeverity, ToolVulnerability } from "@shared/schema";
+
+const severityColors: Record<AdvisorySeverity, string> = {
+  critical: "bg-red-100 text-red-800 border-red-200 dark:bg-red-950 dark:text-red-300 dark:border-red-800",
+  high: "bg-orange-100 text-orange-800 border-orange-200 dark:bg-orange-950 dark:text-orange-300 dark:border-orange-800",
+  medium: "bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-950 dark:text-yellow-300 dark:border-yellow-800",
+  low: "bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-950 dark:text-blue-300 dark:border-blue-800",
+  unknown: "bg-gray-100 text-gray-800 border-gray-200 dark:bg-gray-950 dark:text-gray-300 dark:border-gray-800",
+};
+
+// CVE ids are what security teams search for; fall back to the OSV id
+const getDisplayId = (advisory: ToolVulnerability["advisories"][number]) =>
+  advisory.aliases.find(alias => alias.startsWith("CVE-")) ?? advisory.advisoryId;
+
+export function VulnerabilityBadge({ vulnerability }: { vulnerability: ToolVulnerability }) {
+  const count = vulnerability.advisories.length;
+
+  return (
+    <Badge
+      className={severityColors[vulnerability.highestSeverity]}
+      title={vulnerability.advisories.map(getDisplayId).join(", ")}
+      data-testid={`badge-vulnerabilities-${vulnerability.detectedToolId}`}
+    >
+      <ShieldAlert className="mr-1 h-3 w-3" />
+      {count} {count === 1 ? "advisory" : "advisories"}
+    </Badge>
+  );
+}
+
+// Advisories for one package version, with the versions that fix them
+export function VulnerabilityAdvisoryList({ vulnerability }: { vulnerability: ToolVulnerability }) {
+  return (
+    <ul className="space-y-1 text-xs" data-testid={`list-vulnerabilities-${vulnerability.detectedToolId}`}>
+      {vulnerability.advisories.map(advisory => (
+        <li key={advisory.advisoryId} className="flex flex-wrap items-center gap-x-2">
+          <Badge variant="outline" className={severityColors[advisory.severity]}>{advisory.severity}</Badge>
+          {advisory.referenceUrl ? (
+            <a
+              href={advisory.referenceUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-medium underline"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {getDisplayId(advisory)}
+            </a>
+          ) : (
+            <span className="font-medium">{getDisplayId(advisory)}</span>
+          )}
+          {advisory.summary && <span className="text-muted-foreground">{advisory.summary}</span>}
+          {advisory.fixedVersions.length > 0 && (
+            <span className="text-muted-foreground">· fixed in {advisory.fixedVersions.join(", ")}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -8,10 +8,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
 import { useMutation } from "@tanstack/react-query";
-import { Calendar, Clock, DollarSign, Target, ArrowRight, CheckCircle, AlertTriangle, Users, Loader2, TrendingUp, Building2 } from "lucide-react";
+import { Calendar, Clock, DollarSign, Target, ArrowRight, CheckCircle, AlertTriangle, Users, Loader2, TrendingUp, Building2, RefreshCw } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { UserToolWithTool } from "@shared/schema";
+import type { GenerationSource, UserToolWithTool } from "@shared/schema";
 
 interface RoadmapPhase {
   id: string;
@@ -44,6 +44,8 @@ interface TechRoadmap {
     skills: string[];
     timeAllocation: string;
   };
+  source?: GenerationSource;
+  cached?: boolean;
 }
 
 interface RoadmapVisualizationProps {
@@ -63,15 +65,18 @@ export default function RoadmapVisualization({ userTools }: RoadmapVisualization
       currentStack,
       targetGoals,
       timeframe,
+      regenerate,
     }: {
       currentStack: string[];
       targetGoals: string[];
       timeframe?: string;
+      regenerate?: boolean;
     }) => {
       const response = await apiRequest("POST", "/api/ai/roadmap/generate", {
         currentStack,
         targetGoals,
         timeframe,
+        regenerate,
       });
       return await response.json();
     },
@@ -79,7 +84,11 @@ export default function RoadmapVisualization({ userTools }: RoadmapVisualization
       setGeneratedRoadmap(roadmap);
       toast({
         title: "Roadmap generated",
-        description: "Your technology roadmap has been created successfully.",
+        description: roadmap.source === "heuristic"
+          ? "The AI service is unavailable, so this roadmap was built from the tool catalog."
+          : roadmap.cached
+            ? "This roadmap was generated earlier for the same stack and goals. Use Regenerate for a fresh one."
+            : "Your technology roadmap has been created successfully.",
       });
     },
     onError: (error: Error) => {
@@ -110,7 +119,7 @@ export default function RoadmapVisualization({ userTools }: RoadmapVisualization
     setTargetGoals(prev => prev.filter(g => g !== goal));
   };
 
-  const handleGenerateRoadmap = () => {
+  const handleGenerateRoadmap = (regenerate = false) => {
     if (currentStack.length === 0) {
       toast({
         title: "No current stack selected",
@@ -133,6 +142,7 @@ export default function RoadmapVisualization({ userTools }: RoadmapVisualization
       currentStack,
       targetGoals,
       timeframe: timeframe || undefined,
+      regenerate,
     });
   };
 
@@ -259,7 +269,7 @@ export default function RoadmapVisualization({ userTools }: RoadmapVisualization
           </div>
 
           <Button
-            onClick={handleGenerateRoadmap}
+            onClick={() => handleGenerateRoadmap()}
             disabled={generateRoadmapMutation.isPending || currentStack.length === 0 || targetGoals.length === 0}
             className="w-full"
             data-testid="button-generate-roadmap"
@@ -280,10 +290,22 @@ export default function RoadmapVisualization({ userTools }: RoadmapVisualization
           {/* Roadmap Overview */}
           <Card>
             <CardHeader>
-              <CardTitle className="flex items-center">
-                <TrendingUp className="h-5 w-5 mr-2" />
-                {generatedRoadmap.title}
-              </CardTitle>
+              <div className="flex items-start justify-between gap-4">
+                <CardTitle className="flex items-center">
+                  <TrendingUp className="h-5 w-5 mr-2" />
+                  {generatedRoadmap.title}
+                </CardTitle>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleGenerateRoadmap(true)}
+                  disabled={generateRoadmapMutation.isPending}
+                  data-testid="button-regenerate-roadmap"
+                >
+                  <RefreshCw className={`h-4 w-4 mr-2 ${generateRoadmapMutation.isPending ? "animate-spin" : ""}`} />
+                  Regenerate
+                </Button>
+              </div>
               <p className="text-muted-foreground">{generatedRoadmap.description}</p>
             </CardHeader>
             <CardContent>
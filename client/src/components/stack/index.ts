@@ -0,0 +1,2 @@
+// Stack intelligence components
+export { LicenseCompliance } from "./license-compliance";
@@ -0,0 +1,190 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { FileCheck, Loader2, Scale } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { LicenseReportEntry, LicenseReportResponse, LicenseStatus } from "@shared/schema";
+
+const statusColors: Record<LicenseStatus, string> = {
+  denied: "bg-red-100 text-red-800 border-red-200 dark:bg-red-950 dark:text-red-300 dark:border-red-800",
+  flagged: "bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-950 dark:text-yellow-300 dark:border-yellow-800",
+  allowed: "bg-green-100 text-green-800 border-green-200 dark:bg-green-950 dark:text-green-300 dark:border-green-800",
+};
+
+const parseLicenseList = (value: string) =>
+  value.split(",").map(license => license.trim()).filter(Boolean);
+
+function LicenseEntryList({ entries, testId }: { entries: LicenseReportEntry[]; testId: string }) {
+  // Problems first; allowed entries are only counted
+  const issues = entries.filter(entry => entry.status !== "allowed");
+  const allowedCount = entries.length - issues.length;
+
+  return (
+    <div className="space-y-2" data-testid={testId}>
+      {issues.map(entry => (
+        <div
+          key={entry.detectedToolId ?? entry.toolId ?? entry.name}
+          className="flex flex-wrap items-center gap-2 text-sm"
+        >
+          <Badge className={statusColors[entry.status]}>{entry.status}</Badge>
+          <span className="font-medium">{entry.packageName ?? entry.name}</span>
+          {entry.version && <span className="text-muted-foreground">{entry.version}</span>}
+          <Badge variant="outline">{entry.license ?? "unknown"}</Badge>
+          <span className="text-muted-foreground">{entry.reason}</span>
+        </div>
+      ))}
+      <p className="text-sm text-muted-foreground">
+        {issues.length === 0 ? "No license issues. " : ""}
+        {allowedCount} {allowedCount === 1 ? "license" : "licenses"} allowed by your policy.
+      </p>
+    </div>
+  );
+}
+
+// License policy editor and the report it produces for the stack and analyzed repositories
+export function LicenseCompliance() {
+  const { toast } = useToast();
+  const [allowed, setAllowed] = useState("");
+  const [denied, setDenied] = useState("");
+  const [flagCopyleft, setFlagCopyleft] = useState(true);
+  const [flagUnknown, setFlagUnknown] = useState(true);
+
+  const { data: report, isLoading } = useQuery<LicenseReportResponse>({
+    queryKey: ["/api/stack/license-report"],
+  });
+
+  useEffect(() => {
+    if (!report) return;
+    setAllowed(report.policy.allowedLicenses.join(", "));
+    setDenied(report.policy.deniedLicenses.join(", "));
+    setFlagCopyleft(report.policy.flagCopyleft);
+    setFlagUnknown(report.policy.flagUnknown);
+  }, [report]);
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/stack/license-policy", {
+        allowedLicenses: parseLicenseList(allowed),
+        deniedLicenses: parseLicenseList(denied),
+        flagCopyleft,
+        flagUnknown
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stack/license-report"] });
+      toast({ title: "License Policy Saved", description: "The license report has been re-evaluated." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Policy Update Failed",
+        description: error.message || "Failed to save license policy",
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (isLoading || !report) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card data-testid="card-license-policy">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            License Policy
+          </CardTitle>
+          <CardDescription>
+            {report.summary.denied} denied · {report.summary.flagged} flagged · {report.summary.allowed} allowed
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="allowed-licenses">Always allow</Label>
+              <Input
+                id="allowed-licenses"
+                placeholder="e.g. LGPL-3.0-only, MPL-2.0"
+                value={allowed}
+                onChange={(e) => setAllowed(e.target.value)}
+                data-testid="input-allowed-licenses"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="denied-licenses">Always deny</Label>
+              <Input
+                id="denied-licenses"
+                placeholder="e.g. AGPL-3.0-only, SSPL-1.0"
+                value={denied}
+                onChange={(e) => setDenied(e.target.value)}
+                data-testid="input-denied-licenses"
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-6">
+            <div className="flex items-center gap-2">
+              <Switch id="flag-copyleft" checked={flagCopyleft} onCheckedChange={setFlagCopyleft} data-testid="switch-flag-copyleft" />
+              <Label htmlFor="flag-copyleft">Flag copyleft licenses</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="flag-unknown" checked={flagUnknown} onCheckedChange={setFlagUnknown} data-testid="switch-flag-unknown" />
+              <Label htmlFor="flag-unknown">Flag unknown licenses</Label>
+            </div>
+            <Button
+              onClick={() => savePolicyMutation.mutate()}
+              disabled={savePolicyMutation.isPending}
+              data-testid="button-save-license-policy"
+            >
+              {savePolicyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Policy
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-license-stack">
+        <CardHeader>
+          <CardTitle>Your Stack</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <LicenseEntryList entries={report.stack} testId="list-license-stack" />
+        </CardContent>
+      </Card>
+
+      {report.repositories.length > 0 ? (
+        report.repositories.map(repository => (
+          <Card key={repository.analysisId} data-testid={`card-license-repository-${repository.analysisId}`}>
+            <CardHeader>
+              <CardTitle>{repository.repositoryOwner}/{repository.repositoryName}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <LicenseEntryList entries={repository.entries} testId={`list-license-repository-${repository.analysisId}`} />
+            </CardContent>
+          </Card>
+        ))
+      ) : (
+        <Card data-testid="no-license-repositories">
+          <CardContent className="text-center py-8">
+            <FileCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium mb-2">No Analyzed Repositories</h3>
+            <p className="text-muted-foreground">
+              Analyze a repository to audit the licenses of its dependencies.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { UserCheck } from "lucide-react";
+import { TaskCard } from "./task-card";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ProjectTask } from "@shared/schema";
+
+interface AssignedTasksProps {
+  boardTitles: Record<string, string>; // Generation id to board title, for the user's own and shared boards
+  onOpenBoard: (generationId: string) => void;
+}
+
+// Tasks assigned to the current user, grouped by the board they belong to
+export function AssignedTasks({ boardTitles, onOpenBoard }: AssignedTasksProps) {
+  const { toast } = useToast();
+
+  const { data: tasks = [], isLoading } = useQuery<ProjectTask[]>({
+    queryKey: ["/api/tasks/assigned"],
+  });
+
+  const updateTaskStatusMutation = useMutation({
+    mutationFn: async ({ taskId, status }: { taskId: string; status: string }) => {
+      const response = await apiRequest("PUT", `/api/tasks/${taskId}/status`, { status });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/assigned"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/project"] });
+    },
+    onError: () => {
+      toast({
+        title: "Update Failed",
+        description: "Failed to update task status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="h-24 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (tasks.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-12 text-center">
+          <UserCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h4 className="text-lg font-medium text-foreground mb-2">No tasks assigned to you</h4>
+          <p className="text-muted-foreground">Tasks assigned to you on your own or shared boards show up here</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const boardIds = [...new Set(tasks.map(task => task.generationId ?? ""))];
+
+  return (
+    <div className="space-y-6">
+      {boardIds.map(boardId => {
+        const boardTasks = tasks.filter(task => (task.generationId ?? "") === boardId);
+        return (
+          <div key={boardId || "unlinked"} className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-medium flex items-center gap-2">
+                {boardTitles[boardId] ?? "Other tasks"}
+                <Badge variant="outline">{boardTasks.length}</Badge>
+              </h3>
+              {boardId && boardTitles[boardId] && (
+                <Button variant="ghost" size="sm" onClick={() => onOpenBoard(boardId)} data-testid={`button-open-board-${boardId}`}>
+                  Open board
+                </Button>
+              )}
+            </div>
+            <div className="space-y-2">
+              {boardTasks.map(task => (
+                <TaskCard
+                  key={task.id}
+                  task={task}
+                  viewMode="list"
+                  onStatusChange={(status) => updateTaskStatusMutation.mutate({ taskId: task.id, status })}
+                  canDelete={false}
+                  data-testid={`assigned-task-${task.id}`}
+                />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Share2, Trash2 } from "lucide-react";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  PROJECT_COLLABORATOR_ROLES,
+  type Project,
+  type ProjectCollaboratorDetail,
+  type ProjectCollaboratorRole,
+} from "@shared/schema";
+
+interface BoardCollaboratorsDialogProps {
+  generationId: string;
+  projectId: string | null; // null until the board is first shared
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Invites collaborators to a task board through the project it is linked to
+export function BoardCollaboratorsDialog({ generationId, projectId, isOpen, onClose }: BoardCollaboratorsDialogProps) {
+  const { toast } = useToast();
+  const [identifier, setIdentifier] = useState("");
+  const [inviteRole, setInviteRole] = useState<ProjectCollaboratorRole>("editor");
+  const collaboratorsUrl = `/api/projects/${projectId}/collaborators`;
+
+  const { data: collaborators = [] } = useQuery<ProjectCollaboratorDetail[]>({
+    queryKey: [collaboratorsUrl],
+    enabled: isOpen && !!projectId,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [collaboratorsUrl] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks/project", generationId] });
+  };
+
+  const shareMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/task-generations/${generationId}/share`);
+      return await response.json() as Project;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/project", generationId] });
+    },
+    onError: (error) => {
+      toast({ title: "Board not shared", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", collaboratorsUrl, { identifier, role: inviteRole });
+      return await response.json();
+    },
+    onSuccess: () => {
+      setIdentifier("");
+      refresh();
+      toast({ title: "Invitation sent", description: "They can accept it from their Project Tasks page." });
+    },
+    onError: (error) => {
+      toast({ title: "Invitation not sent", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: ProjectCollaboratorRole }) => {
+      const response = await apiRequest("PUT", `${collaboratorsUrl}/${userId}`, { role });
+      return await response.json();
+    },
+    onSuccess: refresh,
+    onError: (error) => {
+      toast({ title: "Role not changed", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `${collaboratorsUrl}/${userId}`);
+    },
+    onSuccess: refresh,
+    onError: (error) => {
+      toast({ title: "Collaborator not removed", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Collaborators</DialogTitle>
+        </DialogHeader>
+
+        {!projectId ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Share this board to invite collaborators. Editors can update and assign tasks; viewers can follow progress and work on tasks assigned to them.
+            </p>
+            <Button
+              onClick={() => shareMutation.mutate()}
+              disabled={shareMutation.isPending}
+              data-testid="button-share-board"
+            >
+              <Share2 className="h-4 w-4 mr-2" />
+              Share board
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Input
+                value={identifier}
+                onChange={(event) => setIdentifier(event.target.value)}
+                placeholder="Username or email"
+                data-testid="input-invite-collaborator"
+              />
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as ProjectCollaboratorRole)}>
+                <SelectTrigger className="w-32" data-testid="select-collaborator-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROJECT_COLLABORATOR_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{role}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => inviteMutation.mutate()}
+                disabled={!identifier.trim() || inviteMutation.isPending}
+                data-testid="button-invite-collaborator"
+              >
+                Invite
+              </Button>
+            </div>
+
+            <div className="divide-y divide-border rounded-md border">
+              {collaborators.map(collaborator => (
+                <div key={collaborator.userId} className="flex items-center justify-between p-3" data-testid={`collaborator-${collaborator.userId}`}>
+                  <div>
+                    <p className="text-sm font-medium">{collaborator.username}</p>
+                    <p className="text-xs text-muted-foreground">{collaborator.email}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {collaborator.status === "pending" && <Badge variant="outline">invited</Badge>}
+                    {collaborator.role === "owner" ? (
+                      <Badge variant="secondary">owner</Badge>
+                    ) : (
+                      <>
+                        <Select
+                          value={collaborator.role}
+                          onValueChange={(value) => roleMutation.mutate({ userId: collaborator.userId, role: value as ProjectCollaboratorRole })}
+                        >
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {PROJECT_COLLABORATOR_ROLES.map(role => (
+                              <SelectItem key={role} value={role}>{role}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeMutation.mutate(collaborator.userId)}
+                          disabled={removeMutation.isPending}
+                          title={collaborator.status === "pending" ? "Withdraw invitation" : "Remove collaborator"}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
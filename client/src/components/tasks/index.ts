@@ -4,6 +4,9 @@ export { TaskList } from "./task-list";
 export { TaskCard } from "./task-card";
 export { TaskFiltering } from "./task-filtering";
 export { TaskTimeline } from "./task-timeline";
+export { BoardCollaboratorsDialog } from "./board-collaborators-dialog";
+export { ProjectInvitations } from "./project-invitations";
+export { AssignedTasks } from "./assigned-tasks";
 
 // Re-export types for convenience
 export type { ProjectTask, TaskGeneration, TaskMetrics, TaskDependency } from "@shared/schema";
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Mail } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ProjectInvitation } from "@shared/schema";
+
+// Pending invitations to other users' projects; renders nothing when there are none
+export function ProjectInvitations() {
+  const { toast } = useToast();
+
+  const { data: invitations = [] } = useQuery<ProjectInvitation[]>({
+    queryKey: ["/api/project-invitations"],
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ id, response }: { id: string; response: "accept" | "decline" }) => {
+      await apiRequest("POST", `/api/project-invitations/${id}/${response}`);
+      return response;
+    },
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/project-invitations"] });
+      if (response === "accept") {
+        queryClient.invalidateQueries({ queryKey: ["/api/task-generations/shared"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+        toast({ title: "Invitation accepted", description: "The board is now listed under Shared with me." });
+      }
+    },
+    onError: () => {
+      toast({ title: "Invitation not updated", description: "Please try again", variant: "destructive" });
+    },
+  });
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <Card className="mb-6" data-testid="card-project-invitations">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Mail className="w-4 h-4" />
+          Project invitations
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {invitations.map(invitation => (
+          <div key={invitation.id} className="flex items-center justify-between" data-testid={`invitation-${invitation.id}`}>
+            <div className="text-sm">
+              <span className="font-medium">{invitation.projectName}</span>
+              {invitation.invitedByUsername && (
+                <span className="text-muted-foreground"> from {invitation.invitedByUsername}</span>
+              )}
+              <Badge variant="secondary" className="ml-2">{invitation.role}</Badge>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                onClick={() => respondMutation.mutate({ id: invitation.id, response: "accept" })}
+                disabled={respondMutation.isPending}
+                data-testid={`button-accept-invitation-${invitation.id}`}
+              >
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => respondMutation.mutate({ id: invitation.id, response: "decline" })}
+                disabled={respondMutation.isPending}
+                data-testid={`button-decline-invitation-${invitation.id}`}
+              >
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
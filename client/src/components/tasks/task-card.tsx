@@ -29,7 +29,7 @@ import {
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { ProjectTask } from "@shared/schema";
+import type { ProjectCollaboratorDetail, ProjectTask } from "@shared/schema";
 
 interface TaskCardProps {
   task: ProjectTask;
@@ -37,11 +37,17 @@ interface TaskCardProps {
   isSelected?: boolean;
   onSelect?: (selected: boolean) => void;
   onStatusChange?: (status: string) => void;
+  team?: ProjectCollaboratorDetail[]; // Board members the task can be assigned to
+  onAssign?: (assigneeId: string | null) => void;
+  canDelete?: boolean;
   onClick?: () => void;
   className?: string;
   "data-testid"?: string;
 }
 
+// Radix Select items cannot use an empty value
+const UNASSIGNED = "unassigned";
+
 const statusIcons = {
   pending: Clock,
   in_progress: AlertCircle,
@@ -89,6 +95,9 @@ export function TaskCard({
   isSelected = false, 
   onSelect, 
   onStatusChange,
+  team,
+  onAssign,
+  canDelete = true,
   onClick,
   className = "",
   "data-testid": testId
@@ -106,6 +115,7 @@ export function TaskCard({
   });
 
   const StatusIcon = statusIcons[task.status as keyof typeof statusIcons] || Clock;
+  const assignee = team?.find(member => member.userId === task.assigneeId);
 
   const updateTaskMutation = useMutation({
     mutationFn: async (updates: any) => {
@@ -238,6 +248,29 @@ export function TaskCard({
                     <span>${task.costEstimate}</span>
                   </div>
                 )}
+
+                {team && onAssign ? (
+                  <Select
+                    value={task.assigneeId ?? UNASSIGNED}
+                    onValueChange={(value) => onAssign(value === UNASSIGNED ? null : value)}
+                  >
+                    <SelectTrigger className="h-7 w-40" data-testid={`select-assignee-${task.id}`}>
+                      <User className="w-3 h-3 mr-1" />
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                      {team.map(member => (
+                        <SelectItem key={member.userId} value={member.userId}>{member.username}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : assignee && (
+                  <div className="flex items-center gap-1" data-testid={`text-assignee-${task.id}`}>
+                    <User className="w-3 h-3" />
+                    <span>{assignee.username}</span>
+                  </div>
+                )}
               </div>
             </div>
             
@@ -277,15 +310,17 @@ export function TaskCard({
                 </DialogContent>
               </Dialog>
               
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                onClick={handleDelete}
-                disabled={deleteTaskMutation.isPending}
-                data-testid={`button-delete-${task.id}`}
-              >
-                <Trash2 className="w-4 h-4" />
-              </Button>
+              {canDelete && (
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  onClick={handleDelete}
+                  disabled={deleteTaskMutation.isPending}
+                  data-testid={`button-delete-${task.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
             </div>
           </div>
         </CardContent>
@@ -354,6 +389,13 @@ export function TaskCard({
             <span>Est. cost: ${task.costEstimate}</span>
           </div>
         )}
+
+        {assignee && (
+          <div className="flex items-center gap-1 text-sm text-gray-500" data-testid={`text-assignee-${task.id}`}>
+            <User className="w-3 h-3" />
+            <span>{assignee.username}</span>
+          </div>
+        )}
         
         <div className="flex items-center justify-between pt-2">
           {onStatusChange && (
@@ -397,18 +439,20 @@ export function TaskCard({
               </DialogContent>
             </Dialog>
             
-            <Button 
-              variant="ghost" 
-              size="sm" 
-              onClick={(e) => {
-                e.stopPropagation();
-                handleDelete();
-              }}
-              disabled={deleteTaskMutation.isPending}
-              data-testid={`button-delete-${task.id}`}
-            >
-              <Trash2 className="w-4 h-4" />
-            </Button>
+            {canDelete && (
+              <Button 
+                variant="ghost" 
+                size="sm" 
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete();
+                }}
+                disabled={deleteTaskMutation.isPending}
+                data-testid={`button-delete-${task.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
           </div>
         </div>
       </CardContent>
@@ -7,7 +7,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Filter, X, SlidersHorizontal } from "lucide-react";
-import type { ProjectTask } from "@shared/schema";
+import type { ProjectCollaboratorDetail, ProjectTask } from "@shared/schema";
 
 interface FilterOptions {
   status: string;
@@ -22,6 +22,7 @@ interface TaskFilteringProps {
   filters: FilterOptions;
   onFiltersChange: (filters: FilterOptions) => void;
   tasks: ProjectTask[];
+  team?: ProjectCollaboratorDetail[]; // Names the assignees of a board's tasks
   showAdvanced?: boolean;
 }
 
@@ -66,6 +67,7 @@ export function TaskFiltering({
   filters, 
   onFiltersChange, 
   tasks, 
+  team = [],
   showAdvanced = true 
 }: TaskFilteringProps) {
   const [isOpen, setIsOpen] = useState(false);
@@ -253,7 +255,7 @@ export function TaskFiltering({
                         <SelectItem value="">All Assignees</SelectItem>
                         {getUniqueValues("assigneeId").map((assigneeId) => (
                           <SelectItem key={assigneeId} value={assigneeId}>
-                            {assigneeId} {/* TODO: Replace with actual user name */}
+                            {team.find(member => member.userId === assigneeId)?.username ?? assigneeId}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
@@ -20,11 +20,13 @@ import {
   DollarSign,
   Settings,
   Lightbulb,
-  ArrowRight
+  ArrowRight,
+  Square
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { postEventStream } from "@/lib/event-stream";
 import { useToast } from "@/hooks/use-toast";
-import type { SavedIdea, GeneratedTasksResponse, TaskGenerationParameters } from "@shared/schema";
+import type { SavedIdea, GeneratedTasksResponse, ProjectTask, TaskGenerationParameters, TaskGenerationStreamEvent } from "@shared/schema";
 
 interface TaskGenerationModalProps {
   isOpen: boolean;
@@ -47,6 +49,8 @@ const focusAreaOptions = [
   { value: "cost_optimized", label: "Cost Optimized", description: "Minimize development and operational costs" }
 ];
 
+const EXPECTED_TASK_COUNT = 20; // The prompt asks for 15-25 tasks; only used to pace the progress bar
+
 const complexityOptions = [
   { value: "simple", label: "Simple", description: "Basic implementation with essential features" },
   { value: "moderate", label: "Moderate", description: "Balanced approach with good practices" },
@@ -69,25 +73,72 @@ export function TaskGenerationModal({ isOpen, onClose, idea, onTasksGenerated }:
     queryKey: ["/api/ai/context"]
   });
 
+  const [streamedTasks, setStreamedTasks] = useState<ProjectTask[]>([]);
+  const generationIdRef = useRef<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const invalidateTaskQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/task-generations"] });
+  };
+
+  // Resolves with the finished generation, or null when it was cancelled
   const generateTasksMutation = useMutation({
-    mutationFn: async (generationParams: { ideaId: string; generationParameters: TaskGenerationParameters }) => {
-      const response = await apiRequest("POST", `/api/ideas/${generationParams.ideaId}/generate-tasks`, {
-        ideaId: generationParams.ideaId,
-        generationParameters: generationParams.generationParameters
-      });
-      return await response.json();
+    mutationFn: async (generationParams: { ideaId: string; generationParameters: TaskGenerationParameters }): Promise<GeneratedTasksResponse | null> => {
+      const controller = new AbortController();
+      abortRef.current = controller;
+      generationIdRef.current = null;
+      setStreamedTasks([]);
+
+      let result: GeneratedTasksResponse | null = null;
+      let failure: string | null = null;
+      try {
+        await postEventStream<TaskGenerationStreamEvent>(
+          `/api/ideas/${generationParams.ideaId}/generate-tasks/stream`,
+          {
+            ideaId: generationParams.ideaId,
+            generationParameters: generationParams.generationParameters
+          },
+          ({ event, data }) => {
+            if (event === "generation") generationIdRef.current = data.id;
+            else if (event === "task") setStreamedTasks(tasks => [...tasks, data.task]);
+            else if (event === "complete") result = data;
+            else if (event === "error") failure = data.message;
+          },
+          controller.signal
+        );
+      } catch (error) {
+        if (!controller.signal.aborted) throw error;
+      } finally {
+        abortRef.current = null;
+      }
+
+      if (failure) throw new Error(failure);
+      return result;
     },
-    onSuccess: (data: GeneratedTasksResponse) => {
+    onSuccess: (data: GeneratedTasksResponse | null) => {
+      invalidateTaskQueries();
+      if (!data) {
+        toast({
+          title: "Task Generation Cancelled",
+          description: "Tasks generated before you stopped have been kept.",
+        });
+        setCurrentStep(2);
+        return;
+      }
+
       toast({
         title: "Tasks Generated Successfully!",
-        description: `Generated ${data.tasks.length} tasks for your project`,
+        description: data.source === "heuristic"
+          ? `The AI service is unavailable, so ${data.tasks.length} tasks were built from your task categories and templates`
+          : `Generated ${data.tasks.length} tasks for your project`,
       });
       onTasksGenerated(data);
-      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/task-generations"] });
       onClose();
     },
     onError: (error) => {
+      invalidateTaskQueries();
+      setCurrentStep(2);
       toast({
         title: "Task Generation Failed",
         description: "Please try again or contact support",
@@ -132,6 +183,27 @@ export function TaskGenerationModal({ isOpen, onClose, idea, onTasksGenerated }:
     }
   };
 
+  const handleStopGeneration = async () => {
+    const generationId = generationIdRef.current;
+    if (!generationId) {
+      abortRef.current?.abort();
+      return;
+    }
+    try {
+      // The stream ends with a "cancelled" event once the server has stopped the model
+      await apiRequest("POST", `/api/task-generations/${generationId}/cancel`);
+    } catch {
+      abortRef.current?.abort();
+    }
+  };
+
+  const handleClose = () => {
+    if (generateTasksMutation.isPending) {
+      handleStopGeneration();
+    }
+    onClose();
+  };
+
   const handleGenerate = () => {
     setCurrentStep(3); // Go to generating step
     generateTasksMutation.mutate({
@@ -411,24 +483,49 @@ export function TaskGenerationModal({ isOpen, onClose, idea, onTasksGenerated }:
 
       case 3:
         return (
-          <div className="space-y-6 text-center">
-            <div>
+          <div className="space-y-6">
+            <div className="text-center">
               <Wand2 className="w-16 h-16 text-blue-500 mx-auto mb-4 animate-pulse" />
               <h3 className="text-lg font-semibold mb-2">Generating Your Project Tasks</h3>
               <p className="text-gray-600 dark:text-gray-300 mb-6">
-                Our AI is analyzing your business idea and creating detailed project tasks...
+                Tasks appear below as soon as they are written and are saved to your project right away.
+              </p>
+
+              <Progress
+                value={generateTasksMutation.isPending
+                  ? Math.min(95, 5 + (streamedTasks.length / EXPECTED_TASK_COUNT) * 90)
+                  : 100}
+                className="w-full mb-4"
+              />
+
+              <p className="text-sm text-blue-500" data-testid="text-streamed-task-count">
+                {generateTasksMutation.isPending
+                  ? `→ ${streamedTasks.length} ${streamedTasks.length === 1 ? "task" : "tasks"} generated so far...`
+                  : `✓ ${streamedTasks.length} tasks generated`}
               </p>
-              
-              <Progress value={generateTasksMutation.isPending ? 50 : 100} className="w-full mb-4" />
-              
-              <div className="text-sm text-gray-500 space-y-1">
-                <p>✓ Analyzing business requirements</p>
-                <p>✓ Reviewing your tech stack</p>
-                <p className={generateTasksMutation.isPending ? "text-blue-500" : "text-green-500"}>
-                  {generateTasksMutation.isPending ? "→ Generating tasks..." : "✓ Tasks generated successfully!"}
-                </p>
-              </div>
             </div>
+
+            {streamedTasks.length > 0 && (
+              <ul className="max-h-64 overflow-y-auto divide-y rounded-md border text-left" data-testid="list-streamed-tasks">
+                {streamedTasks.map(task => (
+                  <li key={task.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm" data-testid={`streamed-task-${task.id}`}>
+                    <span className="flex items-center gap-2">
+                      <CheckCircle className="w-4 h-4 text-green-500" />
+                      {task.title}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      <Badge variant="outline">{task.category}</Badge>
+                      {task.estimatedHours && (
+                        <span className="flex items-center gap-1 text-gray-500">
+                          <Clock className="w-3 h-3" />
+                          {parseFloat(task.estimatedHours)}h
+                        </span>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         );
 
@@ -451,7 +548,7 @@ export function TaskGenerationModal({ isOpen, onClose, idea, onTasksGenerated }:
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto" data-testid="modal-task-generation">
         <DialogHeader className="pb-6">
           <DialogTitle className="text-xl font-semibold">
@@ -503,14 +600,24 @@ export function TaskGenerationModal({ isOpen, onClose, idea, onTasksGenerated }:
           </Button>
 
           <div className="flex gap-2">
-            <Button
-              variant="outline"
-              onClick={onClose}
-              disabled={generateTasksMutation.isPending}
-              data-testid="button-cancel"
-            >
-              Cancel
-            </Button>
+            {generateTasksMutation.isPending ? (
+              <Button
+                variant="outline"
+                onClick={handleStopGeneration}
+                data-testid="button-stop-generation"
+              >
+                <Square className="w-4 h-4 mr-2" />
+                Stop Generating
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                onClick={onClose}
+                data-testid="button-cancel"
+              >
+                Cancel
+              </Button>
+            )}
 
             {currentStep < 2 ? (
               <Button
@@ -25,7 +25,7 @@ import { TaskCard } from "./task-card";
 import { TaskFiltering } from "./task-filtering";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { ProjectTask, TaskGeneration, TaskMetrics } from "@shared/schema";
+import type { ProjectCollaboratorDetail, ProjectTask, TaskBoardResponse, TaskGeneration, TaskMetrics } from "@shared/schema";
 
 interface TaskListProps {
   generationId?: string;
@@ -78,7 +78,8 @@ export function TaskList({
     status: "",
     category: "",
     priority: "",
-    complexity: ""
+    complexity: "",
+    assignee: ""
   });
 
   // Fetch tasks data
@@ -96,6 +97,10 @@ export function TaskList({
   const tasks: ProjectTask[] = generationId ? tasksData?.tasks || [] : tasksData || [];
   const generation: TaskGeneration | undefined = generationId ? tasksData?.generation : undefined;
   const metrics: TaskMetrics | undefined = generationId ? tasksData?.metrics : undefined;
+  const board: TaskBoardResponse | undefined = generationId ? tasksData : undefined;
+  // Only shared boards list a team worth assigning to
+  const team: ProjectCollaboratorDetail[] | undefined = board?.projectId ? board.team : undefined;
+  const canEditBoard = !board || board.access !== "viewer";
 
   // Update task status mutation
   const updateTaskStatusMutation = useMutation({
@@ -110,6 +115,7 @@ export function TaskList({
       });
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
       queryClient.invalidateQueries({ queryKey: ["/api/tasks/project"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/assigned"] });
       onTaskUpdate?.(updatedTask);
     },
     onError: () => {
@@ -121,6 +127,25 @@ export function TaskList({
     },
   });
 
+  const assignTaskMutation = useMutation({
+    mutationFn: async ({ taskId, assigneeId }: { taskId: string; assigneeId: string | null }) => {
+      const response = await apiRequest("PUT", `/api/tasks/${taskId}/assignee`, { assigneeId });
+      return await response.json();
+    },
+    onSuccess: (updatedTask) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/project"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/assigned"] });
+      onTaskUpdate?.(updatedTask);
+    },
+    onError: () => {
+      toast({
+        title: "Assignment Failed",
+        description: "Failed to assign the task",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Bulk update mutation
   const bulkUpdateMutation = useMutation({
     mutationFn: async ({ taskIds, updates }: { taskIds: string[]; updates: any }) => {
@@ -151,6 +176,7 @@ export function TaskList({
     if (filters.category && task.category !== filters.category) return false;
     if (filters.priority && task.priority !== filters.priority) return false;
     if (filters.complexity && task.complexity !== filters.complexity) return false;
+    if (filters.assignee && task.assigneeId !== filters.assignee) return false;
     return true;
   });
 
@@ -266,8 +292,9 @@ export function TaskList({
           {showFilters && (
             <TaskFiltering 
               filters={filters}
-              onFiltersChange={setFilters}
+              onFiltersChange={(updated) => setFilters({ ...updated, assignee: updated.assignee ?? "" })}
               tasks={tasks}
+              team={board?.team}
             />
           )}
           
@@ -345,6 +372,9 @@ export function TaskList({
                     isSelected={selectedTasks.includes(task.id)}
                     onSelect={(selected) => handleTaskSelect(task.id, selected)}
                     onStatusChange={(status) => updateTaskStatusMutation.mutate({ taskId: task.id, status })}
+                    team={team}
+                    onAssign={canEditBoard ? (assigneeId) => assignTaskMutation.mutate({ taskId: task.id, assigneeId }) : undefined}
+                    canDelete={!board || board.access === "owner"}
                     onClick={() => onTaskSelect?.(task)}
                     data-testid={`task-card-${task.id}`}
                   />
@@ -364,6 +394,9 @@ export function TaskList({
               isSelected={selectedTasks.includes(task.id)}
               onSelect={(selected) => handleTaskSelect(task.id, selected)}
               onStatusChange={(status) => updateTaskStatusMutation.mutate({ taskId: task.id, status })}
+              team={team}
+              onAssign={canEditBoard ? (assigneeId) => assignTaskMutation.mutate({ taskId: task.id, assigneeId }) : undefined}
+              canDelete={!board || board.access === "owner"}
               onClick={() => onTaskSelect?.(task)}
               data-testid={`task-card-${task.id}`}
             />
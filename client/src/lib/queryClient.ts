@@ -23,6 +23,16 @@ export async function apiRequest(
   return res;
 }
 
+// apiRequest errors read "<status>: <body>"; when the body is the route's JSON error, its message is shown
+export function apiErrorMessage(error: unknown): string {
+  const text = error instanceof Error ? error.message.replace(/^\d+:\s*/, "") : String(error);
+  try {
+    return JSON.parse(text).message ?? text;
+  } catch {
+    return text;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -8,14 +8,16 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2, Layers } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertUserSchema } from "@shared/schema";
+import { insertUserSchema, registerUserSchema } from "@shared/schema";
 import { z } from "zod";
 import { Redirect } from "wouter";
+import { ForgotPasswordForm, ResetPasswordForm } from "@/components/auth/password-reset-forms";
+import { TwoFactorLoginForm } from "@/components/auth/two-factor-login-form";
 
 const loginSchema = insertUserSchema.pick({ username: true, password: true });
-const registerSchema = insertUserSchema.extend({
-  confirmPassword: z.string().min(6, "Password must be at least 6 characters"),
-}).refine((data) => data.password === data.confirmPassword, {
+const registerSchema = registerUserSchema.and(z.object({
+  confirmPassword: z.string(),
+})).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"],
 });
@@ -25,7 +27,9 @@ type RegisterData = z.infer<typeof registerSchema>;
 
 export default function AuthPage() {
   const { user, loginMutation, registerMutation } = useAuth();
-  const [activeTab, setActiveTab] = useState("login");
+  // Reset links land here as /auth?reset=<token>
+  const [resetToken, setResetToken] = useState(() => new URLSearchParams(window.location.search).get("reset"));
+  const [activeTab, setActiveTab] = useState(resetToken ? "reset" : "login");
 
   const loginForm = useForm<LoginData>({
     resolver: zodResolver(loginSchema),
@@ -50,6 +54,12 @@ export default function AuthPage() {
     registerMutation.mutate(registerData);
   };
 
+  const finishPasswordReset = () => {
+    window.history.replaceState(null, "", window.location.pathname);
+    setResetToken(null);
+    setActiveTab("login");
+  };
+
   return (
     <div className="min-h-screen bg-background flex">
       {/* Left side - Auth forms */}
@@ -72,60 +82,83 @@ export default function AuthPage() {
             </TabsList>
             
             <TabsContent value="login">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Sign In</CardTitle>
-                  <CardDescription>
-                    Enter your credentials to access your dashboard
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
-                    <div>
-                      <Label htmlFor="login-username">Username</Label>
-                      <Input
-                        id="login-username"
-                        data-testid="input-login-username"
-                        {...loginForm.register("username")}
-                        placeholder="Enter your username"
-                      />
-                      {loginForm.formState.errors.username && (
-                        <p className="text-sm text-destructive mt-1">
-                          {loginForm.formState.errors.username.message}
-                        </p>
-                      )}
-                    </div>
-                    <div>
-                      <Label htmlFor="login-password">Password</Label>
-                      <Input
-                        id="login-password"
-                        data-testid="input-login-password"
-                        type="password"
-                        {...loginForm.register("password")}
-                        placeholder="Enter your password"
-                      />
-                      {loginForm.formState.errors.password && (
-                        <p className="text-sm text-destructive mt-1">
-                          {loginForm.formState.errors.password.message}
-                        </p>
-                      )}
-                    </div>
-                    <Button 
-                      type="submit" 
-                      className="w-full"
-                      data-testid="button-login"
-                      disabled={loginMutation.isPending}
-                    >
-                      {loginMutation.isPending && (
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      )}
-                      Sign In
-                    </Button>
-                  </form>
-                </CardContent>
-              </Card>
+              {loginMutation.data && "twoFactorRequired" in loginMutation.data ? (
+                <TwoFactorLoginForm onCancel={() => loginMutation.reset()} />
+              ) : (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Sign In</CardTitle>
+                    <CardDescription>
+                      Enter your credentials to access your dashboard
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
+                      <div>
+                        <Label htmlFor="login-username">Username</Label>
+                        <Input
+                          id="login-username"
+                          data-testid="input-login-username"
+                          {...loginForm.register("username")}
+                          placeholder="Enter your username"
+                        />
+                        {loginForm.formState.errors.username && (
+                          <p className="text-sm text-destructive mt-1">
+                            {loginForm.formState.errors.username.message}
+                          </p>
+                        )}
+                      </div>
+                      <div>
+                        <Label htmlFor="login-password">Password</Label>
+                        <Input
+                          id="login-password"
+                          data-testid="input-login-password"
+                          type="password"
+                          {...loginForm.register("password")}
+                          placeholder="Enter your password"
+                        />
+                        {loginForm.formState.errors.password && (
+                          <p className="text-sm text-destructive mt-1">
+                            {loginForm.formState.errors.password.message}
+                          </p>
+                        )}
+                      </div>
+                      <Button 
+                        type="submit" 
+                        className="w-full"
+                        data-testid="button-login"
+                        disabled={loginMutation.isPending}
+                      >
+                        {loginMutation.isPending && (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Sign In
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="link"
+                        className="w-full"
+                        onClick={() => setActiveTab("forgot")}
+                        data-testid="button-forgot-password"
+                      >
+                        Forgot your password?
+                      </Button>
+                    </form>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            <TabsContent value="forgot">
+              <ForgotPasswordForm onBack={() => setActiveTab("login")} />
             </TabsContent>
 
+            {resetToken && (
+              <TabsContent value="reset">
+                <ResetPasswordForm token={resetToken} onDone={finishPasswordReset} />
+              </TabsContent>
+            )}
+
             <TabsContent value="register">
               <Card>
                 <CardHeader>
@@ -172,7 +205,7 @@ export default function AuthPage() {
                         data-testid="input-register-password"
                         type="password"
                         {...registerForm.register("password")}
-                        placeholder="Create a password"
+                        placeholder="At least 10 characters, with a letter and a number"
                       />
                       {registerForm.formState.errors.password && (
                         <p className="text-sm text-destructive mt-1">
@@ -13,6 +13,7 @@ import Navigation from "@/components/layout/navigation";
 import { CategoryChart } from "@/components/charts/category-chart";
 import { PopularityChart } from "@/components/charts/popularity-chart";
 import { CostTrendsChart } from "@/components/charts/cost-trends-chart";
+import { AIUsagePanel } from "@/components/ai";
 import type { UserToolWithTool, UserBudgetResponse, BudgetStatusResponse, CostTrendsResponse, StackAnalysisResponse, StackRedundanciesResponse, CompatibilityIssuesResponse } from "@shared/schema";
 
 
@@ -604,6 +605,9 @@ export default function Dashboard() {
             </CardContent>
           </Card>
 
+          {/* AI Usage Section */}
+          <AIUsagePanel />
+
           {/* Charts Section */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
             <Card>
@@ -24,6 +24,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AskDocsPanel } from "@/components/ai";
 import { useToast } from "@/hooks/use-toast";
 
 interface DocCategory {
@@ -288,6 +289,10 @@ export default function DocumentationHub() {
           </Card>
         </div>
 
+        <div className="mb-12">
+          <AskDocsPanel />
+        </div>
+
         {/* Search Results Section */}
         {isSearchMode ? (
           <div className="space-y-6">
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
@@ -10,19 +11,22 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Wand2, Lightbulb, Star, Trash2, Loader2, Settings, Target, TrendingUp, Users, Building2, Brain, Info, CheckCircle, Calendar, DollarSign, Clock, Map, Workflow } from "lucide-react";
+import { Wand2, Lightbulb, Star, Trash2, Loader2, Settings, Target, TrendingUp, Users, Building2, Brain, Info, CheckCircle, Calendar, DollarSign, Clock, Map, Workflow, RefreshCw, MessageSquare, BookOpen, FileText } from "lucide-react";
 import Navigation from "@/components/layout/navigation";
 import RoadmapVisualization from "@/components/roadmap-visualization";
 import { TaskGenerationModal } from "@/components/tasks";
+import { RefinementThreadDialog, PromptTemplatesDialog } from "@/components/ai";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { SavedIdea, UserToolWithTool, UserAIContext, UserContextUpdate, EnhancedBusinessIdea, ContextualRecommendation, GeneratedTasksResponse } from "@shared/schema";
+import type { SavedIdea, UserToolWithTool, UserAIContext, UserContextUpdate, EnhancedBusinessIdea, ContextualRecommendation, GeneratedTasksResponse, GenerationSource, AIValidationOutcome } from "@shared/schema";
 
 interface GeneratedIdea {
   title: string;
   description: string;
   monetization: string;
   tags: string[];
+  source?: GenerationSource;
+  validation?: AIValidationOutcome;
 }
 
 interface StackAnalysis {
@@ -44,6 +48,8 @@ export default function IdeaLab() {
     isOpen: false,
     idea: null
   });
+  const [refiningIdea, setRefiningIdea] = useState<SavedIdea | null>(null);
+  const [showPromptTemplates, setShowPromptTemplates] = useState(false);
 
   const { data: userTools = [], isLoading: userToolsLoading } = useQuery<UserToolWithTool[]>({
     queryKey: ["/api/user-tools"],
@@ -79,7 +85,9 @@ export default function IdeaLab() {
       setGeneratedIdeas(ideas);
       toast({
         title: "Ideas generated",
-        description: `Generated ${ideas.length} business ideas based on your selected tools.`,
+        description: ideas[0]?.source === "heuristic"
+          ? `The AI service is unavailable, so ${ideas.length} ideas were built from your stack and project templates.`
+          : `Generated ${ideas.length} business ideas based on your selected tools.`,
       });
     },
     onError: (error: Error) => {
@@ -92,10 +100,11 @@ export default function IdeaLab() {
   });
 
   const generateEnhancedIdeasMutation = useMutation({
-    mutationFn: async ({ selectedTools, goals }: { selectedTools: string[]; goals?: string }) => {
+    mutationFn: async ({ selectedTools, goals, regenerate }: { selectedTools: string[]; goals?: string; regenerate?: boolean }) => {
       const response = await apiRequest("POST", "/api/ai/enhanced-ideas", {
         selectedTools,
         goals,
+        regenerate,
       });
       return await response.json();
     },
@@ -103,7 +112,11 @@ export default function IdeaLab() {
       setEnhancedIdeas(ideas);
       toast({
         title: "Enhanced ideas generated",
-        description: `Generated ${ideas.length} context-aware business ideas tailored to your profile.`,
+        description: ideas[0]?.source === "heuristic"
+          ? `The AI service is unavailable, so ${ideas.length} ideas were built from your stack and project templates.`
+          : ideas[0]?.cached
+            ? "These ideas were generated earlier for the same tools, goals and profile. Use Regenerate for a fresh set."
+            : `Generated ${ideas.length} context-aware business ideas tailored to your profile.`,
       });
     },
     onError: (error: Error) => {
@@ -115,6 +128,23 @@ export default function IdeaLab() {
     },
   });
 
+  const regenerateRecommendationsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("GET", "/api/ai/recommendations?regenerate=true");
+      return await response.json();
+    },
+    onSuccess: (fresh: ContextualRecommendation[]) => {
+      queryClient.setQueryData(["/api/ai/recommendations"], fresh);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateContextMutation = useMutation({
     mutationFn: async (context: Partial<UserAIContext>) => {
       await apiRequest("POST", "/api/ai/context", context);
@@ -230,6 +260,7 @@ export default function IdeaLab() {
       implementationComplexity: null,
       estimatedCost: null,
       timeToMarket: null,
+      generationMetadata: { source: idea.source, validation: idea.validation },
     });
   };
 
@@ -640,15 +671,26 @@ export default function IdeaLab() {
                           <Target className="h-5 w-5 mr-2" />
                           Your Profile
                         </CardTitle>
-                        <Button 
-                          variant="outline" 
-                          size="sm" 
-                          onClick={() => setContextSetup(true)}
-                          data-testid="button-edit-context"
-                        >
-                          <Settings className="h-4 w-4 mr-2" />
-                          Edit
-                        </Button>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setShowPromptTemplates(true)}
+                            data-testid="button-prompt-templates"
+                          >
+                            <FileText className="h-4 w-4 mr-2" />
+                            Prompts
+                          </Button>
+                          <Button 
+                            variant="outline" 
+                            size="sm" 
+                            onClick={() => setContextSetup(true)}
+                            data-testid="button-edit-context"
+                          >
+                            <Settings className="h-4 w-4 mr-2" />
+                            Edit
+                          </Button>
+                        </div>
                       </div>
                     </CardHeader>
                     <CardContent>
@@ -773,7 +815,23 @@ export default function IdeaLab() {
                   {/* Enhanced Generated Ideas */}
                   {enhancedIdeas.length > 0 && (
                     <div>
-                      <h3 className="text-xl font-semibold text-foreground mb-6">Enhanced Ideas</h3>
+                      <div className="flex items-center justify-between mb-6">
+                        <h3 className="text-xl font-semibold text-foreground">Enhanced Ideas</h3>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => generateEnhancedIdeasMutation.mutate({
+                            selectedTools,
+                            goals: goals.trim() || undefined,
+                            regenerate: true,
+                          })}
+                          disabled={generateEnhancedIdeasMutation.isPending || selectedTools.length === 0}
+                          data-testid="button-regenerate-enhanced-ideas"
+                        >
+                          <RefreshCw className={`h-4 w-4 mr-2 ${generateEnhancedIdeasMutation.isPending ? "animate-spin" : ""}`} />
+                          Regenerate
+                        </Button>
+                      </div>
                       <div className="space-y-6">
                         {enhancedIdeas.map((idea, index) => (
                           <Card key={index} className="border-l-4 border-l-primary">
@@ -807,7 +865,9 @@ export default function IdeaLab() {
                                       title: idea.title,
                                       description: idea.description,
                                       monetization: idea.monetization,
-                                      tags: idea.tags
+                                      tags: idea.tags,
+                                      source: idea.source,
+                                      validation: idea.validation
                                     })}
                                     disabled={saveIdeaMutation.isPending}
                                     data-testid={`button-save-enhanced-idea-${index}`}
@@ -916,7 +976,19 @@ export default function IdeaLab() {
                 </Card>
               ) : (
                 <div>
-                  <h3 className="text-xl font-semibold text-foreground mb-6">Smart Recommendations</h3>
+                  <div className="flex items-center justify-between mb-6">
+                    <h3 className="text-xl font-semibold text-foreground">Smart Recommendations</h3>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => regenerateRecommendationsMutation.mutate()}
+                      disabled={regenerateRecommendationsMutation.isPending}
+                      data-testid="button-regenerate-recommendations"
+                    >
+                      <RefreshCw className={`h-4 w-4 mr-2 ${regenerateRecommendationsMutation.isPending ? "animate-spin" : ""}`} />
+                      Regenerate
+                    </Button>
+                  </div>
                   <div className="space-y-6">
                     {recommendations.map((rec, index) => (
                       <Card key={index} className={`${
@@ -998,6 +1070,22 @@ export default function IdeaLab() {
                             </div>
                           )}
                           
+                          {rec.relatedDocs && rec.relatedDocs.length > 0 && (
+                            <div className="mb-4">
+                              <h5 className="font-medium text-sm mb-2">Related Docs:</h5>
+                              <div className="flex flex-wrap gap-2">
+                                {rec.relatedDocs.map(doc => (
+                                  <Link key={`${doc.articleId}-${doc.heading}`} href={`/docs/${doc.slug}`}>
+                                    <Badge variant="secondary" className="cursor-pointer" data-testid={`link-related-doc-${index}-${doc.slug}`}>
+                                      <BookOpen className="h-3 w-3 mr-1" />
+                                      {doc.heading ? `${doc.title} > ${doc.heading}` : doc.title}
+                                    </Badge>
+                                  </Link>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                          
                           {(rec.dependencies?.length || rec.alternatives?.length) && (
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
                               {rec.dependencies && rec.dependencies.length > 0 && (
@@ -1115,6 +1203,16 @@ export default function IdeaLab() {
                           <Workflow className="h-4 w-4 mr-2" />
                           Generate Tasks
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setRefiningIdea(idea)}
+                          className="flex-1"
+                          data-testid={`button-refine-idea-${idea.id}`}
+                        >
+                          <MessageSquare className="h-4 w-4 mr-2" />
+                          Refine
+                        </Button>
                       </div>
                     </CardContent>
                   </Card>
@@ -1125,6 +1223,20 @@ export default function IdeaLab() {
         </div>
       </div>
       
+      {/* Prompt Templates */}
+      <PromptTemplatesDialog isOpen={showPromptTemplates} onClose={() => setShowPromptTemplates(false)} />
+
+      {/* Refinement Thread */}
+      {refiningIdea && (
+        <RefinementThreadDialog
+          isOpen={!!refiningIdea}
+          onClose={() => setRefiningIdea(null)}
+          targetType="idea"
+          targetId={refiningIdea.id}
+          title={refiningIdea.title}
+        />
+      )}
+
       {/* Task Generation Modal */}
       {taskGenerationModal.idea && (
         <TaskGenerationModal
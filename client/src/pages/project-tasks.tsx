@@ -21,13 +21,18 @@ import {
   Grid,
   Eye,
   Settings,
-  TrendingUp
+  TrendingUp,
+  Users,
+  UserCheck
 } from "lucide-react";
 import Navigation from "@/components/layout/navigation";
 import { 
   TaskList, 
   TaskTimeline, 
-  TaskGenerationModal 
+  TaskGenerationModal,
+  BoardCollaboratorsDialog,
+  ProjectInvitations,
+  AssignedTasks
 } from "@/components/tasks";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -36,15 +41,14 @@ import type {
   ProjectTask, 
   SavedIdea, 
   TaskMetrics,
-  GeneratedTasksResponse 
+  GeneratedTasksResponse,
+  SharedTaskBoard,
+  TaskBoardResponse
 } from "@shared/schema";
 
 interface ProjectTasksPageProps {}
 
-interface ProjectData {
-  generation: TaskGeneration;
-  tasks: ProjectTask[];
-  metrics: TaskMetrics;
+interface ProjectData extends TaskBoardResponse {
   idea?: SavedIdea;
 }
 
@@ -54,6 +58,7 @@ export default function ProjectTasksPage({}: ProjectTasksPageProps) {
   const [selectedProject, setSelectedProject] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("");
+  const [isCollaboratorsOpen, setIsCollaboratorsOpen] = useState(false);
   const [taskGenerationModal, setTaskGenerationModal] = useState<{ isOpen: boolean; idea: SavedIdea | null }>({
     isOpen: false,
     idea: null
@@ -68,6 +73,15 @@ export default function ProjectTasksPage({}: ProjectTasksPageProps) {
     }
   });
 
+  // Boards other users shared with the current user
+  const { data: sharedBoards = [] } = useQuery<SharedTaskBoard[]>({
+    queryKey: ["/api/task-generations/shared"],
+  });
+
+  const boardTitles = Object.fromEntries(
+    [...projects, ...sharedBoards].map(board => [board.id, board.title])
+  );
+
   // Fetch saved ideas for new project generation
   const { data: savedIdeas = [] } = useQuery<SavedIdea[]>({
     queryKey: ["/api/saved-ideas"],
@@ -154,11 +168,34 @@ export default function ProjectTasksPage({}: ProjectTasksPageProps) {
                     {projectData.generation.description}
                   </p>
                 </div>
-                <Badge className={getStatusColor(projectData.generation.status)}>
-                  {projectData.generation.status}
-                </Badge>
+                <div className="flex items-center gap-2">
+                  {projectData.access === "owner" ? (
+                    <Button
+                      variant="outline"
+                      onClick={() => setIsCollaboratorsOpen(true)}
+                      data-testid="button-board-collaborators"
+                    >
+                      <Users className="w-4 h-4 mr-2" />
+                      {projectData.projectId ? `Collaborators (${projectData.team.length - 1})` : "Share"}
+                    </Button>
+                  ) : (
+                    <Badge variant="secondary" data-testid="badge-board-access">Shared with you as {projectData.access}</Badge>
+                  )}
+                  <Badge className={getStatusColor(projectData.generation.status)}>
+                    {projectData.generation.status}
+                  </Badge>
+                </div>
               </div>
             )}
+
+            {projectData?.access === "owner" && (
+              <BoardCollaboratorsDialog
+                generationId={selectedProject}
+                projectId={projectData.projectId}
+                isOpen={isCollaboratorsOpen}
+                onClose={() => setIsCollaboratorsOpen(false)}
+              />
+            )}
           </div>
 
           {projectLoading ? (
@@ -425,6 +462,8 @@ export default function ProjectTasksPage({}: ProjectTasksPageProps) {
             </div>
           )}
 
+          <ProjectInvitations />
+
           {/* Filters and search */}
           <div className="flex items-center gap-4 mb-6">
             <div className="relative flex-1 max-w-md">
@@ -453,112 +492,173 @@ export default function ProjectTasksPage({}: ProjectTasksPageProps) {
           </div>
         </div>
 
-        {/* Projects list */}
-        {projectsLoading ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {[...Array(6)].map((_, i) => (
-              <Card key={i} className="animate-pulse">
-                <CardContent className="p-6">
-                  <div className="space-y-4">
-                    <div className="h-5 bg-muted rounded w-3/4"></div>
-                    <div className="h-4 bg-muted rounded w-full"></div>
-                    <div className="h-4 bg-muted rounded w-2/3"></div>
-                    <div className="flex gap-2">
-                      <div className="h-6 bg-muted rounded w-16"></div>
-                      <div className="h-6 bg-muted rounded w-20"></div>
-                    </div>
-                  </div>
+        <Tabs defaultValue="mine" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="mine" data-testid="tab-my-projects">
+              <Workflow className="w-4 h-4 mr-2" />
+              My Projects
+            </TabsTrigger>
+            <TabsTrigger value="shared" data-testid="tab-shared-projects">
+              <Users className="w-4 h-4 mr-2" />
+              Shared with me ({sharedBoards.length})
+            </TabsTrigger>
+            <TabsTrigger value="assigned" data-testid="tab-assigned-tasks">
+              <UserCheck className="w-4 h-4 mr-2" />
+              Assigned to me
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="mine">
+            {/* Projects list */}
+            {projectsLoading ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {[...Array(6)].map((_, i) => (
+                  <Card key={i} className="animate-pulse">
+                    <CardContent className="p-6">
+                      <div className="space-y-4">
+                        <div className="h-5 bg-muted rounded w-3/4"></div>
+                        <div className="h-4 bg-muted rounded w-full"></div>
+                        <div className="h-4 bg-muted rounded w-2/3"></div>
+                        <div className="flex gap-2">
+                          <div className="h-6 bg-muted rounded w-16"></div>
+                          <div className="h-6 bg-muted rounded w-20"></div>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : filteredProjects.length === 0 ? (
+              <Card>
+                <CardContent className="p-12 text-center">
+                  <Workflow className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h4 className="text-lg font-medium text-foreground mb-2">
+                    {projects.length === 0 ? "No projects yet" : "No matching projects"}
+                  </h4>
+                  <p className="text-muted-foreground mb-6">
+                    {projects.length === 0 
+                      ? "Generate your first project from a business idea to get started"
+                      : "Try adjusting your search criteria"
+                    }
+                  </p>
+                  {projects.length === 0 && (
+                    <Button 
+                      onClick={() => setTaskGenerationModal({ isOpen: true, idea: null })}
+                      data-testid="button-create-first-project"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Create Your First Project
+                    </Button>
+                  )}
                 </CardContent>
               </Card>
-            ))}
-          </div>
-        ) : filteredProjects.length === 0 ? (
-          <Card>
-            <CardContent className="p-12 text-center">
-              <Workflow className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-              <h4 className="text-lg font-medium text-foreground mb-2">
-                {projects.length === 0 ? "No projects yet" : "No matching projects"}
-              </h4>
-              <p className="text-muted-foreground mb-6">
-                {projects.length === 0 
-                  ? "Generate your first project from a business idea to get started"
-                  : "Try adjusting your search criteria"
-                }
-              </p>
-              {projects.length === 0 && (
-                <Button 
-                  onClick={() => setTaskGenerationModal({ isOpen: true, idea: null })}
-                  data-testid="button-create-first-project"
-                >
-                  <Plus className="w-4 h-4 mr-2" />
-                  Create Your First Project
-                </Button>
-              )}
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredProjects.map((project) => (
-              <Card 
-                key={project.id} 
-                className="cursor-pointer hover:shadow-md transition-shadow"
-                onClick={() => handleProjectSelect(project.id)}
-                data-testid={`card-project-${project.id}`}
-              >
-                <CardHeader className="pb-3">
-                  <div className="flex items-start justify-between">
-                    <h3 className="font-semibold text-foreground line-clamp-2">
-                      {project.title}
-                    </h3>
-                    <Badge className={getStatusColor(project.status)}>
-                      {project.status}
-                    </Badge>
-                  </div>
-                </CardHeader>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {filteredProjects.map((project) => (
+                  <Card 
+                    key={project.id} 
+                    className="cursor-pointer hover:shadow-md transition-shadow"
+                    onClick={() => handleProjectSelect(project.id)}
+                    data-testid={`card-project-${project.id}`}
+                  >
+                    <CardHeader className="pb-3">
+                      <div className="flex items-start justify-between">
+                        <h3 className="font-semibold text-foreground line-clamp-2">
+                          {project.title}
+                        </h3>
+                        <Badge className={getStatusColor(project.status)}>
+                          {project.status}
+                        </Badge>
+                      </div>
+                    </CardHeader>
                 
-                <CardContent className="space-y-4">
-                  <p className="text-sm text-muted-foreground line-clamp-3">
-                    {project.description}
-                  </p>
+                    <CardContent className="space-y-4">
+                      <p className="text-sm text-muted-foreground line-clamp-3">
+                        {project.description}
+                      </p>
                   
-                  <div className="grid grid-cols-2 gap-4 text-sm">
-                    <div>
-                      <div className="font-medium">Generated</div>
-                      <div className="text-muted-foreground">
-                        {project.createdAt ? new Date(project.createdAt).toLocaleDateString() : "N/A"}
-                      </div>
-                    </div>
-                    <div>
-                      <div className="font-medium">Tasks</div>
-                      <div className="text-muted-foreground">
-                        {project.totalTasks || 0} tasks
+                      <div className="grid grid-cols-2 gap-4 text-sm">
+                        <div>
+                          <div className="font-medium">Generated</div>
+                          <div className="text-muted-foreground">
+                            {project.createdAt ? new Date(project.createdAt).toLocaleDateString() : "N/A"}
+                          </div>
+                        </div>
+                        <div>
+                          <div className="font-medium">Tasks</div>
+                          <div className="text-muted-foreground">
+                            {project.totalTasks || 0} tasks
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  </div>
                   
-                  {(() => {
-                    if (
-                      project.generationParameters && 
-                      typeof project.generationParameters === 'object' && 
-                      'targetTimeframe' in project.generationParameters && 
-                      typeof (project.generationParameters as any).targetTimeframe === 'string'
-                    ) {
-                      return (
-                        <div className="flex items-center gap-2">
-                          <Clock className="w-4 h-4 text-muted-foreground" />
-                          <span className="text-sm text-muted-foreground">
-                            {(project.generationParameters as any).targetTimeframe}
-                          </span>
-                        </div>
-                      );
-                    }
-                    return null;
-                  })()}
+                      {(() => {
+                        if (
+                          project.generationParameters && 
+                          typeof project.generationParameters === 'object' && 
+                          'targetTimeframe' in project.generationParameters && 
+                          typeof (project.generationParameters as any).targetTimeframe === 'string'
+                        ) {
+                          return (
+                            <div className="flex items-center gap-2">
+                              <Clock className="w-4 h-4 text-muted-foreground" />
+                              <span className="text-sm text-muted-foreground">
+                                {(project.generationParameters as any).targetTimeframe}
+                              </span>
+                            </div>
+                          );
+                        }
+                        return null;
+                      })()}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="shared">
+            {sharedBoards.length === 0 ? (
+              <Card>
+                <CardContent className="p-12 text-center">
+                  <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h4 className="text-lg font-medium text-foreground mb-2">Nothing shared with you yet</h4>
+                  <p className="text-muted-foreground">
+                    Boards appear here once you accept an invitation to collaborate
+                  </p>
                 </CardContent>
               </Card>
-            ))}
-          </div>
-        )}
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {sharedBoards.map((board) => (
+                  <Card
+                    key={board.id}
+                    className="cursor-pointer hover:shadow-md transition-shadow"
+                    onClick={() => handleProjectSelect(board.id)}
+                    data-testid={`card-shared-project-${board.id}`}
+                  >
+                    <CardHeader className="pb-3">
+                      <div className="flex items-start justify-between">
+                        <h3 className="font-semibold text-foreground line-clamp-2">{board.title}</h3>
+                        <Badge variant="secondary">{board.role}</Badge>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      <p className="text-sm text-muted-foreground line-clamp-3">{board.description}</p>
+                      <div className="text-sm text-muted-foreground">
+                        Owned by {board.ownerUsername} · {board.totalTasks || 0} tasks
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="assigned">
+            <AssignedTasks boardTitles={boardTitles} onOpenBoard={handleProjectSelect} />
+          </TabsContent>
+        </Tabs>
 
         {/* Task Generation Modal */}
         {(taskGenerationModal.idea || savedIdeas.length > 0) && (
@@ -27,9 +27,19 @@ import {
   Monitor,
   CheckCircle,
   AlertCircle,
-  Info
+  Info,
+  Upload
 } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  ImportPreviewSummary,
+  SbomExportButton,
+  TrackedRepositories,
+  TrackRepositoryControl,
+  VulnerabilityAdvisoryList,
+  VulnerabilityBadge
+} from "@/components/repository";
+import type { RepositoryImportPreview, VulnerabilityReportResponse } from "@shared/schema";
 
 interface DetectedTool {
   id: string;
@@ -37,7 +47,11 @@ interface DetectedTool {
   category: string;
   confidenceScore: number;
   estimatedMonthlyCost: string;
-  detectionSource: string[];
+  detectionMethod: string;
+  filePath?: string | null;
+  detectionDetails?: {
+    workspace?: { name: string; path: string; managers: string[] };
+  } | null;
   description?: string;
   toolId?: string;
   suggestedTool?: string;
@@ -63,6 +77,7 @@ interface AnalysisResult {
     repositoryUrl: string;
     repositoryName: string;
     repositoryOwner: string;
+    sourceType?: string;
     status: string;
     totalDetectedTools: number;
     estimatedMonthlyCost: string;
@@ -75,6 +90,10 @@ interface AnalysisResult {
     totalEstimatedCost: number;
     confidenceScore: number;
     categories: string[];
+    workspaces?: {
+      managers: string[];
+      projects: Array<{ name: string; path: string; managers: string[]; detectedTools: number }>;
+    };
   };
 }
 
@@ -134,37 +153,50 @@ export function RepositoryImportPage() {
   const [step, setStep] = useState(1);
   const [repositoryUrl, setRepositoryUrl] = useState("");
   const [branch, setBranch] = useState("main");
+  const [archiveFile, setArchiveFile] = useState<File | null>(null);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [selectedTools, setSelectedTools] = useState<Map<string, SelectedTool>>(new Map());
   const [importNotes, setImportNotes] = useState("");
+  const [importPreview, setImportPreview] = useState<RepositoryImportPreview | null>(null);
   const { toast } = useToast();
 
+  // Known advisories for the detected package versions (empty until advisories are imported)
+  const { data: vulnerabilityReport } = useQuery<VulnerabilityReportResponse>({
+    queryKey: ["/api/repositories/analyses", analysisResult?.analysis.id, "vulnerabilities"],
+    enabled: !!analysisResult,
+  });
+  const vulnerabilitiesByTool = new Map(
+    (vulnerabilityReport?.vulnerabilities ?? []).map(vulnerability => [vulnerability.detectedToolId, vulnerability])
+  );
+
+  const handleAnalysisSuccess = (data: AnalysisResult) => {
+    setAnalysisResult(data);
+    // Pre-select high confidence tools
+    const preSelected = new Map<string, SelectedTool>();
+    data.detectedTools
+      .filter((tool: DetectedTool) => tool.confidenceScore >= 0.8)
+      .forEach((tool: DetectedTool) => {
+        preSelected.set(tool.id, {
+          detectedToolId: tool.id,
+          monthlyCost: tool.estimatedMonthlyCost,
+          quantity: 1,
+          isActive: true
+        });
+      });
+    setSelectedTools(preSelected);
+    setStep(2);
+    toast({
+      title: "Repository Analyzed",
+      description: `Found ${data.detectedTools.length} tools in the repository.`
+    });
+  };
+
   const analyzeMutation = useMutation({
     mutationFn: async (data: { repositoryUrl: string; branch?: string }) => {
       const response = await apiRequest("POST", "/api/repositories/analyze", data);
       return await response.json();
     },
-    onSuccess: (data: AnalysisResult) => {
-      setAnalysisResult(data);
-      // Pre-select high confidence tools
-      const preSelected = new Map<string, SelectedTool>();
-      data.detectedTools
-        .filter((tool: DetectedTool) => tool.confidenceScore >= 0.8)
-        .forEach((tool: DetectedTool) => {
-          preSelected.set(tool.id, {
-            detectedToolId: tool.id,
-            monthlyCost: tool.estimatedMonthlyCost,
-            quantity: 1,
-            isActive: true
-          });
-        });
-      setSelectedTools(preSelected);
-      setStep(2);
-      toast({
-        title: "Repository Analyzed",
-        description: `Found ${data.detectedTools.length} tools in the repository.`
-      });
-    },
+    onSuccess: handleAnalysisSuccess,
     onError: (error: any) => {
       let title = "Analysis Failed";
       let description = "Failed to analyze repository";
@@ -194,6 +226,57 @@ export function RepositoryImportPage() {
     }
   });
 
+  // Archives are sent as the raw request body; metadata travels in the query string
+  const analyzeArchiveMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const params = new URLSearchParams({ fileName: file.name });
+      const response = await fetch(`/api/repositories/analyze?${params.toString()}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: file,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const text = (await response.text()) || response.statusText;
+        throw new Error(`${response.status}: ${text}`);
+      }
+      return await response.json();
+    },
+    onSuccess: handleAnalysisSuccess,
+    onError: (error: any) => {
+      toast({
+        title: "Archive Analysis Failed",
+        description: error.message || "Failed to analyze the uploaded archive",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const isAnalyzing = analyzeMutation.isPending || analyzeArchiveMutation.isPending;
+
+  // Dry run of the import, confirmed on step 3 before anything is written
+  const previewMutation = useMutation({
+    mutationFn: async (data: {
+      analysisId: string;
+      selectedTools: SelectedTool[];
+    }) => {
+      const response = await apiRequest("POST", "/api/repositories/import", { ...data, dryRun: true });
+      return await response.json();
+    },
+    onSuccess: (data: RepositoryImportPreview) => {
+      setImportPreview(data);
+      setStep(3);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Preview Failed",
+        description: error.message || "Failed to preview the import",
+        variant: "destructive"
+      });
+    }
+  });
+
   const importMutation = useMutation({
     mutationFn: async (data: {
       analysisId: string;
@@ -232,6 +315,19 @@ export function RepositoryImportPage() {
     analyzeMutation.mutate({ repositoryUrl: repositoryUrl.trim(), branch: branch.trim() || undefined });
   };
 
+  const handleAnalyzeArchive = () => {
+    if (!archiveFile) {
+      toast({
+        title: "Archive Required",
+        description: "Please choose a .zip, .tar or .tar.gz export of your repository",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    analyzeArchiveMutation.mutate(archiveFile);
+  };
+
   const toggleToolSelection = (toolId: string, tool: DetectedTool) => {
     const newSelected = new Map(selectedTools);
     if (newSelected.has(toolId)) {
@@ -261,7 +357,7 @@ export function RepositoryImportPage() {
       .reduce((total, tool) => total + parseFloat(tool.monthlyCost || "0"), 0);
   };
 
-  const handleImport = () => {
+  const handlePreview = () => {
     if (!analysisResult || selectedTools.size === 0) {
       toast({
         title: "No Tools Selected",
@@ -271,6 +367,15 @@ export function RepositoryImportPage() {
       return;
     }
 
+    previewMutation.mutate({
+      analysisId: analysisResult.analysis.id,
+      selectedTools: Array.from(selectedTools.values())
+    });
+  };
+
+  const handleImport = () => {
+    if (!analysisResult || selectedTools.size === 0) return;
+
     importMutation.mutate({
       analysisId: analysisResult.analysis.id,
       selectedTools: Array.from(selectedTools.values()),
@@ -322,7 +427,7 @@ export function RepositoryImportPage() {
             placeholder="https://github.com/username/repository"
             value={repositoryUrl}
             onChange={(e) => setRepositoryUrl(e.target.value)}
-            disabled={analyzeMutation.isPending}
+            disabled={isAnalyzing}
           />
           <p className="text-sm text-muted-foreground">
             Supports GitHub, GitLab, and Bitbucket repositories (public and private)
@@ -337,13 +442,13 @@ export function RepositoryImportPage() {
             placeholder="main"
             value={branch}
             onChange={(e) => setBranch(e.target.value)}
-            disabled={analyzeMutation.isPending}
+            disabled={isAnalyzing}
           />
         </div>
 
         <Button 
           onClick={handleAnalyze} 
-          disabled={analyzeMutation.isPending}
+          disabled={isAnalyzing}
           className="w-full"
           data-testid="button-analyze"
         >
@@ -360,6 +465,47 @@ export function RepositoryImportPage() {
           )}
         </Button>
 
+        <div className="flex items-center gap-3">
+          <Separator className="flex-1" />
+          <span className="text-xs uppercase text-muted-foreground">or</span>
+          <Separator className="flex-1" />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="repository-archive">Upload Repository Archive</Label>
+          <Input
+            id="repository-archive"
+            data-testid="input-repository-archive"
+            type="file"
+            accept=".zip,.tar,.tar.gz,.tgz"
+            onChange={(e) => setArchiveFile(e.target.files?.[0] ?? null)}
+            disabled={isAnalyzing}
+          />
+          <p className="text-sm text-muted-foreground">
+            For private monorepos or self-hosted Git servers, upload a .zip or .tar.gz export (max 50MB)
+          </p>
+        </div>
+
+        <Button
+          onClick={handleAnalyzeArchive}
+          disabled={isAnalyzing || !archiveFile}
+          variant="outline"
+          className="w-full"
+          data-testid="button-analyze-archive"
+        >
+          {analyzeArchiveMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Analyzing Archive...
+            </>
+          ) : (
+            <>
+              <Upload className="mr-2 h-4 w-4" />
+              Analyze Archive
+            </>
+          )}
+        </Button>
+
         <Alert>
           <Info className="h-4 w-4" />
           <AlertDescription>
@@ -387,6 +533,13 @@ export function RepositoryImportPage() {
           <p className="text-muted-foreground">
             Found {analysisResult.summary.totalTools} tools in {analysisResult.analysis.repositoryName}
           </p>
+          <div className="mt-4 flex flex-wrap items-center justify-center gap-2">
+            <TrackRepositoryControl
+              analysisId={analysisResult.analysis.id}
+              sourceType={analysisResult.analysis.sourceType}
+            />
+            <SbomExportButton analysisId={analysisResult.analysis.id} />
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -424,6 +577,32 @@ export function RepositoryImportPage() {
           </Card>
         </div>
 
+        {analysisResult.summary.workspaces && analysisResult.summary.workspaces.projects.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Package className="h-5 w-5" />
+                Workspace Projects
+                <Badge variant="secondary">{analysisResult.summary.workspaces.projects.length}</Badge>
+              </CardTitle>
+              <CardDescription>
+                Monorepo detected ({analysisResult.summary.workspaces.managers.join(", ")}). Tools are reported per sub-project.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {analysisResult.summary.workspaces.projects.map((project) => (
+                  <div key={project.path} className="border rounded-lg p-3" data-testid={`workspace-${project.path}`}>
+                    <div className="font-medium truncate">{project.name}</div>
+                    <div className="text-xs text-muted-foreground truncate">{project.path}</div>
+                    <div className="text-sm mt-1">{project.detectedTools} tools</div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         <div className="space-y-6">
           {Object.entries(groupedTools).map(([category, tools]) => {
             const IconComponent = categoryIcons[category] || Package;
@@ -442,6 +621,7 @@ export function RepositoryImportPage() {
                     {tools.map((tool) => {
                       const isSelected = selectedTools.has(tool.id);
                       const toolData = tool.tool || tool.suggestedToolRef;
+                      const vulnerability = vulnerabilitiesByTool.get(tool.id);
                       
                       return (
                         <div
@@ -465,6 +645,10 @@ export function RepositoryImportPage() {
                                 <h4 className="font-medium">
                                   {toolData?.name || tool.name}
                                 </h4>
+                                {tool.detectionDetails?.workspace && (
+                                  <Badge variant="outline">{tool.detectionDetails.workspace.name}</Badge>
+                                )}
+                                {vulnerability && <VulnerabilityBadge vulnerability={vulnerability} />}
                                 <Badge className={getCategoryColor(normalizeCategoryForUI(tool.category))}>
                                   {Math.round(tool.confidenceScore * 100)}%
                                 </Badge>
@@ -473,14 +657,20 @@ export function RepositoryImportPage() {
                               <p className="text-sm text-muted-foreground mb-3">
                                 {toolData?.description || tool.description || "Detected from repository analysis"}
                               </p>
+
+                              {vulnerability && (
+                                <div className="mb-3">
+                                  <VulnerabilityAdvisoryList vulnerability={vulnerability} />
+                                </div>
+                              )}
                               
                               <div className="flex items-center justify-between text-sm">
                                 <span className="flex items-center gap-1">
                                   <DollarSign className="h-3 w-3" />
                                   ${tool.estimatedMonthlyCost}/month
                                 </span>
-                                <span className="text-muted-foreground">
-                                  {tool.detectionSource.join(", ")}
+                                <span className="text-muted-foreground truncate ml-2" title={tool.filePath || undefined}>
+                                  {tool.filePath || tool.detectionMethod}
                                 </span>
                               </div>
                               
@@ -555,20 +745,20 @@ export function RepositoryImportPage() {
                 Back to Analysis
               </Button>
               <Button
-                onClick={handleImport}
-                disabled={selectedTools.size === 0 || importMutation.isPending}
+                onClick={handlePreview}
+                disabled={selectedTools.size === 0 || previewMutation.isPending}
                 className="flex-1"
-                data-testid="button-import"
+                data-testid="button-review-import"
               >
-                {importMutation.isPending ? (
+                {previewMutation.isPending ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Importing...
+                    Preparing Review...
                   </>
                 ) : (
                   <>
                     <CheckCircle className="mr-2 h-4 w-4" />
-                    Import Tools
+                    Review Changes
                   </>
                 )}
               </Button>
@@ -579,6 +769,54 @@ export function RepositoryImportPage() {
     );
   };
 
+  const renderImportReview = () => {
+    if (!importPreview) return null;
+
+    return (
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold">Review Import</h2>
+          <p className="text-muted-foreground">
+            Confirm how {analysisResult?.analysis.repositoryName ?? "this repository"} changes your stack.
+          </p>
+        </div>
+
+        <ImportPreviewSummary preview={importPreview} />
+
+        <div className="flex gap-3">
+          <Button
+            onClick={() => setStep(2)}
+            variant="outline"
+            className="flex-1"
+            disabled={importMutation.isPending}
+            data-testid="button-back-to-selection"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Selection
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={importMutation.isPending}
+            className="flex-1"
+            data-testid="button-import"
+          >
+            {importMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              <>
+                <CheckCircle className="mr-2 h-4 w-4" />
+                Confirm Import
+              </>
+            )}
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="container mx-auto py-8 px-4">
       <div className="mb-8">
@@ -596,8 +834,14 @@ export function RepositoryImportPage() {
 
       {renderStepIndicator()}
 
-      {step === 1 && renderRepositoryInput()}
+      {step === 1 && (
+        <>
+          {renderRepositoryInput()}
+          <TrackedRepositories />
+        </>
+      )}
       {step === 2 && renderAnalysisResults()}
+      {step === 3 && renderImportReview()}
     </div>
   );
 }
\ No newline at end of file
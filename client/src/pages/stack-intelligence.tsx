@@ -5,9 +5,11 @@ import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Shield, AlertTriangle, CheckCircle, Target, TrendingUp, Brain, Lightbulb, AlertCircle, DollarSign, Plus, Trash2, RefreshCw, BookOpen } from "lucide-react";
+import { Shield, ShieldAlert, AlertTriangle, CheckCircle, Target, TrendingUp, Brain, Lightbulb, AlertCircle, DollarSign, Plus, Trash2, RefreshCw, BookOpen } from "lucide-react";
 import Navigation from "@/components/layout/navigation";
-import type { StackAnalysisResponse, StackRedundanciesResponse, MissingStackPiecesResponse, CompatibilityIssuesResponse } from "@shared/schema";
+import { VulnerabilityAdvisoryList, VulnerabilityBadge } from "@/components/repository";
+import { LicenseCompliance } from "@/components/stack";
+import type { StackAnalysisResponse, StackRedundanciesResponse, MissingStackPiecesResponse, CompatibilityIssuesResponse, VulnerabilityReportResponse } from "@shared/schema";
 
 const getSeverityColor = (severity: string) => {
   switch (severity) {
@@ -123,7 +125,11 @@ export default function StackIntelligence() {
     queryKey: ["/api/stack/compatibility"],
   });
 
-  const isLoading = analysisLoading || redundanciesLoading || missingLoading || compatibilityLoading;
+  const { data: vulnerabilityReport, isLoading: vulnerabilitiesLoading } = useQuery<VulnerabilityReportResponse>({
+    queryKey: ["/api/stack/vulnerabilities"],
+  });
+
+  const isLoading = analysisLoading || redundanciesLoading || missingLoading || compatibilityLoading || vulnerabilitiesLoading;
 
   const getHealthScoreColor = (score: number) => {
     if (score >= 80) return "text-green-600 dark:text-green-400";
@@ -192,11 +198,13 @@ export default function StackIntelligence() {
               )}
 
               <Tabs defaultValue="overview" className="space-y-6">
-                <TabsList className="grid w-full grid-cols-4">
+                <TabsList className="grid w-full grid-cols-6">
                   <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
                   <TabsTrigger value="redundancies" data-testid="tab-redundancies">Cost Savings</TabsTrigger>
                   <TabsTrigger value="missing" data-testid="tab-missing">Recommendations</TabsTrigger>
                   <TabsTrigger value="compatibility" data-testid="tab-compatibility">Compatibility</TabsTrigger>
+                  <TabsTrigger value="vulnerabilities" data-testid="tab-vulnerabilities">Vulnerabilities</TabsTrigger>
+                  <TabsTrigger value="licenses" data-testid="tab-licenses">Licenses</TabsTrigger>
                 </TabsList>
 
                 {/* Overview Tab */}
@@ -483,6 +491,51 @@ export default function StackIntelligence() {
                     </Card>
                   )}
                 </TabsContent>
+
+                {/* Vulnerabilities Tab */}
+                <TabsContent value="vulnerabilities" className="space-y-6">
+                  {vulnerabilityReport && vulnerabilityReport.vulnerabilities.length > 0 ? (
+                    vulnerabilityReport.vulnerabilities.map(vulnerability => (
+                      <Card key={vulnerability.detectedToolId} data-testid={`vulnerability-${vulnerability.detectedToolId}`}>
+                        <CardHeader>
+                          <CardTitle className="flex items-center justify-between">
+                            <span>{vulnerability.detectedName} <span className="text-muted-foreground font-normal">{vulnerability.packageName}@{vulnerability.version}</span></span>
+                            <VulnerabilityBadge vulnerability={vulnerability} />
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <VulnerabilityAdvisoryList vulnerability={vulnerability} />
+                        </CardContent>
+                      </Card>
+                    ))
+                  ) : (
+                    <Card data-testid="no-vulnerabilities">
+                      <CardContent className="text-center py-8">
+                        <ShieldAlert className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                        {vulnerabilityReport?.advisoryCount ? (
+                          <>
+                            <h3 className="text-lg font-medium mb-2">No Known Vulnerabilities</h3>
+                            <p className="text-muted-foreground">
+                              None of the package versions imported from your repositories match the {vulnerabilityReport.advisoryCount} loaded advisories.
+                            </p>
+                          </>
+                        ) : (
+                          <>
+                            <h3 className="text-lg font-medium mb-2">No Advisory Data Loaded</h3>
+                            <p className="text-muted-foreground">
+                              Import OSV advisory dumps with <code>npm run advisories:import</code> to check your stack for known CVEs.
+                            </p>
+                          </>
+                        )}
+                      </CardContent>
+                    </Card>
+                  )}
+                </TabsContent>
+
+                {/* Licenses Tab */}
+                <TabsContent value="licenses" className="space-y-6">
+                  <LicenseCompliance />
+                </TabsContent>
               </Tabs>
             </>
           )}
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import {
+  ACCESS_TOKEN_PREFIX,
+  generateAccessToken,
+  hashAccessToken,
+  parseBearerToken,
+  requiredTokenScope,
+  tokenScopesAllow,
+} from "../token-scopes";
+
+// Each scope opens its own endpoints and nothing else
+assert.equal(requiredTokenScope("GET", "/api/user-tools"), "read:stack");
+assert.equal(requiredTokenScope("GET", "/api/budget/status"), "read:stack");
+assert.equal(requiredTokenScope("post", "/api/user-tools"), "write:stack");
+assert.equal(requiredTokenScope("DELETE", "/api/user-tools/abc"), "write:stack");
+assert.equal(requiredTokenScope("GET", "/api/projects/abc/timeline"), "read:projects");
+assert.equal(requiredTokenScope("POST", "/api/projects"), undefined);
+assert.equal(requiredTokenScope("POST", "/api/repositories/analyze"), "write:analyses");
+assert.equal(requiredTokenScope("GET", "/api/repositories/analyses/abc/drift"), "write:analyses");
+assert.equal(requiredTokenScope("GET", "/api/user"), "any");
+
+// Prefixes do not leak into neighbouring endpoints
+assert.equal(requiredTokenScope("GET", "/api/user-tools-export"), undefined);
+assert.equal(requiredTokenScope("GET", "/api/user/access-tokens"), undefined);
+assert.equal(requiredTokenScope("POST", "/api/user/access-tokens"), undefined);
+
+assert.ok(tokenScopesAllow(["read:stack"], "GET", "/api/stack/analysis"));
+assert.ok(!tokenScopesAllow(["read:stack"], "PUT", "/api/user/budget"));
+assert.ok(tokenScopesAllow([], "GET", "/api/user"));
+assert.ok(!tokenScopesAllow(["read:stack", "write:stack", "read:projects", "write:analyses"], "PUT", "/api/user/active-workspace"));
+
+// Generated tokens carry the prefix, hash deterministically and are never reused
+const first = generateAccessToken();
+const second = generateAccessToken();
+assert.ok(first.token.startsWith(ACCESS_TOKEN_PREFIX));
+assert.ok(first.token.startsWith(first.displayPrefix));
+assert.equal(first.tokenHash, hashAccessToken(first.token));
+assert.notEqual(first.token, second.token);
+
+assert.equal(parseBearerToken(`Bearer ${first.token}`), first.token);
+assert.equal(parseBearerToken("bearer abc"), "abc");
+assert.equal(parseBearerToken("Basic dXNlcjpwYXNz"), undefined);
+assert.equal(parseBearerToken(undefined), undefined);
+
+console.log("token-scopes tests passed");
@@ -0,0 +1,58 @@
+/**
+ * Token Scopes - Personal access tokens and the endpoints each scope opens to them
+ * Tokens only reach the endpoints listed here; everything else, including token management, needs a session.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import type { AccessTokenScope } from "@shared/schema";
+
+export const ACCESS_TOKEN_PREFIX = "swp_";
+
+interface ScopedEndpoint {
+  methods: string[];
+  pattern: RegExp;
+  scope: AccessTokenScope | "any"; // "any": every valid token, whatever its scopes
+}
+
+const SCOPED_ENDPOINTS: ScopedEndpoint[] = [
+  { methods: ["GET"], pattern: /^\/api\/user$/, scope: "any" },
+  { methods: ["GET"], pattern: /^\/api\/(user-tools|stack|cost-snapshots|cost-trends|tools)(\/|$)/, scope: "read:stack" },
+  { methods: ["GET"], pattern: /^\/api\/(user\/budget|budget\/status)$/, scope: "read:stack" },
+  { methods: ["POST", "PUT", "DELETE"], pattern: /^\/api\/user-tools(\/|$)/, scope: "write:stack" },
+  { methods: ["PUT"], pattern: /^\/api\/(user\/budget|stack\/license-policy)$/, scope: "write:stack" },
+  { methods: ["GET"], pattern: /^\/api\/(projects|tasks|task-generations)(\/|$)/, scope: "read:projects" },
+  // CI pushes an analysis and then polls it, so reading analyses comes with the write scope
+  { methods: ["POST"], pattern: /^\/api\/repositories\/(analyze|analyses\/[^/]+\/reanalyze)$/, scope: "write:analyses" },
+  { methods: ["PUT"], pattern: /^\/api\/repositories\/analyses\/[^/]+\/tracking$/, scope: "write:analyses" },
+  { methods: ["GET"], pattern: /^\/api\/repositories\/analyses(\/|$)/, scope: "write:analyses" },
+];
+
+// The scope a token needs for the request, or undefined when tokens cannot call the endpoint at all
+export function requiredTokenScope(method: string, path: string): AccessTokenScope | "any" | undefined {
+  const endpoint = SCOPED_ENDPOINTS.find(candidate =>
+    candidate.methods.includes(method.toUpperCase()) && candidate.pattern.test(path)
+  );
+  return endpoint?.scope;
+}
+
+export function tokenScopesAllow(scopes: readonly string[], method: string, path: string): boolean {
+  const required = requiredTokenScope(method, path);
+  if (!required) return false;
+  return required === "any" || scopes.includes(required);
+}
+
+// Tokens carry 256 random bits, so an unsalted SHA-256 is enough and keeps the hash usable as a lookup key
+export function hashAccessToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateAccessToken(): { token: string; tokenHash: string; displayPrefix: string } {
+  const token = `${ACCESS_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { token, tokenHash: hashAccessToken(token), displayPrefix: token.slice(0, ACCESS_TOKEN_PREFIX.length + 6) };
+}
+
+// The token from an "Authorization: Bearer <token>" header; other schemes and session requests yield undefined
+export function parseBearerToken(header: string | undefined): string | undefined {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import {
+  LOCKOUT_MINUTES,
+  LoginThrottle,
+  MAX_FAILED_LOGINS,
+  isLockedOut,
+  lockoutAfterFailure,
+  minutesUntilUnlock,
+} from "../login-throttle";
+import {
+  checkPasswordResetConfig,
+  generatePasswordResetToken,
+  hashPasswordResetToken,
+  passwordResetBaseUrl,
+  passwordResetLink,
+} from "../password-reset";
+
+const now = new Date("2026-01-01T12:00:00Z");
+
+// Accounts lock on the fifth consecutive failure, not before
+assert.equal(lockoutAfterFailure(MAX_FAILED_LOGINS - 1, now), null);
+const lockedUntil = lockoutAfterFailure(MAX_FAILED_LOGINS, now);
+assert.equal(lockedUntil?.getTime(), now.getTime() + LOCKOUT_MINUTES * 60 * 1000);
+assert.ok(isLockedOut(lockedUntil, now));
+assert.ok(!isLockedOut(lockedUntil, new Date(lockedUntil!.getTime() + 1)));
+assert.ok(!isLockedOut(null, now));
+assert.equal(minutesUntilUnlock(lockedUntil!, now), LOCKOUT_MINUTES);
+
+// The per-IP window blocks past the limit and opens again once it expires
+const throttle = new LoginThrottle(3, 60_000);
+const start = now.getTime();
+for (let attempt = 0; attempt < 3; attempt++) {
+  assert.ok(throttle.consume("10.0.0.1", start).allowed);
+}
+const blocked = throttle.consume("10.0.0.1", start + 15_000);
+assert.ok(!blocked.allowed);
+assert.equal(blocked.retryAfterSeconds, 45);
+assert.ok(throttle.consume("10.0.0.2", start).allowed);
+assert.ok(throttle.consume("10.0.0.1", start + 60_000).allowed);
+
+// Reset tokens are random, stored only as a hash and expire after an hour
+const reset = generatePasswordResetToken(now);
+assert.equal(reset.tokenHash, hashPasswordResetToken(reset.token));
+assert.notEqual(reset.token, generatePasswordResetToken(now).token);
+assert.equal(reset.expiresAt.getTime(), now.getTime() + 60 * 60 * 1000);
+assert.equal(passwordResetLink("https://app.example.com/", "a+b"), "https://app.example.com/auth?reset=a%2Bb");
+
+// A forged Host header only reaches the reset link in development; production requires APP_URL
+assert.equal(passwordResetBaseUrl("http://evil.example", { NODE_ENV: "development" }), "http://evil.example");
+assert.equal(passwordResetBaseUrl("http://evil.example", { NODE_ENV: "production", APP_URL: "https://app.example.com" }), "https://app.example.com");
+assert.throws(() => passwordResetBaseUrl("http://evil.example", { NODE_ENV: "production" }), /APP_URL must be set/);
+assert.throws(() => checkPasswordResetConfig({ NODE_ENV: "production" }), /APP_URL must be set/);
+assert.doesNotThrow(() => checkPasswordResetConfig({ NODE_ENV: "development" }));
+
+console.log("login-throttle tests passed");
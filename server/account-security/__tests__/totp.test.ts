@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import {
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  meetsTwoFactorRequirement,
+  totpCode,
+  totpProvisioningUri,
+  totpStep,
+  verifyTotp,
+} from "../totp";
+
+// RFC 6238 SHA-1 test vectors, truncated to six digits
+const rfcSecret = base32Encode(Buffer.from("12345678901234567890"));
+assert.equal(rfcSecret, "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+assert.equal(totpCode(rfcSecret, totpStep(new Date(59 * 1000))), "287082");
+assert.equal(totpCode(rfcSecret, totpStep(new Date(1111111109 * 1000))), "081804");
+assert.equal(totpCode(rfcSecret, totpStep(new Date(2000000000 * 1000))), "279037");
+
+assert.equal(base32Decode("gezd gnbv-gy3t qojq gezd gnbv gy3t qojq").toString(), "12345678901234567890");
+assert.throws(() => base32Decode("GEZ1"));
+
+// Codes from the neighbouring steps pass, older ones and replays do not
+const secret = generateTotpSecret();
+assert.equal(base32Decode(secret).length, 20);
+const now = new Date("2026-01-01T12:00:00Z");
+const step = totpStep(now);
+assert.equal(verifyTotp(secret, totpCode(secret, step), { now }), step);
+assert.equal(verifyTotp(secret, totpCode(secret, step - 1), { now }), step - 1);
+assert.equal(verifyTotp(secret, totpCode(secret, step + 1), { now }), step + 1);
+assert.equal(verifyTotp(secret, totpCode(secret, step - 2), { now }), null);
+assert.equal(verifyTotp(secret, totpCode(secret, step), { now, lastUsedStep: step }), null);
+assert.equal(verifyTotp(secret, "12345", { now }), null);
+assert.equal(verifyTotp(secret, "abcdef", { now }), null);
+
+const uri = new URL(totpProvisioningUri("GEZDGNBV", "ada@example.com"));
+assert.equal(uri.protocol, "otpauth:");
+assert.equal(uri.host, "totp");
+assert.equal(decodeURIComponent(uri.pathname), "/StackWise:ada@example.com");
+assert.equal(uri.searchParams.get("secret"), "GEZDGNBV");
+assert.equal(uri.searchParams.get("issuer"), "StackWise");
+
+// Recovery codes are unique and match regardless of case and separators
+const codes = generateRecoveryCodes();
+assert.equal(codes.length, 10);
+assert.equal(new Set(codes).size, 10);
+assert.match(codes[0], /^[a-z2-7]{4}-[a-z2-7]{4}$/);
+assert.equal(hashRecoveryCode(codes[0].toUpperCase().replace("-", "")), hashRecoveryCode(codes[0]));
+
+assert.ok(meetsTwoFactorRequirement(false, null));
+assert.ok(meetsTwoFactorRequirement(true, new Date()));
+assert.ok(!meetsTwoFactorRequirement(true, null));
+
+console.log("totp tests passed");
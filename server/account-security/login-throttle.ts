@@ -0,0 +1,57 @@
+/**
+ * Login Throttle - Brute-force protection for password logins
+ * Two layers: a per-account lockout stored on the user row, and an in-memory per-IP limit that also
+ * covers guesses against usernames that do not exist.
+ */
+
+export const MAX_FAILED_LOGINS = 5;
+export const LOCKOUT_MINUTES = 15;
+
+// When the account should unlock after this many consecutive failures, or null while under the limit
+export function lockoutAfterFailure(failedAttempts: number, now: Date = new Date()): Date | null {
+  if (failedAttempts < MAX_FAILED_LOGINS) return null;
+  return new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000);
+}
+
+export function isLockedOut(lockedUntil: Date | string | null | undefined, now: Date = new Date()): boolean {
+  return !!lockedUntil && new Date(lockedUntil).getTime() > now.getTime();
+}
+
+export function minutesUntilUnlock(lockedUntil: Date | string, now: Date = new Date()): number {
+  return Math.max(1, Math.ceil((new Date(lockedUntil).getTime() - now.getTime()) / 60000));
+}
+
+interface ThrottleWindow {
+  count: number;
+  resetAt: number;
+}
+
+// Fixed-window attempt counter keyed by client address; state is per process and lost on restart
+export class LoginThrottle {
+  private windows = new Map<string, ThrottleWindow>();
+
+  constructor(
+    private readonly limit = 20,
+    private readonly windowMs = 15 * 60 * 1000,
+  ) {}
+
+  // Records an attempt; retryAfterSeconds is set once the key is over its limit
+  consume(key: string, now: number = Date.now()): { allowed: boolean; retryAfterSeconds?: number } {
+    this.prune(now);
+    const current = this.windows.get(key);
+    const window = current && current.resetAt > now ? current : { count: 0, resetAt: now + this.windowMs };
+    window.count++;
+    this.windows.set(key, window);
+
+    if (window.count > this.limit) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000) };
+    }
+    return { allowed: true };
+  }
+
+  private prune(now: number): void {
+    this.windows.forEach((window, key) => {
+      if (window.resetAt <= now) this.windows.delete(key);
+    });
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Mail Sink - Local delivery for account emails
+ * There is no SMTP provider yet: each message is written as a JSON file under MAIL_SINK_DIR
+ * (default .mail-sink) and its path logged, so reset links can be picked up in development.
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+
+export interface OutgoingMail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export async function sendMail(mail: OutgoingMail): Promise<string> {
+  const directory = path.resolve(process.env.MAIL_SINK_DIR || ".mail-sink");
+  await mkdir(directory, { recursive: true });
+
+  const file = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID()}.json`);
+  await writeFile(file, JSON.stringify({ ...mail, sentAt: new Date().toISOString() }, null, 2));
+  console.log(`Mail to ${mail.to} ("${mail.subject}") written to ${file}`);
+  return file;
+}
@@ -0,0 +1,39 @@
+/**
+ * Password Reset - Single-use reset tokens delivered by email
+ * Only the hash is stored, so a leaked database row cannot be turned into a working reset link.
+ */
+
+import { createHash, randomBytes } from "crypto";
+
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+
+export function hashPasswordResetToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generatePasswordResetToken(now: Date = new Date()): { token: string; tokenHash: string; expiresAt: Date } {
+  const token = randomBytes(32).toString("base64url");
+  return {
+    token,
+    tokenHash: hashPasswordResetToken(token),
+    expiresAt: new Date(now.getTime() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+  };
+}
+
+// The link the email points at; the auth page reads the token from the query string
+export function passwordResetLink(baseUrl: string, token: string): string {
+  return `${baseUrl.replace(/\/$/, "")}/auth?reset=${encodeURIComponent(token)}`;
+}
+
+// APP_URL pins the host reset links point at; setupAuth calls this so a production server without it does not start
+export function checkPasswordResetConfig(env: NodeJS.ProcessEnv = process.env): void {
+  if (env.NODE_ENV === "production" && !env.APP_URL) {
+    throw new Error("APP_URL must be set in production so password reset links cannot follow a forged Host header");
+  }
+}
+
+// The request origin comes from the Host header, which a client can forge, so it is only used outside production
+export function passwordResetBaseUrl(requestOrigin: string, env: NodeJS.ProcessEnv = process.env): string {
+  checkPasswordResetConfig(env);
+  return env.APP_URL || requestOrigin;
+}
@@ -0,0 +1,110 @@
+/**
+ * TOTP - Time-based one-time passwords (RFC 6238) for two-factor login
+ * Standard authenticator-app settings: SHA-1, 6 digits, 30-second steps, one step of clock drift either way.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+export const TOTP_ISSUER = "StackWise";
+export const RECOVERY_CODE_COUNT = 10;
+
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+export function base32Decode(encoded: string): Buffer {
+  const clean = encoded.toUpperCase().replace(/[\s=-]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character "${char}"`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// 160 random bits, the key length RFC 4226 recommends for HMAC-SHA1
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function totpStep(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / STEP_SECONDS);
+}
+
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const digest = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = digest[digest.length - 1] & 15;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+/**
+ * The step the code belongs to, or null when it does not match.
+ * Steps at or before lastUsedStep are rejected so an observed code cannot be replayed within its window.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: { now?: Date; lastUsedStep?: number | null; window?: number } = {}
+): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const current = totpStep(options.now);
+  const window = options.window ?? 1;
+  for (let step = current - window; step <= current + window; step++) {
+    if (options.lastUsedStep != null && step <= options.lastUsedStep) continue;
+    if (timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(normalized))) return step;
+  }
+  return null;
+}
+
+// The otpauth:// URI authenticator apps read from a QR code, or accept as a link on mobile
+export function totpProvisioningUri(secret: string, accountName: string, issuer: string = TOTP_ISSUER): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({ secret, issuer, algorithm: "SHA1", digits: String(DIGITS), period: String(STEP_SECONDS) });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Recovery codes are compared case-insensitively and without separators, so "ABCD-2345" and "abcd2345" match
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(code.toLowerCase().replace(/[\s-]/g, "")).digest("hex");
+}
+
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(randomBytes(5)).toLowerCase();
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+  });
+}
+
+// A workspace that requires two-factor only counts for members who have it switched on
+export function meetsTwoFactorRequirement(requireTwoFactor: boolean | null | undefined, totpEnabledAt: Date | string | null | undefined): boolean {
+  return !requireTwoFactor || !!totpEnabledAt;
+}
@@ -1,11 +1,42 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Response } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { hashAccessToken, parseBearerToken, tokenScopesAllow } from "./access-tokens/token-scopes";
+import { LoginThrottle, isLockedOut, minutesUntilUnlock } from "./account-security/login-throttle";
+import {
+  checkPasswordResetConfig,
+  generatePasswordResetToken,
+  hashPasswordResetToken,
+  passwordResetBaseUrl,
+  passwordResetLink,
+  PASSWORD_RESET_TTL_MINUTES,
+} from "./account-security/password-reset";
+import { sendMail } from "./account-security/mail-sink";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  totpProvisioningUri,
+  verifyTotp,
+} from "./account-security/totp";
+import {
+  changePasswordSchema,
+  passwordResetConfirmSchema,
+  passwordResetRequestSchema,
+  registerUserSchema,
+  twoFactorCodeSchema,
+  twoFactorLoginSchema,
+  twoFactorPasswordSchema,
+  User as SelectUser,
+  type PublicUser,
+  type RecoveryCodesResponse,
+  type TwoFactorChallenge,
+  type TwoFactorSetupResponse,
+} from "@shared/schema";
 
 declare global {
   namespace Express {
@@ -13,6 +44,13 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Set once the password checks out for an account with two-factor; the session is not logged in yet
+    pendingTwoFactor?: { userId: string; expiresAt: number; attempts: number };
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
 async function hashPassword(password: string) {
@@ -28,12 +66,42 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+const INVALID_CREDENTIALS = "Invalid username or password";
+const TWO_FACTOR_WINDOW_MS = 5 * 60 * 1000;
+const MAX_TWO_FACTOR_ATTEMPTS = 5; // Per password login; failures also count towards the account lockout
+
+// Per-IP limits; the per-account lockout lives on the user row
+const loginThrottle = new LoginThrottle(20, 15 * 60 * 1000);
+const passwordResetThrottle = new LoginThrottle(5, 60 * 60 * 1000);
+
+function lockedOutMessage(lockedUntil: Date | string) {
+  return `Too many failed login attempts. Try again in ${minutesUntilUnlock(lockedUntil)} minutes`;
+}
+
+// Every user object the API sends goes through here so password hashes and lockout state never leave the server
+function toPublicUser({ password, failedLoginAttempts, lockedUntil, totpSecret, totpLastUsedStep, ...user }: SelectUser): PublicUser {
+  return user;
+}
+
+function rejectThrottled(res: Response, retryAfterSeconds: number | undefined, message: string) {
+  res.setHeader("Retry-After", String(retryAfterSeconds ?? 60));
+  return res.status(429).json({ message });
+}
+
 export function setupAuth(app: Express) {
+  checkPasswordResetConfig();
+
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET!,
     resave: false,
     saveUninitialized: false,
     store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+    },
   };
 
   app.set("trust proxy", 1);
@@ -41,13 +109,59 @@ export function setupAuth(app: Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
+  // Personal access tokens stand in for a session on the endpoints their scopes open; see token-scopes.ts
+  app.use(async (req, res, next) => {
+    const token = parseBearerToken(req.headers.authorization);
+    if (!token || !req.path.startsWith("/api/")) return next();
+
+    try {
+      const accessToken = await storage.getActiveAccessToken(hashAccessToken(token));
+      if (!accessToken) {
+        return res.status(401).json({ message: "Invalid, expired or revoked access token" });
+      }
+      if (!tokenScopesAllow(accessToken.scopes, req.method, req.path)) {
+        return res.status(403).json({ message: "Access token does not have the scope for this endpoint" });
+      }
+
+      const user = await storage.getUser(accessToken.userId);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid, expired or revoked access token" });
+      }
+      await storage.touchAccessToken(accessToken.id);
+      req.user = user;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
   passport.use(
     new LocalStrategy(async (username, password, done) => {
-      const user = await storage.getUserByUsername(username);
-      if (!user || !(await comparePasswords(password, user.password))) {
-        return done(null, false);
-      } else {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user) {
+          return done(null, false, { message: INVALID_CREDENTIALS });
+        }
+        if (user.lockedUntil && isLockedOut(user.lockedUntil)) {
+          return done(null, false, { message: lockedOutMessage(user.lockedUntil) });
+        }
+
+        if (!(await comparePasswords(password, user.password))) {
+          const updated = await storage.recordFailedLogin(user.id);
+          if (updated?.lockedUntil && isLockedOut(updated.lockedUntil)) {
+            return done(null, false, { message: lockedOutMessage(updated.lockedUntil) });
+          }
+          return done(null, false, { message: INVALID_CREDENTIALS });
+        }
+
+        // With two-factor on, the failure count is only cleared once the code step succeeds,
+        // so repeating the password step cannot reset the lockout between code guesses
+        if (!user.totpEnabledAt && (user.failedLoginAttempts || user.lockedUntil)) {
+          await storage.resetFailedLogins(user.id);
+        }
         return done(null, user);
+      } catch (error) {
+        return done(error);
       }
     }),
   );
@@ -59,24 +173,125 @@ export function setupAuth(app: Express) {
   });
 
   app.post("/api/register", async (req, res, next) => {
-    const existingUser = await storage.getUserByUsername(req.body.username);
-    if (existingUser) {
-      return res.status(400).send("Username already exists");
+    try {
+      const parsed = registerUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid registration details" });
+      }
+      const { username, email, password } = parsed.data;
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+      if (await storage.getUserByEmail(email)) {
+        return res.status(409).json({ message: "An account with this email already exists" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        email,
+        password: await hashPassword(password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      next(error);
     }
+  });
 
-    const user = await storage.createUser({
-      ...req.body,
-      password: await hashPassword(req.body.password),
-    });
+  app.post("/api/login", (req, res, next) => {
+    const throttle = loginThrottle.consume(req.ip ?? "unknown");
+    if (!throttle.allowed) {
+      return rejectThrottled(res, throttle.retryAfterSeconds, "Too many login attempts from this address. Try again later");
+    }
 
-    req.login(user, (err) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false, info?: { message?: string }) => {
       if (err) return next(err);
-      res.status(201).json(user);
-    });
+      if (!user) {
+        return res.status(401).json({ message: info?.message ?? INVALID_CREDENTIALS });
+      }
+
+      if (user.totpEnabledAt) {
+        return req.session.regenerate((regenerateErr) => {
+          if (regenerateErr) return next(regenerateErr);
+          req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + TWO_FACTOR_WINDOW_MS, attempts: 0 };
+          const challenge: TwoFactorChallenge = { twoFactorRequired: true };
+          res.status(200).json(challenge);
+        });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+  // Second login step for accounts with two-factor: an authenticator code or a single-use recovery code
+  app.post("/api/login/two-factor", async (req, res, next) => {
+    const throttle = loginThrottle.consume(req.ip ?? "unknown");
+    if (!throttle.allowed) {
+      return rejectThrottled(res, throttle.retryAfterSeconds, "Too many login attempts from this address. Try again later");
+    }
+
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in has expired. Enter your username and password again" });
+      }
+
+      const parsed = twoFactorLoginSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Enter an authenticator or recovery code" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user?.totpEnabledAt || !user.totpSecret) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in has expired. Enter your username and password again" });
+      }
+      if (user.lockedUntil && isLockedOut(user.lockedUntil)) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: lockedOutMessage(user.lockedUntil) });
+      }
+
+      const { code, recoveryCode } = parsed.data;
+      let verified = false;
+      if (code) {
+        const step = verifyTotp(user.totpSecret, code, { lastUsedStep: user.totpLastUsedStep });
+        verified = step !== null && await storage.recordTotpStep(user.id, step);
+      } else if (recoveryCode) {
+        verified = await storage.consumeRecoveryCode(user.id, hashRecoveryCode(recoveryCode));
+      }
+
+      if (!verified) {
+        pending.attempts++;
+        const updated = await storage.recordFailedLogin(user.id);
+        if (updated?.lockedUntil && isLockedOut(updated.lockedUntil)) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: lockedOutMessage(updated.lockedUntil) });
+        }
+        if (pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Too many incorrect codes. Enter your username and password again" });
+        }
+        return res.status(401).json({ message: code ? "Invalid authentication code" : "Invalid or already used recovery code" });
+      }
+
+      if (user.failedLoginAttempts || user.lockedUntil) {
+        await storage.resetFailedLogins(user.id);
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.status(200).json(toPublicUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -88,6 +303,197 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toPublicUser(req.user));
+  });
+
+  // Changing the password signs out every other session; the one making the change stays signed in
+  app.put("/api/user/password", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Unauthorized" });
+
+    try {
+      const parsed = changePasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid password" });
+      }
+      const { currentPassword, newPassword } = parsed.data;
+
+      const user = await storage.getUser(req.user.id);
+      if (!user || !(await comparePasswords(currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+      if (currentPassword === newPassword) {
+        return res.status(400).json({ message: "New password must be different from the current one" });
+      }
+
+      await storage.updateUserPassword(user.id, await hashPassword(newPassword));
+      await storage.deleteUserSessions(user.id, req.sessionID);
+      res.json({ message: "Password updated" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Two-factor management; like the password routes these need a session, access tokens cannot reach them
+  app.get("/api/user/two-factor", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Unauthorized" });
+
+    try {
+      res.json(await storage.getTwoFactorStatus(req.user.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Starts enrollment with a fresh secret; nothing changes for logins until /enable confirms a code from it
+  app.post("/api/user/two-factor/setup", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Unauthorized" });
+
+    try {
+      if (req.user.totpEnabledAt) {
+        return res.status(409).json({ message: "Two-factor authentication is already on" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.setPendingTotpSecret(req.user.id, secret);
+      const setup: TwoFactorSetupResponse = { secret, otpauthUri: totpProvisioningUri(secret, req.user.email || req.user.username) };
+      res.json(setup);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Other sessions were signed in without a code, so they are signed out
+  app.post("/api/user/two-factor/enable", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Unauthorized" });
+
+    try {
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid code" });
+      }
+
+      const user = await storage.getUser(req.user.id);
+      if (!user) return res.status(401).json({ message: "Unauthorized" });
+      if (user.totpEnabledAt) {
+        return res.status(409).json({ message: "Two-factor authentication is already on" });
+      }
+      if (!user.totpSecret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      const step = verifyTotp(user.totpSecret, parsed.data.code);
+      if (step === null) {
+        return res.status(400).json({ message: "That code doesn't match. Check the time on your device and try again" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.enableTwoFactor(user.id, step, recoveryCodes.map(hashRecoveryCode));
+      await storage.deleteUserSessions(user.id, req.sessionID);
+      const response: RecoveryCodesResponse = { recoveryCodes };
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/two-factor/recovery-codes", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Unauthorized" });
+
+    try {
+      const parsed = twoFactorPasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Password is required" });
+      }
+
+      const user = await storage.getUser(req.user.id);
+      if (!user || !(await comparePasswords(parsed.data.password, user.password))) {
+        return res.status(400).json({ message: "Password is incorrect" });
+      }
+      if (!user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not on" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(user.id, recoveryCodes.map(hashRecoveryCode));
+      const response: RecoveryCodesResponse = { recoveryCodes };
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Allowed even when a workspace requires two-factor; that workspace then stays closed to the user
+  app.post("/api/user/two-factor/disable", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Unauthorized" });
+
+    try {
+      const parsed = twoFactorPasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Password is required" });
+      }
+
+      const user = await storage.getUser(req.user.id);
+      if (!user || !(await comparePasswords(parsed.data.password, user.password))) {
+        return res.status(400).json({ message: "Password is incorrect" });
+      }
+
+      await storage.disableTwoFactor(user.id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Always answers 202 so the endpoint cannot be used to find out which emails have accounts
+  app.post("/api/password-reset/request", async (req, res, next) => {
+    const throttle = passwordResetThrottle.consume(req.ip ?? "unknown");
+    if (!throttle.allowed) {
+      return rejectThrottled(res, throttle.retryAfterSeconds, "Too many reset requests from this address. Try again later");
+    }
+
+    try {
+      const parsed = passwordResetRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Enter a valid email address" });
+      }
+
+      const user = await storage.getUserByEmail(parsed.data.email);
+      if (user) {
+        const { token, tokenHash, expiresAt } = generatePasswordResetToken();
+        await storage.createPasswordResetToken(user.id, tokenHash, expiresAt);
+
+        const link = passwordResetLink(passwordResetBaseUrl(`${req.protocol}://${req.get("host")}`), token);
+        await sendMail({
+          to: user.email,
+          subject: "Reset your StackWise password",
+          text: `Hi ${user.username},\n\nUse this link to choose a new password. It expires in ${PASSWORD_RESET_TTL_MINUTES} minutes and works once:\n\n${link}\n\nIf you did not ask for a reset, you can ignore this email.`,
+        });
+      }
+
+      res.status(202).json({ message: "If an account exists for that email, a reset link is on its way" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // A successful reset signs the account out everywhere; the user then logs in with the new password
+  app.post("/api/password-reset/confirm", async (req, res, next) => {
+    try {
+      const parsed = passwordResetConfirmSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid reset request" });
+      }
+
+      const userId = await storage.consumePasswordResetToken(hashPasswordResetToken(parsed.data.token));
+      if (!userId) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      await storage.updateUserPassword(userId, await hashPassword(parsed.data.newPassword));
+      await storage.deleteUserSessions(userId);
+      res.json({ message: "Password reset. You can now log in with your new password" });
+    } catch (error) {
+      next(error);
+    }
   });
 }
@@ -1,4 +1,5 @@
 import { type DiscoveredTool, type InsertDiscoveredTool, type DiscoverySourceStatus } from "@shared/schema";
+import { normalizePyPILicense, normalizeSpdxLicense } from "../licensing/license-policy";
 
 // Rate limiting configuration for each API
 export interface RateLimitConfig {
@@ -203,7 +204,7 @@ export class NPMClient extends BaseAPIClient {
       npmWeeklyDownloads: downloads?.downloads || 0,
       packageDownloads: downloads?.downloads || 0,
       version: npmPackage.version || npmPackage['dist-tags']?.latest,
-      license: typeof npmPackage.license === 'string' ? npmPackage.license : npmPackage.license?.type,
+      license: this.getLicense(npmPackage),
       languages: ['javascript', 'typescript'],
       frameworks: this.detectFrameworks(npmPackage),
       tags: npmPackage.keywords || [],
@@ -215,6 +216,16 @@ export class NPMClient extends BaseAPIClient {
     };
   }
 
+  // SPDX expression, legacy { type } object, or the deprecated "licenses" array
+  private getLicense(npmPackage: any): string | null {
+    if (typeof npmPackage.license === 'string') return normalizeSpdxLicense(npmPackage.license);
+    if (npmPackage.license?.type) return normalizeSpdxLicense(npmPackage.license.type);
+    const licenses = (npmPackage.licenses || [])
+      .map((license: any) => normalizeSpdxLicense(typeof license === 'string' ? license : license?.type))
+      .filter(Boolean);
+    return licenses.length > 0 ? licenses.join(' OR ') : null;
+  }
+
   private categorizePackage(npmPackage: any): string {
     const name = npmPackage.name.toLowerCase();
     const description = (npmPackage.description || '').toLowerCase();
@@ -388,7 +399,7 @@ export class PyPIClient extends BaseAPIClient {
       documentationUrl: info.docs_url || info.home_page,
       homepageUrl: info.home_page,
       version: info.version,
-      license: info.license,
+      license: normalizePyPILicense(info),
       languages: ['python'],
       tags: info.keywords ? info.keywords.split(',').map((k: string) => k.trim()) : [],
       keywords: info.keywords ? info.keywords.split(',').map((k: string) => k.trim()) : [],
@@ -534,7 +545,8 @@ export class GitHubClient extends BaseAPIClient {
       githubStars: repo.stargazers_count || 0,
       githubForks: repo.forks_count || 0,
       version: repo.default_branch,
-      license: repo.license?.name,
+      // GitHub reports "NOASSERTION" for license files it cannot identify
+      license: normalizeSpdxLicense(repo.license?.spdx_id) ?? normalizeSpdxLicense(repo.license?.name),
       languages: repo.language ? [repo.language.toLowerCase()] : [],
       tags: repo.topics || [],
       keywords: repo.topics || [],
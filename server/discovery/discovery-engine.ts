@@ -5,6 +5,7 @@ import {
   GitHubClient,
   DockerHubClient
 } from './api-clients';
+import { classifyLicense } from '../licensing/license-policy';
 import { randomUUID } from 'node:crypto';
 import {
   type InsertDiscoveredTool,
@@ -683,7 +684,7 @@ export class DiscoveryEngine {
 
     // Check for pricing indicators in name/description
     if (description.includes('free') || description.includes('open source') ||
-        tool.license && ['MIT', 'Apache-2.0', 'BSD-3-Clause', 'GPL'].includes(tool.license)) {
+        ['permissive', 'weak-copyleft', 'strong-copyleft'].includes(classifyLicense(tool.license))) {
       return {
         pricingModel: 'free',
         estimatedMonthlyCost: '0',
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { DocIndex, chunkArticle, toDocReference, tokenize, type IndexableArticle } from "../doc-index";
+
+const article = (id: string, title: string, content: string, overrides: Partial<IndexableArticle> = {}): IndexableArticle => ({
+  id,
+  title,
+  slug: title.toLowerCase().replace(/\s+/g, "-"),
+  excerpt: null,
+  content,
+  frameworks: null,
+  toolCategories: null,
+  ...overrides,
+});
+
+// Tool names with punctuation survive tokenization; stop words do not
+assert.deepEqual(tokenize("How do I deploy Node.js with C# and C++?"), ["deploy", "node.js", "c#", "c++"]);
+
+// Articles are split at second-level headings; the title heading is dropped and code blocks stay with their section
+const webhooks = article("stripe", "Stripe Webhooks", [
+  "# Stripe Webhooks",
+  "Receive payment events from Stripe.",
+  "",
+  "## Verifying signatures {#verify}",
+  "Check the `Stripe-Signature` header with your endpoint secret.",
+  "```ts",
+  "## not a heading",
+  "stripe.webhooks.constructEvent(body, signature, secret);",
+  "```",
+  "",
+  "## Retries",
+  "Stripe retries failed deliveries for up to three days.",
+].join("\n"), { excerpt: "Handle Stripe events safely." });
+
+const passages = chunkArticle(webhooks);
+assert.deepEqual(passages.map(passage => [passage.id, passage.heading]), [
+  ["stripe#0", null],
+  ["stripe#1", "Verifying signatures"],
+  ["stripe#2", "Retries"],
+]);
+assert.ok(passages[0].text.startsWith("Handle Stripe events safely."));
+assert.ok(!passages[0].text.includes("Stripe Webhooks"));
+assert.ok(passages[1].text.includes("not a heading"));
+assert.ok(passages[1].text.includes("constructEvent"));
+
+const index = new DocIndex([
+  webhooks,
+  article("deploy", "Deploying to Vercel", "## Environment variables\nSet secrets in the project settings before you deploy.", { frameworks: ["Next.js"] }),
+  article("postgres", "Postgres Indexes", "## When to add an index\nAdd an index for columns used in WHERE clauses."),
+]);
+assert.equal(index.size, 5);
+
+// Heading and title matches rank first
+const results = index.search("verify stripe webhook signature secret");
+assert.equal(results[0].id, "stripe#1");
+assert.ok(results.every(result => result.articleId === "stripe"));
+assert.ok(results[0].score > results[1].score);
+
+// Framework keywords count toward every passage of the article
+assert.equal(index.search("next.js secrets")[0].articleId, "deploy");
+
+// Long articles cannot take every slot
+assert.equal(index.search("stripe", { maxPerArticle: 1 }).length, 1);
+assert.equal(index.search("stripe", { limit: 2 }).length, 2);
+
+// Queries without known terms match nothing
+assert.deepEqual(index.search("kubernetes"), []);
+assert.deepEqual(index.search("how do I"), []);
+
+const longText = Array(100).fill("word").join(" ");
+const reference = toDocReference({ ...passages[1], text: longText });
+assert.equal(reference.heading, "Verifying signatures");
+assert.ok(reference.snippet.endsWith("...") && reference.snippet.length <= 243);
+assert.equal(toDocReference(passages[2]).snippet, "Stripe retries failed deliveries for up to three days.");
+
+console.log("doc-index tests passed");
@@ -0,0 +1,163 @@
+/**
+ * Documentation Index - BM25 keyword retrieval over documentation articles, split into passages at second-level headings
+ * Used to ground AI answers and recommendations in our own docs; everything is in memory, no embeddings service needed.
+ */
+
+import type { DocReference, DocumentationArticle } from "@shared/schema";
+
+export type IndexableArticle = Pick<DocumentationArticle, "id" | "title" | "slug" | "excerpt" | "content" | "frameworks" | "toolCategories">;
+
+export interface DocPassage {
+  id: string; // "<articleId>#<section index>"
+  articleId: string;
+  slug: string;
+  title: string;
+  heading: string | null; // Section heading; null for the article introduction
+  text: string;
+}
+
+export interface RetrievedPassage extends DocPassage {
+  score: number;
+}
+
+export interface DocSearchOptions {
+  limit?: number;
+  maxPerArticle?: number; // Keeps one long article from filling every slot
+}
+
+const K1 = 1.2;
+const B = 0.75;
+const TITLE_WEIGHT = 3; // Title and heading terms count this many times
+const MAX_PASSAGE_CHARS = 1500;
+const SNIPPET_CHARS = 240;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "can", "do", "does", "for", "from", "how", "i", "if", "in", "into",
+  "is", "it", "its", "my", "of", "on", "or", "our", "should", "so", "that", "the", "their", "then", "there", "these", "this",
+  "to", "use", "using", "was", "we", "what", "when", "which", "who", "why", "will", "with", "you", "your",
+]);
+
+// Keeps names like "node.js", "c++" and "c#" intact
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9+#.]*/g) ?? [])
+    .map(token => token.replace(/\.+$/, ""))
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+const stripMarkdown = (text: string): string => text
+  .replace(/```[\s\S]*?```/g, match => match.replace(/```\w*/g, ""))
+  .replace(/\{#[\w-]+\}/g, "")
+  .replace(/^\s*(#+|>)\s*/gm, "")
+  .replace(/[*`|]/g, "")
+  .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+  .replace(/\n{3,}/g, "\n\n")
+  .trim();
+
+export function chunkArticle(article: IndexableArticle): DocPassage[] {
+  const sections: Array<{ heading: string | null; lines: string[] }> = [{ heading: null, lines: [] }];
+  let inCodeBlock = false;
+
+  for (const line of article.content.split("\n")) {
+    if (line.trimStart().startsWith("```")) inCodeBlock = !inCodeBlock;
+    const heading = !inCodeBlock && /^##\s+(.+)$/.exec(line);
+    if (heading) {
+      sections.push({ heading: stripMarkdown(heading[1]), lines: [] });
+    } else if (!/^#\s/.test(line) || inCodeBlock) {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  if (article.excerpt) {
+    sections[0].lines.unshift(article.excerpt);
+  }
+
+  return sections
+    .map((section, index) => ({
+      id: `${article.id}#${index}`,
+      articleId: article.id,
+      slug: article.slug,
+      title: article.title,
+      heading: section.heading,
+      text: stripMarkdown(section.lines.join("\n")).slice(0, MAX_PASSAGE_CHARS),
+    }))
+    .filter(passage => passage.text.length > 0);
+}
+
+export function toDocReference(passage: DocPassage): DocReference {
+  const text = passage.text.replace(/\s+/g, " ");
+  const cut = text.length > SNIPPET_CHARS ? text.lastIndexOf(" ", SNIPPET_CHARS) : -1;
+  return {
+    articleId: passage.articleId,
+    slug: passage.slug,
+    title: passage.title,
+    heading: passage.heading,
+    snippet: cut > 0 ? `${text.slice(0, cut)}...` : text.slice(0, SNIPPET_CHARS),
+  };
+}
+
+export class DocIndex {
+  private passages: DocPassage[] = [];
+  private termFrequencies: Array<Map<string, number>> = [];
+  private lengths: number[] = [];
+  private documentFrequency: Map<string, number> = new Map();
+  private averageLength = 0;
+
+  constructor(articles: IndexableArticle[]) {
+    for (const article of articles) {
+      const keywords = [...(article.frameworks ?? []), ...(article.toolCategories ?? [])].join(" ");
+      for (const passage of chunkArticle(article)) {
+        const emphasized = Array(TITLE_WEIGHT).fill(`${passage.title} ${passage.heading ?? ""} ${keywords}`).join(" ");
+        const tokens = tokenize(`${emphasized} ${passage.text}`);
+        const frequencies = new Map<string, number>();
+        for (const token of tokens) {
+          frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+        }
+        for (const token of Array.from(frequencies.keys())) {
+          this.documentFrequency.set(token, (this.documentFrequency.get(token) ?? 0) + 1);
+        }
+        this.passages.push(passage);
+        this.termFrequencies.push(frequencies);
+        this.lengths.push(tokens.length);
+      }
+    }
+    this.averageLength = this.lengths.reduce((sum, length) => sum + length, 0) / (this.lengths.length || 1);
+  }
+
+  get size(): number {
+    return this.passages.length;
+  }
+
+  search(query: string, { limit = 5, maxPerArticle = 2 }: DocSearchOptions = {}): RetrievedPassage[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) return [];
+
+    const total = this.passages.length;
+    const scored = this.passages
+      .map((passage, index) => {
+        const frequencies = this.termFrequencies[index];
+        const lengthNorm = K1 * (1 - B + B * (this.lengths[index] / this.averageLength));
+        let score = 0;
+        for (const term of terms) {
+          const frequency = frequencies.get(term);
+          if (!frequency) continue;
+          const documents = this.documentFrequency.get(term) ?? 0;
+          const idf = Math.log(1 + (total - documents + 0.5) / (documents + 0.5));
+          score += idf * (frequency * (K1 + 1)) / (frequency + lengthNorm);
+        }
+        return { ...passage, score: Math.round(score * 1000) / 1000 };
+      })
+      .filter(passage => passage.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    const perArticle = new Map<string, number>();
+    const results: RetrievedPassage[] = [];
+    for (const passage of scored) {
+      const count = perArticle.get(passage.articleId) ?? 0;
+      if (count >= maxPerArticle) continue;
+      perArticle.set(passage.articleId, count + 1);
+      results.push(passage);
+      if (results.length >= limit) break;
+    }
+    return results;
+  }
+}
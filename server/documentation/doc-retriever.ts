@@ -0,0 +1,43 @@
+/**
+ * Documentation Retriever - Keeps a BM25 index of the published documentation articles in memory
+ * The index is rebuilt lazily after the TTL or after an article is created, updated or deleted.
+ */
+
+import { storage } from "../storage";
+import { DocIndex, type DocSearchOptions, type RetrievedPassage } from "./doc-index";
+
+const INDEX_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+export class DocumentationRetriever {
+  private index: DocIndex | null = null;
+  private builtAt = 0;
+  private building: Promise<DocIndex> | null = null;
+
+  async search(query: string, options?: DocSearchOptions): Promise<RetrievedPassage[]> {
+    const index = await this.getIndex();
+    return index.search(query, options);
+  }
+
+  invalidate(): void {
+    this.index = null;
+    this.builtAt = 0;
+  }
+
+  private async getIndex(): Promise<DocIndex> {
+    if (this.index && Date.now() - this.builtAt < INDEX_TTL_MS) return this.index;
+    if (!this.building) {
+      this.building = storage.getAllDocumentationArticles({ isPublished: true })
+        .then(articles => {
+          this.index = new DocIndex(articles);
+          this.builtAt = Date.now();
+          return this.index;
+        })
+        .finally(() => {
+          this.building = null;
+        });
+    }
+    return this.building;
+  }
+}
+
+export const docRetriever = new DocumentationRetriever();
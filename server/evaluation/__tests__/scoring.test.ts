@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import type { Tool } from "@shared/schema";
+import type { GeneratedTask } from "../../gemini";
+import { mapDependencyLoader, wouldCreateDependencyCycle } from "../../task-generation/dependency-graph";
+import { loadEvaluationCases, loadRecording, replayEvaluationCases, runEvaluationCase } from "../harness";
+import { ReplayProvider } from "../../llm/recorded-provider";
+import { readSeedTools } from "../../tool-catalog-csv";
+import {
+  compareWithBaseline,
+  findCyclicDependencies,
+  findUnknownTools,
+  scoreProjectTasks,
+  toBaseline,
+} from "../scoring";
+
+// Cycles are found through any number of hops, not only direct back-references
+const graph = new Map([["b", ["c"]], ["c", ["d"]]]);
+assert.equal(await wouldCreateDependencyCycle("d", "b", mapDependencyLoader(graph)), true);
+assert.equal(await wouldCreateDependencyCycle("a", "b", mapDependencyLoader(graph)), false);
+assert.equal(await wouldCreateDependencyCycle("a", "a", mapDependencyLoader(graph)), true);
+
+const task = (title: string, estimatedHours: number, dependencies: string[], suggestedTools: string[] = []): GeneratedTask => ({
+  title,
+  description: title,
+  category: "backend",
+  priority: "medium",
+  complexity: "medium",
+  estimatedHours,
+  estimatedDays: 1,
+  technicalRequirements: [],
+  acceptanceCriteria: [],
+  suggestedTools,
+  requiredTools: [],
+  costEstimate: 0,
+  resourceRequirements: { skillsNeeded: [] },
+  dependencies,
+});
+
+const cyclicTasks = [task("Schema", 4, ["Deploy"]), task("API", 8, ["Schema"]), task("Deploy", 2, ["API", "Monitoring"])];
+assert.deepEqual(await findCyclicDependencies(cyclicTasks), ["Deploy -> API"]);
+
+const catalog = [{ id: "tool-1", name: "Supabase" }, { id: "tool-2", name: "Next.js" }];
+assert.deepEqual(findUnknownTools(["supabase", "Pinecone", "tool-2", "Pinecone "], catalog), { checked: 3, unknown: ["Pinecone"] });
+
+const checks = await scoreProjectTasks(
+  cyclicTasks.map(generated => ({ ...generated, suggestedTools: ["Supabase"] })),
+  { taskCount: { min: 1, max: 5 }, totalHours: { min: 20, max: 40 } },
+  catalog
+);
+assert.deepEqual(
+  checks.map(check => [check.name, check.passed]),
+  [["task-count", true], ["total-hours", false], ["acyclic-dependencies", false], ["dependency-references", false], ["catalog-tools", true]]
+);
+
+// A check that flips to failing, or disappears, is a regression; a new check is reported separately
+const comparison = compareWithBaseline(
+  [{ caseId: "case", checks: [{ name: "schema", passed: false, detail: "invalid" }, { name: "task-count", passed: true, detail: "" }] }],
+  { case: { schema: true, "total-hours": true } }
+);
+assert.deepEqual(comparison.regressions, ["case: schema now fails (invalid)", "case: total-hours was not evaluated"]);
+assert.deepEqual(comparison.newChecks, ["case: task-count"]);
+assert.deepEqual(toBaseline([{ caseId: "case", checks: [{ name: "schema", passed: true, detail: "" }] }]), { case: { schema: true } });
+
+// The golden cases replay offline against the committed recordings
+const tools = (readSeedTools() ?? []).map(tool => ({ ...tool, license: null })) as Tool[];
+const cases = loadEvaluationCases();
+const results = await replayEvaluationCases(cases, tools);
+assert.equal(results.length, cases.length);
+for (const result of results) {
+  assert.deepEqual(result.stalePrompts, [], `${result.caseId} was recorded for a different prompt`);
+  assert.ok(result.checks.every(check => check.passed), `${result.caseId} fails on the recorded responses`);
+}
+
+// A recording that no longer parses is scored as a schema failure instead of aborting the run
+const [firstCase] = cases;
+const recording = loadRecording(firstCase.id)!;
+const broken = new ReplayProvider({ ...recording, responses: recording.responses.map(response => ({ ...response, response: "{" })) });
+const brokenResult = await runEvaluationCase(firstCase, broken, tools);
+assert.deepEqual(brokenResult.checks.map(check => [check.name, check.passed]), [["schema", false]]);
+
+console.log("evaluation scoring tests passed");
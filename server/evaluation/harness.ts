@@ -0,0 +1,211 @@
+/**
+ * Evaluation Harness - Replays the golden cases through generateProjectTasks and generateTechRoadmap
+ * Each case is answered from its recorded responses (golden/recordings/<case>.json), scored, and compared
+ * with golden/baseline.json. Recording again with a real provider shows how a model change scores.
+ */
+
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import { generateTasksSchema, type SavedIdea, type Tool, type UserAIContext } from "@shared/schema";
+import { generateProjectTasks, generateTechRoadmap } from "../gemini";
+import { setLLMProvider, type LLMProvider } from "../llm/provider";
+import { RecordingProvider, ReplayProvider, type ResponseRecording } from "../llm/recorded-provider";
+import {
+  schemaCheck,
+  scoreProjectTasks,
+  scoreTechRoadmap,
+  type BaselineComparison,
+  type CaseOutcome,
+  type EvaluationBaseline,
+  type EvaluationCheck,
+} from "./scoring";
+
+export const GOLDEN_DIR = path.join(import.meta.dirname, "golden");
+
+const boundsSchema = z.object({ min: z.number(), max: z.number() });
+const optionalText = z.string().nullable().default(null);
+
+const caseBase = {
+  id: z.string().regex(/^[a-z0-9-]+$/, "Case ids are lowercase-kebab-case file names"),
+  description: z.string(),
+  userContext: z.custom<UserAIContext>(value => typeof value === "object" && value !== null).default({}),
+};
+
+const projectTasksCaseSchema = z.object({
+  ...caseBase,
+  kind: z.literal("project-tasks"),
+  idea: z.object({
+    title: z.string(),
+    description: z.string(),
+    toolsUsed: z.array(z.string()).nullable().default(null),
+    monetization: optionalText,
+    tags: z.array(z.string()).nullable().default(null),
+    targetAudience: optionalText,
+    implementationComplexity: optionalText,
+    estimatedCost: optionalText,
+    timeToMarket: optionalText,
+  }),
+  stackToolIds: z.array(z.string()).default([]),
+  parameters: generateTasksSchema.shape.generationParameters.unwrap().default({}),
+  expect: z.object({ taskCount: boundsSchema, totalHours: boundsSchema }),
+});
+
+const techRoadmapCaseSchema = z.object({
+  ...caseBase,
+  kind: z.literal("tech-roadmap"),
+  currentStackToolIds: z.array(z.string()),
+  targetGoals: z.array(z.string()).min(1),
+  timeframe: z.string().optional(),
+  expect: z.object({ phaseCount: boundsSchema, estimatedCost: boundsSchema }),
+});
+
+export const evaluationCaseSchema = z.discriminatedUnion("kind", [projectTasksCaseSchema, techRoadmapCaseSchema]);
+
+export type EvaluationCase = z.infer<typeof evaluationCaseSchema>;
+
+export interface CaseResult extends CaseOutcome {
+  kind: EvaluationCase["kind"];
+  attempts: number; // Provider calls, including re-asks
+  stalePrompts: string[]; // Tasks whose prompt changed since the responses were recorded
+}
+
+export function loadEvaluationCases(dir: string = GOLDEN_DIR): EvaluationCase[] {
+  const casesDir = path.join(dir, "cases");
+  return readdirSync(casesDir)
+    .filter(file => file.endsWith(".json"))
+    .sort()
+    .map(file => {
+      const evalCase = evaluationCaseSchema.parse(JSON.parse(readFileSync(path.join(casesDir, file), "utf-8")));
+      if (`${evalCase.id}.json` !== file) {
+        throw new Error(`Case file ${file} declares id "${evalCase.id}"`);
+      }
+      return evalCase;
+    });
+}
+
+const recordingPath = (dir: string, caseId: string) => path.join(dir, "recordings", `${caseId}.json`);
+const baselinePath = (dir: string) => path.join(dir, "baseline.json");
+
+export function loadRecording(caseId: string, dir: string = GOLDEN_DIR): ResponseRecording | undefined {
+  const file = recordingPath(dir, caseId);
+  return existsSync(file) ? JSON.parse(readFileSync(file, "utf-8")) : undefined;
+}
+
+export function loadBaseline(dir: string = GOLDEN_DIR): EvaluationBaseline {
+  return existsSync(baselinePath(dir)) ? JSON.parse(readFileSync(baselinePath(dir), "utf-8")) : {};
+}
+
+export function saveBaseline(baseline: EvaluationBaseline, dir: string = GOLDEN_DIR): void {
+  writeFileSync(baselinePath(dir), `${JSON.stringify(baseline, null, 2)}\n`);
+}
+
+// Cases name tools by catalog id so a renamed or removed tool fails loudly instead of silently changing the prompt
+export function resolveCatalogTools(toolIds: string[], catalog: Tool[]): Tool[] {
+  return toolIds.map(id => {
+    const tool = catalog.find(candidate => candidate.id === id);
+    if (!tool) throw new Error(`Tool ${id} is not in the catalog`);
+    return tool;
+  });
+}
+
+function toSavedIdea(evalCase: z.infer<typeof projectTasksCaseSchema>): SavedIdea {
+  return { ...evalCase.idea, id: `evaluation-${evalCase.id}`, userId: "evaluation", generationMetadata: null, createdAt: null };
+}
+
+async function generateAndScore(evalCase: EvaluationCase, catalog: Tool[]): Promise<EvaluationCheck[]> {
+  if (evalCase.kind === "project-tasks") {
+    const stack = resolveCatalogTools(evalCase.stackToolIds, catalog);
+    const result = await generateProjectTasks(toSavedIdea(evalCase), evalCase.userContext, stack, evalCase.parameters);
+    return scoreProjectTasks(result.tasks, evalCase.expect, catalog);
+  }
+
+  const currentStack = resolveCatalogTools(evalCase.currentStackToolIds, catalog).map(tool => tool.name);
+  const roadmap = await generateTechRoadmap(currentStack, evalCase.targetGoals, evalCase.userContext, evalCase.timeframe);
+  return scoreTechRoadmap(roadmap, evalCase.expect, catalog);
+}
+
+// Runs one case against the given provider; generation errors become a failed schema check
+export async function runEvaluationCase(evalCase: EvaluationCase, provider: LLMProvider, catalog: Tool[]): Promise<CaseResult> {
+  let attempts = 0;
+  setLLMProvider({
+    name: provider.name,
+    model: provider.model,
+    generateJson: request => {
+      attempts++;
+      return provider.generateJson(request);
+    },
+  });
+
+  try {
+    const checks = await generateAndScore(evalCase, catalog);
+    return { caseId: evalCase.id, kind: evalCase.kind, checks: [schemaCheck(attempts), ...checks], attempts, stalePrompts: [] };
+  } catch (error) {
+    return { caseId: evalCase.id, kind: evalCase.kind, checks: [schemaCheck(attempts, error)], attempts, stalePrompts: [] };
+  } finally {
+    setLLMProvider(null);
+  }
+}
+
+export async function replayEvaluationCases(cases: EvaluationCase[], catalog: Tool[], dir: string = GOLDEN_DIR): Promise<CaseResult[]> {
+  const results: CaseResult[] = [];
+  for (const evalCase of cases) {
+    const recording = loadRecording(evalCase.id, dir);
+    if (!recording) {
+      results.push({
+        caseId: evalCase.id,
+        kind: evalCase.kind,
+        checks: [schemaCheck(0, new Error("No recorded responses; run the evaluation with --record"))],
+        attempts: 0,
+        stalePrompts: [],
+      });
+      continue;
+    }
+
+    const provider = new ReplayProvider(recording);
+    const result = await runEvaluationCase(evalCase, provider, catalog);
+    results.push({ ...result, stalePrompts: provider.stalePrompts });
+  }
+  return results;
+}
+
+// Asks the real provider and overwrites each case's recording with its answers
+export async function recordEvaluationCases(
+  cases: EvaluationCase[],
+  catalog: Tool[],
+  provider: LLMProvider,
+  dir: string = GOLDEN_DIR
+): Promise<CaseResult[]> {
+  const results: CaseResult[] = [];
+  for (const evalCase of cases) {
+    const recorder = new RecordingProvider(provider);
+    results.push(await runEvaluationCase(evalCase, recorder, catalog));
+    writeFileSync(recordingPath(dir, evalCase.id), `${JSON.stringify(recorder.toRecording(), null, 2)}\n`);
+  }
+  return results;
+}
+
+export function formatEvaluationReport(results: CaseResult[], comparison: BaselineComparison): string {
+  const lines: string[] = [];
+
+  for (const result of results) {
+    const passed = result.checks.filter(check => check.passed).length;
+    lines.push(`${result.caseId} (${result.kind}): ${passed}/${result.checks.length} checks passed`);
+    for (const check of result.checks) {
+      lines.push(`  ${check.passed ? "PASS" : "FAIL"} ${check.name}: ${check.detail}`);
+    }
+    if (result.stalePrompts.length > 0) {
+      lines.push(`  WARN prompt changed since recording (${result.stalePrompts.join(", ")}); re-record to score the new prompt`);
+    }
+  }
+
+  const section = (title: string, entries: string[]) => {
+    if (entries.length > 0) lines.push("", `${title}:`, ...entries.map(entry => `  - ${entry}`));
+  };
+  section("Regressions", comparison.regressions);
+  section("Improvements", comparison.improvements);
+  section("Not in the baseline", comparison.newChecks);
+  lines.push("", comparison.regressions.length === 0 ? "No regressions" : `${comparison.regressions.length} regression(s)`);
+
+  return lines.join("\n");
+}
@@ -0,0 +1,182 @@
+/**
+ * Evaluation Scoring - Checks one generated task breakdown or roadmap against the expectations of its golden case
+ * Checks are pass/fail so a run can be compared with the committed baseline check by check.
+ */
+
+import type { GeneratedTechRoadmap, Tool } from "@shared/schema";
+import type { GeneratedTask } from "../gemini";
+import { mapDependencyLoader, wouldCreateDependencyCycle } from "../task-generation/dependency-graph";
+
+export interface EvaluationBounds {
+  min: number;
+  max: number;
+}
+
+export interface EvaluationCheck {
+  name: string; // schema, task-count, total-hours, acyclic-dependencies, dependency-references, catalog-tools, ...
+  passed: boolean;
+  detail: string;
+}
+
+export type CatalogTool = Pick<Tool, "id" | "name">;
+
+// Share of distinct suggested tools that must resolve to a catalog entry; the rest may be tools the catalog lacks
+export const MIN_CATALOG_MATCH_RATE = 0.5;
+
+function boundsCheck(name: string, value: number, bounds: EvaluationBounds, unit: string): EvaluationCheck {
+  return {
+    name,
+    passed: value >= bounds.min && value <= bounds.max,
+    detail: `${value} ${unit} (expected ${bounds.min}-${bounds.max})`,
+  };
+}
+
+// The first attempt has to be valid; a re-ask means the prompt produces unusable output as is
+export function schemaCheck(attempts: number, error?: unknown): EvaluationCheck {
+  if (error) {
+    return { name: "schema", passed: false, detail: error instanceof Error ? error.message : String(error) };
+  }
+  return {
+    name: "schema",
+    passed: attempts === 1,
+    detail: attempts === 1 ? "valid on the first attempt" : `valid after ${attempts} attempts`,
+  };
+}
+
+/**
+ * Adds the title-linked dependencies one by one, the way saveGeneratedTaskDependencies stores them,
+ * and reports every edge that checkCircularDependency would have to reject.
+ */
+export async function findCyclicDependencies(tasks: GeneratedTask[]): Promise<string[]> {
+  const titles = new Set(tasks.map(task => task.title));
+  const graph = new Map<string, string[]>();
+  const cyclic: string[] = [];
+
+  for (const task of tasks) {
+    for (const dependency of task.dependencies) {
+      if (!titles.has(dependency)) continue;
+      if (await wouldCreateDependencyCycle(task.title, dependency, mapDependencyLoader(graph))) {
+        cyclic.push(`${task.title} -> ${dependency}`);
+      } else {
+        graph.set(task.title, [...(graph.get(task.title) ?? []), dependency]);
+      }
+    }
+  }
+
+  return cyclic;
+}
+
+// Tool names (or ids) that match nothing in the catalog, compared case-insensitively
+export function findUnknownTools(names: string[], catalog: CatalogTool[]): { checked: number; unknown: string[] } {
+  const known = new Set(catalog.flatMap(tool => [tool.id.toLowerCase(), tool.name.toLowerCase()]));
+  const distinct = Array.from(new Set(names.map(name => name.trim()).filter(Boolean)));
+  return { checked: distinct.length, unknown: distinct.filter(name => !known.has(name.toLowerCase())) };
+}
+
+function catalogCheck(names: string[], catalog: CatalogTool[]): EvaluationCheck {
+  const { checked, unknown } = findUnknownTools(names, catalog);
+  const matched = checked - unknown.length;
+  const rate = checked === 0 ? 1 : matched / checked;
+  return {
+    name: "catalog-tools",
+    passed: rate >= MIN_CATALOG_MATCH_RATE,
+    detail: `${matched}/${checked} suggested tools are in the catalog${unknown.length > 0 ? `; unknown: ${unknown.join(", ")}` : ""}`,
+  };
+}
+
+export async function scoreProjectTasks(
+  tasks: GeneratedTask[],
+  expected: { taskCount: EvaluationBounds; totalHours: EvaluationBounds },
+  catalog: CatalogTool[]
+): Promise<EvaluationCheck[]> {
+  const titles = new Set(tasks.map(task => task.title));
+  const danglingDependencies = tasks.flatMap(task =>
+    task.dependencies.filter(dependency => !titles.has(dependency)).map(dependency => `${task.title} -> ${dependency}`)
+  );
+  const cyclicDependencies = await findCyclicDependencies(tasks);
+  const totalHours = tasks.reduce((sum, task) => sum + task.estimatedHours, 0);
+
+  return [
+    boundsCheck("task-count", tasks.length, expected.taskCount, "tasks"),
+    boundsCheck("total-hours", totalHours, expected.totalHours, "hours"),
+    {
+      name: "acyclic-dependencies",
+      passed: cyclicDependencies.length === 0,
+      detail: cyclicDependencies.length === 0 ? "no cycles" : `cycles through ${cyclicDependencies.join("; ")}`,
+    },
+    {
+      name: "dependency-references",
+      passed: danglingDependencies.length === 0,
+      detail: danglingDependencies.length === 0
+        ? "every dependency names a generated task"
+        : `unknown tasks: ${danglingDependencies.join("; ")}`,
+    },
+    catalogCheck(tasks.flatMap(task => task.suggestedTools), catalog),
+  ];
+}
+
+export function scoreTechRoadmap(
+  roadmap: GeneratedTechRoadmap,
+  expected: { phaseCount: EvaluationBounds; estimatedCost: EvaluationBounds },
+  catalog: CatalogTool[]
+): EvaluationCheck[] {
+  const phaseNumbers = roadmap.timeline.map(phase => phase.phase);
+  const ordered = phaseNumbers.every((phase, index) => index === 0 || phase > phaseNumbers[index - 1]);
+
+  return [
+    boundsCheck("phase-count", roadmap.timeline.length, expected.phaseCount, "phases"),
+    boundsCheck("estimated-cost", roadmap.estimatedCost, expected.estimatedCost, "USD"),
+    { name: "phase-order", passed: ordered, detail: `phases ${phaseNumbers.join(", ")}` },
+    catalogCheck([...roadmap.targetStack, ...roadmap.timeline.flatMap(phase => phase.tools)], catalog),
+  ];
+}
+
+export interface CaseOutcome {
+  caseId: string;
+  checks: EvaluationCheck[];
+}
+
+// Baselines keep only pass/fail per check, so re-recording with a different model produces a readable diff
+export type EvaluationBaseline = Record<string, Record<string, boolean>>;
+
+export interface BaselineComparison {
+  regressions: string[]; // "<case>: <check> now fails (<detail>)"
+  improvements: string[];
+  newChecks: string[]; // Cases or checks the baseline does not know yet
+}
+
+export function toBaseline(outcomes: CaseOutcome[]): EvaluationBaseline {
+  return Object.fromEntries(
+    outcomes.map(outcome => [outcome.caseId, Object.fromEntries(outcome.checks.map(check => [check.name, check.passed]))])
+  );
+}
+
+export function compareWithBaseline(outcomes: CaseOutcome[], baseline: EvaluationBaseline): BaselineComparison {
+  const comparison: BaselineComparison = { regressions: [], improvements: [], newChecks: [] };
+
+  for (const outcome of outcomes) {
+    const previous = baseline[outcome.caseId];
+    for (const check of outcome.checks) {
+      const label = `${outcome.caseId}: ${check.name}`;
+      if (previous?.[check.name] === undefined) {
+        comparison.newChecks.push(label);
+      } else if (previous[check.name] && !check.passed) {
+        comparison.regressions.push(`${label} now fails (${check.detail})`);
+      } else if (!previous[check.name] && check.passed) {
+        comparison.improvements.push(`${label} now passes`);
+      }
+    }
+  }
+
+  // A case or check that disappeared cannot be compared, which hides a regression just the same
+  for (const [caseId, checks] of Object.entries(baseline)) {
+    const outcome = outcomes.find(candidate => candidate.caseId === caseId);
+    for (const name of Object.keys(checks)) {
+      if (!outcome?.checks.some(check => check.name === name)) {
+        comparison.regressions.push(`${caseId}: ${name} was not evaluated`);
+      }
+    }
+  }
+
+  return comparison;
+}
@@ -1,4 +1,3 @@
-import { GoogleGenAI } from "@google/genai";
 import type { 
   UserAIContext, 
   EnhancedBusinessIdea, 
@@ -11,17 +10,41 @@ import type {
   GeneratedTasksResponse,
   ProjectTask,
   TaskDependency,
-  TaskTimeline,
-  TaskMetrics
+  TaskMetrics,
+  AIValidationOutcome
 } from "@shared/schema";
-
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+import type { LLMJsonRequest } from "./llm/provider";
+import { streamAuditedJson, type AIInvocationContext } from "./llm/audit";
+import { JsonArrayStreamParser, stripCodeFence } from "./llm/json-stream";
+import { toDocReference, type DocPassage } from "./documentation/doc-index";
+import { generateValidatedJson, formatIssues, AIValidationError } from "./llm/validated-json";
+import { renderPrompt, formatUserContext } from "./llm/prompt-templates";
+import {
+  businessIdeasResponseSchema,
+  enhancedIdeasResponseSchema,
+  techRoadmapSchema,
+  recommendationsResponseSchema,
+  generatedTaskSchema,
+  taskGenerationResultSchema,
+  taskSequencingSchema,
+  taskRefinementsSchema,
+  ideaRefinementReplySchema,
+  roadmapRefinementReplySchema,
+  docsAnswerSchema,
+  type TaskSequencing,
+  type RefinedIdea,
+  type RefinedTask,
+  type RefinedRoadmap,
+  type IdeaRefinementReply,
+  type RoadmapRefinementReply
+} from "./llm/response-schemas";
 
 export interface BusinessIdea {
   title: string;
   description: string;
   monetization: string;
   tags: string[];
+  validation?: AIValidationOutcome;
 }
 
 interface AIResponse<T> {
@@ -32,25 +55,14 @@ interface AIResponse<T> {
 
 export async function generateBusinessIdeas(
   selectedTools: string[],
-  goals?: string
+  goals?: string,
+  audit?: AIInvocationContext
 ): Promise<BusinessIdea[]> {
   try {
-    const toolsText = selectedTools.join(", ");
-    const goalsText = goals ? `User goals: ${goals}\n\n` : "";
-    
-    const prompt = `You are a business strategy expert specializing in tech stack analysis and monetization opportunities.
-
-${goalsText}Selected tech tools: ${toolsText}
-
-Generate 3 creative and realistic business ideas that specifically leverage these tools. For each idea, provide:
-1. A compelling title (max 50 characters)
-2. A detailed description explaining how the tools work together (100-200 words)
-3. A specific monetization strategy (50-100 words)
-4. 3-5 relevant tags/keywords
-
-Focus on practical, implementable ideas that showcase the unique capabilities of the selected tools. Consider current market trends and opportunities.
-
-Respond with JSON in this exact format:
+    const prompt = await renderPrompt("business-ideas", {
+      goals: goals || "Not specified",
+      tools: selectedTools.join(", "),
+      responseFormat: `Respond with JSON in this exact format:
 {
   "ideas": [
     {
@@ -60,94 +72,55 @@ Respond with JSON in this exact format:
       "tags": ["tag1", "tag2", "tag3"]
     }
   ]
-}`;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: "object",
-          properties: {
-            ideas: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  title: { type: "string" },
-                  description: { type: "string" },
-                  monetization: { type: "string" },
-                  tags: {
-                    type: "array",
-                    items: { type: "string" }
-                  }
-                },
-                required: ["title", "description", "monetization", "tags"]
-              }
+}`
+    }, audit);
+
+    const { data, validation } = await generateValidatedJson({
+      task: "business-ideas",
+      prompt,
+      schema: {
+        type: "object",
+        properties: {
+          ideas: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                title: { type: "string" },
+                description: { type: "string" },
+                monetization: { type: "string" },
+                tags: {
+                  type: "array",
+                  items: { type: "string" }
+                }
+              },
+              required: ["title", "description", "monetization", "tags"]
             }
-          },
-          required: ["ideas"]
-        }
-      },
-      contents: prompt,
-    });
+          }
+        },
+        required: ["ideas"]
+      }
+    }, businessIdeasResponseSchema, audit);
 
-    const rawJson = response.text;
-    
-    if (rawJson) {
-      const data = JSON.parse(rawJson);
-      return data.ideas || [];
-    } else {
-      throw new Error("Empty response from AI model");
-    }
+    return data.ideas.map(idea => ({ ...idea, validation }));
   } catch (error) {
     console.error("Failed to generate business ideas:", error);
-    throw new Error(`Failed to generate business ideas: ${error}`);
+    throw new Error(`Failed to generate business ideas: ${error}`, { cause: error });
   }
 }
 
 export async function generateEnhancedBusinessIdeas(
   selectedTools: string[],
   userContext: UserAIContext,
-  goals?: string
+  goals?: string,
+  audit?: AIInvocationContext
 ): Promise<EnhancedBusinessIdea[]> {
   try {
-    const toolsText = selectedTools.join(", ");
-    const goalsText = goals ? `User goals: ${goals}\n\n` : "";
-    const budgetText = userContext.monthlyBudget ? `Monthly budget: $${userContext.monthlyBudget}\n` : "";
-    const teamText = userContext.teamSize ? `Team size: ${userContext.teamSize}\n` : "";
-    const industryText = userContext.industry ? `Industry: ${userContext.industry}\n` : "";
-    const levelText = userContext.technicalLevel ? `Technical level: ${userContext.technicalLevel}\n` : "";
-    const stageText = userContext.companyStage ? `Company stage: ${userContext.companyStage}\n` : "";
-    
-    const prompt = `You are an expert business strategist and technology consultant specializing in context-aware recommendations.
-
-User Context:
-${teamText}${industryText}${levelText}${budgetText}${stageText}${goalsText}
-Selected tech tools: ${toolsText}
-
-Generate 3 highly contextual business ideas that specifically:
-- Leverage the selected tools effectively
-- Match the user's technical level and team size
-- Fit within their budget constraints (if specified)
-- Align with their industry and company stage
-- Consider implementation complexity appropriate for their context
-
-For each idea, provide:
-1. Compelling title (max 50 characters)
-2. Detailed description explaining tool integration (150-250 words)
-3. Specific monetization strategy (75-125 words)
-4. Target audience description (50-100 words)
-5. Implementation complexity (low/medium/high) with justification
-6. Estimated cost breakdown (development, monthly operations)
-7. Time to market estimate
-8. 4-6 relevant tags/keywords
-9. Industry fit score (1-10) and team suitability explanation
-10. Budget compatibility assessment
-
-Focus on practical, achievable ideas that showcase realistic market opportunities within the user's constraints.
-
-Respond with JSON in this exact format:
+    const prompt = await renderPrompt("enhanced-business-ideas", {
+      userContext: formatUserContext(userContext),
+      goals: goals || "Not specified",
+      tools: selectedTools.join(", "),
+      responseFormat: `Respond with JSON in this exact format:
 {
   "ideas": [
     {
@@ -164,53 +137,44 @@ Respond with JSON in this exact format:
       "industryFit": 8
     }
   ]
-}`;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: "object",
-          properties: {
-            ideas: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  title: { type: "string" },
-                  description: { type: "string" },
-                  monetization: { type: "string" },
-                  targetAudience: { type: "string" },
-                  implementationComplexity: { type: "string" },
-                  estimatedCost: { type: "number" },
-                  timeToMarket: { type: "string" },
-                  tags: { type: "array", items: { type: "string" } },
-                  budgetFriendly: { type: "boolean" },
-                  teamSuitability: { type: "string" },
-                  industryFit: { type: "number" }
-                },
-                required: ["title", "description", "monetization", "targetAudience", "implementationComplexity", "estimatedCost", "timeToMarket", "tags", "budgetFriendly", "teamSuitability", "industryFit"]
-              }
+}`
+    }, audit);
+
+    const { data, validation } = await generateValidatedJson({
+      task: "enhanced-business-ideas",
+      prompt,
+      schema: {
+        type: "object",
+        properties: {
+          ideas: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                title: { type: "string" },
+                description: { type: "string" },
+                monetization: { type: "string" },
+                targetAudience: { type: "string" },
+                implementationComplexity: { type: "string", enum: ["low", "medium", "high"] },
+                estimatedCost: { type: "number" },
+                timeToMarket: { type: "string" },
+                tags: { type: "array", items: { type: "string" } },
+                budgetFriendly: { type: "boolean" },
+                teamSuitability: { type: "string" },
+                industryFit: { type: "number" }
+              },
+              required: ["title", "description", "monetization", "targetAudience", "implementationComplexity", "estimatedCost", "timeToMarket", "tags", "budgetFriendly", "teamSuitability", "industryFit"]
             }
-          },
-          required: ["ideas"]
-        }
-      },
-      contents: prompt,
-    });
+          }
+        },
+        required: ["ideas"]
+      }
+    }, enhancedIdeasResponseSchema, audit);
 
-    const rawJson = response.text;
-    
-    if (rawJson) {
-      const data = JSON.parse(rawJson);
-      return data.ideas || [];
-    } else {
-      throw new Error("Empty response from AI model");
-    }
+    return data.ideas.map(idea => ({ ...idea, validation }));
   } catch (error) {
     console.error("Failed to generate enhanced business ideas:", error);
-    throw new Error(`Failed to generate enhanced business ideas: ${error}`);
+    throw new Error(`Failed to generate enhanced business ideas: ${error}`, { cause: error });
   }
 }
 
@@ -218,43 +182,16 @@ export async function generateTechRoadmap(
   currentStack: string[],
   targetGoals: string[],
   userContext: UserAIContext,
-  timeframe?: string
+  timeframe?: string,
+  audit?: AIInvocationContext
 ): Promise<GeneratedTechRoadmap> {
   try {
-    const currentText = currentStack.join(", ");
-    const goalsText = targetGoals.join(", ");
-    const budgetText = userContext.monthlyBudget ? `Monthly budget: $${userContext.monthlyBudget}\n` : "No budget specified\n";
-    const teamText = userContext.teamSize ? `Team size: ${userContext.teamSize}\n` : "";
-    const industryText = userContext.industry ? `Industry: ${userContext.industry}\n` : "";
-    const levelText = userContext.technicalLevel ? `Technical level: ${userContext.technicalLevel}\n` : "";
-    const stageText = userContext.companyStage ? `Company stage: ${userContext.companyStage}\n` : "";
-    const timeframeText = timeframe ? `Target timeframe: ${timeframe}\n` : "Flexible timeframe\n";
-    
-    const prompt = `You are a senior technology architect and strategic planning expert.
-
-User Context:
-${teamText}${industryText}${levelText}${budgetText}${stageText}${timeframeText}
-Current tech stack: ${currentText}
-Target goals: ${goalsText}
-
-Create a comprehensive technology roadmap that:
-- Builds upon the existing stack strategically
-- Achieves the target goals efficiently
-- Respects budget and team constraints
-- Considers technical complexity appropriate for the team level
-- Includes realistic timelines and milestones
-- Addresses potential risks and dependencies
-
-Provide a detailed roadmap with:
-1. Clear title and description
-2. 3-5 phases with specific tools and technologies
-3. Duration estimates for each phase
-4. Cost breakdown (immediate and ongoing)
-5. Prerequisites and dependencies
-6. Risk assessment
-7. Learning resources for the team
-
-Respond with JSON in this exact format:
+    const prompt = await renderPrompt("tech-roadmap", {
+      userContext: formatUserContext(userContext),
+      timeframe: timeframe || "Flexible",
+      currentStack: currentStack.join(", "),
+      goals: targetGoals.join(", "),
+      responseFormat: `Respond with JSON in this exact format:
 {
   "title": "Technology Roadmap Title",
   "description": "Comprehensive roadmap description...",
@@ -290,124 +227,101 @@ Respond with JSON in this exact format:
     "timeline": "Timeline risk assessment",
     "team": "Team capability assessment"
   }
-}`;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: "object",
-          properties: {
-            title: { type: "string" },
-            description: { type: "string" },
-            currentStack: { type: "array", items: { type: "string" } },
-            targetStack: { type: "array", items: { type: "string" } },
-            timeline: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  phase: { type: "number" },
-                  title: { type: "string" },
-                  description: { type: "string" },
-                  tools: { type: "array", items: { type: "string" } },
-                  duration: { type: "string" },
-                  cost: { type: "number" },
-                  prerequisites: { type: "array", items: { type: "string" } },
-                  deliverables: { type: "array", items: { type: "string" } },
-                  risks: { type: "array", items: { type: "string" } },
-                  learningResources: { type: "array", items: { type: "string" } }
-                },
-                required: ["phase", "title", "description", "tools", "duration", "cost"]
-              }
-            },
-            totalDuration: { type: "string" },
-            estimatedCost: { type: "number" },
-            complexity: { type: "string" },
-            priority: { type: "string" },
-            budgetImpact: {
+}`
+    }, audit);
+
+    const { data, validation } = await generateValidatedJson({
+      task: "tech-roadmap",
+      prompt,
+      schema: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          description: { type: "string" },
+          currentStack: { type: "array", items: { type: "string" } },
+          targetStack: { type: "array", items: { type: "string" } },
+          timeline: {
+            type: "array",
+            items: {
               type: "object",
               properties: {
-                immediate: { type: "number" },
-                monthly: { type: "number" },
-                savings: { type: "number" }
-              }
-            },
-            prerequisites: { type: "array", items: { type: "string" } },
-            riskAssessment: {
-              type: "object",
-              properties: {
-                technical: { type: "string" },
-                budget: { type: "string" },
-                timeline: { type: "string" },
-                team: { type: "string" }
-              }
+                phase: { type: "number" },
+                title: { type: "string" },
+                description: { type: "string" },
+                tools: { type: "array", items: { type: "string" } },
+                duration: { type: "string" },
+                cost: { type: "number" },
+                prerequisites: { type: "array", items: { type: "string" } },
+                deliverables: { type: "array", items: { type: "string" } },
+                risks: { type: "array", items: { type: "string" } },
+                learningResources: { type: "array", items: { type: "string" } }
+              },
+              required: ["phase", "title", "description", "tools", "duration", "cost"]
             }
           },
-          required: ["title", "description", "currentStack", "targetStack", "timeline", "totalDuration", "estimatedCost", "complexity", "priority"]
-        }
-      },
-      contents: prompt,
-    });
+          totalDuration: { type: "string" },
+          estimatedCost: { type: "number" },
+          complexity: { type: "string", enum: ["low", "medium", "high"] },
+          priority: { type: "string", enum: ["low", "medium", "high", "urgent"] },
+          budgetImpact: {
+            type: "object",
+            properties: {
+              immediate: { type: "number" },
+              monthly: { type: "number" },
+              savings: { type: "number" }
+            }
+          },
+          prerequisites: { type: "array", items: { type: "string" } },
+          riskAssessment: {
+            type: "object",
+            properties: {
+              technical: { type: "string" },
+              budget: { type: "string" },
+              timeline: { type: "string" },
+              team: { type: "string" }
+            }
+          }
+        },
+        required: ["title", "description", "currentStack", "targetStack", "timeline", "totalDuration", "estimatedCost", "complexity", "priority"]
+      }
+    }, techRoadmapSchema, audit);
 
-    const rawJson = response.text;
-    
-    if (rawJson) {
-      const data = JSON.parse(rawJson);
-      return data;
-    } else {
-      throw new Error("Empty response from AI model");
-    }
+    return { ...data, validation };
   } catch (error) {
     console.error("Failed to generate tech roadmap:", error);
-    throw new Error(`Failed to generate tech roadmap: ${error}`);
+    throw new Error(`Failed to generate tech roadmap: ${error}`, { cause: error });
   }
 }
 
+// Numbered so the model can cite an excerpt by its number
+function formatDocExcerpts(passages: DocPassage[]): string {
+  return passages
+    .map((passage, index) => `[${index + 1}] ${passage.title}${passage.heading ? ` > ${passage.heading}` : ""}\n${passage.text}`)
+    .join("\n\n");
+}
+
+// Keeps valid, distinct excerpt numbers in the order the model cited them
+function resolveDocCitations(citations: number[], passages: DocPassage[]): DocPassage[] {
+  const numbers = Array.from(new Set(citations)).filter(number => number >= 1 && number <= passages.length);
+  return numbers.map(number => passages[number - 1]);
+}
+
 export async function getContextualRecommendations(
   currentStack: string[],
   availableTools: Tool[],
-  userContext: UserAIContext
+  userContext: UserAIContext,
+  audit?: AIInvocationContext,
+  docs: DocPassage[] = []
 ): Promise<ContextualRecommendation[]> {
   try {
-    const currentText = currentStack.join(", ");
-    const toolsData = availableTools.slice(0, 50).map(t => `${t.name}: ${t.description || 'No description'} (Category: ${t.category})`).join("\n");
-    const budgetText = userContext.monthlyBudget ? `Monthly budget: $${userContext.monthlyBudget}\n` : "";
-    const teamText = userContext.teamSize ? `Team size: ${userContext.teamSize}\n` : "";
-    const industryText = userContext.industry ? `Industry: ${userContext.industry}\n` : "";
-    const levelText = userContext.technicalLevel ? `Technical level: ${userContext.technicalLevel}\n` : "";
-    
-    const prompt = `You are an expert technology consultant providing contextual recommendations.
-
-User Context:
-${teamText}${industryText}${levelText}${budgetText}Current stack: ${currentText}
-
-Available tools to recommend:
-${toolsData}
-
-Analyze the user's current stack and context to provide 5-8 highly relevant recommendations that:
-- Fill gaps in their current technology stack
-- Match their technical level and team size
-- Fit within budget constraints
-- Address industry-specific needs
-- Consider implementation effort and time to value
-- Provide alternatives when appropriate
-
-For each recommendation, provide:
-1. Type (tool/process/architecture/security)
-2. Priority level (low/medium/high/urgent)
-3. Clear title and description
-4. Reasoning for the recommendation
-5. Suggested tools (if applicable)
-6. Budget impact estimate
-7. Implementation effort level
-8. Team suitability score (1-10)
-9. Industry relevance score (1-10)
-10. Time to value estimate
-11. Dependencies and alternatives
-
-Respond with JSON in this exact format:
+    const prompt = await renderPrompt("contextual-recommendations", {
+      userContext: formatUserContext(userContext),
+      currentStack: currentStack.join(", "),
+      tools: availableTools.slice(0, 50).map(t => `${t.name}: ${t.description || 'No description'} (Category: ${t.category})`).join("\n"),
+      docs: docs.length > 0
+        ? `\nExcerpts from our documentation (cite the relevant ones by number in "docReferences"):\n${formatDocExcerpts(docs)}\n`
+        : "",
+      responseFormat: `Respond with JSON in this exact format:
 {
   "recommendations": [
     {
@@ -423,58 +337,59 @@ Respond with JSON in this exact format:
       "industryRelevance": 9,
       "timeToValue": "2-4 weeks",
       "dependencies": ["dependency1"],
-      "alternatives": ["alternative1"]
+      "alternatives": ["alternative1"],
+      "docReferences": [1]
     }
   ]
-}`;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: "object",
-          properties: {
-            recommendations: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  type: { type: "string" },
-                  priority: { type: "string" },
-                  title: { type: "string" },
-                  description: { type: "string" },
-                  reasoning: { type: "string" },
-                  suggestedTools: { type: "array", items: { type: "string" } },
-                  budgetImpact: { type: "number" },
-                  implementationEffort: { type: "string" },
-                  teamSuitability: { type: "number" },
-                  industryRelevance: { type: "number" },
-                  timeToValue: { type: "string" },
-                  dependencies: { type: "array", items: { type: "string" } },
-                  alternatives: { type: "array", items: { type: "string" } }
-                },
-                required: ["type", "priority", "title", "description", "reasoning", "implementationEffort", "teamSuitability", "industryRelevance", "timeToValue"]
-              }
+}`
+    }, audit);
+
+    const { data } = await generateValidatedJson({
+      task: "contextual-recommendations",
+      prompt,
+      schema: {
+        type: "object",
+        properties: {
+          recommendations: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                type: { type: "string", enum: ["tool", "process", "architecture", "security"] },
+                priority: { type: "string", enum: ["low", "medium", "high", "urgent"] },
+                title: { type: "string" },
+                description: { type: "string" },
+                reasoning: { type: "string" },
+                suggestedTools: { type: "array", items: { type: "string" } },
+                budgetImpact: { type: "number" },
+                implementationEffort: { type: "string", enum: ["low", "medium", "high"] },
+                teamSuitability: { type: "number" },
+                industryRelevance: { type: "number" },
+                timeToValue: { type: "string" },
+                dependencies: { type: "array", items: { type: "string" } },
+                alternatives: { type: "array", items: { type: "string" } },
+                docReferences: { type: "array", items: { type: "integer" } }
+              },
+              required: ["type", "priority", "title", "description", "reasoning", "implementationEffort", "teamSuitability", "industryRelevance", "timeToValue"]
             }
-          },
-          required: ["recommendations"]
-        }
-      },
-      contents: prompt,
-    });
-
-    const rawJson = response.text;
-    
-    if (rawJson) {
-      const data = JSON.parse(rawJson);
-      return data.recommendations || [];
-    } else {
-      throw new Error("Empty response from AI model");
-    }
+          }
+        },
+        required: ["recommendations"]
+      }
+    }, recommendationsResponseSchema, audit);
+
+    // Suggestions are resolved against the catalog; names the model made up are dropped
+    const toolsByName = new Map(availableTools.map(tool => [tool.name.toLowerCase(), tool]));
+    return data.recommendations.map(({ docReferences, ...recommendation }) => ({
+      ...recommendation,
+      suggestedTools: recommendation.suggestedTools
+        .map(name => toolsByName.get(name.trim().toLowerCase()))
+        .filter((tool): tool is Tool => !!tool),
+      relatedDocs: resolveDocCitations(docReferences, docs).map(toDocReference)
+    }));
   } catch (error) {
     console.error("Failed to get contextual recommendations:", error);
-    throw new Error(`Failed to get contextual recommendations: ${error}`);
+    throw new Error(`Failed to get contextual recommendations: ${error}`, { cause: error });
   }
 }
 
@@ -522,88 +437,40 @@ export interface TaskGenerationResult {
     missingTools: string[];
     additionalCosts: number;
   };
+  validation?: AIValidationOutcome; // Unset for heuristic results; FallbackResult.validation holds the rejected AI attempt
 }
 
-export async function generateProjectTasks(
+async function buildProjectTasksRequest(
   idea: SavedIdea,
   userContext: UserAIContext,
   userStack: Tool[],
-  parameters: TaskGenerationParameters
-): Promise<TaskGenerationResult> {
-  try {
-    const stackText = userStack.map(t => `${t.name} (${t.category})`).join(", ");
-    const budgetText = userContext.monthlyBudget ? `Monthly budget: $${userContext.monthlyBudget}\n` : "";
-    const teamText = userContext.teamSize ? `Team size: ${userContext.teamSize}\n` : "";
-    const industryText = userContext.industry ? `Industry: ${userContext.industry}\n` : "";
-    const levelText = userContext.technicalLevel ? `Technical level: ${userContext.technicalLevel}\n` : "";
-    const timeframeText = parameters.targetTimeframe ? `Target timeframe: ${parameters.targetTimeframe}\n` : "";
-    const complexityText = parameters.complexityLevel ? `Complexity level: ${parameters.complexityLevel}\n` : "";
-    const focusAreasText = parameters.focusAreas ? `Focus areas: ${parameters.focusAreas.join(", ")}\n` : "";
-    
-    const prompt = `You are an expert project manager and technical architect specializing in breaking down business ideas into detailed, actionable project tasks.
-
-Business Idea:
-Title: ${idea.title}
-Description: ${idea.description}
-Monetization: ${idea.monetization}
-Target Audience: ${idea.targetAudience || "Not specified"}
-Implementation Complexity: ${idea.implementationComplexity || "medium"}
-Estimated Cost: $${idea.estimatedCost || 0}
-Time to Market: ${idea.timeToMarket || "Not specified"}
-
-User Context:
-${teamText}${industryText}${levelText}${budgetText}${timeframeText}${complexityText}${focusAreasText}
-
-Current Tech Stack: ${stackText}
-
-Task Generation Parameters:
-- Include DevOps: ${parameters.includeDevOps !== false}
-- Include Testing: ${parameters.includeTesting !== false}
-- Include Documentation: ${parameters.includeDocumentation !== false}
-
-Generate a comprehensive project breakdown with 15-25 detailed tasks that transform this business idea into an implementable project. Each task should:
-1. Be specific and actionable with clear deliverables
-2. Include realistic time estimates based on team size and technical level
-3. Align with the user's tech stack and suggest specific tools
-4. Have clear acceptance criteria and technical requirements
-5. Be properly categorized and prioritized
-6. Include dependencies on other tasks
-
-Task Categories to use:
-- setup (project initialization, environment setup)
-- frontend (UI/UX, components, pages, styling)
-- backend (APIs, business logic, server setup)
-- database (schema design, migrations, data modeling)
-- auth (authentication, authorization, user management)
-- testing (unit tests, integration tests, QA)
-- docs (technical documentation, user guides)
-- devops (deployment, CI/CD, monitoring)
-- integration (third-party APIs, payment systems)
-
-For each task, provide:
-1. Title (clear, action-oriented)
-2. Detailed description (what exactly needs to be done)
-3. Category (from the list above)
-4. Priority (low/medium/high/urgent)
-5. Complexity (low/medium/high)
-6. Estimated hours (realistic based on user's technical level)
-7. Estimated days (accounting for part-time work)
-8. Technical requirements (specific technologies, patterns)
-9. Acceptance criteria (clear success criteria)
-10. Suggested tools (from user's current stack)
-11. Required tools (new tools that must be added)
-12. Cost estimate (additional costs for tools/services)
-13. Resource requirements (skills, team members needed)
-14. Dependencies (task titles this depends on)
-
-Also provide project-level analysis:
-1. Total project duration and cost
-2. Overall complexity assessment
-3. Key milestones and critical path
-4. Risk assessment
-5. Stack analysis and tool gaps
-
-Respond with JSON in this exact format:
+  parameters: TaskGenerationParameters,
+  audit?: AIInvocationContext
+): Promise<LLMJsonRequest> {
+  const ideaText = [
+    `Title: ${idea.title}`,
+    `Description: ${idea.description}`,
+    `Monetization: ${idea.monetization}`,
+    `Target Audience: ${idea.targetAudience || "Not specified"}`,
+    `Implementation Complexity: ${idea.implementationComplexity || "medium"}`,
+    `Estimated Cost: $${idea.estimatedCost || 0}`,
+    `Time to Market: ${idea.timeToMarket || "Not specified"}`,
+  ].join("\n");
+  const parametersText = [
+    parameters.targetTimeframe && `- Target timeframe: ${parameters.targetTimeframe}`,
+    parameters.complexityLevel && `- Complexity level: ${parameters.complexityLevel}`,
+    parameters.focusAreas && `- Focus areas: ${parameters.focusAreas.join(", ")}`,
+    `- Include DevOps: ${parameters.includeDevOps !== false}`,
+    `- Include Testing: ${parameters.includeTesting !== false}`,
+    `- Include Documentation: ${parameters.includeDocumentation !== false}`,
+  ].filter(Boolean).join("\n");
+
+  const prompt = await renderPrompt("project-tasks", {
+    idea: ideaText,
+    userContext: formatUserContext(userContext),
+    stack: userStack.map(t => `${t.name} (${t.category})`).join(", "),
+    parameters: parametersText,
+    responseFormat: `Respond with JSON in this exact format:
 {
   "tasks": [
     {
@@ -646,102 +513,182 @@ Respond with JSON in this exact format:
     "missingTools": ["tool1", "tool2"],
     "additionalCosts": 200
   }
-}`;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: "object",
-          properties: {
-            tasks: {
-              type: "array",
-              items: {
+}`
+  }, audit);
+
+  return {
+    task: "project-tasks",
+    prompt,
+    schema: {
+      type: "object",
+      properties: {
+        tasks: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              title: { type: "string" },
+              description: { type: "string" },
+              category: { type: "string" },
+              priority: { type: "string", enum: ["low", "medium", "high", "urgent"] },
+              complexity: { type: "string", enum: ["low", "medium", "high"] },
+              estimatedHours: { type: "number" },
+              estimatedDays: { type: "number" },
+              technicalRequirements: { type: "array", items: { type: "string" } },
+              acceptanceCriteria: { type: "array", items: { type: "string" } },
+              suggestedTools: { type: "array", items: { type: "string" } },
+              requiredTools: { type: "array", items: { type: "string" } },
+              costEstimate: { type: "number" },
+              resourceRequirements: {
                 type: "object",
                 properties: {
-                  title: { type: "string" },
-                  description: { type: "string" },
-                  category: { type: "string" },
-                  priority: { type: "string" },
-                  complexity: { type: "string" },
-                  estimatedHours: { type: "number" },
-                  estimatedDays: { type: "number" },
-                  technicalRequirements: { type: "array", items: { type: "string" } },
-                  acceptanceCriteria: { type: "array", items: { type: "string" } },
-                  suggestedTools: { type: "array", items: { type: "string" } },
-                  requiredTools: { type: "array", items: { type: "string" } },
-                  costEstimate: { type: "number" },
-                  resourceRequirements: {
-                    type: "object",
-                    properties: {
-                      skillsNeeded: { type: "array", items: { type: "string" } },
-                      teamMembers: { type: "number" },
-                      externalResources: { type: "array", items: { type: "string" } }
-                    }
-                  },
-                  dependencies: { type: "array", items: { type: "string" } }
-                },
-                required: ["title", "description", "category", "priority", "complexity", "estimatedHours", "estimatedDays", "technicalRequirements", "acceptanceCriteria", "suggestedTools", "requiredTools", "costEstimate", "resourceRequirements", "dependencies"]
-              }
-            },
-            projectMetadata: {
-              type: "object",
-              properties: {
-                totalDuration: { type: "string" },
-                estimatedCost: { type: "number" },
-                complexity: { type: "string" },
-                keyMilestones: { type: "array", items: { type: "string" } },
-                criticalPath: { type: "array", items: { type: "string" } },
-                riskAssessment: {
-                  type: "object",
-                  properties: {
-                    technical: { type: "string" },
-                    budget: { type: "string" },
-                    timeline: { type: "string" },
-                    team: { type: "string" }
-                  }
+                  skillsNeeded: { type: "array", items: { type: "string" } },
+                  teamMembers: { type: "number" },
+                  externalResources: { type: "array", items: { type: "string" } }
                 }
-              }
+              },
+              dependencies: { type: "array", items: { type: "string" } }
             },
-            stackAnalysis: {
+            required: ["title", "description", "category", "priority", "complexity", "estimatedHours", "estimatedDays", "technicalRequirements", "acceptanceCriteria", "suggestedTools", "requiredTools", "costEstimate", "resourceRequirements", "dependencies"]
+          }
+        },
+        projectMetadata: {
+          type: "object",
+          properties: {
+            totalDuration: { type: "string" },
+            estimatedCost: { type: "number" },
+            complexity: { type: "string", enum: ["low", "medium", "high"] },
+            keyMilestones: { type: "array", items: { type: "string" } },
+            criticalPath: { type: "array", items: { type: "string" } },
+            riskAssessment: {
               type: "object",
               properties: {
-                toolsInStack: { type: "number" },
-                toolsNeeded: { type: "number" },
-                missingTools: { type: "array", items: { type: "string" } },
-                additionalCosts: { type: "number" }
+                technical: { type: "string" },
+                budget: { type: "string" },
+                timeline: { type: "string" },
+                team: { type: "string" }
               }
             }
-          },
-          required: ["tasks", "projectMetadata", "stackAnalysis"]
+          }
+        },
+        stackAnalysis: {
+          type: "object",
+          properties: {
+            toolsInStack: { type: "number" },
+            toolsNeeded: { type: "number" },
+            missingTools: { type: "array", items: { type: "string" } },
+            additionalCosts: { type: "number" }
+          }
         }
       },
-      contents: prompt,
-    });
+      required: ["tasks", "projectMetadata", "stackAnalysis"]
+    }
+  };
+}
 
-    const rawJson = response.text;
-    
-    if (rawJson) {
-      const data = JSON.parse(rawJson);
-      return data;
-    } else {
+export async function generateProjectTasks(
+  idea: SavedIdea,
+  userContext: UserAIContext,
+  userStack: Tool[],
+  parameters: TaskGenerationParameters,
+  audit?: AIInvocationContext
+): Promise<TaskGenerationResult> {
+  try {
+    const { data, validation } = await generateValidatedJson(
+      await buildProjectTasksRequest(idea, userContext, userStack, parameters, audit),
+      taskGenerationResultSchema,
+      audit
+    );
+    return { ...data, validation };
+  } catch (error) {
+    console.error("Failed to generate project tasks:", error);
+    throw new Error(`Failed to generate project tasks: ${error}`, { cause: error });
+  }
+}
+
+// Same generation as generateProjectTasks, handing each task to onTask as soon as the model has written it
+export async function streamProjectTasks(
+  idea: SavedIdea,
+  userContext: UserAIContext,
+  userStack: Tool[],
+  parameters: TaskGenerationParameters,
+  onTask: (task: GeneratedTask) => Promise<void> | void,
+  signal?: AbortSignal,
+  audit?: AIInvocationContext
+): Promise<TaskGenerationResult> {
+  try {
+    const request = await buildProjectTasksRequest(idea, userContext, userStack, parameters, audit);
+    const parser = new JsonArrayStreamParser("tasks");
+    const issues: string[] = [];
+    const acceptedTasks: GeneratedTask[] = [];
+    let taskIndex = 0;
+
+    // Tasks are saved as they arrive, so a re-ask is not possible; malformed ones are skipped instead
+    const acceptTask = async (task: unknown) => {
+      const index = taskIndex++;
+      const parsed = generatedTaskSchema.safeParse(task);
+      if (!parsed.success) {
+        issues.push(...formatIssues(parsed.error, ["tasks", index]));
+        return;
+      }
+      acceptedTasks.push(parsed.data);
+      await onTask(parsed.data);
+    };
+
+    for await (const chunk of streamAuditedJson(request, audit, signal)) {
+      for (const task of parser.push(chunk)) {
+        await acceptTask(task);
+      }
+    }
+    signal?.throwIfAborted();
+
+    const rawJson = stripCodeFence(parser.text);
+    if (!rawJson) {
       throw new Error("Empty response from AI model");
     }
+
+    let data: { tasks?: unknown } = {};
+    try {
+      data = JSON.parse(rawJson);
+    } catch (error) {
+      issues.push(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    // Tasks the incremental parser missed, e.g. when "tasks" is not a top-level key as expected
+    for (const task of (Array.isArray(data.tasks) ? data.tasks : []).slice(parser.itemCount)) {
+      await acceptTask(task);
+    }
+
+    const failedValidation: AIValidationOutcome = { valid: false, attempts: 1, repaired: false, issues };
+    if (acceptedTasks.length === 0) {
+      throw new AIValidationError(
+        `AI response contained no valid tasks${issues.length > 0 ? `: ${issues.slice(0, 3).join("; ")}` : ""}`,
+        failedValidation
+      );
+    }
+
+    // Summary sections with the wrong shape are replaced by the schema defaults
+    let summary = taskGenerationResultSchema.safeParse({ ...data, tasks: acceptedTasks });
+    if (!summary.success) {
+      issues.push(...formatIssues(summary.error));
+      summary = taskGenerationResultSchema.safeParse({ tasks: acceptedTasks });
+    }
+    if (!summary.success) {
+      throw new AIValidationError(`AI response failed validation: ${formatIssues(summary.error).slice(0, 3).join("; ")}`, failedValidation);
+    }
+
+    return { ...summary.data, validation: { valid: issues.length === 0, attempts: 1, repaired: false, issues } };
   } catch (error) {
-    console.error("Failed to generate project tasks:", error);
-    throw new Error(`Failed to generate project tasks: ${error}`);
+    if (signal?.aborted) throw error;
+    console.error("Failed to stream project tasks:", error);
+    throw new Error(`Failed to stream project tasks: ${error}`, { cause: error });
   }
 }
 
 export async function optimizeTaskSequencing(
   tasks: GeneratedTask[],
-  userContext: UserAIContext
-): Promise<{
-  optimizedOrder: string[];
-  timeline: TaskTimeline;
-  recommendations: string[];
-}> {
+  userContext: UserAIContext,
+  audit?: AIInvocationContext
+): Promise<TaskSequencing> {
   try {
     const tasksData = tasks.map(t => ({
       title: t.title,
@@ -752,32 +699,10 @@ export async function optimizeTaskSequencing(
       dependencies: t.dependencies
     }));
     
-    const teamText = userContext.teamSize ? `Team size: ${userContext.teamSize}\n` : "";
-    const levelText = userContext.technicalLevel ? `Technical level: ${userContext.technicalLevel}\n` : "";
-    
-    const prompt = `You are an expert project manager specializing in task sequencing and timeline optimization.
-
-User Context:
-${teamText}${levelText}
-
-Tasks to sequence:
-${JSON.stringify(tasksData, null, 2)}
-
-Analyze these tasks and create an optimized implementation sequence that:
-1. Respects all dependencies between tasks
-2. Maximizes parallel work opportunities
-3. Prioritizes high-impact tasks and critical path items
-4. Groups related tasks for efficiency
-5. Considers team capacity and skill distribution
-6. Balances workload across project phases
-7. Identifies potential bottlenecks and risks
-
-Provide:
-1. Optimized task order (array of task titles)
-2. Project timeline with phases and parallel tracks
-3. Recommendations for improving the sequence
-
-Respond with JSON in this exact format:
+    const prompt = await renderPrompt("task-sequencing", {
+      userContext: formatUserContext(userContext),
+      tasks: JSON.stringify(tasksData, null, 2),
+      responseFormat: `Respond with JSON in this exact format:
 {
   "optimizedOrder": ["task_title_1", "task_title_2"],
   "timeline": {
@@ -807,80 +732,72 @@ Respond with JSON in this exact format:
     "Consider parallelizing tasks X and Y",
     "Critical bottleneck at task Z"
   ]
-}`;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: "object",
-          properties: {
-            optimizedOrder: { type: "array", items: { type: "string" } },
-            timeline: {
-              type: "object",
-              properties: {
-                phases: {
-                  type: "array",
-                  items: {
-                    type: "object",
-                    properties: {
-                      name: { type: "string" },
-                      duration: { type: "string" },
-                      tasks: { type: "array", items: { type: "string" } },
-                      parallelTracks: {
-                        type: "array",
-                        items: {
-                          type: "object",
-                          properties: {
-                            name: { type: "string" },
-                            tasks: { type: "array", items: { type: "string" } }
-                          }
+}`
+    }, audit);
+
+    const { data } = await generateValidatedJson({
+      task: "task-sequencing",
+      prompt,
+      schema: {
+        type: "object",
+        properties: {
+          optimizedOrder: { type: "array", items: { type: "string" } },
+          timeline: {
+            type: "object",
+            properties: {
+              phases: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    name: { type: "string" },
+                    duration: { type: "string" },
+                    tasks: { type: "array", items: { type: "string" } },
+                    parallelTracks: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          name: { type: "string" },
+                          tasks: { type: "array", items: { type: "string" } }
                         }
                       }
                     }
                   }
-                },
-                criticalPath: { type: "array", items: { type: "string" } },
-                totalDuration: { type: "string" },
-                milestones: {
-                  type: "array",
-                  items: {
-                    type: "object",
-                    properties: {
-                      name: { type: "string" },
-                      tasks: { type: "array", items: { type: "string" } }
-                    }
+                }
+              },
+              criticalPath: { type: "array", items: { type: "string" } },
+              totalDuration: { type: "string" },
+              milestones: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    name: { type: "string" },
+                    tasks: { type: "array", items: { type: "string" } }
                   }
                 }
               }
-            },
-            recommendations: { type: "array", items: { type: "string" } }
+            }
           },
-          required: ["optimizedOrder", "timeline", "recommendations"]
-        }
-      },
-      contents: prompt,
-    });
+          recommendations: { type: "array", items: { type: "string" } }
+        },
+        required: ["optimizedOrder", "timeline", "recommendations"]
+      }
+    }, taskSequencingSchema, audit);
 
-    const rawJson = response.text;
-    
-    if (rawJson) {
-      const data = JSON.parse(rawJson);
-      return data;
-    } else {
-      throw new Error("Empty response from AI model");
-    }
+    return data;
   } catch (error) {
     console.error("Failed to optimize task sequencing:", error);
-    throw new Error(`Failed to optimize task sequencing: ${error}`);
+    throw new Error(`Failed to optimize task sequencing: ${error}`, { cause: error });
   }
 }
 
 export async function generateTaskRefinements(
   tasks: GeneratedTask[],
   feedback: string,
-  userContext: UserAIContext
+  userContext: UserAIContext,
+  audit?: AIInvocationContext
 ): Promise<{
   refinedTasks: GeneratedTask[];
   changes: Array<{
@@ -890,34 +807,11 @@ export async function generateTaskRefinements(
   }>;
 }> {
   try {
-    const teamText = userContext.teamSize ? `Team size: ${userContext.teamSize}\n` : "";
-    const levelText = userContext.technicalLevel ? `Technical level: ${userContext.technicalLevel}\n` : "";
-    
-    const prompt = `You are an expert project manager specializing in task refinement and optimization.
-
-User Context:
-${teamText}${levelText}
-
-Current Tasks:
-${JSON.stringify(tasks, null, 2)}
-
-User Feedback:
-${feedback}
-
-Based on the user feedback, refine the task list by:
-1. Modifying existing tasks to better meet requirements
-2. Adding missing tasks that were identified
-3. Removing unnecessary or redundant tasks
-4. Splitting complex tasks into smaller, manageable pieces
-5. Merging related tasks that can be done together
-6. Adjusting estimates, priorities, or dependencies
-7. Improving task descriptions and acceptance criteria
-
-Provide:
-1. Complete refined task list
-2. Summary of all changes made
-
-Respond with JSON in this exact format:
+    const prompt = await renderPrompt("task-refinements", {
+      userContext: formatUserContext(userContext),
+      tasks: JSON.stringify(tasks, null, 2),
+      feedback,
+      responseFormat: `Respond with JSON in this exact format:
 {
   "refinedTasks": [
     {
@@ -948,72 +842,344 @@ Respond with JSON in this exact format:
       "description": "Updated estimates based on feedback"
     }
   ]
-}`;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: "object",
-          properties: {
-            refinedTasks: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  title: { type: "string" },
-                  description: { type: "string" },
-                  category: { type: "string" },
-                  priority: { type: "string" },
-                  complexity: { type: "string" },
-                  estimatedHours: { type: "number" },
-                  estimatedDays: { type: "number" },
-                  technicalRequirements: { type: "array", items: { type: "string" } },
-                  acceptanceCriteria: { type: "array", items: { type: "string" } },
-                  suggestedTools: { type: "array", items: { type: "string" } },
-                  requiredTools: { type: "array", items: { type: "string" } },
-                  costEstimate: { type: "number" },
-                  resourceRequirements: {
-                    type: "object",
-                    properties: {
-                      skillsNeeded: { type: "array", items: { type: "string" } },
-                      teamMembers: { type: "number" },
-                      externalResources: { type: "array", items: { type: "string" } }
-                    }
-                  },
-                  dependencies: { type: "array", items: { type: "string" } }
-                }
+}`
+    }, audit);
+
+    const { data } = await generateValidatedJson({
+      task: "task-refinements",
+      prompt,
+      schema: {
+        type: "object",
+        properties: {
+          refinedTasks: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                title: { type: "string" },
+                description: { type: "string" },
+                category: { type: "string" },
+                priority: { type: "string", enum: ["low", "medium", "high", "urgent"] },
+                complexity: { type: "string", enum: ["low", "medium", "high"] },
+                estimatedHours: { type: "number" },
+                estimatedDays: { type: "number" },
+                technicalRequirements: { type: "array", items: { type: "string" } },
+                acceptanceCriteria: { type: "array", items: { type: "string" } },
+                suggestedTools: { type: "array", items: { type: "string" } },
+                requiredTools: { type: "array", items: { type: "string" } },
+                costEstimate: { type: "number" },
+                resourceRequirements: {
+                  type: "object",
+                  properties: {
+                    skillsNeeded: { type: "array", items: { type: "string" } },
+                    teamMembers: { type: "number" },
+                    externalResources: { type: "array", items: { type: "string" } }
+                  }
+                },
+                dependencies: { type: "array", items: { type: "string" } }
               }
-            },
-            changes: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  taskTitle: { type: "string" },
-                  changeType: { type: "string" },
-                  description: { type: "string" }
-                }
+            }
+          },
+          changes: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                taskTitle: { type: "string" },
+                changeType: { type: "string", enum: ["modified", "added", "removed", "split", "merged"] },
+                description: { type: "string" }
               }
             }
+          }
+        },
+        required: ["refinedTasks", "changes"]
+      }
+    }, taskRefinementsSchema, audit);
+
+    return data;
+  } catch (error) {
+    console.error("Failed to generate task refinements:", error);
+    throw new Error(`Failed to generate task refinements: ${error}`, { cause: error });
+  }
+}
+
+// Earlier turns of a refinement thread, oldest first
+export interface RefinementTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+const MAX_REFINEMENT_TURNS = 12;
+
+function formatConversation(history: RefinementTurn[]): string {
+  const conversation = history
+    .slice(-MAX_REFINEMENT_TURNS)
+    .map(turn => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.content}`)
+    .join("\n");
+  return conversation || "None yet";
+}
+
+const refinementTaskSchema: LLMJsonRequest["schema"] = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    title: { type: "string" },
+    description: { type: "string" },
+    category: { type: "string" },
+    priority: { type: "string", enum: ["low", "medium", "high", "urgent"] },
+    complexity: { type: "string", enum: ["low", "medium", "high"] },
+    estimatedHours: { type: "number" },
+    estimatedDays: { type: "number" },
+    technicalRequirements: { type: "array", items: { type: "string" } },
+    acceptanceCriteria: { type: "array", items: { type: "string" } },
+    suggestedTools: { type: "array", items: { type: "string" } },
+    requiredTools: { type: "array", items: { type: "string" } },
+    costEstimate: { type: "number" },
+    resourceRequirements: {
+      type: "object",
+      properties: {
+        skillsNeeded: { type: "array", items: { type: "string" } },
+        teamMembers: { type: "number" },
+        externalResources: { type: "array", items: { type: "string" } }
+      }
+    }
+  },
+  required: ["title", "description", "category", "priority", "complexity", "estimatedHours", "estimatedDays"]
+};
+
+export async function generateIdeaRefinement(
+  idea: RefinedIdea,
+  tasks: Array<Omit<RefinedTask, "dependencies"> & { id: string }>,
+  history: RefinementTurn[],
+  message: string,
+  userContext: UserAIContext,
+  audit?: AIInvocationContext
+): Promise<IdeaRefinementReply> {
+  try {
+    const hasTasks = tasks.length > 0;
+    const prompt = await renderPrompt("idea-refinement", {
+      subject: hasTasks ? "a saved business idea and its project tasks" : "a saved business idea",
+      idea: JSON.stringify(idea, null, 2),
+      tasks: hasTasks ? JSON.stringify(tasks, null, 2) : "No tasks have been generated for this idea.",
+      userContext: formatUserContext(userContext),
+      conversation: formatConversation(history),
+      message,
+      changeInstructions: `If the request changes the idea, include the complete updated idea in "idea".
+${hasTasks ? `If the request changes the tasks, include the complete updated task list in "tasks": keep the "id" of every task you keep, omit "id" for new tasks, and leave out tasks that should be removed.
+` : ""}Leave out "idea"${hasTasks ? " and \"tasks\"" : ""} when nothing needs to change.`,
+      responseFormat: `Respond with JSON in this exact format:
+{
+  "reply": "Replaced Firebase with Supabase and lowered the estimated cost accordingly.",
+  "idea": {
+    "title": "Idea Title",
+    "description": "Updated description...",
+    "monetization": "Subscription model",
+    "tags": ["tag1"],
+    "toolsUsed": ["Supabase"],
+    "targetAudience": "Small businesses",
+    "implementationComplexity": "medium",
+    "estimatedCost": 500,
+    "timeToMarket": "3-6 months"
+  }${hasTasks ? `,
+  "tasks": [
+    {
+      "id": "existing-task-id",
+      "title": "Task Title",
+      "description": "Detailed task description...",
+      "category": "backend",
+      "priority": "high",
+      "complexity": "medium",
+      "estimatedHours": 8,
+      "estimatedDays": 1,
+      "technicalRequirements": ["requirement1"],
+      "acceptanceCriteria": ["criteria1"],
+      "suggestedTools": ["tool1"],
+      "requiredTools": ["new_tool1"],
+      "costEstimate": 50,
+      "resourceRequirements": { "skillsNeeded": ["skill1"] }
+    }
+  ]` : ""}
+}`
+    }, audit);
+
+    const { data } = await generateValidatedJson({
+      task: "idea-refinement",
+      prompt,
+      schema: {
+        type: "object",
+        properties: {
+          reply: { type: "string" },
+          idea: {
+            type: "object",
+            properties: {
+              title: { type: "string" },
+              description: { type: "string" },
+              monetization: { type: "string" },
+              tags: { type: "array", items: { type: "string" } },
+              toolsUsed: { type: "array", items: { type: "string" } },
+              targetAudience: { type: "string" },
+              implementationComplexity: { type: "string", enum: ["low", "medium", "high"] },
+              estimatedCost: { type: "number" },
+              timeToMarket: { type: "string" }
+            },
+            required: ["title", "description"]
           },
-          required: ["refinedTasks", "changes"]
-        }
-      },
-      contents: prompt,
+          ...(hasTasks ? { tasks: { type: "array" as const, items: refinementTaskSchema } } : {})
+        },
+        required: ["reply"]
+      }
+    }, ideaRefinementReplySchema, audit);
+
+    return data;
+  } catch (error) {
+    console.error("Failed to generate idea refinement:", error);
+    throw new Error(`Failed to generate idea refinement: ${error}`, { cause: error });
+  }
+}
+
+export async function generateRoadmapRefinement(
+  roadmap: RefinedRoadmap,
+  history: RefinementTurn[],
+  message: string,
+  userContext: UserAIContext,
+  audit?: AIInvocationContext
+): Promise<RoadmapRefinementReply> {
+  try {
+    const prompt = await renderPrompt("roadmap-refinement", {
+      roadmap: JSON.stringify(roadmap, null, 2),
+      userContext: formatUserContext(userContext),
+      conversation: formatConversation(history),
+      message,
+      responseFormat: `Respond with JSON in this exact format:
+{
+  "reply": "Halved the budget by deferring the observability phase.",
+  "roadmap": {
+    "title": "Roadmap Title",
+    "description": "Updated description...",
+    "currentStack": ["tool1"],
+    "targetStack": ["tool1", "tool2"],
+    "timeline": [
+      {
+        "phase": 1,
+        "title": "Phase Title",
+        "description": "Phase description",
+        "tools": ["tool2"],
+        "duration": "4 weeks",
+        "cost": 200,
+        "prerequisites": ["prerequisite1"],
+        "deliverables": ["deliverable1"],
+        "risks": ["risk1"],
+        "learningResources": ["resource1"]
+      }
+    ],
+    "totalDuration": "3 months",
+    "estimatedCost": 600,
+    "complexity": "medium",
+    "priority": "high"
+  }
+}`
+    }, audit);
+
+    const { data } = await generateValidatedJson({
+      task: "roadmap-refinement",
+      prompt,
+      schema: {
+        type: "object",
+        properties: {
+          reply: { type: "string" },
+          roadmap: {
+            type: "object",
+            properties: {
+              title: { type: "string" },
+              description: { type: "string" },
+              currentStack: { type: "array", items: { type: "string" } },
+              targetStack: { type: "array", items: { type: "string" } },
+              timeline: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    phase: { type: "number" },
+                    title: { type: "string" },
+                    description: { type: "string" },
+                    tools: { type: "array", items: { type: "string" } },
+                    duration: { type: "string" },
+                    cost: { type: "number" },
+                    prerequisites: { type: "array", items: { type: "string" } },
+                    deliverables: { type: "array", items: { type: "string" } },
+                    risks: { type: "array", items: { type: "string" } },
+                    learningResources: { type: "array", items: { type: "string" } }
+                  },
+                  required: ["phase", "title", "duration"]
+                }
+              },
+              totalDuration: { type: "string" },
+              estimatedCost: { type: "number" },
+              complexity: { type: "string", enum: ["low", "medium", "high"] },
+              priority: { type: "string", enum: ["low", "medium", "high", "urgent"] }
+            },
+            required: ["title", "description", "timeline", "totalDuration", "complexity", "priority"]
+          }
+        },
+        required: ["reply"]
+      }
+    }, roadmapRefinementReplySchema, audit);
+
+    return data;
+  } catch (error) {
+    console.error("Failed to generate roadmap refinement:", error);
+    throw new Error(`Failed to generate roadmap refinement: ${error}`, { cause: error });
+  }
+}
+
+export interface DocsAnswerResult {
+  answer: string;
+  citations: DocPassage[]; // The passages the answer cites; [n] in the answer refers to the n-th one
+}
+
+// Answers a question from retrieved documentation passages only, citing them by number
+export async function answerFromDocs(
+  question: string,
+  passages: DocPassage[],
+  userContext: UserAIContext,
+  audit?: AIInvocationContext
+): Promise<DocsAnswerResult> {
+  try {
+    const prompt = await renderPrompt("docs-answer", {
+      userContext: formatUserContext(userContext),
+      docs: formatDocExcerpts(passages),
+      question,
+      responseFormat: `Respond with JSON in this exact format:
+{
+  "answer": "Markdown answer with [1] style citations",
+  "citations": [1]
+}`
+    }, audit);
+
+    const { data } = await generateValidatedJson({
+      task: "docs-answer",
+      prompt,
+      schema: {
+        type: "object",
+        properties: {
+          answer: { type: "string" },
+          citations: { type: "array", items: { type: "integer" } }
+        },
+        required: ["answer", "citations"]
+      }
+    }, docsAnswerSchema, audit);
+
+    // Citations come back in answer order, so the [n] markers are renumbered to match
+    const markers = Array.from(data.answer.matchAll(/\[(\d+)\]/g), match => Number(match[1]));
+    const citations = resolveDocCitations([...markers, ...data.citations], passages);
+    const answer = data.answer.replace(/\[(\d+)\]/g, (marker, number) => {
+      const position = citations.indexOf(passages[Number(number) - 1]);
+      return position >= 0 ? `[${position + 1}]` : marker;
     });
 
-    const rawJson = response.text;
-    
-    if (rawJson) {
-      const data = JSON.parse(rawJson);
-      return data;
-    } else {
-      throw new Error("Empty response from AI model");
-    }
+    return { answer, citations };
   } catch (error) {
-    console.error("Failed to generate task refinements:", error);
-    throw new Error(`Failed to generate task refinements: ${error}`);
+    console.error("Failed to answer from documentation:", error);
+    throw new Error(`Failed to answer from documentation: ${error}`, { cause: error });
   }
 }
@@ -1,4 +1,30 @@
-import type { DetectionPattern, InsertDetectedTool, Tool } from "@shared/schema";
+import { promises as fs } from "fs";
+import path from "path";
+import type { DetectionPattern, InsertDetectedTool, PackageEcosystem, RepositoryWorkspaceSummary, Tool } from "@shared/schema";
+import { normalizeSpdxLicense } from "./licensing/license-policy";
+import { listArchiveEntries } from "./repository-analysis/archive-reader";
+import { mergeDetectionPatterns } from "./repository-analysis/detection-rules";
+import {
+  extractInfrastructureResources,
+  groupInfrastructureByService,
+  isInfrastructureFilePath,
+} from "./repository-analysis/infrastructure-costs";
+import {
+  isLockfile,
+  normalizePackageName,
+  parseLockfile,
+  readDeclaredDependencies,
+  type LockedDependency,
+  type ParsedLockfile,
+} from "./repository-analysis/lockfile-parser";
+import {
+  detectWorkspaces,
+  findProjectForPath,
+  isIgnoredPath,
+  WORKSPACE_CONFIG_FILES,
+  type WorkspaceLayout,
+  type WorkspaceProject,
+} from "./repository-analysis/workspace-detector";
 
 interface RepositoryFile {
   name: string;
@@ -7,16 +33,70 @@ interface RepositoryFile {
   size: number;
 }
 
-interface AnalysisResult {
+interface RepositoryTreeEntry {
+  path: string;
+  size: number;
+}
+
+interface CollectedRepositoryFiles {
+  files: RepositoryFile[];
+  workspaces: WorkspaceLayout;
+}
+
+interface DependencyIndex {
+  lockfiles: ParsedLockfile[];
+  declared: Map<PackageEcosystem, Set<string>>; // Normalized names declared in any manifest
+}
+
+interface LockedPackageMatch {
+  lockfile: ParsedLockfile;
+  dependency: LockedDependency;
+}
+
+export interface AnalysisOptions {
+  customPatterns?: DetectionPattern[]; // Compiled user-defined rules, merged with the built-ins
+}
+
+export interface AnalysisResult {
   detectedTools: InsertDetectedTool[];
   summary: {
     totalTools: number;
     totalEstimatedCost: number;
     confidenceScore: number;
     categories: string[];
+    workspaces?: RepositoryWorkspaceSummary;
   };
 }
 
+// Key files to check for analysis, relative to the repository root
+const KEY_FILES = [
+  "package.json", "requirements.txt", "Gemfile", "composer.json",
+  "go.mod", "Cargo.toml", "pom.xml", "build.gradle",
+  "Dockerfile", "docker-compose.yml", "docker-compose.yaml",
+  "vercel.json", "netlify.toml", "railway.json", "render.yaml",
+  "tailwind.config.js", "tailwind.config.ts", "next.config.js",
+  "nuxt.config.js", "vue.config.js", "angular.json", "tsconfig.json",
+  ".eslintrc", ".eslintrc.js", "jest.config.js", "cypress.json",
+  "main.tf", "variables.tf", "terraform.tf",
+  "pyproject.toml", "Pipfile", "go.sum",
+  "package-lock.json", "yarn.lock", "pnpm-lock.yaml", "poetry.lock",
+  "Pipfile.lock", "Gemfile.lock", "Cargo.lock"
+];
+
+const WORKFLOWS_DIRECTORY = ".github/workflows";
+
+// Manifests larger than this are skipped when reading archives or local checkouts
+const MAX_ANALYZED_FILE_BYTES = 2 * 1024 * 1024;
+const MAX_LOCKFILE_BYTES = 25 * 1024 * 1024; // Lockfiles of large monorepos easily exceed 2MB
+
+// Tools only found in a lockfile were pulled in by another dependency
+const TRANSITIVE_CONFIDENCE_FACTOR = 0.6;
+const UNMATCHED_DIRECT_CONFIDENCE_FACTOR = 0.9;
+
+// Upper bounds for monorepo walks so a huge tree cannot exhaust the GitHub rate limit
+const MAX_TREE_ENTRIES = 100000;
+const MAX_ANALYZED_FILES = 400;
+
 export class GitHubRepositoryAnalyzer {
   private detectionPatterns: DetectionPattern[] = [
     // Frontend Frameworks & Libraries
@@ -81,6 +161,7 @@ export class GitHubRepositoryAnalyzer {
       category: "Backend/Database",
       files: ["requirements.txt", "pyproject.toml"],
       patterns: [/fastapi[>=<]/],
+      packages: { pypi: ["fastapi"] },
       confidence: 0.95,
       costEstimate: 0,
     },
@@ -89,6 +170,7 @@ export class GitHubRepositoryAnalyzer {
       category: "Backend/Database",
       files: ["requirements.txt", "manage.py", "settings.py"],
       patterns: [/Django[>=<]/, /django-/],
+      packages: { pypi: ["django"] },
       confidence: 0.98,
       costEstimate: 0,
     },
@@ -97,6 +179,7 @@ export class GitHubRepositoryAnalyzer {
       category: "Backend/Database", 
       files: ["requirements.txt"],
       patterns: [/Flask[>=<]/],
+      packages: { pypi: ["flask"] },
       confidence: 0.95,
       costEstimate: 0,
     },
@@ -105,6 +188,7 @@ export class GitHubRepositoryAnalyzer {
       category: "Backend/Database",
       files: ["Gemfile", "config/application.rb"],
       patterns: [/gem ['"]rails['"]/, /Rails\.application/],
+      packages: { rubygems: ["rails"] },
       confidence: 0.98,
       costEstimate: 0,
     },
@@ -123,6 +207,7 @@ export class GitHubRepositoryAnalyzer {
       category: "Backend/Database",
       files: ["package.json", "requirements.txt", "docker-compose.yml", ".env"],
       patterns: [/"pg":\s*"[^"]+"/, /psycopg2/, /postgres:/, /POSTGRES_/],
+      packages: { npm: ["pg", "postgres"], pypi: ["psycopg2", "psycopg2-binary", "psycopg", "asyncpg"], rubygems: ["pg"], go: ["github.com/lib/pq", "github.com/jackc/pgx"], cargo: ["tokio-postgres", "postgres"] },
       confidence: 0.85,
       costEstimate: 15, // Estimated managed DB cost
     },
@@ -131,6 +216,7 @@ export class GitHubRepositoryAnalyzer {
       category: "Backend/Database",
       files: ["package.json", "requirements.txt", "docker-compose.yml"],
       patterns: [/"mongoose":\s*"[^"]+"/, /pymongo/, /mongo:/, /mongodb:/],
+      packages: { npm: ["mongoose", "mongodb"], pypi: ["pymongo", "motor"], rubygems: ["mongoid"], go: ["go.mongodb.org/mongo-driver"], cargo: ["mongodb"] },
       confidence: 0.85,
       costEstimate: 25,
     },
@@ -139,6 +225,7 @@ export class GitHubRepositoryAnalyzer {
       category: "Backend/Database",
       files: ["package.json", "requirements.txt", "docker-compose.yml"],
       patterns: [/"redis":\s*"[^"]+"/, /redis[>=<]/, /redis:/],
+      packages: { npm: ["redis", "ioredis"], pypi: ["redis"], rubygems: ["redis"], go: ["github.com/redis/go-redis", "github.com/go-redis/redis"], cargo: ["redis"] },
       confidence: 0.85,
       costEstimate: 10,
     },
@@ -147,6 +234,7 @@ export class GitHubRepositoryAnalyzer {
       category: "Backend/Database",
       files: ["package.json", "requirements.txt", "docker-compose.yml"],
       patterns: [/"mysql":\s*"[^"]+"/, /PyMySQL/, /mysql:/],
+      packages: { npm: ["mysql", "mysql2"], pypi: ["pymysql", "mysqlclient"], rubygems: ["mysql2"], go: ["github.com/go-sql-driver/mysql"], cargo: ["mysql"] },
       confidence: 0.85,
       costEstimate: 15,
     },
@@ -158,6 +246,7 @@ export class GitHubRepositoryAnalyzer {
       files: ["package.json"],
       patterns: [/"@supabase\/supabase-js":\s*"[^"]+"/],
       dependencies: ["@supabase/supabase-js"],
+      packages: { pypi: ["supabase"] },
       confidence: 0.98,
       costEstimate: 25,
     },
@@ -166,6 +255,7 @@ export class GitHubRepositoryAnalyzer {
       category: "Backend/Database",
       files: ["package.json", "firebase.json"],
       patterns: [/"firebase":\s*"[^"]+"/, /firebase\.initializeApp/],
+      packages: { npm: ["firebase", "firebase-admin"], pypi: ["firebase-admin"] },
       confidence: 0.95,
       costEstimate: 25,
     },
@@ -174,6 +264,7 @@ export class GitHubRepositoryAnalyzer {
       category: "Backend/Database",
       files: ["package.json", "requirements.txt"],
       patterns: [/"aws-sdk":\s*"[^"]+"/, /boto3[>=<]/],
+      packages: { npm: ["aws-sdk"], pypi: ["boto3"], rubygems: ["aws-sdk"], go: ["github.com/aws/aws-sdk-go", "github.com/aws/aws-sdk-go-v2"], cargo: ["aws-config"] },
       confidence: 0.90,
       costEstimate: 50,
     },
@@ -234,6 +325,7 @@ export class GitHubRepositoryAnalyzer {
       category: "IDE/Development",
       files: ["package.json", "tsconfig.json"],
       patterns: [/"typescript":\s*"[^"]+"/, /"@types\/[^"]+"/],
+      packages: { npm: ["typescript"] },
       confidence: 0.95,
       costEstimate: 0,
     },
@@ -242,6 +334,7 @@ export class GitHubRepositoryAnalyzer {
       category: "IDE/Development",
       files: ["package.json", ".eslintrc", ".eslintrc.js"],
       patterns: [/"eslint":\s*"[^"]+"/],
+      packages: { npm: ["eslint"] },
       confidence: 0.90,
       costEstimate: 0,
     },
@@ -250,6 +343,7 @@ export class GitHubRepositoryAnalyzer {
       category: "IDE/Development",
       files: ["package.json", ".prettierrc"],
       patterns: [/"prettier":\s*"[^"]+"/],
+      packages: { npm: ["prettier"] },
       confidence: 0.90,
       costEstimate: 0,
     },
@@ -258,6 +352,7 @@ export class GitHubRepositoryAnalyzer {
       category: "IDE/Development",
       files: ["package.json", "jest.config.js"],
       patterns: [/"jest":\s*"[^"]+"/],
+      packages: { npm: ["jest"] },
       confidence: 0.90,
       costEstimate: 0,
     },
@@ -266,6 +361,7 @@ export class GitHubRepositoryAnalyzer {
       category: "IDE/Development",
       files: ["package.json", "cypress.json", "cypress/"],
       patterns: [/"cypress":\s*"[^"]+"/],
+      packages: { npm: ["cypress"] },
       confidence: 0.95,
       costEstimate: 75,
     },
@@ -276,6 +372,7 @@ export class GitHubRepositoryAnalyzer {
       category: "Payment Platforms",
       files: ["package.json", ".env", "requirements.txt"],
       patterns: [/"stripe":\s*"[^"]+"/, /stripe[>=<]/, /STRIPE_/],
+      packages: { npm: ["stripe"], pypi: ["stripe"], rubygems: ["stripe"], go: ["github.com/stripe/stripe-go"], cargo: ["async-stripe"] },
       confidence: 0.95,
       costEstimate: 0, // Transaction-based
     },
@@ -286,12 +383,13 @@ export class GitHubRepositoryAnalyzer {
       category: "AI Coding Tools",
       files: ["package.json", "requirements.txt", ".env"],
       patterns: [/"openai":\s*"[^"]+"/, /openai[>=<]/, /OPENAI_API_KEY/],
+      packages: { npm: ["openai"], pypi: ["openai"], go: ["github.com/sashabaranov/go-openai"], cargo: ["async-openai"] },
       confidence: 0.90,
       costEstimate: 50,
     },
   ];
 
-  async analyzeRepository(repositoryUrl: string, branch: string = "main"): Promise<AnalysisResult> {
+  async analyzeRepository(repositoryUrl: string, branch: string = "main", options: AnalysisOptions = {}): Promise<AnalysisResult> {
     try {
       // Extract repo info from URL
       const repoInfo = this.parseRepositoryUrl(repositoryUrl);
@@ -299,25 +397,240 @@ export class GitHubRepositoryAnalyzer {
         throw new Error("Invalid repository URL format");
       }
 
+      const patterns = this.resolvePatterns(options);
+
       // Fetch repository files
-      const files = await this.fetchRepositoryFiles(repoInfo.owner, repoInfo.repo, branch);
+      const collected = await this.fetchRepositoryFiles(repoInfo.owner, repoInfo.repo, branch, patterns);
       
-      // Analyze files for tool detection
-      const detectedTools = await this.detectTools(files);
+      return await this.analyzeFiles(collected, patterns);
+    } catch (error) {
+      console.error("Repository analysis failed:", error);
+      throw error;
+    }
+  }
 
-      // Calculate summary statistics
-      const summary = this.calculateSummary(detectedTools);
+  // Analyze an uploaded .zip/.tar/.tar.gz export (private monorepos, on-prem Git hosts)
+  async analyzeArchive(archive: Buffer, options: AnalysisOptions = {}): Promise<AnalysisResult> {
+    try {
+      const patterns = this.resolvePatterns(options);
+      const entries = new Map(listArchiveEntries(archive).map(entry => [entry.path, entry]));
 
-      return {
-        detectedTools,
-        summary
-      };
+      const collected = await this.collectRepositoryFiles(
+        Array.from(entries.values()).map(entry => ({ path: entry.path, size: entry.size })),
+        async (filePath) => {
+          const entry = entries.get(filePath);
+          if (!entry) return null;
+          return {
+            name: path.posix.basename(filePath),
+            path: filePath,
+            content: entry.read().toString("utf8"),
+            size: entry.size
+          };
+        },
+        patterns
+      );
+
+      if (collected.files.length === 0) {
+        throw new Error("No recognizable project files found in the uploaded archive");
+      }
+
+      return await this.analyzeFiles(collected, patterns);
     } catch (error) {
-      console.error("Repository analysis failed:", error);
+      console.error("Archive analysis failed:", error);
+      throw error;
+    }
+  }
+
+  // Analyze a checkout on the server's filesystem (admin only, path must be resolved first)
+  async analyzeLocalDirectory(rootPath: string, options: AnalysisOptions = {}): Promise<AnalysisResult> {
+    try {
+      const patterns = this.resolvePatterns(options);
+      const tree = await this.walkLocalDirectory(rootPath);
+
+      const collected = await this.collectRepositoryFiles(tree, async (relativePath) => {
+        try {
+          const absolutePath = path.join(rootPath, ...relativePath.split("/"));
+          const content = await fs.readFile(absolutePath, "utf8");
+          return {
+            name: path.posix.basename(relativePath),
+            path: relativePath,
+            content,
+            size: Buffer.byteLength(content)
+          };
+        } catch (error) {
+          return null;
+        }
+      }, patterns);
+
+      return await this.analyzeFiles(collected, patterns);
+    } catch (error) {
+      console.error("Local repository analysis failed:", error);
       throw error;
     }
   }
 
+  /**
+   * Resolve an admin-supplied path against LOCAL_REPOSITORY_ROOT.
+   * Returns null when local analysis is disabled or the path escapes the configured root.
+   */
+  public resolveLocalRepositoryPath(localPath: string): string | null {
+    const root = process.env.LOCAL_REPOSITORY_ROOT;
+    if (!root) return null;
+
+    const resolvedRoot = path.resolve(root);
+    const resolvedPath = path.resolve(resolvedRoot, localPath);
+    if (resolvedPath !== resolvedRoot && !resolvedPath.startsWith(resolvedRoot + path.sep)) {
+      console.warn(`Rejected local repository path outside of root: ${localPath}`);
+      return null;
+    }
+
+    return resolvedPath;
+  }
+
+  private resolvePatterns(options: AnalysisOptions): DetectionPattern[] {
+    return mergeDetectionPatterns(this.detectionPatterns, options.customPatterns ?? []);
+  }
+
+  private async analyzeFiles(collected: CollectedRepositoryFiles, patterns: DetectionPattern[]): Promise<AnalysisResult> {
+    // Analyze files for tool detection
+    const detectedTools = await this.detectTools(collected.files, patterns, collected.workspaces.projects);
+    detectedTools.push(...this.detectInfrastructureCosts(collected.files));
+
+    // Calculate summary statistics
+    const summary = this.calculateSummary(detectedTools);
+
+    return {
+      detectedTools,
+      summary: {
+        ...summary,
+        workspaces: this.summarizeWorkspaces(collected.workspaces, detectedTools)
+      }
+    };
+  }
+
+  /**
+   * Walk the full path listing of a repository: detect workspaces from the root
+   * configuration, then read every key file at the root and inside each sub-project.
+   */
+  private async collectRepositoryFiles(
+    tree: RepositoryTreeEntry[],
+    readFile: (filePath: string) => Promise<RepositoryFile | null>,
+    patterns: DetectionPattern[]
+  ): Promise<CollectedRepositoryFiles> {
+    const entries = tree.filter(entry =>
+      !isIgnoredPath(entry.path) &&
+      entry.size <= (isLockfile(entry.path) ? MAX_LOCKFILE_BYTES : MAX_ANALYZED_FILE_BYTES)
+    );
+    const paths = entries.map(entry => entry.path);
+    const files = new Map<string, RepositoryFile>();
+
+    const read = async (filePath: string): Promise<RepositoryFile | null> => {
+      if (files.has(filePath)) return files.get(filePath)!;
+      const file = await readFile(filePath);
+      if (file) files.set(filePath, file);
+      return file;
+    };
+
+    // Root workspace configuration decides which sub-directories are projects
+    const rootFiles: Record<string, string> = {};
+    for (const configFile of WORKSPACE_CONFIG_FILES) {
+      if (!paths.includes(configFile)) continue;
+      const file = await read(configFile);
+      if (file) rootFiles[configFile] = file.content;
+    }
+    const workspaces = detectWorkspaces(paths, rootFiles);
+    const projectDirs = new Set(workspaces.projects.map(project => project.path));
+    const ruleFilePatterns = patterns.flatMap(pattern => pattern.filePatterns ?? []);
+
+    const selectedPaths = paths
+      .filter(filePath => {
+        if (this.isKeyFilePath(filePath)) return true;
+        if (ruleFilePatterns.some(filePattern => filePattern.test(filePath))) return true;
+        if (isInfrastructureFilePath(filePath)) return true;
+        const dir = path.posix.dirname(filePath);
+        return projectDirs.has(dir) && KEY_FILES.includes(path.posix.basename(filePath));
+      })
+      .slice(0, MAX_ANALYZED_FILES);
+
+    for (const filePath of selectedPaths) {
+      await read(filePath);
+    }
+
+    // Prefer manifest names (e.g. "@acme/web") over directory names for sub-projects
+    for (const project of workspaces.projects) {
+      project.name = this.readProjectName(project.path, files) ?? project.name;
+    }
+
+    return {
+      files: selectedPaths.filter(filePath => files.has(filePath)).map(filePath => files.get(filePath)!),
+      workspaces
+    };
+  }
+
+  private readProjectName(projectPath: string, files: Map<string, RepositoryFile>): string | null {
+    const packageJson = files.get(`${projectPath}/package.json`);
+    if (packageJson) {
+      try {
+        const name = JSON.parse(packageJson.content).name;
+        if (typeof name === "string" && name) return name;
+      } catch (e) {
+        // Invalid JSON, fall through
+      }
+    }
+
+    const cargoName = files.get(`${projectPath}/Cargo.toml`)?.content.match(/^\[package\][\s\S]*?^name\s*=\s*"([^"]+)"/m);
+    if (cargoName) return cargoName[1];
+
+    const goModule = files.get(`${projectPath}/go.mod`)?.content.match(/^module\s+(\S+)/m);
+    if (goModule) return goModule[1];
+
+    return null;
+  }
+
+  private async walkLocalDirectory(rootPath: string): Promise<RepositoryTreeEntry[]> {
+    const entries: RepositoryTreeEntry[] = [];
+    const pending = [""];
+
+    while (pending.length > 0 && entries.length < MAX_TREE_ENTRIES) {
+      const relativeDir = pending.shift()!;
+      const dirents = await fs.readdir(path.join(rootPath, relativeDir), { withFileTypes: true }).catch(() => []);
+
+      for (const dirent of dirents) {
+        const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name;
+        if (isIgnoredPath(relativePath)) continue;
+
+        // Symlinks are skipped so the walk can never leave the resolved root
+        if (dirent.isDirectory()) {
+          pending.push(relativePath);
+        } else if (dirent.isFile()) {
+          const stat = await fs.stat(path.join(rootPath, relativePath)).catch(() => null);
+          if (stat) entries.push({ path: relativePath, size: stat.size });
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  private summarizeWorkspaces(workspaces: WorkspaceLayout, detectedTools: InsertDetectedTool[]): RepositoryWorkspaceSummary {
+    return {
+      managers: workspaces.managers,
+      projects: workspaces.projects.map(project => ({
+        name: project.name,
+        path: project.path,
+        managers: project.managers,
+        detectedTools: detectedTools.filter(tool =>
+          (tool.detectionDetails as { workspace?: { path?: string } } | null)?.workspace?.path === project.path
+        ).length
+      }))
+    };
+  }
+
+  private isKeyFilePath(filePath: string): boolean {
+    if (KEY_FILES.includes(filePath)) return true;
+    return filePath.startsWith(`${WORKFLOWS_DIRECTORY}/`) && !filePath.slice(WORKFLOWS_DIRECTORY.length + 1).includes("/");
+  }
+
   // Public method for parsing GitHub repository URLs with strict security validation
   public parseRepositoryUrl(url: string): { owner: string; repo: string; } | null {
     // Security: Only accept GitHub URLs to prevent SSRF attacks
@@ -373,29 +686,29 @@ export class GitHubRepositoryAnalyzer {
     return categoryMapping[analyzerCategory] || 'Frontend'; // Default fallback
   }
 
-  private async fetchRepositoryFiles(owner: string, repo: string, branch: string): Promise<RepositoryFile[]> {
+  private async fetchRepositoryFiles(
+    owner: string,
+    repo: string,
+    branch: string,
+    patterns: DetectionPattern[]
+  ): Promise<CollectedRepositoryFiles> {
     const baseUrl = `https://api.github.com/repos/${owner}/${repo}/contents`;
+
+    // Walk the whole tree when possible so monorepo sub-projects are found
+    const tree = await this.fetchRepositoryTree(owner, repo, branch);
+    if (tree) {
+      return this.collectRepositoryFiles(tree, (filePath) => this.fetchFileContent(baseUrl, filePath, branch), patterns);
+    }
+
     const files: RepositoryFile[] = [];
 
     try {
-      // Key files to check for analysis
-      const keyFiles = [
-        "package.json", "requirements.txt", "Gemfile", "composer.json",
-        "go.mod", "Cargo.toml", "pom.xml", "build.gradle",
-        "Dockerfile", "docker-compose.yml", "docker-compose.yaml",
-        "vercel.json", "netlify.toml", "railway.json", "render.yaml",
-        "tailwind.config.js", "tailwind.config.ts", "next.config.js",
-        "nuxt.config.js", "vue.config.js", "angular.json", "tsconfig.json",
-        ".eslintrc", ".eslintrc.js", "jest.config.js", "cypress.json",
-        "main.tf", "variables.tf", "terraform.tf"
-      ];
-
       // Check workflows directory
-      const workflowFiles = await this.fetchDirectoryContents(baseUrl, ".github/workflows", branch);
+      const workflowFiles = await this.fetchDirectoryContents(baseUrl, WORKFLOWS_DIRECTORY, branch);
       files.push(...workflowFiles);
 
       // Check root level files
-      for (const fileName of keyFiles) {
+      for (const fileName of KEY_FILES) {
         try {
           const fileContent = await this.fetchFileContent(baseUrl, fileName, branch);
           if (fileContent) {
@@ -406,13 +719,33 @@ export class GitHubRepositoryAnalyzer {
         }
       }
 
-      return files;
+      return { files, workspaces: { managers: [], projects: [] } };
     } catch (error) {
       console.error("Failed to fetch repository files:", error);
       throw new Error(`Failed to fetch repository contents: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  // Returns null when the git trees API is unavailable or the listing was truncated
+  private async fetchRepositoryTree(owner: string, repo: string, branch: string): Promise<RepositoryTreeEntry[] | null> {
+    try {
+      const response = await fetch(
+        `https://api.github.com/repos/${owner}/${repo}/git/trees/${encodeURIComponent(branch)}?recursive=1`
+      );
+      if (!response.ok) return null;
+
+      const data = await response.json();
+      if (!Array.isArray(data.tree) || data.truncated) return null;
+
+      return data.tree
+        .filter((item: any) => item.type === "blob" && typeof item.path === "string")
+        .slice(0, MAX_TREE_ENTRIES)
+        .map((item: any) => ({ path: item.path, size: item.size || 0 }));
+    } catch (error) {
+      return null;
+    }
+  }
+
   private async fetchDirectoryContents(baseUrl: string, directory: string, branch: string): Promise<RepositoryFile[]> {
     try {
       const response = await fetch(`${baseUrl}/${directory}?ref=${branch}`);
@@ -460,23 +793,170 @@ export class GitHubRepositoryAnalyzer {
         };
       }
 
+      // The contents API omits bodies over 1MB (large lockfiles); fall back to the raw download
+      if (data.download_url && data.size <= MAX_LOCKFILE_BYTES) {
+        const rawResponse = await fetch(data.download_url);
+        if (!rawResponse.ok) return null;
+        const content = await rawResponse.text();
+        return {
+          name: data.name,
+          path: data.path,
+          content,
+          size: data.size
+        };
+      }
+
       return null;
     } catch (error) {
       return null;
     }
   }
 
-  private async detectTools(files: RepositoryFile[]): Promise<InsertDetectedTool[]> {
+  // Detection runs once for the repository root and once per workspace sub-project
+  private async detectTools(
+    files: RepositoryFile[],
+    patterns: DetectionPattern[],
+    projects: WorkspaceProject[] = []
+  ): Promise<InsertDetectedTool[]> {
+    const groups = new Map<WorkspaceProject | null, RepositoryFile[]>([[null, []]]);
+    for (const file of files) {
+      const project = findProjectForPath(file.path, projects);
+      if (!groups.has(project)) groups.set(project, []);
+      groups.get(project)!.push(file);
+    }
+
+    const dependencyIndex = this.buildDependencyIndex(files);
+
     const detectedTools: InsertDetectedTool[] = [];
+    for (const [project, groupFiles] of Array.from(groups.entries())) {
+      const lockfiles = this.getLockfilesForProject(dependencyIndex, project);
+      detectedTools.push(...this.detectToolsInFiles(groupFiles, patterns, project, lockfiles));
+    }
+
+    const detectedNames = new Set(detectedTools.map(tool => tool.detectedName));
+    detectedTools.push(...this.detectLockfileOnlyTools(dependencyIndex, patterns, detectedNames, projects));
+
+    return detectedTools;
+  }
 
-    for (const pattern of this.detectionPatterns) {
+  private buildDependencyIndex(files: RepositoryFile[]): DependencyIndex {
+    const lockfiles: ParsedLockfile[] = [];
+    const declared = new Map<PackageEcosystem, Set<string>>();
+
+    for (const file of files) {
+      const lockfile = parseLockfile(file.path, file.content);
+      if (lockfile) {
+        lockfiles.push(lockfile);
+        continue;
+      }
+
+      const manifest = readDeclaredDependencies(file.path, file.content);
+      if (manifest) {
+        const names = declared.get(manifest.ecosystem) ?? new Set<string>();
+        manifest.names.forEach(name => names.add(name));
+        declared.set(manifest.ecosystem, names);
+      }
+    }
+
+    return { lockfiles, declared };
+  }
+
+  // A sub-project's own lockfile wins; otherwise the root lockfile resolves its versions
+  private getLockfilesForProject(index: DependencyIndex, project: WorkspaceProject | null): ParsedLockfile[] {
+    const projectDir = project?.path ?? ".";
+    const own = index.lockfiles.filter(lockfile => path.posix.dirname(lockfile.path) === projectDir);
+    if (own.length > 0 || !project) return own;
+    return index.lockfiles.filter(lockfile => path.posix.dirname(lockfile.path) === ".");
+  }
+
+  private getPatternPackages(pattern: DetectionPattern, ecosystem: PackageEcosystem): string[] {
+    const names = [...(pattern.packages?.[ecosystem] ?? [])];
+    if (ecosystem === "npm" && pattern.dependencies) names.push(...pattern.dependencies);
+    return Array.from(new Set(names));
+  }
+
+  private findLockedPackage(pattern: DetectionPattern, lockfiles: ParsedLockfile[]): LockedPackageMatch | null {
+    for (const lockfile of lockfiles) {
+      for (const name of this.getPatternPackages(pattern, lockfile.ecosystem)) {
+        const dependency = lockfile.dependencies.get(normalizePackageName(lockfile.ecosystem, name));
+        if (dependency) return { lockfile, dependency };
+      }
+    }
+    return null;
+  }
+
+  // Tools that only appear in lockfiles: transitive dependencies (or direct ones the regexes missed)
+  private detectLockfileOnlyTools(
+    index: DependencyIndex,
+    patterns: DetectionPattern[],
+    detectedNames: Set<string>,
+    projects: WorkspaceProject[]
+  ): InsertDetectedTool[] {
+    const detectedTools: InsertDetectedTool[] = [];
+
+    for (const pattern of patterns) {
+      if (detectedNames.has(pattern.name)) continue;
+
+      const match = this.findLockedPackage(pattern, index.lockfiles);
+      if (!match) continue;
+
+      const { lockfile, dependency } = match;
+      const normalizedName = normalizePackageName(lockfile.ecosystem, dependency.name);
+      const isDirect = lockfile.directNames.has(normalizedName) ||
+        (index.declared.get(lockfile.ecosystem)?.has(normalizedName) ?? false);
+      const project = findProjectForPath(lockfile.path, projects);
+      const confidence = pattern.confidence * (isDirect ? UNMATCHED_DIRECT_CONFIDENCE_FACTOR : TRANSITIVE_CONFIDENCE_FACTOR);
+      const license = normalizeSpdxLicense(dependency.license);
+
+      detectedTools.push({
+        analysisId: "", // Will be set by caller
+        toolId: pattern.toolId ?? null, // Otherwise mapped to existing tools later
+        detectedName: pattern.name,
+        category: pattern.category,
+        confidenceScore: Math.min(confidence, 1.0).toFixed(2),
+        detectionMethod: "lockfile",
+        detectionDetails: {
+          files: [lockfile.path],
+          pattern: pattern.name,
+          lockfile: lockfile.path,
+          package: dependency.name,
+          ecosystem: lockfile.ecosystem,
+          ...(license && { license }),
+          transitive: !isDirect,
+          ...(pattern.ruleId && { ruleId: pattern.ruleId }),
+          ...(project && {
+            workspace: { name: project.name, path: project.path, managers: project.managers }
+          })
+        },
+        suggestedTool: null,
+        // A library pulled in by another package does not imply a paid service
+        estimatedMonthlyCost: isDirect ? pattern.costEstimate?.toString() || "0" : "0",
+        version: dependency.version,
+        filePath: lockfile.path,
+        isImported: false
+      });
+    }
+
+    return detectedTools;
+  }
+
+  private detectToolsInFiles(
+    files: RepositoryFile[],
+    patterns: DetectionPattern[],
+    project: WorkspaceProject | null,
+    lockfiles: ParsedLockfile[] = []
+  ): InsertDetectedTool[] {
+    const detectedTools: InsertDetectedTool[] = [];
+
+    for (const pattern of patterns) {
       // Check if any relevant files exist
       const relevantFiles = files.filter(file => 
         pattern.files.some(patternFile => 
           file.path.includes(patternFile) || 
           file.name === patternFile ||
           (patternFile.endsWith('/') && file.path.startsWith(patternFile))
-        )
+        ) ||
+        pattern.filePatterns?.some(filePattern => filePattern.test(file.path))
       );
 
       if (relevantFiles.length === 0) continue;
@@ -486,6 +966,7 @@ export class GitHubRepositoryAnalyzer {
       let detectionDetails: any = {};
       let version: string | undefined;
       let filePaths: string[] = [];
+      let matchedFilePath: string | undefined;
 
       for (const file of relevantFiles) {
         filePaths.push(file.path);
@@ -497,6 +978,7 @@ export class GitHubRepositoryAnalyzer {
             isDetected = true;
             detectionDetails.matchedPattern = match[0];
             detectionDetails.fileName = file.name;
+            matchedFilePath = file.path;
 
             // Try to extract version if it's a package.json-like file
             if (file.name === 'package.json') {
@@ -509,6 +991,8 @@ export class GitHubRepositoryAnalyzer {
                   for (const dep of pattern.dependencies) {
                     if (deps[dep]) {
                       version = deps[dep].replace(/[\^~]/, '');
+                      detectionDetails.package = dep;
+                      detectionDetails.ecosystem = "npm";
                       break;
                     }
                   }
@@ -525,26 +1009,42 @@ export class GitHubRepositoryAnalyzer {
       }
 
       if (isDetected) {
+        // Prefer the resolved version from the lockfile over the declared range
+        const locked = this.findLockedPackage(pattern, lockfiles);
+        if (locked) {
+          if (version) detectionDetails.declaredVersion = version;
+          detectionDetails.lockfile = locked.lockfile.path;
+          detectionDetails.package = locked.dependency.name;
+          detectionDetails.ecosystem = locked.lockfile.ecosystem;
+          const license = normalizeSpdxLicense(locked.dependency.license);
+          if (license) detectionDetails.license = license;
+          version = locked.dependency.version;
+        }
+
         // Adjust confidence based on detection quality
         if (version) confidence += 0.05;
         if (filePaths.length > 1) confidence += 0.02;
         
         detectedTools.push({
           analysisId: "", // Will be set by caller
-          toolId: null, // Will be mapped to existing tools later
+          toolId: pattern.toolId ?? null, // Otherwise mapped to existing tools later
           detectedName: pattern.name,
           category: pattern.category,
           confidenceScore: Math.min(confidence, 1.0).toString(),
-          detectionMethod: this.getDetectionMethod(filePaths),
+          detectionMethod: pattern.ruleId ? 'custom-rule' : this.getDetectionMethod(filePaths),
           detectionDetails: {
             ...detectionDetails,
             files: filePaths,
-            pattern: pattern.name
+            pattern: pattern.name,
+            ...(pattern.ruleId && { ruleId: pattern.ruleId }),
+            ...(project && {
+              workspace: { name: project.name, path: project.path, managers: project.managers }
+            })
           },
           suggestedTool: null,
           estimatedMonthlyCost: pattern.costEstimate?.toString() || "0",
           version,
-          filePath: filePaths[0],
+          filePath: matchedFilePath ?? filePaths[0],
           isImported: false
         });
       }
@@ -553,6 +1053,41 @@ export class GitHubRepositoryAnalyzer {
     return detectedTools;
   }
 
+  /**
+   * Price the cloud resources declared in Terraform, Kubernetes manifests and
+   * docker-compose files, reported as one detected tool per billed service.
+   */
+  private detectInfrastructureCosts(files: RepositoryFile[]): InsertDetectedTool[] {
+    const services = groupInfrastructureByService(extractInfrastructureResources(files));
+
+    return services.map(service => {
+      const filePaths = [...new Set(service.resources.map(resource => resource.filePath))];
+      const assumedResources = service.resources.filter(resource => resource.assumed).length;
+
+      return {
+        analysisId: "", // Will be set by caller
+        toolId: null,
+        detectedName: service.service,
+        category: service.category,
+        // Declared sizes are more trustworthy than priced defaults
+        confidenceScore: (assumedResources > 0 ? 0.75 : 0.85).toString(),
+        detectionMethod: service.sources[0],
+        detectionDetails: {
+          files: filePaths,
+          infrastructure: {
+            sources: service.sources,
+            resources: service.resources.map(({ service: _service, category: _category, ...resource }) => resource)
+          }
+        },
+        suggestedTool: null,
+        estimatedMonthlyCost: service.monthlyCost.toFixed(2),
+        version: null,
+        filePath: filePaths[0],
+        isImported: false
+      };
+    });
+  }
+
   private getDetectionMethod(filePaths: string[]): string {
     if (filePaths.some(p => p.includes('package.json'))) return 'package.json';
     if (filePaths.some(p => p.includes('requirements.txt'))) return 'requirements.txt';
@@ -565,9 +1100,14 @@ export class GitHubRepositoryAnalyzer {
 
   private calculateSummary(detectedTools: InsertDetectedTool[]) {
     const categories = [...new Set(detectedTools.map(tool => tool.category))];
-    const totalEstimatedCost = detectedTools.reduce((sum, tool) => 
-      sum + parseFloat(tool.estimatedMonthlyCost || "0"), 0
-    );
+
+    // The same tool detected in several sub-projects is only paid for once
+    const costByTool = new Map<string, number>();
+    for (const tool of detectedTools) {
+      const cost = parseFloat(tool.estimatedMonthlyCost || "0");
+      costByTool.set(tool.detectedName, Math.max(costByTool.get(tool.detectedName) ?? 0, cost));
+    }
+    const totalEstimatedCost = Array.from(costByTool.values()).reduce((sum, cost) => sum + cost, 0);
     const averageConfidence = detectedTools.length > 0 
       ? detectedTools.reduce((sum, tool) => sum + parseFloat(tool.confidenceScore), 0) / detectedTools.length
       : 0;
@@ -583,10 +1123,17 @@ export class GitHubRepositoryAnalyzer {
   // Method to match detected tools with existing tools in database
   async matchWithExistingTools(detectedTools: InsertDetectedTool[], existingTools: Tool[]): Promise<InsertDetectedTool[]> {
     return detectedTools.map(detectedTool => {
+      // Custom rules may link directly to a catalog tool
+      let matchedTool = detectedTool.toolId
+        ? existingTools.find(tool => tool.id === detectedTool.toolId)
+        : undefined;
+
       // Try to find exact match by name
-      let matchedTool = existingTools.find(tool => 
-        tool.name.toLowerCase() === detectedTool.detectedName.toLowerCase()
-      );
+      if (!matchedTool) {
+        matchedTool = existingTools.find(tool => 
+          tool.name.toLowerCase() === detectedTool.detectedName.toLowerCase()
+        );
+      }
 
       // Try partial matches
       if (!matchedTool) {
@@ -606,12 +1153,16 @@ export class GitHubRepositoryAnalyzer {
       }
 
       if (matchedTool) {
+        // Costs priced from declared infrastructure beat the catalog's list price
+        const hasInfrastructureCost = !!(detectedTool.detectionDetails as { infrastructure?: unknown } | null)?.infrastructure;
         return {
           ...detectedTool,
           toolId: matchedTool.id,
           suggestedTool: matchedTool.id,
           // Use the matched tool's pricing info if available
-          estimatedMonthlyCost: this.extractCostFromPricing(matchedTool.pricing) || detectedTool.estimatedMonthlyCost
+          estimatedMonthlyCost: hasInfrastructureCost
+            ? detectedTool.estimatedMonthlyCost
+            : this.extractCostFromPricing(matchedTool.pricing) || detectedTool.estimatedMonthlyCost
         };
       }
 
@@ -619,6 +1170,7 @@ export class GitHubRepositoryAnalyzer {
       const suggestedTool = this.findSimilarTool(detectedTool, existingTools);
       return {
         ...detectedTool,
+        toolId: null,
         suggestedTool: suggestedTool?.id || null
       };
     });
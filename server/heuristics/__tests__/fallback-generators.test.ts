@@ -0,0 +1,203 @@
+import assert from "node:assert/strict";
+import type { ProjectTemplate, SavedIdea, TaskCategory, Tool } from "@shared/schema";
+import {
+  generateHeuristicDocsAnswer,
+  generateHeuristicEnhancedIdeas,
+  generateHeuristicIdeas,
+  generateHeuristicProjectTasks,
+  generateHeuristicRecommendations,
+  generateHeuristicRoadmap,
+  withHeuristicFallback,
+  type HeuristicSources,
+} from "../fallback-generators";
+import { AIValidationError } from "../../llm/validated-json";
+
+const tool = (id: string, name: string, category: string, pricing: string | null = null, popularityScore: string | null = null): Tool => ({
+  id,
+  name,
+  description: null,
+  category,
+  url: null,
+  frameworks: null,
+  languages: null,
+  features: null,
+  integrations: null,
+  maturityScore: null,
+  popularityScore,
+  pricing,
+  license: null,
+  notes: null,
+});
+
+const stripe = tool("stripe", "Stripe", "Payment Platforms", "2.9% per transaction");
+const supabase = tool("supabase", "Supabase", "Backend/Database", "Free tier, Pro $25/month", "9.0");
+const vercel = tool("vercel", "Vercel", "DevOps/Deployment", "Pro $20/month", "9.5");
+const sentry = tool("sentry", "Sentry", "Monitoring", "Team $26/month", "8.0");
+const datadog = tool("datadog", "Datadog", "Monitoring", "$15/host/month", "7.0");
+
+const category = (id: string, name: string, extra: Partial<TaskCategory> = {}): TaskCategory => ({
+  id,
+  name,
+  description: null,
+  color: null,
+  icon: null,
+  defaultPriority: "medium",
+  averageComplexity: "medium",
+  typicalDuration: null,
+  skillsRequired: null,
+  toolCategories: null,
+  ...extra,
+});
+
+const template = {
+  id: "template-saas",
+  name: "SaaS Starter",
+  description: "Multi-tenant SaaS with billing.",
+  category: "saas",
+  isActive: true,
+  usageCount: 12,
+  platforms: ["web"],
+  requiredSkills: ["TypeScript"],
+  milestones: [{ name: "Private beta" }, { name: "Public launch" }],
+  defaultTasks: [
+    { title: "Set up subscription billing", category: "integration", estimatedHours: 10, dependencies: ["Build the core API"] },
+    { title: "Build the core API" }, // Already produced from the backend category
+    "not a task",
+  ],
+} as unknown as ProjectTemplate;
+
+const sources: HeuristicSources = {
+  userTools: [
+    { id: "ut-stripe", userId: "user", toolId: "stripe", workspaceId: null, monthlyCost: "0", quantity: 1, isActive: true, lastUsedAt: null, addedAt: null, tool: stripe },
+    { id: "ut-supabase", userId: "user", toolId: "supabase", workspaceId: null, monthlyCost: "25.00", quantity: 1, isActive: true, lastUsedAt: null, addedAt: null, tool: supabase },
+  ],
+  taskCategories: [
+    category("setup", "Setup & Infrastructure"),
+    category("database", "Database Design"),
+    category("auth", "Authentication"),
+    category("backend", "Backend Development"),
+    category("frontend", "Frontend Development"),
+    category("integration", "Integrations"),
+    category("testing", "Testing & QA"),
+    category("devops", "DevOps & Deployment"),
+    category("docs", "Documentation"),
+    category("analytics", "Product Analytics", { typicalDuration: "days", toolCategories: ["Monitoring"], skillsRequired: ["SQL"] }),
+  ],
+  projectTemplates: [template],
+};
+
+// Ideas
+const ideas = generateHeuristicIdeas(["Stripe", "Supabase"], "launch a saas side project", sources);
+assert.equal(ideas.length, 3);
+assert.deepEqual(ideas.map(idea => idea.title), [
+  "SaaS Starter with Stripe",
+  "Subscription storefront on Stripe",
+  "Hosted data API on Supabase",
+]);
+assert.match(ideas[1].description, /Stripe and Supabase/);
+assert.match(ideas[1].description, /Aimed at: launch a saas side project/);
+assert.deepEqual(generateHeuristicIdeas(["Stripe", "Supabase"], "launch a saas side project", sources), ideas); // Deterministic
+
+const enhanced = generateHeuristicEnhancedIdeas(["Stripe", "Supabase", "Linear"], { teamSize: "solo", monthlyBudget: 40 }, undefined, sources);
+assert.equal(enhanced[0].implementationComplexity, "medium");
+assert.equal(enhanced[0].estimatedCost, 300); // ($25 Supabase + $25 placeholder for Linear) * 6 months
+assert.equal(enhanced[0].budgetFriendly, false);
+
+// Roadmap
+const roadmap = generateHeuristicRoadmap(["Stripe", "Supabase"], ["Deploy to production", "Monitoring and error alerts"], { monthlyBudget: 30 }, "3 months", [stripe, supabase, vercel, sentry, datadog]);
+assert.deepEqual(roadmap.timeline.map(phase => phase.title), [
+  "Stabilize the current stack",
+  "Deploy to production",
+  "Monitoring and error alerts",
+  "Review and optimize",
+]);
+assert.deepEqual(roadmap.timeline[1].tools, ["Vercel"]);
+assert.deepEqual(roadmap.timeline[2].tools, ["Sentry", "Datadog"]);
+assert.deepEqual(roadmap.targetStack, ["Stripe", "Supabase", "Vercel", "Sentry", "Datadog"]);
+assert.equal(roadmap.totalDuration, "12 weeks");
+assert.equal(roadmap.budgetImpact.monthly, 61);
+assert.match(roadmap.riskAssessment.budget, /above the \$30 monthly budget/);
+
+// Recommendations cover missing categories and respect the budget
+const recommendations = generateHeuristicRecommendations(["Stripe", "Supabase"], [stripe, supabase, vercel, sentry, datadog], { monthlyBudget: 25 });
+assert.deepEqual(recommendations.map(recommendation => recommendation.title), [
+  "Add Vercel for DevOps/Deployment",
+  "Add Datadog for Monitoring", // Sentry is over budget
+]);
+assert.equal(recommendations[0].priority, "high");
+
+// Task breakdown
+const idea = {
+  id: "idea",
+  userId: "user",
+  title: "Invoice SaaS",
+  description: "Subscription invoicing for freelancers",
+  toolsUsed: ["Stripe"],
+  monetization: null,
+  tags: ["saas", "fintech"],
+  targetAudience: null,
+  implementationComplexity: "medium",
+  estimatedCost: null,
+  timeToMarket: null,
+  generationMetadata: null,
+  createdAt: null,
+} satisfies SavedIdea;
+
+const breakdown = generateHeuristicProjectTasks(idea, { teamSize: "small" }, [stripe, supabase], { includeDocumentation: false }, sources);
+const titles = breakdown.tasks.map(task => task.title);
+assert.ok(!titles.includes("Write user and developer documentation"));
+assert.ok(titles.includes("Product Analytics"));
+assert.equal(titles.filter(title => title === "Build the core API").length, 1);
+assert.equal(titles[titles.length - 1], "Set up subscription billing");
+
+const byTitle = new Map(breakdown.tasks.map(task => [task.title, task]));
+assert.deepEqual(byTitle.get("Build the core API")!.dependencies, ["Design the data model and database", "Implement user authentication"]);
+assert.deepEqual(byTitle.get("Build the core API")!.suggestedTools, ["Supabase"]);
+assert.deepEqual(byTitle.get("Integrate third-party services")!.suggestedTools, ["Stripe"]);
+assert.deepEqual(byTitle.get("Product Analytics")!.requiredTools, ["Product Analytics tool"]);
+assert.deepEqual(byTitle.get("Product Analytics")!.dependencies, ["Set up the project repository and environments"]);
+assert.deepEqual(byTitle.get("Product Analytics")!.resourceRequirements.skillsNeeded, ["SQL"]);
+assert.deepEqual(byTitle.get("Set up subscription billing")!.dependencies, ["Build the core API"]);
+
+assert.deepEqual(breakdown.projectMetadata.criticalPath, [
+  "Set up the project repository and environments",
+  "Design the data model and database",
+  "Implement user authentication",
+  "Build the core API",
+  "Build the user interface",
+  "Test the main workflows",
+  "Deploy to production",
+]);
+assert.deepEqual(breakdown.projectMetadata.keyMilestones, ["Private beta", "Public launch"]);
+assert.ok(breakdown.stackAnalysis.missingTools.includes("Hosting platform"));
+assert.equal(breakdown.stackAnalysis.toolsInStack, 2);
+
+// Documentation answers point at the retrieved sections in order
+const docsAnswer = generateHeuristicDocsAnswer([
+  { id: "a#1", articleId: "a", slug: "stripe-webhooks", title: "Stripe webhooks", heading: "Verifying signatures", text: "Check the Stripe-Signature header." },
+  { id: "b#0", articleId: "b", slug: "billing", title: "Billing basics", heading: null, text: "Plans and invoices." },
+]);
+assert.equal(docsAnswer.citations.length, 2);
+assert.ok(docsAnswer.answer.includes("**Stripe webhooks > Verifying signatures** [1]: Check the Stripe-Signature header."));
+assert.ok(docsAnswer.answer.includes("**Billing basics** [2]"));
+
+// Fallback wrapper
+const ai = await withHeuristicFallback("test", async () => "from ai", () => "from rules");
+assert.deepEqual(ai, { result: "from ai", source: "ai" });
+
+const originalWarn = console.warn;
+console.warn = () => {};
+const fallback = await withHeuristicFallback("test", async () => { throw new Error("quota exceeded"); }, () => "from rules");
+assert.deepEqual(fallback, { result: "from rules", source: "heuristic", validation: undefined });
+
+// A rejected AI response is still reported when the generator wrapped the error
+const rejected = { valid: false, attempts: 3, repaired: false, issues: ["attempt 3: ideas: Required"] };
+const invalid = await withHeuristicFallback(
+  "test",
+  async () => { throw new Error("Failed to generate", { cause: new AIValidationError("failed validation", rejected) }); },
+  () => "from rules"
+);
+console.warn = originalWarn;
+assert.deepEqual(invalid, { result: "from rules", source: "heuristic", validation: rejected });
+
+console.log("fallback-generators tests passed");
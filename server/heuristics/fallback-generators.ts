@@ -0,0 +1,719 @@
+/**
+ * Fallback Generators - Rule-based ideas, roadmaps, recommendations, task breakdowns and documentation answers
+ * Used when the configured LLM provider fails, built from the user's stack, task categories, project templates and retrieved docs.
+ */
+
+import type {
+  AIValidationOutcome,
+  ContextualRecommendation,
+  EnhancedBusinessIdea,
+  GeneratedTechRoadmap,
+  GenerationSource,
+  ProjectTemplate,
+  SavedIdea,
+  TaskCategory,
+  TaskGenerationParameters,
+  TechRoadmapPhase,
+  Tool,
+  UserAIContext,
+  UserTool,
+} from "@shared/schema";
+import type { BusinessIdea, DocsAnswerResult, GeneratedTask, TaskGenerationResult } from "../gemini";
+import { toDocReference, type DocPassage } from "../documentation/doc-index";
+import { getValidationOutcome } from "../llm/validated-json";
+
+export type UserToolWithTool = UserTool & { tool: Tool };
+
+export interface HeuristicSources {
+  userTools: UserToolWithTool[];
+  taskCategories: TaskCategory[];
+  projectTemplates: ProjectTemplate[];
+}
+
+export interface FallbackResult<T> {
+  result: T;
+  source: GenerationSource;
+  validation?: AIValidationOutcome; // Set when the fallback was caused by AI responses failing validation
+}
+
+// Runs the AI generator and falls back to the rule-based one when it throws
+export async function withHeuristicFallback<T>(
+  label: string,
+  generate: () => Promise<T>,
+  fallback: () => T | Promise<T>
+): Promise<FallbackResult<T>> {
+  try {
+    return { result: await generate(), source: "ai" };
+  } catch (error) {
+    console.warn(`${label} failed, using heuristic fallback:`, error);
+    return { result: await fallback(), source: "heuristic", validation: getValidationOutcome(error) };
+  }
+}
+
+const MISSING_TOOL_MONTHLY_ESTIMATE = 25; // Placeholder cost for a tool the stack does not cover yet
+const HOURS_PER_DAY = 6;
+
+const COMPLEXITY_ORDER = ["low", "medium", "high"] as const;
+type Complexity = typeof COMPLEXITY_ORDER[number];
+
+// Business idea archetypes, matched against the category of each selected tool
+const IDEA_ARCHETYPES: Array<{
+  match: RegExp;
+  title: (tool: string) => string;
+  description: (tools: string) => string;
+  monetization: string;
+  tags: string[];
+}> = [
+  {
+    match: /payment|billing|commerce/i,
+    title: tool => `Subscription storefront on ${tool}`,
+    description: tools => `A storefront for digital products and memberships where ${tools} handle checkout, recurring billing and customer accounts.`,
+    monetization: "Monthly subscription tiers plus a small fee on each transaction processed through the storefront.",
+    tags: ["ecommerce", "subscriptions", "payments"],
+  },
+  {
+    match: /ai|machine learning|llm/i,
+    title: tool => `AI assistant built with ${tool}`,
+    description: tools => `A focused assistant that automates a repetitive workflow for a niche audience, using ${tools} for generation, storage and delivery.`,
+    monetization: "Usage-based pricing with a free tier and paid plans for higher monthly limits.",
+    tags: ["ai", "automation", "saas"],
+  },
+  {
+    match: /database|backend|api/i,
+    title: tool => `Hosted data API on ${tool}`,
+    description: tools => `A managed API that collects, cleans and serves a dataset other developers need, built on ${tools}.`,
+    monetization: "Metered API access with monthly plans by request volume.",
+    tags: ["api", "data", "developer-tools"],
+  },
+  {
+    match: /monitor|analytics|observability/i,
+    title: tool => `Usage insights dashboard with ${tool}`,
+    description: tools => `A dashboard that turns product usage and error data into weekly reports for small teams, powered by ${tools}.`,
+    monetization: "Per-seat subscription with an annual discount.",
+    tags: ["analytics", "dashboard", "saas"],
+  },
+  {
+    match: /frontend|design|ui/i,
+    title: tool => `Template marketplace for ${tool}`,
+    description: tools => `A marketplace of production-ready templates and components, showcased and delivered with ${tools}.`,
+    monetization: "One-time template purchases plus an all-access membership.",
+    tags: ["marketplace", "templates", "design"],
+  },
+  {
+    match: /devops|deploy|hosting|infrastructure/i,
+    title: tool => `Deployment starter kits on ${tool}`,
+    description: tools => `Opinionated starter kits that take a new project from repository to production in an afternoon, using ${tools}.`,
+    monetization: "Paid kits with a support subscription for updates.",
+    tags: ["devops", "starter-kits", "developer-tools"],
+  },
+];
+
+const DEFAULT_ARCHETYPE = {
+  title: (tool: string) => `Workflow automation around ${tool}`,
+  description: (tools: string) => `A service that automates a manual back-office workflow for small businesses, integrating ${tools}.`,
+  monetization: "Monthly subscription priced by the number of automated workflows.",
+  tags: ["automation", "small-business", "saas"],
+};
+
+const IDEA_COUNT = 3;
+
+export function generateHeuristicIdeas(
+  selectedTools: string[],
+  goals: string | undefined,
+  sources: HeuristicSources
+): BusinessIdea[] {
+  const categoryByTool = new Map(sources.userTools.map(userTool => [userTool.tool.name.toLowerCase(), userTool.tool.category]));
+  const toolsText = formatList(selectedTools);
+  const goalsText = goals ? ` Aimed at: ${goals.trim()}` : "";
+  const ideas: BusinessIdea[] = [];
+  const usedTitles = new Set<string>();
+
+  const addIdea = (idea: BusinessIdea) => {
+    if (ideas.length >= IDEA_COUNT || usedTitles.has(idea.title)) return;
+    usedTitles.add(idea.title);
+    ideas.push(idea);
+  };
+
+  // Templates the user could start from come first; they carry a tested structure
+  for (const template of rankTemplates(sources.projectTemplates, `${selectedTools.join(" ")} ${goals || ""}`).slice(0, 1)) {
+    addIdea({
+      title: `${template.name} with ${selectedTools[0]}`,
+      description: `${template.description} Built with ${toolsText}.${goalsText}`,
+      monetization: DEFAULT_ARCHETYPE.monetization,
+      tags: uniqueValues([formatTemplateCategory(template.category), ...template.platforms ?? []]).slice(0, 5),
+    });
+  }
+
+  for (const toolName of selectedTools) {
+    const category = categoryByTool.get(toolName.toLowerCase()) || toolName;
+    const archetype = IDEA_ARCHETYPES.find(candidate => candidate.match.test(category)) || DEFAULT_ARCHETYPE;
+    addIdea({
+      title: archetype.title(toolName),
+      description: `${archetype.description(toolsText)}${goalsText}`,
+      monetization: archetype.monetization,
+      tags: archetype.tags,
+    });
+  }
+
+  if (ideas.length < IDEA_COUNT) {
+    addIdea({
+      title: DEFAULT_ARCHETYPE.title(selectedTools[0]),
+      description: `${DEFAULT_ARCHETYPE.description(toolsText)}${goalsText}`,
+      monetization: DEFAULT_ARCHETYPE.monetization,
+      tags: DEFAULT_ARCHETYPE.tags,
+    });
+  }
+
+  return ideas;
+}
+
+export function generateHeuristicEnhancedIdeas(
+  selectedTools: string[],
+  userContext: UserAIContext | undefined,
+  goals: string | undefined,
+  sources: HeuristicSources
+): EnhancedBusinessIdea[] {
+  const context = userContext || {};
+  const selected = new Set(selectedTools.map(name => name.toLowerCase()));
+  const monthlyToolCost = sources.userTools
+    .filter(userTool => selected.has(userTool.tool.name.toLowerCase()))
+    .reduce((sum, userTool) => sum + parseAmount(userTool.monthlyCost), 0);
+  const unknownTools = selectedTools.filter(name => !sources.userTools.some(userTool => userTool.tool.name.toLowerCase() === name.toLowerCase()));
+  const monthlyCost = monthlyToolCost + unknownTools.length * MISSING_TOOL_MONTHLY_ESTIMATE;
+
+  const complexity = shiftComplexity(
+    selectedTools.length <= 2 ? "low" : selectedTools.length <= 4 ? "medium" : "high",
+    context.technicalLevel === "beginner" ? 1 : context.technicalLevel === "expert" ? -1 : 0
+  );
+  const timeToMarket = complexity === "low" ? "1-3 months" : complexity === "medium" ? "3-6 months" : "6-12 months";
+  const months = complexity === "low" ? 3 : complexity === "medium" ? 6 : 12;
+  const estimatedCost = Math.round(monthlyCost * months);
+
+  return generateHeuristicIdeas(selectedTools, goals, sources).map(idea => ({
+    ...idea,
+    targetAudience: context.industry ? `Businesses in ${context.industry}` : "Small businesses and independent professionals",
+    implementationComplexity: complexity,
+    estimatedCost,
+    timeToMarket,
+    budgetFriendly: context.monthlyBudget === undefined || monthlyCost <= context.monthlyBudget,
+    teamSuitability: describeTeamFit(context.teamSize, complexity),
+    industryFit: context.industry && idea.tags.some(tag => context.industry!.toLowerCase().includes(tag)) ? 8 : 6,
+  }));
+}
+
+export function generateHeuristicRoadmap(
+  currentStack: string[],
+  targetGoals: string[],
+  userContext: UserAIContext | undefined,
+  timeframe: string | undefined,
+  catalog: Tool[]
+): GeneratedTechRoadmap {
+  const inStack = new Set(currentStack.map(name => name.toLowerCase()));
+  const candidates = catalog.filter(tool => !inStack.has(tool.name.toLowerCase()));
+  const chosen = new Set<string>();
+
+  const goalPhases = targetGoals.slice(0, 4).map(goal => {
+    const tools = rankByRelevance(candidates.filter(tool => !chosen.has(tool.id)), goal).slice(0, 2);
+    tools.forEach(tool => chosen.add(tool.id));
+    return { goal, tools };
+  });
+
+  const totalWeeks = timeframeToWeeks(timeframe) ?? Math.max(4, (goalPhases.length + 2) * 3);
+  const phaseCount = goalPhases.length + 2;
+  const weeksPerPhase = Math.max(1, Math.floor(totalWeeks / phaseCount));
+  const duration = `${weeksPerPhase} ${weeksPerPhase === 1 ? "week" : "weeks"}`;
+
+  const phases: TechRoadmapPhase[] = [
+    {
+      phase: 1,
+      title: "Stabilize the current stack",
+      description: `Document how ${formatList(currentStack)} fit together, remove unused tools and fix known gaps before adding anything new.`,
+      tools: currentStack,
+      duration,
+      cost: 0,
+      prerequisites: [],
+      deliverables: ["Architecture overview", "List of tools to keep, replace or retire"],
+      risks: ["Undocumented dependencies between existing tools"],
+      learningResources: currentStack.map(name => `${name} documentation`),
+    },
+    ...goalPhases.map(({ goal, tools }, index): TechRoadmapPhase => ({
+      phase: index + 2,
+      title: capitalize(goal),
+      description: tools.length > 0
+        ? `Adopt ${formatList(tools.map(tool => tool.name))} to ${goal.toLowerCase()}.`
+        : `Work towards "${goal}" with the existing stack; no catalog tool matched this goal.`,
+      tools: tools.map(tool => tool.name),
+      duration,
+      cost: tools.reduce((sum, tool) => sum + parseMonthlyPrice(tool.pricing), 0),
+      prerequisites: [index === 0 ? "Stabilize the current stack" : capitalize(goalPhases[index - 1].goal)],
+      deliverables: [`${capitalize(goal)} in production`],
+      risks: tools.length > 0 ? [`Integration effort for ${formatList(tools.map(tool => tool.name))}`] : ["Existing tools may not cover this goal"],
+      learningResources: tools.map(tool => tool.url || `${tool.name} documentation`),
+    })),
+    {
+      phase: phaseCount,
+      title: "Review and optimize",
+      description: "Measure the new setup against the original goals, right-size plans and retire overlapping tools.",
+      tools: [],
+      duration,
+      cost: 0,
+      prerequisites: goalPhases.length > 0 ? [capitalize(goalPhases[goalPhases.length - 1].goal)] : ["Stabilize the current stack"],
+      deliverables: ["Cost and usage review", "Updated architecture overview"],
+      risks: ["Tool sprawl if overlapping tools are not retired"],
+      learningResources: [],
+    },
+  ];
+
+  const newTools = Array.from(chosen).map(id => candidates.find(tool => tool.id === id)!);
+  const monthly = phases.reduce((sum, phase) => sum + phase.cost, 0);
+  const complexity: Complexity = newTools.length <= 2 ? "low" : newTools.length <= 5 ? "medium" : "high";
+  const budget = userContext?.monthlyBudget;
+
+  return {
+    title: `Roadmap: ${formatList(targetGoals.slice(0, 2))}`,
+    description: `A ${phaseCount}-phase plan that builds on ${formatList(currentStack)} to reach the stated goals.`,
+    currentStack,
+    targetStack: uniqueValues([...currentStack, ...newTools.map(tool => tool.name)]),
+    timeline: phases,
+    totalDuration: `${weeksPerPhase * phaseCount} weeks`,
+    estimatedCost: monthly * Math.max(1, Math.round((weeksPerPhase * phaseCount) / 4)),
+    complexity,
+    priority: "medium",
+    budgetImpact: { immediate: 0, monthly, savings: 0 },
+    prerequisites: ["Agreement on the target goals", "Access to every tool in the current stack"],
+    riskAssessment: {
+      technical: `${newTools.length} new ${newTools.length === 1 ? "tool" : "tools"} to integrate; ${complexity} technical risk.`,
+      budget: budget !== undefined
+        ? monthly > budget ? `New tools add $${monthly}/month, above the $${budget} monthly budget.` : `New tools add $${monthly}/month, within the $${budget} monthly budget.`
+        : `New tools add about $${monthly}/month.`,
+      timeline: `${weeksPerPhase} ${weeksPerPhase === 1 ? "week" : "weeks"} per phase; slips in one phase delay the rest.`,
+      team: describeTeamFit(userContext?.teamSize, complexity),
+    },
+  };
+}
+
+export function generateHeuristicRecommendations(
+  currentStack: string[],
+  availableTools: Tool[],
+  userContext: UserAIContext | undefined
+): ContextualRecommendation[] {
+  const inStack = new Set(currentStack.map(name => name.toLowerCase()));
+  const coveredCategories = new Set(
+    availableTools.filter(tool => inStack.has(tool.name.toLowerCase())).map(tool => tool.category)
+  );
+  const budget = userContext?.monthlyBudget;
+
+  // One recommendation per catalog category the stack does not cover, best known tool first
+  const byCategory = new Map<string, Tool[]>();
+  for (const tool of availableTools) {
+    if (coveredCategories.has(tool.category) || inStack.has(tool.name.toLowerCase())) continue;
+    if (budget !== undefined && parseMonthlyPrice(tool.pricing) > budget) continue;
+    byCategory.set(tool.category, [...byCategory.get(tool.category) ?? [], tool]);
+  }
+
+  return Array.from(byCategory.entries())
+    .map(([category, tools]) => ({ category, tools: rankByRelevance(tools, category) }))
+    .sort((a, b) => score(b.tools[0]) - score(a.tools[0]) || a.category.localeCompare(b.category))
+    .slice(0, 5)
+    .map(({ category, tools }): ContextualRecommendation => {
+      const [tool, ...alternatives] = tools;
+      const essential = /database|deploy|devops|monitor|security|auth/i.test(category);
+      return {
+        type: /security|auth/i.test(category) ? "security" : "tool",
+        priority: essential ? "high" : "medium",
+        title: `Add ${tool.name} for ${category}`,
+        description: tool.description || `${tool.name} covers ${category}, which your stack does not include yet.`,
+        reasoning: `None of the tools in your stack cover ${category}.`,
+        suggestedTools: [tool],
+        budgetImpact: parseMonthlyPrice(tool.pricing),
+        implementationEffort: essential ? "medium" : "low",
+        teamSuitability: userContext?.teamSize === "solo" && essential ? 6 : 7,
+        industryRelevance: 5,
+        timeToValue: essential ? "2-4 weeks" : "1-2 weeks",
+        dependencies: [],
+        alternatives: alternatives.slice(0, 3).map(alternative => alternative.name),
+      };
+    });
+}
+
+// Default task per task category; categories stored in task_categories without a blueprint get a generic task
+const TASK_BLUEPRINTS: Record<string, {
+  title: string;
+  description: string;
+  priority: GeneratedTask["priority"];
+  complexity: Complexity;
+  hours: number;
+  after: string[];
+  toolMatch: RegExp;
+  toolLabel: string;
+  acceptanceCriteria: string[];
+}> = {
+  setup: {
+    title: "Set up the project repository and environments",
+    description: "Create the repository, development and staging environments, configuration and secrets handling.",
+    priority: "high", complexity: "low", hours: 8, after: [],
+    toolMatch: /ide|development|version control|devops/i, toolLabel: "Development environment",
+    acceptanceCriteria: ["A new developer can run the project locally from the README", "Staging environment is reachable"],
+  },
+  database: {
+    title: "Design the data model and database",
+    description: "Model the core entities, create the schema and seed development data.",
+    priority: "high", complexity: "medium", hours: 16, after: ["setup"],
+    toolMatch: /database|backend/i, toolLabel: "Database",
+    acceptanceCriteria: ["Schema covers every core entity", "Migrations or schema push run cleanly"],
+  },
+  auth: {
+    title: "Implement user authentication",
+    description: "Sign up, login, password reset and session handling with role-based access where needed.",
+    priority: "high", complexity: "medium", hours: 16, after: ["database"],
+    toolMatch: /auth|identity|security/i, toolLabel: "Authentication provider",
+    acceptanceCriteria: ["Users can register, log in and log out", "Protected routes reject anonymous requests"],
+  },
+  backend: {
+    title: "Build the core API",
+    description: "Implement the endpoints and business logic behind the main user workflows.",
+    priority: "high", complexity: "high", hours: 40, after: ["database", "auth"],
+    toolMatch: /backend|database|api|serverless/i, toolLabel: "Backend platform",
+    acceptanceCriteria: ["Every main workflow is served by an endpoint", "Invalid input returns clear errors"],
+  },
+  frontend: {
+    title: "Build the user interface",
+    description: "Implement the main screens and connect them to the API.",
+    priority: "high", complexity: "medium", hours: 40, after: ["backend"],
+    toolMatch: /frontend|design|ui/i, toolLabel: "Frontend framework",
+    acceptanceCriteria: ["Main workflows can be completed end to end in the browser", "Layouts work on mobile"],
+  },
+  integration: {
+    title: "Integrate third-party services",
+    description: "Connect payments, email and other external services the idea depends on.",
+    priority: "medium", complexity: "medium", hours: 16, after: ["backend"],
+    toolMatch: /payment|email|communication|integration/i, toolLabel: "Payment or email service",
+    acceptanceCriteria: ["External services are configured per environment", "Failures from external services are handled"],
+  },
+  testing: {
+    title: "Test the main workflows",
+    description: "Add automated tests for the core API and UI flows and run them in CI.",
+    priority: "medium", complexity: "medium", hours: 16, after: ["backend", "frontend"],
+    toolMatch: /test|qa/i, toolLabel: "Testing framework",
+    acceptanceCriteria: ["Core workflows are covered by automated tests", "Tests run on every change"],
+  },
+  devops: {
+    title: "Deploy to production",
+    description: "Set up the production deployment pipeline, monitoring and backups.",
+    priority: "high", complexity: "medium", hours: 12, after: ["testing", "frontend"],
+    toolMatch: /devops|deploy|hosting|monitor/i, toolLabel: "Hosting platform",
+    acceptanceCriteria: ["Deployments are repeatable", "Errors and downtime raise alerts"],
+  },
+  docs: {
+    title: "Write user and developer documentation",
+    description: "Document setup, architecture decisions and the main user workflows.",
+    priority: "low", complexity: "low", hours: 8, after: ["backend"],
+    toolMatch: /documentation|docs/i, toolLabel: "Documentation tool",
+    acceptanceCriteria: ["Setup and deployment are documented", "Main user workflows have a guide"],
+  },
+};
+
+const HOURS_BY_TYPICAL_DURATION: Record<string, number> = { hours: 4, days: 16, weeks: 40 };
+
+const COMPLEXITY_LEVEL_FACTOR: Record<NonNullable<TaskGenerationParameters["complexityLevel"]>, number> = {
+  simple: 0.75,
+  moderate: 1,
+  comprehensive: 1.5,
+};
+
+// Template task entries as stored in project_templates.default_tasks
+interface TemplateTask {
+  title: string;
+  description?: string;
+  category?: string;
+  priority?: GeneratedTask["priority"];
+  complexity?: Complexity;
+  estimatedHours?: number;
+  dependencies?: string[];
+}
+
+export function generateHeuristicProjectTasks(
+  idea: SavedIdea,
+  userContext: UserAIContext | undefined,
+  userStack: Tool[],
+  parameters: TaskGenerationParameters,
+  sources: Pick<HeuristicSources, "taskCategories" | "projectTemplates">
+): TaskGenerationResult {
+  const excluded = new Set([
+    ...(parameters.includeTesting === false ? ["testing"] : []),
+    ...(parameters.includeDevOps === false ? ["devops"] : []),
+    ...(parameters.includeDocumentation === false ? ["docs"] : []),
+  ]);
+  const categories = (sources.taskCategories.length > 0
+    ? sources.taskCategories
+    : Object.keys(TASK_BLUEPRINTS).map(id => ({ id } as TaskCategory))
+  ).filter(category => !excluded.has(category.id));
+  const includedIds = new Set(categories.map(category => category.id));
+
+  const factor = (COMPLEXITY_LEVEL_FACTOR[parameters.complexityLevel || "moderate"] ?? 1)
+    * (idea.implementationComplexity === "low" ? 0.8 : idea.implementationComplexity === "high" ? 1.3 : 1)
+    * (userContext?.technicalLevel === "beginner" ? 1.25 : userContext?.technicalLevel === "expert" ? 0.85 : 1);
+  const teamMembers = teamSizeMembers(parameters.teamSize || userContext?.teamSize);
+
+  const missingTools = new Set<string>();
+  const titleByCategory = new Map<string, string>();
+  const tasks: GeneratedTask[] = categories.map(category => {
+    const blueprint = TASK_BLUEPRINTS[category.id];
+    const toolMatch = blueprint?.toolMatch ?? categoryToolMatcher(category);
+    const suggestedTools = userStack.filter(tool => toolMatch?.test(tool.category)).map(tool => tool.name);
+    const toolLabel = blueprint?.toolLabel ?? `${category.name} tool`;
+    const requiredTools = toolMatch && suggestedTools.length === 0 ? [toolLabel] : [];
+    requiredTools.forEach(tool => missingTools.add(tool));
+
+    const hours = Math.max(1, Math.round((blueprint?.hours ?? HOURS_BY_TYPICAL_DURATION[category.typicalDuration || "days"] ?? 16) * factor));
+    const title = blueprint?.title ?? category.name;
+    titleByCategory.set(category.id, title);
+
+    return {
+      title,
+      description: blueprint?.description ?? category.description ?? `${category.name} work for ${idea.title}.`,
+      category: category.id,
+      priority: blueprint?.priority ?? asPriority(category.defaultPriority),
+      complexity: shiftComplexity(blueprint?.complexity ?? asComplexity(category.averageComplexity), parameters.complexityLevel === "comprehensive" ? 1 : 0),
+      estimatedHours: hours,
+      estimatedDays: Math.max(1, Math.ceil(hours / HOURS_PER_DAY)),
+      technicalRequirements: suggestedTools.length > 0 ? suggestedTools.map(tool => `Use ${tool}`) : [toolLabel],
+      acceptanceCriteria: blueprint?.acceptanceCriteria ?? [`${category.name} work for ${idea.title} is complete and reviewed`],
+      suggestedTools,
+      requiredTools,
+      costEstimate: requiredTools.length * MISSING_TOOL_MONTHLY_ESTIMATE,
+      resourceRequirements: {
+        skillsNeeded: category.skillsRequired?.length ? category.skillsRequired : [category.name ?? category.id],
+        teamMembers: Math.min(teamMembers, blueprint && blueprint.hours >= 40 ? 2 : 1),
+      },
+      dependencies: [],
+    };
+  });
+
+  // Dependencies follow the blueprint order; custom categories wait for setup
+  tasks.forEach((task, index) => {
+    const after = TASK_BLUEPRINTS[categories[index].id]?.after ?? (categories[index].id === "setup" ? [] : ["setup"]);
+    task.dependencies = after.filter(id => includedIds.has(id)).map(id => titleByCategory.get(id)!);
+  });
+
+  const template = rankTemplates(sources.projectTemplates, `${idea.title} ${idea.description} ${(idea.tags || []).join(" ")}`)[0];
+  if (template) {
+    for (const templateTask of readTemplateTasks(template.defaultTasks)) {
+      if (tasks.some(task => task.title.toLowerCase() === templateTask.title.toLowerCase())) continue;
+      const hours = Math.max(1, Math.round((templateTask.estimatedHours || 8) * factor));
+      tasks.push({
+        title: templateTask.title,
+        description: templateTask.description || `${templateTask.title} (from the ${template.name} template).`,
+        category: templateTask.category && includedIds.has(templateTask.category) ? templateTask.category : "backend",
+        priority: templateTask.priority || "medium",
+        complexity: templateTask.complexity || "medium",
+        estimatedHours: hours,
+        estimatedDays: Math.max(1, Math.ceil(hours / HOURS_PER_DAY)),
+        technicalRequirements: [],
+        acceptanceCriteria: [`${templateTask.title} is complete and reviewed`],
+        suggestedTools: [],
+        requiredTools: [],
+        costEstimate: 0,
+        resourceRequirements: { skillsNeeded: template.requiredSkills || [] },
+        dependencies: (templateTask.dependencies || []).filter(title => tasks.some(task => task.title === title)),
+      });
+    }
+  }
+
+  const criticalPath = findCriticalPath(tasks);
+  const criticalDays = criticalPath.reduce((sum, title) => sum + (tasks.find(task => task.title === title)?.estimatedDays ?? 0), 0);
+  const weeks = Math.max(1, Math.ceil(criticalDays / 5));
+  const stackMonthlyCost = missingTools.size * MISSING_TOOL_MONTHLY_ESTIMATE;
+  const estimatedCost = tasks.reduce((sum, task) => sum + task.costEstimate, 0) * Math.max(1, Math.ceil(weeks / 4));
+  const totalHours = tasks.reduce((sum, task) => sum + task.estimatedHours, 0);
+  const complexity: Complexity = totalHours <= 120 ? "low" : totalHours <= 240 ? "medium" : "high";
+  const budget = userContext?.monthlyBudget;
+
+  return {
+    tasks,
+    projectMetadata: {
+      totalDuration: `${weeks} ${weeks === 1 ? "week" : "weeks"}`,
+      estimatedCost,
+      complexity,
+      keyMilestones: buildMilestones(includedIds, template),
+      criticalPath,
+      riskAssessment: {
+        technical: missingTools.size > 0
+          ? `The stack is missing ${formatList(Array.from(missingTools))}.`
+          : "The current stack covers every task category.",
+        budget: budget !== undefined && stackMonthlyCost > budget
+          ? `Missing tools add about $${stackMonthlyCost}/month, above the $${budget} monthly budget.`
+          : `Missing tools add about $${stackMonthlyCost}/month.`,
+        timeline: `About ${totalHours} hours of work; the critical path takes ${criticalDays} working days.`,
+        team: describeTeamFit(parameters.teamSize || userContext?.teamSize, complexity),
+      },
+    },
+    stackAnalysis: {
+      toolsInStack: userStack.length,
+      toolsNeeded: userStack.length + missingTools.size,
+      missingTools: Array.from(missingTools),
+      additionalCosts: stackMonthlyCost,
+    },
+  };
+}
+
+// Longest chain of dependent tasks by duration; tasks only depend on earlier tasks
+function findCriticalPath(tasks: GeneratedTask[]): string[] {
+  const longest = new Map<string, { days: number; path: string[] }>();
+  for (const task of tasks) {
+    const best = task.dependencies
+      .map(title => longest.get(title))
+      .filter((entry): entry is { days: number; path: string[] } => !!entry)
+      .reduce((max, entry) => (entry.days > max.days ? entry : max), { days: 0, path: [] as string[] });
+    longest.set(task.title, { days: best.days + task.estimatedDays, path: [...best.path, task.title] });
+  }
+  return Array.from(longest.values()).reduce((max, entry) => (entry.days > max.days ? entry : max), { days: 0, path: [] as string[] }).path;
+}
+
+function buildMilestones(includedIds: Set<string>, template: ProjectTemplate | undefined): string[] {
+  const milestones: unknown[] = Array.isArray(template?.milestones) ? template!.milestones : [];
+  const templateMilestones = milestones
+    .map(milestone => typeof milestone === "string" ? milestone : (milestone as { name?: string } | null)?.name)
+    .filter((name): name is string => typeof name === "string");
+  if (templateMilestones.length > 0) return templateMilestones;
+
+  return [
+    "Development environment ready",
+    "Core features complete",
+    ...(includedIds.has("testing") ? ["Main workflows tested"] : []),
+    ...(includedIds.has("devops") ? ["Production launch"] : []),
+  ];
+}
+
+function readTemplateTasks(defaultTasks: unknown): TemplateTask[] {
+  if (!Array.isArray(defaultTasks)) return [];
+  return defaultTasks.filter((task): task is TemplateTask =>
+    !!task && typeof task === "object" && typeof (task as TemplateTask).title === "string"
+  );
+}
+
+// Active templates sorted by how many words they share with the text, then by usage
+function rankTemplates(templates: ProjectTemplate[], text: string): ProjectTemplate[] {
+  const words = tokenize(text);
+  return templates
+    .filter(template => template.isActive !== false)
+    .map(template => ({
+      template,
+      matches: countMatches(tokenize(`${template.name} ${formatTemplateCategory(template.category)} ${(template.platforms || []).join(" ")}`), words),
+    }))
+    .filter(entry => entry.matches > 0)
+    .sort((a, b) => b.matches - a.matches || (b.template.usageCount ?? 0) - (a.template.usageCount ?? 0))
+    .map(entry => entry.template);
+}
+
+function rankByRelevance(tools: Tool[], text: string): Tool[] {
+  const words = tokenize(text);
+  return tools
+    .map(tool => ({
+      tool,
+      matches: countMatches(tokenize(`${tool.name} ${tool.category} ${tool.description || ""} ${tool.features || ""}`), words),
+    }))
+    .filter(entry => entry.matches > 0 || words.length === 0)
+    .sort((a, b) => b.matches - a.matches || score(b.tool) - score(a.tool) || a.tool.name.localeCompare(b.tool.name))
+    .map(entry => entry.tool);
+}
+
+function score(tool: Tool | undefined): number {
+  if (!tool) return 0;
+  return parseAmount(tool.popularityScore) + parseAmount(tool.maturityScore);
+}
+
+function categoryToolMatcher(category: TaskCategory): RegExp | null {
+  const names = (category.toolCategories || []).map(name => name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return names.length > 0 ? new RegExp(names.join("|"), "i") : null;
+}
+
+const STOP_WORDS = new Set(["and", "the", "for", "with", "to", "a", "an", "of", "in", "on", "our", "my", "app"]);
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+// Words match on a shared prefix so "deploy" finds "deployment" and "monitor" finds "monitoring"
+function countMatches(candidates: string[], words: string[]): number {
+  return candidates.filter(candidate => words.some(word =>
+    candidate === word || (Math.min(candidate.length, word.length) >= 4 && (candidate.startsWith(word) || word.startsWith(candidate)))
+  )).length;
+}
+
+// Upper bound of a timeframe such as "3-6 months" or "8 weeks"
+function timeframeToWeeks(timeframe: string | undefined): number | null {
+  const match = timeframe?.toLowerCase().match(/(\d+)(?:\s*-\s*(\d+))?\+?\s*(week|month|year)/);
+  if (!match) return null;
+  const amount = parseInt(match[2] || match[1], 10);
+  return match[3] === "week" ? amount : match[3] === "month" ? Math.round(amount * 4.3) : amount * 52;
+}
+
+// First dollar amount in a pricing note such as "Free tier, Pro $25/month"
+function parseMonthlyPrice(pricing: string | null): number {
+  const match = pricing?.match(/\$\s*(\d+(?:\.\d+)?)/);
+  return match ? parseFloat(match[1]) : 0;
+}
+
+function parseAmount(value: string | null | undefined): number {
+  return parseFloat(value || "0") || 0;
+}
+
+function shiftComplexity(complexity: Complexity, steps: number): Complexity {
+  const index = Math.min(COMPLEXITY_ORDER.length - 1, Math.max(0, COMPLEXITY_ORDER.indexOf(complexity) + steps));
+  return COMPLEXITY_ORDER[index];
+}
+
+function asComplexity(value: string | null): Complexity {
+  return (COMPLEXITY_ORDER as readonly string[]).includes(value || "") ? value as Complexity : "medium";
+}
+
+function asPriority(value: string | null): GeneratedTask["priority"] {
+  return value === "low" || value === "high" || value === "urgent" ? value : "medium";
+}
+
+function teamSizeMembers(teamSize: string | undefined): number {
+  switch (teamSize) {
+    case "solo": return 1;
+    case "small": return 2;
+    case "medium": return 4;
+    case "large":
+    case "enterprise": return 6;
+    default: return 1;
+  }
+}
+
+function describeTeamFit(teamSize: string | undefined, complexity: Complexity): string {
+  if (!teamSize) return `A ${complexity} complexity project; team size not specified.`;
+  if (teamSize === "solo" && complexity === "high") return "Demanding for a solo founder; consider cutting scope or bringing in help.";
+  return `Suitable for a ${teamSize} team at ${complexity} complexity.`;
+}
+
+function formatTemplateCategory(category: string): string {
+  return category.replace(/_/g, " ");
+}
+
+function formatList(values: string[]): string {
+  if (values.length <= 1) return values[0] || "";
+  return `${values.slice(0, -1).join(", ")} and ${values[values.length - 1]}`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function uniqueValues(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean)));
+}
+
+// Without a model the best answer is a pointer to the retrieved sections, most relevant first
+export function generateHeuristicDocsAnswer(passages: DocPassage[]): DocsAnswerResult {
+  const sections = passages.map((passage, index) => {
+    const { title, heading, snippet } = toDocReference(passage);
+    return `- **${heading ? `${title} > ${heading}` : title}** [${index + 1}]: ${snippet}`;
+  });
+  return {
+    answer: `These documentation sections look most relevant to your question:\n\n${sections.join("\n")}`,
+    citations: passages,
+  };
+}
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import {
+  DEFAULT_LICENSE_POLICY,
+  buildLicenseReportEntry,
+  classifyLicense,
+  evaluateLicense,
+  normalizePyPILicense,
+  normalizeSpdxLicense,
+  resolveLicense,
+  summarizeLicenseStatuses,
+} from "../license-policy";
+
+assert.equal(normalizeSpdxLicense("MIT"), "MIT");
+assert.equal(normalizeSpdxLicense("mit"), "MIT");
+assert.equal(normalizeSpdxLicense("MIT License"), "MIT");
+assert.equal(normalizeSpdxLicense("Apache License, Version 2.0"), "Apache-2.0");
+assert.equal(normalizeSpdxLicense("Apache 2"), "Apache-2.0");
+assert.equal(normalizeSpdxLicense("BSD 3-Clause \"New\" or \"Revised\" License"), "BSD-3-Clause");
+assert.equal(normalizeSpdxLicense("GPL-3.0"), "GPL-3.0-only"); // Deprecated id
+assert.equal(normalizeSpdxLicense("GPLv2+"), "GPL-2.0-or-later");
+assert.equal(normalizeSpdxLicense("GNU Lesser General Public License v2.1"), "LGPL-2.1-only");
+assert.equal(normalizeSpdxLicense("GNU Affero General Public License v3.0"), "AGPL-3.0-only");
+assert.equal(normalizeSpdxLicense("(MIT OR apache-2.0)"), "(MIT OR Apache-2.0)");
+assert.equal(normalizeSpdxLicense("GPL-2.0-only WITH Classpath-exception-2.0"), "GPL-2.0-only WITH Classpath-exception-2.0");
+assert.equal(normalizeSpdxLicense("LicenseRef-Acme"), "LicenseRef-Acme");
+assert.equal(normalizeSpdxLicense("NOASSERTION"), null);
+assert.equal(normalizeSpdxLicense("GNU General Public License (GPL)"), null); // Version unknown
+assert.equal(normalizeSpdxLicense("Copyright (c) Acme, all rights reserved"), null);
+
+assert.equal(normalizePyPILicense({
+  license: "Copyright 2024 ... (full license text)",
+  classifiers: ["Programming Language :: Python", "License :: OSI Approved :: BSD License"],
+}), "BSD-3-Clause");
+assert.equal(normalizePyPILicense({ license_expression: "MIT", license: "BSD" }), "MIT");
+assert.equal(normalizePyPILicense({ license: "Apache 2.0" }), "Apache-2.0");
+
+assert.equal(classifyLicense("MIT"), "permissive");
+assert.equal(classifyLicense("MPL-2.0"), "weak-copyleft");
+assert.equal(classifyLicense("AGPL-3.0-only"), "strong-copyleft");
+assert.equal(classifyLicense("SSPL-1.0"), "restricted");
+assert.equal(classifyLicense(null), "unknown");
+assert.equal(classifyLicense("LicenseRef-Acme"), "unknown");
+// A choice of licenses takes the most permissive, a combination the most restrictive
+assert.equal(classifyLicense("GPL-2.0-only OR MIT"), "permissive");
+assert.equal(classifyLicense("MIT AND LGPL-2.1-only"), "weak-copyleft");
+
+assert.equal(evaluateLicense("MIT", DEFAULT_LICENSE_POLICY).status, "allowed");
+assert.equal(evaluateLicense("GPL-3.0-only", DEFAULT_LICENSE_POLICY).status, "flagged");
+assert.equal(evaluateLicense(null, DEFAULT_LICENSE_POLICY).status, "flagged");
+assert.equal(evaluateLicense("SSPL-1.0", { ...DEFAULT_LICENSE_POLICY, flagCopyleft: false }).status, "flagged");
+
+const policy = {
+  allowedLicenses: ["LGPL-3.0-only"],
+  deniedLicenses: ["agpl-3.0-only", "MIT"],
+  flagCopyleft: true,
+  flagUnknown: false,
+};
+assert.equal(evaluateLicense("LGPL-3.0-only", policy).status, "allowed");
+assert.equal(evaluateLicense("AGPL-3.0-only", policy).status, "denied");
+assert.equal(evaluateLicense("MIT OR Apache-2.0", policy).status, "allowed"); // Apache-2.0 avoids the denied license
+assert.equal(evaluateLicense("MIT AND Apache-2.0", policy).status, "denied");
+assert.equal(evaluateLicense(null, policy).status, "allowed");
+assert.equal(evaluateLicense("GPL-2.0-only", policy).status, "flagged");
+
+assert.equal(resolveLicense([null, "UNKNOWN", "ISC License", "MIT"]), "ISC");
+
+const entries = [
+  buildLicenseReportEntry("React", "MIT", DEFAULT_LICENSE_POLICY, { toolId: "react" }),
+  buildLicenseReportEntry("Ghostscript", "AGPL-3.0-only", DEFAULT_LICENSE_POLICY),
+  buildLicenseReportEntry("Internal SDK", null, DEFAULT_LICENSE_POLICY),
+];
+assert.deepEqual(entries[0], {
+  name: "React",
+  toolId: "react",
+  license: "MIT",
+  category: "permissive",
+  status: "allowed",
+  reason: "Permissive license",
+});
+assert.deepEqual(summarizeLicenseStatuses(entries), { allowed: 1, flagged: 2, denied: 0 });
+
+console.log("license-policy tests passed");
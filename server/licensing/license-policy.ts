@@ -0,0 +1,271 @@
+/**
+ * License Policy - SPDX normalization, license classification and per-user policy checks
+ * Registries report licenses as SPDX ids, free text or trove classifiers; everything is
+ * reduced to SPDX expressions so stacks and repositories can be audited the same way.
+ */
+
+import type { DetectedTool, LicenseCategory, LicenseReportEntry, LicenseStatus } from "@shared/schema";
+
+export interface LicensePolicyRules {
+  allowedLicenses: string[]; // Always accepted, even when copyleft
+  deniedLicenses: string[]; // Never accepted
+  flagCopyleft: boolean;
+  flagUnknown: boolean;
+}
+
+export interface LicenseEvaluation {
+  license: string | null;
+  category: LicenseCategory;
+  status: LicenseStatus;
+  reason: string;
+}
+
+export const DEFAULT_LICENSE_POLICY: LicensePolicyRules = {
+  allowedLicenses: [],
+  deniedLicenses: [],
+  flagCopyleft: true,
+  flagUnknown: true,
+};
+
+const LICENSE_CATEGORIES: Record<string, LicenseCategory> = {
+  "0BSD": "permissive",
+  "MIT": "permissive",
+  "MIT-0": "permissive",
+  "ISC": "permissive",
+  "Apache-2.0": "permissive",
+  "BSD-2-Clause": "permissive",
+  "BSD-3-Clause": "permissive",
+  "Unlicense": "permissive",
+  "CC0-1.0": "permissive",
+  "CC-BY-4.0": "permissive",
+  "Zlib": "permissive",
+  "BSL-1.0": "permissive",
+  "PSF-2.0": "permissive",
+  "Python-2.0": "permissive",
+  "Artistic-2.0": "permissive",
+  "BlueOak-1.0.0": "permissive",
+  "WTFPL": "permissive",
+  "LGPL-2.0-only": "weak-copyleft",
+  "LGPL-2.0-or-later": "weak-copyleft",
+  "LGPL-2.1-only": "weak-copyleft",
+  "LGPL-2.1-or-later": "weak-copyleft",
+  "LGPL-3.0-only": "weak-copyleft",
+  "LGPL-3.0-or-later": "weak-copyleft",
+  "MPL-2.0": "weak-copyleft",
+  "EPL-1.0": "weak-copyleft",
+  "EPL-2.0": "weak-copyleft",
+  "CDDL-1.0": "weak-copyleft",
+  "GPL-2.0-only": "strong-copyleft",
+  "GPL-2.0-or-later": "strong-copyleft",
+  "GPL-3.0-only": "strong-copyleft",
+  "GPL-3.0-or-later": "strong-copyleft",
+  "AGPL-3.0-only": "strong-copyleft",
+  "AGPL-3.0-or-later": "strong-copyleft",
+  "SSPL-1.0": "restricted",
+  "BUSL-1.1": "restricted",
+  "Elastic-2.0": "restricted",
+};
+
+// Deprecated SPDX ids still common in package metadata
+const DEPRECATED_IDS: Record<string, string> = {
+  "GPL-2.0": "GPL-2.0-only",
+  "GPL-2.0+": "GPL-2.0-or-later",
+  "GPL-3.0": "GPL-3.0-only",
+  "GPL-3.0+": "GPL-3.0-or-later",
+  "LGPL-2.0": "LGPL-2.0-only",
+  "LGPL-2.0+": "LGPL-2.0-or-later",
+  "LGPL-2.1": "LGPL-2.1-only",
+  "LGPL-2.1+": "LGPL-2.1-or-later",
+  "LGPL-3.0": "LGPL-3.0-only",
+  "LGPL-3.0+": "LGPL-3.0-or-later",
+  "AGPL-3.0": "AGPL-3.0-only",
+};
+
+const CANONICAL_IDS = new Map(
+  [...Object.keys(LICENSE_CATEGORIES), ...Object.keys(DEPRECATED_IDS)].map(id => [id.toLowerCase(), DEPRECATED_IDS[id] ?? id])
+);
+
+// Free-text names (GitHub display names, PyPI classifiers, hand-written package metadata)
+const LICENSE_NAME_PATTERNS: Array<[RegExp, string]> = [
+  [/^(the )?mit( license)?$|^expat$/, "MIT"],
+  [/^isc( license)?$/, "ISC"],
+  [/^apache( software)?( license)?,?( version)?[- ]?2(\.0)?$|^apache software license$/, "Apache-2.0"],
+  [/^bsd[- ]?2[- ]clause|simplified bsd|freebsd/, "BSD-2-Clause"],
+  // Trove classifiers do not say how many clauses; the 3-clause form is by far the most common
+  [/^bsd[- ]?3[- ]clause|new bsd|revised bsd|modified bsd|^bsd( license)?$/, "BSD-3-Clause"],
+  [/^(the )?unlicense$/, "Unlicense"],
+  [/^cc0/, "CC0-1.0"],
+  [/^zlib/, "Zlib"],
+  [/^boost/, "BSL-1.0"],
+  [/^(psf|python software foundation)( license)?( 2(\.0)?)?$/, "PSF-2.0"],
+  [/^mozilla public license 2\.0|^mpl[- ]?2(\.0)?$/, "MPL-2.0"],
+  [/^eclipse public license 2\.0|^epl[- ]?2(\.0)?$/, "EPL-2.0"],
+  [/^eclipse public license 1\.0|^epl[- ]?1(\.0)?$/, "EPL-1.0"],
+  [/^server side public license|^sspl/, "SSPL-1.0"],
+  [/^business source license|^busl/, "BUSL-1.1"],
+];
+
+const CATEGORY_RANK: Record<LicenseCategory, number> = {
+  permissive: 0,
+  "weak-copyleft": 1,
+  "strong-copyleft": 2,
+  restricted: 3,
+  unknown: 4,
+};
+
+/**
+ * Reduces a registry license value to an SPDX id or expression ("MIT OR Apache-2.0").
+ * Returns null when the value cannot be identified; the raw text is not kept because
+ * it would read as a license id in reports and SBOMs.
+ */
+export function normalizeSpdxLicense(raw: string | null | undefined): string | null {
+  const value = raw?.trim();
+  if (!value || value.length > 200 || /^(unknown|noassertion|none|other|see license( file)?)$/i.test(value)) return null;
+
+  if (/\s(AND|OR|WITH)\s/.test(value)) {
+    const tokens = value.match(/\(|\)|[^\s()]+/g) ?? [];
+    const normalized: string[] = [];
+    for (const [index, token] of tokens.entries()) {
+      if (token === "(" || token === ")" || /^(AND|OR|WITH)$/.test(token) || tokens[index - 1] === "WITH") {
+        normalized.push(token);
+        continue;
+      }
+      const id = normalizeLicenseId(token);
+      if (!id) return null;
+      normalized.push(id);
+    }
+    return normalized.join(" ").replace(/\( /g, "(").replace(/ \)/g, ")");
+  }
+
+  return normalizeLicenseId(value);
+}
+
+// PyPI metadata: PEP 639 expression, then "License :: OSI Approved :: ..." classifiers, then the free-text field
+export function normalizePyPILicense(info: { license?: string | null; license_expression?: string | null; classifiers?: string[] }): string | null {
+  const fromExpression = normalizeSpdxLicense(info.license_expression);
+  if (fromExpression) return fromExpression;
+
+  const classifierLicenses = (info.classifiers ?? [])
+    .filter(classifier => classifier.startsWith("License :: "))
+    .map(classifier => normalizeSpdxLicense(classifier.split(" :: ").pop()))
+    .filter((license): license is string => !!license);
+  if (classifierLicenses.length > 0) return Array.from(new Set(classifierLicenses)).join(" OR ");
+
+  return normalizeSpdxLicense(info.license);
+}
+
+export function classifyLicense(license: string | null | undefined): LicenseCategory {
+  if (!license) return "unknown";
+
+  // Without nesting, OR binds looser than AND: the least restrictive alternative applies
+  return getAlternatives(license)
+    .map(ids => ids.reduce<LicenseCategory>(
+      (category, id) => {
+        const idCategory = LICENSE_CATEGORIES[id] ?? "unknown";
+        return CATEGORY_RANK[idCategory] > CATEGORY_RANK[category] ? idCategory : category;
+      },
+      "permissive"
+    ))
+    .reduce<LicenseCategory>(
+      (least, category) => (CATEGORY_RANK[category] < CATEGORY_RANK[least] ? category : least),
+      "unknown"
+    );
+}
+
+export function evaluateLicense(license: string | null | undefined, policy: LicensePolicyRules): LicenseEvaluation {
+  const normalized = license ?? null;
+  const category = classifyLicense(normalized);
+  const allowed = new Set(policy.allowedLicenses.map(id => id.toLowerCase()));
+  const denied = new Set(policy.deniedLicenses.map(id => id.toLowerCase()));
+  const alternatives = normalized ? getAlternatives(normalized) : [];
+  const result = (status: LicenseStatus, reason: string): LicenseEvaluation => ({ license: normalized, category, status, reason });
+
+  if (alternatives.length > 0 && alternatives.every(ids => ids.some(id => denied.has(id.toLowerCase())))) {
+    return result("denied", "Denied by license policy");
+  }
+  if (alternatives.some(ids => ids.every(id => allowed.has(id.toLowerCase())))) {
+    return result("allowed", "Allowed by license policy");
+  }
+
+  switch (category) {
+    case "unknown":
+      return result(policy.flagUnknown ? "flagged" : "allowed", normalized ? `Unrecognized license ${normalized}` : "No license information");
+    case "restricted":
+      return result("flagged", "Source-available license that restricts commercial use");
+    case "strong-copyleft":
+      return result(policy.flagCopyleft ? "flagged" : "allowed", "Copyleft license: derivative works must be released under the same terms");
+    case "weak-copyleft":
+      return result(policy.flagCopyleft ? "flagged" : "allowed", "Weak copyleft license: modifications to the library must be shared");
+    default:
+      return result("allowed", "Permissive license");
+  }
+}
+
+// License the analyzer recorded from a lockfile, if any
+export function getDetectedLicense(tool: Pick<DetectedTool, "detectionDetails">): string | null {
+  const details = tool.detectionDetails as { license?: string } | null;
+  return details?.license ?? null;
+}
+
+// First source that yields a recognizable license wins
+export function resolveLicense(candidates: Array<string | null | undefined>): string | null {
+  for (const candidate of candidates) {
+    const license = normalizeSpdxLicense(candidate);
+    if (license) return license;
+  }
+  return null;
+}
+
+export function buildLicenseReportEntry(
+  name: string,
+  license: string | null,
+  policy: LicensePolicyRules,
+  details: Omit<LicenseReportEntry, "name" | keyof LicenseEvaluation> = {}
+): LicenseReportEntry {
+  return { name, ...details, ...evaluateLicense(license, policy) };
+}
+
+export function summarizeLicenseStatuses(entries: LicenseReportEntry[]): Record<LicenseStatus, number> {
+  const summary: Record<LicenseStatus, number> = { allowed: 0, flagged: 0, denied: 0 };
+  for (const entry of entries) summary[entry.status]++;
+  return summary;
+}
+
+function normalizeLicenseId(value: string): string | null {
+  const canonical = CANONICAL_IDS.get(value.toLowerCase());
+  if (canonical) return canonical;
+  if (/^LicenseRef-[\w.-]+$/.test(value)) return value; // Custom SPDX reference, classified as unknown
+
+  const name = value.toLowerCase().replace(/\s*\([^)]*\)\s*$/, "").trim(); // "GNU GPL v3 (GPLv3)"
+  for (const [pattern, id] of LICENSE_NAME_PATTERNS) {
+    if (pattern.test(name)) return id;
+  }
+  return matchGnuLicense(value.toLowerCase());
+}
+
+// "GPLv3", "GNU Lesser General Public License v2.1 or later", "GNU Affero General Public License v3"
+function matchGnuLicense(name: string): string | null {
+  const family = /affero|agpl/.test(name) ? "AGPL"
+    : /lesser|library general|lgpl/.test(name) ? "LGPL"
+    : /general public|\bgpl/.test(name) ? "GPL"
+    : null;
+  if (!family) return null;
+
+  const version = name.match(/(?:v|version\s*|-|\s)(\d)(?:\.(\d))?/);
+  if (!version) return null; // Copyleft, but which version is not stated
+  const id = `${family}-${version[1]}.${version[2] ?? "0"}`;
+  const suffix = /\+|or[ -]later|or any later/.test(name) ? "or-later" : "only";
+  return LICENSE_CATEGORIES[`${id}-${suffix}`] ? `${id}-${suffix}` : null;
+}
+
+function getAlternatives(expression: string): string[][] {
+  return expression
+    .replace(/[()]/g, " ")
+    .split(/\s+OR\s+/)
+    .map(alternative => alternative
+      .replace(/\s+WITH\s+\S+/g, "")
+      .split(/\s+AND\s+/)
+      .map(id => id.trim())
+      .filter(Boolean))
+    .filter(ids => ids.length > 0);
+}
@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { FixtureProvider } from "../fixture-provider";
+import { setLLMProvider, type LLMProvider } from "../provider";
+import { generateAuditedJson, hashPrompt, setAIInvocationRecorder, streamAuditedJson } from "../audit";
+import { estimateCost, estimateTokens, getModelPrice } from "../pricing";
+import { summarizeAIUsage } from "../usage-summary";
+import { generateBusinessIdeas } from "../../gemini";
+import type { AiInvocation, InsertAiInvocation } from "@shared/schema";
+
+const recorded: InsertAiInvocation[] = [];
+setAIInvocationRecorder(invocation => { recorded.push(invocation); });
+
+const schema = { type: "object" as const, properties: { ok: { type: "boolean" as const } } };
+
+// Reported token counts are priced with the model's list price
+const reportingProvider: LLMProvider = {
+  name: "gemini",
+  model: "gemini-2.5-flash",
+  async generateJson(request) {
+    request.onUsage?.({ inputTokens: 1000, outputTokens: 2000 });
+    return "{\"ok\":true}";
+  },
+};
+setLLMProvider(reportingProvider);
+assert.equal(await generateAuditedJson({ task: "business-ideas", prompt: "hello", schema }, { userId: "user", entityType: "idea", entityId: "idea-1" }), "{\"ok\":true}");
+assert.equal(recorded.length, 1);
+assert.equal(recorded[0].operation, "business-ideas");
+assert.equal(recorded[0].status, "success");
+assert.equal(recorded[0].promptHash, hashPrompt("hello"));
+assert.equal(recorded[0].promptHash.length, 64);
+assert.equal(recorded[0].inputTokens, 1000);
+assert.equal(recorded[0].outputTokens, 2000);
+assert.equal(recorded[0].usageEstimated, false);
+assert.equal(recorded[0].estimatedCost, "0.005300"); // 1000 * 0.30 + 2000 * 2.50 per million
+assert.equal(recorded[0].entityId, "idea-1");
+assert.equal(recorded[0].streamed, false);
+
+// Failures are recorded and still reach the caller
+setLLMProvider({
+  name: "openai",
+  model: "gpt-4o-mini",
+  async generateJson() { throw new Error("rate limited"); },
+});
+await assert.rejects(generateAuditedJson({ task: "tech-roadmap", prompt: "plan", schema }), /rate limited/);
+assert.equal(recorded[1].status, "failure");
+assert.equal(recorded[1].errorMessage, "rate limited");
+assert.equal(recorded[1].userId, null);
+
+// Providers without usage reports get an estimate; the generators go through the wrapper
+setLLMProvider(new FixtureProvider());
+await generateBusinessIdeas(["React"], undefined, { userId: "user" });
+assert.equal(recorded[2].operation, "business-ideas");
+assert.equal(recorded[2].provider, "fixture");
+assert.equal(recorded[2].usageEstimated, true);
+assert.ok(recorded[2].inputTokens > 0 && recorded[2].outputTokens > 0);
+assert.equal(recorded[2].estimatedCost, "0.000000");
+
+// A stream abandoned by the caller is recorded as cancelled
+const controller = new AbortController();
+for await (const _chunk of streamAuditedJson({ task: "project-tasks", prompt: "tasks", schema }, {}, controller.signal)) {
+  controller.abort();
+  break;
+}
+assert.equal(recorded[3].status, "cancelled");
+assert.equal(recorded[3].streamed, true);
+
+// A failing recorder never breaks the generation
+setAIInvocationRecorder(() => Promise.reject(new Error("database down")));
+const originalError = console.error;
+console.error = () => {};
+assert.ok(await generateAuditedJson({ task: "business-ideas", prompt: "hello", schema }));
+console.error = originalError;
+setAIInvocationRecorder(null);
+setLLMProvider(null);
+
+assert.deepEqual(getModelPrice("llama3.1", {}), { inputPerMTok: 0, outputPerMTok: 0 });
+assert.deepEqual(getModelPrice("llama3.1", { LLM_INPUT_COST_PER_MTOK: "1", LLM_OUTPUT_COST_PER_MTOK: "2" }), { inputPerMTok: 1, outputPerMTok: 2 });
+assert.equal(estimateCost("gpt-4o-mini", { inputTokens: 1_000_000, outputTokens: 1_000_000 }, {}), 0.75);
+assert.equal(estimateTokens("abcdefgh"), 2);
+
+const now = new Date("2026-03-10T12:00:00Z");
+const invocation = (overrides: Partial<AiInvocation>): AiInvocation => ({
+  id: "id",
+  userId: "user",
+  operation: "business-ideas",
+  provider: "gemini",
+  model: "gemini-2.5-flash",
+  promptHash: "hash",
+  inputTokens: 100,
+  outputTokens: 200,
+  usageEstimated: false,
+  estimatedCost: "0.010000",
+  latencyMs: 1000,
+  status: "success",
+  errorMessage: null,
+  entityType: null,
+  entityId: null,
+  streamed: false,
+  createdAt: now,
+  ...overrides,
+});
+const summary = summarizeAIUsage([
+  invocation({ id: "a" }),
+  invocation({ id: "b", operation: "project-tasks", estimatedCost: "0.050000", latencyMs: 3000, createdAt: new Date("2026-03-09T08:00:00Z") }),
+  invocation({ id: "c", status: "failure", estimatedCost: "0", createdAt: new Date("2026-03-09T09:00:00Z") }),
+], { days: 7, toolMonthlySpend: 45, monthlyBudget: 100, now });
+assert.equal(summary.totals.invocations, 3);
+assert.equal(summary.totals.failures, 1);
+assert.equal(summary.totals.inputTokens, 300);
+assert.equal(summary.totals.estimatedCost, 0.06);
+assert.equal(summary.totals.averageLatencyMs, Math.round(5000 / 3));
+assert.equal(summary.totals.projectedMonthlyCost, Math.round((0.06 / 7) * 30 * 1_000_000) / 1_000_000);
+assert.deepEqual(summary.byOperation.map(item => item.key), ["project-tasks", "business-ideas"]);
+assert.equal(summary.daily.length, 7);
+assert.deepEqual(summary.daily.slice(-2), [
+  { date: "2026-03-09", invocations: 2, estimatedCost: 0.05 },
+  { date: "2026-03-10", invocations: 1, estimatedCost: 0.01 },
+]);
+assert.equal(summary.recent[0].id, "a");
+assert.equal(summary.toolMonthlySpend, 45);
+
+console.log("audit tests passed");
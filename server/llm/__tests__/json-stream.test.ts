@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { JsonArrayStreamParser, stripCodeFence } from "../json-stream";
+import { FixtureProvider } from "../fixture-provider";
+import { setLLMProvider } from "../provider";
+import { streamProjectTasks, type GeneratedTask } from "../../gemini";
+import type { SavedIdea } from "@shared/schema";
+
+// Items come out as soon as they close, whatever the chunk boundaries
+const document = JSON.stringify({
+  tasks: [
+    { title: "Set up repo", notes: "handles \"quotes\", {braces} and [brackets]" },
+    { title: "Build API", dependencies: ["Set up repo"] },
+  ],
+  projectMetadata: { totalDuration: "2 weeks" },
+});
+const parser = new JsonArrayStreamParser("tasks");
+const seen: unknown[][] = [];
+for (let offset = 0; offset < document.length; offset += 7) {
+  seen.push(parser.push(document.slice(offset, offset + 7)));
+}
+const items = seen.flat() as Array<{ title: string }>;
+assert.deepEqual(items.map(item => item.title), ["Set up repo", "Build API"]);
+assert.ok(seen.findIndex(chunk => chunk.length > 0) < seen.length - 5); // First task before the document ends
+assert.equal(parser.itemCount, 2);
+assert.equal(parser.text, document);
+
+assert.equal(stripCodeFence("```json\n{\"a\":1}\n```"), "{\"a\":1}");
+assert.equal(stripCodeFence(" {\"a\":1} "), "{\"a\":1}");
+
+const idea = {
+  id: "idea",
+  userId: "user",
+  title: "Invoice SaaS",
+  description: "Subscription invoicing for freelancers",
+  toolsUsed: null,
+  monetization: null,
+  tags: null,
+  targetAudience: null,
+  implementationComplexity: null,
+  estimatedCost: null,
+  timeToMarket: null,
+  generationMetadata: null,
+  createdAt: null,
+} satisfies SavedIdea;
+
+const task = (title: string, dependencies: string[] = []): GeneratedTask => ({
+  title,
+  description: `${title} description`,
+  category: "backend",
+  priority: "high",
+  complexity: "medium",
+  estimatedHours: 8,
+  estimatedDays: 2,
+  technicalRequirements: [],
+  acceptanceCriteria: [],
+  suggestedTools: [],
+  requiredTools: [],
+  costEstimate: 0,
+  resourceRequirements: { skillsNeeded: [] },
+  dependencies,
+});
+
+setLLMProvider(new FixtureProvider({
+  fixtures: {
+    "project-tasks": {
+      tasks: [task("Set up repo"), task("Build API", ["Set up repo"]), task("Deploy", ["Build API"])],
+      projectMetadata: { totalDuration: "3 weeks", estimatedCost: 0, complexity: "low", keyMilestones: [], criticalPath: [], riskAssessment: {} },
+      stackAnalysis: { toolsInStack: 0, toolsNeeded: 0, missingTools: [], additionalCosts: 0 },
+    },
+  },
+}));
+
+const streamed: string[] = [];
+const result = await streamProjectTasks(idea, {}, [], {}, streamedTask => { streamed.push(streamedTask.title); });
+assert.deepEqual(streamed, ["Set up repo", "Build API", "Deploy"]);
+assert.equal(result.projectMetadata.totalDuration, "3 weeks");
+
+// Aborting stops the stream after the tasks already handed out
+const controller = new AbortController();
+const beforeCancel: string[] = [];
+await assert.rejects(streamProjectTasks(idea, {}, [], {}, streamedTask => {
+  beforeCancel.push(streamedTask.title);
+  controller.abort();
+}, controller.signal));
+assert.deepEqual(beforeCancel, ["Set up repo"]);
+setLLMProvider(null);
+
+console.log("json-stream tests passed");
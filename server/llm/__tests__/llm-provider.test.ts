@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createLLMProvider, setLLMProvider, type LLMUsage } from "../provider";
+import { FixtureProvider, buildFixtureValue } from "../fixture-provider";
+import { OpenAICompatibleProvider } from "../openai-compatible-provider";
+import { generateBusinessIdeas, generateTaskRefinements } from "../../gemini";
+
+const gemini = createLLMProvider({});
+assert.equal(gemini.name, "gemini");
+assert.equal(gemini.model, "gemini-2.5-flash");
+
+const ollama = createLLMProvider({ LLM_PROVIDER: "OpenAI", LLM_BASE_URL: "http://localhost:11434/v1", LLM_MODEL: "llama3.1" });
+assert.equal(ollama.name, "openai");
+assert.equal(ollama.model, "llama3.1");
+assert.equal(createLLMProvider({ LLM_PROVIDER: "fixture" }).name, "fixture");
+assert.throws(() => createLLMProvider({ LLM_PROVIDER: "palm" }), /Unknown LLM_PROVIDER/);
+
+assert.deepEqual(
+  buildFixtureValue({
+    type: "object",
+    properties: {
+      ideas: { type: "array", items: { type: "object", properties: { title: { type: "string" }, hours: { type: "number" } } } },
+      status: { type: "string", enum: ["ready", "blocked"] },
+    },
+  }, "ideas"),
+  {
+    ideas: [{ title: "ideas.ideas[0].title", hours: 1 }, { title: "ideas.ideas[1].title", hours: 1 }],
+    status: "ready",
+  }
+);
+
+const fixturesDir = mkdtempSync(path.join(tmpdir(), "llm-fixtures-"));
+writeFileSync(path.join(fixturesDir, "task-refinements.json"), JSON.stringify({
+  refinedTasks: [],
+  changes: [{ taskTitle: "Checkout", changeType: "split", description: "Split payment handling out" }]
+}));
+
+// The generators run end to end against the fixture provider, without credentials
+const fixtures = new FixtureProvider({
+  fixtures: { "business-ideas": { ideas: [{ title: "Invoice bot", description: "d", monetization: "m", tags: ["fintech"] }] } },
+  fixturesDir,
+});
+setLLMProvider(fixtures);
+
+const ideas = await generateBusinessIdeas(["Stripe"], ["automate invoicing"]);
+assert.deepEqual(ideas.map(idea => idea.title), ["Invoice bot"]);
+assert.equal(fixtures.requests[0].task, "business-ideas");
+assert.match(fixtures.requests[0].prompt, /Stripe/);
+
+const refinements = await generateTaskRefinements([], "Split large tasks", { teamSize: "small" });
+assert.equal(refinements.changes[0].changeType, "split");
+
+// Without a stored fixture the response is synthesized from the schema, identically every time
+const synthesized = await fixtures.generateJson({ task: "unknown-task", prompt: "", schema: { type: "array", items: { type: "string" } } });
+assert.equal(synthesized, JSON.stringify(["unknown-task[0]", "unknown-task[1]"]));
+setLLMProvider(null);
+
+// OpenAI-compatible endpoint, as served by Ollama or llama.cpp
+let received: any;
+let authorization: string | undefined;
+const server = createServer((req, res) => {
+  let body = "";
+  req.on("data", chunk => { body += chunk; });
+  req.on("end", () => {
+    received = JSON.parse(body);
+    authorization = req.headers.authorization;
+    if (received.stream) {
+      res.setHeader("Content-Type", "text/event-stream");
+      for (const content of ["{\"ok\"", ":true}"]) {
+        res.write(`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`);
+      }
+      res.write(`data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 12, completion_tokens: 3 } })}\n\n`);
+      res.end("data: [DONE]\n\n");
+      return;
+    }
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify({
+      choices: [{ message: { content: "```json\n{\"ok\":true}\n```" } }],
+      usage: { prompt_tokens: 10, completion_tokens: 4 }
+    }));
+  });
+});
+await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+const { port } = server.address() as AddressInfo;
+
+try {
+  const local = new OpenAICompatibleProvider({ baseUrl: `http://127.0.0.1:${port}/v1/`, model: "llama3.1" });
+  let usage: LLMUsage | undefined;
+  assert.equal(await local.generateJson({ task: "t", prompt: "hello", schema: { type: "object" }, onUsage: reported => { usage = reported; } }), "{\"ok\":true}");
+  assert.deepEqual(usage, { inputTokens: 10, outputTokens: 4 });
+  assert.equal(received.model, "llama3.1");
+  assert.deepEqual(received.response_format, { type: "json_object" });
+  assert.equal(received.messages[1].content, "hello");
+  assert.equal(authorization, undefined);
+
+  const hosted = new OpenAICompatibleProvider({ baseUrl: `http://127.0.0.1:${port}/v1`, model: "gpt-4o-mini", apiKey: "secret" });
+  await hosted.generateJson({ task: "t", prompt: "hello", schema: { type: "object" } });
+  assert.equal(authorization, "Bearer secret");
+
+  const chunks: string[] = [];
+  for await (const chunk of local.streamJson({ task: "t", prompt: "hello", schema: { type: "object" }, onUsage: reported => { usage = reported; } })) {
+    chunks.push(chunk);
+  }
+  assert.deepEqual(chunks, ["{\"ok\"", ":true}"]);
+  assert.equal(received.stream, true);
+  assert.deepEqual(received.stream_options, { include_usage: true });
+  assert.deepEqual(usage, { inputTokens: 12, outputTokens: 3 });
+} finally {
+  server.close();
+}
+
+console.log("llm-provider tests passed");
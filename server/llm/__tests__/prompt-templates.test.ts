@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { PROMPT_TEMPLATE_KEYS } from "@shared/schema";
+import { DEFAULT_PROMPT_TEMPLATES } from "../prompt-template-defaults";
+import {
+  checkTemplateBody,
+  findTemplateVariables,
+  formatUserContext,
+  renderPrompt,
+  renderTemplate,
+  samplePromptVariables,
+  setPromptTemplateResolver,
+} from "../prompt-templates";
+
+// Every default only uses its own variables, keeps the response format and renders completely from its sample
+for (const key of PROMPT_TEMPLATE_KEYS) {
+  const template = DEFAULT_PROMPT_TEMPLATES[key];
+  assert.deepEqual(checkTemplateBody(key, template.body), { unknownVariables: [], missingVariables: [] }, key);
+  assert.deepEqual(findTemplateVariables(template.body).sort(), Object.keys(template.variables).sort(), key);
+  assert.doesNotMatch(renderTemplate(template.body, samplePromptVariables(key, {})), /\{\{/, key);
+}
+
+assert.deepEqual(findTemplateVariables("{{ tools }} and {{tools}} for {{user-goal}}"), ["tools", "user-goal"]);
+assert.equal(renderTemplate("Use {{ tools }}, not {{typo}}", { tools: "Stripe" }), "Use Stripe, not {{typo}}");
+assert.deepEqual(checkTemplateBody("business-ideas", "Ideas for {{tools}} in {{industry}}"), {
+  unknownVariables: ["industry"],
+  missingVariables: ["responseFormat"],
+});
+
+assert.equal(formatUserContext({}), "Not specified");
+assert.equal(
+  formatUserContext({ teamSize: "small", monthlyBudget: 200, companyStage: "startup" }),
+  "Team size: small\nMonthly budget: $200\nCompany stage: startup"
+);
+assert.equal(samplePromptVariables("business-ideas", { teamSize: "solo" }).userContext, undefined);
+assert.equal(samplePromptVariables("tech-roadmap", { teamSize: "solo" }).userContext, "Team size: solo");
+
+// The workspace's version is used when the resolver has one; anything else falls back to the default
+const variables = { ...DEFAULT_PROMPT_TEMPLATES["business-ideas"].sample, tools: "Stripe" };
+const defaultPrompt = await renderPrompt("business-ideas", variables, { userId: "user" });
+assert.match(defaultPrompt, /^You are a business strategy expert/);
+
+const lookups: string[] = [];
+setPromptTemplateResolver(async (userId, key) => {
+  lookups.push(`${userId}:${key}`);
+  if (userId === "broken") throw new Error("database down");
+  return userId === "custom" ? "Be brief. Tools: {{tools}}\n{{responseFormat}}" : undefined;
+});
+assert.equal(await renderPrompt("business-ideas", variables, { userId: "custom" }), `Be brief. Tools: Stripe\n${variables.responseFormat}`);
+assert.equal(await renderPrompt("business-ideas", variables, { userId: "user" }), defaultPrompt);
+assert.equal(await renderPrompt("business-ideas", variables), defaultPrompt);
+
+const originalWarn = console.warn;
+console.warn = () => {};
+assert.equal(await renderPrompt("business-ideas", variables, { userId: "broken" }), defaultPrompt);
+console.warn = originalWarn;
+assert.deepEqual(lookups, ["custom:business-ideas", "user:business-ideas", "broken:business-ideas"]);
+setPromptTemplateResolver(null);
+
+console.log("prompt-templates tests passed");
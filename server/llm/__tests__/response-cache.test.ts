@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { AIResponseCache, buildCacheKey, normalizeCacheInput } from "../response-cache";
+
+// Key inputs are normalized: order, casing, whitespace and empty fields do not matter
+assert.equal(
+  buildCacheKey("tech-roadmap", "user", { currentStack: ["React", "Node.js"], goals: " Launch  MVP", timeframe: undefined }),
+  buildCacheKey("tech-roadmap", "user", { goals: "launch mvp", currentStack: ["node.js", "react"] })
+);
+assert.notEqual(
+  buildCacheKey("tech-roadmap", "user", { currentStack: ["React"] }),
+  buildCacheKey("tech-roadmap", "other-user", { currentStack: ["React"] })
+);
+assert.notEqual(
+  buildCacheKey("tech-roadmap", "user", { currentStack: ["React"] }),
+  buildCacheKey("enhanced-business-ideas", "user", { currentStack: ["React"] })
+);
+assert.deepEqual(normalizeCacheInput({ b: 2, a: { d: null, c: "X" } }), { a: { c: "x" }, b: 2 });
+
+let calls = 0;
+const generate = async () => ({ call: ++calls });
+
+const cache = new AIResponseCache(60_000);
+assert.deepEqual(await cache.getOrGenerate("key", generate), { value: { call: 1 }, cached: false });
+assert.deepEqual(await cache.getOrGenerate("key", generate), { value: { call: 1 }, cached: true });
+
+// Regenerate skips the lookup and replaces the stored result
+assert.deepEqual(await cache.getOrGenerate("key", generate, { bypass: true }), { value: { call: 2 }, cached: false });
+assert.deepEqual(await cache.getOrGenerate("key", generate), { value: { call: 2 }, cached: true });
+
+// Concurrent identical requests share one generation
+calls = 0;
+const [first, second] = await Promise.all([
+  cache.getOrGenerate("concurrent", generate),
+  cache.getOrGenerate("concurrent", generate),
+]);
+assert.equal(calls, 1);
+assert.equal(first.cached, false);
+assert.equal(second.cached, true);
+
+// Failures are not cached
+await assert.rejects(cache.getOrGenerate("failing", async () => { throw new Error("provider down"); }));
+assert.deepEqual(await cache.getOrGenerate("failing", async () => "ok"), { value: "ok", cached: false });
+
+// Expired entries are generated again; a zero TTL stores nothing
+const shortLived = new AIResponseCache(1);
+await shortLived.getOrGenerate("key", generate);
+await new Promise(resolve => setTimeout(resolve, 5));
+assert.equal((await shortLived.getOrGenerate("key", generate)).cached, false);
+const disabled = new AIResponseCache(0);
+await disabled.getOrGenerate("key", generate);
+assert.equal(disabled.size, 0);
+
+// The oldest entry is evicted beyond the size limit
+const bounded = new AIResponseCache(60_000, 2);
+await bounded.getOrGenerate("a", generate);
+await bounded.getOrGenerate("b", generate);
+await bounded.getOrGenerate("c", generate);
+assert.equal(bounded.size, 2);
+assert.equal((await bounded.getOrGenerate("a", generate)).cached, false);
+assert.equal((await bounded.getOrGenerate("c", generate)).cached, true);
+
+// Invalidation drops one user's results of one operation
+const scoped = new AIResponseCache(60_000);
+const roadmapKey = buildCacheKey("tech-roadmap", "user", { currentStack: ["React"] });
+const ideasKey = buildCacheKey("enhanced-business-ideas", "user", { currentStack: ["React"] });
+const otherUserKey = buildCacheKey("tech-roadmap", "other-user", { currentStack: ["React"] });
+await Promise.all([roadmapKey, ideasKey, otherUserKey].map(key => scoped.getOrGenerate(key, generate)));
+scoped.invalidate("tech-roadmap", "user");
+assert.equal((await scoped.getOrGenerate(roadmapKey, generate)).cached, false);
+assert.equal((await scoped.getOrGenerate(ideasKey, generate)).cached, true);
+assert.equal((await scoped.getOrGenerate(otherUserKey, generate)).cached, true);
+
+console.log("response-cache tests passed");
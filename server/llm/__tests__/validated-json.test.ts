@@ -0,0 +1,175 @@
+import assert from "node:assert/strict";
+import { setLLMProvider, type LLMJsonRequest } from "../provider";
+import { AIValidationError, generateValidatedJson, getValidationOutcome, parseAIResponse } from "../validated-json";
+import { businessIdeasResponseSchema, generatedTaskSchema, taskGenerationResultSchema } from "../response-schemas";
+import { generateBusinessIdeas, generateProjectTasks, streamProjectTasks } from "../../gemini";
+import type { SavedIdea } from "@shared/schema";
+
+const schema = { type: "object" as const };
+const idea = { title: "Invoice bot", description: "Chases unpaid invoices", monetization: "Subscription", tags: ["fintech"] };
+
+// Cosmetic problems are repaired in place
+const task = generatedTaskSchema.parse({
+  title: "Set up billing",
+  description: "Wire Stripe checkout",
+  category: "Backend",
+  priority: "HIGH",
+  complexity: " Medium ",
+  estimatedHours: "12",
+  estimatedDays: 2,
+  acceptanceCriteria: ["Payments succeed"],
+  suggestedTools: ["Stripe"],
+  requiredTools: [],
+  dependencies: [],
+});
+assert.equal(task.category, "backend");
+assert.equal(task.priority, "high");
+assert.equal(task.complexity, "medium");
+assert.equal(task.estimatedHours, 12);
+assert.deepEqual(task.technicalRequirements, []);
+assert.equal(task.costEstimate, 0);
+
+// Missing summary sections get neutral defaults; missing tasks do not
+const defaulted = taskGenerationResultSchema.parse({ tasks: [task] });
+assert.equal(defaulted.projectMetadata.complexity, "medium");
+assert.equal(defaulted.stackAnalysis.additionalCosts, 0);
+assert.equal(taskGenerationResultSchema.safeParse({ tasks: [] }).success, false);
+
+assert.deepEqual(parseAIResponse(undefined, businessIdeasResponseSchema), { success: false, issues: ["Empty response"] });
+assert.match((parseAIResponse("{\"ideas\":", businessIdeasResponseSchema) as { issues: string[] }).issues[0], /^Invalid JSON/);
+assert.deepEqual(parseAIResponse("```json\n{\"ideas\":[{\"title\":\"x\"}]}\n```", businessIdeasResponseSchema), {
+  success: false,
+  issues: ["ideas.0.description: Required", "ideas.0.monetization: Required"],
+});
+
+// A rejected response is sent back with its issues and the corrected one is accepted
+const requests: LLMJsonRequest[] = [];
+const responses = ["{\"ideas\":[{\"title\":\"Invoice bot\"}]}", JSON.stringify({ ideas: [idea] })];
+setLLMProvider({
+  name: "fixture",
+  model: "fixture",
+  async generateJson(request) {
+    requests.push(request);
+    return responses.shift();
+  },
+});
+const originalWarn = console.warn;
+console.warn = () => {};
+
+const repaired = await generateValidatedJson({ task: "business-ideas", prompt: "ideas please", schema }, businessIdeasResponseSchema);
+assert.deepEqual(repaired.data.ideas, [idea]);
+assert.deepEqual(repaired.validation, {
+  valid: true,
+  attempts: 2,
+  repaired: true,
+  issues: ["attempt 1: ideas.0.description: Required", "attempt 1: ideas.0.monetization: Required"],
+});
+assert.equal(requests[1].task, "business-ideas-repair");
+assert.match(requests[1].prompt, /^ideas please/);
+assert.match(requests[1].prompt, /- ideas\.0\.description: Required/);
+assert.match(requests[1].prompt, /\{"ideas":\[\{"title":"Invoice bot"\}\]\}/);
+
+// The loop is bounded; exhausting it fails like a provider error
+requests.length = 0;
+setLLMProvider({
+  name: "fixture",
+  model: "fixture",
+  async generateJson(request) {
+    requests.push(request);
+    return "not json";
+  },
+});
+await assert.rejects(
+  generateValidatedJson({ task: "business-ideas", prompt: "ideas please", schema }, businessIdeasResponseSchema, undefined, 1),
+  (error: unknown) => {
+    assert.ok(error instanceof AIValidationError);
+    assert.match(error.message, /failed validation after 2 attempts/);
+    assert.equal(error.validation.valid, false);
+    assert.equal(error.validation.attempts, 2);
+    assert.deepEqual(error.validation.issues.map(issue => issue.split(": ")[0]), ["attempt 1", "attempt 2"]);
+    return true;
+  }
+);
+assert.equal(requests.length, 2);
+
+// Generators wrap the error, but the outcome stays reachable for the fallback
+const originalError = console.error;
+console.error = () => {};
+await assert.rejects(generateBusinessIdeas(["Stripe"]), (error: unknown) => getValidationOutcome(error)?.attempts === 3);
+console.error = originalError;
+
+// Generators report the outcome so it can be stored with the generation metadata
+const savedIdea = {
+  id: "idea",
+  userId: "user",
+  title: "Invoice bot",
+  description: "Chases unpaid invoices",
+  toolsUsed: null,
+  monetization: null,
+  tags: null,
+  targetAudience: null,
+  implementationComplexity: null,
+  estimatedCost: null,
+  timeToMarket: null,
+  generationMetadata: null,
+  createdAt: null,
+} satisfies SavedIdea;
+
+setLLMProvider({
+  name: "fixture",
+  model: "fixture",
+  async generateJson() {
+    return JSON.stringify({ ideas: [idea] });
+  },
+});
+const ideas = await generateBusinessIdeas(["Stripe"]);
+assert.deepEqual(ideas, [{ ...idea, validation: { valid: true, attempts: 1, repaired: false, issues: [] } }]);
+
+setLLMProvider({
+  name: "fixture",
+  model: "fixture",
+  async generateJson() {
+    return JSON.stringify({ tasks: [task] });
+  },
+});
+const result = await generateProjectTasks(savedIdea, {}, [], {});
+assert.equal(result.tasks.length, 1);
+assert.deepEqual(result.validation, { valid: true, attempts: 1, repaired: false, issues: [] });
+
+// Streamed tasks cannot be re-asked for; malformed ones are skipped and reported
+setLLMProvider({
+  name: "fixture",
+  model: "fixture",
+  async generateJson() { return undefined; },
+  async *streamJson() {
+    yield JSON.stringify({ tasks: [task, { title: "Half a task" }, { ...task, title: "Deploy" }], stackAnalysis: "none" });
+  },
+});
+const streamed: string[] = [];
+const streamedResult = await streamProjectTasks(savedIdea, {}, [], {}, streamedTask => { streamed.push(streamedTask.title); });
+assert.deepEqual(streamed, ["Set up billing", "Deploy"]);
+assert.equal(streamedResult.validation?.valid, false);
+assert.ok(streamedResult.validation?.issues.includes("tasks.1.description: Required"));
+assert.ok(streamedResult.validation?.issues.some(issue => issue.startsWith("stackAnalysis:")));
+assert.equal(streamedResult.stackAnalysis.additionalCosts, 0);
+
+// A stream with no usable task fails with its issues so the heuristic fallback can record them
+setLLMProvider({
+  name: "fixture",
+  model: "fixture",
+  async generateJson() { return undefined; },
+  async *streamJson() {
+    yield JSON.stringify({ tasks: [{ title: "Half a task" }] });
+  },
+});
+console.error = () => {};
+await assert.rejects(
+  streamProjectTasks(savedIdea, {}, [], {}, () => {}),
+  (error: unknown) => getValidationOutcome(error)?.issues.includes("tasks.0.description: Required") === true
+);
+console.error = originalError;
+
+console.warn = originalWarn;
+setLLMProvider(null);
+
+console.log("validated-json tests passed");
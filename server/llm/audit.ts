@@ -0,0 +1,120 @@
+/**
+ * AI Audit - Wraps every LLM provider call made by server/gemini.ts and records it in ai_invocations
+ * Prompts are stored only as a SHA-256 hash; token counts fall back to an estimate when the provider reports none.
+ */
+
+import { createHash } from "crypto";
+import type { InsertAiInvocation } from "@shared/schema";
+import { getLLMProvider, type LLMJsonRequest, type LLMProvider, type LLMUsage } from "./provider";
+import { estimateCost, estimateTokens } from "./pricing";
+
+// Who and what a call was made for; all optional so background jobs can call the generators too
+export interface AIInvocationContext {
+  userId?: string;
+  entityType?: string; // idea, roadmap, task_generation
+  entityId?: string;
+}
+
+export type AIInvocationRecorder = (invocation: InsertAiInvocation) => Promise<unknown> | void;
+
+let recorder: AIInvocationRecorder | null = null;
+
+// registerRoutes points this at storage; tests can capture invocations instead
+export function setAIInvocationRecorder(next: AIInvocationRecorder | null): void {
+  recorder = next;
+}
+
+export function hashPrompt(prompt: string): string {
+  return createHash("sha256").update(prompt).digest("hex");
+}
+
+export async function generateAuditedJson(
+  request: LLMJsonRequest,
+  context: AIInvocationContext = {}
+): Promise<string | undefined> {
+  const provider = getLLMProvider();
+  const call = startInvocation(provider, request);
+
+  try {
+    const text = await provider.generateJson(call.request);
+    await call.finish("success", text ?? "", context);
+    return text;
+  } catch (error) {
+    await call.finish("failure", "", context, error);
+    throw error;
+  }
+}
+
+// Providers that cannot stream deliver the whole response as a single chunk
+export async function* streamAuditedJson(
+  request: LLMJsonRequest,
+  context: AIInvocationContext = {},
+  signal?: AbortSignal
+): AsyncIterable<string> {
+  const provider = getLLMProvider();
+  const call = startInvocation(provider, request, !!provider.streamJson);
+  let output = "";
+  let completed = false;
+  let failure: unknown;
+
+  try {
+    const chunks = provider.streamJson
+      ? provider.streamJson(call.request, signal)
+      : [await provider.generateJson(call.request) ?? ""];
+    for await (const chunk of chunks) {
+      output += chunk;
+      yield chunk;
+    }
+    completed = true;
+  } catch (error) {
+    failure = error;
+    throw error;
+  } finally {
+    // Also reached when the consumer stops iterating early, which only happens when it gives up on the response
+    const status = signal?.aborted || (!completed && !failure) ? "cancelled" : failure ? "failure" : "success";
+    await call.finish(status, output, context, failure);
+  }
+}
+
+function startInvocation(provider: LLMProvider, request: LLMJsonRequest, streamed = false) {
+  const startedAt = Date.now();
+  let reported: LLMUsage | undefined;
+
+  return {
+    request: {
+      ...request,
+      onUsage: (usage: LLMUsage) => {
+        reported = usage;
+        request.onUsage?.(usage);
+      }
+    } satisfies LLMJsonRequest,
+
+    async finish(status: "success" | "failure" | "cancelled", output: string, context: AIInvocationContext, error?: unknown) {
+      if (!recorder) return;
+
+      const usage = reported ?? { inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(output) };
+      try {
+        await recorder({
+          userId: context.userId ?? null,
+          operation: request.task,
+          provider: provider.name,
+          model: provider.model,
+          promptHash: hashPrompt(request.prompt),
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          usageEstimated: !reported,
+          estimatedCost: estimateCost(provider.model, usage).toFixed(6),
+          latencyMs: Date.now() - startedAt,
+          status,
+          errorMessage: error ? (error instanceof Error ? error.message : String(error)).slice(0, 1000) : null,
+          entityType: context.entityType ?? null,
+          entityId: context.entityId ?? null,
+          streamed,
+        });
+      } catch (recordError) {
+        // Accounting must never break the generation itself
+        console.error("Failed to record AI invocation:", recordError);
+      }
+    }
+  };
+}
@@ -0,0 +1,67 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import type { LLMJsonRequest, LLMProvider, LLMResponseSchema } from "./provider";
+
+export interface FixtureProviderOptions {
+  fixtures?: Record<string, unknown>; // Responses keyed by task name
+  fixturesDir?: string; // Directory of <task>.json files
+}
+
+const ARRAY_FIXTURE_LENGTH = 2;
+const STREAM_CHUNK_SIZE = 64; // Small enough that streamed items span several chunks
+
+// Deterministic, offline provider for tests and local development without credentials
+export class FixtureProvider implements LLMProvider {
+  readonly name = "fixture";
+  readonly model = "fixture";
+  readonly requests: LLMJsonRequest[] = [];
+
+  constructor(private options: FixtureProviderOptions = {}) {}
+
+  async generateJson(request: LLMJsonRequest): Promise<string | undefined> {
+    this.requests.push(request);
+
+    const { fixtures, fixturesDir } = this.options;
+    if (fixtures && request.task in fixtures) {
+      return JSON.stringify(fixtures[request.task]);
+    }
+
+    if (fixturesDir) {
+      const fixturePath = path.join(fixturesDir, `${path.basename(request.task)}.json`);
+      if (existsSync(fixturePath)) {
+        return readFileSync(fixturePath, "utf-8");
+      }
+    }
+
+    return JSON.stringify(buildFixtureValue(request.schema, request.task));
+  }
+
+  async *streamJson(request: LLMJsonRequest, signal?: AbortSignal): AsyncIterable<string> {
+    const text = await this.generateJson(request) ?? "";
+    for (let offset = 0; offset < text.length; offset += STREAM_CHUNK_SIZE) {
+      signal?.throwIfAborted();
+      yield text.slice(offset, offset + STREAM_CHUNK_SIZE);
+    }
+  }
+}
+
+// Builds a value that satisfies the schema; strings carry their path so fields stay distinguishable
+export function buildFixtureValue(schema: LLMResponseSchema, label: string): unknown {
+  switch (schema.type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, property]) => [key, buildFixtureValue(property, `${label}.${key}`)])
+      );
+    case "array":
+      return Array.from({ length: ARRAY_FIXTURE_LENGTH }, (_, index) =>
+        schema.items ? buildFixtureValue(schema.items, `${label}[${index}]`) : null
+      );
+    case "string":
+      return schema.enum?.[0] ?? label;
+    case "number":
+    case "integer":
+      return 1;
+    case "boolean":
+      return true;
+  }
+}
@@ -0,0 +1,56 @@
+import { GoogleGenAI } from "@google/genai";
+import type { GenerateContentResponseUsageMetadata } from "@google/genai";
+import type { LLMJsonRequest, LLMProvider, LLMUsage } from "./provider";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  private client: GoogleGenAI;
+
+  constructor(apiKey: string, readonly model: string = DEFAULT_GEMINI_MODEL) {
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  async generateJson({ prompt, schema, onUsage }: LLMJsonRequest): Promise<string | undefined> {
+    const response = await this.client.models.generateContent({
+      model: this.model,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema
+      },
+      contents: prompt,
+    });
+
+    if (response.usageMetadata) onUsage?.(toUsage(response.usageMetadata));
+    return response.text;
+  }
+
+  async *streamJson({ prompt, schema, onUsage }: LLMJsonRequest, signal?: AbortSignal): AsyncIterable<string> {
+    const stream = await this.client.models.generateContentStream({
+      model: this.model,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema,
+        abortSignal: signal
+      },
+      contents: prompt,
+    });
+
+    // Every chunk carries the running totals; the last one has the final counts
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    for await (const chunk of stream) {
+      usage = chunk.usageMetadata ?? usage;
+      if (chunk.text) yield chunk.text;
+    }
+    if (usage) onUsage?.(toUsage(usage));
+  }
+}
+
+// Thinking tokens are billed as output
+function toUsage(metadata: GenerateContentResponseUsageMetadata): LLMUsage {
+  return {
+    inputTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+  };
+}
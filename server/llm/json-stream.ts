@@ -0,0 +1,71 @@
+/**
+ * JSON Stream - Incremental extraction of array items from a JSON document that is still arriving
+ * Lets callers act on each element of e.g. "tasks" before the model has finished the whole response.
+ */
+
+export class JsonArrayStreamParser {
+  private buffer = "";
+  private position = 0; // Next character to scan
+  private state: "seeking" | "items" | "done" = "seeking";
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private itemStart = -1;
+  private emitted = 0;
+
+  constructor(private arrayKey: string) {}
+
+  get text(): string {
+    return this.buffer;
+  }
+
+  get itemCount(): number {
+    return this.emitted;
+  }
+
+  // Appends a chunk and returns the object or array items it completed; primitive items are skipped
+  push(chunk: string): unknown[] {
+    this.buffer += chunk;
+    const items: unknown[] = [];
+
+    if (this.state === "seeking") {
+      const match = new RegExp(`"${this.arrayKey}"\\s*:\\s*\\[`).exec(this.buffer);
+      if (!match) return items;
+      this.state = "items";
+      this.position = match.index + match[0].length;
+    }
+
+    while (this.state === "items" && this.position < this.buffer.length) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === "\\") this.escaped = true;
+        else if (char === "\"") this.inString = false;
+      } else if (char === "\"") {
+        this.inString = true;
+      } else if (char === "{" || char === "[") {
+        if (this.depth === 0) this.itemStart = this.position;
+        this.depth++;
+      } else if (char === "}" || char === "]") {
+        if (this.depth === 0) {
+          this.state = "done"; // End of the array itself
+        } else if (--this.depth === 0) {
+          items.push(JSON.parse(this.buffer.slice(this.itemStart, this.position + 1)));
+          this.emitted++;
+          this.itemStart = -1;
+        }
+      }
+
+      this.position++;
+    }
+
+    return items;
+  }
+}
+
+// Smaller local models often wrap JSON in a markdown fence despite being asked for JSON only
+export function stripCodeFence(content: string): string {
+  const match = content.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return match ? match[1] : content.trim();
+}
@@ -0,0 +1,115 @@
+import type { LLMJsonRequest, LLMProvider, LLMUsage } from "./provider";
+import { stripCodeFence } from "./json-stream";
+
+export const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+export const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+const DEFAULT_TIMEOUT_MS = 120000; // Local models on CPU can take a while
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama, http://localhost:8080/v1 for llama.cpp
+  model: string;
+  apiKey?: string; // Local servers usually need none
+  timeoutMs?: number;
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: ChatCompletionUsage | null;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: ChatCompletionUsage | null; // Only on the final chunk, and only when the server honours stream_options
+}
+
+// Any server implementing POST /chat/completions: OpenAI, Ollama, llama.cpp, vLLM, LM Studio
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+  readonly model: string;
+
+  constructor(private options: OpenAICompatibleOptions) {
+    this.model = options.model;
+  }
+
+  async generateJson(request: LLMJsonRequest): Promise<string | undefined> {
+    const response = await this.request(request, false);
+    const data = await response.json() as ChatCompletionResponse;
+    if (data.usage) request.onUsage?.(toUsage(data.usage));
+    const content = data.choices?.[0]?.message?.content;
+    return content ? stripCodeFence(content) : undefined;
+  }
+
+  // Server-sent events in the OpenAI format: "data: {chunk}" lines ending with "data: [DONE]"
+  async *streamJson(request: LLMJsonRequest, signal?: AbortSignal): AsyncIterable<string> {
+    const response = await this.request(request, true, signal);
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = "";
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pending += decoder.decode(value, { stream: true });
+        const lines = pending.split("\n");
+        pending = lines.pop() ?? "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+          const data = trimmed.slice("data:".length).trim();
+          if (data === "[DONE]") continue;
+          const chunk = JSON.parse(data) as ChatCompletionChunk;
+          if (chunk.usage) request.onUsage?.(toUsage(chunk.usage));
+          const content = chunk.choices?.[0]?.delta?.content;
+          if (content) yield content;
+        }
+      }
+    } finally {
+      // Closes the connection when the consumer stops early or a chunk fails to parse
+      await reader.cancel().catch(() => {});
+    }
+  }
+
+  private async request({ prompt, schema }: LLMJsonRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const url = `${this.options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+    const timeout = AbortSignal.timeout(this.options.timeoutMs || DEFAULT_TIMEOUT_MS);
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.options.apiKey && { "Authorization": `Bearer ${this.options.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          {
+            role: "system",
+            content: `Respond only with a JSON value that conforms to this JSON schema:\n${JSON.stringify(schema)}`
+          },
+          { role: "user", content: prompt }
+        ],
+        response_format: { type: "json_object" },
+        ...(stream && { stream: true, stream_options: { include_usage: true } })
+      }),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`LLM request to ${url} failed with ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`);
+    }
+
+    return response;
+  }
+}
+
+function toUsage(usage: ChatCompletionUsage): LLMUsage {
+  return { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 };
+}
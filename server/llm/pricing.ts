@@ -0,0 +1,42 @@
+import type { LLMUsage } from "./provider";
+
+export interface ModelPrice {
+  inputPerMTok: number; // USD per million input tokens
+  outputPerMTok: number; // USD per million output tokens
+}
+
+// Published list prices; models not listed (local, self-hosted) are treated as free unless overridden
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gemini-2.5-flash": { inputPerMTok: 0.30, outputPerMTok: 2.50 },
+  "gemini-2.5-flash-lite": { inputPerMTok: 0.10, outputPerMTok: 0.40 },
+  "gemini-2.5-pro": { inputPerMTok: 1.25, outputPerMTok: 10.00 },
+  "gpt-4o-mini": { inputPerMTok: 0.15, outputPerMTok: 0.60 },
+  "gpt-4o": { inputPerMTok: 2.50, outputPerMTok: 10.00 },
+  "gpt-4.1-mini": { inputPerMTok: 0.40, outputPerMTok: 1.60 },
+  "gpt-4.1": { inputPerMTok: 2.00, outputPerMTok: 8.00 },
+};
+
+const FREE: ModelPrice = { inputPerMTok: 0, outputPerMTok: 0 };
+
+// LLM_INPUT_COST_PER_MTOK / LLM_OUTPUT_COST_PER_MTOK override the table, e.g. for negotiated rates
+export function getModelPrice(model: string, env: NodeJS.ProcessEnv = process.env): ModelPrice {
+  const listed = MODEL_PRICES[model] ?? FREE;
+  const inputOverride = parseFloat(env.LLM_INPUT_COST_PER_MTOK || "");
+  const outputOverride = parseFloat(env.LLM_OUTPUT_COST_PER_MTOK || "");
+
+  return {
+    inputPerMTok: Number.isFinite(inputOverride) ? inputOverride : listed.inputPerMTok,
+    outputPerMTok: Number.isFinite(outputOverride) ? outputOverride : listed.outputPerMTok,
+  };
+}
+
+export function estimateCost(model: string, usage: LLMUsage, env: NodeJS.ProcessEnv = process.env): number {
+  const price = getModelPrice(model, env);
+  const cost = (usage.inputTokens * price.inputPerMTok + usage.outputTokens * price.outputPerMTok) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000; // estimated_cost keeps 6 decimals
+}
+
+// Rough count for providers that report no usage; about four characters per token for English text
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,444 @@
+/**
+ * Prompt Template Defaults - The built-in prompt of every AI generator, used until a workspace saves its own version
+ * The JSON response format is not part of the template; generators pass it as {{responseFormat}} next to their schema.
+ */
+
+import type { PromptTemplateKey } from "@shared/schema";
+import type { PromptTemplateDefinition } from "./prompt-templates";
+
+const USER_CONTEXT = "Team size, industry, technical level, monthly budget and company stage, one per line";
+const RESPONSE_FORMAT = "The JSON format the reply must follow; required";
+const SAMPLE_RESPONSE_FORMAT = "Respond with JSON in this exact format:\n{ ... }";
+
+const SAMPLE_IDEA = JSON.stringify({
+  title: "Invoice chaser",
+  description: "Automatically follows up on unpaid invoices",
+  monetization: "Monthly subscription",
+  toolsUsed: ["Stripe", "Supabase"],
+}, null, 2);
+const SAMPLE_TASKS = JSON.stringify([{ title: "Set up the database", category: "database", estimatedDays: 2, dependencies: [] }], null, 2);
+const SAMPLE_CONVERSATION = "User: Make it cheaper to run\nAssistant: Moved hosting to a smaller plan.";
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateKey, PromptTemplateDefinition> = {
+  "business-ideas": {
+    name: "Business ideas",
+    description: "Quick business ideas built on the selected tools",
+    variables: {
+      goals: "The user's goals, or \"Not specified\"",
+      tools: "Comma-separated names of the selected tools",
+      responseFormat: RESPONSE_FORMAT,
+    },
+    sample: { goals: "Launch a side project", tools: "Stripe, Supabase, Vercel", responseFormat: SAMPLE_RESPONSE_FORMAT },
+    body: `You are a business strategy expert specializing in tech stack analysis and monetization opportunities.
+
+User goals: {{goals}}
+
+Selected tech tools: {{tools}}
+
+Generate 3 creative and realistic business ideas that specifically leverage these tools. For each idea, provide:
+1. A compelling title (max 50 characters)
+2. A detailed description explaining how the tools work together (100-200 words)
+3. A specific monetization strategy (50-100 words)
+4. 3-5 relevant tags/keywords
+
+Focus on practical, implementable ideas that showcase the unique capabilities of the selected tools. Consider current market trends and opportunities.
+
+{{responseFormat}}`,
+  },
+
+  "enhanced-business-ideas": {
+    name: "Contextual business ideas",
+    description: "Business ideas tailored to the user's team, budget and industry",
+    variables: {
+      userContext: USER_CONTEXT,
+      goals: "The user's goals, or \"Not specified\"",
+      tools: "Comma-separated names of the selected tools",
+      responseFormat: RESPONSE_FORMAT,
+    },
+    sample: { goals: "Launch a side project", tools: "Stripe, Supabase, Vercel", responseFormat: SAMPLE_RESPONSE_FORMAT },
+    body: `You are an expert business strategist and technology consultant specializing in context-aware recommendations.
+
+User Context:
+{{userContext}}
+User goals: {{goals}}
+
+Selected tech tools: {{tools}}
+
+Generate 3 highly contextual business ideas that specifically:
+- Leverage the selected tools effectively
+- Match the user's technical level and team size
+- Fit within their budget constraints (if specified)
+- Align with their industry and company stage
+- Consider implementation complexity appropriate for their context
+
+For each idea, provide:
+1. Compelling title (max 50 characters)
+2. Detailed description explaining tool integration (150-250 words)
+3. Specific monetization strategy (75-125 words)
+4. Target audience description (50-100 words)
+5. Implementation complexity (low/medium/high) with justification
+6. Estimated cost breakdown (development, monthly operations)
+7. Time to market estimate
+8. 4-6 relevant tags/keywords
+9. Industry fit score (1-10) and team suitability explanation
+10. Budget compatibility assessment
+
+Focus on practical, achievable ideas that showcase realistic market opportunities within the user's constraints.
+
+{{responseFormat}}`,
+  },
+
+  "tech-roadmap": {
+    name: "Technology roadmap",
+    description: "Phased roadmap from the current stack to the target goals",
+    variables: {
+      userContext: USER_CONTEXT,
+      timeframe: "The target timeframe, or \"Flexible\"",
+      currentStack: "Comma-separated names of the tools in the current stack",
+      goals: "Comma-separated target goals",
+      responseFormat: RESPONSE_FORMAT,
+    },
+    sample: {
+      timeframe: "6 months",
+      currentStack: "Heroku, Postgres",
+      goals: "Scale to 10k users, Reduce hosting costs",
+      responseFormat: SAMPLE_RESPONSE_FORMAT,
+    },
+    body: `You are a senior technology architect and strategic planning expert.
+
+User Context:
+{{userContext}}
+Target timeframe: {{timeframe}}
+
+Current tech stack: {{currentStack}}
+Target goals: {{goals}}
+
+Create a comprehensive technology roadmap that:
+- Builds upon the existing stack strategically
+- Achieves the target goals efficiently
+- Respects budget and team constraints
+- Considers technical complexity appropriate for the team level
+- Includes realistic timelines and milestones
+- Addresses potential risks and dependencies
+
+Provide a detailed roadmap with:
+1. Clear title and description
+2. 3-5 phases with specific tools and technologies
+3. Duration estimates for each phase
+4. Cost breakdown (immediate and ongoing)
+5. Prerequisites and dependencies
+6. Risk assessment
+7. Learning resources for the team
+
+{{responseFormat}}`,
+  },
+
+  "contextual-recommendations": {
+    name: "Smart recommendations",
+    description: "Tool, process, architecture and security recommendations for the user's stack",
+    variables: {
+      userContext: USER_CONTEXT,
+      currentStack: "Comma-separated names of the tools in the user's stack",
+      tools: "Catalog tools that may be recommended, one per line with description and category",
+      docs: "Numbered documentation excerpts with citing instructions; empty when no docs match",
+      responseFormat: RESPONSE_FORMAT,
+    },
+    sample: {
+      currentStack: "Stripe, Supabase",
+      tools: "Sentry: Error tracking (Category: Monitoring)\nVercel: Frontend hosting (Category: Deployment)",
+      docs: "",
+      responseFormat: SAMPLE_RESPONSE_FORMAT,
+    },
+    body: `You are an expert technology consultant providing contextual recommendations.
+
+User Context:
+{{userContext}}
+Current stack: {{currentStack}}
+
+Available tools to recommend:
+{{tools}}
+{{docs}}
+Analyze the user's current stack and context to provide 5-8 highly relevant recommendations that:
+- Fill gaps in their current technology stack
+- Match their technical level and team size
+- Fit within budget constraints
+- Address industry-specific needs
+- Consider implementation effort and time to value
+- Provide alternatives when appropriate
+
+For each recommendation, provide:
+1. Type (tool/process/architecture/security)
+2. Priority level (low/medium/high/urgent)
+3. Clear title and description
+4. Reasoning for the recommendation
+5. Suggested tools (if applicable)
+6. Budget impact estimate
+7. Implementation effort level
+8. Team suitability score (1-10)
+9. Industry relevance score (1-10)
+10. Time to value estimate
+11. Dependencies and alternatives
+
+{{responseFormat}}`,
+  },
+
+  "project-tasks": {
+    name: "Project task breakdown",
+    description: "Breaks a saved idea into categorized, estimated project tasks",
+    variables: {
+      idea: "The saved idea: title, description, monetization, audience, complexity, cost and time to market, one per line",
+      userContext: USER_CONTEXT,
+      stack: "The user's tools with their categories",
+      parameters: "The generation options chosen by the user, one per line",
+      responseFormat: RESPONSE_FORMAT,
+    },
+    sample: {
+      idea: "Title: Invoice chaser\nDescription: Automatically follows up on unpaid invoices\nMonetization: Monthly subscription",
+      stack: "Stripe (Payments), Supabase (Database)",
+      parameters: "- Target timeframe: 3 months\n- Include DevOps: true\n- Include Testing: true\n- Include Documentation: true",
+      responseFormat: SAMPLE_RESPONSE_FORMAT,
+    },
+    body: `You are an expert project manager and technical architect specializing in breaking down business ideas into detailed, actionable project tasks.
+
+Business Idea:
+{{idea}}
+
+User Context:
+{{userContext}}
+
+Current Tech Stack: {{stack}}
+
+Task Generation Parameters:
+{{parameters}}
+
+Generate a comprehensive project breakdown with 15-25 detailed tasks that transform this business idea into an implementable project. Each task should:
+1. Be specific and actionable with clear deliverables
+2. Include realistic time estimates based on team size and technical level
+3. Align with the user's tech stack and suggest specific tools
+4. Have clear acceptance criteria and technical requirements
+5. Be properly categorized and prioritized
+6. Include dependencies on other tasks
+
+Task Categories to use:
+- setup (project initialization, environment setup)
+- frontend (UI/UX, components, pages, styling)
+- backend (APIs, business logic, server setup)
+- database (schema design, migrations, data modeling)
+- auth (authentication, authorization, user management)
+- testing (unit tests, integration tests, QA)
+- docs (technical documentation, user guides)
+- devops (deployment, CI/CD, monitoring)
+- integration (third-party APIs, payment systems)
+
+For each task, provide:
+1. Title (clear, action-oriented)
+2. Detailed description (what exactly needs to be done)
+3. Category (from the list above)
+4. Priority (low/medium/high/urgent)
+5. Complexity (low/medium/high)
+6. Estimated hours (realistic based on user's technical level)
+7. Estimated days (accounting for part-time work)
+8. Technical requirements (specific technologies, patterns)
+9. Acceptance criteria (clear success criteria)
+10. Suggested tools (from user's current stack)
+11. Required tools (new tools that must be added)
+12. Cost estimate (additional costs for tools/services)
+13. Resource requirements (skills, team members needed)
+14. Dependencies (task titles this depends on)
+
+Also provide project-level analysis:
+1. Total project duration and cost
+2. Overall complexity assessment
+3. Key milestones and critical path
+4. Risk assessment
+5. Stack analysis and tool gaps
+
+{{responseFormat}}`,
+  },
+
+  "task-sequencing": {
+    name: "Task sequencing",
+    description: "Orders generated tasks into phases, parallel tracks and milestones",
+    variables: {
+      userContext: USER_CONTEXT,
+      tasks: "The tasks to sequence as JSON: title, category, priority, complexity, estimated days and dependencies",
+      responseFormat: RESPONSE_FORMAT,
+    },
+    sample: { tasks: SAMPLE_TASKS, responseFormat: SAMPLE_RESPONSE_FORMAT },
+    body: `You are an expert project manager specializing in task sequencing and timeline optimization.
+
+User Context:
+{{userContext}}
+
+Tasks to sequence:
+{{tasks}}
+
+Analyze these tasks and create an optimized implementation sequence that:
+1. Respects all dependencies between tasks
+2. Maximizes parallel work opportunities
+3. Prioritizes high-impact tasks and critical path items
+4. Groups related tasks for efficiency
+5. Considers team capacity and skill distribution
+6. Balances workload across project phases
+7. Identifies potential bottlenecks and risks
+
+Provide:
+1. Optimized task order (array of task titles)
+2. Project timeline with phases and parallel tracks
+3. Recommendations for improving the sequence
+
+{{responseFormat}}`,
+  },
+
+  "task-refinements": {
+    name: "Task refinement",
+    description: "Reworks a generated task list from the user's feedback",
+    variables: {
+      userContext: USER_CONTEXT,
+      tasks: "The current tasks as JSON",
+      feedback: "The user's feedback on the tasks",
+      responseFormat: RESPONSE_FORMAT,
+    },
+    sample: { tasks: SAMPLE_TASKS, feedback: "Split the database work into schema and seed data", responseFormat: SAMPLE_RESPONSE_FORMAT },
+    body: `You are an expert project manager specializing in task refinement and optimization.
+
+User Context:
+{{userContext}}
+
+Current Tasks:
+{{tasks}}
+
+User Feedback:
+{{feedback}}
+
+Based on the user feedback, refine the task list by:
+1. Modifying existing tasks to better meet requirements
+2. Adding missing tasks that were identified
+3. Removing unnecessary or redundant tasks
+4. Splitting complex tasks into smaller, manageable pieces
+5. Merging related tasks that can be done together
+6. Adjusting estimates, priorities, or dependencies
+7. Improving task descriptions and acceptance criteria
+
+Provide:
+1. Complete refined task list
+2. Summary of all changes made
+
+{{responseFormat}}`,
+  },
+
+  "idea-refinement": {
+    name: "Idea refinement chat",
+    description: "Replies in the refinement thread of a saved idea and proposes changes to it and its tasks",
+    variables: {
+      subject: "\"a saved business idea\", followed by \"and its project tasks\" when tasks were generated",
+      idea: "The current idea as JSON",
+      tasks: "The generated tasks as JSON, or a note that there are none",
+      userContext: USER_CONTEXT,
+      conversation: "Earlier messages of the thread, or \"None yet\"",
+      message: "The user's new message",
+      changeInstructions: "How to return changed idea fields and tasks",
+      responseFormat: RESPONSE_FORMAT,
+    },
+    sample: {
+      subject: "a saved business idea",
+      idea: SAMPLE_IDEA,
+      tasks: "No tasks have been generated for this idea.",
+      conversation: SAMPLE_CONVERSATION,
+      message: "Drop Firebase, use Supabase",
+      changeInstructions: "If the request changes the idea, include the complete updated idea in \"idea\".\nLeave out \"idea\" when nothing needs to change.",
+      responseFormat: SAMPLE_RESPONSE_FORMAT,
+    },
+    body: `You are a product strategist helping a user iteratively refine {{subject}}.
+
+Current Idea:
+{{idea}}
+
+Generated Tasks:
+{{tasks}}
+
+User Context:
+{{userContext}}
+
+Conversation so far:
+{{conversation}}
+
+User Request:
+{{message}}
+
+Answer the request in "reply" (a few sentences explaining what you changed and why, or answering the question).
+{{changeInstructions}}
+
+{{responseFormat}}`,
+  },
+
+  "roadmap-refinement": {
+    name: "Roadmap refinement chat",
+    description: "Replies in the refinement thread of a roadmap and proposes changes to it",
+    variables: {
+      roadmap: "The current roadmap as JSON",
+      userContext: USER_CONTEXT,
+      conversation: "Earlier messages of the thread, or \"None yet\"",
+      message: "The user's new message",
+      responseFormat: RESPONSE_FORMAT,
+    },
+    sample: {
+      roadmap: JSON.stringify({ title: "Scale up", estimatedCost: 1000, timeline: [{ phase: 1, title: "Move to managed Postgres" }] }, null, 2),
+      conversation: SAMPLE_CONVERSATION,
+      message: "Halve the budget",
+      responseFormat: SAMPLE_RESPONSE_FORMAT,
+    },
+    body: `You are a senior technology consultant helping a user iteratively refine a saved technology roadmap.
+
+Current Roadmap:
+{{roadmap}}
+
+User Context:
+{{userContext}}
+
+Conversation so far:
+{{conversation}}
+
+User Request:
+{{message}}
+
+Answer the request in "reply" (a few sentences explaining what you changed and why, or answering the question).
+If the request changes the roadmap, include the complete updated roadmap in "roadmap", keeping the phase numbers of phases you keep.
+Leave out "roadmap" when nothing needs to change.
+
+{{responseFormat}}`,
+  },
+
+  "docs-answer": {
+    name: "Ask the docs",
+    description: "Answers a question from retrieved documentation sections with numbered citations",
+    variables: {
+      userContext: USER_CONTEXT,
+      docs: "Numbered documentation excerpts, each with its article title and section heading",
+      question: "The user's question",
+      responseFormat: RESPONSE_FORMAT,
+    },
+    sample: {
+      docs: "[1] Stripe Webhooks > Verifying signatures\nCheck the Stripe-Signature header with your endpoint secret.",
+      question: "How do I verify Stripe webhooks?",
+      responseFormat: SAMPLE_RESPONSE_FORMAT,
+    },
+    body: `You are the documentation assistant for a developer tool stack manager.
+
+Reader context:
+{{userContext}}
+
+Documentation excerpts:
+{{docs}}
+
+Question: {{question}}
+
+Answer the question using only the excerpts above:
+- Be concise and practical; use short paragraphs or bullet points
+- Mark every statement taken from an excerpt with its number in square brackets, e.g. [2]
+- If the excerpts do not answer the question, say so plainly instead of guessing
+- List the numbers of every excerpt you relied on in "citations"
+
+{{responseFormat}}`,
+  },
+};
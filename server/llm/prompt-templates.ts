@@ -0,0 +1,83 @@
+/**
+ * Prompt Templates - Renders generator prompts from {{variable}} templates that workspaces can edit
+ * Generators pass pre-formatted variable values; the workspace's newest saved version is used when one exists,
+ * otherwise the built-in default from prompt-template-defaults.ts.
+ */
+
+import type { PromptTemplateKey, UserAIContext } from "@shared/schema";
+import type { AIInvocationContext } from "./audit";
+import { DEFAULT_PROMPT_TEMPLATES } from "./prompt-template-defaults";
+
+export interface PromptTemplateDefinition {
+  name: string;
+  description: string;
+  body: string;
+  variables: Record<string, string>; // Variable name to what it contains
+  sample: Record<string, string>; // Preview values for every variable except userContext
+}
+
+// Every template must keep the response format, otherwise the reply cannot pass schema validation
+export const REQUIRED_TEMPLATE_VARIABLES = ["responseFormat"];
+
+// Returns the active body for the user's active workspace (or personal space when none), or undefined to use the default
+export type PromptTemplateResolver = (userId: string, key: PromptTemplateKey) => Promise<string | undefined>;
+
+let resolver: PromptTemplateResolver | null = null;
+
+export function setPromptTemplateResolver(next: PromptTemplateResolver | null): void {
+  resolver = next;
+}
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export function findTemplateVariables(body: string): string[] {
+  return Array.from(new Set(Array.from(body.matchAll(PLACEHOLDER), match => match[1])));
+}
+
+// Unknown placeholders are left in place so a typo is visible in the preview
+export function renderTemplate(body: string, variables: Record<string, string>): string {
+  return body.replace(PLACEHOLDER, (placeholder, name: string) => variables[name] ?? placeholder);
+}
+
+export function checkTemplateBody(key: PromptTemplateKey, body: string): { unknownVariables: string[]; missingVariables: string[] } {
+  const used = findTemplateVariables(body);
+  const known = DEFAULT_PROMPT_TEMPLATES[key].variables;
+  return {
+    unknownVariables: used.filter(name => !(name in known)),
+    missingVariables: REQUIRED_TEMPLATE_VARIABLES.filter(name => !used.includes(name)),
+  };
+}
+
+// The user context lines every template receives as {{userContext}}
+export function formatUserContext(userContext: UserAIContext): string {
+  const lines = [
+    userContext.teamSize && `Team size: ${userContext.teamSize}`,
+    userContext.industry && `Industry: ${userContext.industry}`,
+    userContext.technicalLevel && `Technical level: ${userContext.technicalLevel}`,
+    userContext.monthlyBudget && `Monthly budget: $${userContext.monthlyBudget}`,
+    userContext.companyStage && `Company stage: ${userContext.companyStage}`,
+  ].filter((line): line is string => !!line);
+  return lines.length > 0 ? lines.join("\n") : "Not specified";
+}
+
+export function samplePromptVariables(key: PromptTemplateKey, userContext: UserAIContext): Record<string, string> {
+  const { sample, variables } = DEFAULT_PROMPT_TEMPLATES[key];
+  return "userContext" in variables ? { ...sample, userContext: formatUserContext(userContext) } : { ...sample };
+}
+
+// A failing lookup falls back to the default so a database problem never blocks generation
+export async function renderPrompt(
+  key: PromptTemplateKey,
+  variables: Record<string, string>,
+  audit?: AIInvocationContext
+): Promise<string> {
+  let body: string | undefined;
+  if (resolver && audit?.userId) {
+    try {
+      body = await resolver(audit.userId, key);
+    } catch (error) {
+      console.warn(`Could not load the "${key}" prompt template, using the default:`, error);
+    }
+  }
+  return renderTemplate(body ?? DEFAULT_PROMPT_TEMPLATES[key].body, variables);
+}
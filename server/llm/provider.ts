@@ -0,0 +1,74 @@
+/**
+ * LLM Provider - Model-agnostic interface used by the AI generators in server/gemini.ts
+ * The provider is chosen with LLM_PROVIDER (gemini, openai or fixture) and LLM_MODEL.
+ */
+
+import { GeminiProvider, DEFAULT_GEMINI_MODEL } from "./gemini-provider";
+import { OpenAICompatibleProvider, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from "./openai-compatible-provider";
+import { FixtureProvider } from "./fixture-provider";
+
+// Subset of JSON Schema understood by every provider (and by Gemini's responseSchema)
+export interface LLMResponseSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  properties?: Record<string, LLMResponseSchema>;
+  items?: LLMResponseSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface LLMJsonRequest {
+  task: string; // Stable name of the calling generator, e.g. "business-ideas"; fixtures are keyed by it
+  prompt: string;
+  schema: LLMResponseSchema;
+  onUsage?: (usage: LLMUsage) => void; // Called with the token counts when the provider reports them
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  // Raw JSON text of the response, or undefined when the model returned nothing
+  generateJson(request: LLMJsonRequest): Promise<string | undefined>;
+  // Same response as text chunks while the model produces it; aborting the signal stops the request
+  streamJson?(request: LLMJsonRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+export type LLMProviderName = "gemini" | "openai" | "fixture";
+
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const name = (env.LLM_PROVIDER || "gemini").trim().toLowerCase();
+
+  switch (name) {
+    case "gemini":
+      return new GeminiProvider(env.GEMINI_API_KEY || "", env.LLM_MODEL || DEFAULT_GEMINI_MODEL);
+    case "openai":
+      return new OpenAICompatibleProvider({
+        baseUrl: env.LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+        model: env.LLM_MODEL || DEFAULT_OPENAI_MODEL,
+        apiKey: env.LLM_API_KEY || undefined,
+        timeoutMs: parseInt(env.LLM_TIMEOUT_MS || "", 10) || undefined
+      });
+    case "fixture":
+      return new FixtureProvider({ fixturesDir: env.LLM_FIXTURES_DIR || undefined });
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}" (expected gemini, openai or fixture)`);
+  }
+}
+
+let activeProvider: LLMProvider | null = null;
+
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createLLMProvider();
+  }
+  return activeProvider;
+}
+
+// Overrides the configured provider; pass null to go back to the environment configuration
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
@@ -0,0 +1,71 @@
+import type { LLMJsonRequest, LLMProvider } from "./provider";
+import { hashPrompt } from "./audit";
+
+export interface RecordedResponse {
+  task: string;
+  promptHash: string; // Hash of the prompt the response was recorded for
+  response: string | null; // null when the model returned nothing
+}
+
+// One file per evaluation case; provider and model say which configuration produced the responses
+export interface ResponseRecording {
+  provider: string;
+  model: string;
+  recordedAt: string;
+  responses: RecordedResponse[];
+}
+
+/**
+ * Replays recorded responses in order per task, so a re-ask gets the recorded repair response.
+ * A prompt that no longer matches its recording is still answered but listed in stalePrompts,
+ * because the response may not be what the current prompt would produce.
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly name = "replay";
+  readonly model: string;
+  readonly requests: LLMJsonRequest[] = [];
+  readonly stalePrompts: string[] = [];
+  private remaining: RecordedResponse[];
+
+  constructor(recording: ResponseRecording) {
+    this.model = recording.model;
+    this.remaining = [...recording.responses];
+  }
+
+  async generateJson(request: LLMJsonRequest): Promise<string | undefined> {
+    this.requests.push(request);
+
+    const index = this.remaining.findIndex(recorded => recorded.task === request.task);
+    if (index === -1) {
+      throw new Error(`No recorded response left for "${request.task}"`);
+    }
+
+    const [recorded] = this.remaining.splice(index, 1);
+    if (recorded.promptHash !== hashPrompt(request.prompt)) {
+      this.stalePrompts.push(request.task);
+    }
+    return recorded.response ?? undefined;
+  }
+}
+
+// Passes calls through to a real provider and keeps what it answered for a later replay
+export class RecordingProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly responses: RecordedResponse[] = [];
+
+  constructor(private inner: LLMProvider) {
+    this.name = inner.name;
+    this.model = inner.model;
+  }
+
+  async generateJson(request: LLMJsonRequest): Promise<string | undefined> {
+    const response = await this.inner.generateJson(request);
+    this.responses.push({ task: request.task, promptHash: hashPrompt(request.prompt), response: response ?? null });
+    return response;
+  }
+
+  toRecording(): ResponseRecording {
+    return { provider: this.name, model: this.model, recordedAt: new Date().toISOString(), responses: this.responses };
+  }
+}
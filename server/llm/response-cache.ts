@@ -0,0 +1,115 @@
+/**
+ * AI Response Cache - Reuses generations whose normalized inputs were already answered within the TTL
+ * Identical requests that arrive while a generation is running share it instead of paying for a second call.
+ */
+
+import { createHash } from "crypto";
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000; // 1 hour
+const DEFAULT_MAX_ENTRIES = 500;
+
+export interface CachedGeneration<T> {
+  value: T;
+  cached: boolean; // True when no provider call was made for this request
+}
+
+export interface CacheOptions {
+  bypass?: boolean; // Regenerate: skip the lookup but store the fresh result
+}
+
+export class AIResponseCache {
+  private entries: Map<string, { value: unknown; expiresAt: number }> = new Map();
+  private pending: Map<string, Promise<unknown>> = new Map();
+
+  constructor(
+    private ttlMs: number = DEFAULT_TTL_MS,
+    private maxEntries: number = DEFAULT_MAX_ENTRIES
+  ) {}
+
+  async getOrGenerate<T>(key: string, generate: () => Promise<T>, options: CacheOptions = {}): Promise<CachedGeneration<T>> {
+    if (!options.bypass) {
+      const entry = this.entries.get(key);
+      if (entry && Date.now() < entry.expiresAt) {
+        return { value: entry.value as T, cached: true };
+      }
+      this.entries.delete(key);
+
+      const running = this.pending.get(key);
+      if (running) {
+        return { value: await running as T, cached: true };
+      }
+    }
+
+    const generation = generate();
+    this.pending.set(key, generation);
+    try {
+      const value = await generation;
+      this.set(key, value);
+      return { value, cached: false };
+    } finally {
+      // A bypassing request may have replaced the entry in the meantime
+      if (this.pending.get(key) === generation) this.pending.delete(key);
+    }
+  }
+
+  // Drops the user's cached results of one operation, e.g. after its prompt template changed
+  invalidate(operation: string, userId: string): void {
+    const prefix = `${operation}:${userId}:`;
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.pending.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private set(key: string, value: unknown): void {
+    if (this.ttlMs <= 0) return;
+
+    // Maps iterate in insertion order, so re-inserting keeps the oldest entry first for eviction
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+// Same inputs in a different order or casing, or with different whitespace, produce the same key
+export function buildCacheKey(operation: string, userId: string, inputs: Record<string, unknown>): string {
+  const digest = createHash("sha256").update(JSON.stringify(normalizeCacheInput(inputs))).digest("hex");
+  return `${operation}:${userId}:${digest}`;
+}
+
+export function normalizeCacheInput(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.trim().replace(/\s+/g, " ").toLowerCase();
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map(normalizeCacheInput)
+      .sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined && entry !== null && entry !== "")
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, entry]) => [key, normalizeCacheInput(entry)])
+    );
+  }
+  return value;
+}
+
+// AI_CACHE_TTL_MS=0 turns caching off; concurrent identical requests are still shared
+export const aiResponseCache = new AIResponseCache(
+  process.env.AI_CACHE_TTL_MS !== undefined ? parseInt(process.env.AI_CACHE_TTL_MS, 10) || 0 : DEFAULT_TTL_MS
+);
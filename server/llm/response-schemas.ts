@@ -0,0 +1,229 @@
+/**
+ * AI Response Schemas - Zod schemas every generator response is validated against before it is used or persisted
+ * Cosmetic problems are repaired in place (enum casing, numeric strings, missing optional lists);
+ * anything else fails validation and triggers a re-ask.
+ */
+
+import { z } from "zod";
+import type { EnhancedBusinessIdea, GeneratedTechRoadmap, ContextualRecommendation, TechRoadmapPhase } from "@shared/schema";
+import type { BusinessIdea, GeneratedTask, TaskGenerationResult } from "../gemini";
+
+const text = z.string().trim().min(1);
+const textList = z.array(z.string()).default([]);
+const amount = z.coerce.number().finite().nonnegative();
+
+// Models often answer "High" or "MEDIUM" where the schema expects lowercase values
+function lowercaseEnum<U extends string, T extends Readonly<[U, ...U[]]>>(values: T) {
+  return z.preprocess(value => typeof value === "string" ? value.trim().toLowerCase() : value, z.enum(values));
+}
+
+const complexity = lowercaseEnum(["low", "medium", "high"]);
+const priority = lowercaseEnum(["low", "medium", "high", "urgent"]);
+
+export const businessIdeaSchema = z.object({
+  title: text,
+  description: text,
+  monetization: text,
+  tags: textList,
+}) satisfies z.ZodType<BusinessIdea, z.ZodTypeDef, unknown>;
+
+export const businessIdeasResponseSchema = z.object({
+  ideas: z.array(businessIdeaSchema).min(1),
+});
+
+export const enhancedBusinessIdeaSchema = businessIdeaSchema.extend({
+  targetAudience: z.string().optional(),
+  implementationComplexity: complexity,
+  estimatedCost: amount.optional(),
+  timeToMarket: text,
+  budgetFriendly: z.boolean(),
+  teamSuitability: z.string().default(""),
+  industryFit: z.coerce.number().min(1).max(10),
+}) satisfies z.ZodType<EnhancedBusinessIdea, z.ZodTypeDef, unknown>;
+
+export const enhancedIdeasResponseSchema = z.object({
+  ideas: z.array(enhancedBusinessIdeaSchema).min(1),
+});
+
+const riskAssessmentSchema = z.object({
+  technical: z.string().default(""),
+  budget: z.string().default(""),
+  timeline: z.string().default(""),
+  team: z.string().default(""),
+});
+
+const roadmapPhaseSchema = z.object({
+  phase: z.coerce.number().int().positive(),
+  title: text,
+  description: z.string().default(""),
+  tools: textList,
+  duration: text,
+  cost: amount.default(0),
+  prerequisites: textList,
+  deliverables: textList,
+  risks: textList,
+  learningResources: textList,
+}) satisfies z.ZodType<TechRoadmapPhase, z.ZodTypeDef, unknown>;
+
+export const techRoadmapSchema = z.object({
+  title: text,
+  description: text,
+  currentStack: textList,
+  targetStack: textList,
+  timeline: z.array(roadmapPhaseSchema).min(1),
+  totalDuration: text,
+  estimatedCost: amount,
+  complexity,
+  priority,
+  budgetImpact: z.object({
+    immediate: z.coerce.number().default(0),
+    monthly: z.coerce.number().default(0),
+    savings: z.coerce.number().default(0),
+  }).default({}),
+  prerequisites: textList,
+  riskAssessment: riskAssessmentSchema.default({}),
+}) satisfies z.ZodType<GeneratedTechRoadmap, z.ZodTypeDef, unknown>;
+
+// suggestedTools comes back as tool names; getContextualRecommendations resolves them against the catalog
+export const contextualRecommendationSchema = z.object({
+  type: lowercaseEnum(["tool", "process", "architecture", "security"]),
+  priority,
+  title: text,
+  description: text,
+  reasoning: z.string().default(""),
+  suggestedTools: textList,
+  budgetImpact: z.coerce.number().optional(),
+  implementationEffort: complexity,
+  teamSuitability: z.coerce.number().min(1).max(10),
+  industryRelevance: z.coerce.number().min(1).max(10),
+  timeToValue: z.string().default(""),
+  dependencies: textList,
+  alternatives: textList,
+  docReferences: z.array(z.coerce.number().int()).default([]), // Numbers of the documentation excerpts listed in the prompt
+}) satisfies z.ZodType<Omit<ContextualRecommendation, "suggestedTools" | "relatedDocs"> & { suggestedTools: string[] }, z.ZodTypeDef, unknown>;
+
+export const recommendationsResponseSchema = z.object({
+  recommendations: z.array(contextualRecommendationSchema),
+});
+
+export const generatedTaskSchema = z.object({
+  title: text,
+  description: text,
+  category: z.preprocess(value => typeof value === "string" ? value.trim().toLowerCase() : value, text),
+  priority,
+  complexity,
+  estimatedHours: amount,
+  estimatedDays: amount,
+  technicalRequirements: textList,
+  acceptanceCriteria: textList,
+  suggestedTools: textList,
+  requiredTools: textList,
+  costEstimate: amount.default(0),
+  resourceRequirements: z.object({
+    skillsNeeded: textList,
+    teamMembers: z.coerce.number().int().positive().optional(),
+    externalResources: z.array(z.string()).optional(),
+  }).default({}),
+  dependencies: textList,
+}) satisfies z.ZodType<GeneratedTask, z.ZodTypeDef, unknown>;
+
+// Tasks are what gets persisted; the summary sections fall back to neutral values when the model leaves them out
+export const taskGenerationResultSchema = z.object({
+  tasks: z.array(generatedTaskSchema).min(1),
+  projectMetadata: z.object({
+    totalDuration: z.string().default("Not specified"),
+    estimatedCost: amount.default(0),
+    complexity: complexity.default("medium"),
+    keyMilestones: textList,
+    criticalPath: textList,
+    riskAssessment: riskAssessmentSchema.default({}),
+  }).default({}),
+  stackAnalysis: z.object({
+    toolsInStack: amount.default(0),
+    toolsNeeded: amount.default(0),
+    missingTools: textList,
+    additionalCosts: amount.default(0),
+  }).default({}),
+}) satisfies z.ZodType<Omit<TaskGenerationResult, "validation">, z.ZodTypeDef, unknown>;
+
+const titleList = z.array(z.string());
+
+export const taskSequencingSchema = z.object({
+  optimizedOrder: titleList.min(1),
+  timeline: z.object({
+    phases: z.array(z.object({
+      name: text,
+      duration: z.string().default(""),
+      tasks: titleList.default([]),
+      parallelTracks: z.array(z.object({ name: z.string(), tasks: titleList.default([]) })).default([]),
+    })).default([]),
+    criticalPath: titleList.default([]),
+    totalDuration: z.string().default("Not specified"),
+    milestones: z.array(z.object({ name: text, tasks: titleList.default([]) })).default([]),
+  }),
+  recommendations: textList,
+});
+
+export type TaskSequencing = z.infer<typeof taskSequencingSchema>;
+
+export const taskRefinementsSchema = z.object({
+  refinedTasks: z.array(generatedTaskSchema),
+  changes: z.array(z.object({
+    taskTitle: text,
+    changeType: lowercaseEnum(["modified", "added", "removed", "split", "merged"]),
+    description: z.string().default(""),
+  })).default([]),
+});
+
+// Refinement replies carry the complete updated idea, task list or roadmap when something changed; the diff is computed from it
+export const refinedIdeaSchema = z.object({
+  title: text,
+  description: text,
+  monetization: z.string().default(""),
+  tags: textList,
+  toolsUsed: textList,
+  targetAudience: z.string().default(""),
+  implementationComplexity: complexity.optional(),
+  estimatedCost: amount.optional(),
+  timeToMarket: z.string().default(""),
+});
+
+export const refinedTaskSchema = generatedTaskSchema.extend({
+  id: z.string().optional(), // Set for existing tasks, omitted for new ones
+});
+
+export const ideaRefinementReplySchema = z.object({
+  reply: text,
+  idea: refinedIdeaSchema.optional(),
+  tasks: z.array(refinedTaskSchema).optional(),
+});
+
+export const refinedRoadmapSchema = z.object({
+  title: text,
+  description: text,
+  currentStack: textList,
+  targetStack: textList,
+  timeline: z.array(roadmapPhaseSchema).min(1),
+  totalDuration: text,
+  estimatedCost: amount.optional(),
+  complexity,
+  priority,
+});
+
+export const roadmapRefinementReplySchema = z.object({
+  reply: text,
+  roadmap: refinedRoadmapSchema.optional(),
+});
+
+// Citations are the numbers of the excerpts listed in the prompt
+export const docsAnswerSchema = z.object({
+  answer: text,
+  citations: z.array(z.coerce.number().int()).default([]),
+});
+
+export type RefinedIdea = z.infer<typeof refinedIdeaSchema>;
+export type RefinedTask = z.infer<typeof refinedTaskSchema>;
+export type RefinedRoadmap = z.infer<typeof refinedRoadmapSchema>;
+export type IdeaRefinementReply = z.infer<typeof ideaRefinementReplySchema>;
+export type RoadmapRefinementReply = z.infer<typeof roadmapRefinementReplySchema>;
+export type DocsAnswer = z.infer<typeof docsAnswerSchema>;
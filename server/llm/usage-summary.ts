@@ -0,0 +1,86 @@
+import type { AiInvocation, AIUsageBreakdown, AIUsageDailyPoint, AIUsageResponse } from "@shared/schema";
+
+const RECENT_INVOCATIONS = 20;
+
+export interface AIUsageSummaryOptions {
+  days: number;
+  toolMonthlySpend: number;
+  monthlyBudget: number | null;
+  now?: Date;
+}
+
+// Aggregates the invocations of one reporting period (newest first, as storage returns them)
+export function summarizeAIUsage(invocations: AiInvocation[], options: AIUsageSummaryOptions): AIUsageResponse {
+  const now = options.now ?? new Date();
+  const cost = (invocation: AiInvocation) => parseFloat(invocation.estimatedCost || "0");
+
+  const estimatedCost = roundCost(invocations.reduce((sum, invocation) => sum + cost(invocation), 0));
+  const totalLatency = invocations.reduce((sum, invocation) => sum + invocation.latencyMs, 0);
+
+  const daily = new Map<string, AIUsageDailyPoint>();
+  for (let offset = options.days - 1; offset >= 0; offset--) {
+    const date = toDateKey(new Date(now.getTime() - offset * 24 * 60 * 60 * 1000));
+    daily.set(date, { date, invocations: 0, estimatedCost: 0 });
+  }
+  for (const invocation of invocations) {
+    const point = invocation.createdAt && daily.get(toDateKey(invocation.createdAt));
+    if (point) {
+      point.invocations++;
+      point.estimatedCost = roundCost(point.estimatedCost + cost(invocation));
+    }
+  }
+
+  return {
+    days: options.days,
+    totals: {
+      invocations: invocations.length,
+      failures: invocations.filter(invocation => invocation.status === "failure").length,
+      inputTokens: invocations.reduce((sum, invocation) => sum + invocation.inputTokens, 0),
+      outputTokens: invocations.reduce((sum, invocation) => sum + invocation.outputTokens, 0),
+      estimatedCost,
+      averageLatencyMs: invocations.length > 0 ? Math.round(totalLatency / invocations.length) : 0,
+      projectedMonthlyCost: roundCost((estimatedCost / options.days) * 30),
+    },
+    byOperation: breakdown(invocations, invocation => invocation.operation),
+    byModel: breakdown(invocations, invocation => invocation.model),
+    daily: Array.from(daily.values()),
+    recent: invocations.slice(0, RECENT_INVOCATIONS).map(invocation => ({
+      id: invocation.id,
+      operation: invocation.operation,
+      model: invocation.model,
+      status: invocation.status,
+      inputTokens: invocation.inputTokens,
+      outputTokens: invocation.outputTokens,
+      estimatedCost: invocation.estimatedCost,
+      latencyMs: invocation.latencyMs,
+      usageEstimated: invocation.usageEstimated,
+      createdAt: invocation.createdAt,
+    })),
+    toolMonthlySpend: options.toolMonthlySpend,
+    monthlyBudget: options.monthlyBudget,
+  };
+}
+
+// Most expensive first, then most used
+function breakdown(invocations: AiInvocation[], keyOf: (invocation: AiInvocation) => string): AIUsageBreakdown[] {
+  const groups = new Map<string, AIUsageBreakdown>();
+  for (const invocation of invocations) {
+    const key = keyOf(invocation);
+    const group = groups.get(key) ?? { key, invocations: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0 };
+    group.invocations++;
+    group.inputTokens += invocation.inputTokens;
+    group.outputTokens += invocation.outputTokens;
+    group.estimatedCost = roundCost(group.estimatedCost + parseFloat(invocation.estimatedCost || "0"));
+    groups.set(key, group);
+  }
+  return Array.from(groups.values())
+    .sort((a, b) => b.estimatedCost - a.estimatedCost || b.invocations - a.invocations);
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
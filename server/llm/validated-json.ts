@@ -0,0 +1,117 @@
+/**
+ * Validated JSON - Parses AI responses against their Zod schema and re-asks the model when they do not match
+ * The outcome (attempts, repairs, issues found) is returned alongside the data for the generation metadata.
+ */
+
+import type { z } from "zod";
+import type { AIValidationOutcome } from "@shared/schema";
+import type { LLMJsonRequest } from "./provider";
+import { generateAuditedJson, type AIInvocationContext } from "./audit";
+import { stripCodeFence } from "./json-stream";
+
+export const MAX_REPAIR_ATTEMPTS = 2;
+const MAX_REPORTED_ISSUES = 10;
+const MAX_ECHOED_RESPONSE_CHARS = 8000; // Keeps re-ask prompts within small context windows
+
+export type ParsedAIResponse<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+export interface ValidatedGeneration<T> {
+  data: T;
+  validation: AIValidationOutcome;
+}
+
+// Thrown once every attempt was rejected; carries the outcome so the fallback can still record it
+export class AIValidationError extends Error {
+  constructor(message: string, readonly validation: AIValidationOutcome) {
+    super(message);
+    this.name = "AIValidationError";
+  }
+}
+
+// Generators wrap provider errors, so the outcome is looked up along the cause chain
+export function getValidationOutcome(error: unknown): AIValidationOutcome | undefined {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof AIValidationError) return current.validation;
+  }
+  return undefined;
+}
+
+export function parseAIResponse<T>(rawJson: string | undefined, schema: z.ZodType<T, z.ZodTypeDef, unknown>): ParsedAIResponse<T> {
+  const text = rawJson ? stripCodeFence(rawJson) : "";
+  if (!text) {
+    return { success: false, issues: ["Empty response"] };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return { success: false, issues: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const result = schema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, issues: formatIssues(result.error) };
+}
+
+// basePath locates items that were validated on their own, e.g. ["tasks", 3]
+export function formatIssues(error: z.ZodError, basePath: Array<string | number> = []): string[] {
+  return error.issues
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map(issue => {
+      const path = [...basePath, ...issue.path];
+      return `${path.length > 0 ? path.join(".") : "(root)"}: ${issue.message}`;
+    });
+}
+
+// Re-asks with the rejected response and what was wrong with it
+export function buildRepairRequest(request: LLMJsonRequest, rawJson: string | undefined, issues: string[]): LLMJsonRequest {
+  const previous = (rawJson ?? "").slice(0, MAX_ECHOED_RESPONSE_CHARS);
+  return {
+    ...request,
+    task: `${request.task}-repair`,
+    prompt: `${request.prompt}
+
+Your previous response could not be used:
+${issues.map(issue => `- ${issue}`).join("\n")}
+
+Previous response:
+${previous || "(empty)"}
+
+Respond again with the complete, corrected JSON only.`
+  };
+}
+
+/**
+ * Generates and validates, re-asking up to maxRepairs times when the response does not match the schema.
+ * Throws an AIValidationError once the attempts are used up so callers fall back the same way as for provider errors.
+ */
+export async function generateValidatedJson<T>(
+  request: LLMJsonRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  audit?: AIInvocationContext,
+  maxRepairs: number = MAX_REPAIR_ATTEMPTS
+): Promise<ValidatedGeneration<T>> {
+  const issues: string[] = [];
+  let nextRequest = request;
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const rawJson = await generateAuditedJson(nextRequest, audit);
+    const parsed = parseAIResponse(rawJson, schema);
+    if (parsed.success) {
+      return { data: parsed.data, validation: { valid: true, attempts: attempt, repaired: attempt > 1, issues } };
+    }
+
+    console.warn(`AI response for ${request.task} failed validation (attempt ${attempt}):`, parsed.issues.join("; "));
+    issues.push(...parsed.issues.map(issue => `attempt ${attempt}: ${issue}`));
+    nextRequest = buildRepairRequest(request, rawJson, parsed.issues);
+  }
+
+  throw new AIValidationError(
+    `AI response failed validation after ${maxRepairs + 1} attempts: ${issues.slice(-3).join("; ")}`,
+    { valid: false, attempts: maxRepairs + 1, repaired: false, issues }
+  );
+}
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import {
+  acceptedCollaboratorIds,
+  collaboratorRoleAllows,
+  describeAssignmentProblem,
+  describeInvitationProblem,
+} from "../collaborator-access";
+
+// Editors read and write, viewers only read; neither manages collaborators
+assert.ok(collaboratorRoleAllows("editor", "write"));
+assert.ok(!collaboratorRoleAllows("editor", "manage"));
+assert.ok(collaboratorRoleAllows("viewer", "read"));
+assert.ok(!collaboratorRoleAllows("viewer", "write"));
+assert.ok(!collaboratorRoleAllows(undefined, "read"));
+
+const collaborators = [
+  { userId: "ana", status: "accepted" },
+  { userId: "ben", status: "pending" },
+];
+assert.deepEqual(acceptedCollaboratorIds(collaborators), ["ana"]);
+
+// The owner and existing collaborators or invitees cannot be invited again
+assert.match(describeInvitationProblem("owner", "owner")!, /owner already has access/);
+assert.match(describeInvitationProblem("owner", "ana", collaborators[0])!, /already a collaborator/);
+assert.match(describeInvitationProblem("owner", "ben", collaborators[1])!, /pending invitation/);
+assert.equal(describeInvitationProblem("owner", "cleo"), undefined);
+
+// Tasks go to the owner or accepted collaborators; unassigning is always allowed
+assert.equal(describeAssignmentProblem("owner", "owner", collaborators), undefined);
+assert.equal(describeAssignmentProblem("ana", "owner", collaborators), undefined);
+assert.equal(describeAssignmentProblem(null, "owner", []), undefined);
+assert.match(describeAssignmentProblem("ben", "owner", collaborators)!, /not accepted/);
+assert.match(describeAssignmentProblem("cleo", "owner", collaborators)!, /owner and its collaborators/);
+
+console.log("collaborator-access tests passed");
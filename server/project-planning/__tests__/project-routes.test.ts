@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import type { Project } from "@shared/schema";
+import { collaboratorRoleAllows } from "../collaborator-access";
+import { registerProjectRoutes, type ProjectRouteStorage } from "../project-routes";
+
+// A personal project owned by "owner", with "editor" and "viewer" as accepted collaborators
+const project = { id: "p1", name: "Launch", ownerId: "owner", userId: "owner" } as Project;
+const collaboratorRoles: Record<string, "editor" | "viewer"> = { editor: "editor", viewer: "viewer" };
+const updates: Array<Record<string, unknown>> = [];
+const deleted: string[] = [];
+
+const stubStorage: ProjectRouteStorage = {
+  // Mirrors DatabaseStorage.verifyProjectOwnership for a project outside any workspace
+  async verifyProjectOwnership(projectId, userId, access = "write") {
+    if (projectId !== project.id) return false;
+    if (project.ownerId === userId) return true;
+    return collaboratorRoleAllows(collaboratorRoles[userId], access);
+  },
+  async updateProject(id, changes) {
+    updates.push(changes as Record<string, unknown>);
+    return { ...project, ...changes } as Project;
+  },
+  async deleteProject(id) {
+    deleted.push(id);
+  },
+};
+
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  const userId = req.header("x-test-user");
+  if (userId) req.user = { id: userId } as Express.User;
+  next();
+});
+registerProjectRoutes(app, stubStorage);
+
+const server = app.listen(0);
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+const request = (method: string, userId: string | undefined, body?: unknown) =>
+  fetch(`${baseUrl}/api/projects/p1`, {
+    method,
+    headers: { "content-type": "application/json", ...(userId ? { "x-test-user": userId } : {}) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+try {
+  assert.equal((await request("DELETE", undefined)).status, 401);
+
+  // Editors cannot delete the project; the owner can
+  assert.equal((await request("DELETE", "editor")).status, 403);
+  assert.equal((await request("DELETE", "viewer")).status, 403);
+  assert.deepEqual(deleted, []);
+
+  // Editors can update the project, but ownership fields are dropped before they reach storage
+  const takeover = await request("PUT", "editor", { name: "Renamed", ownerId: "editor", userId: "editor" });
+  assert.equal(takeover.status, 200);
+  assert.equal(updates.length, 1);
+  assert.equal(updates[0].name, "Renamed");
+  assert.ok(!("ownerId" in updates[0]));
+  assert.ok(!("userId" in updates[0]));
+  assert.equal((await takeover.json()).ownerId, "owner");
+
+  assert.equal((await request("PUT", "viewer", { name: "Nope" })).status, 403);
+  assert.equal((await request("PUT", "stranger", { name: "Nope" })).status, 403);
+  assert.equal(updates.length, 1);
+
+  assert.equal((await request("DELETE", "owner")).status, 204);
+  assert.deepEqual(deleted, ["p1"]);
+} finally {
+  server.close();
+}
+
+console.log("project-routes tests passed");
@@ -0,0 +1,59 @@
+/**
+ * Collaborator Access - What invited collaborators may do on a project and its task board
+ * Editors work on the board, viewers follow it; managing collaborators stays with the owner and workspace admins.
+ */
+
+import type { ProjectCollaboratorRole } from "@shared/schema";
+import type { WorkspaceAccess } from "../workspaces/workspace-roles";
+
+interface CollaboratorState {
+  userId: string;
+  status: string; // "pending" | "accepted"
+}
+
+export function collaboratorRoleAllows(role: ProjectCollaboratorRole | undefined, access: WorkspaceAccess): boolean {
+  if (!role) return false;
+  if (access === "read") return true;
+  return access === "write" && role === "editor";
+}
+
+// Accepted collaborators, in the shape of projects.collaboratorIds
+export function acceptedCollaboratorIds(collaborators: CollaboratorState[]): string[] {
+  return collaborators.filter(collaborator => collaborator.status === "accepted").map(collaborator => collaborator.userId);
+}
+
+/**
+ * Why the user cannot be invited to the project, or undefined when the invitation is allowed.
+ */
+export function describeInvitationProblem(ownerId: string, inviteeId: string, existing?: CollaboratorState): string | undefined {
+  if (inviteeId === ownerId) {
+    return "The project owner already has access";
+  }
+  if (existing?.status === "accepted") {
+    return "User is already a collaborator on this project";
+  }
+  if (existing) {
+    return "User already has a pending invitation to this project";
+  }
+  return undefined;
+}
+
+/**
+ * Why the task cannot be assigned to the user, or undefined when the assignment is allowed.
+ * Tasks go to the owner or to collaborators who accepted their invitation; null always unassigns.
+ */
+export function describeAssignmentProblem(
+  assigneeId: string | null,
+  ownerId: string,
+  collaborators: CollaboratorState[]
+): string | undefined {
+  if (assigneeId === null || assigneeId === ownerId) return undefined;
+  const collaborator = collaborators.find(candidate => candidate.userId === assigneeId);
+  if (!collaborator) {
+    return "Tasks can only be assigned to the project owner and its collaborators";
+  }
+  if (collaborator.status !== "accepted") {
+    return "The collaborator has not accepted their invitation yet";
+  }
+  return undefined;
+}
@@ -3,7 +3,7 @@
  * Coordinates all planning engines and provides unified project planning interface
  */
 
-import { Project, ProjectTask, ProjectResource, ProjectBudget, ProjectPhase, ProjectMilestone, TaskDependency } from '@shared/schema';
+import { Project, ProjectTask, ProjectResource, ProjectBudget, ProjectPhase, ProjectMilestone, TaskDependency, ToolVulnerability } from '@shared/schema';
 import { timelineEngine, TimelineCalculationResult } from './timeline-engine';
 import { resourceOptimizer, ResourceOptimizationResult } from './resource-optimizer';
 import { budgetCalculator, BudgetEstimation, BudgetForecast } from './budget-calculator';
@@ -323,6 +323,9 @@ export interface PlanningContext {
     competitivePressure: 'low' | 'medium' | 'high';
     economicConditions: 'favorable' | 'stable' | 'challenging';
   };
+
+  // Known advisories affecting tools in the project's tech stack
+  techStackVulnerabilities?: ToolVulnerability[];
 }
 
 /**
@@ -352,7 +355,7 @@ export class ProjectPlanner {
       this.calculateOptimalTimeline(project, tasks, phases, milestones, options),
       this.optimizeResourceAllocation(project, tasks, resources, options),
       this.generateBudgetPlan(project, tasks, resources, budgets, options),
-      this.assessProjectRisks(project, tasks, resources, budgets, options)
+      this.assessProjectRisks(project, tasks, resources, budgets, options, context)
     ]);
 
     // Perform integrated analysis
@@ -650,10 +653,11 @@ export class ProjectPlanner {
     tasks: ProjectTask[],
     resources: ProjectResource[],
     budgets: ProjectBudget[],
-    options: PlanningOptions
+    options: PlanningOptions,
+    context: PlanningContext
   ): Promise<RiskAssessment> {
     
-    return await riskAnalyzer.assessProjectRisks(project, tasks, resources, budgets);
+    return await riskAnalyzer.assessProjectRisks(project, tasks, resources, budgets, undefined, context.techStackVulnerabilities);
   }
 
   private async analyzeFeasibility(
@@ -0,0 +1,77 @@
+/**
+ * Project Routes - Updating and deleting a project
+ * Registered from routes.ts; storage is passed in so the access rules can be exercised against a stub.
+ * Editors may change a project but not delete it or hand it to someone else.
+ */
+
+import type { Express } from "express";
+import { ZodError } from "zod";
+import { updateProjectSchema } from "@shared/schema";
+import type { IStorage } from "../storage";
+
+export type ProjectRouteStorage = Pick<IStorage, "verifyProjectOwnership" | "updateProject" | "deleteProject">;
+
+export function registerProjectRoutes(app: Express, storage: ProjectRouteStorage): void {
+  app.put("/api/projects/:id", async (req, res) => {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const { id } = req.params;
+
+      // Owners and editors; ownerId and userId are not part of the update schema
+      const canWrite = await storage.verifyProjectOwnership(id, req.user.id, "write");
+      if (!canWrite) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const validatedUpdates = updateProjectSchema.parse(req.body);
+
+      const updates = {
+        ...validatedUpdates,
+        updatedAt: new Date(),
+        lastActivityAt: new Date()
+      };
+
+      const project = await storage.updateProject(id, updates);
+
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      res.json(project);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          message: "Invalid project data",
+          errors: error.errors.map(e => e.message)
+        });
+      }
+      console.error("Error updating project:", error);
+      res.status(500).json({ message: "Failed to update project" });
+    }
+  });
+
+  app.delete("/api/projects/:id", async (req, res) => {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const { id } = req.params;
+
+      // The owner, or a workspace owner or admin for workspace projects; collaborators never qualify
+      const canManage = await storage.verifyProjectOwnership(id, req.user.id, "manage");
+      if (!canManage) {
+        return res.status(403).json({ message: "Access denied: Only the project owner can delete the project" });
+      }
+
+      await storage.deleteProject(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting project:", error);
+      res.status(500).json({ message: "Failed to delete project" });
+    }
+  });
+}
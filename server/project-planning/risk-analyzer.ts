@@ -3,7 +3,7 @@
  * Identifies, quantifies, and provides mitigation strategies for project risks
  */
 
-import { Project, ProjectTask, ProjectResource, ProjectBudget } from '@shared/schema';
+import { Project, ProjectTask, ProjectResource, ProjectBudget, AdvisorySeverity, ToolVulnerability } from '@shared/schema';
 
 export interface ProjectRisk {
   id: string;
@@ -144,6 +144,15 @@ export interface RiskScenario {
   worstCaseOutcome: string;
 }
 
+// Advisory severity mapped to the probability/impact scale used for other risks
+const VULNERABILITY_RISK_WEIGHTS: Record<AdvisorySeverity, { probability: number; impact: number }> = {
+  critical: { probability: 0.9, impact: 9 },
+  high: { probability: 0.7, impact: 8 },
+  medium: { probability: 0.5, impact: 6 },
+  low: { probability: 0.3, impact: 4 },
+  unknown: { probability: 0.4, impact: 5 }
+};
+
 /**
  * Advanced Risk Analysis Engine
  */
@@ -157,11 +166,12 @@ export class RiskAnalyzer {
     tasks: ProjectTask[],
     resources: ProjectResource[],
     budgets: ProjectBudget[],
-    historicalData?: Array<{ project: Project; actualOutcomes: any }>
+    historicalData?: Array<{ project: Project; actualOutcomes: any }>,
+    vulnerabilities: ToolVulnerability[] = []
   ): Promise<RiskAssessment> {
     
     // Identify risks across all categories
-    const identifiedRisks = await this.identifyRisks(project, tasks, resources, budgets);
+    const identifiedRisks = await this.identifyRisks(project, tasks, resources, budgets, vulnerabilities);
     
     // Quantify and prioritize risks
     const assessedRisks = await this.assessRisks(identifiedRisks, project, historicalData);
@@ -373,7 +383,8 @@ export class RiskAnalyzer {
     project: Project,
     tasks: ProjectTask[],
     resources: ProjectResource[],
-    budgets: ProjectBudget[]
+    budgets: ProjectBudget[],
+    vulnerabilities: ToolVulnerability[] = []
   ): Promise<ProjectRisk[]> {
     
     const risks: ProjectRisk[] = [];
@@ -399,6 +410,36 @@ export class RiskAnalyzer {
       });
     }
 
+    // Known vulnerabilities in tech stack tools (matched against offline OSV advisories)
+    for (const vulnerability of vulnerabilities) {
+      const { probability, impact } = VULNERABILITY_RISK_WEIGHTS[vulnerability.highestSeverity];
+      const advisoryIds = vulnerability.advisories.map(advisory => advisory.aliases.find(alias => alias.startsWith('CVE-')) ?? advisory.advisoryId);
+      const fixedVersions = Array.from(new Set(vulnerability.advisories.flatMap(advisory => advisory.fixedVersions)));
+
+      risks.push({
+        id: `tech_vulnerability_${vulnerability.ecosystem}_${vulnerability.packageName}_${vulnerability.version}`,
+        category: 'technical',
+        title: `Known Vulnerabilities in ${vulnerability.detectedName} ${vulnerability.version}`,
+        description: `${vulnerability.packageName}@${vulnerability.version} is affected by ${vulnerability.advisories.length} published ` +
+          `${vulnerability.advisories.length === 1 ? 'advisory' : 'advisories'} (${advisoryIds.join(', ')})`,
+        probability,
+        impact,
+        riskScore: 0,
+        severity: vulnerability.highestSeverity === 'unknown' ? 'medium' : vulnerability.highestSeverity,
+        status: 'identified',
+        mitigation: {
+          ...this.createDefaultMitigation('technical'),
+          description: fixedVersions.length > 0
+            ? `Upgrade ${vulnerability.packageName} to a fixed version (${fixedVersions.join(', ')}) and re-run the repository analysis`
+            : `No fixed release is published yet; isolate or replace ${vulnerability.packageName} until one is available`
+        },
+        triggers: advisoryIds,
+        indicators: [],
+        detectedAt: now,
+        lastAssessed: now
+      });
+    }
+
     // Resource risks
     const overAllocatedResources = resources.filter(r => parseFloat(r.allocationPercentage || '0') > 100);
     if (overAllocatedResources.length > 0) {
@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import type { ProjectTask, SavedIdea, TechRoadmap, TechRoadmapPhase } from "@shared/schema";
+import {
+  buildIdeaDiff,
+  buildRoadmapDiff,
+  findStaleChanges,
+  ideaUpdates,
+  isEmptyDiff,
+  roadmapUpdates,
+  taskColumnUpdates,
+  toRefinableIdea,
+  toRefinableRoadmap,
+  toRefinableTask,
+} from "../refinement-diff";
+
+const idea: SavedIdea = {
+  id: "idea",
+  userId: "user",
+  title: "Invoice bot",
+  description: "Chases unpaid invoices",
+  toolsUsed: ["Firebase", "Stripe"],
+  monetization: "Subscription",
+  tags: null,
+  targetAudience: null,
+  implementationComplexity: "medium",
+  estimatedCost: "1200.00",
+  timeToMarket: "3-6 months",
+  generationMetadata: null,
+  createdAt: null,
+};
+
+const projectTask = (id: string, title: string, overrides: Partial<ProjectTask> = {}): ProjectTask => ({
+  id,
+  userId: "user",
+  ideaId: "idea",
+  generationId: "generation",
+  title,
+  description: `${title} description`,
+  category: "backend",
+  priority: "high",
+  status: "pending",
+  estimatedHours: "8.00",
+  estimatedDays: "1.0",
+  actualHours: null,
+  complexity: "medium",
+  technicalRequirements: [],
+  acceptanceCriteria: [],
+  suggestedTools: ["Firebase"],
+  requiredTools: [],
+  costEstimate: "50.00",
+  resourceRequirements: { skillsNeeded: [] },
+  notes: null,
+  assigneeId: null,
+  dueDate: null,
+  startDate: null,
+  completedAt: null,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+// Unchanged values in stored format (decimal strings, null lists) are not reported as changes
+const unchanged = toRefinableIdea(idea);
+assert.equal(unchanged.estimatedCost, 1200);
+assert.deepEqual(unchanged.tags, []);
+assert.ok(isEmptyDiff(buildIdeaDiff(idea, [], unchanged)));
+
+// "Drop Firebase, use Supabase"
+const tasks = [projectTask("t1", "Set up auth"), projectTask("t2", "Write docs", { category: "docs" })];
+const diff = buildIdeaDiff(
+  idea,
+  tasks,
+  { ...unchanged, toolsUsed: ["Supabase", "Stripe"], estimatedCost: 900 },
+  [
+    { ...toRefinableTask(tasks[0]), suggestedTools: ["Supabase"], estimatedHours: 6, dependencies: [] },
+    { ...toRefinableTask(tasks[0]), id: undefined, title: "Migrate data", dependencies: [] },
+  ]
+);
+assert.deepEqual(diff.fields, [
+  { field: "toolsUsed", before: ["Firebase", "Stripe"], after: ["Supabase", "Stripe"] },
+  { field: "estimatedCost", before: "1200.00", after: "900.00" },
+]);
+assert.deepEqual(diff.tasks.map(change => [change.changeType, change.title]), [
+  ["modified", "Set up auth"],
+  ["added", "Migrate data"],
+  ["removed", "Write docs"],
+]);
+assert.deepEqual(diff.tasks[0].fields.map(field => field.field), ["estimatedHours", "suggestedTools"]);
+assert.deepEqual(ideaUpdates(diff), { toolsUsed: ["Supabase", "Stripe"], estimatedCost: "900.00" });
+assert.deepEqual(taskColumnUpdates(diff.tasks[0].fields), { estimatedHours: "6", suggestedTools: ["Supabase"] });
+assert.equal(taskColumnUpdates(diff.tasks[1].fields).title, "Migrate data");
+
+// Tasks are only diffed when the idea has generated tasks
+assert.deepEqual(buildIdeaDiff(idea, [], undefined, [{ ...toRefinableTask(tasks[0]), dependencies: [] }]).tasks, []);
+
+// Applying checks the "before" values against the current rows
+assert.deepEqual(findStaleChanges(diff, { idea, tasks }), []);
+assert.deepEqual(
+  findStaleChanges(diff, { idea: { ...idea, estimatedCost: "1500.00" }, tasks: [projectTask("t1", "Set up auth", { estimatedHours: "10.00" })] }),
+  ["estimatedCost", 'task "Set up auth"', 'task "Write docs"']
+);
+
+// "Halve the budget" on a roadmap
+const phase = (number: number, cost: number): TechRoadmapPhase => ({
+  phase: number,
+  title: `Phase ${number}`,
+  description: "",
+  tools: [],
+  duration: "4 weeks",
+  cost,
+  prerequisites: [],
+  deliverables: [],
+  risks: [],
+  learningResources: [],
+});
+const roadmap: TechRoadmap = {
+  id: "roadmap",
+  userId: "user",
+  title: "Scale up",
+  description: "Move to managed services",
+  currentStack: ["Heroku"],
+  targetStack: ["AWS"],
+  timeline: [phase(1, 400), phase(2, 600)],
+  totalDuration: "2 months",
+  estimatedCost: "1000.00",
+  complexity: "medium",
+  priority: "high",
+  status: "draft",
+  generationMetadata: null,
+  createdAt: null,
+  updatedAt: null,
+};
+const proposedRoadmap = { ...toRefinableRoadmap(roadmap), estimatedCost: 500, timeline: [phase(1, 200), phase(3, 300)] };
+const roadmapDiff = buildRoadmapDiff(roadmap, proposedRoadmap);
+assert.deepEqual(roadmapDiff.fields, [{ field: "estimatedCost", before: "1000.00", after: "500.00" }]);
+assert.deepEqual(roadmapDiff.timeline.map(change => [change.changeType, change.phase]), [["modified", 1], ["removed", 2], ["added", 3]]);
+assert.deepEqual(roadmapUpdates(roadmap, roadmapDiff), { estimatedCost: "500.00", timeline: [phase(1, 200), phase(3, 300)] });
+assert.deepEqual(findStaleChanges(roadmapDiff, { roadmap: { ...roadmap, timeline: [phase(1, 400), phase(2, 650)] } }), ["phase 2"]);
+assert.ok(isEmptyDiff(buildRoadmapDiff(roadmap, undefined)));
+
+console.log("refinement-diff tests passed");
@@ -0,0 +1,255 @@
+/**
+ * Refinement Diff - Turns the updated state proposed in a refinement reply into a reviewable diff, and back into row updates
+ * Values are compared in the shape the model sees, so stored formats (decimal strings, null vs empty) do not show up as changes.
+ */
+
+import type {
+  ProjectTask,
+  RefinementDiff,
+  RefinementFieldChange,
+  RefinementPhaseChange,
+  RefinementTaskChange,
+  SavedIdea,
+  TechRoadmap,
+  TechRoadmapPhase,
+  InsertSavedIdea,
+  InsertTechRoadmap,
+  UpdateProjectTask,
+} from "@shared/schema";
+import type { GeneratedTask } from "../gemini";
+import type { RefinedIdea, RefinedRoadmap, RefinedTask } from "../llm/response-schemas";
+
+// Dependencies are kept out of refinement; they live in task_dependencies and are re-linked by title only at generation time
+export type RefinableTask = Omit<GeneratedTask, "dependencies">;
+
+const IDEA_FIELDS = ["title", "description", "monetization", "tags", "toolsUsed", "targetAudience", "implementationComplexity", "estimatedCost", "timeToMarket"] as const;
+const ROADMAP_FIELDS = ["title", "description", "currentStack", "targetStack", "totalDuration", "estimatedCost", "complexity", "priority"] as const;
+const TASK_FIELDS = [
+  "title", "description", "category", "priority", "complexity", "estimatedHours", "estimatedDays", "technicalRequirements",
+  "acceptanceCriteria", "suggestedTools", "requiredTools", "costEstimate", "resourceRequirements",
+] as const;
+
+type IdeaField = typeof IDEA_FIELDS[number];
+type RoadmapField = typeof ROADMAP_FIELDS[number];
+
+const parseDecimal = (value: string | null | undefined): number | undefined =>
+  value === null || value === undefined || value === "" ? undefined : parseFloat(value);
+const toDecimal = (value: unknown): string | null => typeof value === "number" ? value.toFixed(2) : null;
+
+// Key-order independent comparison for JSON values
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonical((value as Record<string, unknown>)[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export const sameValue = (a: unknown, b: unknown): boolean => canonical(a) === canonical(b);
+
+export function toRefinableIdea(idea: SavedIdea): RefinedIdea {
+  return {
+    title: idea.title,
+    description: idea.description,
+    monetization: idea.monetization ?? "",
+    tags: idea.tags ?? [],
+    toolsUsed: idea.toolsUsed ?? [],
+    targetAudience: idea.targetAudience ?? "",
+    implementationComplexity: (idea.implementationComplexity ?? undefined) as RefinedIdea["implementationComplexity"],
+    estimatedCost: parseDecimal(idea.estimatedCost),
+    timeToMarket: idea.timeToMarket ?? "",
+  };
+}
+
+function toStoredIdeaValue(field: IdeaField, value: unknown): unknown {
+  if (field === "estimatedCost") return toDecimal(value);
+  if (field === "title" || field === "description" || field === "tags" || field === "toolsUsed") return value;
+  return value === "" || value === undefined ? null : value;
+}
+
+export function toRefinableRoadmap(roadmap: TechRoadmap): RefinedRoadmap {
+  return {
+    title: roadmap.title,
+    description: roadmap.description,
+    currentStack: roadmap.currentStack,
+    targetStack: roadmap.targetStack,
+    timeline: (roadmap.timeline ?? []) as TechRoadmapPhase[],
+    totalDuration: roadmap.totalDuration,
+    estimatedCost: parseDecimal(roadmap.estimatedCost),
+    complexity: roadmap.complexity as RefinedRoadmap["complexity"],
+    priority: roadmap.priority as RefinedRoadmap["priority"],
+  };
+}
+
+const toStoredRoadmapValue = (field: RoadmapField, value: unknown): unknown =>
+  field === "estimatedCost" ? toDecimal(value) : value;
+
+export function toRefinableTask(task: ProjectTask): RefinableTask & { id: string } {
+  const resourceRequirements = (task.resourceRequirements ?? {}) as Partial<GeneratedTask["resourceRequirements"]>;
+  return {
+    id: task.id,
+    title: task.title,
+    description: task.description,
+    category: task.category,
+    priority: task.priority as GeneratedTask["priority"],
+    complexity: task.complexity as GeneratedTask["complexity"],
+    estimatedHours: parseDecimal(task.estimatedHours) ?? 0,
+    estimatedDays: parseDecimal(task.estimatedDays) ?? 0,
+    technicalRequirements: task.technicalRequirements ?? [],
+    acceptanceCriteria: task.acceptanceCriteria ?? [],
+    suggestedTools: task.suggestedTools ?? [],
+    requiredTools: task.requiredTools ?? [],
+    costEstimate: parseDecimal(task.costEstimate) ?? 0,
+    resourceRequirements: { ...resourceRequirements, skillsNeeded: resourceRequirements.skillsNeeded ?? [] },
+  };
+}
+
+function diffFields<F extends string>(
+  fields: readonly F[],
+  current: Partial<Record<F, unknown>>,
+  proposed: Partial<Record<F, unknown>>,
+  store: (field: F, value: unknown) => unknown = (_field, value) => value
+): RefinementFieldChange[] {
+  return fields
+    .filter(field => !sameValue(current[field], proposed[field]))
+    .map(field => ({ field, before: store(field, current[field]), after: store(field, proposed[field]) }));
+}
+
+function diffTimeline(current: TechRoadmapPhase[], proposed: TechRoadmapPhase[]): RefinementPhaseChange[] {
+  const currentByPhase = new Map(current.map(phase => [phase.phase, phase]));
+  const proposedPhases = new Set(proposed.map(phase => phase.phase));
+  const changes: RefinementPhaseChange[] = [];
+
+  for (const phase of proposed) {
+    const before = currentByPhase.get(phase.phase);
+    if (!before) {
+      changes.push({ changeType: "added", phase: phase.phase, title: phase.title, after: phase });
+    } else if (!sameValue(before, phase)) {
+      changes.push({ changeType: "modified", phase: phase.phase, title: phase.title, before, after: phase });
+    }
+  }
+  for (const phase of current) {
+    if (!proposedPhases.has(phase.phase)) {
+      changes.push({ changeType: "removed", phase: phase.phase, title: phase.title, before: phase });
+    }
+  }
+  return changes.sort((a, b) => a.phase - b.phase);
+}
+
+// Proposed tasks are matched to existing ones by id; tasks the model left out are proposed for removal
+function diffTasks(current: ProjectTask[], proposed: RefinedTask[]): RefinementTaskChange[] {
+  const currentById = new Map(current.map(task => [task.id, toRefinableTask(task)]));
+  const keptIds = new Set<string>();
+  const changes: RefinementTaskChange[] = [];
+
+  for (const { id, dependencies: _dependencies, ...task } of proposed) {
+    const before = id ? currentById.get(id) : undefined;
+    if (!before || keptIds.has(before.id)) {
+      changes.push({
+        changeType: "added",
+        title: task.title,
+        fields: TASK_FIELDS.map(field => ({ field, before: null, after: task[field] })),
+      });
+      continue;
+    }
+    keptIds.add(before.id);
+    const fields = diffFields(TASK_FIELDS, before, task);
+    if (fields.length > 0) {
+      changes.push({ changeType: "modified", taskId: before.id, title: task.title, fields });
+    }
+  }
+  for (const task of current) {
+    if (!keptIds.has(task.id)) {
+      changes.push({ changeType: "removed", taskId: task.id, title: task.title, fields: [] });
+    }
+  }
+  return changes;
+}
+
+export function buildIdeaDiff(idea: SavedIdea, tasks: ProjectTask[], proposedIdea?: RefinedIdea, proposedTasks?: RefinedTask[]): RefinementDiff {
+  return {
+    fields: proposedIdea ? diffFields(IDEA_FIELDS, toRefinableIdea(idea), proposedIdea, toStoredIdeaValue) : [],
+    timeline: [],
+    tasks: proposedTasks && tasks.length > 0 ? diffTasks(tasks, proposedTasks) : [],
+  };
+}
+
+export function buildRoadmapDiff(roadmap: TechRoadmap, proposed?: RefinedRoadmap): RefinementDiff {
+  if (!proposed) return { fields: [], timeline: [], tasks: [] };
+  const current = toRefinableRoadmap(roadmap);
+  return {
+    fields: diffFields(ROADMAP_FIELDS, current, proposed, toStoredRoadmapValue),
+    timeline: diffTimeline(current.timeline, proposed.timeline),
+    tasks: [],
+  };
+}
+
+export const isEmptyDiff = (diff: RefinementDiff): boolean =>
+  diff.fields.length === 0 && diff.timeline.length === 0 && diff.tasks.length === 0;
+
+// Returns a description of every change whose "before" no longer matches the current row
+export function findStaleChanges(
+  diff: RefinementDiff,
+  current: { idea?: SavedIdea; roadmap?: TechRoadmap; tasks?: ProjectTask[] }
+): string[] {
+  const conflicts: string[] = [];
+  const storedValue = (field: string): unknown => {
+    if (current.idea) return toStoredIdeaValue(field as IdeaField, toRefinableIdea(current.idea)[field as IdeaField]);
+    if (current.roadmap) return toStoredRoadmapValue(field as RoadmapField, toRefinableRoadmap(current.roadmap)[field as RoadmapField]);
+    return undefined;
+  };
+  for (const change of diff.fields) {
+    if (!sameValue(storedValue(change.field), change.before)) conflicts.push(change.field);
+  }
+
+  const timeline = new Map(((current.roadmap?.timeline ?? []) as TechRoadmapPhase[]).map(phase => [phase.phase, phase]));
+  for (const change of diff.timeline) {
+    const phase = timeline.get(change.phase);
+    if (change.changeType === "added" ? phase !== undefined : !sameValue(phase, change.before)) {
+      conflicts.push(`phase ${change.phase}`);
+    }
+  }
+
+  const tasks = new Map((current.tasks ?? []).map(task => [task.id, toRefinableTask(task)]));
+  for (const change of diff.tasks) {
+    if (change.changeType === "added") continue;
+    const task = change.taskId ? tasks.get(change.taskId) : undefined;
+    const fields = task as Record<string, unknown> | undefined;
+    if (!fields || change.fields.some(field => !sameValue(fields[field.field], field.before))) {
+      conflicts.push(`task "${change.title}"`);
+    }
+  }
+  return conflicts;
+}
+
+export function ideaUpdates(diff: RefinementDiff): Partial<InsertSavedIdea> {
+  return Object.fromEntries(diff.fields.map(change => [change.field, change.after]));
+}
+
+export function roadmapUpdates(roadmap: TechRoadmap, diff: RefinementDiff): Partial<InsertTechRoadmap> {
+  const updates: Partial<InsertTechRoadmap> = Object.fromEntries(diff.fields.map(change => [change.field, change.after]));
+  if (diff.timeline.length > 0) {
+    const timeline = new Map(((roadmap.timeline ?? []) as TechRoadmapPhase[]).map(phase => [phase.phase, phase]));
+    for (const change of diff.timeline) {
+      if (change.changeType === "removed") {
+        timeline.delete(change.phase);
+      } else if (change.after) {
+        timeline.set(change.phase, change.after);
+      }
+    }
+    updates.timeline = Array.from(timeline.values()).sort((a, b) => a.phase - b.phase);
+  }
+  return updates;
+}
+
+// Task fields in project_tasks column format, for modified or added tasks
+export function taskColumnUpdates(fields: RefinementFieldChange[]): UpdateProjectTask {
+  const updates: Record<string, unknown> = {};
+  for (const { field, after } of fields) {
+    updates[field] = typeof after === "number" ? after.toString() : after;
+  }
+  return updates as UpdateProjectTask;
+}
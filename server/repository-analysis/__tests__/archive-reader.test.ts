@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { deflateRawSync, gzipSync } from "zlib";
+import { detectArchiveFormat, listArchiveEntries } from "../archive-reader";
+
+const files: Record<string, string> = {
+  "acme-main/package.json": JSON.stringify({ dependencies: { react: "^18.2.0" } }),
+  "acme-main/.github/workflows/ci.yml": "on: push\njobs: {}\n",
+  "acme-main/../escape.txt": "should be dropped",
+};
+
+function buildTar(entries: Record<string, string>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [name, content] of Object.entries(entries)) {
+    const data = Buffer.from(content, "utf8");
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100, "utf8");
+    header.write(data.length.toString(8).padStart(11, "0") + "\0", 124, 12, "ascii");
+    header.write("0", 156, 1, "ascii");
+    header.write("ustar\0", 257, 6, "ascii");
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+function buildZip(entries: Record<string, string>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(entries)) {
+    const nameBuffer = Buffer.from(name, "utf8");
+    const raw = Buffer.from(content, "utf8");
+    const compressed = deflateRawSync(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, nameBuffer, compressed);
+    centralParts.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(entries).length, 8);
+  eocd.writeUInt16LE(Object.keys(entries).length, 10);
+  eocd.writeUInt32LE(centralDirectory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, eocd]);
+}
+
+const tar = buildTar(files);
+const zip = buildZip(files);
+
+assert.equal(detectArchiveFormat(tar), "tar");
+assert.equal(detectArchiveFormat(gzipSync(tar)), "tar.gz");
+assert.equal(detectArchiveFormat(zip), "zip");
+assert.equal(detectArchiveFormat(Buffer.from("not an archive")), null);
+
+for (const archive of [tar, gzipSync(tar), zip]) {
+  const entries = listArchiveEntries(archive);
+  const paths = entries.map(entry => entry.path).sort();
+
+  assert.deepEqual(paths, [".github/workflows/ci.yml", "package.json"], "expected common root stripped and traversal dropped");
+
+  const packageJson = entries.find(entry => entry.path === "package.json")!;
+  assert.equal(JSON.parse(packageJson.read().toString("utf8")).dependencies.react, "^18.2.0");
+}
+
+assert.throws(() => listArchiveEntries(Buffer.from("plain text upload")), /Unsupported archive format/);
+
+console.log("archive-reader tests passed");
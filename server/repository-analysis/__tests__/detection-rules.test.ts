@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { detectionRuleRequestSchema, isSafeRegExpSource, type DetectionRule } from "@shared/schema";
+import { compileDetectionRule, compileFileGlob, mergeDetectionPatterns } from "../detection-rules";
+
+// Bare file names match at any depth, paths with a slash are anchored at the root
+assert.ok(compileFileGlob("sentry.properties").test("sentry.properties"));
+assert.ok(compileFileGlob("sentry.properties").test("apps/web/sentry.properties"));
+assert.ok(!compileFileGlob("sentry.properties").test("apps/web/mysentry.properties"));
+assert.ok(compileFileGlob("services/*/acme.yaml").test("services/billing/acme.yaml"));
+assert.ok(!compileFileGlob("services/*/acme.yaml").test("legacy/services/billing/acme.yaml"));
+
+const baseRule: DetectionRule = {
+  id: "rule-1",
+  userId: "user-1",
+  name: "Acme SDK",
+  category: "Backend/Database",
+  filePatterns: ["package.json"],
+  contentPatterns: ["ACME_API_KEY"],
+  dependencies: ["@acme/sdk"],
+  packages: { pypi: ["acme-sdk"] },
+  toolId: "tool-1",
+  confidence: "0.75",
+  costEstimate: "20.00",
+  isEnabled: true,
+  createdAt: null,
+  updatedAt: null,
+};
+
+const pattern = compileDetectionRule(baseRule)!;
+assert.equal(pattern.ruleId, "rule-1");
+assert.equal(pattern.toolId, "tool-1");
+assert.equal(pattern.confidence, 0.75);
+assert.equal(pattern.costEstimate, 20);
+assert.deepEqual(pattern.packages, { pypi: ["acme-sdk"] });
+assert.ok(pattern.patterns.some(regex => regex.test('{ "dependencies": { "@acme/sdk": "^1.0.0" } }')));
+assert.ok(!pattern.patterns.some(regex => regex.test('{ "dependencies": { "@acme/sdk-extra": "^1.0.0" } }')));
+
+// Without content patterns or dependencies, a matching file is enough
+const presenceRule = compileDetectionRule({ ...baseRule, contentPatterns: null, dependencies: null, costEstimate: null })!;
+assert.ok(presenceRule.patterns[0].test(""));
+assert.equal(presenceRule.costEstimate, undefined);
+
+// Patterns that can backtrack catastrophically are refused on save and skipped when compiling older rules
+for (const unsafe of ["(a+)+$", "(a*)*b", "(x+x+)+y", "(a|aa)*c", "(?:\\d+\\s?)+$", "((ab)*)+", "(a{1,5}){2,}", "(a+)+?", "(a+){3}", "(\\w)\\1", "((a|aa))*c", "(?:(?:a|aa))*c", "((?:a|aa)b?)+c"]) {
+  assert.ok(!isSafeRegExpSource(unsafe), unsafe);
+}
+for (const safe of ["ACME_API_KEY", "acme\\.(js|ts)", "(ab)+", "(?:foo|bar)\\s*=", "[(+*]+", "(a+)?", "(\\d{1,3}\\.){3}\\d{1,3}", "a{2}b", "\\(x+\\)+", "(?<key>[A-Z_]+)=", "(?<=@)acme"]) {
+  assert.ok(isSafeRegExpSource(safe), safe);
+}
+for (const nested of ["(a+)+$", "((a|aa))*c", "(?:(?:a|aa))*c"]) {
+  assert.ok(!detectionRuleRequestSchema.safeParse({ name: "Slow", category: "Other", filePatterns: ["*.js"], contentPatterns: [nested] }).success, nested);
+}
+
+const guarded = compileDetectionRule({ ...baseRule, contentPatterns: ["(a+)+$", "((a|aa))*c", "ACME_API_KEY"], dependencies: null })!;
+assert.deepEqual(guarded.patterns.map(regex => regex.source), ["ACME_API_KEY"]);
+
+// User rules replace built-ins with the same name
+const merged = mergeDetectionPatterns(
+  [{ name: "acme sdk", category: "Other", files: ["package.json"], patterns: [/acme/], confidence: 0.5 }, { ...pattern, name: "React", ruleId: undefined }],
+  [pattern]
+);
+assert.deepEqual(merged.map(p => p.name), ["React", "Acme SDK"]);
+
+console.log("detection-rules tests passed");
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import type { DetectedTool } from "@shared/schema";
+import { diffDetectedTools } from "../drift-diff";
+
+let nextId = 0;
+const detected = (detectedName: string, version: string | null, overrides: Partial<DetectedTool> = {}): DetectedTool => ({
+  id: `detected-${++nextId}`,
+  analysisId: "analysis",
+  toolId: null,
+  detectedName,
+  category: "Frontend/Design",
+  confidenceScore: "0.90",
+  detectionMethod: "package.json",
+  detectionDetails: null,
+  suggestedTool: null,
+  estimatedMonthlyCost: "0",
+  isImported: false,
+  version,
+  filePath: "package.json",
+  createdAt: null,
+  ...overrides,
+});
+
+const baseline = [
+  detected("React", "18.2.0", { isImported: true }),
+  detected("Redis", "4.6.0", { isImported: true }),
+  detected("Jest", null),
+  detected("Next.js", "14.0.0"),
+];
+const current = [
+  detected("react", "18.3.1"),
+  detected("Jest", "29.7.0"),
+  detected("Next.js", "14.0.0", { filePath: "apps/web/package.json" }),
+  detected("Next.js", "14.1.0", { filePath: "apps/docs/package.json" }),
+  detected("Stripe", "14.0.0", { toolId: "tool-stripe" }),
+];
+
+const drift = diffDetectedTools(baseline, current);
+
+assert.deepEqual(drift.addedTools.map(tool => [tool.detectedName, tool.version, tool.toolId]), [["Stripe", "14.0.0", "tool-stripe"]]);
+assert.deepEqual(drift.removedTools.map(tool => [tool.detectedName, tool.previousVersion, tool.wasImported]), [["Redis", "4.6.0", true]]);
+
+// Names match case-insensitively; a version appearing where there was none is not a change
+assert.deepEqual(
+  drift.versionChangedTools.map(tool => [tool.detectedName, tool.previousVersion, tool.version]),
+  [["react", "18.2.0", "18.3.1"], ["Next.js", "14.0.0", "14.0.0, 14.1.0"]]
+);
+
+assert.deepEqual(diffDetectedTools(current, current), { addedTools: [], removedTools: [], versionChangedTools: [] });
+
+console.log("drift-diff tests passed");
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import type { DetectedTool, Tool, UserTool } from "@shared/schema";
+import { buildImportDiff } from "../import-preview";
+
+const tool = (id: string, name: string, category: string): Tool => ({
+  id,
+  name,
+  description: null,
+  category,
+  url: null,
+  frameworks: null,
+  languages: null,
+  features: null,
+  integrations: null,
+  maturityScore: null,
+  popularityScore: null,
+  pricing: null,
+  license: null,
+  notes: null,
+});
+
+const stripe = tool("stripe", "Stripe", "Payment Platforms");
+const paypal = tool("paypal", "PayPal", "Payment Platforms");
+const sentry = tool("sentry", "Sentry", "Monitoring");
+
+const detected = (id: string, detectedName: string, catalogTool: Tool | null, estimatedMonthlyCost = "0"): DetectedTool & { tool?: Tool } => ({
+  id,
+  analysisId: "analysis",
+  toolId: catalogTool?.id ?? null,
+  detectedName,
+  category: catalogTool?.category ?? "Other",
+  confidenceScore: "0.90",
+  detectionMethod: "package.json",
+  detectionDetails: null,
+  suggestedTool: null,
+  estimatedMonthlyCost,
+  isImported: false,
+  version: null,
+  filePath: "package.json",
+  createdAt: null,
+  ...(catalogTool && { tool: catalogTool }),
+});
+
+const existing: Array<UserTool & { tool: Tool }> = [{
+  id: "user-tool-stripe",
+  userId: "user",
+  toolId: "stripe",
+  workspaceId: null,
+  monthlyCost: "25.00",
+  quantity: 1,
+  isActive: true,
+  lastUsedAt: null,
+  addedAt: null,
+  tool: stripe,
+}];
+
+const { preview, projectedTools, incomingToolIds } = buildImportDiff(
+  "user",
+  "analysis",
+  [
+    detected("d-stripe", "Stripe", stripe, "30"),
+    detected("d-paypal", "PayPal", paypal, "40"),
+    detected("d-sentry", "Sentry", sentry, "26"),
+    // Same catalog tool found again in another workspace project
+    detected("d-sentry-2", "Sentry", sentry, "26"),
+    detected("d-custom", "internal-sdk", null, "10"),
+    detected("d-unselected", "Sentry", sentry, "99"),
+  ],
+  [
+    { detectedToolId: "d-stripe", monthlyCost: "35.00", isActive: true },
+    { detectedToolId: "d-paypal", isActive: true },
+    { detectedToolId: "d-sentry", monthlyCost: "26.00", isActive: true },
+    { detectedToolId: "d-sentry-2", monthlyCost: "30.00", isActive: true },
+    { detectedToolId: "d-custom", isActive: true },
+  ],
+  existing,
+  "100.00"
+);
+
+assert.deepEqual(preview.newTools.map(entry => [entry.name, entry.monthlyCost]), [["PayPal", 40], ["Sentry", 30]]);
+assert.deepEqual(preview.duplicateTools, [{
+  detectedToolId: "d-stripe",
+  toolId: "stripe",
+  name: "Stripe",
+  category: "Payment Platforms",
+  monthlyCost: 35,
+  previousMonthlyCost: 25,
+  userToolId: "user-tool-stripe",
+}]);
+assert.deepEqual(preview.skippedTools.map(entry => entry.detectedToolId), ["d-custom"]);
+assert.deepEqual(Array.from(incomingToolIds), ["paypal", "sentry"]);
+
+// The second Sentry selection overrides the first, exactly as the import would
+assert.equal(projectedTools.find(userTool => userTool.toolId === "sentry")?.monthlyCost, "30.00");
+assert.deepEqual(preview.cost, {
+  currentMonthlyCost: 25,
+  projectedMonthlyCost: 105,
+  delta: 80,
+  monthlyBudget: 100,
+  remainingBudget: -5,
+  exceedsBudget: true,
+});
+
+// The stored stack is never mutated
+assert.equal(existing[0].monthlyCost, "25.00");
+
+const { preview: withoutBudget } = buildImportDiff("user", "analysis", [detected("d-sentry", "Sentry", sentry, "26")], [{ detectedToolId: "d-sentry", isActive: true }], [], null);
+assert.equal(withoutBudget.cost.remainingBudget, null);
+assert.equal(withoutBudget.cost.exceedsBudget, false);
+
+console.log("import-preview tests passed");
@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import {
+  extractInfrastructureResources,
+  groupInfrastructureByService,
+  isInfrastructureFilePath,
+  parseMemoryGb,
+} from "../infrastructure-costs";
+import { CONTAINER_PRICES, EC2_INSTANCE_PRICES, RDS_INSTANCE_PRICES, STORAGE_PRICES } from "../infrastructure-pricing";
+import { parseYamlDocuments } from "../yaml-lite";
+
+assert.equal(isInfrastructureFilePath("infra/main.tf"), true);
+assert.equal(isInfrastructureFilePath("infra/prod.tfvars"), true);
+assert.equal(isInfrastructureFilePath("docker-compose.prod.yml"), true);
+assert.equal(isInfrastructureFilePath("services/api/compose.yaml"), true);
+assert.equal(isInfrastructureFilePath("deploy/k8s/api.yaml"), true);
+assert.equal(isInfrastructureFilePath(".github/workflows/ci.yml"), false);
+assert.equal(isInfrastructureFilePath("config/settings.yaml"), false);
+
+// YAML subset: "- key:" items, flow lists and multiple documents
+const [first, second] = parseYamlDocuments(`
+kind: Deployment # trailing comment
+spec:
+  containers:
+    - name: api
+      ports: [80, 443]
+---
+kind: Service
+`);
+assert.deepEqual(first, { kind: "Deployment", spec: { containers: [{ name: "api", ports: [80, 443] }] } });
+assert.deepEqual(second, { kind: "Service" });
+
+assert.equal(parseMemoryGb("512Mi"), 0.5);
+assert.equal(parseMemoryGb("2Gi"), 2);
+assert.equal(parseMemoryGb("1gb"), 1e9 / 1024 ** 3);
+
+const terraform = extractInfrastructureResources([
+  {
+    path: "infra/main.tf",
+    content: `
+variable "web_instance_type" {
+  type    = string
+  default = "t3.small"
+}
+
+resource "aws_instance" "web" {
+  count         = 2
+  instance_type = var.web_instance_type
+  tags = { Name = "web" }
+}
+
+resource "aws_db_instance" "main" {
+  instance_class    = "db.t3.medium" # prod size
+  allocated_storage = 100
+  multi_az          = true
+}
+
+resource "aws_s3_bucket" "assets" {}
+`,
+  },
+  { path: "infra/prod.tfvars", content: `web_instance_type = "t3.medium"\n` },
+]);
+
+assert.deepEqual(terraform.map(resource => [resource.resourceType, resource.size, resource.quantity, resource.monthlyCost]), [
+  ["aws_instance", "t3.medium", 2, EC2_INSTANCE_PRICES["t3.medium"] * 2],
+  ["aws_db_instance", "db.t3.medium", 1, Math.round((RDS_INSTANCE_PRICES["db.t3.medium"] + 100 * STORAGE_PRICES.rdsGpPerGb) * 2 * 100) / 100],
+]);
+
+// Undeclared sizes are priced at the default and flagged
+const [defaulted] = extractInfrastructureResources([{ path: "main.tf", content: `resource "aws_instance" "worker" {\n  ami = "ami-123"\n}\n` }]);
+assert.equal(defaulted.size, "t3.micro");
+assert.equal(defaulted.assumed, true);
+
+const kubernetes = extractInfrastructureResources([
+  {
+    path: "k8s/api.yaml",
+    content: `
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+spec:
+  replicas: 3
+  template:
+    spec:
+      containers:
+      - name: api
+        resources:
+          requests:
+            cpu: 500m
+            memory: 1Gi
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: api
+spec:
+  type: LoadBalancer
+`,
+  },
+  // Helm templates are skipped rather than misread
+  { path: "deploy/templates/web.yaml", content: "replicas: {{ .Values.replicas }}\n" },
+]);
+
+assert.deepEqual(kubernetes.map(resource => [resource.resourceType, resource.name, resource.quantity]), [
+  ["Deployment", "api", 3],
+  ["Service/LoadBalancer", "api", 1],
+]);
+assert.equal(kubernetes[0].monthlyCost, Math.round((0.5 * CONTAINER_PRICES.perVcpu + CONTAINER_PRICES.perGbMemory) * 3 * 100) / 100);
+
+const compose = extractInfrastructureResources([
+  {
+    path: "docker-compose.yml",
+    content: `
+services:
+  web:
+    image: nginx:1.25
+    deploy:
+      replicas: 2
+      resources:
+        limits:
+          cpus: "0.5"
+          memory: 512M
+  worker:
+    build: .
+`,
+  },
+]);
+
+assert.deepEqual(compose.map(resource => [resource.name, resource.resourceType, resource.quantity, resource.assumed]), [
+  ["web", "nginx:1.25", 2, false],
+  ["worker", "build", 1, true],
+]);
+
+// One entry per billed service, most expensive first
+const services = groupInfrastructureByService([...terraform, ...kubernetes, ...compose]);
+assert.deepEqual(services.map(service => service.service), ["Amazon RDS", "Kubernetes Workloads", "Amazon EC2", "Docker Compose Services"]);
+assert.deepEqual(services[1].sources, ["kubernetes"]);
+assert.equal(services[1].resources.length, 2);
+
+console.log("infrastructure-costs tests passed");
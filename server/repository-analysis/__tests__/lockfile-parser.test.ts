@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { normalizePackageName, parseLockfile, readDeclaredDependencies } from "../lockfile-parser";
+
+// package-lock v3: hoisted copy wins, direct names come from the root package
+const npmLock = parseLockfile("package-lock.json", JSON.stringify({
+  lockfileVersion: 3,
+  packages: {
+    "": { dependencies: { next: "^14.0.0" } },
+    "node_modules/next": { version: "14.1.0" },
+    "node_modules/react": { version: "18.2.0", license: "MIT" },
+    "node_modules/next/node_modules/react": { version: "18.3.0" },
+  },
+}))!;
+assert.equal(npmLock.ecosystem, "npm");
+assert.equal(npmLock.dependencies.get("react")?.version, "18.2.0");
+assert.equal(npmLock.dependencies.get("react")?.license, "MIT");
+assert.ok(npmLock.directNames.has("next"));
+assert.ok(!npmLock.directNames.has("react"));
+
+// yarn v1 with scoped packages and multiple ranges per entry
+const yarnLock = parseLockfile("apps/web/yarn.lock", [
+  "# yarn lockfile v1",
+  "",
+  "\"@prisma/client@^5.0.0\", \"@prisma/client@^5.1.0\":",
+  "  version \"5.2.0\"",
+  "",
+  "pg@^8.11.0:",
+  "  version \"8.11.3\"",
+  "",
+].join("\n"))!;
+assert.equal(yarnLock.dependencies.get("@prisma/client")?.version, "5.2.0");
+assert.equal(yarnLock.dependencies.get("pg")?.version, "8.11.3");
+
+// poetry.lock uses TOML [[package]] blocks and PEP 503 names
+const poetryLock = parseLockfile("poetry.lock", [
+  "[[package]]",
+  "name = \"Django\"",
+  "version = \"5.0.1\"",
+  "",
+  "[[package]]",
+  "name = \"psycopg2_binary\"",
+  "version = \"2.9.9\"",
+].join("\n"))!;
+assert.equal(poetryLock.dependencies.get("django")?.version, "5.0.1");
+assert.equal(poetryLock.dependencies.get(normalizePackageName("pypi", "psycopg2-binary"))?.version, "2.9.9");
+
+// Gemfile.lock DEPENDENCIES section marks direct gems
+const gemLock = parseLockfile("Gemfile.lock", [
+  "GEM",
+  "  remote: https://rubygems.org/",
+  "  specs:",
+  "    pg (1.5.4)",
+  "    rails (7.1.2)",
+  "      actionpack (= 7.1.2)",
+  "",
+  "DEPENDENCIES",
+  "  rails (~> 7.1)",
+].join("\n"))!;
+assert.equal(gemLock.dependencies.get("pg")?.version, "1.5.4");
+assert.ok(gemLock.directNames.has("rails"));
+assert.ok(!gemLock.directNames.has("pg"));
+
+// go.sum keeps the highest version and strips major version suffixes
+const goSum = parseLockfile("go.sum", [
+  "github.com/redis/go-redis/v9 v9.3.0 h1:abc=",
+  "github.com/redis/go-redis/v9 v9.4.0 h1:def=",
+  "github.com/redis/go-redis/v9 v9.4.0/go.mod h1:ghi=",
+].join("\n"))!;
+assert.equal(goSum.dependencies.get("github.com/redis/go-redis")?.version, "9.4.0");
+
+// Manifests: optional dependency groups count as declared, indirect go requirements do not
+const pyproject = readDeclaredDependencies("pyproject.toml", [
+  "[project]",
+  "dependencies = [\"fastapi>=0.110\"]",
+  "",
+  "[project.optional-dependencies]",
+  "db = [\"SQLAlchemy\"]",
+  "cache = [\"redis\"]",
+].join("\n"))!;
+assert.deepEqual(Array.from(pyproject.names).sort(), ["fastapi", "redis", "sqlalchemy"]);
+
+const goMod = readDeclaredDependencies("go.mod", [
+  "module example.com/api",
+  "",
+  "require (",
+  "\tgithub.com/gin-gonic/gin v1.9.1",
+  "\tgithub.com/redis/go-redis/v9 v9.4.0 // indirect",
+  ")",
+].join("\n"))!;
+assert.ok(goMod.names.has("github.com/gin-gonic/gin"));
+assert.ok(!goMod.names.has("github.com/redis/go-redis"));
+
+assert.equal(parseLockfile("package.json", "{}"), null);
+
+console.log("lockfile-parser tests passed");
@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import type { DetectedTool, VulnerabilityAdvisory } from "@shared/schema";
+import {
+  compareVersions,
+  findToolVulnerabilities,
+  isConcreteVersion,
+  isVersionAffected,
+  parseOsvJson,
+} from "../osv-advisories";
+
+assert.equal(compareVersions("1.10.0", "1.9.9"), 1);
+assert.equal(compareVersions("v2.0.0", "2.0"), 0);
+assert.equal(compareVersions("1.0.0-rc.1", "1.0.0"), -1);
+assert.equal(compareVersions("1.0.0-beta.2", "1.0.0-beta.10"), -1);
+assert.equal(compareVersions("2.0rc1", "2.0"), -1);
+// PEP 440 post-releases follow their release
+assert.equal(compareVersions("1.0.post1", "1.0"), 1);
+assert.equal(compareVersions("1.0.post1", "1.0.post2"), -1);
+assert.equal(compareVersions("1.0-post1", "1.0.post1"), 0);
+assert.equal(compareVersions("1.0.post1", "1.0.1"), -1);
+assert.equal(compareVersions("1.0rc1.post1", "1.0rc1"), 1);
+assert.equal(compareVersions("1.0rc1.post1", "1.0"), -1);
+
+assert.equal(isConcreteVersion("4.17.21"), true);
+assert.equal(isConcreteVersion("1.0.0-rc.1"), true);
+assert.equal(isConcreteVersion(">=1.2"), false);
+assert.equal(isConcreteVersion("1.x"), false);
+assert.equal(isConcreteVersion(null), false);
+
+const [lodash, ...rest] = parseOsvJson(JSON.stringify({
+  id: "GHSA-35jh-r3h4-6jhm",
+  aliases: ["CVE-2021-23337"],
+  summary: "Command Injection in lodash",
+  published: "2021-02-15T00:00:00Z",
+  affected: [
+    {
+      package: { ecosystem: "npm", name: "lodash" },
+      ranges: [{ type: "SEMVER", events: [{ introduced: "0" }, { fixed: "4.17.21" }] }],
+      database_specific: { severity: "HIGH" },
+    },
+    // Unsupported ecosystems and git ranges are ignored
+    { package: { ecosystem: "Maven", name: "org.lodash:lodash" }, ranges: [{ type: "SEMVER", events: [{ introduced: "0" }] }] },
+    { package: { ecosystem: "npm", name: "lodash-es" }, ranges: [{ type: "GIT", events: [{ introduced: "abc123" }] }] },
+  ],
+  references: [{ type: "WEB", url: "https://example.com" }, { type: "ADVISORY", url: "https://nvd.nist.gov/vuln/detail/CVE-2021-23337" }],
+}));
+
+assert.equal(rest.length, 0);
+assert.equal(lodash.advisoryId, "GHSA-35jh-r3h4-6jhm");
+assert.equal(lodash.severity, "high");
+assert.deepEqual(lodash.affectedRanges, [{ introduced: "0", fixed: "4.17.21" }]);
+assert.deepEqual(lodash.fixedVersions, ["4.17.21"]);
+assert.equal(lodash.referenceUrl, "https://nvd.nist.gov/vuln/detail/CVE-2021-23337");
+
+assert.deepEqual(parseOsvJson(JSON.stringify({ id: "GHSA-old", withdrawn: "2022-01-01T00:00:00Z", affected: [] })), []);
+
+const [requests] = parseOsvJson(JSON.stringify([{
+  id: "PYSEC-2023-74",
+  affected: [{
+    package: { ecosystem: "PyPI", name: "Requests" },
+    ranges: [{ type: "ECOSYSTEM", events: [{ introduced: "2.3.0" }, { last_affected: "2.30.0" }] }],
+    versions: ["2.2.1"],
+  }],
+}]));
+assert.equal(requests.packageName, "requests");
+assert.equal(requests.severity, "unknown");
+
+const advisory = (row: typeof lodash): VulnerabilityAdvisory => ({
+  id: row.advisoryId,
+  summary: null,
+  referenceUrl: null,
+  publishedAt: null,
+  modifiedAt: null,
+  importedAt: null,
+  ...row,
+  aliases: row.aliases ?? [],
+  severity: row.severity ?? "unknown",
+  affectedRanges: row.affectedRanges ?? [],
+  affectedVersions: row.affectedVersions ?? [],
+  fixedVersions: row.fixedVersions ?? [],
+});
+
+assert.equal(isVersionAffected("4.17.20", advisory(lodash)), true);
+assert.equal(isVersionAffected("4.17.21", advisory(lodash)), false);
+assert.equal(isVersionAffected("2.30.0", advisory(requests)), true);
+assert.equal(isVersionAffected("2.31.0", advisory(requests)), false);
+assert.equal(isVersionAffected("2.2.1", advisory(requests)), true); // Explicitly listed version
+
+const postFix = advisory({ ...requests, affectedVersions: [], affectedRanges: [{ introduced: "0", fixed: "1.0.post1" }] });
+assert.equal(isVersionAffected("1.0", postFix), true);
+assert.equal(isVersionAffected("1.0.post1", postFix), false);
+
+let nextId = 0;
+const detected = (detectedName: string, version: string | null, detectionDetails: unknown): DetectedTool => ({
+  id: `detected-${++nextId}`,
+  analysisId: "analysis",
+  toolId: null,
+  detectedName,
+  category: "Backend/Database",
+  confidenceScore: "0.90",
+  detectionMethod: "lockfile",
+  detectionDetails,
+  suggestedTool: null,
+  estimatedMonthlyCost: "0",
+  isImported: false,
+  version,
+  filePath: "package-lock.json",
+  createdAt: null,
+});
+
+const vulnerabilities = findToolVulnerabilities(
+  [
+    detected("Lodash", "4.17.15", { package: "lodash", ecosystem: "npm" }),
+    detected("Lodash", "4.17.21", { package: "lodash", ecosystem: "npm" }),
+    detected("Requests", "2.28.1", { package: "requests", ecosystem: "pypi" }),
+    detected("Docker", null, {}),
+  ],
+  [advisory(lodash), advisory(requests)]
+);
+
+assert.deepEqual(vulnerabilities.map(vulnerability => [vulnerability.packageName, vulnerability.version, vulnerability.highestSeverity]), [
+  ["lodash", "4.17.15", "high"],
+  ["requests", "2.28.1", "unknown"],
+]);
+assert.deepEqual(vulnerabilities[0].advisories.map(match => match.aliases), [["CVE-2021-23337"]]);
+
+console.log("osv-advisories tests passed");
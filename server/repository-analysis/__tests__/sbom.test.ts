@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import type { DetectedTool, RepositoryAnalysis } from "@shared/schema";
+import { buildCycloneDxDocument, buildPackageUrl, buildSpdxDocument } from "../sbom";
+
+assert.equal(buildPackageUrl("npm", "@prisma/client", "5.8.0"), "pkg:npm/%40prisma/client@5.8.0");
+assert.equal(buildPackageUrl("pypi", "Flask_Login", "0.6.3"), "pkg:pypi/flask-login@0.6.3");
+assert.equal(buildPackageUrl("go", "github.com/redis/go-redis/v9", "9.4.0"), "pkg:golang/github.com/redis/go-redis/v9@v9.4.0");
+assert.equal(buildPackageUrl("rubygems", "rails", ">= 7.0"), "pkg:gem/rails");
+
+const analysis = {
+  id: "analysis",
+  repositoryOwner: "acme",
+  repositoryName: "shop",
+  repositoryUrl: "https://github.com/acme/shop",
+  sourceType: "github",
+  branch: "main",
+} as RepositoryAnalysis;
+
+let nextId = 0;
+const detected = (detectedName: string, version: string | null, detectionDetails: unknown, filePath = "package.json"): DetectedTool => ({
+  id: `detected-${++nextId}`,
+  analysisId: "analysis",
+  toolId: null,
+  detectedName,
+  category: "Backend/Database",
+  confidenceScore: "0.90",
+  detectionMethod: "package.json",
+  detectionDetails,
+  suggestedTool: null,
+  estimatedMonthlyCost: "0",
+  isImported: false,
+  version,
+  filePath,
+  createdAt: null,
+});
+
+const tools = [
+  detected("Prisma", "5.8.0", { package: "@prisma/client", ecosystem: "npm" }),
+  // Same package found in a second workspace project is listed once
+  detected("Prisma", "5.8.0", { package: "@prisma/client", ecosystem: "npm" }, "apps/api/package.json"),
+  detected("Lodash", "4.17.21", { package: "lodash", ecosystem: "npm", license: "MIT", transitive: true }, "package-lock.json"),
+  detected("Docker", null, {}, "Dockerfile"),
+  detected("Amazon RDS", null, { infrastructure: { resources: [] } }, "infra/main.tf"),
+];
+
+const generatedAt = new Date("2024-05-01T12:00:00.123Z");
+const cyclonedx = buildCycloneDxDocument(analysis, tools, generatedAt) as any;
+
+assert.equal(cyclonedx.bomFormat, "CycloneDX");
+assert.equal(cyclonedx.specVersion, "1.5");
+assert.match(cyclonedx.serialNumber, /^urn:uuid:[0-9a-f-]{36}$/);
+assert.equal(cyclonedx.metadata.component.name, "acme/shop");
+assert.deepEqual(cyclonedx.components.map((component: any) => [component.name, component.version, component.purl]), [
+  ["@prisma/client", "5.8.0", "pkg:npm/%40prisma/client@5.8.0"],
+  ["lodash", "4.17.21", "pkg:npm/lodash@4.17.21"],
+  ["Docker", undefined, undefined],
+]);
+assert.deepEqual(cyclonedx.components[0].evidence.occurrences, [{ location: "package.json" }, { location: "apps/api/package.json" }]);
+assert.deepEqual(cyclonedx.components[1].licenses, [{ expression: "MIT" }]);
+assert.equal(cyclonedx.components[0].licenses, undefined);
+assert.deepEqual(cyclonedx.services.map((service: any) => service.name), ["Amazon RDS"]);
+// Only direct dependencies hang off the repository
+assert.deepEqual(cyclonedx.dependencies, [{ ref: "repository", dependsOn: ["pkg:npm/%40prisma/client@5.8.0", "component-3"] }]);
+
+const spdx = buildSpdxDocument(analysis, tools, generatedAt) as any;
+
+assert.equal(spdx.spdxVersion, "SPDX-2.3");
+assert.equal(spdx.creationInfo.created, "2024-05-01T12:00:00Z");
+assert.match(spdx.documentNamespace, /^https:\/\/spdx\.org\/spdxdocs\/acme%2Fshop-[0-9a-f-]{36}$/);
+assert.deepEqual(spdx.packages.map((pkg: any) => pkg.SPDXID), [
+  "SPDXRef-Repository",
+  "SPDXRef-Package-1",
+  "SPDXRef-Package-2",
+  "SPDXRef-Package-3",
+]);
+assert.equal(spdx.packages[0].downloadLocation, "git+https://github.com/acme/shop");
+assert.deepEqual(spdx.packages[1].externalRefs, [
+  { referenceCategory: "PACKAGE-MANAGER", referenceType: "purl", referenceLocator: "pkg:npm/%40prisma/client@5.8.0" },
+]);
+assert.equal(spdx.packages[2].licenseDeclared, "MIT");
+assert.equal(spdx.packages[1].licenseDeclared, "NOASSERTION");
+assert.equal(spdx.relationships.length, 4);
+
+console.log("sbom tests passed");
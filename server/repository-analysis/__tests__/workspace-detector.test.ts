@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { detectWorkspaces, findProjectForPath, globToRegExp } from "../workspace-detector";
+
+assert.ok(globToRegExp("apps/*").test("apps/web"));
+assert.ok(!globToRegExp("apps/*").test("apps/web/nested"));
+assert.ok(globToRegExp("packages/**").test("packages/ui/icons"));
+
+// pnpm + Turborepo style layout
+const pnpmPaths = [
+  "package.json",
+  "pnpm-workspace.yaml",
+  "apps/web/package.json",
+  "apps/api/package.json",
+  "packages/ui/package.json",
+  "packages/legacy/package.json",
+  "apps/web/node_modules/react/package.json",
+];
+const pnpmLayout = detectWorkspaces(pnpmPaths, {
+  "package.json": JSON.stringify({ name: "acme", private: true }),
+  "pnpm-workspace.yaml": "packages:\n  - 'apps/*'\n  - \"packages/*\"\n  - '!packages/legacy'\n",
+});
+
+assert.deepEqual(pnpmLayout.managers, ["pnpm"]);
+assert.deepEqual(pnpmLayout.projects.map(p => p.path), ["apps/api", "apps/web", "packages/ui"]);
+
+// npm workspaces switch to yarn when a yarn.lock is present
+const yarnLayout = detectWorkspaces(["package.json", "yarn.lock", "packages/a/package.json"], {
+  "package.json": JSON.stringify({ workspaces: { packages: ["packages/*"] } }),
+});
+assert.deepEqual(yarnLayout.managers, ["yarn"]);
+assert.equal(yarnLayout.projects[0].path, "packages/a");
+
+// Go and Cargo workspaces
+const goLayout = detectWorkspaces(["go.work", "svc/auth/go.mod", "tools/go.mod"], {
+  "go.work": "go 1.22\n\nuse (\n\t./svc/auth\n)\nuse ./tools\n",
+});
+assert.deepEqual(goLayout.projects.map(p => p.path), ["svc/auth", "tools"]);
+
+const cargoLayout = detectWorkspaces(["Cargo.toml", "crates/core/Cargo.toml", "crates/bench/Cargo.toml"], {
+  "Cargo.toml": "[workspace]\nmembers = [\n  \"crates/*\",\n]\nexclude = [\"crates/bench\"]\n\n[profile.release]\nlto = true\n",
+});
+assert.deepEqual(cargoLayout.projects.map(p => p.path), ["crates/core"]);
+
+// Nx projects and project lookup
+const nxLayout = detectWorkspaces(["nx.json", "libs/shared/project.json", "libs/shared/package.json"], { "nx.json": "{}" });
+assert.deepEqual(nxLayout.managers, ["nx"]);
+assert.equal(findProjectForPath("libs/shared/package.json", nxLayout.projects)?.path, "libs/shared");
+assert.equal(findProjectForPath("package.json", nxLayout.projects), null);
+
+console.log("workspace-detector tests passed");
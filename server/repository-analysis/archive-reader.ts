@@ -0,0 +1,205 @@
+/**
+ * Archive Reader - Lists files inside uploaded repository archives
+ * Supports .zip, .tar and .tar.gz/.tgz without touching the filesystem
+ */
+
+import { gunzipSync, inflateRawSync } from "zlib";
+
+export const MAX_ARCHIVE_UPLOAD_BYTES = 50 * 1024 * 1024; // 50MB compressed
+const MAX_UNCOMPRESSED_BYTES = 250 * 1024 * 1024; // Guard against decompression bombs
+const MAX_ARCHIVE_ENTRIES = 20000;
+
+export type ArchiveFormat = "zip" | "tar" | "tar.gz";
+
+export interface ArchiveEntry {
+  path: string;
+  size: number;
+  read(): Buffer;
+}
+
+export function detectArchiveFormat(archive: Buffer): ArchiveFormat | null {
+  if (archive.length >= 4 && archive.readUInt32LE(0) === 0x04034b50) return "zip";
+  if (archive.length >= 2 && archive[0] === 0x1f && archive[1] === 0x8b) return "tar.gz";
+  if (archive.length >= 262 && archive.toString("ascii", 257, 262) === "ustar") return "tar";
+  return null;
+}
+
+// Lists regular files in the archive. Content is only decompressed when read() is called,
+// so callers can filter by path before paying for extraction.
+export function listArchiveEntries(archive: Buffer): ArchiveEntry[] {
+  const format = detectArchiveFormat(archive);
+  let entries: ArchiveEntry[];
+
+  switch (format) {
+    case "zip":
+      entries = listZipEntries(archive);
+      break;
+    case "tar.gz":
+      entries = listTarEntries(gunzipSync(archive, { maxOutputLength: MAX_UNCOMPRESSED_BYTES }));
+      break;
+    case "tar":
+      entries = listTarEntries(archive);
+      break;
+    default:
+      throw new Error("Unsupported archive format. Upload a .zip, .tar or .tar.gz file");
+  }
+
+  return stripCommonRoot(entries.filter(entry => isSafeEntryPath(entry.path)));
+}
+
+// Security: drop absolute paths and traversal segments so entries can never escape the archive root
+function isSafeEntryPath(entryPath: string): boolean {
+  if (!entryPath || entryPath.startsWith("/") || /^[a-zA-Z]:/.test(entryPath)) return false;
+  return !entryPath.split("/").some(segment => segment === "..");
+}
+
+// GitHub/GitLab exports wrap everything in a single "<repo>-<ref>/" directory
+function stripCommonRoot(entries: ArchiveEntry[]): ArchiveEntry[] {
+  if (entries.length === 0) return entries;
+
+  const roots = new Set(entries.map(entry => entry.path.split("/")[0]));
+  const [root] = Array.from(roots);
+  if (roots.size !== 1 || entries.some(entry => !entry.path.includes("/"))) {
+    return entries;
+  }
+
+  return entries.map(entry => ({
+    ...entry,
+    path: entry.path.slice(root.length + 1),
+  }));
+}
+
+function listZipEntries(archive: Buffer): ArchiveEntry[] {
+  const eocdOffset = findEndOfCentralDirectory(archive);
+  if (eocdOffset < 0) {
+    throw new Error("Invalid zip archive: end of central directory not found");
+  }
+
+  const totalEntries = archive.readUInt16LE(eocdOffset + 10);
+  const centralDirectoryOffset = archive.readUInt32LE(eocdOffset + 16);
+  if (totalEntries === 0xffff || centralDirectoryOffset === 0xffffffff) {
+    throw new Error("Zip64 archives are not supported");
+  }
+  if (totalEntries > MAX_ARCHIVE_ENTRIES) {
+    throw new Error(`Archive contains too many entries (max ${MAX_ARCHIVE_ENTRIES})`);
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let offset = centralDirectoryOffset;
+
+  for (let i = 0; i < totalEntries; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error("Invalid zip archive: corrupt central directory");
+    }
+
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const uncompressedSize = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localHeaderOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue; // Directory entry
+
+    entries.push({
+      path: name,
+      size: uncompressedSize,
+      read: () => readZipEntry(archive, localHeaderOffset, method, compressedSize, uncompressedSize),
+    });
+  }
+
+  return entries;
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+  // EOCD record is 22 bytes plus an optional comment of up to 65535 bytes
+  const lowerBound = Math.max(0, archive.length - 22 - 0xffff);
+  for (let offset = archive.length - 22; offset >= lowerBound; offset--) {
+    if (archive.readUInt32LE(offset) === 0x06054b50) return offset;
+  }
+  return -1;
+}
+
+function readZipEntry(
+  archive: Buffer,
+  localHeaderOffset: number,
+  method: number,
+  compressedSize: number,
+  uncompressedSize: number
+): Buffer {
+  if (archive.readUInt32LE(localHeaderOffset) !== 0x04034b50) {
+    throw new Error("Invalid zip archive: corrupt local file header");
+  }
+
+  const nameLength = archive.readUInt16LE(localHeaderOffset + 26);
+  const extraLength = archive.readUInt16LE(localHeaderOffset + 28);
+  const dataStart = localHeaderOffset + 30 + nameLength + extraLength;
+  const data = archive.subarray(dataStart, dataStart + compressedSize);
+
+  switch (method) {
+    case 0: // Stored
+      return Buffer.from(data);
+    case 8: // Deflate
+      return inflateRawSync(data, { maxOutputLength: Math.min(uncompressedSize || MAX_UNCOMPRESSED_BYTES, MAX_UNCOMPRESSED_BYTES) });
+    default:
+      throw new Error(`Unsupported zip compression method: ${method}`);
+  }
+}
+
+function listTarEntries(archive: Buffer): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let pendingLongName: string | null = null;
+
+  while (offset + 512 <= archive.length) {
+    const header = archive.subarray(offset, offset + 512);
+    if (header.every(byte => byte === 0)) break; // End-of-archive marker
+
+    const size = parseInt(readTarString(header, 124, 12).trim() || "0", 8);
+    const typeFlag = String.fromCharCode(header[156] || 0x30);
+    const dataStart = offset + 512;
+    const data = archive.subarray(dataStart, dataStart + size);
+
+    offset = dataStart + Math.ceil(size / 512) * 512;
+
+    if (typeFlag === "L") {
+      // GNU long file name for the following entry
+      pendingLongName = data.toString("utf8").replace(/\0+$/, "");
+      continue;
+    }
+    if (typeFlag === "x") {
+      // PAX extended header; only the path record matters for us
+      const pathRecord = data.toString("utf8").match(/\d+ path=([^\n]+)\n/);
+      pendingLongName = pathRecord ? pathRecord[1] : null;
+      continue;
+    }
+
+    const prefix = readTarString(header, 345, 155);
+    const name = pendingLongName ?? (prefix ? `${prefix}/${readTarString(header, 0, 100)}` : readTarString(header, 0, 100));
+    pendingLongName = null;
+
+    if (typeFlag !== "0") continue; // Only regular files
+
+    if (entries.length >= MAX_ARCHIVE_ENTRIES) {
+      throw new Error(`Archive contains too many entries (max ${MAX_ARCHIVE_ENTRIES})`);
+    }
+
+    entries.push({
+      path: name.replace(/^\.\//, ""),
+      size,
+      read: () => Buffer.from(data),
+    });
+  }
+
+  return entries;
+}
+
+function readTarString(header: Buffer, start: number, length: number): string {
+  const field = header.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.toString("utf8", 0, end === -1 ? length : end);
+}
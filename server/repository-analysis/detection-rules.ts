@@ -0,0 +1,76 @@
+/**
+ * Detection Rules - Turns user-defined rules into analyzer detection patterns
+ * and merges them with the built-in patterns
+ */
+
+import { isSafeRegExpSource, type DetectionPattern, type DetectionRule, type PackageEcosystem } from "@shared/schema";
+import { globToRegExp } from "./workspace-detector";
+
+// Matches any content: a rule without content patterns detects on file presence alone
+const FILE_PRESENCE_PATTERN = /^/;
+
+// Globs without a slash match the file name at any depth ("sentry.properties"),
+// globs with a slash are anchored at the repository root ("services/*/sdk.yaml")
+export function compileFileGlob(glob: string): RegExp {
+  const normalized = glob.replace(/^\.\//, "");
+  const anchored = globToRegExp(normalized);
+  if (normalized.includes("/")) return anchored;
+  return new RegExp(`(^|/)${anchored.source.slice(1)}`);
+}
+
+export function compileDetectionRule(rule: DetectionRule): DetectionPattern | null {
+  const patterns: RegExp[] = [];
+
+  for (const source of rule.contentPatterns ?? []) {
+    // Patterns run over every analyzed file on the request thread; rules saved before the
+    // backtracking check may still hold one, so it is applied here as well
+    if (!isSafeRegExpSource(source)) {
+      console.warn(`Skipping content pattern prone to catastrophic backtracking in detection rule ${rule.id}`);
+      continue;
+    }
+    try {
+      patterns.push(new RegExp(source));
+    } catch (error) {
+      // Rules are validated on write; skip anything that no longer compiles
+      console.warn(`Skipping invalid content pattern in detection rule ${rule.id}`);
+    }
+  }
+
+  // Declared npm dependencies are matched as package.json keys
+  for (const dependency of rule.dependencies ?? []) {
+    patterns.push(new RegExp(`"${escapeRegExp(dependency)}"\\s*:`));
+  }
+
+  const hasMatchers = (rule.contentPatterns?.length ?? 0) > 0 || (rule.dependencies?.length ?? 0) > 0;
+  if (!hasMatchers) patterns.push(FILE_PRESENCE_PATTERN);
+  if (patterns.length === 0) return null;
+
+  const costEstimate = rule.costEstimate != null ? parseFloat(rule.costEstimate) : undefined;
+
+  return {
+    name: rule.name,
+    category: rule.category,
+    files: [],
+    filePatterns: rule.filePatterns.map(compileFileGlob),
+    patterns,
+    dependencies: rule.dependencies ?? undefined,
+    packages: (rule.packages as Partial<Record<PackageEcosystem, string[]>> | null) ?? undefined,
+    confidence: parseFloat(rule.confidence),
+    costEstimate: Number.isFinite(costEstimate) ? costEstimate : undefined,
+    ruleId: rule.id,
+    toolId: rule.toolId ?? undefined,
+  };
+}
+
+// User rules replace built-in patterns with the same name, so built-ins can be tuned without a fork
+export function mergeDetectionPatterns(builtIn: DetectionPattern[], custom: DetectionPattern[]): DetectionPattern[] {
+  const customNames = new Set(custom.map(pattern => pattern.name.toLowerCase()));
+  return [
+    ...builtIn.filter(pattern => !customNames.has(pattern.name.toLowerCase())),
+    ...custom,
+  ];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\\/]/g, "\\$&");
+}
@@ -0,0 +1,70 @@
+/**
+ * Drift Diff - Compares two sets of detected tools from the same repository
+ */
+
+import type { DetectedTool, RepositoryDriftEntry } from "@shared/schema";
+
+export interface RepositoryDrift {
+  addedTools: RepositoryDriftEntry[];
+  removedTools: RepositoryDriftEntry[];
+  versionChangedTools: RepositoryDriftEntry[];
+}
+
+/**
+ * Compare detections by tool name. A tool found in several sub-projects counts once;
+ * its versions are joined so a bump in any sub-project shows up as a change.
+ */
+export function diffDetectedTools(baseline: DetectedTool[], current: DetectedTool[]): RepositoryDrift {
+  const baselineByName = groupByName(baseline);
+  const currentByName = groupByName(current);
+  const drift: RepositoryDrift = { addedTools: [], removedTools: [], versionChangedTools: [] };
+
+  for (const [name, tools] of Array.from(currentByName.entries())) {
+    const previous = baselineByName.get(name);
+    if (!previous) {
+      drift.addedTools.push(toDriftEntry(tools, { version: joinVersions(tools) }));
+      continue;
+    }
+
+    const version = joinVersions(tools);
+    const previousVersion = joinVersions(previous);
+    if (version && previousVersion && version !== previousVersion) {
+      drift.versionChangedTools.push(toDriftEntry(tools, { version, previousVersion }));
+    }
+  }
+
+  for (const [name, tools] of Array.from(baselineByName.entries())) {
+    if (currentByName.has(name)) continue;
+    drift.removedTools.push(toDriftEntry(tools, {
+      previousVersion: joinVersions(tools),
+      wasImported: tools.some(tool => tool.isImported),
+    }));
+  }
+
+  return drift;
+}
+
+function groupByName(tools: DetectedTool[]): Map<string, DetectedTool[]> {
+  const groups = new Map<string, DetectedTool[]>();
+  for (const tool of tools) {
+    const key = tool.detectedName.toLowerCase();
+    groups.set(key, [...(groups.get(key) ?? []), tool]);
+  }
+  return groups;
+}
+
+function joinVersions(tools: DetectedTool[]): string | null {
+  const versions = Array.from(new Set(tools.map(tool => tool.version).filter((v): v is string => !!v))).sort();
+  return versions.length > 0 ? versions.join(", ") : null;
+}
+
+function toDriftEntry(tools: DetectedTool[], details: Partial<RepositoryDriftEntry>): RepositoryDriftEntry {
+  const [tool] = tools;
+  return {
+    detectedName: tool.detectedName,
+    category: tool.category,
+    detectedToolId: tool.id,
+    toolId: tool.toolId ?? tool.suggestedTool,
+    ...details,
+  };
+}
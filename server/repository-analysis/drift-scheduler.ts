@@ -0,0 +1,121 @@
+/**
+ * Drift Scheduler - Re-analyzes tracked repositories on a cadence and records
+ * which tools were added, removed or changed version since the last import
+ */
+
+import type { DetectedTool, RepositoryAnalysis, RepositoryDriftReport } from "@shared/schema";
+import { storage } from "../storage";
+import { diffDetectedTools } from "./drift-diff";
+
+export const DEFAULT_REANALYSIS_INTERVAL_HOURS = 24;
+const DEFAULT_POLL_INTERVAL_MINUTES = 15;
+const MAX_REANALYSES_PER_TICK = 5; // Keeps each tick well inside the GitHub rate limit
+
+// Runs a fresh analysis of the tracked repository and returns the stored child analysis
+export type ReanalyzeRepository = (
+  tracked: RepositoryAnalysis
+) => Promise<{ analysis: RepositoryAnalysis; detectedTools: DetectedTool[] }>;
+
+export function getNextReanalysisAt(from: Date, intervalHours: number | null | undefined): Date {
+  const hours = intervalHours && intervalHours > 0 ? intervalHours : DEFAULT_REANALYSIS_INTERVAL_HOURS;
+  return new Date(from.getTime() + hours * 60 * 60 * 1000);
+}
+
+export class RepositoryDriftScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private reanalyze: ReanalyzeRepository | null = null;
+  private isTicking = false;
+  private inFlight = new Set<string>();
+
+  start(reanalyze: ReanalyzeRepository): void {
+    this.reanalyze = reanalyze;
+    if (this.timer) return;
+
+    const pollMinutes = parseInt(process.env.REPOSITORY_REANALYSIS_POLL_MINUTES || "", 10) || DEFAULT_POLL_INTERVAL_MINUTES;
+    this.timer = setInterval(() => {
+      void this.runDueAnalyses();
+    }, pollMinutes * 60 * 1000);
+    // Never keep the process alive just for the scheduler
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async runDueAnalyses(): Promise<void> {
+    if (!this.reanalyze || this.isTicking) return;
+    this.isTicking = true;
+
+    try {
+      const due = await storage.getDueTrackedRepositoryAnalyses(new Date(), MAX_REANALYSES_PER_TICK);
+      for (const tracked of due) {
+        if (this.inFlight.has(tracked.id)) continue;
+        await this.reanalyzeTracked(tracked).catch(error => {
+          console.error(`Scheduled re-analysis of ${tracked.repositoryUrl} failed:`, error);
+        });
+      }
+    } catch (error) {
+      console.error("Scheduled repository re-analysis failed:", error);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Re-analyze one tracked repository now and store a drift report against the
+   * analysis its last import came from (or the tracked analysis if never imported).
+   * Failures are recorded as failed reports rather than thrown.
+   */
+  async reanalyzeTracked(tracked: RepositoryAnalysis): Promise<RepositoryDriftReport> {
+    if (!this.reanalyze) {
+      throw new Error("Repository drift scheduler is not running");
+    }
+    if (this.inFlight.has(tracked.id)) {
+      throw new Error("A re-analysis of this repository is already in progress");
+    }
+
+    this.inFlight.add(tracked.id);
+    const startedAt = new Date();
+
+    try {
+      // Schedule the next run up-front so a failing repository is not retried on every tick
+      await storage.updateRepositoryAnalysis(tracked.id, {
+        lastReanalyzedAt: startedAt,
+        nextReanalysisAt: tracked.isTracked ? getNextReanalysisAt(startedAt, tracked.reanalysisIntervalHours) : null
+      });
+
+      const latestImport = await storage.getLatestImportForTrackedAnalysis(tracked.id);
+      const baselineAnalysisId = latestImport?.analysisId ?? tracked.id;
+
+      try {
+        const baseline = await storage.getDetectedToolsByAnalysisId(baselineAnalysisId);
+        const rerun = await this.reanalyze(tracked);
+        const drift = diffDetectedTools(baseline, rerun.detectedTools);
+
+        return await storage.createRepositoryDriftReport({
+          analysisId: tracked.id,
+          userId: tracked.userId,
+          reanalysisId: rerun.analysis.id,
+          baselineAnalysisId,
+          status: "completed",
+          ...drift
+        });
+      } catch (error) {
+        console.error(`Re-analysis of ${tracked.repositoryUrl} failed:`, error);
+        return await storage.createRepositoryDriftReport({
+          analysisId: tracked.id,
+          userId: tracked.userId,
+          baselineAnalysisId,
+          status: "failed",
+          error: error instanceof Error ? error.message : "Re-analysis failed"
+        });
+      }
+    } finally {
+      this.inFlight.delete(tracked.id);
+    }
+  }
+}
+
+export const repositoryDriftScheduler = new RepositoryDriftScheduler();
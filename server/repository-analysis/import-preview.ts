@@ -0,0 +1,136 @@
+/**
+ * Import Preview - Dry run of a repository import against the user's current stack
+ * Applies the selections the same way POST /api/repositories/import does, without writing.
+ */
+
+import type {
+  DetectedTool,
+  RepositoryImportDiffEntry,
+  RepositoryImportPreview,
+  RepositoryImportRequest,
+  Tool,
+  UserTool,
+} from "@shared/schema";
+
+type DetectedToolWithRefs = DetectedTool & { tool?: Tool; suggestedToolRef?: Tool };
+type UserToolWithTool = UserTool & { tool: Tool };
+
+export interface ImportDiff {
+  preview: Omit<RepositoryImportPreview, "redundancyWarnings">;
+  projectedTools: UserToolWithTool[]; // Stack as it would look after the import
+  incomingToolIds: Set<string>; // Catalog tools the import would add
+}
+
+const parseCost = (value: string | null | undefined): number => parseFloat(value || "0") || 0;
+
+export function buildImportDiff(
+  userId: string,
+  analysisId: string,
+  detectedTools: DetectedToolWithRefs[],
+  selections: RepositoryImportRequest["selectedTools"],
+  existingTools: UserToolWithTool[],
+  monthlyBudget: string | null
+): ImportDiff {
+  const selectionsById = new Map(selections.map(selection => [selection.detectedToolId, selection]));
+  const projected = new Map(existingTools.map(userTool => [userTool.toolId, { ...userTool }]));
+  const existingIds = new Set(existingTools.map(userTool => userTool.id));
+  const preview: ImportDiff["preview"] = {
+    analysisId,
+    newTools: [],
+    duplicateTools: [],
+    skippedTools: [],
+    cost: { currentMonthlyCost: 0, projectedMonthlyCost: 0, delta: 0, monthlyBudget: null, remainingBudget: null, exceedsBudget: false },
+  };
+  const incomingToolIds = new Set<string>();
+  const newEntries = new Map<string, RepositoryImportDiffEntry>();
+
+  for (const detectedTool of detectedTools) {
+    const selection = selectionsById.get(detectedTool.id);
+    if (!selection) continue;
+
+    const toolId = detectedTool.toolId || detectedTool.suggestedTool;
+    const tool = detectedTool.toolId ? detectedTool.tool : detectedTool.suggestedToolRef;
+    if (!toolId) {
+      preview.skippedTools.push({
+        detectedToolId: detectedTool.id,
+        name: detectedTool.detectedName,
+        reason: "No matching catalog tool"
+      });
+      continue;
+    }
+
+    const entry = {
+      detectedToolId: detectedTool.id,
+      toolId,
+      name: tool?.name ?? detectedTool.detectedName,
+      category: tool?.category ?? detectedTool.category,
+    };
+    const current = projected.get(toolId);
+
+    // A tool selected twice (e.g. from two workspace projects) updates the row the first selection created
+    if (current) {
+      const monthlyCost = selection.monthlyCost || current.monthlyCost;
+      if (existingIds.has(current.id)) {
+        preview.duplicateTools.push({
+          ...entry,
+          monthlyCost: parseCost(monthlyCost),
+          previousMonthlyCost: parseCost(current.monthlyCost),
+          userToolId: current.id
+        });
+      } else {
+        newEntries.get(toolId)!.monthlyCost = parseCost(monthlyCost);
+      }
+      projected.set(toolId, {
+        ...current,
+        monthlyCost,
+        quantity: selection.quantity || current.quantity,
+        isActive: selection.isActive !== undefined ? selection.isActive : current.isActive
+      });
+      continue;
+    }
+
+    const monthlyCost = selection.monthlyCost || detectedTool.estimatedMonthlyCost || "0";
+    const newEntry = { ...entry, monthlyCost: parseCost(monthlyCost) };
+    preview.newTools.push(newEntry);
+    newEntries.set(toolId, newEntry);
+    incomingToolIds.add(toolId);
+    if (!tool) continue; // Still imported, but without catalog data it cannot be projected
+
+    projected.set(toolId, {
+      id: `preview-${detectedTool.id}`,
+      userId,
+      toolId,
+      workspaceId: null,
+      monthlyCost,
+      quantity: selection.quantity || 1,
+      isActive: selection.isActive !== undefined ? selection.isActive : true,
+      lastUsedAt: null,
+      addedAt: null,
+      tool
+    });
+  }
+
+  const projectedTools = Array.from(projected.values());
+  const currentMonthlyCost = existingTools.reduce((sum, userTool) => sum + parseCost(userTool.monthlyCost), 0);
+  // New tools without catalog data are not in projectedTools but still cost money
+  const unprojectedCost = preview.newTools
+    .filter(entry => !projected.has(entry.toolId))
+    .reduce((sum, entry) => sum + entry.monthlyCost, 0);
+  const projectedMonthlyCost = projectedTools.reduce((sum, userTool) => sum + parseCost(userTool.monthlyCost), 0) + unprojectedCost;
+  const budget = monthlyBudget !== null ? parseCost(monthlyBudget) : null;
+
+  preview.cost = {
+    currentMonthlyCost: roundCents(currentMonthlyCost),
+    projectedMonthlyCost: roundCents(projectedMonthlyCost),
+    delta: roundCents(projectedMonthlyCost - currentMonthlyCost),
+    monthlyBudget: budget,
+    remainingBudget: budget !== null ? roundCents(budget - projectedMonthlyCost) : null,
+    exceedsBudget: budget !== null && projectedMonthlyCost > budget
+  };
+
+  return { preview, projectedTools, incomingToolIds };
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,511 @@
+/**
+ * Infrastructure Costs - Estimates monthly spend from infrastructure-as-code
+ * Reads Terraform resources, Kubernetes manifests and docker-compose services
+ * and prices them with the local table in infrastructure-pricing.ts
+ */
+
+import path from "path";
+import {
+  AZURE_VM_PRICES,
+  CLOUD_SQL_TIER_PRICES,
+  CONTAINER_PRICES,
+  DIGITALOCEAN_DATABASE_PRICES,
+  DIGITALOCEAN_DROPLET_PRICES,
+  DYNAMODB_PROVISIONED,
+  EC2_INSTANCE_PRICES,
+  ELASTICACHE_NODE_PRICES,
+  FLAT_MONTHLY_PRICES,
+  GCE_MACHINE_PRICES,
+  MEMORYSTORE_PER_GB,
+  RDS_INSTANCE_PRICES,
+  STORAGE_PRICES,
+} from "./infrastructure-pricing";
+import { parseYamlDocuments, type YamlValue } from "./yaml-lite";
+
+export type InfrastructureSource = "terraform" | "kubernetes" | "docker-compose";
+
+export interface InfrastructureResource {
+  source: InfrastructureSource;
+  service: string; // Billed service, e.g. "Amazon RDS"
+  category: string;
+  resourceType: string; // Terraform type, Kubernetes kind or compose image
+  name: string;
+  size: string | null;
+  quantity: number;
+  monthlyCost: number;
+  assumed: boolean; // Size or capacity was not declared and a default was priced
+  filePath: string;
+}
+
+export interface InfrastructureService {
+  service: string;
+  category: string;
+  sources: InfrastructureSource[];
+  monthlyCost: number;
+  resources: InfrastructureResource[];
+}
+
+interface InfrastructureFile {
+  path: string;
+  content: string;
+}
+
+interface TerraformResourcePricing {
+  service: string;
+  category: string;
+  sizeAttribute?: string;
+  prices?: Record<string, number>;
+  defaultSize?: string;
+  flatMonthly?: number;
+  storageAttribute?: string;
+  storagePerGb?: number;
+  nodeCountAttribute?: string; // e.g. num_cache_nodes
+  unitPrices?: Array<{ attribute: string; price: number }>;
+  multiAzAttribute?: string;
+}
+
+const COMPUTE_CATEGORY = "DevOps/Deployment";
+const DATABASE_CATEGORY = "Backend/Database";
+
+const TERRAFORM_RESOURCE_PRICING: Record<string, TerraformResourcePricing> = {
+  aws_instance: { service: "Amazon EC2", category: COMPUTE_CATEGORY, sizeAttribute: "instance_type", prices: EC2_INSTANCE_PRICES, defaultSize: "t3.micro" },
+  aws_db_instance: {
+    service: "Amazon RDS", category: DATABASE_CATEGORY, sizeAttribute: "instance_class", prices: RDS_INSTANCE_PRICES,
+    defaultSize: "db.t3.micro", storageAttribute: "allocated_storage", storagePerGb: STORAGE_PRICES.rdsGpPerGb, multiAzAttribute: "multi_az",
+  },
+  aws_rds_cluster_instance: { service: "Amazon RDS", category: DATABASE_CATEGORY, sizeAttribute: "instance_class", prices: RDS_INSTANCE_PRICES, defaultSize: "db.t3.medium" },
+  aws_elasticache_cluster: {
+    service: "Amazon ElastiCache", category: DATABASE_CATEGORY, sizeAttribute: "node_type", prices: ELASTICACHE_NODE_PRICES,
+    defaultSize: "cache.t3.micro", nodeCountAttribute: "num_cache_nodes",
+  },
+  aws_elasticache_replication_group: {
+    service: "Amazon ElastiCache", category: DATABASE_CATEGORY, sizeAttribute: "node_type", prices: ELASTICACHE_NODE_PRICES,
+    defaultSize: "cache.t3.micro", nodeCountAttribute: "num_cache_clusters",
+  },
+  aws_ebs_volume: { service: "Amazon EBS", category: COMPUTE_CATEGORY, storageAttribute: "size", storagePerGb: STORAGE_PRICES.ebsGp3PerGb },
+  aws_dynamodb_table: {
+    service: "Amazon DynamoDB", category: DATABASE_CATEGORY,
+    unitPrices: [
+      { attribute: "read_capacity", price: DYNAMODB_PROVISIONED.perReadCapacityUnit },
+      { attribute: "write_capacity", price: DYNAMODB_PROVISIONED.perWriteCapacityUnit },
+    ],
+  },
+  aws_eks_cluster: { service: "Amazon EKS", category: COMPUTE_CATEGORY, flatMonthly: FLAT_MONTHLY_PRICES.eksCluster },
+  aws_nat_gateway: { service: "Amazon VPC", category: COMPUTE_CATEGORY, flatMonthly: FLAT_MONTHLY_PRICES.natGateway },
+  aws_lb: { service: "Elastic Load Balancing", category: COMPUTE_CATEGORY, flatMonthly: FLAT_MONTHLY_PRICES.applicationLoadBalancer },
+  aws_alb: { service: "Elastic Load Balancing", category: COMPUTE_CATEGORY, flatMonthly: FLAT_MONTHLY_PRICES.applicationLoadBalancer },
+  aws_elb: { service: "Elastic Load Balancing", category: COMPUTE_CATEGORY, flatMonthly: FLAT_MONTHLY_PRICES.classicLoadBalancer },
+  google_compute_instance: { service: "Google Compute Engine", category: COMPUTE_CATEGORY, sizeAttribute: "machine_type", prices: GCE_MACHINE_PRICES, defaultSize: "e2-medium" },
+  google_sql_database_instance: { service: "Google Cloud SQL", category: DATABASE_CATEGORY, sizeAttribute: "tier", prices: CLOUD_SQL_TIER_PRICES, defaultSize: "db-f1-micro" },
+  google_redis_instance: { service: "Google Memorystore", category: DATABASE_CATEGORY, unitPrices: [{ attribute: "memory_size_gb", price: MEMORYSTORE_PER_GB }] },
+  google_container_cluster: { service: "Google Kubernetes Engine", category: COMPUTE_CATEGORY, flatMonthly: FLAT_MONTHLY_PRICES.gkeCluster },
+  azurerm_linux_virtual_machine: { service: "Azure Virtual Machines", category: COMPUTE_CATEGORY, sizeAttribute: "size", prices: AZURE_VM_PRICES, defaultSize: "Standard_B2s" },
+  azurerm_windows_virtual_machine: { service: "Azure Virtual Machines", category: COMPUTE_CATEGORY, sizeAttribute: "size", prices: AZURE_VM_PRICES, defaultSize: "Standard_B2s" },
+  digitalocean_droplet: { service: "DigitalOcean Droplets", category: COMPUTE_CATEGORY, sizeAttribute: "size", prices: DIGITALOCEAN_DROPLET_PRICES, defaultSize: "s-1vcpu-1gb" },
+  digitalocean_database_cluster: {
+    service: "DigitalOcean Managed Databases", category: DATABASE_CATEGORY, sizeAttribute: "size", prices: DIGITALOCEAN_DATABASE_PRICES,
+    defaultSize: "db-s-1vcpu-1gb", nodeCountAttribute: "node_count",
+  },
+};
+
+const KUBERNETES_SERVICE = "Kubernetes Workloads";
+const COMPOSE_SERVICE = "Docker Compose Services";
+const KUBERNETES_DIRECTORIES = new Set(["k8s", "kubernetes", "kube", "manifests", "deploy", "deployment", "deployments", "kustomize"]);
+const COMPOSE_FILE_PATTERN = /^(docker-)?compose(\.[\w-]+)?\.ya?ml$/;
+
+export function isInfrastructureFilePath(filePath: string): boolean {
+  const fileName = path.posix.basename(filePath);
+  if (/\.(tf|tfvars)$/.test(fileName)) return true;
+  if (COMPOSE_FILE_PATTERN.test(fileName)) return true;
+  if (!/\.ya?ml$/.test(fileName)) return false;
+
+  const directories = filePath.split("/").slice(0, -1);
+  return directories.some(directory => KUBERNETES_DIRECTORIES.has(directory.toLowerCase()));
+}
+
+export function extractInfrastructureResources(files: InfrastructureFile[]): InfrastructureResource[] {
+  const infrastructureFiles = files.filter(file => isInfrastructureFilePath(file.path));
+  const terraformFiles = infrastructureFiles.filter(file => /\.(tf|tfvars)$/.test(file.path));
+  const yamlFiles = infrastructureFiles.filter(file => /\.ya?ml$/.test(file.path) && !file.content.includes("{{")); // Helm templates are not plain YAML
+
+  const resources: InfrastructureResource[] = [];
+  resources.push(...extractTerraformResources(terraformFiles));
+
+  for (const file of yamlFiles) {
+    let documents: YamlValue[];
+    try {
+      documents = parseYamlDocuments(file.content);
+    } catch (error) {
+      continue;
+    }
+
+    if (COMPOSE_FILE_PATTERN.test(path.posix.basename(file.path))) {
+      resources.push(...extractComposeResources(file.path, documents));
+    } else {
+      resources.push(...extractKubernetesResources(file.path, documents));
+    }
+  }
+
+  return resources;
+}
+
+export function groupInfrastructureByService(resources: InfrastructureResource[]): InfrastructureService[] {
+  const services = new Map<string, InfrastructureService>();
+
+  for (const resource of resources) {
+    const existing = services.get(resource.service) ?? {
+      service: resource.service,
+      category: resource.category,
+      sources: [],
+      monthlyCost: 0,
+      resources: [],
+    };
+    if (!existing.sources.includes(resource.source)) existing.sources.push(resource.source);
+    existing.monthlyCost = roundCost(existing.monthlyCost + resource.monthlyCost);
+    existing.resources.push(resource);
+    services.set(resource.service, existing);
+  }
+
+  return Array.from(services.values()).sort((a, b) => b.monthlyCost - a.monthlyCost);
+}
+
+// Terraform
+
+interface TerraformBlock {
+  labels: string[];
+  body: string;
+}
+
+function extractTerraformResources(files: InfrastructureFile[]): InfrastructureResource[] {
+  const variables = readTerraformVariables(files);
+  const resources: InfrastructureResource[] = [];
+
+  for (const file of files) {
+    if (file.path.endsWith(".tfvars")) continue;
+
+    for (const block of readTerraformBlocks(file.content, "resource")) {
+      const [resourceType, name] = block.labels;
+      const pricing = TERRAFORM_RESOURCE_PRICING[resourceType];
+      if (!pricing) continue;
+
+      const read = (attribute: string) => readTerraformAttribute(block.body, attribute, variables);
+      let assumed = false;
+      let monthlyCost = pricing.flatMonthly ?? 0;
+      let size: string | null = null;
+
+      if (pricing.sizeAttribute && pricing.prices) {
+        const declaredSize = read(pricing.sizeAttribute);
+        size = declaredSize && pricing.prices[declaredSize] !== undefined ? declaredSize : pricing.defaultSize ?? null;
+        assumed = size !== declaredSize;
+        monthlyCost += size ? pricing.prices[size] ?? 0 : 0;
+      }
+
+      if (pricing.nodeCountAttribute) {
+        monthlyCost *= toNumber(read(pricing.nodeCountAttribute)) ?? 1;
+      }
+
+      if (pricing.storageAttribute && pricing.storagePerGb) {
+        monthlyCost += (toNumber(read(pricing.storageAttribute)) ?? 0) * pricing.storagePerGb;
+      }
+
+      for (const unit of pricing.unitPrices ?? []) {
+        monthlyCost += (toNumber(read(unit.attribute)) ?? 0) * unit.price;
+      }
+
+      if (pricing.multiAzAttribute && read(pricing.multiAzAttribute) === "true") {
+        monthlyCost *= 2;
+      }
+
+      const quantity = toNumber(read("count")) ?? 1;
+
+      resources.push({
+        source: "terraform",
+        service: pricing.service,
+        category: pricing.category,
+        resourceType,
+        name,
+        size,
+        quantity,
+        monthlyCost: roundCost(monthlyCost * quantity),
+        assumed,
+        filePath: file.path,
+      });
+    }
+  }
+
+  return resources;
+}
+
+// `variable` defaults, overridden by assignments in *.tfvars files
+function readTerraformVariables(files: InfrastructureFile[]): Map<string, string> {
+  const variables = new Map<string, string>();
+
+  for (const file of files) {
+    if (file.path.endsWith(".tfvars")) continue;
+    for (const block of readTerraformBlocks(file.content, "variable")) {
+      const value = readTerraformAttribute(block.body, "default", new Map());
+      if (value !== null) variables.set(block.labels[0], value);
+    }
+  }
+
+  for (const file of files) {
+    if (!file.path.endsWith(".tfvars")) continue;
+    for (const match of Array.from(file.content.matchAll(/^\s*([\w-]+)\s*=\s*(.+)$/gm))) {
+      const value = parseTerraformValue(match[2], new Map());
+      if (value !== null) variables.set(match[1], value);
+    }
+  }
+
+  return variables;
+}
+
+function readTerraformBlocks(content: string, keyword: string): TerraformBlock[] {
+  const blocks: TerraformBlock[] = [];
+  const header = new RegExp(`^\\s*${keyword}((?:\\s+"[^"]*")+)\\s*\\{`, "gm");
+
+  for (const match of Array.from(content.matchAll(header))) {
+    const labels = Array.from(match[1].matchAll(/"([^"]*)"/g)).map(label => label[1]);
+    const start = match.index! + match[0].length;
+    const end = findClosingBrace(content, start);
+    if (end < 0) continue;
+    blocks.push({ labels, body: content.slice(start, end) });
+  }
+
+  return blocks;
+}
+
+// Index of the brace closing a block whose body starts at `start`, skipping strings and comments
+function findClosingBrace(content: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < content.length; i++) {
+    const char = content[i];
+    if (char === '"') {
+      for (i++; i < content.length && content[i] !== '"'; i++) {
+        if (content[i] === "\\") i++;
+      }
+    } else if (char === "#" || (char === "/" && content[i + 1] === "/")) {
+      while (i < content.length && content[i] !== "\n") i++;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+// First assignment of the attribute anywhere in the block, including nested blocks like `settings {}`
+function readTerraformAttribute(body: string, attribute: string, variables: Map<string, string>): string | null {
+  const match = body.match(new RegExp(`(?:^|\\n)\\s*${attribute}\\s*=\\s*([^\\n]+)`));
+  return match ? parseTerraformValue(match[1], variables) : null;
+}
+
+function parseTerraformValue(raw: string, variables: Map<string, string>): string | null {
+  const value = raw.replace(/\s+(#|\/\/).*$/, "").trim();
+
+  const quoted = value.match(/^"([^"]*)"/);
+  if (quoted) {
+    const interpolated = quoted[1].match(/^\$\{var\.([\w-]+)\}$/);
+    return interpolated ? variables.get(interpolated[1]) ?? null : quoted[1];
+  }
+
+  const variable = value.match(/^var\.([\w-]+)$/);
+  if (variable) return variables.get(variable[1]) ?? null;
+
+  return /^[\w.-]+$/.test(value) ? value : null;
+}
+
+// Kubernetes
+
+function extractKubernetesResources(filePath: string, documents: YamlValue[]): InfrastructureResource[] {
+  const resources: InfrastructureResource[] = [];
+
+  for (const document of documents) {
+    if (!isMap(document) || typeof document.kind !== "string" || !document.apiVersion) continue;
+
+    const kind = document.kind;
+    const name = String(getPath(document, ["metadata", "name"]) ?? kind.toLowerCase());
+    const spec = getPath(document, ["spec"]);
+
+    if (kind === "Deployment" || kind === "StatefulSet" || kind === "ReplicaSet" || kind === "DaemonSet") {
+      const replicas = kind === "DaemonSet" ? 1 : toNumber(getPath(spec, ["replicas"])) ?? 1;
+      const containers = getPath(spec, ["template", "spec", "containers"]);
+      const capacity = sumContainerCapacity(Array.isArray(containers) ? containers : []);
+
+      resources.push({
+        source: "kubernetes",
+        service: KUBERNETES_SERVICE,
+        category: COMPUTE_CATEGORY,
+        resourceType: kind,
+        name,
+        size: formatCapacity(capacity.vcpu, capacity.memoryGb),
+        quantity: replicas,
+        monthlyCost: roundCost(priceContainerCapacity(capacity.vcpu, capacity.memoryGb) * replicas),
+        assumed: capacity.assumed || kind === "DaemonSet", // DaemonSets run once per node; node count is unknown
+        filePath,
+      });
+
+      // StatefulSets get one volume per replica from each claim template
+      const claimTemplates = getPath(spec, ["volumeClaimTemplates"]);
+      for (const claim of Array.isArray(claimTemplates) ? claimTemplates : []) {
+        const storageGb = parseMemoryGb(getPath(claim, ["spec", "resources", "requests", "storage"]));
+        if (!storageGb) continue;
+        resources.push(persistentVolume(`${name}/${getPath(claim, ["metadata", "name"]) ?? "data"}`, storageGb, replicas, filePath));
+      }
+    } else if (kind === "PersistentVolumeClaim") {
+      const storageGb = parseMemoryGb(getPath(spec, ["resources", "requests", "storage"]));
+      if (storageGb) resources.push(persistentVolume(name, storageGb, 1, filePath));
+    } else if (kind === "Service" && getPath(spec, ["type"]) === "LoadBalancer") {
+      resources.push({
+        source: "kubernetes",
+        service: KUBERNETES_SERVICE,
+        category: COMPUTE_CATEGORY,
+        resourceType: "Service/LoadBalancer",
+        name,
+        size: null,
+        quantity: 1,
+        monthlyCost: FLAT_MONTHLY_PRICES.kubernetesLoadBalancerService,
+        assumed: false,
+        filePath,
+      });
+    }
+  }
+
+  return resources;
+}
+
+function persistentVolume(name: string, storageGb: number, quantity: number, filePath: string): InfrastructureResource {
+  return {
+    source: "kubernetes",
+    service: KUBERNETES_SERVICE,
+    category: COMPUTE_CATEGORY,
+    resourceType: "PersistentVolumeClaim",
+    name,
+    size: `${roundCost(storageGb)} GiB`,
+    quantity,
+    monthlyCost: roundCost(storageGb * STORAGE_PRICES.persistentVolumePerGb * quantity),
+    assumed: false,
+    filePath,
+  };
+}
+
+function sumContainerCapacity(containers: YamlValue[]): { vcpu: number; memoryGb: number; assumed: boolean } {
+  let vcpu = 0;
+  let memoryGb = 0;
+  let assumed = containers.length === 0;
+
+  for (const container of containers) {
+    const requests = getPath(container, ["resources", "requests"]);
+    const limits = getPath(container, ["resources", "limits"]);
+    const cpu = parseCpu(getPath(requests, ["cpu"])) ?? parseCpu(getPath(limits, ["cpu"]));
+    const memory = parseMemoryGb(getPath(requests, ["memory"])) ?? parseMemoryGb(getPath(limits, ["memory"]));
+
+    if (cpu === null || memory === null) assumed = true;
+    vcpu += cpu ?? CONTAINER_PRICES.defaultVcpu;
+    memoryGb += memory ?? CONTAINER_PRICES.defaultMemoryGb;
+  }
+
+  if (containers.length === 0) {
+    vcpu = CONTAINER_PRICES.defaultVcpu;
+    memoryGb = CONTAINER_PRICES.defaultMemoryGb;
+  }
+
+  return { vcpu, memoryGb, assumed };
+}
+
+// docker-compose
+
+function extractComposeResources(filePath: string, documents: YamlValue[]): InfrastructureResource[] {
+  const resources: InfrastructureResource[] = [];
+
+  for (const document of documents) {
+    const services = getPath(document, ["services"]);
+    if (!isMap(services)) continue;
+
+    for (const [name, service] of Object.entries(services)) {
+      if (!isMap(service)) continue;
+
+      const limits = getPath(service, ["deploy", "resources", "limits"]);
+      const cpu = parseCpu(getPath(limits, ["cpus"]) ?? service.cpus);
+      const memoryGb = parseMemoryGb(getPath(limits, ["memory"]) ?? service.mem_limit);
+      const replicas = toNumber(getPath(service, ["deploy", "replicas"])) ?? 1;
+      const vcpu = cpu ?? CONTAINER_PRICES.defaultVcpu;
+      const memory = memoryGb ?? CONTAINER_PRICES.defaultMemoryGb;
+
+      resources.push({
+        source: "docker-compose",
+        service: COMPOSE_SERVICE,
+        category: COMPUTE_CATEGORY,
+        resourceType: typeof service.image === "string" ? service.image : "build",
+        name,
+        size: formatCapacity(vcpu, memory),
+        quantity: replicas,
+        monthlyCost: roundCost(priceContainerCapacity(vcpu, memory) * replicas),
+        assumed: cpu === null || memoryGb === null,
+        filePath,
+      });
+    }
+  }
+
+  return resources;
+}
+
+// Shared helpers
+
+function priceContainerCapacity(vcpu: number, memoryGb: number): number {
+  return vcpu * CONTAINER_PRICES.perVcpu + memoryGb * CONTAINER_PRICES.perGbMemory;
+}
+
+function formatCapacity(vcpu: number, memoryGb: number): string {
+  return `${roundCost(vcpu)} vCPU / ${roundCost(memoryGb)} GiB`;
+}
+
+// Kubernetes CPU quantities ("500m", "2") and compose cpus ("0.5")
+export function parseCpu(value: YamlValue | undefined): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(m?)$/);
+  if (!match) return null;
+  return match[2] ? parseFloat(match[1]) / 1000 : parseFloat(match[1]);
+}
+
+// Kubernetes ("512Mi", "1G") and compose ("512m", "1gb") memory/storage quantities, in GiB
+export function parseMemoryGb(value: YamlValue | undefined): number | null {
+  if (typeof value === "number") return value / 1024 ** 3;
+  if (typeof value !== "string") return null;
+
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kmgtKMGT]i?)?[bB]?$/);
+  if (!match) return null;
+
+  const amount = parseFloat(match[1]);
+  const unit = (match[2] ?? "").toLowerCase();
+  const binary = unit.endsWith("i");
+  const base = binary ? 1024 : 1000;
+  const exponent = { "": 0, k: 1, m: 2, g: 3, t: 4 }[unit.replace("i", "")] ?? 0;
+
+  return (amount * base ** exponent) / 1024 ** 3;
+}
+
+function getPath(value: YamlValue | undefined, keys: string[]): YamlValue | undefined {
+  let current = value;
+  for (const key of keys) {
+    if (!isMap(current)) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+function isMap(value: YamlValue | undefined): value is { [key: string]: YamlValue } {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function toNumber(value: YamlValue | string | undefined): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && /^\d+(\.\d+)?$/.test(value.trim())) return parseFloat(value);
+  return null;
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,87 @@
+/**
+ * Infrastructure Pricing - Local on-demand price table for IaC cost estimates
+ * Monthly USD (730 hours), Linux, us-east-1 / us-central1 / East US list prices.
+ * Estimates only: no reserved, spot or free-tier discounts are applied.
+ */
+
+export const HOURS_PER_MONTH = 730;
+
+export const EC2_INSTANCE_PRICES: Record<string, number> = {
+  "t2.micro": 8.47, "t2.small": 16.79, "t2.medium": 33.87, "t2.large": 67.74,
+  "t3.nano": 3.80, "t3.micro": 7.59, "t3.small": 15.18, "t3.medium": 30.37,
+  "t3.large": 60.74, "t3.xlarge": 121.47, "t3.2xlarge": 242.94,
+  "t4g.nano": 3.07, "t4g.micro": 6.13, "t4g.small": 12.26, "t4g.medium": 24.53, "t4g.large": 49.06,
+  "m5.large": 70.08, "m5.xlarge": 140.16, "m5.2xlarge": 280.32, "m5.4xlarge": 560.64,
+  "m6i.large": 70.08, "m6i.xlarge": 140.16, "m6g.large": 56.21, "m6g.xlarge": 112.42,
+  "c5.large": 62.05, "c5.xlarge": 124.10, "c5.2xlarge": 248.20,
+  "r5.large": 91.98, "r5.xlarge": 183.96,
+};
+
+// RDS single-AZ instance hours; Aurora instances use the same classes
+export const RDS_INSTANCE_PRICES: Record<string, number> = {
+  "db.t3.micro": 12.41, "db.t3.small": 24.82, "db.t3.medium": 49.64, "db.t3.large": 99.28,
+  "db.t4g.micro": 11.68, "db.t4g.small": 23.36, "db.t4g.medium": 47.45, "db.t4g.large": 94.17,
+  "db.m5.large": 124.10, "db.m5.xlarge": 248.20, "db.m6g.large": 109.50,
+  "db.r5.large": 175.20, "db.r5.xlarge": 350.40, "db.r6g.large": 164.98,
+};
+
+export const ELASTICACHE_NODE_PRICES: Record<string, number> = {
+  "cache.t3.micro": 12.41, "cache.t3.small": 24.82, "cache.t3.medium": 49.64,
+  "cache.t4g.micro": 11.68, "cache.t4g.small": 23.36, "cache.t4g.medium": 46.72,
+  "cache.m5.large": 113.15, "cache.m6g.large": 109.50, "cache.r5.large": 157.68, "cache.r6g.large": 149.65,
+};
+
+export const GCE_MACHINE_PRICES: Record<string, number> = {
+  "e2-micro": 6.11, "e2-small": 12.23, "e2-medium": 24.46,
+  "e2-standard-2": 48.91, "e2-standard-4": 97.83, "e2-standard-8": 195.66,
+  "n1-standard-1": 24.27, "n1-standard-2": 48.55, "n1-standard-4": 97.09,
+  "n2-standard-2": 56.72, "n2-standard-4": 113.44,
+};
+
+export const CLOUD_SQL_TIER_PRICES: Record<string, number> = {
+  "db-f1-micro": 7.67, "db-g1-small": 25.55,
+  "db-n1-standard-1": 51.10, "db-n1-standard-2": 102.20, "db-n1-standard-4": 204.40,
+  "db-custom-1-3840": 49.93, "db-custom-2-7680": 99.86, "db-custom-4-15360": 199.73,
+};
+
+export const AZURE_VM_PRICES: Record<string, number> = {
+  "Standard_B1s": 7.59, "Standard_B1ms": 15.11, "Standard_B2s": 30.37, "Standard_B2ms": 60.74,
+  "Standard_B4ms": 121.18, "Standard_D2s_v3": 70.08, "Standard_D4s_v3": 140.16,
+  "Standard_D2s_v5": 70.08, "Standard_D4s_v5": 140.16,
+};
+
+export const DIGITALOCEAN_DROPLET_PRICES: Record<string, number> = {
+  "s-1vcpu-512mb-10gb": 4, "s-1vcpu-1gb": 6, "s-1vcpu-2gb": 12, "s-2vcpu-2gb": 18,
+  "s-2vcpu-4gb": 24, "s-4vcpu-8gb": 48, "s-8vcpu-16gb": 96,
+};
+
+export const DIGITALOCEAN_DATABASE_PRICES: Record<string, number> = {
+  "db-s-1vcpu-1gb": 15, "db-s-1vcpu-2gb": 30, "db-s-2vcpu-4gb": 60, "db-s-4vcpu-8gb": 120,
+};
+
+// Per-unit rates
+export const STORAGE_PRICES = {
+  rdsGpPerGb: 0.115,
+  ebsGp3PerGb: 0.08,
+  persistentVolumePerGb: 0.10,
+};
+
+export const FLAT_MONTHLY_PRICES = {
+  eksCluster: 73.00,
+  gkeCluster: 73.00,
+  natGateway: 32.85,
+  applicationLoadBalancer: 16.43,
+  classicLoadBalancer: 18.25,
+  kubernetesLoadBalancerService: 18.25,
+};
+
+export const MEMORYSTORE_PER_GB = 35.77; // Basic tier
+export const DYNAMODB_PROVISIONED = { perWriteCapacityUnit: 0.47, perReadCapacityUnit: 0.09 };
+
+// Container capacity for Kubernetes workloads and compose services, priced like general purpose VMs
+export const CONTAINER_PRICES = {
+  perVcpu: 0.0316 * HOURS_PER_MONTH,
+  perGbMemory: 0.0042 * HOURS_PER_MONTH,
+  defaultVcpu: 0.25, // Used when a container declares no requests/limits
+  defaultMemoryGb: 0.5,
+};
@@ -0,0 +1,396 @@
+/**
+ * Lockfile Parser - Resolved dependency versions across package ecosystems
+ * Reads npm/yarn/pnpm, Poetry/Pipenv, Bundler, Go and Cargo lockfiles plus their manifests
+ */
+
+import path from "path";
+import type { PackageEcosystem } from "@shared/schema";
+
+export interface LockedDependency {
+  name: string;
+  version: string;
+  license?: string; // As declared in the lockfile (only npm lockfile v2/v3 records it)
+}
+
+export interface ParsedLockfile {
+  path: string;
+  ecosystem: PackageEcosystem;
+  dependencies: Map<string, LockedDependency>; // Keyed by normalized package name
+  directNames: Set<string>; // Normalized names the lockfile itself marks as direct (may be empty)
+}
+
+export const LOCKFILE_ECOSYSTEMS: Record<string, PackageEcosystem> = {
+  "package-lock.json": "npm",
+  "yarn.lock": "npm",
+  "pnpm-lock.yaml": "npm",
+  "poetry.lock": "pypi",
+  "Pipfile.lock": "pypi",
+  "Gemfile.lock": "rubygems",
+  "go.sum": "go",
+  "Cargo.lock": "cargo",
+};
+
+export const MANIFEST_ECOSYSTEMS: Record<string, PackageEcosystem> = {
+  "package.json": "npm",
+  "requirements.txt": "pypi",
+  "pyproject.toml": "pypi",
+  "Pipfile": "pypi",
+  "Gemfile": "rubygems",
+  "go.mod": "go",
+  "Cargo.toml": "cargo",
+};
+
+export function isLockfile(filePath: string): boolean {
+  return path.posix.basename(filePath) in LOCKFILE_ECOSYSTEMS;
+}
+
+// Registry-specific name normalization so manifest, lockfile and rule names compare equal
+export function normalizePackageName(ecosystem: PackageEcosystem, name: string): string {
+  switch (ecosystem) {
+    case "pypi":
+      return name.toLowerCase().replace(/[-_.]+/g, "-"); // PEP 503
+    case "go":
+      return name.replace(/\/v\d+$/, ""); // Major version suffixes are the same module family
+    case "rubygems":
+    case "cargo":
+      return name.toLowerCase();
+    default:
+      return name;
+  }
+}
+
+export function parseLockfile(filePath: string, content: string): ParsedLockfile | null {
+  const fileName = path.posix.basename(filePath);
+  const ecosystem = LOCKFILE_ECOSYSTEMS[fileName];
+  if (!ecosystem) return null;
+
+  const dependencies = new Map<string, LockedDependency>();
+  const directNames = new Set<string>();
+  const add = (name: string, version: string | undefined, license?: string) => {
+    if (!name || !version) return;
+    const key = normalizePackageName(ecosystem, name);
+    if (!dependencies.has(key)) dependencies.set(key, { name, version, ...(license && { license }) });
+  };
+
+  try {
+    switch (fileName) {
+      case "package-lock.json":
+        parsePackageLock(content, add, name => directNames.add(name));
+        break;
+      case "yarn.lock":
+        parseYarnLock(content, add);
+        break;
+      case "pnpm-lock.yaml":
+        parsePnpmLock(content, add);
+        break;
+      case "poetry.lock":
+      case "Cargo.lock":
+        parseTomlPackages(content, add);
+        break;
+      case "Pipfile.lock":
+        parsePipfileLock(content, add);
+        break;
+      case "Gemfile.lock":
+        parseGemfileLock(content, add, name => directNames.add(normalizePackageName("rubygems", name)));
+        break;
+      case "go.sum":
+        parseGoSum(content, add, dependencies);
+        break;
+    }
+  } catch (error) {
+    console.warn(`Failed to parse lockfile ${filePath}:`, error);
+    return null;
+  }
+
+  return { path: filePath, ecosystem, dependencies, directNames };
+}
+
+/**
+ * Dependency names a manifest declares directly (normalized). Anything found in a
+ * lockfile but not declared in any manifest is treated as transitive.
+ */
+export function readDeclaredDependencies(filePath: string, content: string): { ecosystem: PackageEcosystem; names: Set<string> } | null {
+  const fileName = path.posix.basename(filePath);
+  const ecosystem = MANIFEST_ECOSYSTEMS[fileName];
+  if (!ecosystem) return null;
+
+  const names = new Set<string>();
+  const add = (name: string) => {
+    if (name) names.add(normalizePackageName(ecosystem, name.trim()));
+  };
+
+  switch (fileName) {
+    case "package.json": {
+      try {
+        const data = JSON.parse(content);
+        for (const field of ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"]) {
+          Object.keys(data[field] || {}).forEach(add);
+        }
+      } catch (e) {
+        // Invalid JSON, nothing declared
+      }
+      break;
+    }
+    case "requirements.txt":
+      for (const line of content.split(/\r?\n/)) {
+        const match = line.trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)/);
+        if (match && !line.trim().startsWith("-")) add(match[1]);
+      }
+      break;
+    case "pyproject.toml":
+    case "Pipfile":
+    case "Cargo.toml":
+      readTomlDependencyTables(content, add);
+      break;
+    case "Gemfile":
+      for (const match of Array.from(content.matchAll(/^\s*gem\s+['"]([^'"]+)['"]/gm))) add(match[1]);
+      break;
+    case "go.mod":
+      for (const line of readGoRequireLines(content)) {
+        if (!/\/\/\s*indirect/.test(line)) add(line.trim().split(/\s+/)[0]);
+      }
+      break;
+  }
+
+  return { ecosystem, names };
+}
+
+function parsePackageLock(
+  content: string,
+  add: (name: string, version: string | undefined, license?: string) => void,
+  addDirect: (name: string) => void
+) {
+  const data = JSON.parse(content);
+
+  if (data.packages && typeof data.packages === "object") {
+    // lockfileVersion 2/3: prefer the shallowest (hoisted) copy of each package
+    const entries = Object.entries<any>(data.packages)
+      .filter(([key, info]) => key.includes("node_modules/") && !info?.link)
+      .sort(([a], [b]) => a.split("node_modules/").length - b.split("node_modules/").length);
+
+    for (const [key, info] of entries) {
+      add(
+        info.name ?? key.slice(key.lastIndexOf("node_modules/") + "node_modules/".length),
+        info.version,
+        typeof info.license === "string" ? info.license : undefined
+      );
+    }
+
+    const root = data.packages[""] || {};
+    for (const field of ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"]) {
+      Object.keys(root[field] || {}).forEach(addDirect);
+    }
+    return;
+  }
+
+  // lockfileVersion 1: nested dependency objects
+  const walk = (dependencies: Record<string, any> | undefined) => {
+    for (const [name, info] of Object.entries(dependencies || {})) {
+      add(name, info?.version);
+    }
+    for (const info of Object.values(dependencies || {})) {
+      walk(info?.dependencies);
+    }
+  };
+  walk(data.dependencies);
+}
+
+// Handles both classic (v1) and Berry (v2+) yarn.lock formats
+function parseYarnLock(content: string, add: (name: string, version: string | undefined) => void) {
+  let currentNames: string[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line || line.startsWith("#")) continue;
+
+    if (!line.startsWith(" ") && line.endsWith(":")) {
+      currentNames = line
+        .slice(0, -1)
+        .split(",")
+        .map(spec => spec.trim().replace(/^"|"$/g, ""))
+        .filter(spec => spec && spec !== "__metadata" && !spec.includes("@workspace:"))
+        .map(spec => spec.slice(0, spec.indexOf("@", 1)))
+        .filter(Boolean);
+      continue;
+    }
+
+    const version = line.match(/^\s+version:?\s+"?([^"\s]+)"?/);
+    if (version && currentNames.length > 0) {
+      for (const name of Array.from(new Set(currentNames))) add(name, version[1]);
+      currentNames = [];
+    }
+  }
+}
+
+// pnpm v5 ("/name/1.0.0"), v6 ("/name@1.0.0(peer)") and v9 ("name@1.0.0") package keys
+function parsePnpmLock(content: string, add: (name: string, version: string | undefined) => void) {
+  let inPackages = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (/^(packages|snapshots):\s*$/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (/^\S/.test(line)) {
+      inPackages = false;
+      continue;
+    }
+    if (!inPackages) continue;
+
+    const keyMatch = line.match(/^ {2}['"]?([^'"\s][^'"]*?)['"]?:\s*$/);
+    if (!keyMatch) continue;
+
+    const key = keyMatch[1].replace(/^\//, "").replace(/\(.*$/, "");
+    const atIndex = key.indexOf("@", 1);
+    if (atIndex > 0) {
+      add(key.slice(0, atIndex), key.slice(atIndex + 1));
+    } else {
+      const slashIndex = key.lastIndexOf("/");
+      if (slashIndex > 0) add(key.slice(0, slashIndex), key.slice(slashIndex + 1).replace(/_.*$/, ""));
+    }
+  }
+}
+
+// poetry.lock and Cargo.lock both list [[package]] tables with name/version keys
+function parseTomlPackages(content: string, add: (name: string, version: string | undefined) => void) {
+  for (const block of content.split(/^\[\[package\]\]\s*$/m).slice(1)) {
+    const body = block.split(/^\[/m)[0];
+    const name = body.match(/^name\s*=\s*"([^"]+)"/m);
+    const version = body.match(/^version\s*=\s*"([^"]+)"/m);
+    if (name && version) add(name[1], version[1]);
+  }
+}
+
+function parsePipfileLock(content: string, add: (name: string, version: string | undefined) => void) {
+  const data = JSON.parse(content);
+  for (const section of ["default", "develop"]) {
+    for (const [name, info] of Object.entries<any>(data[section] || {})) {
+      add(name, typeof info?.version === "string" ? info.version.replace(/^==/, "") : undefined);
+    }
+  }
+}
+
+function parseGemfileLock(
+  content: string,
+  add: (name: string, version: string | undefined) => void,
+  addDirect: (name: string) => void
+) {
+  let section = "";
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\S/.test(line)) {
+      section = line.trim();
+      continue;
+    }
+
+    if (section === "DEPENDENCIES") {
+      const dependency = line.match(/^ {2}([^\s!(]+)/);
+      if (dependency) addDirect(dependency[1]);
+      continue;
+    }
+
+    // Resolved specs sit at four spaces; their own requirements are indented further
+    const spec = line.match(/^ {4}([^\s(]+) \(([^)]+)\)$/);
+    if (spec) add(spec[1], spec[2].replace(/-[a-z0-9_]+(-[a-z0-9_]+)*$/i, ""));
+  }
+}
+
+// go.sum records every version considered during resolution; keep the highest per module
+function parseGoSum(
+  content: string,
+  add: (name: string, version: string | undefined) => void,
+  dependencies: Map<string, LockedDependency>
+) {
+  const highest = new Map<string, string>();
+  for (const line of content.split(/\r?\n/)) {
+    const [module, rawVersion] = line.trim().split(/\s+/);
+    if (!module || !rawVersion) continue;
+
+    const version = rawVersion.replace(/\/go\.mod$/, "").replace(/^v/, "");
+    const current = highest.get(module);
+    if (!current || current.localeCompare(version, undefined, { numeric: true }) < 0) {
+      highest.set(module, version);
+    }
+  }
+
+  for (const [module, version] of Array.from(highest.entries())) {
+    const key = normalizePackageName("go", module);
+    const existing = dependencies.get(key);
+    if (existing && existing.version.localeCompare(version, undefined, { numeric: true }) >= 0) continue;
+    dependencies.delete(key);
+    add(module, version);
+  }
+}
+
+// Reads keys from [dependencies]-style tables (Cargo, Poetry, Pipfile) and PEP 621 arrays
+function readTomlDependencyTables(content: string, add: (name: string) => void) {
+  let inDependencyTable = false;
+  let inOptionalDependencies = false;
+  let inDependencyArray = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    if (!line) continue;
+
+    const header = line.match(/^\[([^\]]+)\]$/);
+    if (header) {
+      const table = header[1].trim();
+      inDependencyArray = false;
+      inOptionalDependencies = table === "project.optional-dependencies";
+
+      // [dependencies.serde] style tables name the dependency in the header
+      const inlineTable = table.match(/(?:^|\.)(?:dependencies|dev-dependencies|build-dependencies)\.([^.]+)$/);
+      if (inlineTable) {
+        add(inlineTable[1].replace(/"/g, ""));
+        inDependencyTable = false;
+        continue;
+      }
+      inDependencyTable = !inOptionalDependencies
+        && /(^|\.)(dependencies|dev-dependencies|build-dependencies|packages|dev-packages)$/.test(table);
+      continue;
+    }
+
+    if (inDependencyArray) {
+      readRequirementStrings(line, add);
+      if (line.includes("]")) inDependencyArray = false;
+      continue;
+    }
+
+    // PEP 621: dependencies = [...] under [project], or any extra under [project.optional-dependencies]
+    const arrayStart = line.match(/^([A-Za-z0-9_-]+)\s*=\s*\[(.*)$/);
+    if (arrayStart && !inDependencyTable && (arrayStart[1] === "dependencies" || inOptionalDependencies)) {
+      readRequirementStrings(arrayStart[2], add);
+      inDependencyArray = !arrayStart[2].includes("]");
+      continue;
+    }
+
+    if (inDependencyTable) {
+      const key = line.match(/^"?([A-Za-z0-9._-]+)"?\s*=/);
+      if (key && key[1] !== "python") add(key[1]);
+    }
+  }
+}
+
+function readRequirementStrings(fragment: string, add: (name: string) => void) {
+  for (const match of Array.from(fragment.matchAll(/["']([A-Za-z0-9][A-Za-z0-9._-]*)/g))) {
+    add(match[1]);
+  }
+}
+
+function readGoRequireLines(content: string): string[] {
+  const lines: string[] = [];
+  let inBlock = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (/^require\s*\($/.test(trimmed)) {
+      inBlock = true;
+    } else if (inBlock && trimmed === ")") {
+      inBlock = false;
+    } else if (inBlock && trimmed && !trimmed.startsWith("//")) {
+      lines.push(trimmed);
+    } else if (/^require\s+\S+\s+\S+/.test(trimmed)) {
+      lines.push(trimmed.replace(/^require\s+/, ""));
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,302 @@
+/**
+ * OSV Advisories - Parses OSV vulnerability records and matches them against detected packages
+ * Works entirely offline: records come from OSV JSON dumps imported into vulnerability_advisories.
+ */
+
+import type {
+  AdvisorySeverity,
+  AdvisoryVersionRange,
+  DetectedTool,
+  InsertVulnerabilityAdvisory,
+  PackageEcosystem,
+  ToolVulnerability,
+  VulnerabilityAdvisory,
+} from "@shared/schema";
+import { normalizePackageName } from "./lockfile-parser";
+
+// OSV ecosystem names for the registries the analyzer reads lockfiles from
+export const OSV_ECOSYSTEMS: Record<string, PackageEcosystem> = {
+  npm: "npm",
+  PyPI: "pypi",
+  RubyGems: "rubygems",
+  Go: "go",
+  "crates.io": "cargo",
+};
+
+const SEVERITY_RANK: Record<AdvisorySeverity, number> = {
+  critical: 4,
+  high: 3,
+  medium: 2,
+  low: 1,
+  unknown: 0,
+};
+
+interface OsvEvent {
+  introduced?: string;
+  fixed?: string;
+  last_affected?: string;
+  limit?: string;
+}
+
+interface OsvAffected {
+  package?: { ecosystem?: string; name?: string };
+  ranges?: Array<{ type?: string; events?: OsvEvent[] }>;
+  versions?: string[];
+  database_specific?: { severity?: string };
+  ecosystem_specific?: { severity?: string };
+}
+
+interface OsvRecord {
+  id?: string;
+  aliases?: string[];
+  summary?: string;
+  details?: string;
+  published?: string;
+  modified?: string;
+  withdrawn?: string;
+  affected?: OsvAffected[];
+  references?: Array<{ type?: string; url?: string }>;
+  database_specific?: { severity?: string };
+}
+
+// Parses one OSV JSON document: a single record or an array of records
+export function parseOsvJson(content: string): InsertVulnerabilityAdvisory[] {
+  const parsed = JSON.parse(content);
+  const records: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+  return records.flatMap(record => parseOsvRecord(record));
+}
+
+/**
+ * One advisory row per affected package in a supported ecosystem. Withdrawn
+ * records and git-commit ranges (which carry no package versions) are skipped.
+ */
+export function parseOsvRecord(input: unknown): InsertVulnerabilityAdvisory[] {
+  const record = input as OsvRecord;
+  if (!record || typeof record !== "object" || typeof record.id !== "string" || record.withdrawn) return [];
+
+  const referenceUrl = record.references?.find(reference => reference.type === "ADVISORY")?.url ??
+    record.references?.find(reference => reference.url)?.url ??
+    null;
+  const rows = new Map<string, InsertVulnerabilityAdvisory>();
+
+  for (const affected of record.affected ?? []) {
+    const ecosystem = OSV_ECOSYSTEMS[affected.package?.ecosystem ?? ""];
+    const name = affected.package?.name;
+    if (!ecosystem || !name) continue;
+
+    const packageName = normalizePackageName(ecosystem, name);
+    const affectedRanges = (affected.ranges ?? [])
+      .filter(range => range.type === "SEMVER" || range.type === "ECOSYSTEM")
+      .flatMap(range => toVersionRanges(range.events ?? []));
+    const affectedVersions = affected.versions ?? [];
+    if (affectedRanges.length === 0 && affectedVersions.length === 0) continue;
+
+    const existing = rows.get(packageName);
+    if (existing) {
+      // Several "affected" entries for the same package widen the same advisory row
+      existing.affectedRanges = [...(existing.affectedRanges as AdvisoryVersionRange[]), ...affectedRanges];
+      existing.affectedVersions = [...(existing.affectedVersions ?? []), ...affectedVersions];
+      existing.fixedVersions = collectFixedVersions(existing.affectedRanges as AdvisoryVersionRange[]);
+      continue;
+    }
+
+    rows.set(packageName, {
+      advisoryId: record.id,
+      aliases: record.aliases ?? [],
+      ecosystem,
+      packageName,
+      summary: record.summary ?? record.details?.split("\n")[0] ?? null,
+      severity: normalizeSeverity(
+        affected.database_specific?.severity ?? affected.ecosystem_specific?.severity ?? record.database_specific?.severity
+      ),
+      affectedRanges,
+      affectedVersions,
+      fixedVersions: collectFixedVersions(affectedRanges),
+      referenceUrl,
+      publishedAt: parseDate(record.published),
+      modifiedAt: parseDate(record.modified),
+    });
+  }
+
+  return Array.from(rows.values());
+}
+
+// Versions that name a single release; ranges like "^1.2" or "1.x" cannot be matched reliably
+export function isConcreteVersion(version: string | null | undefined): version is string {
+  if (!version) return false;
+  return /^v?\d+(\.\d+)*([-+.]?[0-9A-Za-z]+([.-][0-9A-Za-z]+)*)?$/.test(version) && !/\.(x|\*)(\.|$)/i.test(version);
+}
+
+/**
+ * Compares dotted versions with semver-style pre-releases ("1.0.0-rc.1" < "1.0.0").
+ * PEP 440 suffixes such as "rc1" are treated as pre-releases, which is also their order;
+ * post-releases ("1.0.post1") come after the release they follow.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = splitVersion(a);
+  const right = splitVersion(b);
+
+  const length = Math.max(left.release.length, right.release.length);
+  for (let i = 0; i < length; i++) {
+    const difference = (left.release[i] ?? 0) - (right.release[i] ?? 0);
+    if (difference !== 0) return Math.sign(difference);
+  }
+
+  if (!left.prerelease.length || !right.prerelease.length) {
+    const difference = right.prerelease.length - left.prerelease.length;
+    if (difference !== 0) return Math.sign(difference);
+  }
+
+  const prereleaseLength = Math.max(left.prerelease.length, right.prerelease.length);
+  for (let i = 0; i < prereleaseLength; i++) {
+    const leftPart = left.prerelease[i];
+    const rightPart = right.prerelease[i];
+    if (leftPart === undefined) return -1;
+    if (rightPart === undefined) return 1;
+    const leftNumber = Number(leftPart);
+    const rightNumber = Number(rightPart);
+    const difference = Number.isNaN(leftNumber) || Number.isNaN(rightNumber)
+      ? leftPart.localeCompare(rightPart)
+      : leftNumber - rightNumber;
+    if (difference !== 0) return Math.sign(difference);
+  }
+
+  return Math.sign((left.post ?? -1) - (right.post ?? -1));
+}
+
+export function isVersionAffected(
+  version: string,
+  advisory: Pick<VulnerabilityAdvisory, "affectedRanges" | "affectedVersions">
+): boolean {
+  const normalizedVersion = version.replace(/^v/, "");
+  if ((advisory.affectedVersions ?? []).some(affected => affected.replace(/^v/, "") === normalizedVersion)) {
+    return true;
+  }
+
+  return (advisory.affectedRanges as AdvisoryVersionRange[]).some(range => {
+    if (range.introduced !== "0" && compareVersions(version, range.introduced) < 0) return false;
+    if (range.fixed) return compareVersions(version, range.fixed) < 0;
+    if (range.lastAffected) return compareVersions(version, range.lastAffected) <= 0;
+    return true;
+  });
+}
+
+export function getHighestSeverity(severities: AdvisorySeverity[]): AdvisorySeverity {
+  return severities.reduce<AdvisorySeverity>(
+    (highest, severity) => (SEVERITY_RANK[severity] > SEVERITY_RANK[highest] ? severity : highest),
+    "unknown"
+  );
+}
+
+// Registry package recorded by the analyzer for a detected tool, when its version is exact
+export function getDetectedPackage(tool: DetectedTool): { ecosystem: PackageEcosystem; packageName: string; version: string } | null {
+  const details = tool.detectionDetails as { package?: string; ecosystem?: PackageEcosystem } | null;
+  if (!details?.package || !details.ecosystem || !isConcreteVersion(tool.version)) return null;
+  return {
+    ecosystem: details.ecosystem,
+    packageName: normalizePackageName(details.ecosystem, details.package),
+    version: tool.version,
+  };
+}
+
+export function findToolVulnerabilities(tools: DetectedTool[], advisories: VulnerabilityAdvisory[]): ToolVulnerability[] {
+  const advisoriesByPackage = new Map<string, VulnerabilityAdvisory[]>();
+  for (const advisory of advisories) {
+    const key = `${advisory.ecosystem}:${advisory.packageName}`;
+    advisoriesByPackage.set(key, [...(advisoriesByPackage.get(key) ?? []), advisory]);
+  }
+
+  const vulnerabilities: ToolVulnerability[] = [];
+
+  for (const tool of tools) {
+    const detectedPackage = getDetectedPackage(tool);
+    if (!detectedPackage) continue;
+
+    const matches = (advisoriesByPackage.get(`${detectedPackage.ecosystem}:${detectedPackage.packageName}`) ?? [])
+      .filter(advisory => isVersionAffected(detectedPackage.version, advisory))
+      .sort((a, b) => SEVERITY_RANK[b.severity as AdvisorySeverity] - SEVERITY_RANK[a.severity as AdvisorySeverity]);
+    if (matches.length === 0) continue;
+
+    vulnerabilities.push({
+      detectedToolId: tool.id,
+      toolId: tool.toolId,
+      detectedName: tool.detectedName,
+      ...detectedPackage,
+      highestSeverity: getHighestSeverity(matches.map(match => match.severity as AdvisorySeverity)),
+      advisories: matches.map(match => ({
+        advisoryId: match.advisoryId,
+        aliases: match.aliases,
+        summary: match.summary,
+        severity: match.severity as AdvisorySeverity,
+        fixedVersions: match.fixedVersions,
+        referenceUrl: match.referenceUrl
+      }))
+    });
+  }
+
+  return vulnerabilities;
+}
+
+// OSV range events are ordered: each "introduced" opens an interval closed by the next fixed/last_affected
+function toVersionRanges(events: OsvEvent[]): AdvisoryVersionRange[] {
+  const ranges: AdvisoryVersionRange[] = [];
+  let current: AdvisoryVersionRange | null = null;
+
+  for (const event of events) {
+    if (event.introduced !== undefined) {
+      if (current) ranges.push(current);
+      current = { introduced: event.introduced };
+    } else if (current && event.fixed !== undefined) {
+      ranges.push({ ...current, fixed: event.fixed });
+      current = null;
+    } else if (current && event.last_affected !== undefined) {
+      ranges.push({ ...current, lastAffected: event.last_affected });
+      current = null;
+    }
+  }
+  if (current) ranges.push(current);
+
+  return ranges;
+}
+
+function collectFixedVersions(ranges: AdvisoryVersionRange[]): string[] {
+  return Array.from(new Set(ranges.map(range => range.fixed).filter((fixed): fixed is string => !!fixed)));
+}
+
+function normalizeSeverity(severity: string | undefined): AdvisorySeverity {
+  switch (severity?.toLowerCase()) {
+    case "critical":
+      return "critical";
+    case "high":
+      return "high";
+    case "moderate":
+    case "medium":
+      return "medium";
+    case "low":
+      return "low";
+    default:
+      return "unknown";
+  }
+}
+
+// post is the PEP 440 post-release number ("1.0.post1", "1.0-post2", "1.0rc1.post0"); null when there is none
+function splitVersion(version: string): { release: number[]; prerelease: string[]; post: number | null } {
+  const withoutBuild = version.replace(/^v/, "").split("+")[0];
+  const match = withoutBuild.match(/^(\d+(?:\.\d+)*)(.*)$/);
+  if (!match) return { release: [], prerelease: [withoutBuild], post: null };
+
+  let suffix = match[2].replace(/^[-.]/, "");
+  const postRelease = suffix.match(/[._-]?post[._-]?(\d*)$/i);
+  if (postRelease) suffix = suffix.slice(0, postRelease.index);
+  return {
+    release: match[1].split(".").map(part => parseInt(part, 10)),
+    prerelease: suffix ? suffix.split(/[.-]|(?<=\D)(?=\d)|(?<=\d)(?=\D)/).filter(Boolean) : [],
+    post: postRelease ? Number(postRelease[1] || 0) : null,
+  };
+}
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,244 @@
+/**
+ * SBOM - Builds CycloneDX 1.5 and SPDX 2.3 JSON documents from a repository analysis
+ * Detected tools become components/packages; package URLs are emitted when the
+ * detection recorded a registry name, and infrastructure estimates become CycloneDX services.
+ */
+
+import { randomUUID } from "crypto";
+import type { DetectedTool, PackageEcosystem, RepositoryAnalysis, SbomFormat } from "@shared/schema";
+
+const GENERATOR_NAME = "StackWise AI";
+const PROPERTY_NAMESPACE = "stackwise";
+
+const PURL_TYPES: Record<PackageEcosystem, string> = {
+  npm: "npm",
+  pypi: "pypi",
+  rubygems: "gem",
+  go: "golang",
+  cargo: "cargo",
+};
+
+interface DetectionDetails {
+  package?: string;
+  ecosystem?: PackageEcosystem;
+  license?: string; // SPDX expression from the lockfile
+  transitive?: boolean;
+  infrastructure?: unknown;
+}
+
+interface SbomComponent {
+  name: string; // Registry package name when known
+  toolName: string;
+  version: string | null;
+  category: string;
+  purl: string | null;
+  license: string | null;
+  transitive: boolean;
+  detectionMethod: string;
+  confidence: string;
+  locations: string[];
+}
+
+export const SBOM_CONTENT_TYPES: Record<SbomFormat, string> = {
+  cyclonedx: "application/vnd.cyclonedx+json",
+  spdx: "application/spdx+json",
+};
+
+export const SBOM_FILE_EXTENSIONS: Record<SbomFormat, string> = {
+  cyclonedx: "cdx.json",
+  spdx: "spdx.json",
+};
+
+export function buildSbom(
+  format: SbomFormat,
+  analysis: RepositoryAnalysis,
+  detectedTools: DetectedTool[],
+  generatedAt: Date = new Date()
+): Record<string, unknown> {
+  return format === "spdx"
+    ? buildSpdxDocument(analysis, detectedTools, generatedAt)
+    : buildCycloneDxDocument(analysis, detectedTools, generatedAt);
+}
+
+export function buildCycloneDxDocument(
+  analysis: RepositoryAnalysis,
+  detectedTools: DetectedTool[],
+  generatedAt: Date = new Date()
+): Record<string, unknown> {
+  const components = collectComponents(detectedTools);
+  const componentRefs = components.map((component, index) => component.purl ?? `component-${index + 1}`);
+  const services = detectedTools.filter(tool => getDetails(tool).infrastructure);
+
+  return {
+    bomFormat: "CycloneDX",
+    specVersion: "1.5",
+    serialNumber: `urn:uuid:${randomUUID()}`,
+    version: 1,
+    metadata: {
+      timestamp: generatedAt.toISOString(),
+      tools: {
+        components: [{ type: "application", name: GENERATOR_NAME }]
+      },
+      component: {
+        type: "application",
+        "bom-ref": "repository",
+        name: getRepositoryName(analysis),
+        ...(analysis.branch && { version: analysis.branch }),
+        ...(analysis.sourceType === "github" && {
+          externalReferences: [{ type: "vcs", url: analysis.repositoryUrl }]
+        })
+      }
+    },
+    components: components.map((component, index) => ({
+      type: "library",
+      "bom-ref": componentRefs[index],
+      name: component.name,
+      ...(component.version && { version: component.version }),
+      ...(component.purl && { purl: component.purl }),
+      ...(component.license && { licenses: [{ expression: component.license }] }),
+      properties: [
+        { name: `${PROPERTY_NAMESPACE}:tool`, value: component.toolName },
+        { name: `${PROPERTY_NAMESPACE}:category`, value: component.category },
+        { name: `${PROPERTY_NAMESPACE}:detectionMethod`, value: component.detectionMethod },
+        { name: `${PROPERTY_NAMESPACE}:confidence`, value: component.confidence },
+        { name: `${PROPERTY_NAMESPACE}:transitive`, value: String(component.transitive) }
+      ],
+      ...(component.locations.length > 0 && {
+        evidence: { occurrences: component.locations.map(location => ({ location })) }
+      })
+    })),
+    services: services.map((tool, index) => ({
+      "bom-ref": `service-${index + 1}`,
+      name: tool.detectedName,
+      properties: [
+        { name: `${PROPERTY_NAMESPACE}:category`, value: tool.category },
+        { name: `${PROPERTY_NAMESPACE}:estimatedMonthlyCost`, value: tool.estimatedMonthlyCost ?? "0" }
+      ]
+    })),
+    dependencies: [
+      {
+        ref: "repository",
+        dependsOn: componentRefs.filter((_ref, index) => !components[index].transitive)
+      }
+    ]
+  };
+}
+
+export function buildSpdxDocument(
+  analysis: RepositoryAnalysis,
+  detectedTools: DetectedTool[],
+  generatedAt: Date = new Date()
+): Record<string, unknown> {
+  const components = collectComponents(detectedTools);
+  const repositoryName = getRepositoryName(analysis);
+
+  const packages = components.map((component, index) => ({
+    SPDXID: `SPDXRef-Package-${index + 1}`,
+    name: component.name,
+    ...(component.version && { versionInfo: component.version }),
+    downloadLocation: "NOASSERTION",
+    filesAnalyzed: false,
+    licenseConcluded: "NOASSERTION",
+    licenseDeclared: component.license ?? "NOASSERTION",
+    copyrightText: "NOASSERTION",
+    ...(component.purl && {
+      externalRefs: [{ referenceCategory: "PACKAGE-MANAGER", referenceType: "purl", referenceLocator: component.purl }]
+    }),
+    comment: `${component.toolName} (${component.category}), detected via ${component.detectionMethod}` +
+      (component.locations.length > 0 ? ` in ${component.locations.join(", ")}` : "")
+  }));
+
+  return {
+    spdxVersion: "SPDX-2.3",
+    dataLicense: "CC0-1.0",
+    SPDXID: "SPDXRef-DOCUMENT",
+    name: repositoryName,
+    documentNamespace: `https://spdx.org/spdxdocs/${encodeURIComponent(repositoryName)}-${randomUUID()}`,
+    creationInfo: {
+      // SPDX timestamps have no fractional seconds
+      created: generatedAt.toISOString().replace(/\.\d{3}Z$/, "Z"),
+      creators: [`Tool: ${GENERATOR_NAME}`]
+    },
+    documentDescribes: ["SPDXRef-Repository"],
+    packages: [
+      {
+        SPDXID: "SPDXRef-Repository",
+        name: repositoryName,
+        ...(analysis.branch && { versionInfo: analysis.branch }),
+        downloadLocation: analysis.sourceType === "github" ? `git+${analysis.repositoryUrl}` : "NOASSERTION",
+        filesAnalyzed: false,
+        licenseConcluded: "NOASSERTION",
+        licenseDeclared: "NOASSERTION",
+        copyrightText: "NOASSERTION"
+      },
+      ...packages
+    ],
+    relationships: [
+      { spdxElementId: "SPDXRef-DOCUMENT", relationshipType: "DESCRIBES", relatedSpdxElement: "SPDXRef-Repository" },
+      ...packages.map(pkg => ({
+        spdxElementId: "SPDXRef-Repository",
+        relationshipType: "DEPENDS_ON",
+        relatedSpdxElement: pkg.SPDXID
+      }))
+    ]
+  };
+}
+
+/**
+ * Package URL for a registry package, e.g. pkg:npm/%40scope/name@1.0.0.
+ * Version ranges are left out rather than emitted as invalid versions.
+ */
+export function buildPackageUrl(ecosystem: PackageEcosystem, name: string, version: string | null): string {
+  const type = PURL_TYPES[ecosystem];
+  const normalizedName = ecosystem === "pypi" ? name.toLowerCase().replace(/[_.]+/g, "-") : name;
+  const encodedName = normalizedName.split("/").map(segment => encodeURIComponent(segment)).join("/");
+
+  if (!version || !/^[\w.+-]+$/.test(version)) return `pkg:${type}/${encodedName}`;
+  const purlVersion = ecosystem === "go" && !version.startsWith("v") ? `v${version}` : version;
+  return `pkg:${type}/${encodedName}@${encodeURIComponent(purlVersion)}`;
+}
+
+// The same tool detected in several sub-projects is listed once per version
+function collectComponents(detectedTools: DetectedTool[]): SbomComponent[] {
+  const components = new Map<string, SbomComponent>();
+
+  for (const tool of detectedTools) {
+    const details = getDetails(tool);
+    if (details.infrastructure) continue;
+
+    const name = details.package ?? tool.detectedName;
+    const purl = details.package && details.ecosystem && PURL_TYPES[details.ecosystem]
+      ? buildPackageUrl(details.ecosystem, details.package, tool.version)
+      : null;
+    const key = purl ?? `${name.toLowerCase()}@${tool.version ?? ""}`;
+    const existing = components.get(key);
+    if (existing) {
+      if (tool.filePath && !existing.locations.includes(tool.filePath)) existing.locations.push(tool.filePath);
+      existing.transitive = existing.transitive && !!details.transitive;
+      continue;
+    }
+
+    components.set(key, {
+      name,
+      toolName: tool.detectedName,
+      version: tool.version,
+      category: tool.category,
+      purl,
+      license: details.license ?? null,
+      transitive: !!details.transitive,
+      detectionMethod: tool.detectionMethod,
+      confidence: tool.confidenceScore,
+      locations: tool.filePath ? [tool.filePath] : []
+    });
+  }
+
+  return Array.from(components.values());
+}
+
+function getDetails(tool: DetectedTool): DetectionDetails {
+  return (tool.detectionDetails as DetectionDetails | null) ?? {};
+}
+
+function getRepositoryName(analysis: RepositoryAnalysis): string {
+  return `${analysis.repositoryOwner}/${analysis.repositoryName}`;
+}
@@ -0,0 +1,223 @@
+/**
+ * Workspace Detector - Finds sub-projects in monorepos
+ * Understands npm/yarn/pnpm workspaces, Nx, Lerna, Go workspaces and Cargo workspaces
+ */
+
+import path from "path";
+
+export type WorkspaceManager = "npm" | "yarn" | "pnpm" | "nx" | "lerna" | "go" | "cargo";
+
+export interface WorkspaceProject {
+  name: string;
+  path: string; // Directory relative to the repository root, never "" (root is not a sub-project)
+  managers: WorkspaceManager[];
+}
+
+export interface WorkspaceLayout {
+  managers: WorkspaceManager[];
+  projects: WorkspaceProject[];
+}
+
+// Root-level files that declare workspace membership
+export const WORKSPACE_CONFIG_FILES = [
+  "package.json",
+  "pnpm-workspace.yaml",
+  "lerna.json",
+  "nx.json",
+  "go.work",
+  "Cargo.toml",
+];
+
+const MAX_WORKSPACE_PROJECTS = 200;
+
+// Directories that never contain workspace members worth analyzing
+const IGNORED_SEGMENTS = new Set(["node_modules", ".git", "vendor", "target", "dist", "build", ".next"]);
+
+export function isIgnoredPath(filePath: string): boolean {
+  return filePath.split("/").some(segment => IGNORED_SEGMENTS.has(segment));
+}
+
+/**
+ * Detect workspace sub-projects from the full list of repository paths and the
+ * contents of the root configuration files in WORKSPACE_CONFIG_FILES.
+ */
+export function detectWorkspaces(paths: string[], rootFiles: Record<string, string>): WorkspaceLayout {
+  const filePaths = paths.filter(p => !isIgnoredPath(p));
+  const projects = new Map<string, WorkspaceProject>();
+  const managers = new Set<WorkspaceManager>();
+
+  const addProjects = (manager: WorkspaceManager, manifestName: string, patterns: string[]) => {
+    const { include, exclude } = compilePatterns(patterns);
+    if (include.length === 0) return;
+
+    managers.add(manager);
+    for (const manifestPath of filePaths) {
+      if (path.posix.basename(manifestPath) !== manifestName) continue;
+
+      const dir = path.posix.dirname(manifestPath);
+      if (dir === "." || !include.some(re => re.test(dir)) || exclude.some(re => re.test(dir))) continue;
+
+      addProject(projects, dir, manager);
+    }
+  };
+
+  // npm / yarn workspaces live in the root package.json
+  const packageJson = parseJson(rootFiles["package.json"]);
+  const npmWorkspaces = Array.isArray(packageJson?.workspaces)
+    ? packageJson.workspaces
+    : packageJson?.workspaces?.packages;
+  if (Array.isArray(npmWorkspaces)) {
+    addProjects(filePaths.includes("yarn.lock") ? "yarn" : "npm", "package.json", npmWorkspaces);
+  }
+
+  if (rootFiles["pnpm-workspace.yaml"]) {
+    addProjects("pnpm", "package.json", parsePnpmWorkspacePackages(rootFiles["pnpm-workspace.yaml"]));
+  }
+
+  if (rootFiles["lerna.json"]) {
+    const lerna = parseJson(rootFiles["lerna.json"]);
+    addProjects("lerna", "package.json", Array.isArray(lerna?.packages) ? lerna.packages : ["packages/*"]);
+  }
+
+  // Nx projects are any directory carrying a project.json
+  if (rootFiles["nx.json"]) {
+    managers.add("nx");
+    for (const filePath of filePaths) {
+      if (path.posix.basename(filePath) !== "project.json") continue;
+      const dir = path.posix.dirname(filePath);
+      if (dir !== ".") addProject(projects, dir, "nx");
+    }
+  }
+
+  if (rootFiles["go.work"]) {
+    addProjects("go", "go.mod", parseGoWorkUses(rootFiles["go.work"]));
+  }
+
+  if (rootFiles["Cargo.toml"]) {
+    const { members, exclude } = parseCargoWorkspace(rootFiles["Cargo.toml"]);
+    addProjects("cargo", "Cargo.toml", [...members, ...exclude.map(pattern => `!${pattern}`)]);
+  }
+
+  const sortedProjects = Array.from(projects.values())
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .slice(0, MAX_WORKSPACE_PROJECTS);
+
+  return {
+    managers: Array.from(managers),
+    projects: sortedProjects,
+  };
+}
+
+// Deepest project whose directory contains the file, or null for root-level files
+export function findProjectForPath(filePath: string, projects: WorkspaceProject[]): WorkspaceProject | null {
+  let match: WorkspaceProject | null = null;
+  for (const project of projects) {
+    if (filePath.startsWith(`${project.path}/`) && (!match || project.path.length > match.path.length)) {
+      match = project;
+    }
+  }
+  return match;
+}
+
+function addProject(projects: Map<string, WorkspaceProject>, dir: string, manager: WorkspaceManager) {
+  const existing = projects.get(dir);
+  if (existing) {
+    if (!existing.managers.includes(manager)) existing.managers.push(manager);
+    return;
+  }
+  projects.set(dir, { name: dir, path: dir, managers: [manager] });
+}
+
+function compilePatterns(patterns: string[]): { include: RegExp[]; exclude: RegExp[] } {
+  const include: RegExp[] = [];
+  const exclude: RegExp[] = [];
+
+  for (const raw of patterns) {
+    if (typeof raw !== "string") continue;
+    const negated = raw.startsWith("!");
+    const pattern = raw.replace(/^!/, "").replace(/^\.\//, "").replace(/\/+$/, "");
+    if (!pattern || pattern === ".") continue;
+    (negated ? exclude : include).push(globToRegExp(pattern));
+  }
+
+  return { include, exclude };
+}
+
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      source += ".*";
+      i++;
+      if (glob[i + 1] === "/") i++; // "**/" also matches zero directories
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function parseJson(content: string | undefined): any {
+  if (!content) return null;
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    return null;
+  }
+}
+
+// Minimal reader for the `packages:` list in pnpm-workspace.yaml
+function parsePnpmWorkspacePackages(content: string): string[] {
+  const packages: string[] = [];
+  let inPackages = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (/^packages:\s*$/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (!inPackages) continue;
+
+    const item = line.match(/^\s+-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/);
+    if (item) {
+      packages.push(item[1]);
+    } else if (/^\S/.test(line)) {
+      inPackages = false;
+    }
+  }
+
+  return packages;
+}
+
+// Supports both `use ./dir` and `use ( ./a ./b )` forms
+function parseGoWorkUses(content: string): string[] {
+  const uses: string[] = [];
+  const stripped = content.replace(/\/\/.*$/gm, "");
+
+  for (const block of Array.from(stripped.matchAll(/^use\s*\(([\s\S]*?)\)/gm))) {
+    uses.push(...block[1].split(/\s+/).filter(Boolean));
+  }
+  for (const single of Array.from(stripped.matchAll(/^use\s+([^\s(]+)\s*$/gm))) {
+    uses.push(single[1]);
+  }
+
+  return uses.map(use => use.replace(/^["`]|["`]$/g, ""));
+}
+
+function parseCargoWorkspace(content: string): { members: string[]; exclude: string[] } {
+  const section = content.match(/^\[workspace\]\s*$([\s\S]*?)(?=^\[|(?![\s\S]))/m);
+  if (!section) return { members: [], exclude: [] };
+
+  const readArray = (key: string): string[] => {
+    const match = section[1].match(new RegExp(`^${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, "m"));
+    if (!match) return [];
+    return Array.from(match[1].matchAll(/"([^"]+)"/g)).map(entry => entry[1]);
+  };
+
+  return { members: readArray("members"), exclude: readArray("exclude") };
+}
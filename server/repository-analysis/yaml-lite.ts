@@ -0,0 +1,180 @@
+/**
+ * YAML Lite - Reads the YAML subset used by Kubernetes manifests and docker-compose files
+ * Block maps, block sequences, flow lists, quoted scalars and multi-document streams.
+ * Anchors, tags and complex keys are not supported; block scalars are read as plain text.
+ */
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+interface YamlLine {
+  indent: number;
+  text: string;
+}
+
+const KEY_PATTERN = /^("(?:[^"\\]|\\.)*"|'[^']*'|[^\s"'#][^:#]*?)\s*:(?:\s+(.*)|$)/;
+
+export function parseYamlDocuments(content: string): YamlValue[] {
+  const documents: YamlValue[] = [];
+  let current: YamlLine[] = [];
+
+  const flush = () => {
+    if (current.length > 0) {
+      const parser = new YamlBlockParser(current);
+      documents.push(parser.parseBlock(current[0].indent));
+    }
+    current = [];
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    if (/^(---|\.\.\.)(\s|$)/.test(rawLine)) {
+      flush();
+      continue;
+    }
+
+    const text = stripComment(rawLine).replace(/\s+$/, "");
+    if (!text.trim()) continue;
+
+    const indent = text.length - text.trimStart().length;
+    current.push({ indent, text: text.trimStart() });
+  }
+  flush();
+
+  return documents;
+}
+
+class YamlBlockParser {
+  private index = 0;
+
+  constructor(private lines: YamlLine[]) {}
+
+  parseBlock(indent: number): YamlValue {
+    const line = this.lines[this.index];
+    if (!line) return null;
+    return isSequenceItem(line.text) ? this.parseSequence(indent) : this.parseMap(indent);
+  }
+
+  private parseMap(indent: number): { [key: string]: YamlValue } {
+    const map: { [key: string]: YamlValue } = {};
+
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent !== indent || isSequenceItem(line.text)) break;
+
+      const match = line.text.match(KEY_PATTERN);
+      this.index++;
+      if (!match) continue; // Not a mapping entry; skip rather than fail the whole document
+
+      const key = unquote(match[1].trim());
+      const rest = (match[2] ?? "").trim();
+      map[key] = this.parseValue(rest, indent, true);
+    }
+
+    return map;
+  }
+
+  private parseSequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent !== indent || !isSequenceItem(line.text)) break;
+
+      const itemText = line.text.replace(/^-\s*/, "");
+      if (!itemText) {
+        this.index++;
+        items.push(this.parseNested(indent, false));
+        continue;
+      }
+
+      if (KEY_PATTERN.test(itemText) && !/^["'[{]/.test(itemText)) {
+        // "- key: value" starts a map whose keys line up with the text after the dash
+        const itemIndent = indent + (line.text.length - itemText.length);
+        this.lines[this.index] = { indent: itemIndent, text: itemText };
+        items.push(this.parseMap(itemIndent));
+        continue;
+      }
+
+      this.index++;
+      items.push(parseScalar(itemText));
+    }
+
+    return items;
+  }
+
+  private parseValue(rest: string, indent: number, allowSameIndentSequence: boolean): YamlValue {
+    if (/^[|>][+-]?\d*$/.test(rest)) return this.parseBlockScalar(indent, rest.startsWith(">"));
+    if (rest) return parseScalar(rest);
+    return this.parseNested(indent, allowSameIndentSequence);
+  }
+
+  // Value on the following lines: deeper block, or a sequence at the same indent as its key
+  private parseNested(indent: number, allowSameIndentSequence: boolean): YamlValue {
+    const next = this.lines[this.index];
+    if (!next) return null;
+    if (next.indent > indent) return this.parseBlock(next.indent);
+    if (allowSameIndentSequence && next.indent === indent && isSequenceItem(next.text)) {
+      return this.parseSequence(indent);
+    }
+    return null;
+  }
+
+  private parseBlockScalar(indent: number, folded: boolean): string {
+    const parts: string[] = [];
+    while (this.index < this.lines.length && this.lines[this.index].indent > indent) {
+      parts.push(this.lines[this.index].text);
+      this.index++;
+    }
+    return parts.join(folded ? " " : "\n");
+  }
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === "-" || text.startsWith("- ");
+}
+
+function stripComment(line: string): string {
+  if (!line.includes("#")) return line;
+
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2 && ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'")))) {
+    return value.slice(1, -1);
+  }
+  return value;
+}
+
+function parseScalar(raw: string): YamlValue {
+  const value = raw.trim();
+
+  if (value.startsWith("[") && value.endsWith("]")) {
+    const inner = value.slice(1, -1).trim();
+    return inner ? inner.split(",").map(item => parseScalar(item)) : [];
+  }
+  if (value.startsWith("{") && value.endsWith("}")) {
+    const map: { [key: string]: YamlValue } = {};
+    for (const entry of value.slice(1, -1).split(",")) {
+      const separator = entry.indexOf(":");
+      if (separator > 0) map[unquote(entry.slice(0, separator).trim())] = parseScalar(entry.slice(separator + 1));
+    }
+    return map;
+  }
+  if (/^["']/.test(value)) return unquote(value);
+  if (value === "" || value === "~" || value === "null") return null;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
@@ -1,10 +1,65 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth } from "./auth";
-import { generateBusinessIdeas, generateEnhancedBusinessIdeas, generateTechRoadmap, getContextualRecommendations, generateProjectTasks, optimizeTaskSequencing, generateTaskRefinements } from "./gemini";
-import { GitHubRepositoryAnalyzer } from "./github-analyzer";
+import { generateBusinessIdeas, generateEnhancedBusinessIdeas, generateTechRoadmap, getContextualRecommendations, generateProjectTasks, streamProjectTasks, optimizeTaskSequencing, generateTaskRefinements, generateIdeaRefinement, generateRoadmapRefinement, answerFromDocs, type GeneratedTask, type TaskGenerationResult, type RefinementTurn } from "./gemini";
+import { getLLMProvider } from "./llm/provider";
+import { setAIInvocationRecorder } from "./llm/audit";
+import { summarizeAIUsage } from "./llm/usage-summary";
+import { aiResponseCache, buildCacheKey } from "./llm/response-cache";
+import { getValidationOutcome } from "./llm/validated-json";
+import { setPromptTemplateResolver, checkTemplateBody, renderTemplate, samplePromptVariables } from "./llm/prompt-templates";
+import { DEFAULT_PROMPT_TEMPLATES } from "./llm/prompt-template-defaults";
+import {
+  withHeuristicFallback,
+  generateHeuristicIdeas,
+  generateHeuristicEnhancedIdeas,
+  generateHeuristicRoadmap,
+  generateHeuristicRecommendations,
+  generateHeuristicProjectTasks,
+  generateHeuristicDocsAnswer,
+} from "./heuristics/fallback-generators";
+import {
+  openEventStream,
+  sendEvent,
+  trackGeneration,
+  untrackGeneration,
+  cancelRunningGeneration,
+} from "./task-generation/generation-stream";
+import {
+  GitHubRepositoryAnalyzer,
+  type AnalysisOptions as RepositoryAnalysisOptions,
+  type AnalysisResult as RepositoryAnalysisResult
+} from "./github-analyzer";
+import { MAX_ARCHIVE_UPLOAD_BYTES } from "./repository-analysis/archive-reader";
+import { compileDetectionRule } from "./repository-analysis/detection-rules";
+import {
+  DEFAULT_REANALYSIS_INTERVAL_HOURS,
+  getNextReanalysisAt,
+  repositoryDriftScheduler
+} from "./repository-analysis/drift-scheduler";
+import { buildSbom, SBOM_CONTENT_TYPES, SBOM_FILE_EXTENSIONS } from "./repository-analysis/sbom";
+import { DEFAULT_LICENSE_POLICY, normalizeSpdxLicense } from "./licensing/license-policy";
+import {
+  buildIdeaDiff,
+  buildRoadmapDiff,
+  findStaleChanges,
+  ideaUpdates,
+  isEmptyDiff,
+  roadmapUpdates,
+  taskColumnUpdates,
+  toRefinableIdea,
+  toRefinableRoadmap,
+  toRefinableTask
+} from "./refinement/refinement-diff";
 import { seedDocumentationContent } from "./doc-seeder";
+import { readSeedTools } from "./tool-catalog-csv";
+import { describeRemovalProblem, describeRoleChangeProblem, workspaceRoleAllows, type WorkspaceAccess } from "./workspaces/workspace-roles";
+import { describeAssignmentProblem, describeInvitationProblem } from "./project-planning/collaborator-access";
+import { registerProjectRoutes } from "./project-planning/project-routes";
+import { generateAccessToken } from "./access-tokens/token-scopes";
+import { docRetriever } from "./documentation/doc-retriever";
+import { toDocReference, type RetrievedPassage } from "./documentation/doc-index";
 import { DiscoveryEngine, mapToDiscoveryToolSummary, type DiscoveryToolSource } from "./discovery/discovery-engine";
 import { projectPlanner } from "./project-planning/project-planner";
 import { timelineEngine } from "./project-planning/timeline-engine";
@@ -21,9 +76,11 @@ import {
   generateIdeasSchema,
   enhancedIdeasSchema,
   generateRoadmapSchema,
+  contextualRecommendationsQuerySchema,
   budgetRecommendationsQuerySchema,
   dormantToolsQuerySchema,
   costTrendsQuerySchema,
+  aiUsageQuerySchema,
   updateUserBudgetSchema,
   uuidParamSchema,
   sanitizeStringSchema,
@@ -31,7 +88,15 @@ import {
   onboardingStatusUpdateSchema,
   stackTemplateSelectionSchema,
   repositoryAnalysisRequestSchema,
+  repositoryArchiveAnalysisQuerySchema,
+  repositoryLocalAnalysisRequestSchema,
   repositoryImportRequestSchema,
+  repositoryTrackingRequestSchema,
+  repositorySbomQuerySchema,
+  detectionRuleRequestSchema,
+  updateDetectionRuleRequestSchema,
+  licensePolicyRequestSchema,
+  refinementMessageRequestSchema,
   generateTasksSchema,
   updateTaskStatusSchema,
   bulkUpdateTasksSchema,
@@ -48,6 +113,21 @@ import {
   insertUserDocBookmarkSchema,
   insertDocRatingSchema,
   docSearchSchema,
+  docAskRequestSchema,
+  PROMPT_TEMPLATE_KEYS,
+  promptTemplateKeyParamSchema,
+  promptTemplateVersionRequestSchema,
+  promptTemplateRollbackSchema,
+  promptTemplatePreviewSchema,
+  createWorkspaceSchema,
+  updateWorkspaceSchema,
+  inviteWorkspaceMemberSchema,
+  updateWorkspaceMemberSchema,
+  activeWorkspaceSchema,
+  createAccessTokenSchema,
+  assignTaskSchema,
+  inviteProjectCollaboratorSchema,
+  updateProjectCollaboratorSchema,
   // Discovery schemas
   discoverySearchSchema,
   discoveryTrendingSchema,
@@ -60,12 +140,45 @@ import {
   insertDiscoveredToolSchema,
   insertUserDiscoveryPreferenceSchema,
   insertDiscoveredToolEvaluationSchema,
+  type InsertRepositoryAnalysis,
+  type RepositoryAnalysis,
+  type RepositoryDriftEntry,
+  type RepositoryDriftReport,
+  type RepositoryDriftReportResponse,
+  type VulnerabilityReportResponse,
+  type LicensePolicyRequest,
+  type InsertDetectionRule,
+  type UpdateDetectionRuleRequest,
+  type DetectionPattern,
   type RepositoryAnalysisResponse,
   type GeneratedTasksResponse,
+  type GenerationSource,
+  type AIValidationOutcome,
+  type SavedIdea,
+  type TechRoadmap,
+  type RefinementDiff,
+  type RefinementTargetType,
+  type RefinementThreadResponse,
+  type RefinementReplyResponse,
+  type RefinementApplyResponse,
+  type ProjectTask,
+  type TaskGeneration,
+  type Project,
+  type ProjectCollaboratorDetail,
+  type TaskBoardResponse,
+  type CreatedAccessTokenResponse,
+  type InsertProjectTask,
   type TaskGenerationParameters,
   type TaskDependency,
   type DocSearchRequest,
   type DocSearchResponse,
+  type DocAnswerResponse,
+  type PromptTemplateKey,
+  type PromptTemplateVersion,
+  type PromptTemplateSummary,
+  type PromptTemplateDetail,
+  type PromptTemplatePreviewResponse,
+  type WorkspaceRole,
   type DiscoveryToolSummary,
   type DiscoveredTool,
   type ProjectResource,
@@ -76,7 +189,6 @@ import {
   type UpdateDiscoveryPreferencesRequest,
   type DiscoverySessionStatus
 } from "@shared/schema";
-import fs from "fs";
 import path from "path";
 
 // Type guard helper for ZodError
@@ -97,6 +209,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
   setupAuth(app);
 
+  // Every AI provider call made by the generators lands in ai_invocations
+  setAIInvocationRecorder(invocation => storage.recordAIInvocation(invocation));
+  setPromptTemplateResolver(async (userId, key) => (await storage.getActivePromptTemplate(userId, key))?.body);
+
   const getDiscoveryPopularityScore = (tool: any): number => {
     const value =
       tool?.metrics?.popularity ??
@@ -333,6 +449,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
+      if (!await canWriteToActiveWorkspace(req.user!.id)) {
+        return res.status(403).json({ message: "Access denied: Viewers cannot change this workspace" });
+      }
+
       const userToolData = insertUserToolSchema.parse({
         ...req.body,
         userId: req.user!.id,
@@ -515,8 +635,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Note: Users can generate ideas with any available tools, not just their current stack
       // This allows exploration of new tools and business possibilities
 
-      const ideas = await generateBusinessIdeas(selectedTools, goals);
-      res.json(ideas);
+      const { result: ideas, source, validation } = await withHeuristicFallback(
+        "Business idea generation",
+        () => generateBusinessIdeas(selectedTools, goals, { userId: req.user!.id }),
+        async () => generateHeuristicIdeas(selectedTools, goals, await storage.getHeuristicSources(req.user!.id))
+      );
+      res.json(ideas.map(idea => ({ ...idea, source, validation: idea.validation ?? validation })));
     } catch (error) {
       if (isZodError(error)) {
         return res.status(400).json({ message: error.errors[0]?.message || "Invalid input" });
@@ -535,14 +659,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       // Validate and sanitize input
       const validatedInput = enhancedIdeasSchema.parse(req.body);
-      const { selectedTools, goals } = validatedInput;
+      const { selectedTools, goals, regenerate } = validatedInput;
       
       // Note: Users can generate ideas with any available tools, not just their current stack
       // This allows exploration of new tools and business possibilities
 
       const userContext = await storage.getUserAIContext(req.user!.id);
-      const ideas = await generateEnhancedBusinessIdeas(selectedTools, userContext, goals);
-      res.json(ideas);
+      const cacheKey = buildCacheKey("enhanced-business-ideas", req.user!.id, { selectedTools, goals, userContext });
+      let cached = false;
+      const { result: ideas, source, validation } = await withHeuristicFallback(
+        "Enhanced business idea generation",
+        async () => {
+          const generation = await aiResponseCache.getOrGenerate(
+            cacheKey,
+            () => generateEnhancedBusinessIdeas(selectedTools, userContext, goals, { userId: req.user!.id }),
+            { bypass: regenerate }
+          );
+          cached = generation.cached;
+          return generation.value;
+        },
+        async () => generateHeuristicEnhancedIdeas(selectedTools, userContext, goals, await storage.getHeuristicSources(req.user!.id))
+      );
+      res.json(ideas.map(idea => ({ ...idea, source, cached, validation: idea.validation ?? validation })));
     } catch (error) {
       if (isZodError(error)) {
         return res.status(400).json({ message: error.errors[0]?.message || "Invalid input" });
@@ -615,7 +753,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       // Validate and sanitize input
       const validatedInput = generateRoadmapSchema.parse(req.body);
-      const { currentStack, targetGoals, timeframe } = validatedInput;
+      const { currentStack, targetGoals, timeframe, regenerate } = validatedInput;
       
       // Security: verify user can generate roadmaps based on their context
       const userContext = await storage.getUserAIContext(req.user!.id);
@@ -623,8 +761,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User context not found" });
       }
       
-      const roadmap = await generateTechRoadmap(currentStack, targetGoals, userContext, timeframe);
-      res.json(roadmap);
+      const cacheKey = buildCacheKey("tech-roadmap", req.user!.id, { currentStack, targetGoals, timeframe, userContext });
+      let cached = false;
+      const { result: roadmap, source, validation } = await withHeuristicFallback(
+        "Tech roadmap generation",
+        async () => {
+          const generation = await aiResponseCache.getOrGenerate(
+            cacheKey,
+            () => generateTechRoadmap(currentStack, targetGoals, userContext, timeframe, { userId: req.user!.id }),
+            { bypass: regenerate }
+          );
+          cached = generation.cached;
+          return generation.value;
+        },
+        async () => generateHeuristicRoadmap(currentStack, targetGoals, userContext, timeframe, await storage.getAllTools())
+      );
+      res.json({ ...roadmap, source, cached, validation: roadmap.validation ?? validation });
     } catch (error) {
       if (isZodError(error)) {
         return res.status(400).json({ message: error.errors[0]?.message || "Invalid input" });
@@ -654,6 +806,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
+      if (!await canWriteToActiveWorkspace(req.user!.id)) {
+        return res.status(403).json({ message: "Access denied: Viewers cannot change this workspace" });
+      }
+
       const roadmapData = insertTechRoadmapSchema.parse({
         ...req.body,
         userId: req.user!.id,
@@ -735,6 +891,188 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Refinement thread routes - a conversation per saved idea or roadmap whose replies propose reviewable diffs
+  const getRefinementThreadHandler = (targetType: RefinementTargetType) => async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { id } = uuidParamSchema.parse(req.params);
+      const target = await loadRefinementTarget(targetType, id, req.user!.id, "read");
+      if (!target) {
+        return res.status(404).json({ message: `${targetType === "idea" ? "Idea" : "Roadmap"} not found or access denied` });
+      }
+
+      const thread = await storage.getRefinementThread(targetType, id);
+      const response: RefinementThreadResponse = {
+        thread: thread ?? null,
+        messages: thread ? await storage.getRefinementMessages(thread.id) : []
+      };
+      res.json(response);
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid input" });
+      }
+      console.error("Error fetching refinement thread:", error);
+      res.status(500).json({ message: "Failed to fetch refinement thread" });
+    }
+  };
+
+  const postRefinementMessageHandler = (targetType: RefinementTargetType) => async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { id } = uuidParamSchema.parse(req.params);
+      const { content } = refinementMessageRequestSchema.parse(req.body);
+      const target = await loadRefinementTarget(targetType, id, req.user!.id, "write");
+      if (!target) {
+        return res.status(404).json({ message: `${targetType === "idea" ? "Idea" : "Roadmap"} not found or access denied` });
+      }
+
+      const existingThread = await storage.getRefinementThread(targetType, id);
+      const history: RefinementTurn[] = existingThread
+        ? (await storage.getRefinementMessages(existingThread.id)).map(message => ({
+            role: message.role as RefinementTurn["role"],
+            content: message.content
+          }))
+        : [];
+      const userContext = await storage.getUserAIContext(req.user!.id);
+      const audit = { userId: req.user!.id, entityType: targetType, entityId: id };
+
+      // There is no rule-based fallback for a conversation; the user can simply ask again
+      let reply: string;
+      let diff: RefinementDiff;
+      try {
+        if (target.type === "idea") {
+          const refinement = await generateIdeaRefinement(
+            toRefinableIdea(target.idea),
+            target.tasks.map(toRefinableTask),
+            history,
+            content,
+            userContext,
+            audit
+          );
+          reply = refinement.reply;
+          diff = buildIdeaDiff(target.idea, target.tasks, refinement.idea, refinement.tasks);
+        } else {
+          const refinement = await generateRoadmapRefinement(toRefinableRoadmap(target.roadmap), history, content, userContext, audit);
+          reply = refinement.reply;
+          diff = buildRoadmapDiff(target.roadmap, refinement.roadmap);
+        }
+      } catch (error) {
+        console.error("Refinement generation failed:", error);
+        return res.status(503).json({ message: "The AI assistant is unavailable right now. Please try again." });
+      }
+
+      const thread = existingThread ?? await storage.getOrCreateRefinementThread({
+        userId: req.user!.id,
+        ideaId: targetType === "idea" ? id : null,
+        roadmapId: targetType === "roadmap" ? id : null
+      });
+      const hasChanges = !isEmptyDiff(diff);
+      const [userMessage, assistantMessage] = await storage.addRefinementMessages(thread.id, [
+        { role: "user", content },
+        { role: "assistant", content: reply, diff: hasChanges ? diff : null, diffStatus: hasChanges ? "proposed" : null }
+      ]);
+
+      const response: RefinementReplyResponse = { thread, userMessage, assistantMessage };
+      res.status(201).json(response);
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid input" });
+      }
+      console.error("Error sending refinement message:", error);
+      res.status(500).json({ message: "Failed to send refinement message" });
+    }
+  };
+
+  app.get("/api/saved-ideas/:id/refinement", getRefinementThreadHandler("idea"));
+  app.post("/api/saved-ideas/:id/refinement/messages", postRefinementMessageHandler("idea"));
+  app.get("/api/roadmaps/:id/refinement", getRefinementThreadHandler("roadmap"));
+  app.post("/api/roadmaps/:id/refinement/messages", postRefinementMessageHandler("roadmap"));
+
+  app.post("/api/refinement-messages/:id/apply", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { id } = uuidParamSchema.parse(req.params);
+      const message = await storage.getRefinementMessage(id);
+      // Threads belong to the idea or roadmap, so anyone who may edit it may act on their suggestions
+      const target = message && await loadRefinementTarget(
+        message.thread.ideaId ? "idea" : "roadmap",
+        (message.thread.ideaId ?? message.thread.roadmapId)!,
+        req.user!.id,
+        "write"
+      );
+      if (!message || !target) {
+        return res.status(404).json({ message: "Message not found or access denied" });
+      }
+      if (message.diffStatus !== "proposed" || !message.diff) {
+        return res.status(409).json({ message: message.diffStatus ? `Changes were already ${message.diffStatus}` : "This message proposes no changes" });
+      }
+
+      // Changes are only applied to the values they were computed from
+      const diff = message.diff as RefinementDiff;
+      const conflicts = findStaleChanges(diff, target.type === "idea"
+        ? { idea: target.idea, tasks: target.tasks }
+        : { roadmap: target.roadmap });
+      if (conflicts.length > 0) {
+        return res.status(409).json({
+          message: `Changed since this suggestion was made: ${conflicts.join(", ")}. Ask again to get an updated proposal.`,
+          conflicts
+        });
+      }
+
+      const applied = await applyRefinementDiff(target, diff, req.user!.id);
+      const updatedMessage = await storage.updateRefinementMessage(id, { diffStatus: "applied", appliedAt: new Date() });
+      const response: RefinementApplyResponse = { ...applied, message: updatedMessage! };
+      res.json(response);
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid input" });
+      }
+      console.error("Error applying refinement:", error);
+      res.status(500).json({ message: "Failed to apply refinement" });
+    }
+  });
+
+  app.post("/api/refinement-messages/:id/discard", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { id } = uuidParamSchema.parse(req.params);
+      const message = await storage.getRefinementMessage(id);
+      const target = message && await loadRefinementTarget(
+        message.thread.ideaId ? "idea" : "roadmap",
+        (message.thread.ideaId ?? message.thread.roadmapId)!,
+        req.user!.id,
+        "write"
+      );
+      if (!message || !target) {
+        return res.status(404).json({ message: "Message not found or access denied" });
+      }
+      if (message.diffStatus !== "proposed") {
+        return res.status(409).json({ message: message.diffStatus ? `Changes were already ${message.diffStatus}` : "This message proposes no changes" });
+      }
+
+      const updated = await storage.updateRefinementMessage(id, { diffStatus: "discarded" });
+      res.json(updated);
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid input" });
+      }
+      console.error("Error discarding refinement:", error);
+      res.status(500).json({ message: "Failed to discard refinement" });
+    }
+  });
+
   // Contextual AI Recommendations routes
   app.get("/api/ai/recommendations", async (req, res) => {
     if (!req.isAuthenticated()) {
@@ -742,14 +1080,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
+      const { regenerate } = contextualRecommendationsQuerySchema.parse(req.query);
       const userTools = await storage.getUserTools(req.user!.id);
       const currentStack = userTools.map(ut => ut.tool.name);
       const availableTools = await storage.getAllTools();
       const userContext = await storage.getUserAIContext(req.user!.id);
+      const docs = await findRelatedDocs([...currentStack, userContext.industry ?? ""].join(" "), RECOMMENDATION_DOC_PASSAGES);
       
-      const recommendations = await getContextualRecommendations(currentStack, availableTools, userContext);
-      res.json(recommendations);
+      // The prompt lists the first 50 catalog tools and the retrieved docs, so changes to either invalidate the cached answer too
+      const cacheKey = buildCacheKey("contextual-recommendations", req.user!.id, {
+        stackToolIds: userTools.map(ut => ut.toolId),
+        catalogToolIds: availableTools.slice(0, 50).map(tool => tool.id),
+        docPassageIds: docs.map(passage => passage.id),
+        userContext
+      });
+      let cached = false;
+      const { result: recommendations, source } = await withHeuristicFallback(
+        "Contextual recommendations",
+        async () => {
+          const generation = await aiResponseCache.getOrGenerate(
+            cacheKey,
+            () => getContextualRecommendations(currentStack, availableTools, userContext, { userId: req.user!.id }, docs),
+            { bypass: regenerate === "true" }
+          );
+          cached = generation.cached;
+          return generation.value;
+        },
+        async () => Promise.all(generateHeuristicRecommendations(currentStack, availableTools, userContext).map(async recommendation => ({
+          ...recommendation,
+          relatedDocs: (await findRelatedDocs(`${recommendation.title} ${recommendation.description}`, 2)).map(toDocReference)
+        })))
+      );
+      res.json(recommendations.map(recommendation => ({ ...recommendation, source, cached })));
     } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid query parameters" });
+      }
       console.error("Error generating contextual recommendations:", error);
       res.status(500).json({ message: "Failed to generate contextual recommendations" });
     }
@@ -793,185 +1159,659 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Saved ideas routes
-  app.get("/api/saved-ideas", async (req, res) => {
+  // AI spend for the period next to tool spend, so both can be budgeted together
+  app.get("/api/ai/usage", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
     try {
-      const ideas = await storage.getSavedIdeas(req.user!.id);
-      res.json(ideas);
+      const validatedQuery = aiUsageQuerySchema.parse(req.query);
+      const days = validatedQuery.days ? parseInt(validatedQuery.days) : 30;
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+      const [invocations, monthlyBudget, userTools] = await Promise.all([
+        storage.getAIInvocations(req.user!.id, since),
+        storage.getMonthlyBudget(req.user!.id),
+        storage.getUserTools(req.user!.id)
+      ]);
+      const toolMonthlySpend = userTools.reduce((sum, item) => sum + parseFloat(item.monthlyCost || "0"), 0);
+
+      res.json(summarizeAIUsage(invocations, {
+        days,
+        toolMonthlySpend,
+        monthlyBudget: monthlyBudget ? parseFloat(monthlyBudget) : null
+      }));
     } catch (error) {
-      console.error("Error fetching saved ideas:", error);
-      res.status(500).json({ message: "Failed to fetch saved ideas" });
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid query parameters" });
+      }
+      console.error("Error fetching AI usage:", error);
+      res.status(500).json({ message: "Failed to fetch AI usage" });
     }
   });
 
-  app.post("/api/saved-ideas", async (req, res) => {
+  // Prompt template routes; inside a workspace the templates are shared by its members, otherwise they are personal
+  app.get("/api/prompt-templates", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
     try {
-      const ideaData = insertSavedIdeaSchema.parse({
-        ...req.body,
-        userId: req.user!.id,
-      });
+      const versions = await storage.getPromptTemplateVersions(req.user!.id);
+      const summaries: PromptTemplateSummary[] = PROMPT_TEMPLATE_KEYS.map(key =>
+        toPromptTemplateSummary(key, versions.filter(version => version.templateKey === key))
+      );
+      res.json(summaries);
+    } catch (error) {
+      console.error("Error fetching prompt templates:", error);
+      res.status(500).json({ message: "Failed to fetch prompt templates" });
+    }
+  });
 
-      const idea = await storage.createSavedIdea(ideaData);
-      res.status(201).json(idea);
+  app.get("/api/prompt-templates/:key", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { key } = promptTemplateKeyParamSchema.parse(req.params);
+      const versions = await storage.getPromptTemplateVersions(req.user!.id, key);
+      const detail: PromptTemplateDetail = {
+        ...toPromptTemplateSummary(key, versions),
+        body: versions[0]?.body ?? DEFAULT_PROMPT_TEMPLATES[key].body,
+        defaultBody: DEFAULT_PROMPT_TEMPLATES[key].body,
+        versions
+      };
+      res.json(detail);
     } catch (error) {
-      console.error("Error saving idea:", error);
-      res.status(500).json({ message: "Failed to save idea" });
+      if (isZodError(error)) {
+        return res.status(400).json({ message: "Unknown prompt template" });
+      }
+      console.error("Error fetching prompt template:", error);
+      res.status(500).json({ message: "Failed to fetch prompt template" });
     }
   });
 
-  app.delete("/api/saved-ideas/:id", async (req, res) => {
+  app.post("/api/prompt-templates/:key/versions", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
     try {
-      // Validate route parameter
-      const { id } = uuidParamSchema.parse(req.params);
-      
-      // Verify ownership before allowing deletion
-      const isOwner = await storage.verifySavedIdeaOwnership(id, req.user!.id);
-      if (!isOwner) {
-        return res.status(403).json({ message: "Access denied: You don't own this idea" });
+      if (!await canWriteToActiveWorkspace(req.user!.id)) {
+        return res.status(403).json({ message: "Access denied: Viewers cannot edit the workspace's prompt templates" });
       }
 
-      await storage.deleteSavedIdea(id);
-      res.status(204).send();
+      const { key } = promptTemplateKeyParamSchema.parse(req.params);
+      const { body, note } = promptTemplateVersionRequestSchema.parse(req.body);
+      const problem = describeTemplateProblems(key, body);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const version = await storage.createPromptTemplateVersion(req.user!.id, key, body, note);
+      await invalidatePromptTemplateCache(key, req.user!.id);
+      res.status(201).json(version);
     } catch (error) {
       if (isZodError(error)) {
-        return res.status(400).json({ message: error.errors[0]?.message || "Invalid ID format" });
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid template" });
       }
-      console.error("Error deleting saved idea:", error);
-      res.status(500).json({ message: "Failed to delete idea" });
+      console.error("Error saving prompt template:", error);
+      res.status(500).json({ message: "Failed to save prompt template" });
     }
   });
 
-  // Budget routes
-  app.get("/api/user/budget", async (req, res) => {
+  // Rolling back saves the chosen version's body as a new version, so the history is never rewritten
+  app.post("/api/prompt-templates/:key/rollback", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
     try {
-      const user = await storage.getUser(req.user!.id);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      if (!await canWriteToActiveWorkspace(req.user!.id)) {
+        return res.status(403).json({ message: "Access denied: Viewers cannot edit the workspace's prompt templates" });
       }
-      res.json({ monthlyBudget: user.monthlyBudget });
+
+      const { key } = promptTemplateKeyParamSchema.parse(req.params);
+      const { version } = promptTemplateRollbackSchema.parse(req.body);
+      const versions = await storage.getPromptTemplateVersions(req.user!.id, key);
+      const body = version === 0
+        ? DEFAULT_PROMPT_TEMPLATES[key].body
+        : versions.find(existing => existing.version === version)?.body;
+      if (body === undefined) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      const note = version === 0 ? "Restored the default template" : `Rolled back to version ${version}`;
+      const created = await storage.createPromptTemplateVersion(req.user!.id, key, body, note);
+      await invalidatePromptTemplateCache(key, req.user!.id);
+      res.status(201).json(created);
     } catch (error) {
-      console.error("Error fetching user budget:", error);
-      res.status(500).json({ message: "Failed to fetch budget" });
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid version" });
+      }
+      console.error("Error rolling back prompt template:", error);
+      res.status(500).json({ message: "Failed to roll back prompt template" });
     }
   });
 
-  app.put("/api/user/budget", async (req, res) => {
+  // Renders without calling the model; the sample context defaults to the user's saved AI context
+  app.post("/api/prompt-templates/:key/preview", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
     try {
-      // Validate and sanitize input
-      const { monthlyBudget } = updateUserBudgetSchema.parse(req.body);
-      
-      // Security: ensure user can only update their own budget
-      const user = await storage.updateUserBudget(req.user!.id, monthlyBudget || '0');
-      
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
+      const { key } = promptTemplateKeyParamSchema.parse(req.params);
+      const preview = promptTemplatePreviewSchema.parse(req.body);
+      const [savedContext, active] = await Promise.all([
+        storage.getUserAIContext(req.user!.id),
+        preview.body === undefined ? storage.getActivePromptTemplate(req.user!.id, key) : Promise.resolve(undefined)
+      ]);
+      const body = preview.body ?? active?.body ?? DEFAULT_PROMPT_TEMPLATES[key].body;
+      const variables = {
+        ...samplePromptVariables(key, { ...savedContext, ...preview.userContext }),
+        ...preview.variables
+      };
 
-      res.json({ monthlyBudget: user.monthlyBudget });
+      const response: PromptTemplatePreviewResponse = {
+        prompt: renderTemplate(body, variables),
+        variables,
+        ...checkTemplateBody(key, body)
+      };
+      res.json(response);
     } catch (error) {
       if (isZodError(error)) {
-        return res.status(400).json({ message: error.errors[0]?.message || "Invalid budget amount" });
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid preview request" });
       }
-      console.error("Error updating user budget:", error);
-      res.status(500).json({ message: "Failed to update budget" });
+      console.error("Error previewing prompt template:", error);
+      res.status(500).json({ message: "Failed to preview prompt template" });
     }
   });
 
-  app.get("/api/budget/status", async (req, res) => {
+  // Workspace routes; stacks, budgets, projects, roadmaps and analyses created while a workspace is active are shared with its members
+  app.get("/api/workspaces", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
     try {
-      const user = await storage.getUser(req.user!.id);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const workspaces = await storage.getUserWorkspaces(req.user!.id);
+      res.json(workspaces);
+    } catch (error) {
+      console.error("Error fetching workspaces:", error);
+      res.status(500).json({ message: "Failed to fetch workspaces" });
+    }
+  });
+
+  app.post("/api/workspaces", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { name } = createWorkspaceSchema.parse(req.body);
+      const workspace = await storage.createWorkspace(name, req.user!.id);
+      res.status(201).json(workspace);
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid workspace" });
       }
+      console.error("Error creating workspace:", error);
+      res.status(500).json({ message: "Failed to create workspace" });
+    }
+  });
 
-      const userTools = await storage.getUserTools(req.user!.id);
-      const currentSpend = userTools.reduce((sum, item) => {
-        const cost = parseFloat(item.monthlyCost || "0");
-        return sum + cost;
-      }, 0);
+  app.put("/api/workspaces/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
 
-      const monthlyBudget = user.monthlyBudget ? parseFloat(user.monthlyBudget) : null;
-      
-      let status = "no_budget";
-      let percentage = 0;
-      
-      if (monthlyBudget !== null) {
-        percentage = monthlyBudget > 0 ? (currentSpend / monthlyBudget) * 100 : 0;
-        
-        if (percentage <= 75) {
-          status = "good";
-        } else if (percentage <= 100) {
-          status = "warning";
-        } else {
-          status = "exceeded";
-        }
+    try {
+      const role = await storage.getWorkspaceRole(req.params.id, req.user!.id);
+      if (!workspaceRoleAllows(role, "manage")) {
+        return res.status(403).json({ message: "Access denied: Only workspace owners and admins can change the workspace" });
       }
 
-      res.json({
-        currentSpend,
-        monthlyBudget,
-        percentage,
-        status,
-        isOverBudget: monthlyBudget !== null && currentSpend > monthlyBudget
-      });
+      const updates = updateWorkspaceSchema.parse(req.body);
+      // Otherwise the admin turning it on would lock themselves out
+      if (updates.requireTwoFactor && !req.user!.totpEnabledAt) {
+        return res.status(400).json({ message: "Turn on two-factor authentication for your own account before requiring it" });
+      }
+
+      const workspace = await storage.updateWorkspace(req.params.id, updates);
+      if (!workspace) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      res.json(workspace);
     } catch (error) {
-      console.error("Error fetching budget status:", error);
-      res.status(500).json({ message: "Failed to fetch budget status" });
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid workspace update" });
+      }
+      console.error("Error updating workspace:", error);
+      res.status(500).json({ message: "Failed to update workspace" });
     }
   });
 
-  // Cost snapshots routes
-  app.get("/api/cost-snapshots", async (req, res) => {
+  app.delete("/api/workspaces/:id", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 30;
-      const snapshots = await storage.getCostSnapshots(req.user!.id, limit);
-      res.json(snapshots);
+      const role = await storage.getWorkspaceRole(req.params.id, req.user!.id);
+      if (!workspaceRoleAllows(role, "own")) {
+        return res.status(403).json({ message: "Access denied: Only workspace owners can delete the workspace" });
+      }
+
+      await storage.deleteWorkspace(req.params.id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching cost snapshots:", error);
-      res.status(500).json({ message: "Failed to fetch cost snapshots" });
+      console.error("Error deleting workspace:", error);
+      res.status(500).json({ message: "Failed to delete workspace" });
     }
   });
 
-  // Enhanced cost trends API with trend analysis
-  app.get("/api/cost-trends", async (req, res) => {
+  app.get("/api/workspaces/:id/members", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
     try {
-      // Validate query parameters
-      const validatedQuery = costTrendsQuerySchema.parse(req.query);
-      const days = validatedQuery.days ? parseInt(validatedQuery.days) : 30;
-      const limit = Math.max(days, 50); // Get enough data for trend analysis
-      
+      const role = await storage.getWorkspaceRole(req.params.id, req.user!.id);
+      if (!workspaceRoleAllows(role, "read")) {
+        return res.status(403).json({ message: "Access denied: You are not a member of this workspace" });
+      }
+
+      const members = await storage.getWorkspaceMembers(req.params.id);
+      res.json(members);
+    } catch (error) {
+      console.error("Error fetching workspace members:", error);
+      res.status(500).json({ message: "Failed to fetch workspace members" });
+    }
+  });
+
+  app.post("/api/workspaces/:id/members", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { identifier, role } = inviteWorkspaceMemberSchema.parse(req.body);
+      const [actorRole, members] = await Promise.all([
+        storage.getWorkspaceRole(req.params.id, req.user!.id),
+        storage.getWorkspaceMembers(req.params.id)
+      ]);
+      const problem = describeRoleChangeProblem(actorRole, undefined, role, countOwners(members));
+      if (problem) {
+        return res.status(403).json({ message: problem });
+      }
+
+      const invitee = await storage.getUserByUsername(identifier) ?? await storage.getUserByEmail(identifier);
+      if (!invitee) {
+        return res.status(404).json({ message: "No user with that username or email" });
+      }
+      if (members.some(member => member.userId === invitee.id)) {
+        return res.status(409).json({ message: "User is already a member of this workspace" });
+      }
+
+      const membership = await storage.addWorkspaceMember(req.params.id, invitee.id, role, req.user!.id);
+      res.status(201).json(membership);
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid invitation" });
+      }
+      console.error("Error adding workspace member:", error);
+      res.status(500).json({ message: "Failed to add workspace member" });
+    }
+  });
+
+  app.put("/api/workspaces/:id/members/:userId", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { role } = updateWorkspaceMemberSchema.parse(req.body);
+      const [actorRole, members] = await Promise.all([
+        storage.getWorkspaceRole(req.params.id, req.user!.id),
+        storage.getWorkspaceMembers(req.params.id)
+      ]);
+      const target = members.find(member => member.userId === req.params.userId);
+      if (!target) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      const problem = describeRoleChangeProblem(actorRole, target.role, role, countOwners(members));
+      if (problem) {
+        return res.status(403).json({ message: problem });
+      }
+
+      const membership = await storage.updateWorkspaceMemberRole(req.params.id, target.userId, role);
+      res.json(membership);
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid role" });
+      }
+      console.error("Error updating workspace member:", error);
+      res.status(500).json({ message: "Failed to update workspace member" });
+    }
+  });
+
+  // Members can remove themselves to leave the workspace
+  app.delete("/api/workspaces/:id/members/:userId", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const [actorRole, members] = await Promise.all([
+        storage.getWorkspaceRole(req.params.id, req.user!.id),
+        storage.getWorkspaceMembers(req.params.id)
+      ]);
+      const target = members.find(member => member.userId === req.params.userId);
+      if (!target) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      const problem = describeRemovalProblem(actorRole, target.role, target.userId === req.user!.id, countOwners(members));
+      if (problem) {
+        return res.status(403).json({ message: problem });
+      }
+
+      await storage.removeWorkspaceMember(req.params.id, target.userId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing workspace member:", error);
+      res.status(500).json({ message: "Failed to remove workspace member" });
+    }
+  });
+
+  app.put("/api/user/active-workspace", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { workspaceId } = activeWorkspaceSchema.parse(req.body);
+      if (workspaceId && !await storage.getWorkspaceRole(workspaceId, req.user!.id)) {
+        const membership = (await storage.getUserWorkspaces(req.user!.id)).find(workspace => workspace.id === workspaceId);
+        return res.status(403).json({
+          message: membership?.requireTwoFactor
+            ? "Access denied: This workspace requires two-factor authentication"
+            : "Access denied: You are not a member of this workspace"
+        });
+      }
+
+      await storage.setActiveWorkspace(req.user!.id, workspaceId);
+      res.json({ activeWorkspaceId: workspaceId });
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid workspace" });
+      }
+      console.error("Error switching workspace:", error);
+      res.status(500).json({ message: "Failed to switch workspace" });
+    }
+  });
+
+  // Personal access tokens; these routes are session-only because token-scopes.ts grants no token access to them
+  app.get("/api/user/access-tokens", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const tokens = await storage.getUserAccessTokens(req.user!.id);
+      res.json(tokens);
+    } catch (error) {
+      console.error("Error fetching access tokens:", error);
+      res.status(500).json({ message: "Failed to fetch access tokens" });
+    }
+  });
+
+  app.post("/api/user/access-tokens", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { name, scopes, expiresInDays } = createAccessTokenSchema.parse(req.body);
+      const { token, tokenHash, displayPrefix } = generateAccessToken();
+      const accessToken = await storage.createAccessToken({
+        userId: req.user!.id,
+        name,
+        scopes,
+        tokenHash,
+        displayPrefix,
+        expiresAt: expiresInDays === null ? null : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+      });
+
+      const response: CreatedAccessTokenResponse = { token, accessToken };
+      res.status(201).json(response);
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid access token request" });
+      }
+      console.error("Error creating access token:", error);
+      res.status(500).json({ message: "Failed to create access token" });
+    }
+  });
+
+  app.delete("/api/user/access-tokens/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const revoked = await storage.revokeAccessToken(req.params.id, req.user!.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "Access token not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking access token:", error);
+      res.status(500).json({ message: "Failed to revoke access token" });
+    }
+  });
+
+  // Saved ideas routes
+  app.get("/api/saved-ideas", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const ideas = await storage.getSavedIdeas(req.user!.id);
+      res.json(ideas);
+    } catch (error) {
+      console.error("Error fetching saved ideas:", error);
+      res.status(500).json({ message: "Failed to fetch saved ideas" });
+    }
+  });
+
+  app.post("/api/saved-ideas", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const ideaData = insertSavedIdeaSchema.parse({
+        ...req.body,
+        userId: req.user!.id,
+      });
+
+      const idea = await storage.createSavedIdea(ideaData);
+      res.status(201).json(idea);
+    } catch (error) {
+      console.error("Error saving idea:", error);
+      res.status(500).json({ message: "Failed to save idea" });
+    }
+  });
+
+  app.delete("/api/saved-ideas/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      // Validate route parameter
+      const { id } = uuidParamSchema.parse(req.params);
+      
+      // Verify ownership before allowing deletion
+      const isOwner = await storage.verifySavedIdeaOwnership(id, req.user!.id);
+      if (!isOwner) {
+        return res.status(403).json({ message: "Access denied: You don't own this idea" });
+      }
+
+      await storage.deleteSavedIdea(id);
+      res.status(204).send();
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid ID format" });
+      }
+      console.error("Error deleting saved idea:", error);
+      res.status(500).json({ message: "Failed to delete idea" });
+    }
+  });
+
+  // Budget routes
+  app.get("/api/user/budget", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const workspace = await storage.getActiveWorkspace(req.user!.id);
+      if (workspace) {
+        return res.json({ monthlyBudget: workspace.monthlyBudget });
+      }
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json({ monthlyBudget: user.monthlyBudget });
+    } catch (error) {
+      console.error("Error fetching user budget:", error);
+      res.status(500).json({ message: "Failed to fetch budget" });
+    }
+  });
+
+  app.put("/api/user/budget", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      // Validate and sanitize input
+      const { monthlyBudget } = updateUserBudgetSchema.parse(req.body);
+
+      // Inside a workspace the shared budget is set by its owners and admins
+      const workspace = await storage.getActiveWorkspace(req.user!.id);
+      if (workspace) {
+        if (!workspaceRoleAllows(workspace.role, "manage")) {
+          return res.status(403).json({ message: "Access denied: Only workspace owners and admins can set the budget" });
+        }
+        const updated = await storage.updateWorkspace(workspace.id, { monthlyBudget: monthlyBudget || '0' });
+        return res.json({ monthlyBudget: updated?.monthlyBudget ?? null });
+      }
+      
+      // Security: ensure user can only update their own budget
+      const user = await storage.updateUserBudget(req.user!.id, monthlyBudget || '0');
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json({ monthlyBudget: user.monthlyBudget });
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid budget amount" });
+      }
+      console.error("Error updating user budget:", error);
+      res.status(500).json({ message: "Failed to update budget" });
+    }
+  });
+
+  app.get("/api/budget/status", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const [userTools, budget] = await Promise.all([
+        storage.getUserTools(req.user!.id),
+        storage.getMonthlyBudget(req.user!.id)
+      ]);
+      const currentSpend = userTools.reduce((sum, item) => {
+        const cost = parseFloat(item.monthlyCost || "0");
+        return sum + cost;
+      }, 0);
+
+      const monthlyBudget = budget ? parseFloat(budget) : null;
+      
+      let status = "no_budget";
+      let percentage = 0;
+      
+      if (monthlyBudget !== null) {
+        percentage = monthlyBudget > 0 ? (currentSpend / monthlyBudget) * 100 : 0;
+        
+        if (percentage <= 75) {
+          status = "good";
+        } else if (percentage <= 100) {
+          status = "warning";
+        } else {
+          status = "exceeded";
+        }
+      }
+
+      res.json({
+        currentSpend,
+        monthlyBudget,
+        percentage,
+        status,
+        isOverBudget: monthlyBudget !== null && currentSpend > monthlyBudget
+      });
+    } catch (error) {
+      console.error("Error fetching budget status:", error);
+      res.status(500).json({ message: "Failed to fetch budget status" });
+    }
+  });
+
+  // Cost snapshots routes
+  app.get("/api/cost-snapshots", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 30;
+      const snapshots = await storage.getCostSnapshots(req.user!.id, limit);
+      res.json(snapshots);
+    } catch (error) {
+      console.error("Error fetching cost snapshots:", error);
+      res.status(500).json({ message: "Failed to fetch cost snapshots" });
+    }
+  });
+
+  // Enhanced cost trends API with trend analysis
+  app.get("/api/cost-trends", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      // Validate query parameters
+      const validatedQuery = costTrendsQuerySchema.parse(req.query);
+      const days = validatedQuery.days ? parseInt(validatedQuery.days) : 30;
+      const limit = Math.max(days, 50); // Get enough data for trend analysis
+      
       const snapshots = await storage.getCostSnapshots(req.user!.id, limit);
       
       if (snapshots.length === 0) {
@@ -1112,6 +1952,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/stack/vulnerabilities", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const response: VulnerabilityReportResponse = {
+        vulnerabilities: await storage.getStackVulnerabilities(req.user!.id),
+        advisoryCount: await storage.countVulnerabilityAdvisories()
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Error matching stack vulnerabilities:", error);
+      res.status(500).json({ message: "Failed to check stack vulnerabilities" });
+    }
+  });
+
+  app.get("/api/stack/license-policy", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const policy = await storage.getLicensePolicy(req.user!.id);
+      res.json(policy ?? { ...DEFAULT_LICENSE_POLICY, userId: req.user!.id });
+    } catch (error) {
+      console.error("Error fetching license policy:", error);
+      res.status(500).json({ message: "Failed to fetch license policy" });
+    }
+  });
+
+  app.put("/api/stack/license-policy", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const request: LicensePolicyRequest = licensePolicyRequestSchema.parse(req.body);
+
+      // Policies compare SPDX ids, so names like "GPLv3" are stored in their SPDX form
+      const updates: LicensePolicyRequest = { ...request };
+      for (const field of ["allowedLicenses", "deniedLicenses"] as const) {
+        const licenses = request[field];
+        if (!licenses) continue;
+        const normalized: string[] = [];
+        for (const license of licenses) {
+          const spdx = normalizeSpdxLicense(license);
+          if (!spdx) {
+            return res.status(400).json({ message: `Unrecognized license: ${license}` });
+          }
+          normalized.push(spdx);
+        }
+        updates[field] = Array.from(new Set(normalized));
+      }
+
+      const policy = await storage.upsertLicensePolicy(req.user!.id, updates);
+      res.json(policy);
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid license policy" });
+      }
+      console.error("Error updating license policy:", error);
+      res.status(500).json({ message: "Failed to update license policy" });
+    }
+  });
+
+  app.get("/api/stack/license-report", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const report = await storage.generateLicenseReport(req.user!.id);
+      res.json(report);
+    } catch (error) {
+      console.error("Error generating license report:", error);
+      res.status(500).json({ message: "Failed to generate license report" });
+    }
+  });
+
   // Onboarding API endpoints
   app.get("/api/onboarding/status", async (req, res) => {
     if (!req.isAuthenticated()) {
@@ -1370,13 +2290,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userTools = await storage.getUserTools(req.user!.id);
       const tools = userTools.map(ut => ut.tool);
 
-      // Generate project tasks using AI
-      const taskGenerationResult = await generateProjectTasks(
-        idea,
-        userContext,
-        tools,
-        generationData.generationParameters || {}
+      // Generate project tasks using AI, or from the user's data when the provider is unavailable
+      const { result: taskGenerationResult, source, validation } = await withHeuristicFallback(
+        "Task generation",
+        () => generateProjectTasks(idea, userContext, tools, generationData.generationParameters || {}, {
+          userId: req.user!.id,
+          entityType: "idea",
+          entityId: ideaId
+        }),
+        async () => generateHeuristicProjectTasks(
+          idea,
+          userContext,
+          tools,
+          generationData.generationParameters || {},
+          await storage.getHeuristicSources(req.user!.id)
+        )
       );
+      const aiModel = source === "ai" ? getLLMProvider().model : "heuristic";
 
       // Create task generation record
       const generationRecord = await storage.createTaskGeneration({
@@ -1385,7 +2315,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         title: `Tasks for: ${idea.title}`,
         description: `Generated ${taskGenerationResult.tasks.length} tasks for project implementation`,
         status: "generating",
-        aiModel: "gemini-2.5-flash",
+        aiModel,
         generationParameters: generationData.generationParameters || {},
         totalTasks: taskGenerationResult.tasks.length,
         estimatedProjectDuration: taskGenerationResult.projectMetadata.totalDuration,
@@ -1396,7 +2326,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         riskAssessment: taskGenerationResult.projectMetadata.riskAssessment,
         stackAnalysis: taskGenerationResult.stackAnalysis,
         generationMetadata: {
-          aiModel: "gemini-2.5-flash",
+          aiModel,
+          source,
+          validation: taskGenerationResult.validation ?? validation,
           generatedAt: new Date().toISOString(),
           userStack: tools.map(t => t.name),
           parameters: generationData.generationParameters
@@ -1406,49 +2338,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Create individual tasks
       const createdTasks = [];
       for (const task of taskGenerationResult.tasks) {
-        const createdTask = await storage.createProjectTask({
-          userId: req.user!.id,
-          ideaId: idea.id,
-          generationId: generationRecord.id,
-          title: task.title,
-          description: task.description,
-          category: task.category,
-          priority: task.priority,
-          complexity: task.complexity,
-          estimatedHours: task.estimatedHours.toString(),
-          estimatedDays: task.estimatedDays.toString(),
-          technicalRequirements: task.technicalRequirements,
-          acceptanceCriteria: task.acceptanceCriteria,
-          suggestedTools: task.suggestedTools,
-          requiredTools: task.requiredTools,
-          costEstimate: task.costEstimate.toString(),
-          resourceRequirements: task.resourceRequirements
-        });
-        createdTasks.push(createdTask);
+        createdTasks.push(await saveGeneratedTask(req.user!.id, idea.id, generationRecord.id, task));
       }
 
       // Create task dependencies
-      const dependencies = [];
-      for (const task of taskGenerationResult.tasks) {
-        if (task.dependencies && task.dependencies.length > 0) {
-          const createdTask = createdTasks.find(ct => ct.title === task.title);
-          if (createdTask) {
-            for (const depTitle of task.dependencies) {
-              const dependentTask = createdTasks.find(ct => ct.title === depTitle);
-              if (dependentTask) {
-                const dependency = await storage.createTaskDependency({
-                  taskId: createdTask.id,
-                  dependsOnTaskId: dependentTask.id,
-                  dependencyType: "finish_to_start",
-                  isOptional: false,
-                  lagTime: 0
-                });
-                dependencies.push(dependency);
-              }
-            }
-          }
-        }
-      }
+      const dependencies = await saveGeneratedTaskDependencies(taskGenerationResult.tasks, createdTasks);
 
       // Mark generation as completed
       await storage.updateTaskGeneration(generationRecord.id, {
@@ -1467,7 +2361,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           keyMilestones: taskGenerationResult.projectMetadata.keyMilestones,
           criticalPath: taskGenerationResult.projectMetadata.criticalPath
         },
-        stackAnalysis: taskGenerationResult.stackAnalysis
+        stackAnalysis: taskGenerationResult.stackAnalysis,
+        source
       };
 
       res.status(201).json(response);
@@ -1483,6 +2378,159 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stream task generation as Server-Sent Events, saving and sending each task as soon as the model has written it
+  app.post("/api/ideas/:id/generate-tasks/stream", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const controller = new AbortController();
+    let generationId: string | undefined;
+    const createdTasks: ProjectTask[] = [];
+
+    try {
+      const ideaId = uuidParamSchema.parse({ id: req.params.id }).id;
+      const generationData = generateTasksSchema.parse(req.body);
+      const parameters = generationData.generationParameters || {};
+
+      const idea = await storage.getSavedIdea(ideaId);
+      if (!idea || idea.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Idea not found or access denied" });
+      }
+
+      const userContext = await storage.getUserAIContext(req.user!.id);
+      const userTools = await storage.getUserTools(req.user!.id);
+      const tools = userTools.map(ut => ut.tool);
+
+      const generationRecord = await storage.createTaskGeneration({
+        userId: req.user!.id,
+        ideaId: idea.id,
+        title: `Tasks for: ${idea.title}`,
+        description: "Generating tasks for project implementation",
+        status: "generating",
+        aiModel: getLLMProvider().model,
+        generationParameters: parameters,
+        totalTasks: 0
+      });
+      generationId = generationRecord.id;
+      trackGeneration(generationRecord.id, controller);
+
+      // A client that goes away stops the model too
+      res.on("close", () => {
+        if (!res.writableEnded) controller.abort();
+      });
+
+      openEventStream(res);
+      sendEvent(res, { event: "generation", data: generationRecord });
+
+      const saveTask = async (task: GeneratedTask) => {
+        const createdTask = await saveGeneratedTask(req.user!.id, idea.id, generationRecord.id, task);
+        createdTasks.push(createdTask);
+        await storage.updateTaskGeneration(generationRecord.id, { totalTasks: createdTasks.length });
+        sendEvent(res, { event: "task", data: { task: createdTask, totalTasks: createdTasks.length } });
+      };
+
+      let source: GenerationSource = "ai";
+      let fallbackValidation: AIValidationOutcome | undefined;
+      let taskGenerationResult: TaskGenerationResult;
+      try {
+        taskGenerationResult = await streamProjectTasks(idea, userContext, tools, parameters, saveTask, controller.signal, {
+          userId: req.user!.id,
+          entityType: "task_generation",
+          entityId: generationRecord.id
+        });
+      } catch (error) {
+        // Tasks already saved cannot be reconciled with a heuristic breakdown, so only an empty run falls back
+        if (controller.signal.aborted || createdTasks.length > 0) throw error;
+        console.warn("Task generation failed, using heuristic fallback:", error);
+        source = "heuristic";
+        fallbackValidation = getValidationOutcome(error);
+        taskGenerationResult = generateHeuristicProjectTasks(
+          idea,
+          userContext,
+          tools,
+          parameters,
+          await storage.getHeuristicSources(req.user!.id)
+        );
+        for (const task of taskGenerationResult.tasks) {
+          await saveTask(task);
+        }
+      }
+
+      controller.signal.throwIfAborted(); // A cancel that arrived after the last task still wins
+      const dependencies = await saveGeneratedTaskDependencies(taskGenerationResult.tasks, createdTasks);
+      const aiModel = source === "ai" ? getLLMProvider().model : "heuristic";
+      const completedGeneration = await storage.updateTaskGeneration(generationRecord.id, {
+        status: "completed",
+        aiModel,
+        description: `Generated ${createdTasks.length} tasks for project implementation`,
+        totalTasks: createdTasks.length,
+        estimatedProjectDuration: taskGenerationResult.projectMetadata.totalDuration,
+        estimatedTotalCost: taskGenerationResult.projectMetadata.estimatedCost.toString(),
+        projectComplexity: taskGenerationResult.projectMetadata.complexity,
+        keyMilestones: taskGenerationResult.projectMetadata.keyMilestones,
+        criticalPath: taskGenerationResult.projectMetadata.criticalPath,
+        riskAssessment: taskGenerationResult.projectMetadata.riskAssessment,
+        stackAnalysis: taskGenerationResult.stackAnalysis,
+        generationMetadata: {
+          aiModel,
+          source,
+          streamed: true,
+          validation: taskGenerationResult.validation ?? fallbackValidation,
+          generatedAt: new Date().toISOString(),
+          userStack: tools.map(t => t.name),
+          parameters
+        }
+      });
+
+      sendEvent(res, {
+        event: "complete",
+        data: {
+          generation: completedGeneration ?? generationRecord,
+          tasks: createdTasks,
+          dependencies,
+          summary: {
+            totalTasks: createdTasks.length,
+            estimatedDuration: taskGenerationResult.projectMetadata.totalDuration,
+            estimatedCost: taskGenerationResult.projectMetadata.estimatedCost,
+            complexity: taskGenerationResult.projectMetadata.complexity,
+            keyMilestones: taskGenerationResult.projectMetadata.keyMilestones,
+            criticalPath: taskGenerationResult.projectMetadata.criticalPath
+          },
+          stackAnalysis: taskGenerationResult.stackAnalysis,
+          source
+        }
+      });
+      res.end();
+    } catch (error) {
+      if (!res.headersSent) {
+        if (isZodError(error)) {
+          return res.status(400).json({ message: error.errors[0]?.message || "Invalid input data" });
+        }
+        console.error("Error generating tasks:", error);
+        return res.status(500).json({ message: "Failed to generate tasks" });
+      }
+
+      // Tasks saved so far are kept; the generation records how far it got
+      const cancelled = controller.signal.aborted;
+      if (!cancelled) console.error("Error streaming tasks:", error);
+      try {
+        await storage.updateTaskGeneration(generationId!, { status: cancelled ? "cancelled" : "failed", totalTasks: createdTasks.length });
+      } catch (updateError) {
+        // The client still gets its closing event when the record cannot be updated
+        console.error("Error recording task generation status:", updateError);
+      }
+      if (cancelled) {
+        sendEvent(res, { event: "cancelled", data: { generationId: generationId!, totalTasks: createdTasks.length } });
+      } else {
+        sendEvent(res, { event: "error", data: { message: "Failed to generate tasks" } });
+      }
+      res.end();
+    } finally {
+      if (generationId) untrackGeneration(generationId);
+    }
+  });
+
   // Get all tasks for a user
   app.get("/api/tasks", async (req, res) => {
     if (!req.isAuthenticated()) {
@@ -1515,6 +2563,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Tasks assigned to the current user across their own and shared boards
+  app.get("/api/tasks/assigned", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const tasks = await storage.getAssignedTasks(req.user!.id);
+      res.json(tasks);
+    } catch (error) {
+      console.error("Error fetching assigned tasks:", error);
+      res.status(500).json({ message: "Failed to fetch assigned tasks" });
+    }
+  });
+
   // Get tasks for a specific generation/project
   app.get("/api/tasks/project/:generationId", async (req, res) => {
     if (!req.isAuthenticated()) {
@@ -1524,21 +2587,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const generationId = uuidParamSchema.parse({ id: req.params.generationId }).id;
       
-      // Verify user owns the generation
+      // The owner and the collaborators of the project the board is shared through can open it
       const generation = await storage.getTaskGeneration(generationId);
-      if (!generation || generation.userId !== req.user!.id) {
+      if (!generation || !await storage.verifyTaskGenerationAccess(generationId, req.user!.id, "read")) {
         return res.status(404).json({ message: "Project not found or access denied" });
       }
 
       const tasks = await storage.getTasksByGeneration(generationId);
       const dependencies = await storage.getTaskDependenciesByGeneration(generationId);
-      
-      res.json({
+      const { project, members } = await getTaskBoardTeam(generation);
+      const access: TaskBoardResponse["access"] = generation.userId === req.user!.id
+        ? "owner"
+        : await storage.verifyTaskGenerationAccess(generationId, req.user!.id, "write") ? "editor" : "viewer";
+
+      const board: TaskBoardResponse = {
         generation,
         tasks,
         dependencies,
-        metrics: await storage.getTaskMetrics(generationId)
-      });
+        metrics: await storage.getTaskMetrics(generationId),
+        projectId: project?.id ?? null,
+        access,
+        team: members.filter(member => member.status === "accepted")
+      };
+      res.json(board);
     } catch (error) {
       console.error("Error fetching project tasks:", error);
       res.status(500).json({ message: "Failed to fetch project tasks" });
@@ -1623,6 +2694,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Assign a task to the board's owner or one of its collaborators
+  app.put("/api/tasks/:id/assignee", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const taskId = uuidParamSchema.parse({ id: req.params.id }).id;
+      const { assigneeId } = assignTaskSchema.parse(req.body);
+
+      const task = await storage.getProjectTask(taskId);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      const generation = task.generationId ? await storage.getTaskGeneration(task.generationId) : undefined;
+      const canEditBoard = generation
+        ? await storage.verifyTaskGenerationAccess(generation.id, req.user!.id, "write")
+        : task.userId === req.user!.id;
+      if (!canEditBoard) {
+        return res.status(403).json({ message: "Access denied: You cannot assign tasks on this board" });
+      }
+
+      const { members } = generation ? await getTaskBoardTeam(generation) : { members: [] };
+      const problem = describeAssignmentProblem(assigneeId, generation?.userId ?? task.userId, members);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const updatedTask = await storage.assignProjectTask(taskId, assigneeId);
+      res.json(updatedTask);
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid assignee" });
+      }
+      console.error("Error assigning task:", error);
+      res.status(500).json({ message: "Failed to assign task" });
+    }
+  });
+
   // Create a task dependency
   app.post("/api/tasks/:id/dependencies", async (req, res) => {
     if (!req.isAuthenticated()) {
@@ -1672,8 +2782,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const taskId = uuidParamSchema.parse({ id: req.params.id }).id;
       
-      // Verify ownership
-      const isOwner = await storage.verifyTaskOwnership(taskId, req.user!.id);
+      // Collaborators can edit tasks but only the board's owner removes them
+      const isOwner = await storage.verifyTaskOwnership(taskId, req.user!.id, "manage");
       if (!isOwner) {
         return res.status(403).json({ message: "Access denied: You don't own this task" });
       }
@@ -1692,12 +2802,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
-    try {
-      const generations = await storage.getUserTaskGenerations(req.user!.id);
-      res.json(generations);
+    try {
+      const generations = await storage.getUserTaskGenerations(req.user!.id);
+      res.json(generations);
+    } catch (error) {
+      console.error("Error fetching task generations:", error);
+      res.status(500).json({ message: "Failed to fetch task generations" });
+    }
+  });
+
+  // Task boards other users shared with the current user
+  app.get("/api/task-generations/shared", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const boards = await storage.getSharedTaskBoards(req.user!.id);
+      res.json(boards);
+    } catch (error) {
+      console.error("Error fetching shared task boards:", error);
+      res.status(500).json({ message: "Failed to fetch shared task boards" });
+    }
+  });
+
+  // Boards are shared through a project; the first share creates one linked to the generation
+  app.post("/api/task-generations/:id/share", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const generationId = uuidParamSchema.parse({ id: req.params.id }).id;
+
+      const generation = await storage.getTaskGeneration(generationId);
+      if (!generation || generation.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Generation not found or access denied" });
+      }
+
+      const existing = await storage.getProjectByGenerationId(generationId);
+      if (existing) {
+        return res.json(existing);
+      }
+
+      const project = await storage.createProject({
+        userId: req.user!.id,
+        ownerId: req.user!.id,
+        ideaId: generation.ideaId,
+        generationId,
+        name: generation.title,
+        description: generation.description || generation.title,
+        projectType: "other",
+        totalTasks: generation.totalTasks ?? 0
+      });
+      res.status(201).json(project);
     } catch (error) {
-      console.error("Error fetching task generations:", error);
-      res.status(500).json({ message: "Failed to fetch task generations" });
+      console.error("Error sharing task board:", error);
+      res.status(500).json({ message: "Failed to share task board" });
     }
   });
 
@@ -1711,7 +2872,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const generationId = uuidParamSchema.parse({ id: req.params.id }).id;
       
       const generation = await storage.getTaskGeneration(generationId);
-      if (!generation || generation.userId !== req.user!.id) {
+      if (!generation || !await storage.verifyTaskGenerationAccess(generationId, req.user!.id, "read")) {
         return res.status(404).json({ message: "Generation not found or access denied" });
       }
 
@@ -1730,6 +2891,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Cancel a streamed task generation; tasks saved before the cancel are kept
+  app.post("/api/task-generations/:id/cancel", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const generationId = uuidParamSchema.parse({ id: req.params.id }).id;
+
+      const generation = await storage.getTaskGeneration(generationId);
+      if (!generation || generation.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Generation not found or access denied" });
+      }
+
+      if (generation.status !== "generating") {
+        return res.status(409).json({ message: `Generation is already ${generation.status}` });
+      }
+
+      // The stream route records the cancellation itself; a generation orphaned by a restart is closed here
+      if (!cancelRunningGeneration(generationId)) {
+        await storage.updateTaskGeneration(generationId, { status: "cancelled" });
+      }
+
+      res.status(202).json({ generationId, status: "cancelled" });
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid generation ID" });
+      }
+      console.error("Error cancelling task generation:", error);
+      res.status(500).json({ message: "Failed to cancel task generation" });
+    }
+  });
+
   // Optimize task sequencing
   app.post("/api/tasks/optimize/:generationId", async (req, res) => {
     if (!req.isAuthenticated()) {
@@ -1787,7 +2981,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         };
       });
 
-      const optimization = await optimizeTaskSequencing(generatedTasks, userContext);
+      const optimization = await optimizeTaskSequencing(generatedTasks, userContext, {
+        userId: req.user!.id,
+        entityType: "task_generation",
+        entityId: generationId
+      });
       
       res.json(optimization);
     } catch (error) {
@@ -1835,12 +3033,193 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Repository Analysis Routes
   const analyzer = new GitHubRepositoryAnalyzer();
 
-  app.post("/api/repositories/analyze", async (req, res) => {
+  // Local filesystem analysis is restricted to usernames listed in REPOSITORY_ADMIN_USERNAMES
+  const isRepositoryAdmin = (username: string): boolean =>
+    (process.env.REPOSITORY_ADMIN_USERNAMES || "")
+      .split(",")
+      .map(name => name.trim())
+      .filter(Boolean)
+      .includes(username);
+
+  // Uploaded archives arrive as raw bodies; JSON requests are untouched by this parser
+  const repositoryArchiveParser = express.raw({
+    type: [
+      "application/zip",
+      "application/x-zip-compressed",
+      "application/gzip",
+      "application/x-gzip",
+      "application/x-tar",
+      "application/x-compressed-tar",
+      "application/octet-stream"
+    ],
+    limit: MAX_ARCHIVE_UPLOAD_BYTES
+  });
+
+  // Shared pipeline for every analysis source: create record, detect, match, persist
+  const runRepositoryAnalysis = async (
+    analysisData: InsertRepositoryAnalysis,
+    analyze: (options: RepositoryAnalysisOptions) => Promise<RepositoryAnalysisResult>
+  ): Promise<RepositoryAnalysisResponse> => {
+    const analysis = await storage.createRepositoryAnalysis(analysisData);
+
+    try {
+      // The user's own detection rules run alongside the built-in patterns
+      const rules = await storage.getUserDetectionRules(analysisData.userId, true);
+      const customPatterns = rules
+        .map(compileDetectionRule)
+        .filter((pattern): pattern is DetectionPattern => pattern !== null);
+
+      // Perform repository analysis
+      const analysisResult = await analyze({ customPatterns });
+      
+      // Get existing tools for matching
+      const existingTools = await storage.getAllTools();
+      
+      // Match detected tools with existing tools
+      const matchedTools = await analyzer.matchWithExistingTools(
+        analysisResult.detectedTools,
+        existingTools
+      );
+
+      // Set analysis ID for all detected tools
+      const detectedToolsWithAnalysis = matchedTools.map(tool => ({
+        ...tool,
+        analysisId: analysis.id
+      }));
+
+      // Save detected tools to database
+      const savedDetectedTools = await storage.createDetectedTools(detectedToolsWithAnalysis);
+
+      // Update analysis with results
+      const updatedAnalysis = await storage.updateRepositoryAnalysis(analysis.id, {
+        status: "completed",
+        analysisResults: {
+          summary: analysisResult.summary,
+          detectedToolsCount: savedDetectedTools.length
+        },
+        totalDetectedTools: savedDetectedTools.length,
+        estimatedMonthlyCost: analysisResult.summary.totalEstimatedCost.toString(),
+        confidenceScore: analysisResult.summary.confidenceScore.toString(),
+        completedAt: new Date()
+      });
+
+      // Get detailed detected tools with relationships
+      const detectedToolsWithRelations = await storage.getDetectedToolsByAnalysisId(analysis.id);
+
+      return {
+        analysis: updatedAnalysis!,
+        detectedTools: detectedToolsWithRelations,
+        summary: analysisResult.summary
+      };
+    } catch (analysisError) {
+      // Update analysis with error
+      await storage.updateRepositoryAnalysis(analysis.id, {
+        status: "failed",
+        analysisError: analysisError instanceof Error ? analysisError.message : "Analysis failed",
+        completedAt: new Date()
+      });
+
+      throw analysisError;
+    }
+  };
+
+  // Re-runs a tracked analysis from its original source as a child analysis
+  const reanalyzeTrackedRepository = async (tracked: RepositoryAnalysis) => {
+    const analysisData: InsertRepositoryAnalysis = {
+      userId: tracked.userId,
+      repositoryUrl: tracked.repositoryUrl,
+      repositoryName: tracked.repositoryName,
+      repositoryOwner: tracked.repositoryOwner,
+      sourceType: tracked.sourceType,
+      branch: tracked.branch,
+      parentAnalysisId: tracked.id,
+      status: "analyzing"
+    };
+
+    if (tracked.sourceType === "github") {
+      return runRepositoryAnalysis(
+        analysisData,
+        (options) => analyzer.analyzeRepository(tracked.repositoryUrl, tracked.branch || "main", options)
+      );
+    }
+
+    if (tracked.sourceType === "local") {
+      const resolvedPath = analyzer.resolveLocalRepositoryPath(tracked.repositoryUrl.replace(/^file:\/\//, ""));
+      if (!resolvedPath) {
+        throw new Error("Local repository path is no longer inside LOCAL_REPOSITORY_ROOT");
+      }
+      return runRepositoryAnalysis(analysisData, (options) => analyzer.analyzeLocalDirectory(resolvedPath, options));
+    }
+
+    throw new Error("Uploaded archives cannot be re-analyzed; upload a new archive instead");
+  };
+
+  repositoryDriftScheduler.start(reanalyzeTrackedRepository);
+
+  app.post("/api/repositories/analyze", repositoryArchiveParser, async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
     try {
+      if (!await canWriteToActiveWorkspace(req.user!.id)) {
+        return res.status(403).json({ message: "Access denied: Viewers cannot change this workspace" });
+      }
+
+      // Archive upload mode: raw .zip/.tar/.tar.gz body with metadata in the query string
+      if (Buffer.isBuffer(req.body)) {
+        const { fileName, repositoryName } = repositoryArchiveAnalysisQuerySchema.parse(req.query);
+        if (req.body.length === 0) {
+          return res.status(400).json({ message: "Uploaded archive is empty" });
+        }
+
+        const archive = req.body;
+        const response = await runRepositoryAnalysis(
+          {
+            userId: req.user!.id,
+            repositoryUrl: `archive://${fileName}`,
+            repositoryName: repositoryName || fileName.replace(/\.(zip|tar|tar\.gz|tgz)$/i, ""),
+            repositoryOwner: req.user!.username,
+            sourceType: "archive",
+            branch: null,
+            status: "analyzing"
+          },
+          (options) => analyzer.analyzeArchive(archive, options)
+        );
+
+        return res.json(response);
+      }
+
+      // Local path mode for admins: analyze a checkout already present on the server
+      if (req.body && typeof req.body.localPath === "string") {
+        const { localPath, repositoryName } = repositoryLocalAnalysisRequestSchema.parse(req.body);
+        if (!isRepositoryAdmin(req.user!.username)) {
+          return res.status(403).json({ message: "Access denied: Local repository analysis requires admin access" });
+        }
+
+        const resolvedPath = analyzer.resolveLocalRepositoryPath(localPath);
+        if (!resolvedPath) {
+          return res.status(400).json({
+            message: "Invalid local path. Local analysis must be enabled and the path must be inside LOCAL_REPOSITORY_ROOT."
+          });
+        }
+
+        const response = await runRepositoryAnalysis(
+          {
+            userId: req.user!.id,
+            repositoryUrl: `file://${resolvedPath}`,
+            repositoryName: repositoryName || path.basename(resolvedPath),
+            repositoryOwner: req.user!.username,
+            sourceType: "local",
+            branch: null,
+            status: "analyzing"
+          },
+          (options) => analyzer.analyzeLocalDirectory(resolvedPath, options)
+        );
+
+        return res.json(response);
+      }
+
       const { repositoryUrl, branch } = repositoryAnalysisRequestSchema.parse(req.body);
       
       // Parse repository info with security validation
@@ -1851,73 +3230,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Create analysis record
-      const analysisData = {
-        userId: req.user!.id,
-        repositoryUrl,
-        repositoryName: repoInfo.repo,
-        repositoryOwner: repoInfo.owner,
-        branch: branch || "main",
-        status: "analyzing" as const
-      };
-
-      const analysis = await storage.createRepositoryAnalysis(analysisData);
-
-      try {
-        // Perform repository analysis
-        const analysisResult = await analyzer.analyzeRepository(repositoryUrl, branch);
-        
-        // Get existing tools for matching
-        const existingTools = await storage.getAllTools();
-        
-        // Match detected tools with existing tools
-        const matchedTools = await analyzer.matchWithExistingTools(
-          analysisResult.detectedTools,
-          existingTools
-        );
-
-        // Set analysis ID for all detected tools
-        const detectedToolsWithAnalysis = matchedTools.map(tool => ({
-          ...tool,
-          analysisId: analysis.id
-        }));
-
-        // Save detected tools to database
-        const savedDetectedTools = await storage.createDetectedTools(detectedToolsWithAnalysis);
-
-        // Update analysis with results
-        const updatedAnalysis = await storage.updateRepositoryAnalysis(analysis.id, {
-          status: "completed",
-          analysisResults: {
-            summary: analysisResult.summary,
-            detectedToolsCount: savedDetectedTools.length
-          },
-          totalDetectedTools: savedDetectedTools.length,
-          estimatedMonthlyCost: analysisResult.summary.totalEstimatedCost.toString(),
-          confidenceScore: analysisResult.summary.confidenceScore.toString(),
-          completedAt: new Date()
-        });
-
-        // Get detailed detected tools with relationships
-        const detectedToolsWithRelations = await storage.getDetectedToolsByAnalysisId(analysis.id);
-
-        const response: RepositoryAnalysisResponse = {
-          analysis: updatedAnalysis!,
-          detectedTools: detectedToolsWithRelations,
-          summary: analysisResult.summary
-        };
-
-        res.json(response);
-      } catch (analysisError) {
-        // Update analysis with error
-        await storage.updateRepositoryAnalysis(analysis.id, {
-          status: "failed",
-          analysisError: analysisError instanceof Error ? analysisError.message : "Analysis failed",
-          completedAt: new Date()
-        });
+      const response = await runRepositoryAnalysis(
+        {
+          userId: req.user!.id,
+          repositoryUrl,
+          repositoryName: repoInfo.repo,
+          repositoryOwner: repoInfo.owner,
+          sourceType: "github",
+          branch: branch || "main",
+          status: "analyzing"
+        },
+        (options) => analyzer.analyzeRepository(repositoryUrl, branch, options)
+      );
 
-        throw analysisError;
-      }
+      res.json(response);
     } catch (error) {
       console.error("Repository analysis error:", error);
       if (isZodError(error)) {
@@ -1941,21 +3267,225 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const analyses = await storage.getUserRepositoryAnalyses(req.user!.id);
       res.json(analyses);
     } catch (error) {
-      console.error("Error fetching repository analyses:", error);
-      res.status(500).json({ message: "Failed to fetch repository analyses" });
+      console.error("Error fetching repository analyses:", error);
+      res.status(500).json({ message: "Failed to fetch repository analyses" });
+    }
+  });
+
+  app.get("/api/repositories/analyses/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { id } = uuidParamSchema.parse(req.params);
+      
+      // Verify ownership
+      const isOwner = await storage.verifyRepositoryAnalysisOwnership(id, req.user!.id, "read");
+      if (!isOwner) {
+        return res.status(403).json({ message: "Access denied: You don't own this analysis" });
+      }
+
+      const analysis = await storage.getRepositoryAnalysis(id);
+      if (!analysis) {
+        return res.status(404).json({ message: "Repository analysis not found" });
+      }
+
+      const detectedTools = await storage.getDetectedToolsByAnalysisId(id);
+
+      const response: RepositoryAnalysisResponse = {
+        analysis,
+        detectedTools,
+        summary: {
+          totalTools: detectedTools.length,
+          totalEstimatedCost: parseFloat(analysis.estimatedMonthlyCost || "0"),
+          confidenceScore: parseFloat(analysis.confidenceScore || "0"),
+          categories: Array.from(new Set(detectedTools.map(t => t.category))),
+          workspaces: (analysis.analysisResults as { summary?: RepositoryAnalysisResponse["summary"] } | null)?.summary?.workspaces
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error("Error fetching repository analysis:", error);
+      if (isZodError(error)) {
+        return res.status(400).json({ message: "Invalid analysis ID format" });
+      }
+      res.status(500).json({ message: "Failed to fetch repository analysis" });
+    }
+  });
+
+  // Stored drift entries are plain JSON; give the client typed arrays
+  const toDriftReportResponse = (report: RepositoryDriftReport): NonNullable<RepositoryDriftReportResponse["report"]> => ({
+    ...report,
+    addedTools: report.addedTools as RepositoryDriftEntry[],
+    removedTools: report.removedTools as RepositoryDriftEntry[],
+    versionChangedTools: report.versionChangedTools as RepositoryDriftEntry[]
+  });
+
+  // Only top-level GitHub or local analyses can be tracked; returns an error message otherwise
+  const getTrackingError = (analysis: RepositoryAnalysis): string | null => {
+    if (analysis.parentAnalysisId) return "Re-analysis runs cannot be tracked; track the original analysis instead";
+    if (analysis.sourceType === "archive") return "Uploaded archives cannot be re-analyzed; upload a new archive instead";
+    return null;
+  };
+
+  app.put("/api/repositories/analyses/:id/tracking", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { id } = uuidParamSchema.parse(req.params);
+      const { enabled, intervalHours } = repositoryTrackingRequestSchema.parse(req.body);
+
+      const isOwner = await storage.verifyRepositoryAnalysisOwnership(id, req.user!.id);
+      if (!isOwner) {
+        return res.status(403).json({ message: "Access denied: You don't own this analysis" });
+      }
+
+      const analysis = await storage.getRepositoryAnalysis(id);
+      if (!analysis) {
+        return res.status(404).json({ message: "Repository analysis not found" });
+      }
+
+      const trackingError = getTrackingError(analysis);
+      if (enabled && trackingError) {
+        return res.status(400).json({ message: trackingError });
+      }
+
+      const reanalysisIntervalHours = intervalHours ?? analysis.reanalysisIntervalHours ?? DEFAULT_REANALYSIS_INTERVAL_HOURS;
+      const updated = await storage.updateRepositoryAnalysis(id, {
+        isTracked: enabled,
+        reanalysisIntervalHours,
+        nextReanalysisAt: enabled ? getNextReanalysisAt(new Date(), reanalysisIntervalHours) : null
+      });
+
+      res.json(updated);
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid tracking settings" });
+      }
+      console.error("Error updating repository tracking:", error);
+      res.status(500).json({ message: "Failed to update repository tracking" });
+    }
+  });
+
+  // Run a re-analysis immediately instead of waiting for the schedule
+  app.post("/api/repositories/analyses/:id/reanalyze", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { id } = uuidParamSchema.parse(req.params);
+
+      const isOwner = await storage.verifyRepositoryAnalysisOwnership(id, req.user!.id);
+      if (!isOwner) {
+        return res.status(403).json({ message: "Access denied: You don't own this analysis" });
+      }
+
+      const analysis = await storage.getRepositoryAnalysis(id);
+      if (!analysis) {
+        return res.status(404).json({ message: "Repository analysis not found" });
+      }
+
+      const trackingError = getTrackingError(analysis);
+      if (trackingError) {
+        return res.status(400).json({ message: trackingError });
+      }
+
+      const report = await repositoryDriftScheduler.reanalyzeTracked(analysis);
+      const response: RepositoryDriftReportResponse = {
+        analysis: (await storage.getRepositoryAnalysis(id)) ?? analysis,
+        report: toDriftReportResponse(report)
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error("Error re-analyzing repository:", error);
+      if (isZodError(error)) {
+        return res.status(400).json({ message: "Invalid analysis ID format" });
+      }
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to re-analyze repository"
+      });
+    }
+  });
+
+  app.get("/api/repositories/analyses/:id/drift", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { id } = uuidParamSchema.parse(req.params);
+
+      const isOwner = await storage.verifyRepositoryAnalysisOwnership(id, req.user!.id, "read");
+      if (!isOwner) {
+        return res.status(403).json({ message: "Access denied: You don't own this analysis" });
+      }
+
+      const analysis = await storage.getRepositoryAnalysis(id);
+      if (!analysis) {
+        return res.status(404).json({ message: "Repository analysis not found" });
+      }
+
+      const [latest] = await storage.getRepositoryDriftReports(id, 1);
+      const response: RepositoryDriftReportResponse = {
+        analysis,
+        report: latest ? toDriftReportResponse(latest) : null
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error("Error fetching drift report:", error);
+      if (isZodError(error)) {
+        return res.status(400).json({ message: "Invalid analysis ID format" });
+      }
+      res.status(500).json({ message: "Failed to fetch drift report" });
+    }
+  });
+
+  app.get("/api/repositories/analyses/:id/vulnerabilities", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { id } = uuidParamSchema.parse(req.params);
+
+      const isOwner = await storage.verifyRepositoryAnalysisOwnership(id, req.user!.id, "read");
+      if (!isOwner) {
+        return res.status(403).json({ message: "Access denied: You don't own this analysis" });
+      }
+
+      const detectedTools = await storage.getDetectedToolsByAnalysisId(id);
+      const response: VulnerabilityReportResponse = {
+        vulnerabilities: await storage.getDetectedToolVulnerabilities(detectedTools),
+        advisoryCount: await storage.countVulnerabilityAdvisories()
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error("Error matching analysis vulnerabilities:", error);
+      if (isZodError(error)) {
+        return res.status(400).json({ message: "Invalid analysis ID format" });
+      }
+      res.status(500).json({ message: "Failed to check vulnerabilities" });
     }
   });
 
-  app.get("/api/repositories/analyses/:id", async (req, res) => {
+  app.get("/api/repositories/analyses/:id/sbom", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
     try {
       const { id } = uuidParamSchema.parse(req.params);
-      
-      // Verify ownership
-      const isOwner = await storage.verifyRepositoryAnalysisOwnership(id, req.user!.id);
+      const { format } = repositorySbomQuerySchema.parse(req.query);
+
+      const isOwner = await storage.verifyRepositoryAnalysisOwnership(id, req.user!.id, "read");
       if (!isOwner) {
         return res.status(403).json({ message: "Access denied: You don't own this analysis" });
       }
@@ -1964,27 +3494,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!analysis) {
         return res.status(404).json({ message: "Repository analysis not found" });
       }
+      if (analysis.status !== "completed") {
+        return res.status(409).json({ message: "An SBOM is only available for completed analyses" });
+      }
 
       const detectedTools = await storage.getDetectedToolsByAnalysisId(id);
+      const sbom = buildSbom(format, analysis, detectedTools);
+      const fileName = `${analysis.repositoryOwner}-${analysis.repositoryName}`.replace(/[^\w.-]+/g, "_");
 
-      const response: RepositoryAnalysisResponse = {
-        analysis,
-        detectedTools,
-        summary: {
-          totalTools: detectedTools.length,
-          totalEstimatedCost: parseFloat(analysis.estimatedMonthlyCost || "0"),
-          confidenceScore: parseFloat(analysis.confidenceScore || "0"),
-          categories: Array.from(new Set(detectedTools.map(t => t.category)))
-        }
-      };
-
-      res.json(response);
+      res.setHeader("Content-Type", SBOM_CONTENT_TYPES[format]);
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}.${SBOM_FILE_EXTENSIONS[format]}"`);
+      res.send(JSON.stringify(sbom, null, 2));
     } catch (error) {
-      console.error("Error fetching repository analysis:", error);
+      console.error("Error generating SBOM:", error);
       if (isZodError(error)) {
-        return res.status(400).json({ message: "Invalid analysis ID format" });
+        return res.status(400).json({ message: "Invalid analysis ID or SBOM format (expected cyclonedx or spdx)" });
       }
-      res.status(500).json({ message: "Failed to fetch repository analysis" });
+      res.status(500).json({ message: "Failed to generate SBOM" });
     }
   });
 
@@ -2005,6 +3531,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied: You don't own this analysis" });
       }
 
+      // Dry run: report what the import would change without touching the stack
+      if (importRequest.dryRun) {
+        const preview = await storage.previewRepositoryImport(req.user!.id, importRequest);
+        return res.json(preview);
+      }
+
+      if (!await canWriteToActiveWorkspace(req.user!.id)) {
+        return res.status(403).json({ message: "Access denied: Viewers cannot change this workspace" });
+      }
+
       // Get detected tools for the analysis
       const detectedTools = await storage.getDetectedToolsByAnalysisId(importRequest.analysisId);
       
@@ -2118,6 +3654,121 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Detection rule registry: user-defined patterns merged into every analysis
+
+  // Decimal columns are stored as strings
+  const toDetectionRuleValues = (rule: UpdateDetectionRuleRequest): Partial<InsertDetectionRule> => {
+    const { confidence, costEstimate, ...fields } = rule;
+    return {
+      ...fields,
+      ...(confidence !== undefined && { confidence: confidence.toFixed(2) }),
+      ...(costEstimate !== undefined && { costEstimate: costEstimate === null ? null : costEstimate.toFixed(2) })
+    };
+  };
+
+  const verifyLinkedTool = async (toolId: string | null | undefined): Promise<boolean> =>
+    !toolId || !!(await storage.getToolById(toolId));
+
+  app.get("/api/repositories/rules", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const rules = await storage.getUserDetectionRules(req.user!.id);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching detection rules:", error);
+      res.status(500).json({ message: "Failed to fetch detection rules" });
+    }
+  });
+
+  app.post("/api/repositories/rules", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const ruleRequest = detectionRuleRequestSchema.parse(req.body);
+      if (!(await verifyLinkedTool(ruleRequest.toolId))) {
+        return res.status(400).json({ message: "Linked tool not found" });
+      }
+
+      const rule = await storage.createDetectionRule({
+        ...toDetectionRuleValues(ruleRequest),
+        name: ruleRequest.name,
+        category: ruleRequest.category,
+        filePatterns: ruleRequest.filePatterns,
+        userId: req.user!.id
+      });
+
+      res.status(201).json(rule);
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid detection rule" });
+      }
+      console.error("Error creating detection rule:", error);
+      res.status(500).json({ message: "Failed to create detection rule" });
+    }
+  });
+
+  app.put("/api/repositories/rules/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { id } = uuidParamSchema.parse(req.params);
+
+      const isOwner = await storage.verifyDetectionRuleOwnership(id, req.user!.id);
+      if (!isOwner) {
+        return res.status(403).json({ message: "Access denied: You don't own this detection rule" });
+      }
+
+      const updates = updateDetectionRuleRequestSchema.parse(req.body);
+      if (!(await verifyLinkedTool(updates.toolId))) {
+        return res.status(400).json({ message: "Linked tool not found" });
+      }
+
+      const rule = await storage.updateDetectionRule(id, toDetectionRuleValues(updates));
+      if (!rule) {
+        return res.status(404).json({ message: "Detection rule not found" });
+      }
+
+      res.json(rule);
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid detection rule" });
+      }
+      console.error("Error updating detection rule:", error);
+      res.status(500).json({ message: "Failed to update detection rule" });
+    }
+  });
+
+  app.delete("/api/repositories/rules/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { id } = uuidParamSchema.parse(req.params);
+
+      const isOwner = await storage.verifyDetectionRuleOwnership(id, req.user!.id);
+      if (!isOwner) {
+        return res.status(403).json({ message: "Access denied: You don't own this detection rule" });
+      }
+
+      await storage.deleteDetectionRule(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting detection rule:", error);
+      if (isZodError(error)) {
+        return res.status(400).json({ message: "Invalid rule ID format" });
+      }
+      res.status(500).json({ message: "Failed to delete detection rule" });
+    }
+  });
+
   // Documentation API Routes
   
   // Documentation search endpoint
@@ -2149,6 +3800,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Answer a question from the documentation, citing the sections used
+  app.post("/api/docs/ask", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const { question } = docAskRequestSchema.parse(req.body);
+      const passages = await docRetriever.search(question, { limit: DOCS_ANSWER_PASSAGES });
+
+      if (passages.length === 0) {
+        const response: DocAnswerResponse = {
+          question,
+          answer: "No documentation matches that question yet. Try different keywords or browse the categories.",
+          citations: [],
+          source: "heuristic"
+        };
+        return res.json(response);
+      }
+
+      const userContext = await storage.getUserAIContext(req.user!.id);
+      const { result, source } = await withHeuristicFallback(
+        "Documentation answer",
+        () => answerFromDocs(question, passages, userContext, { userId: req.user!.id }),
+        () => generateHeuristicDocsAnswer(passages)
+      );
+      const response: DocAnswerResponse = {
+        question,
+        answer: result.answer,
+        citations: result.citations.map(toDocReference),
+        source
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Error answering documentation question:", error);
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid question" });
+      }
+      res.status(500).json({ message: "Failed to answer question" });
+    }
+  });
+
   // Get all documentation with filtering
   app.get("/api/docs", async (req, res) => {
     try {
@@ -2464,6 +4157,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       const article = await storage.createDocumentationArticle(articleData);
+      docRetriever.invalidate();
       res.status(201).json(article);
     } catch (error) {
       console.error("Error creating documentation article:", error);
@@ -2492,6 +4186,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Article not found" });
       }
       
+      docRetriever.invalidate();
       res.json(updated);
     } catch (error) {
       console.error("Error updating documentation article:", error);
@@ -2511,6 +4206,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = uuidParamSchema.parse(req.params);
       
       await storage.deleteDocumentationArticle(id);
+      docRetriever.invalidate();
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting documentation article:", error);
@@ -3394,6 +5090,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Authentication required" });
       }
 
+      if (!await canWriteToActiveWorkspace(req.user.id)) {
+        return res.status(403).json({ message: "Access denied: Viewers cannot change this workspace" });
+      }
+
       // Validate request body
       const validatedData = insertProjectSchema.parse(req.body);
 
@@ -3433,7 +5133,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Verify ownership
-      const isOwner = await storage.verifyProjectOwnership(id, req.user.id);
+      const isOwner = await storage.verifyProjectOwnership(id, req.user.id, "read");
       if (!isOwner) {
         return res.status(403).json({ message: "Access denied" });
       }
@@ -3445,67 +5145,148 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/projects/:id", async (req, res) => {
+  registerProjectRoutes(app, storage);
+
+  // Project Collaborators
+  app.get("/api/projects/:id/collaborators", async (req, res) => {
     try {
       if (!req.user?.id) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      const { id } = req.params;
-      
-      // Verify ownership
-      const isOwner = await storage.verifyProjectOwnership(id, req.user.id);
-      if (!isOwner) {
+      const hasAccess = await storage.verifyProjectOwnership(req.params.id, req.user.id, "read");
+      if (!hasAccess) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      // Validate request body
-      const validatedUpdates = insertProjectSchema.partial().parse(req.body);
+      const collaborators = await storage.getProjectCollaborators(req.params.id);
+      res.json(collaborators);
+    } catch (error) {
+      console.error("Error fetching project collaborators:", error);
+      res.status(500).json({ message: "Failed to fetch project collaborators" });
+    }
+  });
 
-      const updates = {
-        ...validatedUpdates,
-        updatedAt: new Date(),
-        lastActivityAt: new Date()
-      };
+  app.post("/api/projects/:id/collaborators", async (req, res) => {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
 
-      const project = await storage.updateProject(id, updates);
-      
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
+      const { identifier, role } = inviteProjectCollaboratorSchema.parse(req.body);
+      const canManage = await storage.verifyProjectOwnership(req.params.id, req.user.id, "manage");
+      const project = await storage.getProject(req.params.id);
+      if (!canManage || !project) {
+        return res.status(403).json({ message: "Access denied: Only the project owner can invite collaborators" });
       }
 
-      res.json(project);
+      const invitee = await storage.getUserByUsername(identifier) ?? await storage.getUserByEmail(identifier);
+      if (!invitee) {
+        return res.status(404).json({ message: "No user with that username or email" });
+      }
+      const existing = await storage.getProjectCollaborator(project.id, invitee.id);
+      const problem = describeInvitationProblem(project.ownerId, invitee.id, existing);
+      if (problem) {
+        return res.status(409).json({ message: problem });
+      }
+
+      const invitation = await storage.inviteProjectCollaborator(project.id, invitee.id, role, req.user.id);
+      res.status(201).json(invitation);
     } catch (error) {
-      console.error("Error updating project:", error);
       if (isZodError(error)) {
-        return res.status(400).json({ 
-          message: "Invalid project data", 
-          errors: error.errors.map(e => e.message) 
-        });
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid invitation" });
       }
-      res.status(500).json({ message: "Failed to update project" });
+      console.error("Error inviting project collaborator:", error);
+      res.status(500).json({ message: "Failed to invite collaborator" });
     }
   });
 
-  app.delete("/api/projects/:id", async (req, res) => {
+  app.put("/api/projects/:id/collaborators/:userId", async (req, res) => {
     try {
       if (!req.user?.id) {
         return res.status(401).json({ message: "Authentication required" });
       }
 
-      const { id } = req.params;
-      
-      // Verify ownership
-      const isOwner = await storage.verifyProjectOwnership(id, req.user.id);
-      if (!isOwner) {
-        return res.status(403).json({ message: "Access denied" });
+      const { role } = updateProjectCollaboratorSchema.parse(req.body);
+      const canManage = await storage.verifyProjectOwnership(req.params.id, req.user.id, "manage");
+      if (!canManage) {
+        return res.status(403).json({ message: "Access denied: Only the project owner can change collaborator roles" });
+      }
+
+      const collaborator = await storage.updateProjectCollaboratorRole(req.params.id, req.params.userId, role);
+      if (!collaborator) {
+        return res.status(404).json({ message: "Collaborator not found" });
+      }
+
+      res.json(collaborator);
+    } catch (error) {
+      if (isZodError(error)) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid role" });
+      }
+      console.error("Error updating project collaborator:", error);
+      res.status(500).json({ message: "Failed to update collaborator" });
+    }
+  });
+
+  // Removes a collaborator or withdraws an invitation; collaborators can remove themselves to leave
+  app.delete("/api/projects/:id/collaborators/:userId", async (req, res) => {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const isSelf = req.params.userId === req.user.id;
+      if (!isSelf && !await storage.verifyProjectOwnership(req.params.id, req.user.id, "manage")) {
+        return res.status(403).json({ message: "Access denied: Only the project owner can remove collaborators" });
       }
 
-      await storage.deleteProject(id);
+      const collaborator = await storage.getProjectCollaborator(req.params.id, req.params.userId);
+      if (!collaborator) {
+        return res.status(404).json({ message: "Collaborator not found" });
+      }
+
+      await storage.removeProjectCollaborator(req.params.id, req.params.userId);
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting project:", error);
-      res.status(500).json({ message: "Failed to delete project" });
+      console.error("Error removing project collaborator:", error);
+      res.status(500).json({ message: "Failed to remove collaborator" });
+    }
+  });
+
+  app.get("/api/project-invitations", async (req, res) => {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const invitations = await storage.getProjectInvitations(req.user.id);
+      res.json(invitations);
+    } catch (error) {
+      console.error("Error fetching project invitations:", error);
+      res.status(500).json({ message: "Failed to fetch project invitations" });
+    }
+  });
+
+  app.post("/api/project-invitations/:id/:response", async (req, res) => {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const { response } = req.params;
+      if (response !== "accept" && response !== "decline") {
+        return res.status(404).json({ message: "Unknown invitation response" });
+      }
+
+      const invitation = await storage.respondToProjectInvitation(req.params.id, req.user.id, response === "accept");
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      res.json(invitation);
+    } catch (error) {
+      console.error("Error responding to project invitation:", error);
+      res.status(500).json({ message: "Failed to respond to invitation" });
     }
   });
 
@@ -3519,7 +5300,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       
       // Verify ownership
-      const isOwner = await storage.verifyProjectOwnership(id, req.user.id);
+      const isOwner = await storage.verifyProjectOwnership(id, req.user.id, "read");
       if (!isOwner) {
         return res.status(403).json({ message: "Access denied" });
       }
@@ -3574,7 +5355,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       
       // Verify ownership
-      const isOwner = await storage.verifyProjectOwnership(id, req.user.id);
+      const isOwner = await storage.verifyProjectOwnership(id, req.user.id, "read");
       if (!isOwner) {
         return res.status(403).json({ message: "Access denied" });
       }
@@ -3597,7 +5378,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       
       // Verify ownership
-      const isOwner = await storage.verifyProjectOwnership(id, req.user.id);
+      const isOwner = await storage.verifyProjectOwnership(id, req.user.id, "read");
       if (!isOwner) {
         return res.status(403).json({ message: "Access denied" });
       }
@@ -3701,7 +5482,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       
       // Verify ownership
-      const isOwner = await storage.verifyProjectOwnership(id, req.user.id);
+      const isOwner = await storage.verifyProjectOwnership(id, req.user.id, "read");
       if (!isOwner) {
         return res.status(403).json({ message: "Access denied" });
       }
@@ -3838,7 +5619,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       
       // Verify ownership
-      const isOwner = await storage.verifyProjectOwnership(id, req.user.id);
+      const isOwner = await storage.verifyProjectOwnership(id, req.user.id, "read");
       if (!isOwner) {
         return res.status(403).json({ message: "Access denied" });
       }
@@ -3908,7 +5689,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       
       // Verify ownership
-      const isOwner = await storage.verifyProjectOwnership(id, req.user.id);
+      const isOwner = await storage.verifyProjectOwnership(id, req.user.id, "read");
       if (!isOwner) {
         return res.status(403).json({ message: "Access denied" });
       }
@@ -3960,7 +5741,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       
       // Verify ownership
-      const isOwner = await storage.verifyProjectOwnership(id, req.user.id);
+      const isOwner = await storage.verifyProjectOwnership(id, req.user.id, "read");
       if (!isOwner) {
         return res.status(403).json({ message: "Access denied" });
       }
@@ -3977,8 +5758,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
 
+      // Tools in the project's tech stack with known advisories become technical risks
+      const vulnerabilities = await storage.getStackVulnerabilities(req.user.id, project.techStack ?? []);
       const riskAssessment = await riskAnalyzer.assessProjectRisks(
-        project, tasks, resources, budgets
+        project, tasks, resources, budgets, undefined, vulnerabilities
       );
 
       res.json(riskAssessment);
@@ -4154,7 +5937,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           technologyStability: req.body.technologyStability || 'stable',
           competitivePressure: req.body.competitivePressure || 'medium',
           economicConditions: req.body.economicConditions || 'stable'
-        }
+        },
+        techStackVulnerabilities: await storage.getStackVulnerabilities(req.user.id, project.techStack ?? [])
       };
 
       const comprehensivePlan = await projectPlanner.createComprehensiveProjectPlan(
@@ -4172,6 +5956,178 @@ export async function registerRoutes(app: Express): Promise<Server> {
   return httpServer;
 }
 
+const DOCS_ANSWER_PASSAGES = 6;
+const RECOMMENDATION_DOC_PASSAGES = 6;
+
+// Retrieval only adds context, so a failing index leaves the caller without docs instead of failing the request
+async function findRelatedDocs(query: string, limit: number): Promise<RetrievedPassage[]> {
+  try {
+    return await docRetriever.search(query, { limit });
+  } catch (error) {
+    console.warn("Documentation retrieval failed:", error);
+    return [];
+  }
+}
+
+function toPromptTemplateSummary(key: PromptTemplateKey, versions: PromptTemplateVersion[]): PromptTemplateSummary {
+  const { name, description, variables } = DEFAULT_PROMPT_TEMPLATES[key];
+  return {
+    key,
+    name,
+    description,
+    variables,
+    activeVersion: versions[0]?.version ?? 0,
+    updatedAt: versions[0]?.createdAt ?? null
+  };
+}
+
+function describeTemplateProblems(key: PromptTemplateKey, body: string): string | undefined {
+  const { unknownVariables, missingVariables } = checkTemplateBody(key, body);
+  const problems = [
+    unknownVariables.length > 0 ? `Unknown variables: ${unknownVariables.join(", ")}` : "",
+    missingVariables.length > 0 ? `Missing required variables: ${missingVariables.join(", ")}` : ""
+  ].filter(Boolean);
+  return problems.length > 0 ? problems.join(". ") : undefined;
+}
+
+type RefinementTarget =
+  | { type: "idea"; idea: SavedIdea; tasks: ProjectTask[]; generationId?: string }
+  | { type: "roadmap"; roadmap: TechRoadmap };
+
+// Ideas are refined together with the tasks of their latest completed task generation
+// Workspace roadmaps are open to members with the access; saved ideas are personal
+async function loadRefinementTarget(
+  targetType: RefinementTargetType,
+  targetId: string,
+  userId: string,
+  access: WorkspaceAccess
+): Promise<RefinementTarget | undefined> {
+  if (targetType === "roadmap") {
+    if (!await storage.verifyRoadmapOwnership(targetId, userId, access)) {
+      return undefined;
+    }
+    const roadmap = await storage.getRoadmapById(targetId);
+    return roadmap && { type: "roadmap", roadmap };
+  }
+
+  if (!await storage.verifySavedIdeaOwnership(targetId, userId)) {
+    return undefined;
+  }
+  const idea = await storage.getSavedIdea(targetId);
+  if (!idea) {
+    return undefined;
+  }
+  const generation = (await storage.getUserTaskGenerations(idea.userId))
+    .find(candidate => candidate.ideaId === idea.id && candidate.status === "completed");
+  const tasks = generation ? await storage.getTasksByGeneration(generation.id) : [];
+  return { type: "idea", idea, tasks, generationId: generation?.id };
+}
+
+async function applyRefinementDiff(target: RefinementTarget, diff: RefinementDiff, userId: string): Promise<Omit<RefinementApplyResponse, "message">> {
+  if (target.type === "roadmap") {
+    return { roadmap: await storage.updateTechRoadmap(target.roadmap.id, roadmapUpdates(target.roadmap, diff)) };
+  }
+
+  const idea = diff.fields.length > 0 ? await storage.updateSavedIdea(target.idea.id, ideaUpdates(diff)) : target.idea;
+  for (const change of diff.tasks) {
+    if (change.changeType === "removed") {
+      await storage.deleteProjectTask(change.taskId!);
+    } else if (change.changeType === "modified") {
+      await storage.updateProjectTask(change.taskId!, taskColumnUpdates(change.fields));
+    } else {
+      await storage.createProjectTask({
+        ...taskColumnUpdates(change.fields),
+        userId,
+        ideaId: target.idea.id,
+        generationId: target.generationId ?? null
+      } as InsertProjectTask);
+    }
+  }
+
+  const tasks = target.generationId ? await storage.getTasksByGeneration(target.generationId) : undefined;
+  return { idea, tasks };
+}
+
+// Saves one AI or heuristic task under its generation
+async function saveGeneratedTask(userId: string, ideaId: string, generationId: string, task: GeneratedTask): Promise<ProjectTask> {
+  return storage.createProjectTask({
+    userId,
+    ideaId,
+    generationId,
+    title: task.title,
+    description: task.description,
+    category: task.category,
+    priority: task.priority,
+    complexity: task.complexity,
+    estimatedHours: task.estimatedHours.toString(),
+    estimatedDays: task.estimatedDays.toString(),
+    technicalRequirements: task.technicalRequirements,
+    acceptanceCriteria: task.acceptanceCriteria,
+    suggestedTools: task.suggestedTools,
+    requiredTools: task.requiredTools,
+    costEstimate: task.costEstimate.toString(),
+    resourceRequirements: task.resourceRequirements
+  });
+}
+
+// Generated tasks reference their dependencies by title
+async function saveGeneratedTaskDependencies(tasks: GeneratedTask[], createdTasks: ProjectTask[]): Promise<TaskDependency[]> {
+  const dependencies: TaskDependency[] = [];
+  for (const task of tasks) {
+    if (task.dependencies && task.dependencies.length > 0) {
+      const createdTask = createdTasks.find(ct => ct.title === task.title);
+      if (createdTask) {
+        for (const depTitle of task.dependencies) {
+          const dependentTask = createdTasks.find(ct => ct.title === depTitle);
+          if (dependentTask && await storage.checkCircularDependency(createdTask.id, dependentTask.id)) {
+            console.warn(`Skipped generated dependency "${task.title}" -> "${depTitle}": it would create a cycle`);
+          } else if (dependentTask) {
+            const dependency = await storage.createTaskDependency({
+              taskId: createdTask.id,
+              dependsOnTaskId: dependentTask.id,
+              dependencyType: "finish_to_start",
+              isOptional: false,
+              lagTime: 0
+            });
+            dependencies.push(dependency);
+          }
+        }
+      }
+    }
+  }
+  return dependencies;
+}
+
+// A workspace template change affects every member's generations, not just the editor's
+async function invalidatePromptTemplateCache(key: PromptTemplateKey, userId: string): Promise<void> {
+  const workspace = await storage.getActiveWorkspace(userId);
+  const memberIds = workspace ? (await storage.getWorkspaceMembers(workspace.id)).map(member => member.userId) : [userId];
+  memberIds.forEach(memberId => aiResponseCache.invalidate(key, memberId));
+}
+
+// Viewers can browse the active workspace but not add to it; the personal space is always writable
+async function canWriteToActiveWorkspace(userId: string): Promise<boolean> {
+  const workspace = await storage.getActiveWorkspace(userId);
+  return !workspace || workspaceRoleAllows(workspace.role, "write");
+}
+
+function countOwners(members: Array<{ role: WorkspaceRole }>): number {
+  return members.filter(member => member.role === "owner").length;
+}
+
+// The project a task board is shared through and its members; an unshared board's only member is its owner
+async function getTaskBoardTeam(generation: TaskGeneration): Promise<{ project?: Project; members: ProjectCollaboratorDetail[] }> {
+  const project = await storage.getProjectByGenerationId(generation.id);
+  if (project) {
+    return { project, members: await storage.getProjectCollaborators(project.id) };
+  }
+  const owner = await storage.getUser(generation.userId);
+  const members: ProjectCollaboratorDetail[] = owner
+    ? [{ userId: owner.id, username: owner.username, email: owner.email, role: "owner", status: "accepted", invitedAt: generation.createdAt }]
+    : [];
+  return { members };
+}
+
 // Helper function to create cost snapshots
 async function createCostSnapshot(userId: string) {
   try {
@@ -4194,62 +6150,13 @@ async function createCostSnapshot(userId: string) {
 
 async function importToolsFromCSV() {
   try {
-    const csvPath = path.resolve(process.cwd(), "attached_assets", "tools (1)_1758015589276.csv");
+    const tools = readSeedTools();
     
-    if (!fs.existsSync(csvPath)) {
+    if (!tools) {
       console.log("Tools CSV file not found, skipping import");
       return;
     }
 
-    const csvContent = fs.readFileSync(csvPath, "utf-8");
-    const lines = csvContent.split("\n");
-    const headers = lines[0].split(",").map(h => h.replace(/"/g, "").trim());
-    
-    const tools = [];
-    
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-      
-      // Parse CSV line handling quoted values
-      const values = [];
-      let current = "";
-      let inQuotes = false;
-      
-      for (let j = 0; j < line.length; j++) {
-        const char = line[j];
-        if (char === '"') {
-          inQuotes = !inQuotes;
-        } else if (char === ',' && !inQuotes) {
-          values.push(current.trim());
-          current = "";
-        } else {
-          current += char;
-        }
-      }
-      values.push(current.trim());
-      
-      if (values.length >= headers.length) {
-        const tool = {
-          id: values[0].replace(/"/g, ""),
-          name: values[1].replace(/"/g, ""),
-          description: values[2].replace(/"/g, ""),
-          category: values[3].replace(/"/g, ""),
-          url: values[4].replace(/"/g, ""),
-          frameworks: values[5].replace(/"/g, ""),
-          languages: values[6].replace(/"/g, ""),
-          features: values[7].replace(/"/g, ""),
-          integrations: values[8].replace(/"/g, ""),
-          maturityScore: values[9].replace(/"/g, "") || null,
-          popularityScore: values[10].replace(/"/g, "") || null,
-          pricing: values[11].replace(/"/g, ""),
-          notes: values[12].replace(/"/g, ""),
-        };
-        
-        tools.push(tool);
-      }
-    }
-    
     await storage.importTools(tools);
     console.log(`Imported ${tools.length} tools from CSV`);
   } catch (error) {
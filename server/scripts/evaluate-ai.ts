@@ -0,0 +1,80 @@
+/**
+ * Evaluate AI - Scores task generation and roadmaps on the golden cases and reports regressions against the baseline
+ * Usage: npm run ai:evaluate -- [--record] [--update-baseline] [--case <id>]
+ * --record asks the configured provider (LLM_PROVIDER, LLM_MODEL) and overwrites the recordings;
+ * without it the recorded responses are replayed, so the run is offline and deterministic.
+ */
+
+import type { Tool } from "@shared/schema";
+import { getLLMProvider } from "../llm/provider";
+import { readSeedTools } from "../tool-catalog-csv";
+import {
+  formatEvaluationReport,
+  loadBaseline,
+  loadEvaluationCases,
+  recordEvaluationCases,
+  replayEvaluationCases,
+  saveBaseline,
+} from "../evaluation/harness";
+import { compareWithBaseline, toBaseline } from "../evaluation/scoring";
+
+// The seed CSV is what `tools` is populated from, so it stands in for the table without a database
+function loadCatalog(): Tool[] {
+  const seedTools = readSeedTools();
+  if (!seedTools) {
+    throw new Error("The tools CSV in attached_assets is required for the evaluation");
+  }
+  return seedTools.map(tool => ({
+    id: tool.id,
+    name: tool.name,
+    category: tool.category,
+    description: tool.description ?? null,
+    url: tool.url ?? null,
+    frameworks: tool.frameworks ?? null,
+    languages: tool.languages ?? null,
+    features: tool.features ?? null,
+    integrations: tool.integrations ?? null,
+    maturityScore: tool.maturityScore ?? null,
+    popularityScore: tool.popularityScore ?? null,
+    pricing: tool.pricing ?? null,
+    license: tool.license ?? null,
+    notes: tool.notes ?? null,
+  }));
+}
+
+async function evaluate(args: string[]): Promise<number> {
+  const caseIndex = args.indexOf("--case");
+  const onlyCase = caseIndex === -1 ? undefined : args[caseIndex + 1];
+
+  const catalog = loadCatalog();
+  const cases = loadEvaluationCases().filter(evalCase => !onlyCase || evalCase.id === onlyCase);
+  if (cases.length === 0) {
+    console.error(onlyCase ? `No golden case "${onlyCase}"` : "No golden cases found");
+    return 1;
+  }
+
+  const results = args.includes("--record")
+    ? await recordEvaluationCases(cases, catalog, getLLMProvider())
+    : await replayEvaluationCases(cases, catalog);
+
+  const baseline = loadBaseline();
+  const caseBaseline = onlyCase ? { [onlyCase]: baseline[onlyCase] ?? {} } : baseline;
+  const comparison = compareWithBaseline(results, caseBaseline);
+  console.log(formatEvaluationReport(results, comparison));
+
+  if (args.includes("--update-baseline")) {
+    saveBaseline({ ...baseline, ...toBaseline(results) });
+    console.log("Baseline updated");
+    return 0;
+  }
+  return comparison.regressions.length > 0 ? 1 : 0;
+}
+
+evaluate(process.argv.slice(2))
+  .then(exitCode => {
+    process.exitCode = exitCode;
+  })
+  .catch(error => {
+    console.error("AI evaluation failed:", error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,88 @@
+/**
+ * Import OSV Advisories - Loads OSV vulnerability dumps into vulnerability_advisories
+ * Usage: npm run advisories:import -- <path> [<path> ...]
+ * Each path may be an OSV JSON file, a directory of them (e.g. an extracted
+ * ecosystem all.zip from osv.dev), or a .zip/.tar.gz archive of JSON files.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { InsertVulnerabilityAdvisory } from "@shared/schema";
+import { pool } from "../db";
+import { listArchiveEntries } from "../repository-analysis/archive-reader";
+import { parseOsvJson } from "../repository-analysis/osv-advisories";
+import { storage } from "../storage";
+
+const BATCH_SIZE = 500;
+
+interface ImportStats {
+  files: number;
+  skippedFiles: number;
+  advisories: number;
+}
+
+async function* readJsonDocuments(inputPath: string): AsyncGenerator<{ name: string; content: string }> {
+  const stat = await fs.stat(inputPath);
+
+  if (stat.isDirectory()) {
+    for (const dirent of await fs.readdir(inputPath, { withFileTypes: true })) {
+      yield* readJsonDocuments(path.join(inputPath, dirent.name));
+    }
+    return;
+  }
+
+  if (/\.json$/i.test(inputPath)) {
+    yield { name: inputPath, content: await fs.readFile(inputPath, "utf8") };
+    return;
+  }
+
+  if (/\.(zip|tar|tar\.gz|tgz)$/i.test(inputPath)) {
+    for (const entry of listArchiveEntries(await fs.readFile(inputPath))) {
+      if (!/\.json$/i.test(entry.path)) continue;
+      yield { name: `${inputPath}:${entry.path}`, content: entry.read().toString("utf8") };
+    }
+  }
+}
+
+async function importAdvisories(inputPaths: string[]): Promise<ImportStats> {
+  const stats: ImportStats = { files: 0, skippedFiles: 0, advisories: 0 };
+  let batch: InsertVulnerabilityAdvisory[] = [];
+
+  const flush = async () => {
+    stats.advisories += await storage.upsertVulnerabilityAdvisories(batch);
+    batch = [];
+  };
+
+  for (const inputPath of inputPaths) {
+    for await (const document of readJsonDocuments(path.resolve(inputPath))) {
+      stats.files++;
+      try {
+        batch.push(...parseOsvJson(document.content));
+      } catch (error) {
+        stats.skippedFiles++;
+        console.warn(`Skipped ${document.name}: ${error instanceof Error ? error.message : "invalid OSV JSON"}`);
+        continue;
+      }
+      if (batch.length >= BATCH_SIZE) await flush();
+    }
+  }
+  await flush();
+
+  return stats;
+}
+
+const inputPaths = process.argv.slice(2);
+if (inputPaths.length === 0) {
+  console.error("Usage: npm run advisories:import -- <osv-json-file|directory|archive> [...]");
+  process.exit(1);
+}
+
+importAdvisories(inputPaths)
+  .then(stats => {
+    console.log(`Imported ${stats.advisories} advisory rows from ${stats.files} files (${stats.skippedFiles} skipped)`);
+  })
+  .catch(error => {
+    console.error("Advisory import failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -39,6 +39,21 @@ import {
   repositoryAnalyses,
   repositoryImports,
   detectedTools,
+  repositoryDriftReports,
+  detectionRules,
+  vulnerabilityAdvisories,
+  licensePolicies,
+  aiInvocations,
+  refinementThreads,
+  refinementMessages,
+  promptTemplateVersions,
+  workspaces,
+  workspaceMemberships,
+  projectCollaborators,
+  personalAccessTokens,
+  passwordResetTokens,
+  userSessions,
+  twoFactorRecoveryCodes,
   type User, 
   type InsertUser, 
   type Tool, 
@@ -128,6 +143,46 @@ import {
   type InsertRepositoryAnalysis,
   type RepositoryImport,
   type InsertRepositoryImport,
+  type RepositoryDriftReport,
+  type InsertRepositoryDriftReport,
+  type DetectionRule,
+  type InsertDetectionRule,
+  type VulnerabilityAdvisory,
+  type InsertVulnerabilityAdvisory,
+  type ToolVulnerability,
+  type LicensePolicy,
+  type InsertLicensePolicy,
+  type AiInvocation,
+  type InsertAiInvocation,
+  type RefinementThread,
+  type InsertRefinementThread,
+  type RefinementMessage,
+  type InsertRefinementMessage,
+  type RefinementTargetType,
+  type PromptTemplateVersion,
+  type PromptTemplateKey,
+  type Workspace,
+  type InsertWorkspace,
+  type WorkspaceMembership,
+  type WorkspaceRole,
+  type WorkspaceSummary,
+  type WorkspaceMemberDetail,
+  type TwoFactorStatus,
+  type ProjectCollaborator,
+  type ProjectCollaboratorRole,
+  type ProjectCollaboratorDetail,
+  type ProjectInvitation,
+  type SharedTaskBoard,
+  type PersonalAccessToken,
+  type InsertPersonalAccessToken,
+  type AccessTokenScope,
+  type AccessTokenSummary,
+  type LicenseReportEntry,
+  type LicenseReportResponse,
+  type RepositoryLicenseReport,
+  type RepositoryImportRequest,
+  type RepositoryImportPreview,
+  type PackageEcosystem,
   type DiscoveredToolEvaluation,
   type InsertDiscoveredToolEvaluation,
   type DiscoveredToolWithMetrics,
@@ -137,12 +192,29 @@ import {
   type DiscoverySessionStatus
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, sql, desc, asc, like, ilike, count, avg, exists, inArray, or, isNull } from "drizzle-orm";
+import { findToolVulnerabilities, getDetectedPackage } from "./repository-analysis/osv-advisories";
+import { buildImportDiff } from "./repository-analysis/import-preview";
+import { wouldCreateDependencyCycle } from "./task-generation/dependency-graph";
+import { workspaceRoleAllows, type WorkspaceAccess } from "./workspaces/workspace-roles";
+import { acceptedCollaboratorIds, collaboratorRoleAllows } from "./project-planning/collaborator-access";
+import { lockoutAfterFailure } from "./account-security/login-throttle";
+import { meetsTwoFactorRequirement } from "./account-security/totp";
+import type { HeuristicSources } from "./heuristics/fallback-generators";
+import {
+  DEFAULT_LICENSE_POLICY,
+  buildLicenseReportEntry,
+  getDetectedLicense,
+  resolveLicense,
+  summarizeLicenseStatuses,
+  type LicensePolicyRules,
+} from "./licensing/license-policy";
+import { eq, and, sql, desc, asc, like, ilike, count, avg, exists, inArray, or, isNull, lte, gte } from "drizzle-orm";
 import type { SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 import session from "express-session";
-import createMemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
 
-const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPgSimple(session);
 
 export interface IStorage {
   // User operations
@@ -150,6 +222,23 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  // Account security operations
+  recordFailedLogin(userId: string): Promise<User | undefined>;
+  resetFailedLogins(userId: string): Promise<void>;
+  updateUserPassword(userId: string, passwordHash: string): Promise<void>;
+  deleteUserSessions(userId: string, exceptSessionId?: string): Promise<void>;
+  createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void>;
+  consumePasswordResetToken(tokenHash: string): Promise<string | undefined>;
+
+  // Two-factor operations
+  getTwoFactorStatus(userId: string): Promise<TwoFactorStatus>;
+  setPendingTotpSecret(userId: string, secret: string): Promise<void>;
+  enableTwoFactor(userId: string, step: number, recoveryCodeHashes: string[]): Promise<void>;
+  disableTwoFactor(userId: string): Promise<void>;
+  recordTotpStep(userId: string, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
   
   // Tool operations
   getAllTools(): Promise<Tool[]>;
@@ -157,14 +246,14 @@ export interface IStorage {
   createTool(tool: InsertTool): Promise<Tool>;
   importTools(tools: InsertTool[]): Promise<void>;
   
-  // User tool operations
+  // User tool operations; the stack is the active workspace's when the user has one selected
   getUserTools(userId: string): Promise<(UserTool & { tool: Tool })[]>;
   addUserTool(userTool: InsertUserTool): Promise<UserTool>;
   updateUserTool(id: string, updates: Partial<InsertUserTool>): Promise<UserTool | undefined>;
   removeUserTool(id: string): Promise<void>;
   getUserToolByToolId(userId: string, toolId: string): Promise<UserTool | undefined>;
   getUserToolById(id: string): Promise<UserTool | undefined>;
-  verifyUserToolOwnership(userToolId: string, userId: string): Promise<boolean>;
+  verifyUserToolOwnership(userToolId: string, userId: string, access?: WorkspaceAccess): Promise<boolean>;
   
   // Usage tracking operations
   markToolAsUsed(userToolId: string): Promise<UserTool | undefined>;
@@ -174,18 +263,20 @@ export interface IStorage {
   // Saved ideas operations
   getSavedIdeas(userId: string): Promise<SavedIdea[]>;
   createSavedIdea(idea: InsertSavedIdea): Promise<SavedIdea>;
+  updateSavedIdea(id: string, updates: Partial<InsertSavedIdea>): Promise<SavedIdea | undefined>;
   deleteSavedIdea(id: string): Promise<void>;
   verifySavedIdeaOwnership(ideaId: string, userId: string): Promise<boolean>;
   
   // Budget operations
   updateUserBudget(userId: string, monthlyBudget: string): Promise<User | undefined>;
+  getMonthlyBudget(userId: string): Promise<string | null>; // The active workspace's budget, else the user's own
   
   // Cost snapshot operations
   createCostSnapshot(snapshot: InsertCostSnapshot): Promise<CostSnapshot>;
   getCostSnapshots(userId: string, limit?: number): Promise<CostSnapshot[]>;
   
   // Stack intelligence operations
-  analyzeStackRedundancies(userId: string): Promise<{
+  analyzeStackRedundancies(userId: string, projectedTools?: Array<UserTool & { tool: Tool }>): Promise<{
     redundancies: Array<{
       category: string;
       tools: Array<UserTool & { tool: Tool }>;
@@ -253,7 +344,7 @@ export interface IStorage {
   getRoadmapById(id: string): Promise<TechRoadmap | undefined>;
   updateTechRoadmap(id: string, updates: Partial<InsertTechRoadmap>): Promise<TechRoadmap | undefined>;
   deleteTechRoadmap(id: string): Promise<void>;
-  verifyRoadmapOwnership(roadmapId: string, userId: string): Promise<boolean>;
+  verifyRoadmapOwnership(roadmapId: string, userId: string, access?: WorkspaceAccess): Promise<boolean>;
 
   // Repository analysis operations
   createRepositoryAnalysis(analysis: InsertRepositoryAnalysis): Promise<RepositoryAnalysis>;
@@ -264,19 +355,84 @@ export interface IStorage {
     updates: Partial<InsertRepositoryAnalysis> & { completedAt?: Date }
   ): Promise<RepositoryAnalysis | undefined>;
   deleteRepositoryAnalysis(id: string): Promise<void>;
-  verifyRepositoryAnalysisOwnership(analysisId: string, userId: string): Promise<boolean>;
+  verifyRepositoryAnalysisOwnership(analysisId: string, userId: string, access?: WorkspaceAccess): Promise<boolean>;
+  getDueTrackedRepositoryAnalyses(now: Date, limit: number): Promise<RepositoryAnalysis[]>;
+
+  // Repository drift operations
+  createRepositoryDriftReport(report: InsertRepositoryDriftReport): Promise<RepositoryDriftReport>;
+  getRepositoryDriftReports(analysisId: string, limit?: number): Promise<RepositoryDriftReport[]>;
 
   // Repository import operations
   createRepositoryImport(importData: InsertRepositoryImport): Promise<RepositoryImport>;
   getRepositoryImport(id: string): Promise<RepositoryImport | undefined>;
   getUserRepositoryImports(userId: string): Promise<RepositoryImport[]>;
   getImportsByAnalysisId(analysisId: string): Promise<RepositoryImport[]>;
+  getLatestImportForTrackedAnalysis(analysisId: string): Promise<RepositoryImport | undefined>;
+  previewRepositoryImport(userId: string, importRequest: RepositoryImportRequest): Promise<RepositoryImportPreview>;
 
   // Detected tools operations
   createDetectedTools(tools: InsertDetectedTool[]): Promise<DetectedTool[]>;
   getDetectedToolsByAnalysisId(analysisId: string): Promise<(DetectedTool & { tool?: Tool; suggestedToolRef?: Tool })[]>;
   updateDetectedTool(id: string, updates: Partial<InsertDetectedTool>): Promise<DetectedTool | undefined>;
   markDetectedToolAsImported(id: string): Promise<DetectedTool | undefined>;
+
+  // Detection rule operations
+  getUserDetectionRules(userId: string, enabledOnly?: boolean): Promise<DetectionRule[]>;
+  getDetectionRule(id: string): Promise<DetectionRule | undefined>;
+  createDetectionRule(rule: InsertDetectionRule): Promise<DetectionRule>;
+  updateDetectionRule(id: string, updates: Partial<InsertDetectionRule>): Promise<DetectionRule | undefined>;
+  deleteDetectionRule(id: string): Promise<void>;
+  verifyDetectionRuleOwnership(ruleId: string, userId: string): Promise<boolean>;
+
+  // Vulnerability advisory operations
+  upsertVulnerabilityAdvisories(advisories: InsertVulnerabilityAdvisory[]): Promise<number>;
+  countVulnerabilityAdvisories(): Promise<number>;
+  getVulnerabilityAdvisoriesForPackages(packages: Array<{ ecosystem: string; packageName: string }>): Promise<VulnerabilityAdvisory[]>;
+  getDetectedToolVulnerabilities(tools: DetectedTool[]): Promise<ToolVulnerability[]>;
+  getStackVulnerabilities(userId: string, toolIds?: string[]): Promise<ToolVulnerability[]>;
+
+  // License compliance operations
+  getLicensePolicy(userId: string): Promise<LicensePolicy | undefined>;
+  upsertLicensePolicy(userId: string, updates: Partial<Omit<InsertLicensePolicy, "userId">>): Promise<LicensePolicy>;
+  generateLicenseReport(userId: string): Promise<LicenseReportResponse>;
+
+  // AI usage accounting operations
+  recordAIInvocation(invocation: InsertAiInvocation): Promise<AiInvocation>;
+  getAIInvocations(userId: string, since: Date): Promise<AiInvocation[]>;
+
+  // Refinement thread operations
+  getRefinementThread(targetType: RefinementTargetType, targetId: string): Promise<RefinementThread | undefined>;
+  getOrCreateRefinementThread(thread: InsertRefinementThread): Promise<RefinementThread>;
+  getRefinementMessages(threadId: string): Promise<RefinementMessage[]>;
+  addRefinementMessages(threadId: string, messages: Omit<InsertRefinementMessage, "threadId">[]): Promise<RefinementMessage[]>;
+  getRefinementMessage(id: string): Promise<(RefinementMessage & { thread: RefinementThread }) | undefined>;
+  updateRefinementMessage(id: string, updates: Partial<InsertRefinementMessage>): Promise<RefinementMessage | undefined>;
+
+  // Prompt template operations
+  getPromptTemplateVersions(userId: string, templateKey?: PromptTemplateKey): Promise<PromptTemplateVersion[]>;
+  getActivePromptTemplate(userId: string, templateKey: PromptTemplateKey): Promise<PromptTemplateVersion | undefined>;
+  createPromptTemplateVersion(userId: string, templateKey: PromptTemplateKey, body: string, note?: string): Promise<PromptTemplateVersion>;
+
+  // Workspace operations
+  createWorkspace(name: string, ownerId: string): Promise<Workspace>;
+  getWorkspace(id: string): Promise<Workspace | undefined>;
+  getUserWorkspaces(userId: string): Promise<WorkspaceSummary[]>;
+  updateWorkspace(id: string, updates: Partial<InsertWorkspace>): Promise<Workspace | undefined>;
+  deleteWorkspace(id: string): Promise<void>;
+  getWorkspaceRole(workspaceId: string, userId: string): Promise<WorkspaceRole | undefined>;
+  getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberDetail[]>;
+  addWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole, invitedBy?: string): Promise<WorkspaceMembership>;
+  updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMembership | undefined>;
+  removeWorkspaceMember(workspaceId: string, userId: string): Promise<void>;
+  getActiveWorkspace(userId: string): Promise<WorkspaceSummary | undefined>;
+  setActiveWorkspace(userId: string, workspaceId: string | null): Promise<User | undefined>;
+
+  // Personal access token operations
+  createAccessToken(token: InsertPersonalAccessToken): Promise<AccessTokenSummary>;
+  getUserAccessTokens(userId: string): Promise<AccessTokenSummary[]>;
+  revokeAccessToken(id: string, userId: string): Promise<boolean>;
+  getActiveAccessToken(tokenHash: string): Promise<PersonalAccessToken | undefined>;
+  touchAccessToken(id: string): Promise<void>;
   
   // AI enhancement operations
   getBudgetConstrainedRecommendations(userId: string, maxBudget?: number): Promise<Tool[]>;
@@ -295,13 +451,18 @@ export interface IStorage {
   updateTaskGeneration(id: string, updates: Partial<InsertTaskGeneration>): Promise<TaskGeneration | undefined>;
   getTaskGeneration(id: string): Promise<TaskGeneration | undefined>;
   getUserTaskGenerations(userId: string): Promise<TaskGeneration[]>;
+  getSharedTaskBoards(userId: string): Promise<SharedTaskBoard[]>;
+  verifyTaskGenerationAccess(generationId: string, userId: string, access?: WorkspaceAccess): Promise<boolean>;
   
   createProjectTask(task: InsertProjectTask): Promise<ProjectTask>;
   updateProjectTask(id: string, updates: UpdateProjectTask): Promise<ProjectTask | undefined>;
   deleteProjectTask(id: string): Promise<void>;
   getUserTasks(userId: string): Promise<ProjectTask[]>;
   getTasksByGeneration(generationId: string): Promise<ProjectTask[]>;
-  verifyTaskOwnership(taskId: string, userId: string): Promise<boolean>;
+  getProjectTask(id: string): Promise<ProjectTask | undefined>;
+  getAssignedTasks(userId: string): Promise<ProjectTask[]>;
+  assignProjectTask(id: string, assigneeId: string | null): Promise<ProjectTask | undefined>;
+  verifyTaskOwnership(taskId: string, userId: string, access?: WorkspaceAccess): Promise<boolean>;
   
   createTaskDependency(dependency: InsertTaskDependency): Promise<TaskDependency>;
   getTaskDependenciesByGeneration(generationId: string): Promise<TaskDependency[]>;
@@ -310,6 +471,7 @@ export interface IStorage {
   getTaskMetrics(generationId: string): Promise<TaskMetrics>;
   getTaskCategories(): Promise<TaskCategory[]>;
   createTaskCategory(category: InsertTaskCategory): Promise<TaskCategory>;
+  getHeuristicSources(userId: string): Promise<HeuristicSources>;
   
   // Documentation system operations
   // Doc categories operations
@@ -531,7 +693,17 @@ export interface IStorage {
   }): Promise<Project[]>;
   updateProject(id: string, updates: Partial<InsertProject>): Promise<Project | undefined>;
   deleteProject(id: string): Promise<void>;
-  verifyProjectOwnership(projectId: string, userId: string): Promise<boolean>;
+  verifyProjectOwnership(projectId: string, userId: string, access?: WorkspaceAccess): Promise<boolean>;
+  getProjectByGenerationId(generationId: string): Promise<Project | undefined>;
+
+  // Project collaborator operations
+  getProjectCollaborators(projectId: string): Promise<ProjectCollaboratorDetail[]>;
+  getProjectCollaborator(projectId: string, userId: string): Promise<ProjectCollaborator | undefined>;
+  inviteProjectCollaborator(projectId: string, userId: string, role: ProjectCollaboratorRole, invitedBy: string): Promise<ProjectCollaborator>;
+  updateProjectCollaboratorRole(projectId: string, userId: string, role: ProjectCollaboratorRole): Promise<ProjectCollaborator | undefined>;
+  removeProjectCollaborator(projectId: string, userId: string): Promise<void>;
+  getProjectInvitations(userId: string): Promise<ProjectInvitation[]>;
+  respondToProjectInvitation(invitationId: string, userId: string, accept: boolean): Promise<ProjectCollaborator | undefined>;
   
   // Project phases operations
   createProjectPhase(phase: InsertProjectPhase): Promise<ProjectPhase>;
@@ -761,8 +933,12 @@ export class DatabaseStorage implements Partial<IStorage> {
   sessionStore: session.Store;
 
   constructor() {
-    this.sessionStore = new MemoryStore({
-      checkPeriod: 86400000, // 24 hours
+    // Sessions live in Postgres so restarts and multiple instances keep everyone signed in.
+    // connect-pg-simple opens its own node-postgres pool; the Neon pool in ./db is not API-compatible with it.
+    this.sessionStore = new PostgresSessionStore({
+      conString: process.env.DATABASE_URL,
+      tableName: "user_sessions", // Created by db:push from shared/schema.ts
+      pruneSessionInterval: 60 * 60, // seconds
     });
   }
 
@@ -778,7 +954,8 @@ export class DatabaseStorage implements Partial<IStorage> {
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
+    // Sign-up stores emails lowercased; older accounts may not be, so match without case
+    const [user] = await db.select().from(users).where(sql`lower(${users.email}) = ${email.trim().toLowerCase()}`);
     return user;
   }
 
@@ -787,6 +964,135 @@ export class DatabaseStorage implements Partial<IStorage> {
     return user;
   }
 
+  // Account security operations
+  async recordFailedLogin(userId: string): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ failedLoginAttempts: sql`coalesce(${users.failedLoginAttempts}, 0) + 1` })
+      .where(eq(users.id, userId))
+      .returning();
+    if (!user) return undefined;
+
+    const lockedUntil = lockoutAfterFailure(user.failedLoginAttempts ?? 0);
+    if (!lockedUntil) return user;
+
+    // The lock starts a fresh count, so an unlocked account gets the full number of attempts again
+    const [locked] = await db.update(users)
+      .set({ lockedUntil, failedLoginAttempts: 0 })
+      .where(eq(users.id, userId))
+      .returning();
+    return locked;
+  }
+
+  async resetFailedLogins(userId: string): Promise<void> {
+    await db.update(users)
+      .set({ failedLoginAttempts: 0, lockedUntil: null })
+      .where(eq(users.id, userId));
+  }
+
+  async updateUserPassword(userId: string, passwordHash: string): Promise<void> {
+    await db.update(users)
+      .set({ password: passwordHash, passwordChangedAt: new Date(), failedLoginAttempts: 0, lockedUntil: null })
+      .where(eq(users.id, userId));
+  }
+
+  // Signs the user out everywhere, optionally keeping the session that made the request
+  async deleteUserSessions(userId: string, exceptSessionId?: string): Promise<void> {
+    const conditions = [sql`${userSessions.sess} -> 'passport' ->> 'user' = ${userId}`];
+    if (exceptSessionId) conditions.push(sql`${userSessions.sid} <> ${exceptSessionId}`);
+    await db.delete(userSessions).where(and(...conditions));
+  }
+
+  async createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void> {
+    // A new link replaces any earlier one that has not been used yet
+    await db.delete(passwordResetTokens)
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+    await db.insert(passwordResetTokens).values({ userId, tokenHash, expiresAt });
+  }
+
+  // Marks the token used and returns its user, or undefined when it is unknown, used or expired
+  async consumePasswordResetToken(tokenHash: string): Promise<string | undefined> {
+    const [token] = await db.update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gte(passwordResetTokens.expiresAt, new Date())
+      ))
+      .returning({ userId: passwordResetTokens.userId });
+    return token?.userId;
+  }
+
+  // Two-factor operations
+  async getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+    const [user] = await db.select({ totpEnabledAt: users.totpEnabledAt }).from(users).where(eq(users.id, userId));
+    const [remaining] = await db.select({ count: count() }).from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+    const requiring = await db.select({ name: workspaces.name })
+      .from(workspaceMemberships)
+      .innerJoin(workspaces, eq(workspaceMemberships.workspaceId, workspaces.id))
+      .where(and(eq(workspaceMemberships.userId, userId), eq(workspaces.requireTwoFactor, true)))
+      .orderBy(asc(workspaces.name));
+
+    return {
+      enabled: !!user?.totpEnabledAt,
+      enabledAt: user?.totpEnabledAt ?? null,
+      recoveryCodesRemaining: Number(remaining?.count ?? 0),
+      requiredByWorkspaces: requiring.map(workspace => workspace.name),
+    };
+  }
+
+  // Enrollment starts here; the secret does nothing until enableTwoFactor confirms a code from it
+  async setPendingTotpSecret(userId: string, secret: string): Promise<void> {
+    await db.update(users)
+      .set({ totpSecret: secret, totpEnabledAt: null, totpLastUsedStep: null })
+      .where(eq(users.id, userId));
+  }
+
+  async enableTwoFactor(userId: string, step: number, recoveryCodeHashes: string[]): Promise<void> {
+    await db.update(users)
+      .set({ totpEnabledAt: new Date(), totpLastUsedStep: step })
+      .where(eq(users.id, userId));
+    await this.replaceRecoveryCodes(userId, recoveryCodeHashes);
+  }
+
+  async disableTwoFactor(userId: string): Promise<void> {
+    await db.update(users)
+      .set({ totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null })
+      .where(eq(users.id, userId));
+    await db.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+  }
+
+  // False when the step was already used, which also stops two requests racing with the same code
+  async recordTotpStep(userId: string, step: number): Promise<boolean> {
+    const updated = await db.update(users)
+      .set({ totpLastUsedStep: step })
+      .where(and(
+        eq(users.id, userId),
+        or(isNull(users.totpLastUsedStep), sql`${users.totpLastUsedStep} < ${step}`)
+      ))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await db.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    if (codeHashes.length > 0) {
+      await db.insert(twoFactorRecoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    }
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const used = await db.update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, codeHash),
+        isNull(twoFactorRecoveryCodes.usedAt)
+      ))
+      .returning({ id: twoFactorRecoveryCodes.id });
+    return used.length > 0;
+  }
+
   // Tool operations
   async getAllTools(): Promise<Tool[]> {
     return await db.select().from(tools);
@@ -814,7 +1120,7 @@ export class DatabaseStorage implements Partial<IStorage> {
       .select()
       .from(userTools)
       .innerJoin(tools, eq(userTools.toolId, tools.id))
-      .where(eq(userTools.userId, userId));
+      .where(await this.workspaceScope(userTools, userId));
     
     // Transform the result to match the expected structure
     return result.map((row: any) => ({
@@ -824,7 +1130,8 @@ export class DatabaseStorage implements Partial<IStorage> {
   }
 
   async addUserTool(userTool: InsertUserTool): Promise<UserTool> {
-    const [created] = await db.insert(userTools).values(userTool).returning();
+    const workspaceId = await this.getActiveWorkspaceId(userTool.userId);
+    const [created] = await db.insert(userTools).values({ ...userTool, workspaceId }).returning();
     return created;
   }
 
@@ -845,7 +1152,7 @@ export class DatabaseStorage implements Partial<IStorage> {
     const [userTool] = await db
       .select()
       .from(userTools)
-      .where(and(eq(userTools.userId, userId), eq(userTools.toolId, toolId)));
+      .where(and(await this.workspaceScope(userTools, userId), eq(userTools.toolId, toolId)));
     return userTool;
   }
 
@@ -857,12 +1164,12 @@ export class DatabaseStorage implements Partial<IStorage> {
     return userTool;
   }
 
-  async verifyUserToolOwnership(userToolId: string, userId: string): Promise<boolean> {
+  async verifyUserToolOwnership(userToolId: string, userId: string, access: WorkspaceAccess = "write"): Promise<boolean> {
     const [userTool] = await db
-      .select({ userId: userTools.userId })
+      .select({ userId: userTools.userId, workspaceId: userTools.workspaceId })
       .from(userTools)
       .where(eq(userTools.id, userToolId));
-    return userTool?.userId === userId;
+    return this.canAccessScopedRow(userTool, userId, access);
   }
 
   // Usage tracking operations
@@ -893,7 +1200,7 @@ export class DatabaseStorage implements Partial<IStorage> {
       .from(userTools)
       .innerJoin(tools, eq(userTools.toolId, tools.id))
       .where(and(
-        eq(userTools.userId, userId),
+        await this.workspaceScope(userTools, userId),
         // Consider dormant if: never used OR last used before cutoff date OR marked inactive
         sql`(
           ${userTools.lastUsedAt} IS NULL 
@@ -1068,6 +1375,15 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
     return created;
   }
 
+  async updateSavedIdea(id: string, updates: Partial<InsertSavedIdea>): Promise<SavedIdea | undefined> {
+    const [updated] = await db
+      .update(savedIdeas)
+      .set(updates)
+      .where(eq(savedIdeas.id, id))
+      .returning();
+    return updated;
+  }
+
   async deleteSavedIdea(id: string): Promise<void> {
     await db.delete(savedIdeas).where(eq(savedIdeas.id, id));
   }
@@ -1090,6 +1406,13 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
     return user;
   }
 
+  async getMonthlyBudget(userId: string): Promise<string | null> {
+    const workspace = await this.getActiveWorkspace(userId);
+    if (workspace) return workspace.monthlyBudget;
+    const user = await this.getUser(userId);
+    return user?.monthlyBudget ?? null;
+  }
+
   // Cost snapshot operations
   async createCostSnapshot(snapshot: InsertCostSnapshot): Promise<CostSnapshot> {
     const [created] = await db.insert(costSnapshots).values(snapshot).returning();
@@ -1106,7 +1429,8 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
   }
 
   // Stack intelligence operations
-  async analyzeStackRedundancies(userId: string): Promise<{
+  // projectedTools evaluates a hypothetical stack (e.g. an import preview) instead of the stored one
+  async analyzeStackRedundancies(userId: string, projectedTools?: Array<UserTool & { tool: Tool }>): Promise<{
     redundancies: Array<{
       category: string;
       tools: Array<UserTool & { tool: Tool }>;
@@ -1117,7 +1441,7 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
     }>;
     totalPotentialSavings: number;
   }> {
-    const userTools = await this.getUserTools(userId);
+    const userTools = projectedTools ?? await this.getUserTools(userId);
     const redundancies: any[] = [];
     let totalPotentialSavings = 0;
 
@@ -1517,7 +1841,8 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
 
   // Tech roadmap operations
   async createTechRoadmap(roadmap: InsertTechRoadmap): Promise<TechRoadmap> {
-    const [created] = await db.insert(techRoadmaps).values(roadmap).returning();
+    const workspaceId = await this.getActiveWorkspaceId(roadmap.userId);
+    const [created] = await db.insert(techRoadmaps).values({ ...roadmap, workspaceId }).returning();
     return created;
   }
 
@@ -1525,7 +1850,7 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
     return await db
       .select()
       .from(techRoadmaps)
-      .where(eq(techRoadmaps.userId, userId))
+      .where(await this.workspaceScope(techRoadmaps, userId))
       .orderBy(techRoadmaps.createdAt);
   }
 
@@ -1550,12 +1875,12 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
     await db.delete(techRoadmaps).where(eq(techRoadmaps.id, id));
   }
 
-  async verifyRoadmapOwnership(roadmapId: string, userId: string): Promise<boolean> {
+  async verifyRoadmapOwnership(roadmapId: string, userId: string, access: WorkspaceAccess = "write"): Promise<boolean> {
     const [roadmap] = await db
-      .select({ userId: techRoadmaps.userId })
+      .select({ userId: techRoadmaps.userId, workspaceId: techRoadmaps.workspaceId })
       .from(techRoadmaps)
       .where(eq(techRoadmaps.id, roadmapId));
-    return roadmap?.userId === userId;
+    return this.canAccessScopedRow(roadmap, userId, access);
   }
 
   // AI enhancement operations
@@ -1563,8 +1888,8 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
     const userTools = await this.getUserTools(userId);
     const currentCost = userTools.reduce((sum, ut) => sum + parseFloat(ut.monthlyCost ?? '0'), 0);
     
-    const user = await this.getUser(userId);
-    const budget = maxBudget || (user?.monthlyBudget ? parseFloat(user.monthlyBudget) : 1000);
+    const monthlyBudget = await this.getMonthlyBudget(userId);
+    const budget = maxBudget || (monthlyBudget ? parseFloat(monthlyBudget) : 1000);
     const remainingBudget = Math.max(0, budget - currentCost);
 
     // Get tools that fit within remaining budget (assume pricing contains cost info)
@@ -1895,8 +2220,11 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
   }
 
   // Repository analysis operations
+  // Scheduled re-runs stay in the tracked analysis's workspace, whatever the user has selected since
   async createRepositoryAnalysis(analysis: InsertRepositoryAnalysis): Promise<RepositoryAnalysis> {
-    const [created] = await db.insert(repositoryAnalyses).values(analysis).returning();
+    const parent = analysis.parentAnalysisId ? await this.getRepositoryAnalysis(analysis.parentAnalysisId) : undefined;
+    const workspaceId = parent ? parent.workspaceId : await this.getActiveWorkspaceId(analysis.userId);
+    const [created] = await db.insert(repositoryAnalyses).values({ ...analysis, workspaceId }).returning();
     return created;
   }
 
@@ -1909,10 +2237,11 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
   }
 
   async getUserRepositoryAnalyses(userId: string): Promise<RepositoryAnalysis[]> {
+    // Scheduled re-runs are surfaced through drift reports instead
     return await db
       .select()
       .from(repositoryAnalyses)
-      .where(eq(repositoryAnalyses.userId, userId))
+      .where(and(await this.workspaceScope(repositoryAnalyses, userId), isNull(repositoryAnalyses.parentAnalysisId)))
       .orderBy(sql`${repositoryAnalyses.createdAt} DESC`);
   }
 
@@ -1932,12 +2261,40 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
     await db.delete(repositoryAnalyses).where(eq(repositoryAnalyses.id, id));
   }
 
-  async verifyRepositoryAnalysisOwnership(analysisId: string, userId: string): Promise<boolean> {
+  async verifyRepositoryAnalysisOwnership(analysisId: string, userId: string, access: WorkspaceAccess = "write"): Promise<boolean> {
     const [analysis] = await db
-      .select({ userId: repositoryAnalyses.userId })
+      .select({ userId: repositoryAnalyses.userId, workspaceId: repositoryAnalyses.workspaceId })
       .from(repositoryAnalyses)
       .where(eq(repositoryAnalyses.id, analysisId));
-    return analysis?.userId === userId;
+    return this.canAccessScopedRow(analysis, userId, access);
+  }
+
+  async getDueTrackedRepositoryAnalyses(now: Date, limit: number): Promise<RepositoryAnalysis[]> {
+    return await db
+      .select()
+      .from(repositoryAnalyses)
+      .where(and(
+        eq(repositoryAnalyses.isTracked, true),
+        isNull(repositoryAnalyses.parentAnalysisId),
+        lte(repositoryAnalyses.nextReanalysisAt, now)
+      ))
+      .orderBy(asc(repositoryAnalyses.nextReanalysisAt))
+      .limit(limit);
+  }
+
+  // Repository drift operations
+  async createRepositoryDriftReport(report: InsertRepositoryDriftReport): Promise<RepositoryDriftReport> {
+    const [created] = await db.insert(repositoryDriftReports).values(report).returning();
+    return created;
+  }
+
+  async getRepositoryDriftReports(analysisId: string, limit: number = 10): Promise<RepositoryDriftReport[]> {
+    return await db
+      .select()
+      .from(repositoryDriftReports)
+      .where(eq(repositoryDriftReports.analysisId, analysisId))
+      .orderBy(desc(repositoryDriftReports.createdAt))
+      .limit(limit);
   }
 
   // Repository import operations
@@ -1962,6 +2319,49 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
       .orderBy(sql`${repositoryImports.createdAt} DESC`);
   }
 
+  // Imports may come from the tracked analysis itself or from any of its re-runs
+  async getLatestImportForTrackedAnalysis(analysisId: string): Promise<RepositoryImport | undefined> {
+    const [latest] = await db
+      .select({ importRecord: repositoryImports })
+      .from(repositoryImports)
+      .innerJoin(repositoryAnalyses, eq(repositoryImports.analysisId, repositoryAnalyses.id))
+      .where(or(eq(repositoryAnalyses.id, analysisId), eq(repositoryAnalyses.parentAnalysisId, analysisId)))
+      .orderBy(desc(repositoryImports.createdAt))
+      .limit(1);
+    return latest?.importRecord;
+  }
+
+  async previewRepositoryImport(userId: string, importRequest: RepositoryImportRequest): Promise<RepositoryImportPreview> {
+    const [monthlyBudget, detected, existingTools] = await Promise.all([
+      this.getMonthlyBudget(userId),
+      this.getDetectedToolsByAnalysisId(importRequest.analysisId),
+      this.getUserTools(userId)
+    ]);
+    const { preview, projectedTools, incomingToolIds } = buildImportDiff(
+      userId,
+      importRequest.analysisId,
+      detected,
+      importRequest.selectedTools,
+      existingTools,
+      monthlyBudget
+    );
+
+    // Only overlaps the import would introduce; existing ones are already on the Stack Intelligence page
+    const { redundancies } = await this.analyzeStackRedundancies(userId, projectedTools);
+    const redundancyWarnings = redundancies
+      .filter(redundancy => redundancy.tools.some(userTool => incomingToolIds.has(userTool.toolId)))
+      .map(redundancy => ({
+        category: redundancy.category,
+        severity: redundancy.severity,
+        toolNames: redundancy.tools.map(userTool => userTool.tool.name),
+        potentialSavings: redundancy.potentialSavings,
+        recommendation: redundancy.recommendation,
+        reason: redundancy.reason
+      }));
+
+    return { ...preview, redundancyWarnings };
+  }
+
   async getImportsByAnalysisId(analysisId: string): Promise<RepositoryImport[]> {
     return await db
       .select()
@@ -2018,6 +2418,289 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
     return updated;
   }
 
+  // Detection rule operations
+  async getUserDetectionRules(userId: string, enabledOnly: boolean = false): Promise<DetectionRule[]> {
+    const conditions = [eq(detectionRules.userId, userId)];
+    if (enabledOnly) conditions.push(eq(detectionRules.isEnabled, true));
+
+    return await db
+      .select()
+      .from(detectionRules)
+      .where(and(...conditions))
+      .orderBy(asc(detectionRules.name));
+  }
+
+  async getDetectionRule(id: string): Promise<DetectionRule | undefined> {
+    const [rule] = await db
+      .select()
+      .from(detectionRules)
+      .where(eq(detectionRules.id, id));
+    return rule;
+  }
+
+  async createDetectionRule(rule: InsertDetectionRule): Promise<DetectionRule> {
+    const [created] = await db.insert(detectionRules).values(rule).returning();
+    return created;
+  }
+
+  async updateDetectionRule(id: string, updates: Partial<InsertDetectionRule>): Promise<DetectionRule | undefined> {
+    const [updated] = await db
+      .update(detectionRules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(detectionRules.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteDetectionRule(id: string): Promise<void> {
+    await db.delete(detectionRules).where(eq(detectionRules.id, id));
+  }
+
+  async verifyDetectionRuleOwnership(ruleId: string, userId: string): Promise<boolean> {
+    const [rule] = await db
+      .select({ userId: detectionRules.userId })
+      .from(detectionRules)
+      .where(eq(detectionRules.id, ruleId));
+    return rule?.userId === userId;
+  }
+
+  // Vulnerability advisory operations
+  async upsertVulnerabilityAdvisories(advisories: InsertVulnerabilityAdvisory[]): Promise<number> {
+    if (advisories.length === 0) return 0;
+    // A row may only be upserted once per statement; later copies of the same advisory win
+    const unique = new Map(advisories.map(advisory => [`${advisory.advisoryId}:${advisory.ecosystem}:${advisory.packageName}`, advisory]));
+    const upserted = await db
+      .insert(vulnerabilityAdvisories)
+      .values(Array.from(unique.values()))
+      .onConflictDoUpdate({
+        target: [vulnerabilityAdvisories.advisoryId, vulnerabilityAdvisories.ecosystem, vulnerabilityAdvisories.packageName],
+        set: {
+          aliases: sql`excluded.aliases`,
+          summary: sql`excluded.summary`,
+          severity: sql`excluded.severity`,
+          affectedRanges: sql`excluded.affected_ranges`,
+          affectedVersions: sql`excluded.affected_versions`,
+          fixedVersions: sql`excluded.fixed_versions`,
+          referenceUrl: sql`excluded.reference_url`,
+          publishedAt: sql`excluded.published_at`,
+          modifiedAt: sql`excluded.modified_at`,
+          importedAt: new Date()
+        }
+      })
+      .returning({ id: vulnerabilityAdvisories.id });
+    return upserted.length;
+  }
+
+  async countVulnerabilityAdvisories(): Promise<number> {
+    const [result] = await db.select({ count: count() }).from(vulnerabilityAdvisories);
+    return result?.count ?? 0;
+  }
+
+  async getVulnerabilityAdvisoriesForPackages(
+    packages: Array<{ ecosystem: string; packageName: string }>
+  ): Promise<VulnerabilityAdvisory[]> {
+    if (packages.length === 0) return [];
+    const wanted = new Set(packages.map(pkg => `${pkg.ecosystem}:${pkg.packageName}`));
+
+    const candidates = await db
+      .select()
+      .from(vulnerabilityAdvisories)
+      .where(inArray(vulnerabilityAdvisories.packageName, Array.from(new Set(packages.map(pkg => pkg.packageName)))));
+    return candidates.filter(advisory => wanted.has(`${advisory.ecosystem}:${advisory.packageName}`));
+  }
+
+  async getDetectedToolVulnerabilities(tools: DetectedTool[]): Promise<ToolVulnerability[]> {
+    const packages = tools
+      .map(tool => getDetectedPackage(tool))
+      .filter((pkg): pkg is NonNullable<typeof pkg> => pkg !== null);
+    const advisories = await this.getVulnerabilityAdvisoriesForPackages(packages);
+    return findToolVulnerabilities(tools, advisories);
+  }
+
+  // Imported detected tools stand in for the versions running in the user's stack; the newest import of a package wins
+  async getStackVulnerabilities(userId: string, toolIds?: string[]): Promise<ToolVulnerability[]> {
+    if (toolIds && toolIds.length === 0) return [];
+
+    const conditions = [await this.workspaceScope(repositoryAnalyses, userId), eq(detectedTools.isImported, true)];
+    if (toolIds) conditions.push(inArray(detectedTools.toolId, toolIds));
+
+    const rows = await db
+      .select({ detectedTool: detectedTools })
+      .from(detectedTools)
+      .innerJoin(repositoryAnalyses, eq(detectedTools.analysisId, repositoryAnalyses.id))
+      .where(and(...conditions))
+      .orderBy(desc(detectedTools.createdAt));
+
+    const latestByPackage = new Map<string, DetectedTool>();
+    for (const { detectedTool } of rows) {
+      const pkg = getDetectedPackage(detectedTool);
+      if (!pkg) continue;
+      const key = `${pkg.ecosystem}:${pkg.packageName}`;
+      if (!latestByPackage.has(key)) latestByPackage.set(key, detectedTool);
+    }
+
+    return this.getDetectedToolVulnerabilities(Array.from(latestByPackage.values()));
+  }
+
+  // License compliance operations
+  async getLicensePolicy(userId: string): Promise<LicensePolicy | undefined> {
+    const [policy] = await db.select().from(licensePolicies).where(eq(licensePolicies.userId, userId));
+    return policy;
+  }
+
+  async upsertLicensePolicy(userId: string, updates: Partial<Omit<InsertLicensePolicy, "userId">>): Promise<LicensePolicy> {
+    const [policy] = await db
+      .insert(licensePolicies)
+      .values({ ...updates, userId })
+      .onConflictDoUpdate({
+        target: licensePolicies.userId,
+        set: { ...updates, updatedAt: new Date() }
+      })
+      .returning();
+    return policy;
+  }
+
+  /**
+   * Licenses come from the catalog tool, then lockfile data recorded during analysis,
+   * then discovered tools for the same package or name.
+   */
+  async generateLicenseReport(userId: string): Promise<LicenseReportResponse> {
+    const storedPolicy = await this.getLicensePolicy(userId);
+    const policy: LicensePolicyRules = storedPolicy
+      ? {
+          allowedLicenses: storedPolicy.allowedLicenses,
+          deniedLicenses: storedPolicy.deniedLicenses,
+          flagCopyleft: storedPolicy.flagCopyleft,
+          flagUnknown: storedPolicy.flagUnknown
+        }
+      : DEFAULT_LICENSE_POLICY;
+
+    const stackTools = await this.getUserTools(userId);
+    const repositories = await this.getLatestCompletedAnalyses(userId, 20);
+    const repositoryTools = repositories.length > 0
+      ? await db.select().from(detectedTools).where(inArray(detectedTools.analysisId, repositories.map(analysis => analysis.id)))
+      : [];
+
+    const importedTools = stackTools.length > 0
+      ? await db
+          .select({ detectedTool: detectedTools })
+          .from(detectedTools)
+          .innerJoin(repositoryAnalyses, eq(detectedTools.analysisId, repositoryAnalyses.id))
+          .where(and(
+            await this.workspaceScope(repositoryAnalyses, userId),
+            eq(detectedTools.isImported, true),
+            inArray(detectedTools.toolId, stackTools.map(userTool => userTool.toolId))
+          ))
+          .orderBy(desc(detectedTools.createdAt))
+      : [];
+    const importedLicenses = new Map<string, string>();
+    for (const { detectedTool } of importedTools) {
+      const license = getDetectedLicense(detectedTool);
+      if (detectedTool.toolId && license && !importedLicenses.has(detectedTool.toolId)) {
+        importedLicenses.set(detectedTool.toolId, license);
+      }
+    }
+
+    const packageTools = repositoryTools.filter(tool => getDetectedPackage(tool) || getDetectedLicense(tool));
+    const discovered = await this.getDiscoveredLicenses(
+      [...stackTools.map(userTool => userTool.tool.name), ...packageTools.map(tool => tool.detectedName)],
+      packageTools.map(tool => (tool.detectionDetails as { package?: string } | null)?.package).filter((name): name is string => !!name)
+    );
+
+    const stack: LicenseReportEntry[] = stackTools.map(userTool => buildLicenseReportEntry(
+      userTool.tool.name,
+      resolveLicense([
+        userTool.tool.license,
+        importedLicenses.get(userTool.toolId),
+        discovered.byName.get(userTool.tool.name.toLowerCase())
+      ]),
+      policy,
+      { toolId: userTool.toolId }
+    ));
+
+    // Services found through config files are not redistributed code; only registry packages are audited
+    const repositoryReports: RepositoryLicenseReport[] = repositories.map(analysis => ({
+      analysisId: analysis.id,
+      repositoryName: analysis.repositoryName,
+      repositoryOwner: analysis.repositoryOwner,
+      analyzedAt: analysis.completedAt ?? analysis.createdAt,
+      entries: packageTools
+        .filter(tool => tool.analysisId === analysis.id)
+        .map(tool => {
+          const details = (tool.detectionDetails as { package?: string; ecosystem?: PackageEcosystem } | null) ?? {};
+          return buildLicenseReportEntry(
+            tool.detectedName,
+            resolveLicense([
+              getDetectedLicense(tool),
+              details.ecosystem && details.package ? discovered.byPackage.get(`${details.ecosystem}:${details.package}`) : null,
+              discovered.byName.get(tool.detectedName.toLowerCase())
+            ]),
+            policy,
+            {
+              version: tool.version,
+              toolId: tool.toolId,
+              detectedToolId: tool.id,
+              ...(details.package && { packageName: details.package }),
+              ...(details.ecosystem && { ecosystem: details.ecosystem })
+            }
+          );
+        })
+    }));
+
+    return {
+      policy,
+      stack,
+      repositories: repositoryReports,
+      summary: summarizeLicenseStatuses([...stack, ...repositoryReports.flatMap(report => report.entries)])
+    };
+  }
+
+  // Newest completed run per repository, including scheduled re-analyses of tracked repositories
+  private async getLatestCompletedAnalyses(userId: string, limit: number): Promise<RepositoryAnalysis[]> {
+    const analyses = await db
+      .select()
+      .from(repositoryAnalyses)
+      .where(and(await this.workspaceScope(repositoryAnalyses, userId), eq(repositoryAnalyses.status, "completed")))
+      .orderBy(desc(repositoryAnalyses.createdAt));
+
+    const latest = new Map<string, RepositoryAnalysis>();
+    for (const analysis of analyses) {
+      if (!latest.has(analysis.repositoryUrl)) latest.set(analysis.repositoryUrl, analysis);
+    }
+    return Array.from(latest.values()).slice(0, limit);
+  }
+
+  private async getDiscoveredLicenses(
+    names: string[],
+    packageNames: string[]
+  ): Promise<{ byName: Map<string, string>; byPackage: Map<string, string> }> {
+    const byName = new Map<string, string>();
+    const byPackage = new Map<string, string>();
+    const lowerNames = Array.from(new Set(names.map(name => name.toLowerCase())));
+    if (lowerNames.length === 0 && packageNames.length === 0) return { byName, byPackage };
+
+    const conditions: SQL[] = [];
+    if (lowerNames.length > 0) conditions.push(inArray(sql`lower(${discoveredTools.name})`, lowerNames));
+    if (packageNames.length > 0) conditions.push(inArray(discoveredTools.sourceId, Array.from(new Set(packageNames))));
+
+    const rows = await db
+      .select({
+        name: discoveredTools.name,
+        sourceType: discoveredTools.sourceType,
+        sourceId: discoveredTools.sourceId,
+        license: discoveredTools.license
+      })
+      .from(discoveredTools)
+      .where(and(sql`${discoveredTools.license} is not null`, or(...conditions)));
+
+    for (const row of rows) {
+      if (!row.license) continue;
+      if (!byName.has(row.name.toLowerCase())) byName.set(row.name.toLowerCase(), row.license);
+      byPackage.set(`${row.sourceType}:${row.sourceId}`, row.license);
+    }
+    return { byName, byPackage };
+  }
+
   // Task generation and management operations
   async getSavedIdea(id: string): Promise<SavedIdea | undefined> {
     const [idea] = await db.select().from(savedIdeas).where(eq(savedIdeas.id, id));
@@ -2050,6 +2733,37 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
     return generations;
   }
 
+  async getSharedTaskBoards(userId: string): Promise<SharedTaskBoard[]> {
+    const rows = await db
+      .select({
+        generation: taskGenerations,
+        projectId: projects.id,
+        role: projectCollaborators.role,
+        ownerUsername: users.username,
+      })
+      .from(projectCollaborators)
+      .innerJoin(projects, eq(projectCollaborators.projectId, projects.id))
+      .innerJoin(taskGenerations, and(eq(projects.generationId, taskGenerations.id), eq(projects.ownerId, taskGenerations.userId)))
+      .innerJoin(users, eq(taskGenerations.userId, users.id))
+      .where(and(eq(projectCollaborators.userId, userId), eq(projectCollaborators.status, "accepted")))
+      .orderBy(desc(taskGenerations.createdAt));
+    return rows.map(row => ({
+      ...row.generation,
+      projectId: row.projectId,
+      role: row.role as ProjectCollaboratorRole,
+      ownerUsername: row.ownerUsername,
+    }));
+  }
+
+  // The generation's owner, or anyone the project it is linked to grants the access
+  async verifyTaskGenerationAccess(generationId: string, userId: string, access: WorkspaceAccess = "write"): Promise<boolean> {
+    const generation = await this.getTaskGeneration(generationId);
+    if (!generation) return false;
+    if (generation.userId === userId) return true;
+    const project = await this.getProjectByGenerationId(generationId);
+    return project ? this.verifyProjectOwnership(project.id, userId, access) : false;
+  }
+
   async createProjectTask(task: InsertProjectTask): Promise<ProjectTask> {
     const [created] = await db.insert(projectTasks).values(task).returning();
     return created;
@@ -2090,11 +2804,35 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
     return tasks;
   }
 
-  async verifyTaskOwnership(taskId: string, userId: string): Promise<boolean> {
-    const [task] = await db.select({ userId: projectTasks.userId })
+  async getProjectTask(id: string): Promise<ProjectTask | undefined> {
+    const [task] = await db.select().from(projectTasks).where(eq(projectTasks.id, id));
+    return task;
+  }
+
+  async getAssignedTasks(userId: string): Promise<ProjectTask[]> {
+    return db.select()
+      .from(projectTasks)
+      .where(eq(projectTasks.assigneeId, userId))
+      .orderBy(asc(projectTasks.dueDate), desc(projectTasks.createdAt));
+  }
+
+  async assignProjectTask(id: string, assigneeId: string | null): Promise<ProjectTask | undefined> {
+    const [updated] = await db.update(projectTasks)
+      .set({ assigneeId, updatedAt: new Date() })
+      .where(eq(projectTasks.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Assignees may read and work on their own tasks; deleting ("manage") needs access to the whole board
+  async verifyTaskOwnership(taskId: string, userId: string, access: WorkspaceAccess = "write"): Promise<boolean> {
+    const [task] = await db.select({ userId: projectTasks.userId, assigneeId: projectTasks.assigneeId, generationId: projectTasks.generationId })
       .from(projectTasks)
       .where(eq(projectTasks.id, taskId));
-    return task?.userId === userId;
+    if (!task) return false;
+    if (task.userId === userId) return true;
+    if (task.assigneeId === userId && (access === "read" || access === "write")) return true;
+    return task.generationId ? this.verifyTaskGenerationAccess(task.generationId, userId, access) : false;
   }
 
   async createTaskDependency(dependency: InsertTaskDependency): Promise<TaskDependency> {
@@ -2112,21 +2850,18 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
   }
 
   async checkCircularDependency(taskId: string, dependsOnTaskId: string): Promise<boolean> {
-    // Simple implementation: check if dependsOnTaskId depends on taskId (direct circular)
-    const [dependency] = await db.select()
-      .from(taskDependencies)
-      .where(
-        and(
-          eq(taskDependencies.taskId, dependsOnTaskId),
-          eq(taskDependencies.dependsOnTaskId, taskId)
-        )
-      );
-    
-    if (dependency) return true;
-
-    // TODO: Implement deeper circular dependency detection using recursive queries
-    // For now, just check direct circular dependencies
-    return false;
+    // Follows dependsOnTaskId's dependencies transitively, one query per level
+    return wouldCreateDependencyCycle(taskId, dependsOnTaskId, async taskIds => {
+      const rows = await db.select({ taskId: taskDependencies.taskId, dependsOnTaskId: taskDependencies.dependsOnTaskId })
+        .from(taskDependencies)
+        .where(inArray(taskDependencies.taskId, taskIds));
+
+      const dependencies = new Map<string, string[]>();
+      for (const row of rows) {
+        dependencies.set(row.taskId, [...(dependencies.get(row.taskId) ?? []), row.dependsOnTaskId]);
+      }
+      return dependencies;
+    });
   }
 
   async getTaskMetrics(generationId: string): Promise<TaskMetrics> {
@@ -2210,6 +2945,327 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
     return created;
   }
 
+  // AI usage accounting operations
+  async recordAIInvocation(invocation: InsertAiInvocation): Promise<AiInvocation> {
+    const [created] = await db.insert(aiInvocations).values(invocation).returning();
+    return created;
+  }
+
+  async getAIInvocations(userId: string, since: Date): Promise<AiInvocation[]> {
+    return await db
+      .select()
+      .from(aiInvocations)
+      .where(and(eq(aiInvocations.userId, userId), gte(aiInvocations.createdAt, since)))
+      .orderBy(desc(aiInvocations.createdAt));
+  }
+
+  // Refinement thread operations
+  async getRefinementThread(targetType: RefinementTargetType, targetId: string): Promise<RefinementThread | undefined> {
+    const [thread] = await db
+      .select()
+      .from(refinementThreads)
+      .where(targetType === "idea" ? eq(refinementThreads.ideaId, targetId) : eq(refinementThreads.roadmapId, targetId));
+    return thread;
+  }
+
+  async getOrCreateRefinementThread(thread: InsertRefinementThread): Promise<RefinementThread> {
+    const [created] = await db.insert(refinementThreads).values(thread).onConflictDoNothing().returning();
+    if (created) {
+      return created;
+    }
+    const existing = await this.getRefinementThread(thread.ideaId ? "idea" : "roadmap", (thread.ideaId ?? thread.roadmapId)!);
+    return existing!;
+  }
+
+  async getRefinementMessages(threadId: string): Promise<RefinementMessage[]> {
+    return await db
+      .select()
+      .from(refinementMessages)
+      .where(eq(refinementMessages.threadId, threadId))
+      .orderBy(asc(refinementMessages.createdAt));
+  }
+
+  // Both sides of an exchange are stored once the reply exists, so a failed generation leaves no unanswered message
+  async addRefinementMessages(threadId: string, messages: Omit<InsertRefinementMessage, "threadId">[]): Promise<RefinementMessage[]> {
+    const now = Date.now();
+    const created = await db
+      .insert(refinementMessages)
+      .values(messages.map((message, index) => ({ ...message, threadId, createdAt: new Date(now + index) }))) // Keeps insertion order when sorted
+      .returning();
+    await db.update(refinementThreads).set({ updatedAt: new Date() }).where(eq(refinementThreads.id, threadId));
+    return created;
+  }
+
+  async getRefinementMessage(id: string): Promise<(RefinementMessage & { thread: RefinementThread }) | undefined> {
+    const [row] = await db
+      .select({ message: refinementMessages, thread: refinementThreads })
+      .from(refinementMessages)
+      .innerJoin(refinementThreads, eq(refinementMessages.threadId, refinementThreads.id))
+      .where(eq(refinementMessages.id, id));
+    return row ? { ...row.message, thread: row.thread } : undefined;
+  }
+
+  async updateRefinementMessage(id: string, updates: Partial<InsertRefinementMessage>): Promise<RefinementMessage | undefined> {
+    const [updated] = await db
+      .update(refinementMessages)
+      .set(updates)
+      .where(eq(refinementMessages.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Prompt template operations
+  // Versions of the active workspace, or the user's personal versions outside a workspace
+  async getPromptTemplateVersions(userId: string, templateKey?: PromptTemplateKey): Promise<PromptTemplateVersion[]> {
+    const conditions = [await this.workspaceScope(promptTemplateVersions, userId)];
+    if (templateKey) {
+      conditions.push(eq(promptTemplateVersions.templateKey, templateKey));
+    }
+    return await db
+      .select()
+      .from(promptTemplateVersions)
+      .where(and(...conditions))
+      .orderBy(asc(promptTemplateVersions.templateKey), desc(promptTemplateVersions.version));
+  }
+
+  async getActivePromptTemplate(userId: string, templateKey: PromptTemplateKey): Promise<PromptTemplateVersion | undefined> {
+    const [latest] = await db
+      .select()
+      .from(promptTemplateVersions)
+      .where(and(await this.workspaceScope(promptTemplateVersions, userId), eq(promptTemplateVersions.templateKey, templateKey)))
+      .orderBy(desc(promptTemplateVersions.version))
+      .limit(1);
+    return latest;
+  }
+
+  // The unique index rejects a concurrent save that picked the same version number
+  async createPromptTemplateVersion(userId: string, templateKey: PromptTemplateKey, body: string, note?: string): Promise<PromptTemplateVersion> {
+    const [workspaceId, latest] = await Promise.all([
+      this.getActiveWorkspaceId(userId),
+      this.getActivePromptTemplate(userId, templateKey)
+    ]);
+    const [created] = await db
+      .insert(promptTemplateVersions)
+      .values({ userId, workspaceId, templateKey, version: (latest?.version ?? 0) + 1, body, note })
+      .returning();
+    return created;
+  }
+
+  // Workspace operations
+  async createWorkspace(name: string, ownerId: string): Promise<Workspace> {
+    const [workspace] = await db.insert(workspaces).values({ name, createdBy: ownerId }).returning();
+    await this.addWorkspaceMember(workspace.id, ownerId, "owner");
+    return workspace;
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace;
+  }
+
+  async getUserWorkspaces(userId: string): Promise<WorkspaceSummary[]> {
+    const memberCounts = db
+      .select({ workspaceId: workspaceMemberships.workspaceId, memberCount: count().as("member_count") })
+      .from(workspaceMemberships)
+      .groupBy(workspaceMemberships.workspaceId)
+      .as("member_counts");
+
+    const rows = await db
+      .select({ workspace: workspaces, role: workspaceMemberships.role, memberCount: memberCounts.memberCount })
+      .from(workspaceMemberships)
+      .innerJoin(workspaces, eq(workspaceMemberships.workspaceId, workspaces.id))
+      .innerJoin(memberCounts, eq(memberCounts.workspaceId, workspaces.id))
+      .where(eq(workspaceMemberships.userId, userId))
+      .orderBy(asc(workspaces.name));
+
+    return rows.map(row => ({ ...row.workspace, role: row.role as WorkspaceRole, memberCount: Number(row.memberCount) }));
+  }
+
+  async updateWorkspace(id: string, updates: Partial<InsertWorkspace>): Promise<Workspace | undefined> {
+    const [updated] = await db
+      .update(workspaces)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(workspaces.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Cascades to the memberships and everything the workspace owns
+  async deleteWorkspace(id: string): Promise<void> {
+    await db.update(users).set({ activeWorkspaceId: null }).where(eq(users.activeWorkspaceId, id));
+    await db.delete(workspaces).where(eq(workspaces.id, id));
+  }
+
+  // Members who have not met the workspace's two-factor requirement get no role until they do
+  async getWorkspaceRole(workspaceId: string, userId: string): Promise<WorkspaceRole | undefined> {
+    const [membership] = await db
+      .select({ role: workspaceMemberships.role, requireTwoFactor: workspaces.requireTwoFactor, totpEnabledAt: users.totpEnabledAt })
+      .from(workspaceMemberships)
+      .innerJoin(workspaces, eq(workspaceMemberships.workspaceId, workspaces.id))
+      .innerJoin(users, eq(workspaceMemberships.userId, users.id))
+      .where(and(eq(workspaceMemberships.workspaceId, workspaceId), eq(workspaceMemberships.userId, userId)));
+    if (!membership || !meetsTwoFactorRequirement(membership.requireTwoFactor, membership.totpEnabledAt)) return undefined;
+    return membership.role as WorkspaceRole;
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberDetail[]> {
+    const rows = await db
+      .select({
+        userId: users.id,
+        username: users.username,
+        email: users.email,
+        role: workspaceMemberships.role,
+        joinedAt: workspaceMemberships.createdAt,
+        totpEnabledAt: users.totpEnabledAt,
+      })
+      .from(workspaceMemberships)
+      .innerJoin(users, eq(workspaceMemberships.userId, users.id))
+      .where(eq(workspaceMemberships.workspaceId, workspaceId))
+      .orderBy(asc(workspaceMemberships.createdAt));
+    return rows.map(({ totpEnabledAt, ...row }) => ({ ...row, role: row.role as WorkspaceRole, twoFactorEnabled: !!totpEnabledAt }));
+  }
+
+  async addWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole, invitedBy?: string): Promise<WorkspaceMembership> {
+    const [membership] = await db
+      .insert(workspaceMemberships)
+      .values({ workspaceId, userId, role, invitedBy })
+      .returning();
+    return membership;
+  }
+
+  async updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMembership | undefined> {
+    const [updated] = await db
+      .update(workspaceMemberships)
+      .set({ role })
+      .where(and(eq(workspaceMemberships.workspaceId, workspaceId), eq(workspaceMemberships.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  // What the member created stays with the workspace
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+    await db
+      .delete(workspaceMemberships)
+      .where(and(eq(workspaceMemberships.workspaceId, workspaceId), eq(workspaceMemberships.userId, userId)));
+    await db
+      .update(users)
+      .set({ activeWorkspaceId: null })
+      .where(and(eq(users.id, userId), eq(users.activeWorkspaceId, workspaceId)));
+  }
+
+  async getActiveWorkspace(userId: string): Promise<WorkspaceSummary | undefined> {
+    const workspaceId = await this.getActiveWorkspaceId(userId);
+    if (!workspaceId) return undefined;
+    const memberships = await this.getUserWorkspaces(userId);
+    return memberships.find(workspace => workspace.id === workspaceId);
+  }
+
+  async setActiveWorkspace(userId: string, workspaceId: string | null): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ activeWorkspaceId: workspaceId })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async createAccessToken(token: InsertPersonalAccessToken): Promise<AccessTokenSummary> {
+    const [created] = await db.insert(personalAccessTokens).values(token).returning();
+    return this.toAccessTokenSummary(created);
+  }
+
+  // Revoked tokens are kept for auditing but no longer listed
+  async getUserAccessTokens(userId: string): Promise<AccessTokenSummary[]> {
+    const tokens = await db.select().from(personalAccessTokens)
+      .where(and(eq(personalAccessTokens.userId, userId), isNull(personalAccessTokens.revokedAt)))
+      .orderBy(desc(personalAccessTokens.createdAt));
+    return tokens.map(token => this.toAccessTokenSummary(token));
+  }
+
+  async revokeAccessToken(id: string, userId: string): Promise<boolean> {
+    const revoked = await db.update(personalAccessTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(personalAccessTokens.id, id),
+        eq(personalAccessTokens.userId, userId),
+        isNull(personalAccessTokens.revokedAt)
+      ))
+      .returning({ id: personalAccessTokens.id });
+    return revoked.length > 0;
+  }
+
+  async getActiveAccessToken(tokenHash: string): Promise<PersonalAccessToken | undefined> {
+    const [token] = await db.select().from(personalAccessTokens)
+      .where(and(
+        eq(personalAccessTokens.tokenHash, tokenHash),
+        isNull(personalAccessTokens.revokedAt),
+        or(isNull(personalAccessTokens.expiresAt), gte(personalAccessTokens.expiresAt, new Date()))
+      ));
+    return token;
+  }
+
+  async touchAccessToken(id: string): Promise<void> {
+    await db.update(personalAccessTokens)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(personalAccessTokens.id, id));
+  }
+
+  private toAccessTokenSummary({ tokenHash, scopes, ...token }: PersonalAccessToken): AccessTokenSummary {
+    return { ...token, scopes: scopes as AccessTokenScope[] };
+  }
+
+  // The active workspace, or null for the personal space; a workspace the user no longer belongs to,
+  // or whose two-factor requirement they do not meet, does not count
+  private async getActiveWorkspaceId(userId: string): Promise<string | null> {
+    const [row] = await db
+      .select({ workspaceId: workspaceMemberships.workspaceId, requireTwoFactor: workspaces.requireTwoFactor, totpEnabledAt: users.totpEnabledAt })
+      .from(users)
+      .innerJoin(workspaceMemberships, and(
+        eq(workspaceMemberships.workspaceId, users.activeWorkspaceId),
+        eq(workspaceMemberships.userId, users.id)
+      ))
+      .innerJoin(workspaces, eq(workspaceMemberships.workspaceId, workspaces.id))
+      .where(eq(users.id, userId));
+    if (!row || !meetsTwoFactorRequirement(row.requireTwoFactor, row.totpEnabledAt)) return null;
+    return row.workspaceId;
+  }
+
+  // Rows of the user's active workspace, or their personal rows that belong to no workspace
+  private async workspaceScope(table: { userId: AnyPgColumn; workspaceId: AnyPgColumn }, userId: string): Promise<SQL> {
+    const workspaceId = await this.getActiveWorkspaceId(userId);
+    return workspaceId
+      ? eq(table.workspaceId, workspaceId)
+      : and(eq(table.userId, userId), isNull(table.workspaceId))!;
+  }
+
+  // Workspace rows need a membership role that allows the access; personal rows belong to their user only
+  private async canAccessScopedRow(
+    row: { userId: string; workspaceId: string | null } | undefined,
+    userId: string,
+    access: WorkspaceAccess
+  ): Promise<boolean> {
+    if (!row) return false;
+    if (!row.workspaceId) return row.userId === userId;
+    return workspaceRoleAllows(await this.getWorkspaceRole(row.workspaceId, userId), access);
+  }
+
+  // Data the rule-based generators work from when the LLM provider is unavailable
+  async getHeuristicSources(userId: string): Promise<HeuristicSources> {
+    const [userToolsList, categories, templates] = await Promise.all([
+      this.getUserTools(userId),
+      this.getTaskCategories(),
+      db.select().from(projectTemplates)
+        .where(and(
+          eq(projectTemplates.isActive, true),
+          or(eq(projectTemplates.isPublic, true), eq(projectTemplates.createdBy, userId))
+        ))
+        .orderBy(desc(projectTemplates.usageCount))
+        .limit(50)
+    ]);
+
+    return { userTools: userToolsList, taskCategories: categories, projectTemplates: templates };
+  }
+
   // Documentation system operations implementation
   
   // Doc categories operations
@@ -2858,7 +3914,8 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
   // Enhanced Project Planning Operations Implementation
   // Projects CRUD operations
   async createProject(project: InsertProject): Promise<Project> {
-    const [created] = await db.insert(projects).values(project).returning();
+    const workspaceId = await this.getActiveWorkspaceId(project.userId);
+    const [created] = await db.insert(projects).values({ ...project, workspaceId }).returning();
     return created;
   }
 
@@ -2874,7 +3931,11 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
     limit?: number;
     offset?: number;
   } = {}): Promise<Project[]> {
-    const conditions: SQL[] = [eq(projects.userId, userId)];
+    // Projects the user collaborates on are listed next to the active workspace's or personal ones
+    const conditions: SQL[] = [or(
+      await this.workspaceScope(projects, userId),
+      sql`${userId} = ANY(${projects.collaboratorIds})`
+    )!];
 
     if (filters.status) {
       conditions.push(eq(projects.status, filters.status));
@@ -2916,11 +3977,141 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
     await db.delete(projects).where(eq(projects.id, id));
   }
 
-  async verifyProjectOwnership(projectId: string, userId: string): Promise<boolean> {
-    const [project] = await db.select({ userId: projects.userId, ownerId: projects.ownerId })
+  async verifyProjectOwnership(projectId: string, userId: string, access: WorkspaceAccess = "write"): Promise<boolean> {
+    const [project] = await db.select({ userId: projects.userId, ownerId: projects.ownerId, workspaceId: projects.workspaceId })
+      .from(projects)
+      .where(eq(projects.id, projectId));
+    if (project && !project.workspaceId && project.ownerId === userId) return true;
+    const collaborator = project && await this.getProjectCollaborator(projectId, userId);
+    if (collaborator?.status === "accepted" && collaboratorRoleAllows(collaborator.role as ProjectCollaboratorRole, access)) return true;
+    return this.canAccessScopedRow(project, userId, access);
+  }
+
+  // Only a project owned by the generation's owner shares its board; anyone can link their own project to a generation id
+  async getProjectByGenerationId(generationId: string): Promise<Project | undefined> {
+    const [row] = await db.select({ project: projects })
       .from(projects)
+      .innerJoin(taskGenerations, and(eq(projects.generationId, taskGenerations.id), eq(projects.ownerId, taskGenerations.userId)))
+      .where(eq(projects.generationId, generationId))
+      .orderBy(asc(projects.createdAt))
+      .limit(1);
+    return row?.project;
+  }
+
+  // Project collaborator operations
+  async getProjectCollaborators(projectId: string): Promise<ProjectCollaboratorDetail[]> {
+    const [owner] = await db
+      .select({ userId: users.id, username: users.username, email: users.email, createdAt: projects.createdAt })
+      .from(projects)
+      .innerJoin(users, eq(projects.ownerId, users.id))
+      .where(eq(projects.id, projectId));
+    if (!owner) return [];
+
+    const rows = await db
+      .select({
+        userId: users.id,
+        username: users.username,
+        email: users.email,
+        role: projectCollaborators.role,
+        status: projectCollaborators.status,
+        invitedAt: projectCollaborators.createdAt,
+      })
+      .from(projectCollaborators)
+      .innerJoin(users, eq(projectCollaborators.userId, users.id))
+      .where(eq(projectCollaborators.projectId, projectId))
+      .orderBy(asc(projectCollaborators.createdAt));
+
+    return [
+      { userId: owner.userId, username: owner.username, email: owner.email, role: "owner", status: "accepted", invitedAt: owner.createdAt },
+      ...rows.map(row => ({
+        ...row,
+        role: row.role as ProjectCollaboratorRole,
+        status: row.status as ProjectCollaboratorDetail["status"],
+      })),
+    ];
+  }
+
+  async getProjectCollaborator(projectId: string, userId: string): Promise<ProjectCollaborator | undefined> {
+    const [collaborator] = await db.select().from(projectCollaborators)
+      .where(and(eq(projectCollaborators.projectId, projectId), eq(projectCollaborators.userId, userId)));
+    return collaborator;
+  }
+
+  async inviteProjectCollaborator(projectId: string, userId: string, role: ProjectCollaboratorRole, invitedBy: string): Promise<ProjectCollaborator> {
+    const [collaborator] = await db.insert(projectCollaborators)
+      .values({ projectId, userId, role, invitedBy })
+      .returning();
+    return collaborator;
+  }
+
+  async updateProjectCollaboratorRole(projectId: string, userId: string, role: ProjectCollaboratorRole): Promise<ProjectCollaborator | undefined> {
+    const [updated] = await db.update(projectCollaborators)
+      .set({ role })
+      .where(and(eq(projectCollaborators.projectId, projectId), eq(projectCollaborators.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  // Tasks on the project's board assigned to the collaborator go back to unassigned
+  async removeProjectCollaborator(projectId: string, userId: string): Promise<void> {
+    await db.delete(projectCollaborators)
+      .where(and(eq(projectCollaborators.projectId, projectId), eq(projectCollaborators.userId, userId)));
+    const project = await this.getProject(projectId);
+    if (project?.generationId) {
+      await db.update(projectTasks)
+        .set({ assigneeId: null, updatedAt: new Date() })
+        .where(and(eq(projectTasks.generationId, project.generationId), eq(projectTasks.assigneeId, userId)));
+    }
+    await this.syncCollaboratorIds(projectId);
+  }
+
+  async getProjectInvitations(userId: string): Promise<ProjectInvitation[]> {
+    const rows = await db
+      .select({
+        id: projectCollaborators.id,
+        projectId: projects.id,
+        projectName: projects.name,
+        role: projectCollaborators.role,
+        invitedByUsername: users.username,
+        invitedAt: projectCollaborators.createdAt,
+      })
+      .from(projectCollaborators)
+      .innerJoin(projects, eq(projectCollaborators.projectId, projects.id))
+      .leftJoin(users, eq(projectCollaborators.invitedBy, users.id))
+      .where(and(eq(projectCollaborators.userId, userId), eq(projectCollaborators.status, "pending")))
+      .orderBy(desc(projectCollaborators.createdAt));
+    return rows.map(row => ({ ...row, role: row.role as ProjectCollaboratorRole }));
+  }
+
+  // Accepting joins the project; declining deletes the invitation so the user can be invited again later
+  async respondToProjectInvitation(invitationId: string, userId: string, accept: boolean): Promise<ProjectCollaborator | undefined> {
+    const invitationCondition = and(
+      eq(projectCollaborators.id, invitationId),
+      eq(projectCollaborators.userId, userId),
+      eq(projectCollaborators.status, "pending")
+    );
+    const [invitation] = accept
+      ? await db.update(projectCollaborators)
+        .set({ status: "accepted", respondedAt: new Date() })
+        .where(invitationCondition)
+        .returning()
+      : await db.delete(projectCollaborators)
+        .where(invitationCondition)
+        .returning();
+    if (invitation) {
+      await this.syncCollaboratorIds(invitation.projectId);
+    }
+    return invitation;
+  }
+
+  private async syncCollaboratorIds(projectId: string): Promise<void> {
+    const collaborators = await db
+      .select({ userId: projectCollaborators.userId, status: projectCollaborators.status })
+      .from(projectCollaborators)
+      .where(eq(projectCollaborators.projectId, projectId));
+    await db.update(projects)
+      .set({ collaboratorIds: acceptedCollaboratorIds(collaborators), updatedAt: new Date() })
       .where(eq(projects.id, projectId));
-    return project?.userId === userId || project?.ownerId === userId;
   }
 
   // Project phases operations
@@ -3000,7 +4191,7 @@ async getDiscoveryCategorySummaries(): Promise<Array<{ id: string; name: string;
       .innerJoin(projects, eq(projectMilestones.projectId, projects.id))
       .where(
         and(
-          eq(projects.userId, userId),
+          await this.workspaceScope(projects, userId),
           sql`${projectMilestones.targetDate} <= ${endDate}`,
           eq(projectMilestones.status, 'pending')
         )
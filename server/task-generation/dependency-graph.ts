@@ -0,0 +1,43 @@
+/**
+ * Dependency Graph - Cycle detection for task dependencies, shared by storage and the AI evaluation harness
+ * Dependencies are loaded one level at a time so storage only reads the part of the graph reachable from the new edge.
+ */
+
+// Returns the tasks each of the given tasks depends on
+export type DependencyLoader = (taskIds: string[]) => Promise<Map<string, string[]>> | Map<string, string[]>;
+
+/**
+ * True when making taskId depend on dependsOnTaskId would close a loop,
+ * i.e. taskId is already reachable by following dependsOnTaskId's dependencies.
+ */
+export async function wouldCreateDependencyCycle(
+  taskId: string,
+  dependsOnTaskId: string,
+  loadDependencies: DependencyLoader
+): Promise<boolean> {
+  const visited = new Set<string>([dependsOnTaskId]);
+  let frontier = [dependsOnTaskId];
+
+  while (frontier.length > 0) {
+    if (frontier.includes(taskId)) return true;
+
+    const dependencies = await loadDependencies(frontier);
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const dependencyId of dependencies.get(id) ?? []) {
+        if (!visited.has(dependencyId)) {
+          visited.add(dependencyId);
+          next.push(dependencyId);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return false;
+}
+
+// Loader over an in-memory adjacency map, e.g. generated tasks linked by title
+export function mapDependencyLoader(graph: Map<string, string[]>): DependencyLoader {
+  return taskIds => new Map(taskIds.map(id => [id, graph.get(id) ?? []]));
+}
@@ -0,0 +1,45 @@
+/**
+ * Generation Stream - Server-Sent Events for streamed task generation and the registry of running generations
+ * The stream route registers an AbortController per generation so the cancel route can stop it from another request.
+ */
+
+import type { Response } from "express";
+import type { TaskGenerationStreamEvent } from "@shared/schema";
+
+const runningGenerations = new Map<string, AbortController>();
+
+export function openEventStream(res: Response): void {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive",
+    "X-Accel-Buffering": "no", // Keep reverse proxies from buffering the stream
+  });
+  res.flushHeaders();
+}
+
+export function formatEvent({ event, data }: TaskGenerationStreamEvent): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export function sendEvent(res: Response, event: TaskGenerationStreamEvent): void {
+  if (!res.writableEnded && !res.destroyed) {
+    res.write(formatEvent(event));
+  }
+}
+
+export function trackGeneration(generationId: string, controller: AbortController): void {
+  runningGenerations.set(generationId, controller);
+}
+
+export function untrackGeneration(generationId: string): void {
+  runningGenerations.delete(generationId);
+}
+
+// Returns false when the generation is not running in this process
+export function cancelRunningGeneration(generationId: string): boolean {
+  const controller = runningGenerations.get(generationId);
+  if (!controller) return false;
+  controller.abort();
+  return true;
+}
@@ -0,0 +1,61 @@
+import fs from "fs";
+import path from "path";
+import type { InsertTool } from "@shared/schema";
+
+// The seed catalog imported into `tools` on startup
+export const TOOLS_CSV_PATH = path.resolve(process.cwd(), "attached_assets", "tools (1)_1758015589276.csv");
+
+export function parseToolsCsv(csvContent: string): InsertTool[] {
+  const lines = csvContent.split("\n");
+  const headers = lines[0].split(",").map(h => h.replace(/"/g, "").trim());
+
+  const tools: InsertTool[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    // Parse CSV line handling quoted values
+    const values = [];
+    let current = "";
+    let inQuotes = false;
+
+    for (let j = 0; j < line.length; j++) {
+      const char = line[j];
+      if (char === '"') {
+        inQuotes = !inQuotes;
+      } else if (char === ',' && !inQuotes) {
+        values.push(current.trim());
+        current = "";
+      } else {
+        current += char;
+      }
+    }
+    values.push(current.trim());
+
+    if (values.length >= headers.length) {
+      tools.push({
+        id: values[0].replace(/"/g, ""),
+        name: values[1].replace(/"/g, ""),
+        description: values[2].replace(/"/g, ""),
+        category: values[3].replace(/"/g, ""),
+        url: values[4].replace(/"/g, ""),
+        frameworks: values[5].replace(/"/g, ""),
+        languages: values[6].replace(/"/g, ""),
+        features: values[7].replace(/"/g, ""),
+        integrations: values[8].replace(/"/g, ""),
+        maturityScore: values[9].replace(/"/g, "") || null,
+        popularityScore: values[10].replace(/"/g, "") || null,
+        pricing: values[11].replace(/"/g, ""),
+        notes: values[12].replace(/"/g, ""),
+      });
+    }
+  }
+
+  return tools;
+}
+
+// Undefined when the CSV is not present, e.g. in a trimmed deployment
+export function readSeedTools(csvPath: string = TOOLS_CSV_PATH): InsertTool[] | undefined {
+  return fs.existsSync(csvPath) ? parseToolsCsv(fs.readFileSync(csvPath, "utf-8")) : undefined;
+}
@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { describeRemovalProblem, describeRoleChangeProblem, workspaceRoleAllows } from "../workspace-roles";
+
+// Each role includes the access of the roles below it
+assert.ok(workspaceRoleAllows("viewer", "read"));
+assert.ok(!workspaceRoleAllows("viewer", "write"));
+assert.ok(workspaceRoleAllows("member", "write"));
+assert.ok(!workspaceRoleAllows("member", "manage"));
+assert.ok(workspaceRoleAllows("admin", "manage"));
+assert.ok(!workspaceRoleAllows("admin", "own"));
+assert.ok(workspaceRoleAllows("owner", "own"));
+assert.ok(!workspaceRoleAllows(undefined, "read"));
+
+// Admins manage members and viewers; owner and admin roles are for owners to hand out
+assert.equal(describeRoleChangeProblem("admin", undefined, "member", 1), undefined);
+assert.equal(describeRoleChangeProblem("admin", "viewer", "member", 1), undefined);
+assert.match(describeRoleChangeProblem("admin", "member", "admin", 1)!, /Only workspace owners/);
+assert.match(describeRoleChangeProblem("admin", "admin", "viewer", 1)!, /Only workspace owners/);
+assert.match(describeRoleChangeProblem("member", undefined, "viewer", 1)!, /owners and admins/);
+assert.equal(describeRoleChangeProblem("owner", "member", "owner", 1), undefined);
+
+// The last owner cannot step down or leave
+assert.match(describeRoleChangeProblem("owner", "owner", "admin", 1)!, /at least one owner/);
+assert.equal(describeRoleChangeProblem("owner", "owner", "admin", 2), undefined);
+assert.match(describeRemovalProblem("owner", "owner", true, 1)!, /at least one owner/);
+assert.equal(describeRemovalProblem("owner", "owner", true, 2), undefined);
+
+// Anyone may leave; removing others needs the manage role, and owners for privileged members
+assert.equal(describeRemovalProblem("viewer", "viewer", true, 1), undefined);
+assert.match(describeRemovalProblem("member", "viewer", false, 1)!, /owners and admins/);
+assert.equal(describeRemovalProblem("admin", "member", false, 1), undefined);
+assert.match(describeRemovalProblem("admin", "admin", false, 1)!, /Only workspace owners/);
+
+console.log("workspace-roles tests passed");
@@ -0,0 +1,65 @@
+/**
+ * Workspace Roles - What each membership role may do in a shared workspace
+ * Roles are ordered; every role can do everything the roles below it can.
+ */
+
+import type { WorkspaceRole } from "@shared/schema";
+
+// read: view the workspace's stack, projects, roadmaps and analyses
+// write: create and change them
+// manage: invite and remove members, change roles, set the workspace budget and name
+// own: delete the workspace and hand out the owner role
+export type WorkspaceAccess = "read" | "write" | "manage" | "own";
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, member: 1, admin: 2, owner: 3 };
+const ACCESS_RANK: Record<WorkspaceAccess, number> = { read: 0, write: 1, manage: 2, own: 3 };
+
+export function workspaceRoleAllows(role: WorkspaceRole | undefined, access: WorkspaceAccess): boolean {
+  return role !== undefined && ROLE_RANK[role] >= ACCESS_RANK[access];
+}
+
+/**
+ * Why the actor may not give the target member the new role, or undefined when the change is allowed.
+ * Admins manage members and viewers; only owners touch admins and owners, and the last owner cannot step down.
+ */
+export function describeRoleChangeProblem(
+  actorRole: WorkspaceRole | undefined,
+  currentRole: WorkspaceRole | undefined, // undefined when inviting a new member
+  newRole: WorkspaceRole,
+  ownerCount: number
+): string | undefined {
+  if (!workspaceRoleAllows(actorRole, "manage")) {
+    return "Only workspace owners and admins can manage members";
+  }
+  const touchesPrivilegedRole = newRole === "owner" || newRole === "admin" || currentRole === "owner" || currentRole === "admin";
+  if (touchesPrivilegedRole && !workspaceRoleAllows(actorRole, "own")) {
+    return "Only workspace owners can grant or change the owner and admin roles";
+  }
+  if (currentRole === "owner" && newRole !== "owner" && ownerCount <= 1) {
+    return "A workspace needs at least one owner";
+  }
+  return undefined;
+}
+
+/**
+ * Why the actor may not remove the target member, or undefined when the removal is allowed.
+ * Anyone may leave; removing someone else follows the same rules as changing their role.
+ */
+export function describeRemovalProblem(
+  actorRole: WorkspaceRole | undefined,
+  targetRole: WorkspaceRole,
+  isSelf: boolean,
+  ownerCount: number
+): string | undefined {
+  if (targetRole === "owner" && ownerCount <= 1) {
+    return "A workspace needs at least one owner";
+  }
+  if (isSelf) return undefined;
+  if (!workspaceRoleAllows(actorRole, "manage")) {
+    return "Only workspace owners and admins can remove members";
+  }
+  if ((targetRole === "owner" || targetRole === "admin") && !workspaceRoleAllows(actorRole, "own")) {
+    return "Only workspace owners can remove owners and admins";
+  }
+  return undefined;
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, timestamp, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, timestamp, boolean, jsonb, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -23,9 +23,86 @@ export const users = pgTable("users", {
   primaryGoals: text("primary_goals").array(), // ["build_mvp", "scale_product", "reduce_costs", "improve_security", etc.]
   companyStage: text("company_stage"), // "idea", "startup", "growth", "mature"
   aiContext: jsonb("ai_context"), // Additional flexible context data
+  activeWorkspaceId: varchar("active_workspace_id"), // Workspace the user is working in; null for their personal space
+  // Account security
+  failedLoginAttempts: integer("failed_login_attempts").default(0), // Consecutive failures; reset by a successful login
+  lockedUntil: timestamp("locked_until"),
+  passwordChangedAt: timestamp("password_changed_at"),
+  // Two-factor authentication; the secret is set at enrollment and only counts once totpEnabledAt is set
+  totpSecret: text("totp_secret"), // Base32
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastUsedStep: integer("totp_last_used_step"), // Codes from this 30-second step or earlier are not accepted again
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Express sessions, in the layout connect-pg-simple expects
+export const userSessions = pgTable("user_sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: jsonb("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => ({
+  expireIdx: index("user_sessions_expire_idx").on(table.expire),
+}));
+
+// One-time codes for signing in without the authenticator app; stored hashed, like reset tokens
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userIdx: index("two_factor_recovery_codes_user_idx").on(table.userId),
+}));
+
+// Single-use password reset links; like access tokens, only the SHA-256 of the token is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Shared team workspaces; stacks, budgets, projects, roadmaps and repository analyses can belong to one instead of a single user
+export const workspaces = pgTable("workspaces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  monthlyBudget: decimal("monthly_budget", { precision: 10, scale: 2 }), // Replaces the members' personal budgets inside the workspace
+  requireTwoFactor: boolean("require_two_factor").default(false), // Members without two-factor cannot open the workspace
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const workspaceMemberships = pgTable("workspace_memberships", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").notNull().default("member"), // WorkspaceRole: "owner", "admin", "member", "viewer"
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  workspaceUserIdx: uniqueIndex("workspace_memberships_workspace_user_idx").on(table.workspaceId, table.userId),
+}));
+
+// Bearer tokens for scripts and CI; only the SHA-256 of the token is stored, the token itself is shown once
+export const personalAccessTokens = pgTable("personal_access_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  displayPrefix: text("display_prefix").notNull(), // First characters of the token, to tell tokens apart
+  scopes: text("scopes").array().notNull(), // AccessTokenScope values
+  expiresAt: timestamp("expires_at"), // Null for tokens that do not expire
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userIdx: index("personal_access_tokens_user_idx").on(table.userId),
+}));
+
 export const tools = pgTable("tools", {
   id: varchar("id").primaryKey(),
   name: text("name").notNull(),
@@ -39,6 +116,7 @@ export const tools = pgTable("tools", {
   maturityScore: decimal("maturity_score", { precision: 3, scale: 1 }),
   popularityScore: decimal("popularity_score", { precision: 3, scale: 1 }),
   pricing: text("pricing"),
+  license: text("license"), // SPDX expression, e.g. "MIT" or "MIT OR Apache-2.0"
   notes: text("notes"),
 });
 
@@ -46,6 +124,7 @@ export const userTools = pgTable("user_tools", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   toolId: varchar("tool_id").notNull().references(() => tools.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }), // Null for a personal stack
   monthlyCost: decimal("monthly_cost", { precision: 10, scale: 2 }).default('0'),
   quantity: integer("quantity").default(1),
   isActive: boolean("is_active").default(true),
@@ -66,12 +145,14 @@ export const savedIdeas = pgTable("saved_ideas", {
   implementationComplexity: text("implementation_complexity"), // "low", "medium", "high"
   estimatedCost: decimal("estimated_cost", { precision: 10, scale: 2 }),
   timeToMarket: text("time_to_market"), // "1-3 months", "3-6 months", "6+ months"
+  generationMetadata: jsonb("generation_metadata"), // Source and AI validation outcome of the generated idea
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const techRoadmaps = pgTable("tech_roadmaps", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
   description: text("description").notNull(),
   currentStack: text("current_stack").array().notNull(),
@@ -82,6 +163,7 @@ export const techRoadmaps = pgTable("tech_roadmaps", {
   complexity: text("complexity").notNull(), // "low", "medium", "high"
   priority: text("priority").notNull(), // "low", "medium", "high", "urgent"
   status: text("status").default("draft"), // "draft", "active", "completed", "cancelled"
+  generationMetadata: jsonb("generation_metadata"), // Source and AI validation outcome of the generated roadmap
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -117,9 +199,11 @@ export const notifications = pgTable("notifications", {
 export const repositoryAnalyses = pgTable("repository_analyses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
   repositoryUrl: text("repository_url").notNull(),
   repositoryName: text("repository_name").notNull(),
   repositoryOwner: text("repository_owner").notNull(),
+  sourceType: text("source_type").notNull().default("github"), // "github", "archive", "local"
   branch: text("branch").default("main"),
   status: text("status").notNull().default("pending"), // "pending", "analyzing", "completed", "failed"
   analysisResults: jsonb("analysis_results"), // Detected tools and analysis data
@@ -127,6 +211,12 @@ export const repositoryAnalyses = pgTable("repository_analyses", {
   estimatedMonthlyCost: decimal("estimated_monthly_cost", { precision: 10, scale: 2 }).default('0'),
   confidenceScore: decimal("confidence_score", { precision: 3, scale: 2 }).default('0'), // Overall analysis confidence 0-1
   analysisError: text("analysis_error"), // Error message if analysis failed
+  // Scheduled re-analysis; re-runs are stored as child analyses of the tracked one
+  parentAnalysisId: varchar("parent_analysis_id"), // Tracked analysis this run re-analyzed
+  isTracked: boolean("is_tracked").notNull().default(false),
+  reanalysisIntervalHours: integer("reanalysis_interval_hours").default(24),
+  nextReanalysisAt: timestamp("next_reanalysis_at"),
+  lastReanalyzedAt: timestamp("last_reanalyzed_at"),
   createdAt: timestamp("created_at").defaultNow(),
   completedAt: timestamp("completed_at"),
 });
@@ -160,6 +250,137 @@ export const detectedTools = pgTable("detected_tools", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Differences between a tracked repository's latest re-analysis and its last import
+export const repositoryDriftReports = pgTable("repository_drift_reports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  analysisId: varchar("analysis_id").notNull().references(() => repositoryAnalyses.id, { onDelete: "cascade" }), // Tracked analysis
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  reanalysisId: varchar("reanalysis_id").references(() => repositoryAnalyses.id, { onDelete: "set null" }), // Child analysis holding the new detected tools
+  baselineAnalysisId: varchar("baseline_analysis_id").references(() => repositoryAnalyses.id, { onDelete: "set null" }), // Analysis the last import came from
+  status: text("status").notNull().default("completed"), // "completed", "failed"
+  addedTools: jsonb("added_tools").notNull().default([]), // RepositoryDriftEntry[]
+  removedTools: jsonb("removed_tools").notNull().default([]),
+  versionChangedTools: jsonb("version_changed_tools").notNull().default([]),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// User-defined detection rules, merged with the analyzer's built-in patterns
+export const detectionRules = pgTable("detection_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(), // Reported as the detected tool name; overrides a built-in rule of the same name
+  category: text("category").notNull(),
+  filePatterns: text("file_patterns").array().notNull(), // Globs such as "package.json" or "services/*/sdk.yaml"
+  contentPatterns: text("content_patterns").array(), // Regular expression sources matched against file content
+  dependencies: text("dependencies").array(), // npm package names
+  packages: jsonb("packages"), // Registry names per ecosystem, e.g. { "pypi": ["acme-sdk"] }
+  toolId: varchar("tool_id").references(() => tools.id, { onDelete: "set null" }), // Catalog tool to link detections to
+  confidence: decimal("confidence", { precision: 3, scale: 2 }).notNull().default('0.80'),
+  costEstimate: decimal("cost_estimate", { precision: 10, scale: 2 }),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Known vulnerabilities loaded offline from OSV JSON dumps; one row per advisory and affected package
+export const vulnerabilityAdvisories = pgTable("vulnerability_advisories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  advisoryId: text("advisory_id").notNull(), // OSV id, e.g. "GHSA-xxxx-xxxx-xxxx"
+  aliases: text("aliases").array().notNull().default([]), // CVE ids and other identifiers
+  ecosystem: text("ecosystem").notNull(), // PackageEcosystem
+  packageName: text("package_name").notNull(), // Normalized like lockfile package names
+  summary: text("summary"),
+  severity: text("severity").notNull().default("unknown"), // AdvisorySeverity
+  affectedRanges: jsonb("affected_ranges").notNull().default([]), // AdvisoryVersionRange[]
+  affectedVersions: text("affected_versions").array().notNull().default([]), // Explicitly listed versions
+  fixedVersions: text("fixed_versions").array().notNull().default([]),
+  referenceUrl: text("reference_url"),
+  publishedAt: timestamp("published_at"),
+  modifiedAt: timestamp("modified_at"),
+  importedAt: timestamp("imported_at").defaultNow(),
+}, (table) => ({
+  advisoryPackageIdx: uniqueIndex("vulnerability_advisories_advisory_package_idx").on(table.advisoryId, table.ecosystem, table.packageName),
+}));
+
+// Per-user license compliance policy applied to the stack and analyzed repositories
+export const licensePolicies = pgTable("license_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  allowedLicenses: text("allowed_licenses").array().notNull().default([]), // SPDX ids accepted even when copyleft
+  deniedLicenses: text("denied_licenses").array().notNull().default([]), // SPDX ids never accepted
+  flagCopyleft: boolean("flag_copyleft").notNull().default(true),
+  flagUnknown: boolean("flag_unknown").notNull().default(true),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Audit log of every AI provider call, used for token and cost accounting
+export const aiInvocations = pgTable("ai_invocations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  operation: text("operation").notNull(), // Generator task name, e.g. "business-ideas", "project-tasks"
+  provider: text("provider").notNull(), // gemini, openai, fixture
+  model: text("model").notNull(),
+  promptHash: varchar("prompt_hash", { length: 64 }).notNull(), // SHA-256 of the prompt; the prompt itself is not stored
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  usageEstimated: boolean("usage_estimated").notNull().default(false), // True when the provider reported no token counts
+  estimatedCost: decimal("estimated_cost", { precision: 10, scale: 6 }).notNull().default("0"),
+  latencyMs: integer("latency_ms").notNull(),
+  status: text("status").notNull(), // success, failure, cancelled
+  errorMessage: text("error_message"),
+  entityType: text("entity_type"), // idea, roadmap, task_generation
+  entityId: varchar("entity_id"),
+  streamed: boolean("streamed").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userCreatedIdx: index("ai_invocations_user_created_idx").on(table.userId, table.createdAt),
+}));
+
+// Conversational refinement of a saved idea (and its generated tasks) or a tech roadmap; one thread per target
+export const refinementThreads = pgTable("refinement_threads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  ideaId: varchar("idea_id").unique().references(() => savedIdeas.id, { onDelete: "cascade" }),
+  roadmapId: varchar("roadmap_id").unique().references(() => techRoadmaps.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const refinementMessages = pgTable("refinement_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  threadId: varchar("thread_id").notNull().references(() => refinementThreads.id, { onDelete: "cascade" }),
+  role: text("role").notNull(), // "user", "assistant"
+  content: text("content").notNull(),
+  diff: jsonb("diff"), // Proposed changes; assistant messages only
+  diffStatus: text("diff_status"), // "proposed", "applied", "discarded"; null when nothing was proposed
+  appliedAt: timestamp("applied_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  threadCreatedIdx: index("refinement_messages_thread_created_idx").on(table.threadId, table.createdAt),
+}));
+
+// Edited versions of the AI prompt templates, shared by a workspace's members or kept in the personal space;
+// the newest version in the scope is the active one
+export const promptTemplateVersions = pgTable("prompt_template_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Author; owner of personal versions
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }), // Null for personal versions
+  templateKey: text("template_key").notNull(), // Generator task name, e.g. "enhanced-business-ideas"
+  version: integer("version").notNull(), // 1, 2, ...; version 0 is the built-in default and is never stored
+  body: text("body").notNull(), // Template text with {{variable}} placeholders
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  // Version numbers are unique per scope: per workspace, and per user for personal versions
+  workspaceTemplateVersionIdx: uniqueIndex("prompt_template_versions_workspace_template_version_idx")
+    .on(table.workspaceId, table.templateKey, table.version)
+    .where(sql`${table.workspaceId} is not null`),
+  personalTemplateVersionIdx: uniqueIndex("prompt_template_versions_personal_template_version_idx")
+    .on(table.userId, table.templateKey, table.version)
+    .where(sql`${table.workspaceId} is null`),
+}));
+
 // Documentation system tables
 export const docCategories = pgTable("doc_categories", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -443,6 +664,25 @@ export const usersRelations = relations(users, ({ many }) => ({
   // Discovery relations
   discoveryPreferences: many(userDiscoveryPreferences),
   toolEvaluations: many(discoveredToolEvaluations),
+  workspaceMemberships: many(workspaceMemberships),
+  personalAccessTokens: many(personalAccessTokens),
+}));
+
+export const personalAccessTokensRelations = relations(personalAccessTokens, ({ one }) => ({
+  user: one(users, { fields: [personalAccessTokens.userId], references: [users.id] }),
+}));
+
+export const workspacesRelations = relations(workspaces, ({ many }) => ({
+  memberships: many(workspaceMemberships),
+  userTools: many(userTools),
+  techRoadmaps: many(techRoadmaps),
+  repositoryAnalyses: many(repositoryAnalyses),
+  projects: many(projects),
+}));
+
+export const workspaceMembershipsRelations = relations(workspaceMemberships, ({ one }) => ({
+  workspace: one(workspaces, { fields: [workspaceMemberships.workspaceId], references: [workspaces.id] }),
+  user: one(users, { fields: [workspaceMemberships.userId], references: [users.id] }),
 }));
 
 export const toolsRelations = relations(tools, ({ many }) => ({
@@ -452,6 +692,7 @@ export const toolsRelations = relations(tools, ({ many }) => ({
 export const userToolsRelations = relations(userTools, ({ one }) => ({
   user: one(users, { fields: [userTools.userId], references: [users.id] }),
   tool: one(tools, { fields: [userTools.toolId], references: [tools.id] }),
+  workspace: one(workspaces, { fields: [userTools.workspaceId], references: [workspaces.id] }),
 }));
 
 export const savedIdeasRelations = relations(savedIdeas, ({ one }) => ({
@@ -472,12 +713,22 @@ export const notificationsRelations = relations(notifications, ({ one }) => ({
 
 export const techRoadmapsRelations = relations(techRoadmaps, ({ one }) => ({
   user: one(users, { fields: [techRoadmaps.userId], references: [users.id] }),
+  workspace: one(workspaces, { fields: [techRoadmaps.workspaceId], references: [workspaces.id] }),
 }));
 
 export const repositoryAnalysesRelations = relations(repositoryAnalyses, ({ one, many }) => ({
   user: one(users, { fields: [repositoryAnalyses.userId], references: [users.id] }),
+  workspace: one(workspaces, { fields: [repositoryAnalyses.workspaceId], references: [workspaces.id] }),
   detectedTools: many(detectedTools),
   imports: many(repositoryImports),
+  parentAnalysis: one(repositoryAnalyses, { fields: [repositoryAnalyses.parentAnalysisId], references: [repositoryAnalyses.id], relationName: "parent_repository_analysis" }),
+  reanalyses: many(repositoryAnalyses, { relationName: "parent_repository_analysis" }),
+  driftReports: many(repositoryDriftReports, { relationName: "tracked_analysis_drift_reports" }),
+}));
+
+export const repositoryDriftReportsRelations = relations(repositoryDriftReports, ({ one }) => ({
+  user: one(users, { fields: [repositoryDriftReports.userId], references: [users.id] }),
+  analysis: one(repositoryAnalyses, { fields: [repositoryDriftReports.analysisId], references: [repositoryAnalyses.id], relationName: "tracked_analysis_drift_reports" }),
 }));
 
 export const repositoryImportsRelations = relations(repositoryImports, ({ one }) => ({
@@ -575,10 +826,66 @@ export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
 });
 
+export const PASSWORD_MIN_LENGTH = 10;
+
+export const passwordSchema = z.string()
+  .min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`)
+  .max(128, "Password must be at most 128 characters")
+  .regex(/[A-Za-z]/, "Password must contain a letter")
+  .regex(/\d/, "Password must contain a number");
+
+// Only these fields are accepted at sign-up; everything else on the user row is set later by the app
+export const registerUserSchema = z.object({
+  username: z.string().trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[A-Za-z0-9_.-]+$/, "Username can only contain letters, numbers, dots, dashes and underscores"),
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  password: passwordSchema,
+}).refine(data => !data.password.toLowerCase().includes(data.username.toLowerCase()), {
+  message: "Password must not contain your username",
+  path: ["password"],
+});
+
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema,
+});
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+});
+
+export const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  newPassword: passwordSchema,
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app"),
+});
+
+// The second login step takes either an authenticator code or one of the recovery codes
+export const twoFactorLoginSchema = z.object({
+  code: z.string().trim().optional(),
+  recoveryCode: z.string().trim().optional(),
+}).refine(data => !!data.code || !!data.recoveryCode, {
+  message: "Enter an authenticator or recovery code",
+  path: ["code"],
+});
+
+// Turning two-factor off or replacing the recovery codes asks for the password again
+export const twoFactorPasswordSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+});
+
 export const insertToolSchema = createInsertSchema(tools);
 
 export const insertUserToolSchema = createInsertSchema(userTools).omit({
   id: true,
+  workspaceId: true, // Assigned from the user's active workspace
   addedAt: true,
 });
 
@@ -611,6 +918,7 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
 
 export const insertTechRoadmapSchema = createInsertSchema(techRoadmaps).omit({
   id: true,
+  workspaceId: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -618,6 +926,7 @@ export const insertTechRoadmapSchema = createInsertSchema(techRoadmaps).omit({
 // Repository analysis insert schemas
 export const insertRepositoryAnalysisSchema = createInsertSchema(repositoryAnalyses).omit({
   id: true,
+  workspaceId: true,
   createdAt: true,
   completedAt: true,
 });
@@ -632,6 +941,59 @@ export const insertDetectedToolSchema = createInsertSchema(detectedTools).omit({
   createdAt: true,
 });
 
+export const insertRepositoryDriftReportSchema = createInsertSchema(repositoryDriftReports).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertVulnerabilityAdvisorySchema = createInsertSchema(vulnerabilityAdvisories).omit({
+  id: true,
+  importedAt: true,
+});
+
+export const insertLicensePolicySchema = createInsertSchema(licensePolicies).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertAiInvocationSchema = createInsertSchema(aiInvocations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRefinementThreadSchema = createInsertSchema(refinementThreads).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertRefinementMessageSchema = createInsertSchema(refinementMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPromptTemplateVersionSchema = createInsertSchema(promptTemplateVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertWorkspaceSchema = createInsertSchema(workspaces).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertWorkspaceMembershipSchema = createInsertSchema(workspaceMemberships).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDetectionRuleSchema = createInsertSchema(detectionRules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // Documentation insert schemas
 export const insertDocCategorySchema = createInsertSchema(docCategories).omit({
   id: true,
@@ -690,6 +1052,9 @@ export const userContextUpdateSchema = z.object({
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+// What the API returns for a user; credentials and lockout state stay on the server
+export type PublicUser = Omit<User, "password" | "failedLoginAttempts" | "lockedUntil" | "totpSecret" | "totpLastUsedStep">;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
 export type Tool = typeof tools.$inferSelect;
 export type InsertTool = z.infer<typeof insertToolSchema>;
 export type UserTool = typeof userTools.$inferSelect;
@@ -768,6 +1133,39 @@ export interface BudgetStatusResponse {
   isOverBudget: boolean;
 }
 
+export interface AIUsageBreakdown {
+  key: string; // Operation or model name
+  invocations: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number;
+}
+
+export interface AIUsageDailyPoint {
+  date: string; // YYYY-MM-DD
+  invocations: number;
+  estimatedCost: number;
+}
+
+export interface AIUsageResponse {
+  days: number;
+  totals: {
+    invocations: number;
+    failures: number;
+    inputTokens: number;
+    outputTokens: number;
+    estimatedCost: number;
+    averageLatencyMs: number;
+    projectedMonthlyCost: number; // Period cost scaled to 30 days
+  };
+  byOperation: AIUsageBreakdown[];
+  byModel: AIUsageBreakdown[];
+  daily: AIUsageDailyPoint[];
+  recent: Array<Pick<AiInvocation, "id" | "operation" | "model" | "status" | "inputTokens" | "outputTokens" | "estimatedCost" | "latencyMs" | "usageEstimated" | "createdAt">>;
+  toolMonthlySpend: number;
+  monthlyBudget: number | null;
+}
+
 export interface CostTrendPoint {
   date: string;
   totalCost: number;
@@ -861,6 +1259,17 @@ export interface UserAIContext {
   aiContext?: any;
 }
 
+// Whether a generated result came from the LLM provider or the rule-based fallback
+export type GenerationSource = "ai" | "heuristic";
+
+// How an AI response fared against its Zod schema; stored in the generation metadata of tasks, ideas and roadmaps
+export interface AIValidationOutcome {
+  valid: boolean;
+  attempts: number; // Provider calls made, including re-asks
+  repaired: boolean; // True when a re-ask produced the accepted response
+  issues: string[]; // Problems found in rejected responses or skipped items, e.g. "tasks.3.priority: Invalid enum value"
+}
+
 export interface EnhancedBusinessIdea {
   title: string;
   description: string;
@@ -873,6 +1282,9 @@ export interface EnhancedBusinessIdea {
   budgetFriendly: boolean;
   teamSuitability: string;
   industryFit: number; // 1-10 score
+  source?: GenerationSource;
+  cached?: boolean; // Served from the AI response cache instead of a new provider call
+  validation?: AIValidationOutcome;
 }
 
 export interface TechRoadmapPhase {
@@ -910,6 +1322,9 @@ export interface GeneratedTechRoadmap {
     timeline: string;
     team: string;
   };
+  source?: GenerationSource;
+  cached?: boolean;
+  validation?: AIValidationOutcome;
 }
 
 export interface ContextualRecommendation {
@@ -926,6 +1341,141 @@ export interface ContextualRecommendation {
   timeToValue: string;
   dependencies: string[];
   alternatives: string[];
+  relatedDocs?: DocReference[]; // Documentation sections that back or explain the recommendation
+  source?: GenerationSource;
+  cached?: boolean;
+}
+
+// A documentation section cited by an AI answer or recommendation
+export interface DocReference {
+  articleId: string;
+  slug: string;
+  title: string;
+  heading: string | null;
+  snippet: string;
+}
+
+export interface DocAnswerResponse {
+  question: string;
+  answer: string;
+  citations: DocReference[];
+  source: GenerationSource;
+}
+
+export interface PromptTemplateSummary {
+  key: PromptTemplateKey;
+  name: string;
+  description: string;
+  variables: Record<string, string>; // Variable name to what it contains
+  activeVersion: number; // 0 when the built-in default is in use
+  updatedAt: Date | null;
+}
+
+export interface PromptTemplateDetail extends PromptTemplateSummary {
+  body: string; // Active body
+  defaultBody: string;
+  versions: PromptTemplateVersion[]; // Newest first
+}
+
+export interface PromptTemplatePreviewResponse {
+  prompt: string;
+  variables: Record<string, string>; // Values the template was rendered with
+  unknownVariables: string[]; // Placeholders that are not variables of this template
+  missingVariables: string[]; // Required variables the template does not use
+}
+
+export interface WorkspaceSummary extends Workspace {
+  role: WorkspaceRole; // The requesting user's role
+  memberCount: number;
+}
+
+// The password step of /api/login answers with this instead of the user when a code is still needed
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+}
+
+export type LoginResponse = PublicUser | TwoFactorChallenge;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  requiredByWorkspaces: string[]; // Names of the user's workspaces that require two-factor
+}
+
+export interface TwoFactorSetupResponse {
+  secret: string; // Base32, for typing into the authenticator app by hand
+  otpauthUri: string; // Provisioning URI to render as a QR code
+}
+
+export interface RecoveryCodesResponse {
+  recoveryCodes: string[]; // Shown once; only their hashes are stored
+}
+
+// Token metadata; the hash never leaves the server
+export type AccessTokenSummary = Omit<PersonalAccessToken, "tokenHash" | "scopes"> & { scopes: AccessTokenScope[] };
+
+export interface CreatedAccessTokenResponse {
+  token: string; // Shown once; only its hash is stored
+  accessToken: AccessTokenSummary;
+}
+
+export interface WorkspaceMemberDetail {
+  userId: string;
+  username: string;
+  email: string;
+  role: WorkspaceRole;
+  joinedAt: Date | null;
+  twoFactorEnabled: boolean;
+}
+
+export type RefinementTargetType = "idea" | "roadmap";
+export type RefinementChangeType = "added" | "modified" | "removed";
+
+export interface RefinementFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RefinementPhaseChange {
+  changeType: RefinementChangeType;
+  phase: number;
+  title: string;
+  before?: TechRoadmapPhase;
+  after?: TechRoadmapPhase;
+}
+
+export interface RefinementTaskChange {
+  changeType: RefinementChangeType;
+  taskId?: string; // Unset for added tasks
+  title: string;
+  fields: RefinementFieldChange[]; // Changed task fields; every field for added tasks, none for removed ones
+}
+
+// What an assistant reply proposes; "before" values are checked against the current row when it is applied
+export interface RefinementDiff {
+  fields: RefinementFieldChange[]; // Idea or roadmap columns, in their stored format
+  timeline: RefinementPhaseChange[]; // Roadmap threads only
+  tasks: RefinementTaskChange[]; // Idea threads only; tasks of the idea's latest task generation
+}
+
+export interface RefinementThreadResponse {
+  thread: RefinementThread | null; // Null until the first message is sent
+  messages: RefinementMessage[];
+}
+
+export interface RefinementReplyResponse {
+  thread: RefinementThread;
+  userMessage: RefinementMessage;
+  assistantMessage: RefinementMessage;
+}
+
+export interface RefinementApplyResponse {
+  message: RefinementMessage;
+  idea?: SavedIdea;
+  roadmap?: TechRoadmap;
+  tasks?: ProjectTask[]; // The idea's tasks after the change
 }
 
 // AI Endpoint Validation Schemas
@@ -937,12 +1487,96 @@ export const generateIdeasSchema = z.object({
 export const enhancedIdeasSchema = z.object({
   selectedTools: z.array(z.string()).min(1, "Please select at least one tool"),
   goals: z.string().optional(),
+  regenerate: z.boolean().optional(), // Skip the response cache
 });
 
 export const generateRoadmapSchema = z.object({
   currentStack: z.array(z.string()).min(1, "Please provide current stack information"),
   targetGoals: z.array(z.string()).min(1, "Please provide target goals"),
   timeframe: z.string().optional(),
+  regenerate: z.boolean().optional(), // Skip the response cache
+});
+
+export const refinementMessageRequestSchema = z.object({
+  content: z.string().trim().min(1, "Message is required").max(4000, "Message too long"),
+});
+
+// Every AI generator whose prompt can be edited; the key is the generator's task name
+export const PROMPT_TEMPLATE_KEYS = [
+  "business-ideas",
+  "enhanced-business-ideas",
+  "tech-roadmap",
+  "contextual-recommendations",
+  "project-tasks",
+  "task-sequencing",
+  "task-refinements",
+  "idea-refinement",
+  "roadmap-refinement",
+  "docs-answer",
+] as const;
+
+export type PromptTemplateKey = typeof PROMPT_TEMPLATE_KEYS[number];
+
+export const promptTemplateKeyParamSchema = z.object({
+  key: z.enum(PROMPT_TEMPLATE_KEYS),
+});
+
+export const promptTemplateVersionRequestSchema = z.object({
+  body: z.string().trim().min(1, "Template body is required").max(20000, "Template too long"),
+  note: z.string().trim().max(200, "Note too long").optional(),
+});
+
+export const promptTemplateRollbackSchema = z.object({
+  version: z.number().int().min(0), // 0 restores the built-in default
+});
+
+// Renders a draft body, or the active template when no body is given, against a sample user context
+export const promptTemplatePreviewSchema = z.object({
+  body: z.string().max(20000, "Template too long").optional(),
+  userContext: userContextUpdateSchema.extend({ monthlyBudget: z.number().nonnegative().optional() }).optional(),
+  variables: z.record(z.string()).optional(), // Overrides for the sample variable values
+});
+
+export const WORKSPACE_ROLES = ["owner", "admin", "member", "viewer"] as const;
+
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+export const createWorkspaceSchema = z.object({
+  name: z.string().trim().min(1, "Workspace name is required").max(100, "Workspace name too long"),
+});
+
+export const updateWorkspaceSchema = z.object({
+  name: z.string().trim().min(1, "Workspace name is required").max(100, "Workspace name too long").optional(),
+  monthlyBudget: z.string().refine(val => !isNaN(Number(val)) && Number(val) >= 0, "Invalid budget amount").nullable().optional(),
+  requireTwoFactor: z.boolean().optional(),
+});
+
+// Members are invited by username or email; they must already have an account
+export const inviteWorkspaceMemberSchema = z.object({
+  identifier: z.string().trim().min(1, "Username or email is required"),
+  role: z.enum(WORKSPACE_ROLES).default("member"),
+});
+
+export const updateWorkspaceMemberSchema = z.object({
+  role: z.enum(WORKSPACE_ROLES),
+});
+
+// null switches back to the personal space
+export const activeWorkspaceSchema = z.object({
+  workspaceId: z.string().nullable(),
+});
+
+export const ACCESS_TOKEN_SCOPES = ["read:stack", "write:stack", "read:projects", "write:analyses"] as const;
+export type AccessTokenScope = typeof ACCESS_TOKEN_SCOPES[number];
+
+export const createAccessTokenSchema = z.object({
+  name: z.string().trim().min(1, "Token name is required").max(100, "Token name too long"),
+  scopes: z.array(z.enum(ACCESS_TOKEN_SCOPES)).min(1, "Select at least one scope"),
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(90), // null for a token that never expires
+});
+
+export const contextualRecommendationsQuerySchema = z.object({
+  regenerate: z.enum(["true", "false"]).optional(), // Skip the response cache
 });
 
 export const budgetRecommendationsQuerySchema = z.object({
@@ -970,6 +1604,13 @@ export const costTrendsQuerySchema = z.object({
   ),
 });
 
+export const aiUsageQuerySchema = z.object({
+  days: z.string().optional().refine(
+    val => val === undefined || (Number.isInteger(Number(val)) && Number(val) > 0 && Number(val) <= 365),
+    "Days must be a whole number between 1 and 365"
+  ),
+});
+
 export const updateUserBudgetSchema = z.object({
   monthlyBudget: z.union([
     z.string().refine(val => !isNaN(Number(val)) && Number(val) >= 0, "Invalid budget amount"),
@@ -1078,7 +1719,7 @@ export const taskGenerations = pgTable("task_generations", {
   ideaId: varchar("idea_id").notNull().references(() => savedIdeas.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
   description: text("description"),
-  status: text("status").notNull().default("pending"), // "pending", "generating", "completed", "failed"
+  status: text("status").notNull().default("pending"), // "pending", "generating", "completed", "failed", "cancelled"
   aiModel: text("ai_model").notNull().default("gemini-2.5-flash"),
   generationParameters: jsonb("generation_parameters"), // User context, preferences, constraints
   totalTasks: integer("total_tasks").default(0),
@@ -1123,6 +1764,7 @@ export const taskCategories = pgTable("task_categories", {
 export const projects = pgTable("projects", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
   ideaId: varchar("idea_id").references(() => savedIdeas.id, { onDelete: "set null" }),
   templateId: varchar("template_id").references(() => projectTemplates.id, { onDelete: "set null" }),
   generationId: varchar("generation_id").references(() => taskGenerations.id, { onDelete: "set null" }),
@@ -1173,6 +1815,20 @@ export const projects = pgTable("projects", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// People invited to a project; accepted collaborators are mirrored into projects.collaboratorIds
+export const projectCollaborators = pgTable("project_collaborators", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").notNull().default("editor"), // ProjectCollaboratorRole: "editor", "viewer"
+  status: text("status").notNull().default("pending"), // "pending", "accepted"; declined invitations are deleted
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  respondedAt: timestamp("responded_at"),
+}, (table) => ({
+  projectUserIdx: uniqueIndex("project_collaborators_project_user_idx").on(table.projectId, table.userId),
+}));
+
 export const projectPhases = pgTable("project_phases", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
@@ -1500,6 +2156,7 @@ export const projectAnalytics = pgTable("project_analytics", {
 export const projectsRelations = relations(projects, ({ one, many }) => ({
   user: one(users, { fields: [projects.userId], references: [users.id] }),
   owner: one(users, { fields: [projects.ownerId], references: [users.id] }),
+  workspace: one(workspaces, { fields: [projects.workspaceId], references: [workspaces.id] }),
   idea: one(savedIdeas, { fields: [projects.ideaId], references: [savedIdeas.id] }),
   template: one(projectTemplates, { fields: [projects.templateId], references: [projectTemplates.id] }),
   generation: one(taskGenerations, { fields: [projects.generationId], references: [taskGenerations.id] }),
@@ -1510,6 +2167,12 @@ export const projectsRelations = relations(projects, ({ one, many }) => ({
   timelines: many(projectTimelines),
   analytics: many(projectAnalytics),
   tasks: many(projectTasks),
+  collaborators: many(projectCollaborators),
+}));
+
+export const projectCollaboratorsRelations = relations(projectCollaborators, ({ one }) => ({
+  project: one(projects, { fields: [projectCollaborators.projectId], references: [projects.id] }),
+  user: one(users, { fields: [projectCollaborators.userId], references: [users.id] }),
 }));
 
 export const projectPhasesRelations = relations(projectPhases, ({ one, many }) => ({
@@ -1558,6 +2221,9 @@ export const projectAnalyticsRelations = relations(projectAnalytics, ({ one }) =
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = typeof projects.$inferInsert;
 
+export type ProjectCollaborator = typeof projectCollaborators.$inferSelect;
+export type InsertProjectCollaborator = typeof projectCollaborators.$inferInsert;
+
 export type ProjectPhase = typeof projectPhases.$inferSelect;
 export type InsertProjectPhase = typeof projectPhases.$inferInsert;
 
@@ -1582,11 +2248,14 @@ export type InsertProjectAnalytics = typeof projectAnalytics.$inferInsert;
 // Enhanced project planning insert schemas
 export const insertProjectSchema = createInsertSchema(projects).omit({
   id: true,
+  workspaceId: true,
+  collaboratorIds: true, // Maintained by the collaborator invitation routes
   createdAt: true,
   updatedAt: true,
 });
 
-export const updateProjectSchema = insertProjectSchema.partial();
+// Ownership is set at creation and never changes through an update, so collaborators cannot take a project over
+export const updateProjectSchema = insertProjectSchema.omit({ ownerId: true, userId: true }).partial();
 
 export const insertProjectPhaseSchema = createInsertSchema(projectPhases).omit({
   id: true,
@@ -1650,6 +2319,28 @@ export type RepositoryImport = typeof repositoryImports.$inferSelect;
 export type InsertRepositoryImport = z.infer<typeof insertRepositoryImportSchema>;
 export type DetectedTool = typeof detectedTools.$inferSelect;
 export type InsertDetectedTool = z.infer<typeof insertDetectedToolSchema>;
+export type RepositoryDriftReport = typeof repositoryDriftReports.$inferSelect;
+export type InsertRepositoryDriftReport = z.infer<typeof insertRepositoryDriftReportSchema>;
+export type DetectionRule = typeof detectionRules.$inferSelect;
+export type InsertDetectionRule = z.infer<typeof insertDetectionRuleSchema>;
+export type VulnerabilityAdvisory = typeof vulnerabilityAdvisories.$inferSelect;
+export type InsertVulnerabilityAdvisory = z.infer<typeof insertVulnerabilityAdvisorySchema>;
+export type LicensePolicy = typeof licensePolicies.$inferSelect;
+export type InsertLicensePolicy = z.infer<typeof insertLicensePolicySchema>;
+export type AiInvocation = typeof aiInvocations.$inferSelect;
+export type InsertAiInvocation = z.infer<typeof insertAiInvocationSchema>;
+export type RefinementThread = typeof refinementThreads.$inferSelect;
+export type InsertRefinementThread = z.infer<typeof insertRefinementThreadSchema>;
+export type RefinementMessage = typeof refinementMessages.$inferSelect;
+export type InsertRefinementMessage = z.infer<typeof insertRefinementMessageSchema>;
+export type PromptTemplateVersion = typeof promptTemplateVersions.$inferSelect;
+export type InsertPromptTemplateVersion = z.infer<typeof insertPromptTemplateVersionSchema>;
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type WorkspaceMembership = typeof workspaceMemberships.$inferSelect;
+export type InsertWorkspaceMembership = z.infer<typeof insertWorkspaceMembershipSchema>;
+export type PersonalAccessToken = typeof personalAccessTokens.$inferSelect;
+export type InsertPersonalAccessToken = typeof personalAccessTokens.$inferInsert;
 
 // GitHub URL validation pattern for security (SSRF protection)
 const GITHUB_URL_PATTERN = /^https:\/\/github\.com\/[\w\-\.]+\/[\w\-\.]+(?:\.git)?\/?$/;
@@ -1665,6 +2356,46 @@ export const repositoryAnalysisRequestSchema = z.object({
   branch: z.string().optional().default("main"),
 });
 
+// Uploaded archives carry their metadata in the query string (body is the raw archive)
+export const repositoryArchiveAnalysisQuerySchema = z.object({
+  fileName: z.string()
+    .min(1, "Archive file name is required")
+    .max(255, "Archive file name too long")
+    .refine(
+      (name) => /\.(zip|tar|tar\.gz|tgz)$/i.test(name),
+      "Only .zip, .tar, .tar.gz and .tgz archives are supported"
+    ),
+  repositoryName: z.string().trim().min(1).max(200).optional(),
+});
+
+// Server-side checkouts, resolved against LOCAL_REPOSITORY_ROOT (admin only)
+export const repositoryLocalAnalysisRequestSchema = z.object({
+  localPath: z.string().min(1, "Local path is required").max(1024, "Local path too long"),
+  repositoryName: z.string().trim().min(1).max(200).optional(),
+});
+
+// Tracking is only available for sources that can be fetched again (GitHub and local checkouts)
+export const repositoryTrackingRequestSchema = z.object({
+  enabled: z.boolean(),
+  intervalHours: z.number().int().min(1, "Interval must be at least 1 hour").max(24 * 30, "Interval must be at most 30 days").optional(),
+});
+
+export const SBOM_FORMATS = ["cyclonedx", "spdx"] as const;
+
+export const repositorySbomQuerySchema = z.object({
+  format: z.enum(SBOM_FORMATS).default("cyclonedx"),
+});
+
+// License ids are normalized to SPDX by the route before saving
+const licenseIdListSchema = z.array(z.string().trim().min(1).max(100)).max(100, "Too many licenses");
+
+export const licensePolicyRequestSchema = z.object({
+  allowedLicenses: licenseIdListSchema.optional(),
+  deniedLicenses: licenseIdListSchema.optional(),
+  flagCopyleft: z.boolean().optional(),
+  flagUnknown: z.boolean().optional(),
+});
+
 export const repositoryImportRequestSchema = z.object({
   analysisId: z.string().uuid("Invalid analysis ID"),
   selectedTools: z.array(z.object({
@@ -1674,7 +2405,137 @@ export const repositoryImportRequestSchema = z.object({
     isActive: z.boolean().optional().default(true),
   })),
   notes: z.string().optional(),
-});
+  dryRun: z.boolean().optional().default(false), // Return a RepositoryImportPreview without writing anything
+});
+
+const isValidRegExpSource = (source: string): boolean => {
+  try {
+    new RegExp(source);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Whether a pattern is free of the constructs that make backtracking blow up: a repeated group that contains,
+ * at any depth, an alternation or a quantifier, where either quantifier is unbounded ("((a|aa))*", "(a+)+", "(a+){3}"),
+ * and backreferences. The star-height check safe-regex uses; finite nesting such as "(\d{1,3}\.){3}" passes.
+ */
+export function isSafeRegExpSource(source: string): boolean {
+  interface Frame { quantified: boolean; unbounded: boolean; alternation: boolean }
+  const stack: Frame[] = [{ quantified: false, unbounded: false, alternation: false }];
+  // What the quantifier following the current position applies to; null when nothing can be repeated
+  let lastAtom: Frame | "simple" | null = null;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    const frame = stack[stack.length - 1];
+
+    if (char === "\\") {
+      const next = source[i + 1];
+      if (next === undefined) return false;
+      if (/[1-9]/.test(next) || (next === "k" && source[i + 2] === "<")) return false;
+      i++;
+      lastAtom = "simple";
+    } else if (char === "[") {
+      // Skip to the closing bracket; a class is a single atom
+      i++;
+      if (source[i] === "^") i++;
+      if (source[i] === "]") i++;
+      while (i < source.length && source[i] !== "]") {
+        if (source[i] === "\\") i++;
+        i++;
+      }
+      lastAtom = "simple";
+    } else if (char === "(") {
+      stack.push({ quantified: false, unbounded: false, alternation: false });
+      if (source[i + 1] === "?") {
+        // (?:, (?=, (?!, (?<=, (?<!, (?<name>
+        const named = source.slice(i + 2).match(/^<[A-Za-z_$][\w$]*>/);
+        i += named ? 1 + named[0].length : source[i + 2] === "<" ? 3 : 2;
+      }
+      lastAtom = null;
+    } else if (char === ")") {
+      if (stack.length === 1) return false;
+      const closed = stack.pop()!;
+      const parent = stack[stack.length - 1];
+      parent.quantified ||= closed.quantified;
+      parent.unbounded ||= closed.unbounded;
+      parent.alternation ||= closed.alternation;
+      lastAtom = closed;
+    } else if (char === "|") {
+      frame.alternation = true;
+      lastAtom = null;
+    } else if (char === "*" || char === "+" || char === "?" || char === "{") {
+      let max = char === "?" ? 1 : Infinity;
+      if (char === "{") {
+        const bounds = source.slice(i).match(/^\{(\d+)(,(\d*))?\}/);
+        if (!bounds) { lastAtom = "simple"; continue; } // A literal brace
+        max = bounds[2] === undefined ? Number(bounds[1]) : bounds[3] === "" ? Infinity : Number(bounds[3]);
+        i += bounds[0].length - 1;
+      }
+      if (source[i + 1] === "?") i++; // Lazy quantifiers backtrack just the same
+      if (lastAtom && typeof lastAtom === "object" && max > 1) {
+        if (lastAtom.alternation) return false;
+        if (lastAtom.quantified && (max === Infinity || lastAtom.unbounded)) return false;
+      }
+      frame.quantified = true;
+      if (max === Infinity) frame.unbounded = true;
+      lastAtom = null;
+    } else {
+      lastAtom = "simple";
+    }
+  }
+  return stack.length === 1;
+}
+
+const packageNameListSchema = z.array(z.string().trim().min(1).max(214)).max(20);
+
+// Detection rule requests; userId always comes from the session
+export const detectionRuleRequestSchema = z.object({
+  name: z.string().trim().min(1, "Rule name is required").max(100, "Rule name too long"),
+  category: z.string().trim().min(1, "Category is required").max(100, "Category too long"),
+  filePatterns: z.array(
+    z.string().trim().min(1).max(200).refine(
+      (glob) => !glob.startsWith("/") && !glob.split("/").includes(".."),
+      "File patterns must be relative to the repository root"
+    )
+  ).min(1, "At least one file pattern is required").max(20, "Too many file patterns"),
+  contentPatterns: z.array(
+    z.string().min(1).max(500, "Content pattern too long").refine(isValidRegExpSource, "Content patterns must be valid regular expressions")
+      .refine(isSafeRegExpSource, "Content patterns cannot repeat a group that contains a quantifier or alternation, or use backreferences")
+  ).max(20, "Too many content patterns").optional(),
+  dependencies: packageNameListSchema.optional(),
+  packages: z.object({
+    npm: packageNameListSchema.optional(),
+    pypi: packageNameListSchema.optional(),
+    rubygems: packageNameListSchema.optional(),
+    go: packageNameListSchema.optional(),
+    cargo: packageNameListSchema.optional(),
+  }).strict().optional(),
+  toolId: z.string().uuid("Invalid tool ID").nullable().optional(),
+  confidence: z.number().min(0.1).max(1).optional().default(0.8),
+  costEstimate: z.number().min(0).max(1000000).nullable().optional(),
+  isEnabled: z.boolean().optional().default(true),
+});
+
+export const updateDetectionRuleRequestSchema = detectionRuleRequestSchema.partial().extend({
+  // Defaults only apply on create
+  confidence: z.number().min(0.1).max(1).optional(),
+  isEnabled: z.boolean().optional(),
+});
+
+// Workspace sub-projects found while walking a monorepo
+export interface RepositoryWorkspaceSummary {
+  managers: string[]; // "npm", "yarn", "pnpm", "nx", "lerna", "go", "cargo"
+  projects: Array<{
+    name: string;
+    path: string;
+    managers: string[];
+    detectedTools: number;
+  }>;
+}
 
 // Repository analysis response interfaces  
 export interface RepositoryAnalysisResponse {
@@ -1688,7 +2549,136 @@ export interface RepositoryAnalysisResponse {
     totalEstimatedCost: number;
     confidenceScore: number;
     categories: string[];
+    workspaces?: RepositoryWorkspaceSummary;
+  };
+}
+
+// One selected tool in an import preview
+export interface RepositoryImportDiffEntry {
+  detectedToolId: string;
+  toolId: string;
+  name: string;
+  category: string;
+  monthlyCost: number; // After the import
+  previousMonthlyCost?: number; // Duplicates: what the existing user tool costs today
+  userToolId?: string; // Duplicates: the user tool that would be updated
+}
+
+export interface RepositoryImportRedundancyWarning {
+  category: string;
+  severity: OptimizationSeverity;
+  toolNames: string[];
+  potentialSavings: number;
+  recommendation: string;
+  reason: string;
+}
+
+// Dry-run result of POST /api/repositories/import, shown for confirmation before anything is written
+export interface RepositoryImportPreview {
+  analysisId: string;
+  newTools: RepositoryImportDiffEntry[];
+  duplicateTools: RepositoryImportDiffEntry[];
+  skippedTools: Array<{ detectedToolId: string; name: string; reason: string }>;
+  cost: {
+    currentMonthlyCost: number;
+    projectedMonthlyCost: number;
+    delta: number;
+    monthlyBudget: number | null;
+    remainingBudget: number | null; // After the import; negative when over budget
+    exceedsBudget: boolean;
   };
+  redundancyWarnings: RepositoryImportRedundancyWarning[];
+}
+
+// One tool in a drift report; versions are joined when several sub-projects disagree
+export interface RepositoryDriftEntry {
+  detectedName: string;
+  category: string;
+  version?: string | null;
+  previousVersion?: string | null;
+  detectedToolId?: string; // Row in the re-analysis (added/changed) or baseline (removed)
+  toolId?: string | null;
+  wasImported?: boolean; // Removed tools the user had imported into their stack
+}
+
+export interface RepositoryDriftReportResponse {
+  analysis: RepositoryAnalysis;
+  report: (Omit<RepositoryDriftReport, "addedTools" | "removedTools" | "versionChangedTools"> & {
+    addedTools: RepositoryDriftEntry[];
+    removedTools: RepositoryDriftEntry[];
+    versionChangedTools: RepositoryDriftEntry[];
+  }) | null;
+}
+
+// Package registries whose lockfiles the repository analyzer understands
+export type PackageEcosystem = "npm" | "pypi" | "rubygems" | "go" | "cargo";
+
+export type AdvisorySeverity = "critical" | "high" | "medium" | "low" | "unknown";
+
+// Affected interval from an OSV range: introduced <= version < fixed (or <= lastAffected)
+export interface AdvisoryVersionRange {
+  introduced: string;
+  fixed?: string;
+  lastAffected?: string;
+}
+
+export interface ToolVulnerabilityAdvisory {
+  advisoryId: string;
+  aliases: string[];
+  summary: string | null;
+  severity: AdvisorySeverity;
+  fixedVersions: string[];
+  referenceUrl: string | null;
+}
+
+// Known advisories affecting the exact version of a detected package
+export interface ToolVulnerability {
+  detectedToolId: string;
+  toolId: string | null;
+  detectedName: string;
+  packageName: string;
+  ecosystem: PackageEcosystem;
+  version: string;
+  highestSeverity: AdvisorySeverity;
+  advisories: ToolVulnerabilityAdvisory[];
+}
+
+export interface VulnerabilityReportResponse {
+  vulnerabilities: ToolVulnerability[];
+  advisoryCount: number; // Size of the loaded advisory dataset; 0 means nothing has been imported
+}
+
+// Restrictiveness buckets; "restricted" covers source-available licenses such as SSPL and BUSL
+export type LicenseCategory = "permissive" | "weak-copyleft" | "strong-copyleft" | "restricted" | "unknown";
+
+export type LicenseStatus = "allowed" | "flagged" | "denied";
+
+export interface LicenseReportEntry {
+  name: string;
+  license: string | null; // SPDX expression; null when no license could be determined
+  category: LicenseCategory;
+  status: LicenseStatus;
+  reason: string;
+  version?: string | null;
+  toolId?: string | null;
+  detectedToolId?: string;
+  packageName?: string;
+  ecosystem?: PackageEcosystem;
+}
+
+export interface RepositoryLicenseReport {
+  analysisId: string;
+  repositoryName: string;
+  repositoryOwner: string;
+  analyzedAt: Date | null;
+  entries: LicenseReportEntry[];
+}
+
+export interface LicenseReportResponse {
+  policy: Pick<LicensePolicy, "allowedLicenses" | "deniedLicenses" | "flagCopyleft" | "flagUnknown">;
+  stack: LicenseReportEntry[];
+  repositories: RepositoryLicenseReport[];
+  summary: Record<LicenseStatus, number>;
 }
 
 export interface DetectionPattern {
@@ -1697,13 +2687,24 @@ export interface DetectionPattern {
   files: string[];
   patterns: RegExp[];
   dependencies?: string[];
+  packages?: Partial<Record<PackageEcosystem, string[]>>; // Registry names matched against lockfiles
+  filePatterns?: RegExp[]; // Compiled path globs from user-defined rules
+  ruleId?: string; // Set for user-defined rules
+  toolId?: string; // Catalog tool the detection links to directly
   confidence: number;
   costEstimate?: number;
   alternatives?: string[];
 }
 
 export type RepositoryAnalysisRequest = z.infer<typeof repositoryAnalysisRequestSchema>;
+export type RepositoryArchiveAnalysisQuery = z.infer<typeof repositoryArchiveAnalysisQuerySchema>;
+export type RepositoryLocalAnalysisRequest = z.infer<typeof repositoryLocalAnalysisRequestSchema>;
 export type RepositoryImportRequest = z.infer<typeof repositoryImportRequestSchema>;
+export type RepositoryTrackingRequest = z.infer<typeof repositoryTrackingRequestSchema>;
+export type SbomFormat = typeof SBOM_FORMATS[number];
+export type DetectionRuleRequest = z.infer<typeof detectionRuleRequestSchema>;
+export type UpdateDetectionRuleRequest = z.infer<typeof updateDetectionRuleRequestSchema>;
+export type LicensePolicyRequest = z.infer<typeof licensePolicyRequestSchema>;
 
 // Task generation schemas
 export const insertProjectTaskSchema = createInsertSchema(projectTasks).omit({
@@ -1715,6 +2716,7 @@ export const insertProjectTaskSchema = createInsertSchema(projectTasks).omit({
 export const updateProjectTaskSchema = createInsertSchema(projectTasks).omit({
   id: true,
   userId: true,
+  assigneeId: true, // Set through PUT /api/tasks/:id/assignee, which checks the assignee can see the board
   createdAt: true,
   updatedAt: true,
 }).partial();
@@ -1768,6 +2770,23 @@ export const createTaskDependencySchema = z.object({
   notes: z.string().optional(),
 });
 
+export const assignTaskSchema = z.object({
+  assigneeId: z.string().nullable(), // null unassigns the task
+});
+
+export const PROJECT_COLLABORATOR_ROLES = ["editor", "viewer"] as const;
+export type ProjectCollaboratorRole = typeof PROJECT_COLLABORATOR_ROLES[number];
+
+// Collaborators are invited by username or email and join once they accept
+export const inviteProjectCollaboratorSchema = z.object({
+  identifier: z.string().trim().min(1, "Username or email is required"),
+  role: z.enum(PROJECT_COLLABORATOR_ROLES).default("editor"),
+});
+
+export const updateProjectCollaboratorSchema = z.object({
+  role: z.enum(PROJECT_COLLABORATOR_ROLES),
+});
+
 // Task generation types
 export type ProjectTask = typeof projectTasks.$inferSelect;
 export type InsertProjectTask = z.infer<typeof insertProjectTaskSchema>;
@@ -1801,8 +2820,17 @@ export interface GeneratedTasksResponse {
     missingTools: string[];
     additionalCosts: number;
   };
+  source: GenerationSource;
 }
 
+// Server-sent events of POST /api/ideas/:id/generate-tasks/stream, in the order they are sent
+export type TaskGenerationStreamEvent =
+  | { event: "generation"; data: TaskGeneration }
+  | { event: "task"; data: { task: ProjectTask; totalTasks: number } }
+  | { event: "complete"; data: GeneratedTasksResponse }
+  | { event: "cancelled"; data: { generationId: string; totalTasks: number } }
+  | { event: "error"; data: { message: string } };
+
 export interface TaskGenerationParameters {
   targetTimeframe?: "1-3 months" | "3-6 months" | "6-12 months" | "12+ months";
   focusAreas?: ("mvp" | "full_featured" | "scalable" | "cost_optimized")[];
@@ -1850,6 +2878,44 @@ export interface TaskMetrics {
   estimatedRemainingTime: string;
 }
 
+// The owner is listed first with the "owner" role; pending invitees are listed but cannot be assigned tasks
+export interface ProjectCollaboratorDetail {
+  userId: string;
+  username: string;
+  email: string;
+  role: ProjectCollaboratorRole | "owner";
+  status: "pending" | "accepted";
+  invitedAt: Date | null;
+}
+
+// A pending invitation addressed to the requesting user
+export interface ProjectInvitation {
+  id: string;
+  projectId: string;
+  projectName: string;
+  role: ProjectCollaboratorRole;
+  invitedByUsername: string | null;
+  invitedAt: Date | null;
+}
+
+// A task board another user shared through the project it is linked to
+export interface SharedTaskBoard extends TaskGeneration {
+  projectId: string;
+  role: ProjectCollaboratorRole;
+  ownerUsername: string;
+}
+
+// GET /api/tasks/project/:generationId
+export interface TaskBoardResponse {
+  generation: TaskGeneration;
+  tasks: ProjectTask[];
+  dependencies: TaskDependency[];
+  metrics: TaskMetrics;
+  projectId: string | null; // The project the board is shared through, if any
+  access: ProjectCollaboratorRole | "owner";
+  team: ProjectCollaboratorDetail[]; // Accepted members who can be assigned tasks
+}
+
 // Task generation request types
 export type GenerateTasksRequest = z.infer<typeof generateTasksSchema>;
 export type UpdateTaskStatusRequest = z.infer<typeof updateTaskStatusSchema>;
@@ -1877,6 +2943,10 @@ export const docSearchSchema = z.object({
 
 export const updateDocumentationArticleSchema = insertDocumentationArticleSchema.partial();
 
+export const docAskRequestSchema = z.object({
+  question: z.string().trim().min(3, "Question is too short").max(500, "Question too long"),
+});
+
 export const createDocRatingSchema = z.object({
   rating: z.number().int().min(1).max(5),
   review: z.string().max(1000, "Review too long").optional(),
@@ -1968,6 +3038,7 @@ export interface DocAnalytics {
 
 // Documentation request types
 export type DocSearchRequest = z.infer<typeof docSearchSchema>;
+export type DocAskRequest = z.infer<typeof docAskRequestSchema>;
 export type UpdateDocumentationArticleRequest = z.infer<typeof updateDocumentationArticleSchema>;
 export type CreateDocRatingRequest = z.infer<typeof createDocRatingSchema>;
 export type CreateDocBookmarkRequest = z.infer<typeof createDocBookmarkSchema>;